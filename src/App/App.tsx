@@ -24,11 +24,20 @@ import { SubaccountContextProvider } from "context/SubaccountContext/SubaccountC
 import { SyntheticsEventsProvider } from "context/SyntheticsEvents";
 import { WebsocketContextProvider } from "context/WebsocketContext/WebsocketContextProvider";
 import { PendingTransaction } from "domain/legacy";
+import { SidecarOrderTemplatesContextProvider } from "domain/synthetics/sidecarOrders/useSidecarOrderTemplates";
 import { GmTokensFavoritesContextProvider } from "domain/synthetics/tokens/useGmTokensFavorites";
 import { IndexTokensFavoritesContextProvider } from "domain/synthetics/tokens/useIndexTokensFavorites";
+import { TrailingStopsContextProvider } from "domain/synthetics/trailingStops/useTrailingStops";
+import { TwapOrdersContextProvider } from "domain/synthetics/twap/useTwapOrders";
+import { PaperTradingContextProvider } from "domain/synthetics/paperTrading/usePaperTrading";
+import { PriceAlertsContextProvider } from "domain/synthetics/priceAlerts/usePriceAlerts";
+import { AccountWatchlistContextProvider } from "domain/synthetics/accountWatchlist/useAccountWatchlist";
+import { ConditionalOrdersContextProvider } from "domain/synthetics/conditionalOrders/useConditionalOrders";
+import { GmHedgesContextProvider } from "domain/synthetics/gmHedge/useGmHedges";
 import { useChainId } from "lib/chains";
 import { helperToast } from "lib/helperToast";
 import { defaultLocale, dynamicActivate } from "lib/i18n";
+import { getRpcTracker } from "lib/rpc/rpcTracker";
 import useScrollToTop from "lib/useScrollToTop";
 import { RainbowKitProviderWrapper } from "lib/wallets/WalletProvider";
 import { useEthersSigner } from "lib/wallets/useEthersSigner";
@@ -109,6 +118,14 @@ function App() {
 
   useScrollToTop();
 
+  useEffect(() => {
+    const rpcTracker = getRpcTracker(chainId);
+
+    rpcTracker.start();
+
+    return () => rpcTracker.stop();
+  }, [chainId]);
+
   useEffect(() => {
     const defaultLanguage = localStorage.getItem(LANGUAGE_LOCALSTORAGE_KEY) || defaultLocale;
     dynamicActivate(defaultLanguage);
@@ -117,6 +134,14 @@ function App() {
   let app = <AppRoutes />;
   app = <IndexTokensFavoritesContextProvider>{app}</IndexTokensFavoritesContextProvider>;
   app = <GmTokensFavoritesContextProvider>{app}</GmTokensFavoritesContextProvider>;
+  app = <SidecarOrderTemplatesContextProvider>{app}</SidecarOrderTemplatesContextProvider>;
+  app = <TrailingStopsContextProvider>{app}</TrailingStopsContextProvider>;
+  app = <TwapOrdersContextProvider>{app}</TwapOrdersContextProvider>;
+  app = <PaperTradingContextProvider>{app}</PaperTradingContextProvider>;
+  app = <PriceAlertsContextProvider>{app}</PriceAlertsContextProvider>;
+  app = <AccountWatchlistContextProvider>{app}</AccountWatchlistContextProvider>;
+  app = <ConditionalOrdersContextProvider>{app}</ConditionalOrdersContextProvider>;
+  app = <GmHedgesContextProvider>{app}</GmHedgesContextProvider>;
   app = <SyntheticsEventsProvider>{app}</SyntheticsEventsProvider>;
   app = <SubaccountContextProvider>{app}</SubaccountContextProvider>;
   app = <WebsocketContextProvider>{app}</WebsocketContextProvider>;
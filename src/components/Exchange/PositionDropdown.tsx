@@ -3,8 +3,8 @@ import { Trans } from "@lingui/macro";
 import { autoUpdate, useFloating, flip, offset, shift, FloatingPortal } from "@floating-ui/react";
 import "./PositionDropdown.css";
 import { HiDotsVertical } from "react-icons/hi";
-import { AiOutlineEdit } from "react-icons/ai";
-import { BiSelectMultiple } from "react-icons/bi";
+import { AiOutlineEdit, AiOutlineSwap } from "react-icons/ai";
+import { BiBell, BiGitBranch, BiSelectMultiple } from "react-icons/bi";
 import { RiShareBoxFill } from "react-icons/ri";
 import increaseLimit from "img/ic_increaselimit_16.svg";
 import increaseMarket from "img/ic_increasemarket_16.svg";
@@ -17,6 +17,10 @@ type Props = {
   handleMarketIncreaseSize?: () => void;
   handleLimitIncreaseSize?: () => void;
   handleTriggerClose?: () => void;
+  handleApplyTpSlTemplate?: () => void;
+  handleCreateAlert?: () => void;
+  handleMigrate?: () => void;
+  handleConditionalOrders?: () => void;
 };
 
 export default function PositionDropdown({
@@ -26,6 +30,10 @@ export default function PositionDropdown({
   handleMarketIncreaseSize,
   handleLimitIncreaseSize,
   handleTriggerClose,
+  handleApplyTpSlTemplate,
+  handleCreateAlert,
+  handleMigrate,
+  handleConditionalOrders,
 }: Props) {
   const { refs, floatingStyles } = useFloating({
     middleware: [offset({ mainAxis: 10 }), flip(), shift()],
@@ -97,6 +105,46 @@ export default function PositionDropdown({
               </div>
             </Menu.Item>
           )}
+          {handleApplyTpSlTemplate && (
+            <Menu.Item>
+              <div className="menu-item" onClick={handleApplyTpSlTemplate}>
+                <img src={triggerClose} alt="Apply TP/SL Template" height={16} />
+                <p>
+                  <Trans>Apply TP/SL Template</Trans>
+                </p>
+              </div>
+            </Menu.Item>
+          )}
+          {handleCreateAlert && (
+            <Menu.Item>
+              <div className="menu-item" onClick={handleCreateAlert}>
+                <BiBell fontSize={16} />
+                <p>
+                  <Trans>Create Alert</Trans>
+                </p>
+              </div>
+            </Menu.Item>
+          )}
+          {handleConditionalOrders && (
+            <Menu.Item>
+              <div className="menu-item" onClick={handleConditionalOrders}>
+                <BiGitBranch fontSize={16} />
+                <p>
+                  <Trans>Conditional Orders</Trans>
+                </p>
+              </div>
+            </Menu.Item>
+          )}
+          {handleMigrate && (
+            <Menu.Item>
+              <div className="menu-item" onClick={handleMigrate}>
+                <AiOutlineSwap fontSize={16} />
+                <p>
+                  <Trans>Migrate Position</Trans>
+                </p>
+              </div>
+            </Menu.Item>
+          )}
           {handleShare && (
             <Menu.Item>
               <div className="menu-item" onClick={handleShare}>
@@ -29,6 +29,7 @@ import "./AffiliatesStats.scss";
 import { ClaimAffiliatesModal } from "./ClaimAffiliatesModal/ClaimAffiliatesModal";
 import EmptyMessage from "./EmptyMessage";
 import { ReferralCodeWarnings } from "./ReferralCodeWarnings";
+import { ReferralCohorts } from "./ReferralCohorts";
 import ReferralInfoCard from "./ReferralInfoCard";
 import {
   getReferralCodeTradeUrl,
@@ -42,6 +43,7 @@ import usePagination from "./usePagination";
 
 type Props = {
   chainId: number;
+  account: string;
   referralsData?: TotalReferralsStats;
   handleCreateReferralCode: (code: string) => void;
   setRecentlyAddedCodes: (codes: ReferralCodeStats[]) => void;
@@ -50,6 +52,7 @@ type Props = {
 
 function AffiliatesStats({
   chainId,
+  account,
   referralsData,
   recentlyAddedCodes,
   handleCreateReferralCode,
@@ -371,6 +374,9 @@ function AffiliatesStats({
           pageCount={affiliatesPageCount}
           onPageChange={(page) => setCurrentAffiliatesPage(page)}
         />
+        {allReferralCodes && allReferralCodes.length > 0 && (
+          <ReferralCohorts chainId={chainId} account={account} referralCodes={allReferralCodes} tierId={tierId} />
+        )}
       </div>
       {currentRebateData.length > 0 ? (
         <div className="reward-history">
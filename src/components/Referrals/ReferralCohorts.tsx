@@ -0,0 +1,285 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback, useMemo, useState } from "react";
+
+import {
+  REFERRAL_RETENTION_WEEKS,
+  ReferralCohort,
+  ReferralCohortExportRow,
+  ReferralTraderExportRow,
+  filterReferralVolumeRecords,
+  getReferralCohortExportRow,
+  getReferralCohorts,
+  getReferralTierRebateProjection,
+  getReferralTraderExportRow,
+  getReferralVolumeConcentration,
+  useReferralCohortsData,
+} from "domain/referrals";
+import { downloadAsCsv } from "lib/csv";
+import { formatDate, useDateRange, useNormalizeDateRange } from "lib/dates";
+import { shortenAddress } from "lib/legacy";
+import { formatPercentage, formatUsd } from "lib/numbers";
+
+import Button from "components/Button/Button";
+import Loader from "components/Common/Loader";
+import { DateRangeSelect } from "components/Synthetics/DateRangeSelect/DateRangeSelect";
+import { ExchangeTd, ExchangeTh, ExchangeTheadTr, ExchangeTr } from "components/Synthetics/OrderList/ExchangeTable";
+import Tab from "components/Tab/Tab";
+import Card from "../Common/Card";
+import { getTierIdDisplay, tierRebateInfo } from "./referralsHelper";
+
+import downloadIcon from "img/ic_download_simple.svg";
+
+// codes can't contain "*", see encodeReferralCode
+const ALL_CODES_OPTION = "*";
+const TOP_TRADERS_COUNTS = [5, 10, 25];
+const RETENTION_WEEKS = Array.from({ length: REFERRAL_RETENTION_WEEKS }, (_, i) => i + 1);
+
+type Props = {
+  chainId: number;
+  account: string;
+  referralCodes: string[];
+  tierId: number | undefined;
+};
+
+export function ReferralCohorts({ chainId, account, referralCodes, tierId }: Props) {
+  const [codeOption, setCodeOption] = useState(ALL_CODES_OPTION);
+  const [topTradersCount, setTopTradersCount] = useState(TOP_TRADERS_COUNTS[1]);
+  const [startDate, endDate, setDateRange] = useDateRange();
+  const [fromTimestamp, toTimestamp] = useNormalizeDateRange(startDate, endDate);
+
+  const { records, historyStartTimestamp, isLoading, error } = useReferralCohortsData(chainId, account);
+
+  const referralCode = codeOption === ALL_CODES_OPTION ? undefined : codeOption;
+  const codeOptions = useMemo(() => [ALL_CODES_OPTION, ...referralCodes], [referralCodes]);
+  const codeOptionLabels = useMemo(() => ({ [ALL_CODES_OPTION]: t`All Codes` }), []);
+
+  const cohorts = useMemo(
+    () =>
+      getReferralCohorts(records, {
+        referralCode,
+        fromTimestamp,
+        toTimestamp,
+        nowTimestamp: Math.floor(Date.now() / 1000),
+        historyStartTimestamp,
+      }),
+    [fromTimestamp, historyStartTimestamp, records, referralCode, toTimestamp]
+  );
+
+  const filteredRecords = useMemo(
+    () => filterReferralVolumeRecords(records, { referralCode, fromTimestamp, toTimestamp }),
+    [fromTimestamp, records, referralCode, toTimestamp]
+  );
+
+  const concentration = useMemo(
+    () => getReferralVolumeConcentration(filteredRecords, topTradersCount),
+    [filteredRecords, topTradersCount]
+  );
+
+  const tierProjection = useMemo(
+    () => (tierId === undefined ? undefined : getReferralTierRebateProjection(filteredRecords, tierId, tierRebateInfo)),
+    [filteredRecords, tierId]
+  );
+
+  const handleCohortsCsvDownload = useCallback(() => {
+    downloadAsCsv(`referral-cohorts-${codeOption}`, cohorts.map(getReferralCohortExportRow), [], {
+      week: t`Week`,
+      newTraders: t`New Traders`,
+      volumeUsd: t`Volume ($)`,
+      retentionWeek1: t`Week 1`,
+      retentionWeek2: t`Week 2`,
+      retentionWeek3: t`Week 3`,
+      retentionWeek4: t`Week 4`,
+    } satisfies Record<keyof ReferralCohortExportRow, string>);
+  }, [codeOption, cohorts]);
+
+  const handleTradersCsvDownload = useCallback(() => {
+    downloadAsCsv(`referral-top-traders-${codeOption}`, concentration.topTraders.map(getReferralTraderExportRow), [], {
+      trader: t`Trader`,
+      volumeUsd: t`Volume ($)`,
+      affiliateRebateUsd: t`Rebates ($)`,
+      volumeShare: t`Volume Share`,
+    } satisfies Record<keyof ReferralTraderExportRow, string>);
+  }, [codeOption, concentration.topTraders]);
+
+  return (
+    <>
+      <Card
+        className="mt-16"
+        title={
+          <div className="referral-table-header">
+            <p className="title">
+              <Trans>Referral Cohorts</Trans>
+            </p>
+            <div className="flex flex-wrap items-center gap-8">
+              <DateRangeSelect startDate={startDate} endDate={endDate} onChange={setDateRange} />
+              <Button
+                variant="secondary"
+                imgSrc={downloadIcon}
+                onClick={handleCohortsCsvDownload}
+                disabled={cohorts.length === 0}
+              >
+                CSV
+              </Button>
+            </div>
+          </div>
+        }
+        bodyPadding={false}
+      >
+        {referralCodes.length > 1 && (
+          <Tab
+            type="inline"
+            className="px-14 pt-14"
+            options={codeOptions}
+            optionLabels={codeOptionLabels}
+            option={codeOption}
+            onChange={setCodeOption}
+          />
+        )}
+        {historyStartTimestamp !== undefined && (
+          <div className="px-14 pt-14 text-yellow-500">
+            <Trans>
+              Only trades since {formatDate(historyStartTimestamp)} are loaded, earlier cohorts are not shown and totals
+              for earlier periods are incomplete
+            </Trans>
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <ExchangeTheadTr>
+                <ExchangeTh scope="col">
+                  <Trans>Week</Trans>
+                </ExchangeTh>
+                <ExchangeTh scope="col">
+                  <Trans>New Traders</Trans>
+                </ExchangeTh>
+                <ExchangeTh scope="col">
+                  <Trans>Volume</Trans>
+                </ExchangeTh>
+                {RETENTION_WEEKS.map((week) => (
+                  <ExchangeTh key={week} scope="col">
+                    <Trans>W{week}</Trans>
+                  </ExchangeTh>
+                ))}
+              </ExchangeTheadTr>
+            </thead>
+            <tbody>
+              {cohorts.map((cohort) => (
+                <CohortRow key={cohort.weekTimestamp} cohort={cohort} />
+              ))}
+            </tbody>
+          </table>
+          {isLoading && (
+            <div className="grid place-items-center p-14">
+              <Loader />
+            </div>
+          )}
+          {!isLoading && !error && cohorts.length === 0 && (
+            <div className="p-14 text-gray-300">
+              <Trans>No referred traders in the selected period</Trans>
+            </div>
+          )}
+          {error && (
+            <div className="p-14 text-red-500">
+              <Trans>Failed to load referral cohorts</Trans>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <Card
+        className="mt-16"
+        title={
+          <div className="referral-table-header">
+            <p className="title">
+              <Trans>Top Traders</Trans>
+            </p>
+            <div className="flex flex-wrap items-center gap-8">
+              <Tab type="inline" options={TOP_TRADERS_COUNTS} option={topTradersCount} onChange={setTopTradersCount} />
+              <Button
+                variant="secondary"
+                imgSrc={downloadIcon}
+                onClick={handleTradersCsvDownload}
+                disabled={concentration.topTraders.length === 0}
+              >
+                CSV
+              </Button>
+            </div>
+          </div>
+        }
+        bodyPadding={false}
+      >
+        <div className="flex flex-wrap gap-24 p-14">
+          <SummaryItem label={t`Traders`} value={String(concentration.tradersCount)} />
+          <SummaryItem label={t`Total Volume`} value={formatUsd(concentration.totalVolume)} />
+          <SummaryItem
+            label={t`Top ${topTradersCount} Volume Share`}
+            value={formatPercentage(concentration.topTradersVolumeShareBps)}
+          />
+          {tierProjection && (
+            <SummaryItem
+              label={t`Rebates on Tier ${getTierIdDisplay(tierProjection.nextTierId)}`}
+              value={t`${formatUsd(tierProjection.projectedRebateUsd)} instead of ${formatUsd(
+                tierProjection.affiliateRebateUsd
+              )}`}
+            />
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <ExchangeTheadTr>
+                <ExchangeTh scope="col">
+                  <Trans>Trader</Trans>
+                </ExchangeTh>
+                <ExchangeTh scope="col">
+                  <Trans>Volume</Trans>
+                </ExchangeTh>
+                <ExchangeTh scope="col">
+                  <Trans>Volume Share</Trans>
+                </ExchangeTh>
+                <ExchangeTh scope="col">
+                  <Trans>Rebates</Trans>
+                </ExchangeTh>
+              </ExchangeTheadTr>
+            </thead>
+            <tbody>
+              {concentration.topTraders.map((trader) => (
+                <ExchangeTr key={trader.trader} hoverable={false} bordered={false}>
+                  <ExchangeTd data-label="Trader">{shortenAddress(trader.trader, 13)}</ExchangeTd>
+                  <ExchangeTd data-label="Volume">{formatUsd(trader.volume)}</ExchangeTd>
+                  <ExchangeTd data-label="Volume Share">{formatPercentage(trader.volumeShareBps)}</ExchangeTd>
+                  <ExchangeTd data-label="Rebates">{formatUsd(trader.affiliateRebateUsd)}</ExchangeTd>
+                </ExchangeTr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </>
+  );
+}
+
+function CohortRow({ cohort }: { cohort: ReferralCohort }) {
+  return (
+    <ExchangeTr hoverable={false} bordered={false}>
+      <ExchangeTd data-label="Week">{formatDate(cohort.weekTimestamp)}</ExchangeTd>
+      <ExchangeTd data-label="New Traders">{cohort.newTraders}</ExchangeTd>
+      <ExchangeTd data-label="Volume">{formatUsd(cohort.volume)}</ExchangeTd>
+      {RETENTION_WEEKS.map((week) => (
+        <ExchangeTd key={week} data-label={`W${week}`}>
+          {formatPercentage(cohort.retentionBps[week - 1]) ?? "-"}
+        </ExchangeTd>
+      ))}
+    </ExchangeTr>
+  );
+}
+
+function SummaryItem({ label, value }: { label: string; value: string | undefined }) {
+  return (
+    <div className="flex flex-col gap-4">
+      <span className="text-gray-300">{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
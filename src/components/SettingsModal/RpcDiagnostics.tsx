@@ -0,0 +1,157 @@
+import { Trans, t } from "@lingui/macro";
+import cx from "classnames";
+import { ChangeEvent, useCallback, useState } from "react";
+
+import { getChainName } from "config/chains";
+import { useRpcEndpointsStats } from "lib/rpc";
+import type { RpcEndpointStats } from "lib/rpc/rpcRanking";
+import { RpcUrlValidationError, getRpcTracker, validateRpcUrl } from "lib/rpc/rpcTracker";
+
+import Button from "components/Button/Button";
+
+export function RpcDiagnostics({ chainId }: { chainId: number }) {
+  const stats = useRpcEndpointsStats(chainId);
+  const activeUrl = stats.find((endpoint) => endpoint.probesCount > 0)?.url;
+  const customRpcUrl = getRpcTracker(chainId).getCustomRpcUrl();
+
+  const [customRpcInputValue, setCustomRpcInputValue] = useState(customRpcUrl ?? "");
+  const [validationError, setValidationError] = useState<RpcUrlValidationError>();
+  const [isValidating, setIsValidating] = useState(false);
+
+  const handleCustomRpcChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setCustomRpcInputValue(e.target.value);
+    setValidationError(undefined);
+  }, []);
+
+  const handleSaveCustomRpc = useCallback(async () => {
+    const url = customRpcInputValue.trim();
+
+    setIsValidating(true);
+    const error = await validateRpcUrl(url, chainId);
+    setIsValidating(false);
+    setValidationError(error);
+
+    if (!error) {
+      getRpcTracker(chainId).setCustomRpcUrl(url);
+    }
+  }, [chainId, customRpcInputValue]);
+
+  const handleRemoveCustomRpc = useCallback(() => {
+    getRpcTracker(chainId).setCustomRpcUrl(undefined);
+    setCustomRpcInputValue("");
+    setValidationError(undefined);
+  }, [chainId]);
+
+  const chainName = getChainName(chainId);
+  const validationErrorMessage = validationError
+    ? {
+        invalidUrl: t`Invalid URL`,
+        unsupportedProtocol: t`Only HTTP(S) endpoints are supported`,
+        wrongChain: t`Endpoint does not belong to ${chainName}`,
+        unreachable: t`Endpoint is not reachable`,
+      }[validationError]
+    : undefined;
+
+  return (
+    <div className="w-full text-12">
+      <h1 className="mb-8 text-14">
+        <Trans>RPC Endpoints</Trans>
+      </h1>
+      <table className="w-full">
+        <thead>
+          <tr className="text-gray-300">
+            <th className="pb-4 text-left font-normal">
+              <Trans>Endpoint</Trans>
+            </th>
+            <th className="pb-4 text-right font-normal">
+              <Trans>Latency</Trans>
+            </th>
+            <th className="pb-4 text-right font-normal">
+              <Trans>Errors</Trans>
+            </th>
+            <th className="pb-4 text-right font-normal">
+              <Trans>Block Lag</Trans>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map((endpoint) => (
+            <RpcEndpointRow key={endpoint.url} endpoint={endpoint} isActive={endpoint.url === activeUrl} />
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-12 flex items-center gap-8">
+        <input
+          value={customRpcInputValue}
+          onChange={handleCustomRpcChange}
+          placeholder={t`Custom RPC URL`}
+          className="min-w-0 flex-grow border border-gray-800 px-5 py-4 text-12"
+        />
+        <Button
+          variant="secondary"
+          slim
+          disabled={!customRpcInputValue.trim() || isValidating || customRpcInputValue.trim() === customRpcUrl}
+          onClick={handleSaveCustomRpc}
+        >
+          {isValidating ? t`Checking...` : t`Use`}
+        </Button>
+        {customRpcUrl && (
+          <Button variant="secondary" slim onClick={handleRemoveCustomRpc}>
+            <Trans>Remove</Trans>
+          </Button>
+        )}
+      </div>
+      {validationErrorMessage && <div className="mt-4 text-red-500">{validationErrorMessage}</div>}
+    </div>
+  );
+}
+
+function RpcEndpointRow({ endpoint, isActive }: { endpoint: RpcEndpointStats; isActive: boolean }) {
+  const isProbed = endpoint.probesCount > 0;
+
+  return (
+    <tr>
+      <td className="py-2">
+        <span className="flex items-center gap-6">
+          <span
+            className={cx("inline-block h-6 w-6 shrink-0 rounded-full", {
+              "bg-green-500": isProbed && endpoint.isHealthy,
+              "bg-red-500": isProbed && !endpoint.isHealthy,
+              "bg-gray-400": !isProbed,
+            })}
+          />
+          <span className={cx({ "text-white": isActive, "text-gray-300": !isActive })}>
+            {getEndpointHost(endpoint.url)}
+          </span>
+          {endpoint.isCustom && (
+            <span className="text-gray-400">
+              <Trans>Custom</Trans>
+            </span>
+          )}
+          {isActive && (
+            <span className="text-green-500">
+              <Trans>Active</Trans>
+            </span>
+          )}
+        </span>
+      </td>
+      <td className="py-2 text-right">
+        {endpoint.latencyMs === undefined ? "-" : `${Math.round(endpoint.latencyMs)} ms`}
+      </td>
+      <td className="py-2 text-right">{isProbed ? `${Math.round(endpoint.errorRate * 100)}%` : "-"}</td>
+      <td className="py-2 text-right">{endpoint.blockLag ?? "-"}</td>
+    </tr>
+  );
+}
+
+/**
+ * Endpoint paths often contain API keys
+ */
+function getEndpointHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return url;
+  }
+}
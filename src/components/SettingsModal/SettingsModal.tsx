@@ -17,6 +17,7 @@ import Modal from "components/Modal/Modal";
 import NumberInput from "components/NumberInput/NumberInput";
 import Tooltip from "components/Tooltip/Tooltip";
 import { useKey } from "react-use";
+import { RpcDiagnostics } from "./RpcDiagnostics";
 
 import "./SettingsModal.scss";
 
@@ -221,6 +222,10 @@ export function SettingsModal({
         </div>
       )}
 
+      <div className="mt-15">
+        <RpcDiagnostics chainId={chainId} />
+      </div>
+
       {isDevelopment() && <TenderlySettings isSettingsVisible={isSettingsVisible} />}
 
       <Button variant="primary-action" className="mt-15 w-full" onClick={saveAndCloseSettings}>
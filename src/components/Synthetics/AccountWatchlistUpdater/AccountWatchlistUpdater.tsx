@@ -0,0 +1,67 @@
+import { t } from "@lingui/macro";
+import { useEffect, useMemo, useRef } from "react";
+
+import { selectChainId } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { getNewWatchlistTradeActions } from "domain/synthetics/accountWatchlist";
+import { useAccountWatchlist } from "domain/synthetics/accountWatchlist/useAccountWatchlist";
+import { isIncreaseOrderType } from "domain/synthetics/orders";
+import { PositionTradeAction, TradeActionType, useTradeHistory } from "domain/synthetics/tradeHistory";
+import { showBrowserNotification } from "lib/browserNotifications";
+import { helperToast } from "lib/helperToast";
+import { shortenAddress } from "lib/legacy";
+import { formatUsd } from "lib/numbers";
+import { CONFIG_UPDATE_INTERVAL } from "lib/timeConstants";
+
+const WATCHLIST_NOTIFICATIONS_PAGE_SIZE = 20;
+
+const EXECUTED_ORDERS_FILTER = [{ eventName: TradeActionType.OrderExecuted }];
+
+export function AccountWatchlistUpdater() {
+  const chainId = useSelector(selectChainId);
+  const { watchedAccounts } = useAccountWatchlist();
+  const accounts = useMemo(() => watchedAccounts.map((item) => item.account), [watchedAccounts]);
+
+  const { tradeActions } = useTradeHistory(chainId, {
+    account: undefined,
+    accounts,
+    pageSize: WATCHLIST_NOTIFICATIONS_PAGE_SIZE,
+    orderEventCombinations: EXECUTED_ORDERS_FILTER,
+    refreshInterval: CONFIG_UPDATE_INTERVAL,
+  });
+
+  // only trades made after the page was opened are notified
+  const fromTimestampRef = useRef(Math.floor(Date.now() / 1000));
+
+  useEffect(
+    function notifyNewTrades() {
+      if (!tradeActions?.length) return;
+
+      const newTradeActions = getNewWatchlistTradeActions(tradeActions, fromTimestampRef.current);
+
+      if (!newTradeActions.length) return;
+
+      fromTimestampRef.current = newTradeActions[newTradeActions.length - 1].transaction.timestamp;
+
+      newTradeActions.forEach((tradeAction) => {
+        const message = getWatchlistTradeMessage(tradeAction);
+
+        helperToast.info(message);
+        showBrowserNotification(t`GMX Watchlist`, message);
+      });
+    },
+    [tradeActions]
+  );
+
+  return null;
+}
+
+function getWatchlistTradeMessage(tradeAction: PositionTradeAction) {
+  const address = shortenAddress(tradeAction.account, 13);
+  const positionName = `${tradeAction.isLong ? t`Long` : t`Short`} ${tradeAction.marketInfo.indexToken.symbol}`;
+  const size = formatUsd(tradeAction.sizeDeltaUsd);
+
+  return isIncreaseOrderType(tradeAction.orderType)
+    ? t`${address} increased ${positionName} by ${size}`
+    : t`${address} decreased ${positionName} by ${size}`;
+}
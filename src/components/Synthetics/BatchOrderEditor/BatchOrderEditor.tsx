@@ -0,0 +1,341 @@
+import { Plural, t, Trans } from "@lingui/macro";
+import { ChangeEvent, useCallback, useMemo, useState } from "react";
+
+import { USD_DECIMALS } from "config/factors";
+import { useSubaccount } from "context/SubaccountContext/SubaccountContext";
+import { useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import {
+  selectOrdersInfoData,
+  selectPositionsInfoData,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import {
+  TriggerPriceShift,
+  getBatchOrderRecreations,
+  getBatchOrderUpdates,
+  getBatchOrdersCollateralTokenAddresses,
+} from "domain/synthetics/batchOrders";
+import {
+  estimateExecuteDecreaseOrderGasLimit,
+  getExecutionFee,
+  useGasLimits,
+  useGasPrice,
+} from "domain/synthetics/fees";
+import { estimateOrderOraclePriceCount } from "domain/synthetics/fees/utils/estimateOraclePriceCount";
+import { OrderInfo, PositionOrderInfo, isSwapOrderType } from "domain/synthetics/orders";
+import { batchUpdateOrdersTxn } from "domain/synthetics/orders/batchUpdateOrdersTxn";
+import { getTokenData } from "domain/synthetics/tokens";
+import { useChainId } from "lib/chains";
+import { formatUsd, parseValue } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import { useEthersSigner } from "lib/wallets/useEthersSigner";
+import useWallet from "lib/wallets/useWallet";
+
+import BuyInputSection from "components/BuyInputSection/BuyInputSection";
+import Button from "components/Button/Button";
+import Checkbox from "components/Checkbox/Checkbox";
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import Modal from "components/Modal/Modal";
+import PercentageInput from "components/PercentageInput/PercentageInput";
+import Tab from "components/Tab/Tab";
+import { ValueTransition } from "components/ValueTransition/ValueTransition";
+
+type Props = {
+  orderKeys: string[];
+  isVisible: boolean;
+  onClose: () => void;
+  onSubmitted: () => void;
+  setPendingTxns: (txns: any) => void;
+};
+
+type ShiftUnit = TriggerPriceShift["type"];
+
+const SHIFT_UNITS: ShiftUnit[] = ["percent", "absolute"];
+const SHIFT_UNIT_LABELS: Record<ShiftUnit, string> = { percent: "%", absolute: "USD" };
+const SHIFT_DIRECTIONS = ["up", "down"];
+
+const DEFAULT_ACCEPTABLE_PRICE_IMPACT_BPS = 100;
+
+type BatchAction = "update" | "recreate" | "cancel";
+
+export function BatchOrderEditor({ orderKeys, isVisible, onClose, onSubmitted, setPendingTxns }: Props) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const signer = useEthersSigner();
+  const ordersInfoData = useSelector(selectOrdersInfoData);
+  const positionsInfoData = useSelector(selectPositionsInfoData);
+  const tokensData = useTokensData();
+  const gasLimits = useGasLimits(chainId);
+  const gasPrice = useGasPrice(chainId);
+
+  const [shiftUnit, setShiftUnit] = useState<ShiftUnit>("percent");
+  const [shiftDirection, setShiftDirection] = useState("up");
+  const [shiftInputValue, setShiftInputValue] = useState("");
+  const [isAcceptablePriceImpactEnabled, setIsAcceptablePriceImpactEnabled] = useState(false);
+  const [acceptablePriceImpactBps, setAcceptablePriceImpactBps] = useState(DEFAULT_ACCEPTABLE_PRICE_IMPACT_BPS);
+  const [collateralTokenAddress, setCollateralTokenAddress] = useState<string>();
+  const [submittingAction, setSubmittingAction] = useState<BatchAction>();
+
+  const orders = useMemo(
+    () => orderKeys.map((key) => getByKey(ordersInfoData, key)).filter(Boolean) as OrderInfo[],
+    [orderKeys, ordersInfoData]
+  );
+
+  const positionOrders = useMemo(
+    () => orders.filter((order) => !isSwapOrderType(order.orderType)) as PositionOrderInfo[],
+    [orders]
+  );
+
+  const shift = useMemo((): TriggerPriceShift | undefined => {
+    const sign = shiftDirection === "down" ? -1n : 1n;
+
+    if (shiftUnit === "percent") {
+      // two decimals of a percent are basis points
+      const bps = parseValue(shiftInputValue, 2);
+      return bps !== undefined && bps > 0 ? { type: "percent", bps: sign * bps } : undefined;
+    }
+
+    const usd = parseValue(shiftInputValue, USD_DECIMALS);
+    return usd !== undefined && usd > 0 ? { type: "absolute", usd: sign * usd } : undefined;
+  }, [shiftDirection, shiftInputValue, shiftUnit]);
+
+  const updates = useMemo(
+    () =>
+      getBatchOrderUpdates({
+        orders: positionOrders,
+        shift,
+        acceptablePriceImpactBps: isAcceptablePriceImpactEnabled ? acceptablePriceImpactBps : undefined,
+      }),
+    [acceptablePriceImpactBps, isAcceptablePriceImpactEnabled, positionOrders, shift]
+  );
+
+  const collateralTokenAddresses = useMemo(
+    () => getBatchOrdersCollateralTokenAddresses(positionOrders, positionsInfoData),
+    [positionOrders, positionsInfoData]
+  );
+  const selectedCollateralTokenAddress = collateralTokenAddress ?? collateralTokenAddresses[0];
+
+  const { recreations, ordersWithoutPosition } = useMemo(
+    () =>
+      selectedCollateralTokenAddress
+        ? getBatchOrderRecreations(positionOrders, selectedCollateralTokenAddress, positionsInfoData)
+        : { recreations: [], ordersWithoutPosition: [] },
+    [positionOrders, positionsInfoData, selectedCollateralTokenAddress]
+  );
+
+  const recreationExecutionFee = useMemo(() => {
+    if (!gasLimits || !tokensData || gasPrice === undefined) return undefined;
+
+    const estimatedGas = estimateExecuteDecreaseOrderGasLimit(gasLimits, { swapsCount: 0 });
+    const oraclePriceCount = estimateOrderOraclePriceCount(0);
+
+    return getExecutionFee(chainId, gasLimits, tokensData, estimatedGas, gasPrice, oraclePriceCount);
+  }, [chainId, gasLimits, gasPrice, tokensData]);
+
+  const subaccount = useSubaccount(
+    recreationExecutionFee ? recreationExecutionFee.feeTokenAmount * BigInt(recreations.length) : null,
+    orders.length
+  );
+
+  const collateralTokenLabels = useMemo(
+    () =>
+      collateralTokenAddresses.reduce(
+        (acc, address) => ({ ...acc, [address]: getTokenData(tokensData, address)?.symbol ?? address }),
+        {} as Record<string, string>
+      ),
+    [collateralTokenAddresses, tokensData]
+  );
+
+  const submit = useCallback(
+    (action: BatchAction) => {
+      if (!account || !signer || !tokensData) return;
+
+      setSubmittingAction(action);
+
+      batchUpdateOrdersTxn(chainId, signer, subaccount, {
+        account,
+        cancelOrders: action === "cancel" ? orders : [],
+        updates: action === "update" ? updates : [],
+        recreations: action === "recreate" ? recreations : [],
+        recreationExecutionFee: recreationExecutionFee?.feeTokenAmount ?? 0n,
+        tokensData,
+        setPendingTxns,
+      })
+        .then(() => {
+          onSubmitted();
+          onClose();
+        })
+        .finally(() => setSubmittingAction(undefined));
+    },
+    [
+      account,
+      chainId,
+      onClose,
+      onSubmitted,
+      orders,
+      recreationExecutionFee?.feeTokenAmount,
+      recreations,
+      setPendingTxns,
+      signer,
+      subaccount,
+      tokensData,
+      updates,
+    ]
+  );
+
+  const handleUpdate = useCallback(() => submit("update"), [submit]);
+  const handleRecreate = useCallback(() => submit("recreate"), [submit]);
+  const handleCancel = useCallback(() => submit("cancel"), [submit]);
+
+  const handleShiftInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setShiftInputValue(e.target.value);
+  }, []);
+
+  const setIsVisible = useCallback(
+    (isVisible: boolean) => {
+      if (!isVisible) onClose();
+    },
+    [onClose]
+  );
+
+  const shiftDirectionLabels = useMemo(() => ({ up: t`Raise`, down: t`Lower` }), []);
+
+  const isSubmitting = submittingAction !== undefined;
+  const swapOrdersCount = orders.length - positionOrders.length;
+
+  return (
+    <Modal isVisible={isVisible} setIsVisible={setIsVisible} label={t`Edit Orders`}>
+      <div className="mb-10 flex gap-8">
+        <Tab
+          options={SHIFT_DIRECTIONS}
+          optionLabels={shiftDirectionLabels}
+          option={shiftDirection}
+          onChange={setShiftDirection}
+          className="grow"
+        />
+        <Tab
+          options={SHIFT_UNITS}
+          optionLabels={SHIFT_UNIT_LABELS}
+          option={shiftUnit}
+          onChange={setShiftUnit}
+          className="grow"
+        />
+      </div>
+      <BuyInputSection
+        topLeftLabel={t`Trigger Price Shift`}
+        inputValue={shiftInputValue}
+        onInputValueChange={handleShiftInputChange}
+      >
+        {SHIFT_UNIT_LABELS[shiftUnit]}
+      </BuyInputSection>
+
+      <ExchangeInfo className="mt-15">
+        <ExchangeInfo.Group>
+          <Checkbox isChecked={isAcceptablePriceImpactEnabled} setIsChecked={setIsAcceptablePriceImpactEnabled}>
+            <Trans>Set acceptable price impact</Trans>
+          </Checkbox>
+          {isAcceptablePriceImpactEnabled && (
+            <ExchangeInfoRow label={t`Acceptable Price Impact`}>
+              <PercentageInput
+                onChange={setAcceptablePriceImpactBps}
+                defaultValue={DEFAULT_ACCEPTABLE_PRICE_IMPACT_BPS}
+                value={acceptablePriceImpactBps}
+              />
+            </ExchangeInfoRow>
+          )}
+        </ExchangeInfo.Group>
+        <ExchangeInfo.Group>
+          {updates.map(({ order, nextTriggerPrice }) => (
+            <ExchangeInfoRow key={order.key} label={order.title}>
+              <ValueTransition
+                from={formatUsd(order.triggerPrice, { displayDecimals: order.indexToken.priceDecimals })}
+                to={formatUsd(nextTriggerPrice, { displayDecimals: order.indexToken.priceDecimals })}
+              />
+            </ExchangeInfoRow>
+          ))}
+          {swapOrdersCount > 0 && (
+            <ExchangeInfoRow label={t`Swap Orders`}>
+              <Plural
+                value={swapOrdersCount}
+                one="# order can only be cancelled"
+                other="# orders can only be cancelled"
+              />
+            </ExchangeInfoRow>
+          )}
+        </ExchangeInfo.Group>
+      </ExchangeInfo>
+      <Button
+        className="mt-15 w-full"
+        variant="primary-action"
+        disabled={isSubmitting || updates.length === 0}
+        onClick={handleUpdate}
+      >
+        {submittingAction === "update" ? (
+          t`Updating...`
+        ) : (
+          <Plural value={updates.length} one="Update # order" other="Update # orders" />
+        )}
+      </Button>
+
+      {collateralTokenAddresses.length > 0 && (
+        <ExchangeInfo className="mt-15">
+          <ExchangeInfo.Group>
+            <ExchangeInfoRow label={t`Move TP/SL to`}>
+              <Tab
+                options={collateralTokenAddresses}
+                optionLabels={collateralTokenLabels}
+                option={selectedCollateralTokenAddress}
+                onChange={setCollateralTokenAddress}
+                type="inline"
+              />
+            </ExchangeInfoRow>
+            <ExchangeInfoRow label={t`Network Fee`}>
+              {formatUsd(
+                recreationExecutionFee ? recreationExecutionFee.feeUsd * BigInt(recreations.length) : undefined
+              )}
+            </ExchangeInfoRow>
+            {ordersWithoutPosition.length > 0 && (
+              <div className="text-red-500">
+                <Plural
+                  value={ordersWithoutPosition.length}
+                  one="# order can't be moved, there is no open position with this collateral in its market and direction"
+                  other="# orders can't be moved, there are no open positions with this collateral in their markets and directions"
+                />
+              </div>
+            )}
+          </ExchangeInfo.Group>
+        </ExchangeInfo>
+      )}
+      {collateralTokenAddresses.length > 0 && (
+        <Button
+          className="mt-10 w-full"
+          variant="secondary"
+          disabled={
+            isSubmitting || recreations.length === 0 || ordersWithoutPosition.length > 0 || !recreationExecutionFee
+          }
+          onClick={handleRecreate}
+        >
+          {submittingAction === "recreate" ? (
+            t`Moving...`
+          ) : (
+            <Plural value={recreations.length} one="Move # order" other="Move # orders" />
+          )}
+        </Button>
+      )}
+
+      <Button
+        className="mt-10 w-full"
+        variant="secondary"
+        disabled={isSubmitting || orders.length === 0}
+        onClick={handleCancel}
+      >
+        {submittingAction === "cancel" ? (
+          t`Cancelling...`
+        ) : (
+          <Plural value={orders.length} one="Cancel # order" other="Cancel # orders" />
+        )}
+      </Button>
+    </Modal>
+  );
+}
@@ -0,0 +1,439 @@
+import { t, Trans } from "@lingui/macro";
+import { ChangeEvent, useCallback, useEffect, useMemo, useState } from "react";
+
+import { USD_DECIMALS } from "config/factors";
+import { useIsSubaccountActive } from "context/SubaccountContext/SubaccountContext";
+import {
+  useMarketsInfoData,
+  usePositionsInfoData,
+  useTokensData,
+} from "context/SyntheticsStateContext/hooks/globalsHooks";
+import {
+  ConditionalOrderCondition,
+  ConditionalOrderLogEntry,
+  ConditionalOrderRule,
+  getFundingRatePaidPerHour,
+  getIsConditionalOrderConditionMet,
+} from "domain/synthetics/conditionalOrders";
+import { useConditionalOrders } from "domain/synthetics/conditionalOrders/useConditionalOrders";
+import {
+  estimateExecuteDecreaseOrderGasLimit,
+  getExecutionFee,
+  useGasLimits,
+  useGasPrice,
+} from "domain/synthetics/fees";
+import { estimateOrderOraclePriceCount } from "domain/synthetics/fees/utils/estimateOraclePriceCount";
+import { MarketsInfoData } from "domain/synthetics/markets";
+import { DecreasePositionSwapType } from "domain/synthetics/orders";
+import { TokensData, getMidPrice } from "domain/synthetics/tokens";
+import { TriggerThresholdType } from "domain/synthetics/trade";
+import { useChainId } from "lib/chains";
+import { formatDateTime } from "lib/dates";
+import { helperToast } from "lib/helperToast";
+import {
+  formatAmount,
+  formatPercentage,
+  formatRatePercentage,
+  formatUsd,
+  formatUsdPrice,
+  parseValue,
+} from "lib/numbers";
+import { getByKey } from "lib/objects";
+
+import BuyInputSection from "components/BuyInputSection/BuyInputSection";
+import Button from "components/Button/Button";
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import Modal from "components/Modal/Modal";
+import PercentageInput from "components/PercentageInput/PercentageInput";
+import Tab from "components/Tab/Tab";
+import { TableOptionsFilter } from "components/Synthetics/TableOptionsFilter/TableOptionsFilter";
+
+type Props = {
+  positionKey: string | undefined;
+  allowedSlippage: number;
+  onClose: () => void;
+};
+
+type ConditionType = ConditionalOrderCondition["type"];
+
+const CONDITION_TYPES: ConditionType[] = ["price", "funding"];
+const THRESHOLD_TYPES = [TriggerThresholdType.Above, TriggerThresholdType.Below];
+const SIDES = ["long", "short"];
+const DECREASE_SUGGESTIONS = [25, 50, 100];
+const DEFAULT_DECREASE_BPS = 10000;
+// funding rates are factors with 30 decimals, the input is in percent
+const FUNDING_RATE_INPUT_DECIMALS = 28;
+
+export function ConditionalOrdersModal({ positionKey, allowedSlippage, onClose }: Props) {
+  const { chainId } = useChainId();
+  const positionsInfoData = usePositionsInfoData();
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+  const gasLimits = useGasLimits(chainId);
+  const gasPrice = useGasPrice(chainId);
+  const isSubaccountActive = useIsSubaccountActive();
+  const { conditionalOrderRules, conditionalOrdersLog, addConditionalOrderRule, removeConditionalOrderRules } =
+    useConditionalOrders();
+
+  const position = getByKey(positionsInfoData, positionKey);
+
+  const [conditionType, setConditionType] = useState<ConditionType>("price");
+  const [tokenAddress, setTokenAddress] = useState<string>();
+  const [marketAddress, setMarketAddress] = useState<string>();
+  const [side, setSide] = useState<string>();
+  const [thresholdType, setThresholdType] = useState(TriggerThresholdType.Below);
+  const [inputValue, setInputValue] = useState("");
+  const [decreaseBps, setDecreaseBps] = useState(DEFAULT_DECREASE_BPS);
+
+  useEffect(() => {
+    if (!positionKey) {
+      setConditionType("price");
+      setTokenAddress(undefined);
+      setMarketAddress(undefined);
+      setSide(undefined);
+      setThresholdType(TriggerThresholdType.Below);
+      setInputValue("");
+      setDecreaseBps(DEFAULT_DECREASE_BPS);
+    }
+  }, [positionKey]);
+
+  const tokenOptions = useMemo(() => {
+    const indexTokens = Object.values(marketsInfoData ?? {})
+      .filter((marketInfo) => !marketInfo.isSpotOnly && !marketInfo.isDisabled)
+      .map((marketInfo) => marketInfo.indexToken);
+
+    return Array.from(new Map(indexTokens.map((token) => [token.address, token])).values()).map((token) => ({
+      text: token.symbol,
+      data: token.address,
+    }));
+  }, [marketsInfoData]);
+
+  const marketOptions = useMemo(
+    () =>
+      Object.values(marketsInfoData ?? {})
+        .filter((marketInfo) => !marketInfo.isSpotOnly && !marketInfo.isDisabled)
+        .map((marketInfo) => ({ text: marketInfo.name, data: marketInfo.marketTokenAddress })),
+    [marketsInfoData]
+  );
+
+  const conditionTypeLabels = useMemo(() => ({ price: t`Price`, funding: t`Funding` }), []);
+  const thresholdTypeLabels = useMemo(
+    () => ({ [TriggerThresholdType.Above]: t`Above`, [TriggerThresholdType.Below]: t`Below` }),
+    []
+  );
+  const sideLabels = useMemo(() => ({ long: t`Long`, short: t`Short` }), []);
+
+  const selectedTokenAddress = tokenAddress ?? position?.indexToken.address;
+  const selectedMarketAddress = marketAddress ?? position?.marketAddress;
+  const selectedSide = side ?? (position?.isLong === false ? "short" : "long");
+
+  const threshold =
+    conditionType === "price"
+      ? parseValue(inputValue, USD_DECIMALS)
+      : parseValue(inputValue, FUNDING_RATE_INPUT_DECIMALS);
+
+  const condition = useMemo((): ConditionalOrderCondition | undefined => {
+    if (threshold === undefined) return undefined;
+
+    if (conditionType === "price") {
+      return selectedTokenAddress && threshold > 0
+        ? { type: "price", tokenAddress: selectedTokenAddress, thresholdType, price: threshold }
+        : undefined;
+    }
+
+    return selectedMarketAddress
+      ? {
+          type: "funding",
+          marketAddress: selectedMarketAddress,
+          isLong: selectedSide === "long",
+          thresholdType,
+          ratePerHour: threshold,
+        }
+      : undefined;
+  }, [conditionType, selectedMarketAddress, selectedSide, selectedTokenAddress, threshold, thresholdType]);
+
+  const currentValue = useMemo(() => {
+    if (conditionType === "price") {
+      const token = getByKey(tokensData, selectedTokenAddress);
+
+      return token ? getMidPrice(token.prices) : undefined;
+    }
+
+    const marketInfo = getByKey(marketsInfoData, selectedMarketAddress);
+
+    return marketInfo ? getFundingRatePaidPerHour(marketInfo, selectedSide === "long") : undefined;
+  }, [conditionType, marketsInfoData, selectedMarketAddress, selectedSide, selectedTokenAddress, tokensData]);
+
+  const executionFee = useMemo(() => {
+    if (!gasLimits || !tokensData || gasPrice === undefined) return undefined;
+
+    return getExecutionFee(
+      chainId,
+      gasLimits,
+      tokensData,
+      estimateExecuteDecreaseOrderGasLimit(gasLimits, {
+        decreaseSwapType: DecreasePositionSwapType.NoSwap,
+        swapsCount: 0,
+      }),
+      gasPrice,
+      estimateOrderOraclePriceCount(0)
+    );
+  }, [chainId, gasLimits, gasPrice, tokensData]);
+
+  const positionRules = useMemo(
+    () => conditionalOrderRules.filter((rule) => rule.positionKey === positionKey),
+    [conditionalOrderRules, positionKey]
+  );
+  const positionLog = useMemo(
+    () => conditionalOrdersLog.filter((entry) => entry.rule.positionKey === positionKey),
+    [conditionalOrdersLog, positionKey]
+  );
+
+  const isConditionMet =
+    condition !== undefined && currentValue !== undefined && getIsConditionalOrderConditionMet(condition, currentValue);
+
+  const error = useMemo(() => {
+    if (!condition) return conditionType === "price" ? t`Enter a price` : t`Enter a funding rate`;
+    if (isConditionMet) return t`Condition is already met`;
+    if (!executionFee) return t`Loading...`;
+    return undefined;
+  }, [condition, conditionType, executionFee, isConditionMet]);
+
+  const handleInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => setInputValue(e.target.value), []);
+
+  const handleCurrentValueClick = useCallback(() => {
+    if (currentValue === undefined) return;
+
+    setInputValue(
+      conditionType === "price"
+        ? formatAmount(currentValue, USD_DECIMALS, 2)
+        : formatAmount(currentValue, FUNDING_RATE_INPUT_DECIMALS, 4)
+    );
+  }, [conditionType, currentValue]);
+
+  const handleConditionTypeChange = useCallback((type: ConditionType) => {
+    setConditionType(type);
+    setThresholdType(type === "price" ? TriggerThresholdType.Below : TriggerThresholdType.Above);
+    setInputValue("");
+  }, []);
+
+  const handleAddRule = useCallback(() => {
+    if (!position || !condition || !executionFee || error) return;
+
+    addConditionalOrderRule({
+      condition,
+      positionKey: position.key,
+      decreaseBps,
+      executionFee: executionFee.feeTokenAmount,
+      allowedSlippage,
+    });
+    setInputValue("");
+    helperToast.success(t`Conditional order created`);
+  }, [addConditionalOrderRule, allowedSlippage, condition, decreaseBps, error, executionFee, position]);
+
+  const setIsVisible = useCallback(
+    (isVisible: boolean) => {
+      if (!isVisible) onClose();
+    },
+    [onClose]
+  );
+
+  return (
+    <Modal isVisible={Boolean(position)} setIsVisible={setIsVisible} label={t`Conditional Orders`}>
+      {position && (
+        <>
+          <Tab
+            options={CONDITION_TYPES}
+            optionLabels={conditionTypeLabels}
+            option={conditionType}
+            onChange={handleConditionTypeChange}
+            type="inline"
+          />
+          <div className="mb-10 mt-10 flex flex-wrap items-center gap-16">
+            {conditionType === "price" ? (
+              <TableOptionsFilter<string>
+                label={t`Token`}
+                placeholder={t`Search Token`}
+                options={tokenOptions}
+                value={selectedTokenAddress}
+                onChange={setTokenAddress}
+              />
+            ) : (
+              <>
+                <TableOptionsFilter<string>
+                  label={t`Market`}
+                  placeholder={t`Search Market`}
+                  options={marketOptions}
+                  value={selectedMarketAddress}
+                  onChange={setMarketAddress}
+                />
+                <Tab options={SIDES} optionLabels={sideLabels} option={selectedSide} onChange={setSide} type="inline" />
+              </>
+            )}
+            <Tab
+              options={THRESHOLD_TYPES}
+              optionLabels={thresholdTypeLabels}
+              option={thresholdType}
+              onChange={setThresholdType}
+              type="inline"
+            />
+          </div>
+          <BuyInputSection
+            topLeftLabel={conditionType === "price" ? t`Price` : t`Funding Rate`}
+            topRightLabel={t`Current`}
+            topRightValue={
+              conditionType === "price" ? formatUsdPrice(currentValue) : `${formatRatePercentage(currentValue)} / 1h`
+            }
+            onClickTopRightLabel={handleCurrentValueClick}
+            inputValue={inputValue}
+            onInputValueChange={handleInputChange}
+          >
+            {conditionType === "price" ? "USD" : "% / 1h"}
+          </BuyInputSection>
+
+          <ExchangeInfo className="mt-15">
+            <ExchangeInfo.Group>
+              <ExchangeInfoRow label={t`Decrease Size`}>
+                <PercentageInput
+                  onChange={setDecreaseBps}
+                  defaultValue={DEFAULT_DECREASE_BPS}
+                  value={decreaseBps}
+                  maxValue={DEFAULT_DECREASE_BPS}
+                  suggestions={DECREASE_SUGGESTIONS}
+                />
+              </ExchangeInfoRow>
+              <ExchangeInfoRow label={t`Network Fee`}>{formatUsd(executionFee?.feeUsd)}</ExchangeInfoRow>
+            </ExchangeInfo.Group>
+            {!isSubaccountActive && (
+              <ExchangeInfo.Group>
+                <div className="text-14 text-gray-300">
+                  <Trans>
+                    Conditional orders are sent with One-Click Trading while this page is open, enable it to execute
+                    them.
+                  </Trans>
+                </div>
+              </ExchangeInfo.Group>
+            )}
+          </ExchangeInfo>
+          <Button className="mt-10 w-full" variant="secondary" disabled={Boolean(error)} onClick={handleAddRule}>
+            {error ?? t`Add Conditional Order`}
+          </Button>
+
+          {positionRules.length > 0 && (
+            <ExchangeInfo className="mt-15">
+              <ExchangeInfo.Group>
+                {positionRules.map((rule) => (
+                  <ConditionalOrderRuleRow
+                    key={rule.id}
+                    rule={rule}
+                    tokensData={tokensData}
+                    marketsInfoData={marketsInfoData}
+                    onRemove={removeConditionalOrderRules}
+                  />
+                ))}
+              </ExchangeInfo.Group>
+            </ExchangeInfo>
+          )}
+
+          {positionLog.length > 0 && (
+            <div className="mt-15 flex flex-col gap-8">
+              <div className="text-14 text-gray-300">
+                <Trans>Execution Log</Trans>
+              </div>
+              {positionLog.map((entry) => (
+                <ConditionalOrderLogRow
+                  key={entry.id}
+                  entry={entry}
+                  tokensData={tokensData}
+                  marketsInfoData={marketsInfoData}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
+
+function ConditionalOrderRuleRow({
+  rule,
+  tokensData,
+  marketsInfoData,
+  onRemove,
+}: {
+  rule: ConditionalOrderRule;
+  tokensData: TokensData | undefined;
+  marketsInfoData: MarketsInfoData | undefined;
+  onRemove: (ids: string[]) => void;
+}) {
+  const handleRemove = useCallback(() => onRemove([rule.id]), [onRemove, rule.id]);
+  const decrease = formatPercentage(BigInt(rule.decreaseBps));
+
+  return (
+    <ExchangeInfoRow label={`${getConditionLabel(rule.condition, tokensData, marketsInfoData)} → -${decrease}`}>
+      <button className="text-gray-300 hover:text-white" onClick={handleRemove}>
+        <Trans>Remove</Trans>
+      </button>
+    </ExchangeInfoRow>
+  );
+}
+
+function ConditionalOrderLogRow({
+  entry,
+  tokensData,
+  marketsInfoData,
+}: {
+  entry: ConditionalOrderLogEntry;
+  tokensData: TokensData | undefined;
+  marketsInfoData: MarketsInfoData | undefined;
+}) {
+  return (
+    <div className="border-t border-gray-800 pt-8 text-14">
+      <div className="flex justify-between">
+        <span>{formatDateTime(entry.timestamp / 1000)}</span>
+        <span className={entry.status === "executed" ? "text-green-500" : "text-red-500"}>
+          {getLogStatusLabel(entry)}
+        </span>
+      </div>
+      <div className="flex justify-between text-gray-300">
+        <span>{getConditionLabel(entry.rule.condition, tokensData, marketsInfoData)}</span>
+        <span>{entry.sizeDeltaUsd !== undefined ? `-${formatUsd(entry.sizeDeltaUsd)}` : entry.error}</span>
+      </div>
+    </div>
+  );
+}
+
+function getLogStatusLabel(entry: ConditionalOrderLogEntry) {
+  switch (entry.status) {
+    case "executed":
+      return t`Executed`;
+    case "failed":
+      return t`Failed`;
+    case "expired":
+      return t`Expired`;
+  }
+}
+
+function getConditionLabel(
+  condition: ConditionalOrderCondition,
+  tokensData: TokensData | undefined,
+  marketsInfoData: MarketsInfoData | undefined
+) {
+  switch (condition.type) {
+    case "price": {
+      const symbol = getByKey(tokensData, condition.tokenAddress)?.symbol;
+
+      return `${symbol} ${condition.thresholdType} ${formatUsdPrice(condition.price)}`;
+    }
+
+    case "funding": {
+      const marketName = getByKey(marketsInfoData, condition.marketAddress)?.name;
+      const side = condition.isLong ? t`Long` : t`Short`;
+      const rate = formatRatePercentage(condition.ratePerHour);
+
+      return t`${marketName} ${side} funding ${condition.thresholdType} ${rate} / 1h`;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { useEffect, useRef } from "react";
+import { useLatest } from "react-use";
+
+import { useSubaccount, useSubaccountActionCounts } from "context/SubaccountContext/SubaccountContext";
+import { useSyntheticsEvents } from "context/SyntheticsEvents";
+import { usePositionsConstants } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import {
+  selectIsPaperTrading,
+  selectIsPositionsLoading,
+  selectMarketsInfoData,
+  selectPositionsInfoData,
+  selectTokensData,
+  selectUiFeeFactor,
+  selectUserReferralInfo,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { selectSavedAcceptablePriceImpactBuffer } from "context/SyntheticsStateContext/selectors/settingsSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { checkConditionalOrderRules, getConditionalOrderSizeDeltaUsd } from "domain/synthetics/conditionalOrders";
+import { useConditionalOrders } from "domain/synthetics/conditionalOrders/useConditionalOrders";
+import { OrderType } from "domain/synthetics/orders";
+import { createDecreaseOrderTxn } from "domain/synthetics/orders/createDecreaseOrderTxn";
+import { getSubaccountForOrders } from "domain/synthetics/subaccount/utils";
+import { getDecreasePositionAmounts } from "domain/synthetics/trade";
+import { useChainId } from "lib/chains";
+import { getByKey } from "lib/objects";
+import useWallet from "lib/wallets/useWallet";
+
+type Props = {
+  setPendingTxns: (txns: any) => void;
+};
+
+export function ConditionalOrdersUpdater({ setPendingTxns }: Props) {
+  const { chainId } = useChainId();
+  const { account, signer } = useWallet();
+  const tokensData = useSelector(selectTokensData);
+  const marketsInfoData = useSelector(selectMarketsInfoData);
+  const positionsInfoData = useSelector(selectPositionsInfoData);
+  const isPositionsLoading = useSelector(selectIsPositionsLoading);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const userReferralInfo = useSelector(selectUserReferralInfo);
+  const uiFeeFactor = useSelector(selectUiFeeFactor);
+  const acceptablePriceImpactBuffer = useSelector(selectSavedAcceptablePriceImpactBuffer);
+  const { minCollateralUsd, minPositionSizeUsd } = usePositionsConstants();
+  const subaccount = useSubaccount(null, 1);
+  const { remaining: remainingActions } = useSubaccountActionCounts();
+  const { setPendingOrder, setPendingPosition } = useSyntheticsEvents();
+  const { conditionalOrderRules, removeConditionalOrderRules, addConditionalOrdersLogEntries } = useConditionalOrders();
+
+  const removeConditionalOrderRulesRef = useLatest(removeConditionalOrderRules);
+  const addConditionalOrdersLogEntriesRef = useLatest(addConditionalOrdersLogEntries);
+  // rules stay stored until their order is sent, so they are skipped while the transaction is pending
+  const pendingRuleIdsRef = useRef(new Set<string>());
+
+  useEffect(
+    function executeConditionalOrders() {
+      // virtual positions replace the real ones while paper trading
+      if (isPaperTrading || isPositionsLoading || !conditionalOrderRules.length) return;
+
+      const pendingRules = conditionalOrderRules.filter((rule) => !pendingRuleIdsRef.current.has(rule.id));
+
+      const { triggered, stale } = checkConditionalOrderRules(pendingRules, {
+        tokensData,
+        marketsInfoData,
+        positionsInfoData,
+      });
+
+      if (stale.length) {
+        removeConditionalOrderRules(stale.map((rule) => rule.id));
+        addConditionalOrdersLogEntries(stale.map((rule) => ({ status: "expired", rule })));
+      }
+
+      if (
+        !triggered.length ||
+        !account ||
+        !signer ||
+        !tokensData ||
+        minCollateralUsd === undefined ||
+        minPositionSizeUsd === undefined
+      ) {
+        return;
+      }
+
+      let availableActions = Number(remainingActions) - pendingRuleIdsRef.current.size;
+
+      for (const { rule, conditionValue } of triggered) {
+        const position = getByKey(positionsInfoData, rule.positionKey);
+
+        // orders outside of the subaccount permissions would prompt the main wallet, the rule waits for the subaccount
+        const ruleSubaccount = position
+          ? getSubaccountForOrders(subaccount, [
+              { marketAddresses: [position.marketAddress], orderType: OrderType.MarketDecrease },
+            ])
+          : null;
+
+        if (!position || !ruleSubaccount || availableActions < 1) continue;
+
+        const decreaseAmounts = getDecreasePositionAmounts({
+          marketInfo: position.marketInfo,
+          collateralToken: position.collateralToken,
+          isLong: position.isLong,
+          position,
+          closeSizeUsd: getConditionalOrderSizeDeltaUsd(position.sizeInUsd, rule.decreaseBps),
+          keepLeverage: true,
+          acceptablePriceImpactBuffer,
+          userReferralInfo,
+          minCollateralUsd,
+          minPositionSizeUsd,
+          uiFeeFactor,
+        });
+
+        availableActions -= 1;
+        pendingRuleIdsRef.current.add(rule.id);
+
+        createDecreaseOrderTxn(
+          chainId,
+          signer,
+          ruleSubaccount,
+          {
+            account,
+            marketAddress: position.marketAddress,
+            initialCollateralAddress: position.collateralTokenAddress,
+            initialCollateralDeltaAmount: decreaseAmounts.collateralDeltaAmount,
+            receiveTokenAddress: position.collateralTokenAddress,
+            swapPath: [],
+            sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
+            sizeDeltaInTokens: decreaseAmounts.sizeDeltaInTokens,
+            acceptablePrice: decreaseAmounts.acceptablePrice,
+            triggerPrice: undefined,
+            minOutputUsd: 0n,
+            isLong: position.isLong,
+            decreasePositionSwapType: decreaseAmounts.decreaseSwapType,
+            orderType: OrderType.MarketDecrease,
+            executionFee: rule.executionFee,
+            allowedSlippage: rule.allowedSlippage,
+            skipSimulation: true,
+            referralCode: userReferralInfo?.referralCodeForTxn,
+            indexToken: position.indexToken,
+            tokensData,
+          },
+          { setPendingTxns, setPendingOrder, setPendingPosition }
+        )
+          .then(() => {
+            addConditionalOrdersLogEntriesRef.current([
+              { status: "executed", rule, conditionValue, sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd },
+            ]);
+          })
+          .catch((error) => {
+            addConditionalOrdersLogEntriesRef.current([
+              { status: "failed", rule, conditionValue, error: error?.message },
+            ]);
+          })
+          .finally(() => {
+            removeConditionalOrderRulesRef.current([rule.id]);
+            pendingRuleIdsRef.current.delete(rule.id);
+          });
+      }
+    },
+    [
+      acceptablePriceImpactBuffer,
+      account,
+      addConditionalOrdersLogEntries,
+      addConditionalOrdersLogEntriesRef,
+      chainId,
+      conditionalOrderRules,
+      isPaperTrading,
+      isPositionsLoading,
+      marketsInfoData,
+      minCollateralUsd,
+      minPositionSizeUsd,
+      positionsInfoData,
+      remainingActions,
+      removeConditionalOrderRules,
+      removeConditionalOrderRulesRef,
+      setPendingOrder,
+      setPendingPosition,
+      setPendingTxns,
+      signer,
+      subaccount,
+      tokensData,
+      uiFeeFactor,
+      userReferralInfo,
+    ]
+  );
+
+  return null;
+}
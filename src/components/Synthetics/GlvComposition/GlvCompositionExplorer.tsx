@@ -0,0 +1,359 @@
+import { Trans, t } from "@lingui/macro";
+import cx from "classnames";
+import { lightFormat } from "date-fns";
+import { ChangeEvent, useCallback, useMemo, useState } from "react";
+import { Area, AreaChart, Tooltip as RechartsTooltip, ResponsiveContainer, TooltipProps, XAxis, YAxis } from "recharts";
+
+import { USD_DECIMALS } from "config/factors";
+import { TOKEN_COLOR_MAP } from "config/tokens";
+import {
+  GlvCompositionItem,
+  getBestGlvDepositRoute,
+  getGlvAllocationShares,
+  getGlvComposition,
+  getGlvDepositRoutes,
+} from "domain/synthetics/glvComposition";
+import { useGlvAllocationHistory } from "domain/synthetics/glvComposition/useGlvAllocationHistory";
+import { MarketsInfoData, getMarketIndexName } from "domain/synthetics/markets";
+import type { GlvMarketInfo } from "domain/synthetics/markets/useGlvMarkets";
+import { TokensData, convertToUsd } from "domain/synthetics/tokens";
+import { useChainId } from "lib/chains";
+import { formatDateTime } from "lib/dates";
+import { formatAmountHuman, formatUsd, parseValue } from "lib/numbers";
+
+import Button from "components/Button/Button";
+import Loader from "components/Common/Loader";
+import NumberInput from "components/NumberInput/NumberInput";
+import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+import Tab from "components/Tab/Tab";
+import TokenIcon from "components/TokenIcon/TokenIcon";
+import { ExchangeTd, ExchangeTh, ExchangeTheadTr, ExchangeTr } from "../OrderList/ExchangeTable";
+
+const CHART_TOOLTIP_WRAPPER_STYLE: React.CSSProperties = { zIndex: 10000 };
+
+const CHART_TICK_PROPS: React.SVGProps<SVGTextElement> = { fill: "var(--color-gray-400)" };
+
+const SHARE_DOMAIN: [number, number] = [0, 100];
+
+type ChartPoint = {
+  timestamp: number;
+  dateCompact: string;
+  [marketAddress: string]: number | string;
+};
+
+type Props = {
+  glvInfo: GlvMarketInfo;
+  marketsInfoData: MarketsInfoData | undefined;
+  marketTokensData: TokensData | undefined;
+  onSelectGmMarket: (marketAddress: string) => void;
+};
+
+export function GlvCompositionExplorer({ glvInfo, marketsInfoData, marketTokensData, onSelectGmMarket }: Props) {
+  const { chainId } = useChainId();
+  const { history, isLoading } = useGlvAllocationHistory(chainId, glvInfo);
+
+  const composition = useMemo(
+    () => getGlvComposition(glvInfo, marketsInfoData, marketTokensData),
+    [glvInfo, marketsInfoData, marketTokensData]
+  );
+
+  const startShares = useMemo(() => (history.length ? getGlvAllocationShares(history[0]) : undefined), [history]);
+
+  const chartData: ChartPoint[] = useMemo(
+    () =>
+      history.map((point) => ({
+        timestamp: point.timestamp,
+        dateCompact: lightFormat(point.timestamp * 1000, "dd/MM"),
+        ...getGlvAllocationShares(point),
+      })),
+    [history]
+  );
+
+  const renderTooltip = useCallback(
+    (props: TooltipProps<number, string>) => <AllocationTooltip {...props} composition={composition} />,
+    [composition]
+  );
+
+  return (
+    <div className="mt-12 bg-slate-800 p-20">
+      <p>
+        <Trans>Vault Composition</Trans>
+      </p>
+      <div className="App-card-divider !-mx-20" />
+
+      <table className="w-[100%]">
+        <thead>
+          <ExchangeTheadTr bordered={false}>
+            <ExchangeTh padding="vertical">
+              <Trans>POOL</Trans>
+            </ExchangeTh>
+            <ExchangeTh padding="vertical">
+              <Trans>BALANCE / CAP</Trans>
+            </ExchangeTh>
+            <ExchangeTh padding="vertical">
+              <Trans>UTILIZATION</Trans>
+            </ExchangeTh>
+            <ExchangeTh padding="vertical">
+              <Trans>COMP.</Trans>
+            </ExchangeTh>
+            <ExchangeTh padding="vertical">
+              <Trans>30D SHIFT</Trans>
+            </ExchangeTh>
+          </ExchangeTheadTr>
+        </thead>
+        <tbody>
+          {composition.map((item) => (
+            <CompositionRow
+              key={item.glvMarket.address}
+              item={item}
+              startShare={startShares?.[item.glvMarket.address]}
+            />
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-20">
+        <p>
+          <Trans>Allocation History</Trans>
+        </p>
+        <div className="relative mt-8 h-[200px]">
+          <div className="absolute size-full">
+            <ResponsiveContainer debounce={500}>
+              <AreaChart data={chartData}>
+                <RechartsTooltip content={renderTooltip} wrapperStyle={CHART_TOOLTIP_WRAPPER_STYLE} />
+                {composition.map((item) => (
+                  <Area
+                    key={item.glvMarket.address}
+                    type="monotone"
+                    dataKey={item.glvMarket.address}
+                    stackId="allocation"
+                    stroke={getMarketColor(item)}
+                    fill={getMarketColor(item)}
+                    fillOpacity={0.6}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <XAxis
+                  dataKey="dateCompact"
+                  axisLine={false}
+                  tickLine={false}
+                  fontSize={12}
+                  minTickGap={20}
+                  tick={CHART_TICK_PROPS}
+                />
+                <YAxis
+                  mirror
+                  type="number"
+                  domain={SHARE_DOMAIN}
+                  axisLine={false}
+                  tickLine={false}
+                  fontSize={12}
+                  tickFormatter={yAxisTickFormatter}
+                  tick={CHART_TICK_PROPS}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+          {isLoading && (
+            <div className="absolute grid size-full place-items-center">
+              <Loader />
+            </div>
+          )}
+          {!isLoading && chartData.length === 0 && (
+            <div className="absolute grid size-full place-items-center text-gray-300">
+              <Trans>No data available</Trans>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <GlvDepositRouting glvInfo={glvInfo} composition={composition} onSelectGmMarket={onSelectGmMarket} />
+    </div>
+  );
+}
+
+function CompositionRow({ item, startShare }: { item: GlvCompositionItem; startShare: number | undefined }) {
+  const indexToken = item.marketInfo.indexToken;
+  const shift = startShare === undefined ? undefined : item.share - startShare;
+
+  return (
+    <ExchangeTr hoverable={false} bordered={false}>
+      <ExchangeTd className="py-6" padding="none">
+        <span className="flex flex-row items-center gap-8">
+          <TokenIcon symbol={indexToken.symbol} displaySize={24} />
+          <span className={cx({ "text-gray-300": item.glvMarket.isDisabled })}>
+            {getMarketIndexName({ indexToken, isSpotOnly: false })}
+          </span>
+        </span>
+      </ExchangeTd>
+      <ExchangeTd className="py-6" padding="none">
+        {formatAmountHuman(item.balanceUsd, USD_DECIMALS, true, 1)}/
+        {formatAmountHuman(item.capUsd, USD_DECIMALS, true, 1)}
+      </ExchangeTd>
+      <ExchangeTd className="py-6" padding="none">
+        <div className="flex items-center gap-8">
+          <div className="h-4 w-48 overflow-hidden rounded-2 bg-slate-700">
+            <div
+              className={cx("h-full", item.utilization >= 100 ? "bg-red-500" : "bg-blue-300")}
+              // eslint-disable-next-line react-perf/jsx-no-new-object-as-prop
+              style={{ width: `${Math.min(item.utilization, 100).toFixed(2)}%` }}
+            />
+          </div>
+          {item.utilization.toFixed(2)}%
+        </div>
+      </ExchangeTd>
+      <ExchangeTd className="py-6" padding="none">
+        {item.share.toFixed(2)}%
+      </ExchangeTd>
+      <ExchangeTd
+        className={cx("py-6", {
+          "text-green-500": shift !== undefined && shift > 0,
+          "text-red-500": shift !== undefined && shift < 0,
+        })}
+        padding="none"
+      >
+        {shift === undefined ? "-" : `${shift > 0 ? "+" : ""}${shift.toFixed(2)}%`}
+      </ExchangeTd>
+    </ExchangeTr>
+  );
+}
+
+function GlvDepositRouting({
+  glvInfo,
+  composition,
+  onSelectGmMarket,
+}: {
+  glvInfo: GlvMarketInfo;
+  composition: GlvCompositionItem[];
+  onSelectGmMarket: (marketAddress: string) => void;
+}) {
+  const { longToken, shortToken } = glvInfo;
+
+  const tokenOptions = useMemo(
+    () => (longToken.address === shortToken.address ? [longToken.address] : [longToken.address, shortToken.address]),
+    [longToken.address, shortToken.address]
+  );
+  const tokenLabels = useMemo(
+    () => ({ [longToken.address]: longToken.symbol, [shortToken.address]: shortToken.symbol }),
+    [longToken.address, longToken.symbol, shortToken.address, shortToken.symbol]
+  );
+
+  const [tokenAddress, setTokenAddress] = useState(longToken.address);
+  const [amountInputValue, setAmountInputValue] = useState("");
+
+  const token = tokenAddress === shortToken.address ? shortToken : longToken;
+  const amountUsd = convertToUsd(parseValue(amountInputValue, token.decimals), token.decimals, token.prices.minPrice);
+
+  const routes = useMemo(
+    () => getGlvDepositRoutes(glvInfo, composition, token.address),
+    [composition, glvInfo, token.address]
+  );
+  const bestRoute = getBestGlvDepositRoute(routes, amountUsd);
+
+  const handleAmountChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setAmountInputValue(e.target.value);
+  }, []);
+
+  return (
+    <div className="mt-20">
+      <div className="flex flex-wrap items-center justify-between gap-8">
+        <p>
+          <Trans>Deposit Routing</Trans>
+        </p>
+        <div className="flex items-center gap-8">
+          <div className="flex items-center rounded-4 bg-slate-700 px-8 py-4">
+            <NumberInput
+              className="bg-transparent w-80 text-white"
+              value={amountInputValue}
+              onValueChange={handleAmountChange}
+              placeholder="0.0"
+            />
+          </div>
+          <Tab
+            options={tokenOptions}
+            optionLabels={tokenLabels}
+            option={token.address}
+            onChange={setTokenAddress}
+            type="inline"
+          />
+        </div>
+      </div>
+      <div className="mt-8 text-12 text-gray-300">
+        <Trans>
+          A {token.symbol} deposit mints GM in one of the vault pools. The capacity is limited by the vault cap and the
+          pool buying cap.
+        </Trans>
+      </div>
+      <div className="mt-8 flex flex-col gap-8">
+        {routes.map((route) => {
+          const isBest = route.item.glvMarket.address === bestRoute?.item.glvMarket.address;
+          const isFitting = route.capacityUsd > 0 && (amountUsd === undefined || route.capacityUsd >= amountUsd);
+          const capacity = formatUsd(route.capacityUsd);
+
+          return (
+            <div key={route.item.glvMarket.address} className="flex items-center justify-between gap-8">
+              <span className="flex items-center gap-8">
+                <TokenIcon symbol={route.item.marketInfo.indexToken.symbol} displaySize={20} />
+                {getMarketIndexName({ indexToken: route.item.marketInfo.indexToken, isSpotOnly: false })}
+                {isBest && (
+                  <span className="rounded-4 bg-blue-300 px-4 text-12 text-slate-900">
+                    <Trans>Best</Trans>
+                  </span>
+                )}
+              </span>
+              <span className="flex items-center gap-12">
+                <span className={cx({ "text-gray-300": !isFitting })}>
+                  <Trans>Capacity: {capacity}</Trans>
+                </span>
+                <Button
+                  variant="secondary"
+                  slim
+                  disabled={route.capacityUsd === 0n}
+                  onClick={() => onSelectGmMarket(route.item.marketInfo.marketTokenAddress)}
+                >
+                  <Trans>Select</Trans>
+                </Button>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function AllocationTooltip({
+  active,
+  payload,
+  composition,
+}: TooltipProps<number, string> & { composition: GlvCompositionItem[] }) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const point = payload[0].payload as ChartPoint;
+
+  return (
+    <div className="z-50 rounded-4 border border-gray-950 bg-slate-800 p-8 text-14">
+      <StatsTooltipRow label={t`Date`} value={formatDateTime(point.timestamp)} showDollar={false} />
+      {composition.map((item) => (
+        <StatsTooltipRow
+          key={item.glvMarket.address}
+          label={getMarketIndexName({ indexToken: item.marketInfo.indexToken, isSpotOnly: false })}
+          value={`${Number(point[item.glvMarket.address] ?? 0).toFixed(2)}%`}
+          showDollar={false}
+        />
+      ))}
+    </div>
+  );
+}
+
+function getMarketColor(item: GlvCompositionItem) {
+  return TOKEN_COLOR_MAP[item.marketInfo.indexToken.symbol] ?? TOKEN_COLOR_MAP.default;
+}
+
+function yAxisTickFormatter(value: number) {
+  if (!isFinite(value)) return "";
+
+  return `${value.toFixed(0)}%`;
+}
@@ -0,0 +1,436 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback, useMemo, useState } from "react";
+
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { getContract } from "config/contracts";
+import { useSubaccount } from "context/SubaccountContext/SubaccountContext";
+import { useSyntheticsEvents } from "context/SyntheticsEvents";
+import {
+  useMarketsInfoData,
+  usePositionsConstants,
+  usePositionsInfoData,
+  useTokensData,
+  useUiFeeFactor,
+  useUserReferralInfo,
+} from "context/SyntheticsStateContext/hooks/globalsHooks";
+import {
+  selectSavedAcceptablePriceImpactBuffer,
+  selectSavedAllowedSlippage,
+} from "context/SyntheticsStateContext/selectors/settingsSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import {
+  estimateExecuteIncreaseOrderGasLimit,
+  getExecutionFee,
+  useGasLimits,
+  useGasPrice,
+} from "domain/synthetics/fees";
+import { estimateOrderOraclePriceCount } from "domain/synthetics/fees/utils/estimateOraclePriceCount";
+import {
+  GM_HEDGE_DRIFT_WARNING_BPS,
+  GmHedge,
+  GmTokenExposure,
+  getGmHedgeCarry,
+  getGmHedgeDrifts,
+  getGmHedgeLegAmounts,
+  getGmHedgeLegs,
+  getGmTokenExposures,
+} from "domain/synthetics/gmHedge";
+import { useGmHedges } from "domain/synthetics/gmHedge/useGmHedges";
+import { MarketInfo, MarketTokensAPRData, getMarketIndexName, getMarketPoolName } from "domain/synthetics/markets";
+import { OrderType } from "domain/synthetics/orders";
+import { createGmHedgeOrdersTxn } from "domain/synthetics/orders/createGmHedgeOrdersTxn";
+import { PositionInfo, getPositionKey } from "domain/synthetics/positions";
+import { TokenData, convertToUsd, getNeedTokenApprove, useTokensAllowanceData } from "domain/synthetics/tokens";
+import { bigMath } from "lib/bigmath";
+import { useChainId } from "lib/chains";
+import { usePendingTxns } from "lib/usePendingTxns";
+import { formatPercentage, formatRatePercentage, formatTokenAmount, formatUsd } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import { getPositiveOrNegativeClass } from "lib/utils";
+import useWallet from "lib/wallets/useWallet";
+
+import { ApproveTokenButton } from "components/ApproveTokenButton/ApproveTokenButton";
+import Button from "components/Button/Button";
+import { CardRow } from "components/CardRow/CardRow";
+import Tab from "components/Tab/Tab";
+
+const LEVERAGE_OPTIONS = [1, 2, 3, 5];
+const LEVERAGE_OPTION_INDEXES = LEVERAGE_OPTIONS.map((_, index) => index);
+const LEVERAGE_OPTION_LABELS = LEVERAGE_OPTIONS.map((leverage) => `${leverage}x`);
+
+type Props = {
+  marketInfo: MarketInfo | undefined;
+  marketToken: TokenData | undefined;
+  marketsTokensApyData: MarketTokensAPRData | undefined;
+};
+
+export function GmHedgeBuilder({ marketInfo, marketToken, marketsTokensApyData }: Props) {
+  const { chainId } = useChainId();
+  const { account, signer } = useWallet();
+  const [, setPendingTxns] = usePendingTxns();
+  const marketsInfoData = useMarketsInfoData();
+  const positionsInfoData = usePositionsInfoData();
+  const tokensData = useTokensData();
+  const userReferralInfo = useUserReferralInfo();
+  const uiFeeFactor = useUiFeeFactor();
+  const acceptablePriceImpactBuffer = useSelector(selectSavedAcceptablePriceImpactBuffer);
+  const allowedSlippage = useSelector(selectSavedAllowedSlippage);
+  const { minPositionSizeUsd } = usePositionsConstants();
+  const gasLimits = useGasLimits(chainId);
+  const gasPrice = useGasPrice(chainId);
+  const { setPendingOrder, setPendingPosition } = useSyntheticsEvents();
+  const { gmHedges, addGmHedge, removeGmHedges } = useGmHedges();
+
+  const [leverageIndex, setLeverageIndex] = useState(1);
+  const [collateralTokenAddress, setCollateralTokenAddress] = useState<string>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const marketsInfo = useMemo(() => Object.values(marketsInfoData ?? {}), [marketsInfoData]);
+
+  const exposures = useMemo(
+    () => (marketInfo && marketToken ? getGmTokenExposures(marketInfo, marketToken) : []),
+    [marketInfo, marketToken]
+  );
+
+  const collateralTokens = useMemo(() => {
+    const tokens = new Map<string, TokenData>();
+
+    for (const market of marketsInfo) {
+      for (const token of [market.longToken, market.shortToken]) {
+        if (token.isStable && !market.isSpotOnly) tokens.set(token.address, token);
+      }
+    }
+
+    return Array.from(tokens.values());
+  }, [marketsInfo]);
+  const collateralTokenIndexes = useMemo(() => collateralTokens.map((_, index) => index), [collateralTokens]);
+  const collateralTokenLabels = useMemo(() => collateralTokens.map((token) => token.symbol), [collateralTokens]);
+
+  const defaultCollateralToken = marketInfo?.shortToken.isStable ? marketInfo.shortToken : collateralTokens[0];
+  const collateralToken =
+    getByKey(tokensData, collateralTokenAddress) ?? getByKey(tokensData, defaultCollateralToken?.address);
+  const leverage = BigInt(LEVERAGE_OPTIONS[leverageIndex]) * BASIS_POINTS_DIVISOR_BIGINT;
+
+  const legs = useMemo(() => {
+    if (!collateralToken || minPositionSizeUsd === undefined) return [];
+
+    return getGmHedgeLegs(exposures, {
+      marketsInfo,
+      collateralTokenAddress: collateralToken.address,
+      minPositionSizeUsd,
+    }).map((leg) =>
+      getGmHedgeLegAmounts(leg, {
+        collateralToken,
+        leverage,
+        userReferralInfo,
+        uiFeeFactor,
+        acceptablePriceImpactBuffer,
+      })
+    );
+  }, [
+    acceptablePriceImpactBuffer,
+    collateralToken,
+    exposures,
+    leverage,
+    marketsInfo,
+    minPositionSizeUsd,
+    uiFeeFactor,
+    userReferralInfo,
+  ]);
+
+  const gmValueUsd =
+    marketToken?.balance !== undefined
+      ? convertToUsd(marketToken.balance, marketToken.decimals, marketToken.prices.minPrice) ?? 0n
+      : 0n;
+  const gmApy = getByKey(marketsTokensApyData, marketInfo?.marketTokenAddress);
+
+  const carry = useMemo(
+    () => (gmApy !== undefined ? getGmHedgeCarry({ gmValueUsd, gmApy, legs }) : undefined),
+    [gmApy, gmValueUsd, legs]
+  );
+
+  const executionFee = useMemo(() => {
+    if (!gasLimits || !tokensData || gasPrice === undefined) return undefined;
+
+    return getExecutionFee(
+      chainId,
+      gasLimits,
+      tokensData,
+      estimateExecuteIncreaseOrderGasLimit(gasLimits, { swapsCount: 0 }),
+      gasPrice,
+      estimateOrderOraclePriceCount(0)
+    );
+  }, [chainId, gasLimits, gasPrice, tokensData]);
+
+  const subaccount = useSubaccount(
+    executionFee ? executionFee.feeTokenAmount * BigInt(legs.length) : null,
+    Math.max(legs.length, 1)
+  );
+
+  const { tokensAllowanceData } = useTokensAllowanceData(chainId, {
+    spenderAddress: getContract(chainId, "SyntheticsRouter"),
+    tokenAddresses: collateralToken ? [collateralToken.address] : [],
+    skip: !collateralToken,
+  });
+
+  const payAmount = legs.reduce((acc, leg) => acc + leg.increaseAmounts.initialCollateralAmount, 0n);
+  const feesUsd = legs.reduce(
+    (acc, leg) => acc + leg.increaseAmounts.positionFeeUsd + leg.increaseAmounts.uiFeeUsd,
+    0n
+  );
+  const needCollateralApproval =
+    collateralToken && tokensAllowanceData
+      ? getNeedTokenApprove(tokensAllowanceData, collateralToken.address, payAmount)
+      : false;
+
+  const marketHedges = useMemo(
+    () => gmHedges.filter((hedge) => hedge.gmMarketAddress === marketInfo?.marketTokenAddress),
+    [gmHedges, marketInfo?.marketTokenAddress]
+  );
+
+  const error = useMemo(() => {
+    if (!legs.length) return t`Nothing to hedge`;
+    if (!executionFee) return t`Loading...`;
+    if ((collateralToken?.balance ?? 0n) < payAmount) return t`Insufficient ${collateralToken?.symbol} balance`;
+    if (needCollateralApproval) return t`Pending ${collateralToken?.symbol} approval`;
+    if (isSubmitting) return t`Submitting...`;
+    return undefined;
+  }, [collateralToken, executionFee, isSubmitting, legs.length, needCollateralApproval, payAmount]);
+
+  const handleCollateralChange = useCallback(
+    (index: number) => setCollateralTokenAddress(collateralTokens[index]?.address),
+    [collateralTokens]
+  );
+
+  const onSubmit = useCallback(() => {
+    if (!account || !signer || !tokensData || !collateralToken || !executionFee || !marketInfo || error) return;
+
+    setIsSubmitting(true);
+
+    createGmHedgeOrdersTxn(chainId, signer, subaccount, {
+      orders: legs.map(({ marketInfo: legMarketInfo, isLong, increaseAmounts }) => ({
+        account,
+        marketAddress: legMarketInfo.marketTokenAddress,
+        initialCollateralAddress: collateralToken.address,
+        targetCollateralAddress: collateralToken.address,
+        initialCollateralAmount: increaseAmounts.initialCollateralAmount,
+        collateralDeltaAmount: increaseAmounts.collateralDeltaAmount,
+        swapPath: [],
+        sizeDeltaUsd: increaseAmounts.sizeDeltaUsd,
+        sizeDeltaInTokens: increaseAmounts.sizeDeltaInTokens,
+        acceptablePrice: increaseAmounts.acceptablePrice,
+        triggerPrice: undefined,
+        isLong,
+        orderType: OrderType.MarketIncrease,
+        executionFee: executionFee.feeTokenAmount,
+        allowedSlippage,
+        referralCode: userReferralInfo?.referralCodeForTxn,
+        indexToken: legMarketInfo.indexToken,
+        tokensData,
+      })),
+      setPendingTxns,
+      setPendingOrder,
+      setPendingPosition,
+    })
+      .then(() => {
+        addGmHedge({
+          gmMarketAddress: marketInfo.marketTokenAddress,
+          positionKeys: legs.map((leg) =>
+            getPositionKey(account, leg.marketInfo.marketTokenAddress, collateralToken.address, leg.isLong)
+          ),
+        });
+      })
+      .finally(() => setIsSubmitting(false));
+  }, [
+    account,
+    addGmHedge,
+    allowedSlippage,
+    chainId,
+    collateralToken,
+    error,
+    executionFee,
+    legs,
+    marketInfo,
+    setPendingOrder,
+    setPendingPosition,
+    setPendingTxns,
+    signer,
+    subaccount,
+    tokensData,
+    userReferralInfo?.referralCodeForTxn,
+  ]);
+
+  if (!account || !marketInfo || marketToken?.balance === undefined || marketToken.balance === 0n) {
+    return null;
+  }
+
+  return (
+    <div className="mt-12 flex flex-wrap gap-20 bg-slate-800 p-20">
+      <div className="min-w-[30rem] max-w-[36.6rem] flex-grow">
+        <p>
+          <Trans>GM Exposure</Trans>
+        </p>
+        <div className="App-card-divider !-mx-20" />
+        <div className="App-card-content">
+          <CardRow label={t`GM Value`} value={formatUsd(gmValueUsd)} />
+          {exposures.map((exposure) => (
+            <CardRow key={exposure.symbol} label={exposure.symbol} value={<ExposureValue exposure={exposure} />} />
+          ))}
+        </div>
+
+        {marketHedges.map((hedge) => (
+          <GmHedgeDriftCard
+            key={hedge.id}
+            hedge={hedge}
+            exposures={exposures}
+            positionsInfoData={positionsInfoData}
+            onRemove={removeGmHedges}
+          />
+        ))}
+      </div>
+
+      <div className="min-w-[30rem] flex-grow">
+        <p>
+          <Trans>Hedge Builder</Trans>
+        </p>
+        <div className="App-card-divider !-mx-20" />
+        <div className="mb-10 flex flex-wrap items-center gap-16">
+          {collateralTokens.length > 0 && (
+            <Tab
+              options={collateralTokenIndexes}
+              optionLabels={collateralTokenLabels}
+              option={collateralTokens.findIndex((token) => token.address === collateralToken?.address)}
+              onChange={handleCollateralChange}
+              type="inline"
+            />
+          )}
+          <Tab
+            options={LEVERAGE_OPTION_INDEXES}
+            optionLabels={LEVERAGE_OPTION_LABELS}
+            option={leverageIndex}
+            onChange={setLeverageIndex}
+            type="inline"
+          />
+        </div>
+        <div className="App-card-content">
+          {legs.map((leg) => (
+            <CardRow
+              key={leg.symbol}
+              label={`${leg.isLong ? t`Long` : t`Short`} ${getMarketIndexName(leg.marketInfo)} [${getMarketPoolName(leg.marketInfo)}]`}
+              value={formatUsd(leg.sizeDeltaUsd)}
+            />
+          ))}
+          {collateralToken && (
+            <CardRow
+              label={t`Pay`}
+              value={formatTokenAmount(payAmount, collateralToken.decimals, collateralToken.symbol)}
+            />
+          )}
+          <CardRow label={t`Fees`} value={formatUsd(feesUsd)} />
+          <CardRow
+            label={t`Network Fee`}
+            value={formatUsd(executionFee ? executionFee.feeUsd * BigInt(legs.length) : undefined)}
+          />
+          {carry && (
+            <>
+              <CardRow label={t`GM APY`} value={formatRatePercentage(gmApy, { displayDecimals: 2, signed: false })} />
+              <CardRow label={t`GM Yield / 1y`} value={formatUsd(carry.gmYieldUsd)} />
+              <CardRow
+                label={t`Funding / 1y`}
+                value={
+                  <span className={getPositiveOrNegativeClass(carry.fundingUsd)}>{formatUsd(carry.fundingUsd)}</span>
+                }
+              />
+              <CardRow label={t`Borrowing / 1y`} value={formatUsd(-carry.borrowingUsd)} />
+              <CardRow
+                label={t`Net Carry`}
+                value={
+                  <span className={getPositiveOrNegativeClass(carry.netCarryUsd)}>
+                    {formatUsd(carry.netCarryUsd)} ({formatRatePercentage(carry.netApy, { displayDecimals: 2 })})
+                  </span>
+                }
+              />
+            </>
+          )}
+        </div>
+        {collateralToken && needCollateralApproval && (
+          <div className="mt-15">
+            <ApproveTokenButton
+              spenderAddress={getContract(chainId, "SyntheticsRouter")}
+              tokenAddress={collateralToken.address}
+              tokenSymbol={collateralToken.symbol}
+            />
+          </div>
+        )}
+        <Button className="mt-15 w-full" variant="primary-action" disabled={Boolean(error)} onClick={onSubmit}>
+          {error ?? t`Submit Hedge`}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ExposureValue({ exposure }: { exposure: GmTokenExposure }) {
+  const side = exposure.exposureUsd >= 0 ? t`Long` : t`Short`;
+  const value = formatUsd(bigMath.abs(exposure.exposureUsd));
+
+  return (
+    <span className={exposure.token.isStable ? "text-gray-300" : undefined}>
+      {side} {value}
+    </span>
+  );
+}
+
+function GmHedgeDriftCard({
+  hedge,
+  exposures,
+  positionsInfoData,
+  onRemove,
+}: {
+  hedge: GmHedge;
+  exposures: GmTokenExposure[];
+  positionsInfoData: { [key: string]: PositionInfo } | undefined;
+  onRemove: (ids: string[]) => void;
+}) {
+  const handleRemove = useCallback(() => onRemove([hedge.id]), [hedge.id, onRemove]);
+
+  const drifts = useMemo(() => {
+    const positions = hedge.positionKeys
+      .map((positionKey) => getByKey(positionsInfoData, positionKey))
+      .filter((position): position is PositionInfo => Boolean(position));
+
+    return getGmHedgeDrifts(exposures, positions);
+  }, [exposures, hedge.positionKeys, positionsInfoData]);
+
+  return (
+    <div className="mt-15">
+      <div className="flex justify-between">
+        <span>
+          <Trans>Hedge Drift</Trans>
+        </span>
+        <button className="text-gray-300 hover:text-white" onClick={handleRemove}>
+          <Trans>Stop Tracking</Trans>
+        </button>
+      </div>
+      <div className="App-card-divider !-mx-20" />
+      <div className="App-card-content">
+        {drifts.map((drift) => {
+          const isWarning = drift.driftBps !== undefined && Math.abs(drift.driftBps) > GM_HEDGE_DRIFT_WARNING_BPS;
+
+          return (
+            <CardRow
+              key={drift.symbol}
+              label={drift.symbol}
+              value={
+                <span className={isWarning ? "text-red-500" : undefined}>
+                  {formatUsd(drift.driftUsd)}
+                  {drift.driftBps !== undefined && ` (${formatPercentage(BigInt(drift.driftBps), { signed: true })})`}
+                </span>
+              }
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
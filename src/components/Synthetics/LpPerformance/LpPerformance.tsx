@@ -0,0 +1,234 @@
+import { Trans, t } from "@lingui/macro";
+import { lightFormat } from "date-fns";
+import { useMemo } from "react";
+import { Line, LineChart, Tooltip as RechartsTooltip, ResponsiveContainer, TooltipProps, XAxis, YAxis } from "recharts";
+
+import { USD_DECIMALS } from "config/factors";
+import type { LpPerformancePoint } from "domain/synthetics/lpPerformance";
+import { useLpPerformance } from "domain/synthetics/lpPerformance/useLpPerformance";
+import { MarketInfo } from "domain/synthetics/markets";
+import { isGlv } from "domain/synthetics/markets/glv";
+import { TokenData } from "domain/synthetics/tokens";
+import { useChainId } from "lib/chains";
+import { formatDateTime } from "lib/dates";
+import { bigintToNumber, formatUsd } from "lib/numbers";
+import { getPositiveOrNegativeClass } from "lib/utils";
+import useWallet from "lib/wallets/useWallet";
+
+import { CardRow } from "components/CardRow/CardRow";
+import Loader from "components/Common/Loader";
+import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+import Tooltip from "components/Tooltip/Tooltip";
+
+const CHART_TOOLTIP_WRAPPER_STYLE: React.CSSProperties = { zIndex: 10000 };
+
+const CHART_TICK_PROPS: React.SVGProps<SVGTextElement> = { fill: "var(--color-gray-400)" };
+
+type ChartPoint = LpPerformancePoint & {
+  dateCompact: string;
+  valueUsdFloat: number;
+  hodlValueUsdFloat: number;
+  costBasisUsdFloat: number;
+};
+
+type Props = {
+  marketInfo: MarketInfo | undefined;
+  marketToken: TokenData | undefined;
+};
+
+export function LpPerformance({ marketInfo, marketToken }: Props) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const { performance, isLoading } = useLpPerformance(chainId, marketInfo, marketToken);
+
+  const tokenName = marketInfo && isGlv(marketInfo) ? "GLV" : "GM";
+
+  const chartData: ChartPoint[] = useMemo(
+    () =>
+      (performance?.history ?? []).map((point) => ({
+        ...point,
+        dateCompact: lightFormat(point.timestamp * 1000, "dd/MM/yy"),
+        valueUsdFloat: bigintToNumber(point.valueUsd, USD_DECIMALS),
+        hodlValueUsdFloat: bigintToNumber(point.hodlValueUsd, USD_DECIMALS),
+        costBasisUsdFloat: bigintToNumber(point.costBasisUsd, USD_DECIMALS),
+      })),
+    [performance]
+  );
+
+  if (!account || !marketInfo) {
+    return null;
+  }
+
+  return (
+    <div className="mt-12 flex flex-wrap gap-20 bg-slate-800 p-20">
+      <div className="min-w-[30rem] max-w-[36.6rem] flex-grow">
+        <p>
+          <Trans>Your {tokenName} Performance</Trans>
+        </p>
+        <div className="App-card-divider !-mx-20" />
+        {isLoading && <Loader />}
+        {!isLoading && !performance && (
+          <div className="text-gray-300">
+            <Trans>No deposits into this pool yet.</Trans>
+          </div>
+        )}
+        {performance && (
+          <div className="App-card-content">
+            <CardRow label={t`Cost Basis`} value={formatUsd(performance.costBasisUsd)} />
+            <CardRow label={t`Current Value`} value={formatUsd(performance.valueUsd)} />
+            <CardRow label={t`Fee Income`} value={formatUsd(performance.feeIncomeUsd)} />
+            <CardRow
+              label={t`PnL`}
+              value={
+                <Tooltip
+                  handle={
+                    <span className={getPositiveOrNegativeClass(performance.pnlUsd)}>
+                      {formatUsd(performance.pnlUsd)}
+                    </span>
+                  }
+                  position="bottom-end"
+                  renderContent={() => (
+                    <>
+                      <StatsTooltipRow
+                        label={t`Deposited`}
+                        value={formatUsd(performance.depositedUsd)}
+                        showDollar={false}
+                      />
+                      <StatsTooltipRow
+                        label={t`Withdrawn`}
+                        value={formatUsd(performance.withdrawnUsd)}
+                        showDollar={false}
+                      />
+                      <StatsTooltipRow
+                        label={t`Current Value`}
+                        value={formatUsd(performance.valueUsd)}
+                        showDollar={false}
+                      />
+                    </>
+                  )}
+                />
+              }
+            />
+            <CardRow
+              label={t`HODL PnL`}
+              value={
+                <Tooltip
+                  handle={
+                    <span className={getPositiveOrNegativeClass(performance.hodlPnlUsd)}>
+                      {formatUsd(performance.hodlPnlUsd)}
+                    </span>
+                  }
+                  position="bottom-end"
+                  renderContent={() => (
+                    <Trans>
+                      PnL of holding the long and short tokens of each deposit in the pool ratio at the time of the
+                      deposit instead of {tokenName}.
+                    </Trans>
+                  )}
+                />
+              }
+            />
+            <CardRow
+              label={t`PnL vs HODL`}
+              value={
+                <span className={getPositiveOrNegativeClass(performance.pnlVsHodlUsd)}>
+                  {formatUsd(performance.pnlVsHodlUsd)}
+                </span>
+              }
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="min-w-[30rem] flex-grow">
+        <div className="flex flex-wrap gap-x-16 gap-y-4 text-12 text-gray-300">
+          <div>
+            <div className="inline-block h-2 w-12 bg-blue-300 align-middle" /> <Trans>{tokenName} Value</Trans>
+          </div>
+          <div>
+            <div className="inline-block h-2 w-12 bg-yellow-300 align-middle" /> <Trans>HODL Value</Trans>
+          </div>
+          <div>
+            <div className="inline-block h-2 w-12 border-t-2 border-dashed border-gray-400 align-middle" />{" "}
+            <Trans>Cost Basis</Trans>
+          </div>
+        </div>
+        <div className="relative mt-8 h-[240px]">
+          <div className="absolute size-full">
+            <ResponsiveContainer debounce={500}>
+              <LineChart data={chartData}>
+                <RechartsTooltip content={ChartTooltip} wrapperStyle={CHART_TOOLTIP_WRAPPER_STYLE} />
+                <Line
+                  type="monotone"
+                  dataKey="valueUsdFloat"
+                  stroke="var(--color-blue-300)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="hodlValueUsdFloat"
+                  stroke="var(--color-yellow-300)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="costBasisUsdFloat"
+                  stroke="var(--color-gray-400)"
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+                <XAxis
+                  dataKey="dateCompact"
+                  axisLine={false}
+                  tickLine={false}
+                  fontSize={12}
+                  minTickGap={20}
+                  tick={CHART_TICK_PROPS}
+                />
+                <YAxis
+                  mirror
+                  type="number"
+                  axisLine={false}
+                  tickLine={false}
+                  fontSize={12}
+                  tickFormatter={yAxisTickFormatter}
+                  tick={CHART_TICK_PROPS}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          {!isLoading && chartData.length === 0 && (
+            <div className="absolute grid size-full place-items-center text-gray-300">
+              <Trans>No data available</Trans>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function yAxisTickFormatter(value: number) {
+  if (!isFinite(value)) return "";
+
+  return `$${value.toFixed(0)}`;
+}
+
+function ChartTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const point = payload[0].payload as ChartPoint;
+
+  return (
+    <div className="z-50 rounded-4 border border-gray-950 bg-slate-800 p-8 text-14">
+      <StatsTooltipRow label={t`Date`} value={formatDateTime(point.timestamp)} showDollar={false} />
+      <StatsTooltipRow label={t`Value`} value={formatUsd(point.valueUsd)} showDollar={false} />
+      <StatsTooltipRow label={t`HODL Value`} value={formatUsd(point.hodlValueUsd)} showDollar={false} />
+      <StatsTooltipRow label={t`Cost Basis`} value={formatUsd(point.costBasisUsd)} showDollar={false} />
+    </div>
+  );
+}
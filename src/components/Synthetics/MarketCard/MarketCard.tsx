@@ -23,6 +23,7 @@ import ExternalLink from "components/ExternalLink/ExternalLink";
 import { ShareBar } from "components/ShareBar/ShareBar";
 import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
 import MarketNetFee from "components/Synthetics/MarketNetFee/MarketNetFee";
+import { MarketRatesHistoryChart } from "components/Synthetics/MarketRatesHistoryChart/MarketRatesHistoryChart";
 import { renderNetFeeHeaderTooltipContent } from "components/Synthetics/MarketsList/NetFeeHeaderTooltipContent";
 import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
 import { selectSelectedMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
@@ -305,6 +306,8 @@ export function MarketCard({ marketInfo, allowedSlippage, isLong }: Props) {
           }
         />
       </div>
+      <div className="App-card-divider" />
+      <MarketRatesHistoryChart marketAddress={marketInfo?.marketTokenAddress} />
     </div>
   );
 }
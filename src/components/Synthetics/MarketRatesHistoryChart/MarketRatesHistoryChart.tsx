@@ -0,0 +1,179 @@
+import { Trans, t } from "@lingui/macro";
+import cx from "classnames";
+import { lightFormat } from "date-fns";
+import { useMemo, useState } from "react";
+import { Line, LineChart, Tooltip as RechartsTooltip, ResponsiveContainer, TooltipProps, XAxis, YAxis } from "recharts";
+
+import type { MarketRatesAggregation, MarketRatesHistoryPoint } from "domain/synthetics/marketRatesHistory";
+import { useMarketRatesHistory } from "domain/synthetics/marketRatesHistory/useMarketRatesHistory";
+import { useChainId } from "lib/chains";
+import { formatDateTime } from "lib/dates";
+import { bigintToNumber, formatRatePercentage } from "lib/numbers";
+import { getPositiveOrNegativeClass } from "lib/utils";
+
+import Loader from "components/Common/Loader";
+import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+import Tab from "components/Tab/Tab";
+
+const AGGREGATIONS: MarketRatesAggregation[] = ["1h", "8h", "1d"];
+
+const CHART_TOOLTIP_WRAPPER_STYLE: React.CSSProperties = { zIndex: 10000 };
+
+const CHART_TICK_PROPS: React.SVGProps<SVGTextElement> = { fill: "var(--color-gray-400)" };
+
+const LONG_COLOR = "var(--color-green-500)";
+const SHORT_COLOR = "var(--color-red-500)";
+
+type ChartPoint = MarketRatesHistoryPoint & {
+  dateCompact: string;
+  fundingAprLongFloat: number;
+  fundingAprShortFloat: number;
+  borrowingAprLongFloat: number;
+  borrowingAprShortFloat: number;
+};
+
+type Props = {
+  marketAddress: string | undefined;
+  className?: string;
+};
+
+export function MarketRatesHistoryChart({ marketAddress, className }: Props) {
+  const { chainId } = useChainId();
+  const [aggregation, setAggregation] = useState<MarketRatesAggregation>("8h");
+  const { data, isLoading, error } = useMarketRatesHistory(chainId, marketAddress, aggregation);
+
+  const chartData: ChartPoint[] = useMemo(
+    () =>
+      data.map((point) => ({
+        ...point,
+        dateCompact: lightFormat(point.timestamp * 1000, aggregation === "1d" ? "dd/MM" : "dd/MM HH:mm"),
+        fundingAprLongFloat: toPercentageFloat(point.fundingAprLong),
+        fundingAprShortFloat: toPercentageFloat(point.fundingAprShort),
+        borrowingAprLongFloat: toPercentageFloat(point.borrowingAprLong),
+        borrowingAprShortFloat: toPercentageFloat(point.borrowingAprShort),
+      })),
+    [aggregation, data]
+  );
+
+  return (
+    <div className={cx("flex flex-col", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-8">
+        <p>
+          <Trans>Funding & Borrowing APR</Trans>
+        </p>
+        <Tab options={AGGREGATIONS} option={aggregation} onChange={setAggregation} type="inline" />
+      </div>
+
+      <div className="flex flex-wrap gap-x-16 gap-y-4 pt-8 text-12 text-gray-300">
+        <div>
+          <div className="inline-block h-2 w-12 bg-green-500 align-middle" /> <Trans>Funding Long</Trans>
+        </div>
+        <div>
+          <div className="inline-block h-2 w-12 bg-red-500 align-middle" /> <Trans>Funding Short</Trans>
+        </div>
+        <div>
+          <div className="inline-block h-2 w-12 border-t-2 border-dashed border-green-500 align-middle" />{" "}
+          <Trans>Borrowing Long</Trans>
+        </div>
+        <div>
+          <div className="inline-block h-2 w-12 border-t-2 border-dashed border-red-500 align-middle" />{" "}
+          <Trans>Borrowing Short</Trans>
+        </div>
+      </div>
+
+      <div className="relative mt-8 h-[200px]">
+        <div className="absolute size-full">
+          <ResponsiveContainer debounce={500}>
+            <LineChart data={chartData}>
+              <RechartsTooltip content={ChartTooltip} wrapperStyle={CHART_TOOLTIP_WRAPPER_STYLE} />
+              <Line type="monotone" dataKey="fundingAprLongFloat" stroke={LONG_COLOR} strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="fundingAprShortFloat" stroke={SHORT_COLOR} strokeWidth={2} dot={false} />
+              <Line
+                type="monotone"
+                dataKey="borrowingAprLongFloat"
+                stroke={LONG_COLOR}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="borrowingAprShortFloat"
+                stroke={SHORT_COLOR}
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              <XAxis
+                dataKey="dateCompact"
+                axisLine={false}
+                tickLine={false}
+                fontSize={12}
+                minTickGap={20}
+                tick={CHART_TICK_PROPS}
+              />
+              <YAxis
+                mirror
+                type="number"
+                axisLine={false}
+                tickLine={false}
+                fontSize={12}
+                tickFormatter={yAxisTickFormatter}
+                tick={CHART_TICK_PROPS}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        {isLoading && (
+          <div className="absolute grid size-full place-items-center">
+            <Loader />
+          </div>
+        )}
+        {!isLoading && (error || chartData.length === 0) && (
+          <div className="absolute grid size-full place-items-center text-gray-300">
+            <Trans>No data available</Trans>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function toPercentageFloat(apr: bigint) {
+  return bigintToNumber(apr * 100n, 30);
+}
+
+function yAxisTickFormatter(value: number) {
+  if (!isFinite(value)) return "";
+
+  return `${value.toFixed(0)}%`;
+}
+
+function ChartTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const point = payload[0].payload as ChartPoint;
+
+  return (
+    <div className="z-50 rounded-4 border border-gray-950 bg-slate-800 p-8 text-14">
+      <StatsTooltipRow label={t`Date`} value={formatDateTime(point.timestamp)} showDollar={false} />
+      <RateTooltipRow label={t`Funding Long`} rate={point.fundingAprLong} />
+      <RateTooltipRow label={t`Borrowing Long`} rate={point.borrowingAprLong} />
+      <RateTooltipRow label={t`Net Long`} rate={point.netAprLong} />
+      <RateTooltipRow label={t`Funding Short`} rate={point.fundingAprShort} />
+      <RateTooltipRow label={t`Borrowing Short`} rate={point.borrowingAprShort} />
+      <RateTooltipRow label={t`Net Short`} rate={point.netAprShort} />
+    </div>
+  );
+}
+
+function RateTooltipRow({ label, rate }: { label: string; rate: bigint }) {
+  return (
+    <StatsTooltipRow
+      label={label}
+      value={`${formatRatePercentage(rate, { displayDecimals: 2 })} / 1y`}
+      showDollar={false}
+      textClassName={getPositiveOrNegativeClass(rate)}
+    />
+  );
+}
@@ -23,6 +23,7 @@ import ExternalLink from "components/ExternalLink/ExternalLink";
 import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
 import Tooltip from "components/Tooltip/Tooltip";
 import { BridgingInfo } from "../BridgingInfo/BridgingInfo";
+import { MarketRatesHistoryChart } from "../MarketRatesHistoryChart/MarketRatesHistoryChart";
 
 import { AprInfo } from "components/AprInfo/AprInfo";
 import { MARKET_STATS_DECIMALS } from "config/ui";
@@ -469,6 +470,9 @@ export function MarketStatsWithComposition(p: Props) {
           <p>Composition</p>
           <CompositionBar marketInfo={marketInfo} marketsInfoData={marketsInfoData} />
           <CompositionTableGm marketInfo={marketInfo} />
+          {marketInfo && !isGlvMarket && (
+            <MarketRatesHistoryChart className="mt-20" marketAddress={marketInfo.marketTokenAddress} />
+          )}
         </div>
       </div>
     </div>
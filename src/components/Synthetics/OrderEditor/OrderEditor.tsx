@@ -12,6 +12,7 @@ import {
   isTriggerDecreaseOrderType,
 } from "domain/synthetics/orders";
 import { updateOrderTxn } from "domain/synthetics/orders/updateOrderTxn";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
 import {
   formatAcceptablePrice,
   formatLeverage,
@@ -69,6 +70,7 @@ import {
   selectOrderEditorFromToken,
   selectOrderEditorIncreaseAmounts,
   selectOrderEditorInitialAcceptablePriceImpactBps,
+  selectOrderEditorInitialTriggerPrice,
   selectOrderEditorIsRatioInverted,
   selectOrderEditorMarkRatio,
   selectOrderEditorMaxAllowedLeverage,
@@ -84,6 +86,7 @@ import {
 } from "context/SyntheticsStateContext/selectors/orderEditorSelectors";
 import { makeSelectMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { getIsMaxLeverageExceeded } from "domain/synthetics/trade/utils/validation";
 import { bigMath } from "lib/bigmath";
 import { numericBinarySearch } from "lib/binarySearch";
@@ -112,6 +115,7 @@ export function OrderEditor(p: Props) {
 
   const sizeDeltaUsd = useSelector(selectOrderEditorSizeDeltaUsd);
   const triggerPrice = useSelector(selectOrderEditorTriggerPrice);
+  const initialTriggerPrice = useSelector(selectOrderEditorInitialTriggerPrice);
   const fromToken = useSelector(selectOrderEditorFromToken);
   const toToken = useSelector(selectOrderEditorToToken);
   const markRatio = useSelector(selectOrderEditorMarkRatio);
@@ -143,6 +147,8 @@ export function OrderEditor(p: Props) {
   }, [executionFee, tokensData, p.order.executionFee]);
 
   const subaccount = useSubaccount(additionalExecutionFee?.feeTokenAmount ?? null);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const { submitPaperOrders } = usePaperTradingActions();
 
   const isLimitIncreaseOrder = p.order.orderType === OrderType.LimitIncrease;
 
@@ -430,16 +436,23 @@ export function OrderEditor(p: Props) {
 
     setIsSubmitting(true);
 
-    const txnPromise = updateOrderTxn(chainId, signer, subaccount, {
+    const orderUpdate = {
       orderKey: p.order.key,
       sizeDeltaUsd: sizeDeltaUsd ?? positionOrder.sizeDeltaUsd,
       triggerPrice: triggerPrice ?? positionOrder.triggerPrice,
       acceptablePrice: acceptablePrice ?? positionOrder.acceptablePrice,
       minOutputAmount: minOutputAmount ?? p.order.minOutputAmount,
-      executionFee: additionalExecutionFee?.feeTokenAmount,
-      indexToken: indexToken,
-      setPendingTxns: p.setPendingTxns,
-    });
+    };
+
+    const txnPromise = isPaperTrading
+      ? submitPaperOrders({ orderUpdates: [{ ...orderUpdate, indexTokenDecimals: indexToken?.decimals }] })
+      : updateOrderTxn(chainId, signer, subaccount, {
+          ...orderUpdate,
+          order: p.order,
+          executionFee: additionalExecutionFee?.feeTokenAmount,
+          indexToken: indexToken,
+          setPendingTxns: p.setPendingTxns,
+        });
 
     if (subaccount) {
       p.onClose();
@@ -482,7 +495,7 @@ export function OrderEditor(p: Props) {
 
         setSizeInputValue(formatAmountFree(positionOrder.sizeDeltaUsd ?? 0n, USD_DECIMALS));
         setTriggerPriceInputValue(
-          formatAmount(positionOrder.triggerPrice ?? 0n, USD_DECIMALS, indexPriceDecimals || 2)
+          formatAmount(initialTriggerPrice ?? positionOrder.triggerPrice ?? 0n, USD_DECIMALS, indexPriceDecimals || 2)
         );
       }
 
@@ -491,6 +504,7 @@ export function OrderEditor(p: Props) {
     [
       fromToken,
       indexPriceDecimals,
+      initialTriggerPrice,
       isInited,
       p.order,
       setSizeInputValue,
@@ -33,6 +33,7 @@ import { getSwapPathMarketFullNames, getSwapPathTokenSymbols } from "../TradeHis
 import Button from "components/Button/Button";
 import Checkbox from "components/Checkbox/Checkbox";
 import { MarketWithDirectionLabel } from "components/MarketWithDirectionLabel/MarketWithDirectionLabel";
+import { PaperTradingBadge } from "components/Synthetics/PaperTradingBadge/PaperTradingBadge";
 import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
 import TokenIcon from "components/TokenIcon/TokenIcon";
 import Tooltip from "components/Tooltip/Tooltip";
@@ -461,6 +462,7 @@ function OrderItemLarge({
       </ExchangeTd>
       <ExchangeTd>
         <OrderItemTypeLabel order={order} />
+        <PaperTradingBadge />
       </ExchangeTd>
       <ExchangeTd>
         <Title order={order} showDebugValues={showDebugValues} />
@@ -579,6 +581,7 @@ function OrderItemSmall({
             </div>
             <div>
               <OrderItemTypeLabel order={order} />
+              <PaperTradingBadge />
             </div>
           </div>
           <div className="App-card-row">
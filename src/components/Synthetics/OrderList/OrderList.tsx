@@ -10,7 +10,12 @@ import {
   useTokensData,
 } from "context/SyntheticsStateContext/hooks/globalsHooks";
 import { useCancellingOrdersKeysState } from "context/SyntheticsStateContext/hooks/orderEditorHooks";
-import { selectAccount, selectChainId } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import {
+  selectAccount,
+  selectChainId,
+  selectIsPaperTrading,
+  selectOrdersInfoData,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import {
   OrderType,
@@ -24,6 +29,9 @@ import {
 } from "domain/synthetics/orders";
 import { cancelOrdersTxn } from "domain/synthetics/orders/cancelOrdersTxn";
 import { useOrdersInfoRequest } from "domain/synthetics/orders/useOrdersInfo";
+import { usePaperTrading } from "domain/synthetics/paperTrading/usePaperTrading";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
+import { useTwapOrders } from "domain/synthetics/twap/useTwapOrders";
 import { EMPTY_ARRAY } from "lib/objects";
 import useWallet from "lib/wallets/useWallet";
 
@@ -31,6 +39,7 @@ import Checkbox from "components/Checkbox/Checkbox";
 import { OrderEditorContainer } from "components/OrderEditorContainer/OrderEditorContainer";
 import { selectTradeboxAvailableTokensOptions } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
 import { OrderItem } from "../OrderItem/OrderItem";
+import { TwapOrderItem } from "../TwapOrderItem/TwapOrderItem";
 import { MarketFilterLongShort, MarketFilterLongShortItemData } from "../TableMarketFilter/MarketFilterLongShort";
 import { ExchangeTable, ExchangeTd, ExchangeTh, ExchangeTheadTr } from "./ExchangeTable";
 import { OrderTypeFilter } from "./filters/OrderTypeFilter";
@@ -48,6 +57,7 @@ type Props = {
   orderTypesFilter: OrderType[];
   setOrderTypesFilter: Dispatch<SetStateAction<OrderType[]>>;
   onCancelSelectedOrders?: () => void;
+  onEditSelectedOrders?: () => void;
 };
 
 export function OrderList({
@@ -62,6 +72,7 @@ export function OrderList({
   setPendingTxns,
   hideActions,
   onCancelSelectedOrders,
+  onEditSelectedOrders,
 }: Props) {
   const positionsData = usePositionsInfoData();
   const isLoading = useIsOrdersLoading();
@@ -75,8 +86,12 @@ export function OrderList({
 
   const subaccount = useSubaccount(null);
   const account = useSelector(selectAccount);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const ordersInfoData = useSelector(selectOrdersInfoData);
+  const { submitPaperOrders } = usePaperTradingActions();
 
   const [cancellingOrdersKeys, setCancellingOrdersKeys] = useCancellingOrdersKeysState();
+  const { twapOrders } = useTwapOrders();
 
   const orders = useFilteredOrders({
     chainId,
@@ -139,11 +154,16 @@ export function OrderList({
     if (!signer) return;
     setCancellingOrdersKeys((prev) => [...prev, key]);
 
-    cancelOrdersTxn(chainId, signer, subaccount, {
-      orderKeys: [key],
-      setPendingTxns: setPendingTxns,
-      detailsMsg: cancelOrdersDetailsMessage,
-    }).finally(() => {
+    const txnPromise = isPaperTrading
+      ? submitPaperOrders({ cancelOrderKeys: [key] })
+      : cancelOrdersTxn(chainId, signer, subaccount, {
+          orderKeys: [key],
+          ordersInfoData,
+          setPendingTxns: setPendingTxns,
+          detailsMsg: cancelOrdersDetailsMessage,
+        });
+
+    txnPromise.finally(() => {
       setCancellingOrdersKeys((prev) => prev.filter((k) => k !== key));
       setSelectedOrderKeys?.(EMPTY_ARRAY);
     });
@@ -159,11 +179,11 @@ export function OrderList({
 
   return (
     <div ref={ref}>
-      {isContainerSmall && orders.length === 0 && (
+      {isContainerSmall && orders.length === 0 && twapOrders.length === 0 && (
         <div className="rounded-4 bg-slate-800 p-14">{isLoading ? t`Loading...` : t`No open orders`}</div>
       )}
 
-      {(isContainerSmall || isScreenSmall) && !isLoading && orders.length !== 0 && (
+      {(isContainerSmall || isScreenSmall) && !isLoading && (orders.length !== 0 || twapOrders.length !== 0) && (
         <div className="flex flex-col gap-8">
           <div className="flex flex-wrap items-center justify-between gap-8 bg-slate-950">
             {isContainerSmall ? (
@@ -187,13 +207,23 @@ export function OrderList({
               <div />
             )}
             {isScreenSmall && selectedOrdersKeys && selectedOrdersKeys.length > 0 && (
-              <Button variant="secondary" onClick={onCancelSelectedOrders}>
-                <Plural value={selectedOrdersKeys.length} one="Cancel order" other="Cancel # orders" />
-              </Button>
+              <div className="flex gap-8">
+                {onEditSelectedOrders && (
+                  <Button variant="secondary" onClick={onEditSelectedOrders}>
+                    <Plural value={selectedOrdersKeys.length} one="Edit order" other="Edit # orders" />
+                  </Button>
+                )}
+                <Button variant="secondary" onClick={onCancelSelectedOrders}>
+                  <Plural value={selectedOrdersKeys.length} one="Cancel order" other="Cancel # orders" />
+                </Button>
+              </div>
             )}
           </div>
           {isContainerSmall && (
             <div className="grid gap-8 sm:grid-cols-auto-fill-350">
+              {twapOrders.map((twapOrder) => (
+                <TwapOrderItem key={twapOrder.id} twapOrder={twapOrder} isLarge={false} hideActions={hideActions} />
+              ))}
               {orders.map((order) => (
                 <OrderItem
                   key={order.key}
@@ -249,11 +279,14 @@ export function OrderList({
             </ExchangeTheadTr>
           </thead>
           <tbody>
-            {orders.length === 0 && (
+            {orders.length === 0 && twapOrders.length === 0 && (
               <tr>
                 <ExchangeTd colSpan={5}>{isLoading ? t`Loading...` : t`No open orders`}</ExchangeTd>
               </tr>
             )}
+            {twapOrders.map((twapOrder) => (
+              <TwapOrderItem key={twapOrder.id} twapOrder={twapOrder} isLarge hideActions={hideActions} />
+            ))}
             {!isLoading &&
               orders.map((order) => (
                 <OrderItem
@@ -289,12 +322,16 @@ function useFilteredOrders({
   marketsDirectionsFilter: MarketFilterLongShortItemData[];
   orderTypesFilter: OrderType[];
 }) {
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const { paperAccount } = usePaperTrading();
+
   const ordersResponse = useOrdersInfoRequest(chainId, {
     account: account,
     marketsDirectionsFilter: marketsDirectionsFilter,
     orderTypesFilter: orderTypesFilter,
     marketsInfoData: useMarketsInfoData(),
     tokensData: useTokensData(),
+    paperOrdersData: isPaperTrading ? paperAccount.orders : undefined,
   });
 
   const availableTokensOptions = useSelector(selectTradeboxAvailableTokensOptions);
@@ -0,0 +1,207 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback, useMemo } from "react";
+
+import { useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import {
+  selectMinCollateralUsd,
+  selectUserReferralInfo,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import type { MarketInfo } from "domain/synthetics/markets";
+import { getEstimatedPositionSimulationDiff, getPositionSimulationDiff } from "domain/synthetics/orderSimulation";
+import { useOrderSimulation } from "domain/synthetics/orderSimulation/useOrderSimulation";
+import type { SimulationTrace } from "domain/synthetics/orders/simulateExecuteTxn";
+import { PositionInfo, formatLeverage, formatLiquidationPrice } from "domain/synthetics/positions";
+import { TokenData, getTokenData } from "domain/synthetics/tokens";
+import type { NextPositionValues, TradeFees } from "domain/synthetics/trade";
+import { useChainId } from "lib/chains";
+import { formatTokenAmount, formatUsd } from "lib/numbers";
+
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import ExternalLink from "components/ExternalLink/ExternalLink";
+import { ValueTransition } from "components/ValueTransition/ValueTransition";
+
+type Props = {
+  /**
+   * Any change of the order inputs should change the key to drop the outdated result
+   */
+  inputsKey: string;
+  runSimulation: (() => Promise<SimulationTrace>) | undefined;
+  position: PositionInfo | undefined;
+  marketInfo: MarketInfo | undefined;
+  collateralToken: TokenData | undefined;
+  isLong: boolean;
+  /**
+   * Used for the resulting position when the rpc doesn't support execution traces
+   */
+  nextPositionValues: NextPositionValues | undefined;
+  fees: TradeFees | undefined;
+  marketDecimals?: number;
+};
+
+export function OrderSimulationPreview({
+  inputsKey,
+  runSimulation,
+  position,
+  marketInfo,
+  collateralToken,
+  isLong,
+  nextPositionValues,
+  fees,
+  marketDecimals,
+}: Props) {
+  const { chainId } = useChainId();
+  const tokensData = useTokensData();
+  const minCollateralUsd = useSelector(selectMinCollateralUsd);
+  const userReferralInfo = useSelector(selectUserReferralInfo);
+  const { result, isSimulating, simulate } = useOrderSimulation(chainId, inputsKey);
+
+  const handleSimulate = useCallback(() => {
+    if (runSimulation) {
+      simulate(runSimulation);
+    }
+  }, [runSimulation, simulate]);
+
+  const diff = useMemo(() => {
+    if (result?.isSuccess && !result.events) {
+      return getEstimatedPositionSimulationDiff({ position, nextPositionValues, fees });
+    }
+
+    if (!result?.events || !marketInfo || !collateralToken || minCollateralUsd === undefined) {
+      return undefined;
+    }
+
+    return getPositionSimulationDiff({
+      events: result.events,
+      position,
+      marketInfo,
+      collateralToken,
+      isLong,
+      minCollateralUsd,
+      userReferralInfo,
+    });
+  }, [
+    collateralToken,
+    fees,
+    isLong,
+    marketInfo,
+    minCollateralUsd,
+    nextPositionValues,
+    position,
+    result,
+    userReferralInfo,
+  ]);
+
+  const simulateLabel = isSimulating ? t`Simulating...` : result ? t`Simulate again` : t`Simulate`;
+
+  return (
+    <>
+      <ExchangeInfoRow
+        label={t`Simulation`}
+        value={
+          <button
+            className="text-white underline disabled:cursor-not-allowed disabled:text-gray-400"
+            disabled={!runSimulation || isSimulating}
+            onClick={handleSimulate}
+          >
+            {simulateLabel}
+          </button>
+        }
+      />
+      {result && !result.isSuccess && (
+        <ExchangeInfoRow
+          label={t`Result`}
+          value={<span className="text-red-500">{result.errorMessage ?? t`Order would revert`}</span>}
+        />
+      )}
+      {result?.isSuccess && !diff && (
+        <ExchangeInfoRow
+          label={t`Result`}
+          value={<Trans>Order executes, position details are not available from this RPC</Trans>}
+        />
+      )}
+      {result?.isSuccess && !result.events && diff && (
+        <ExchangeInfoRow
+          label={t`Result`}
+          value={<Trans>Order executes, position details are estimated as this RPC doesn't support traces</Trans>}
+        />
+      )}
+      {result?.isSuccess && diff && (
+        <>
+          <ExchangeInfoRow
+            label={t`Size`}
+            value={
+              <ValueTransition
+                from={diff.before ? formatUsd(diff.before.sizeInUsd) : undefined}
+                to={formatUsd(diff.after?.sizeInUsd ?? 0n)}
+              />
+            }
+          />
+          <ExchangeInfoRow
+            label={t`Collateral`}
+            value={
+              <ValueTransition
+                from={diff.before ? formatUsd(diff.before.collateralUsd) : undefined}
+                to={formatUsd(diff.after?.collateralUsd ?? 0n)}
+              />
+            }
+          />
+          <ExchangeInfoRow
+            label={t`Leverage`}
+            value={
+              <ValueTransition
+                from={formatLeverage(diff.before?.leverage)}
+                to={diff.after ? formatLeverage(diff.after.leverage) ?? "-" : "-"}
+              />
+            }
+          />
+          <ExchangeInfoRow
+            label={t`Liq. Price`}
+            value={
+              <ValueTransition
+                from={
+                  diff.before
+                    ? formatLiquidationPrice(diff.before.liquidationPrice, { displayDecimals: marketDecimals })
+                    : undefined
+                }
+                to={
+                  diff.after
+                    ? formatLiquidationPrice(diff.after.liquidationPrice, { displayDecimals: marketDecimals })
+                    : "-"
+                }
+              />
+            }
+          />
+          <ExchangeInfoRow label={t`Fees Paid`} value={formatUsd(diff.feesUsd)} />
+          {diff.swaps.map((swap, index) => {
+            const tokenIn = getTokenData(tokensData, swap.tokenInAddress);
+            const tokenOut = getTokenData(tokensData, swap.tokenOutAddress);
+
+            return (
+              <ExchangeInfoRow
+                key={`${swap.marketAddress}-${index}`}
+                label={t`Swap`}
+                value={
+                  <ValueTransition
+                    from={formatTokenAmount(swap.amountIn, tokenIn?.decimals, tokenIn?.symbol)}
+                    to={formatTokenAmount(swap.amountOut, tokenOut?.decimals, tokenOut?.symbol)}
+                  />
+                }
+              />
+            );
+          })}
+        </>
+      )}
+      {result?.tenderlyUrl && (
+        <ExchangeInfoRow
+          label={t`Trace`}
+          value={
+            <ExternalLink href={result.tenderlyUrl}>
+              <Trans>View in Tenderly</Trans>
+            </ExternalLink>
+          }
+        />
+      )}
+    </>
+  );
+}
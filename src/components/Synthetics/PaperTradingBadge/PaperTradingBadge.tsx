@@ -0,0 +1,22 @@
+import { Trans } from "@lingui/macro";
+import cx from "classnames";
+
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+
+/**
+ * Marks virtual positions and orders, which are shown instead of the real ones while paper trading is enabled
+ */
+export function PaperTradingBadge({ className }: { className?: string }) {
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+
+  if (!isPaperTrading) {
+    return null;
+  }
+
+  return (
+    <span className={cx("ml-4 rounded-4 bg-yellow-500/20 px-4 py-1 text-12 text-yellow-300", className)}>
+      <Trans>Paper</Trans>
+    </span>
+  );
+}
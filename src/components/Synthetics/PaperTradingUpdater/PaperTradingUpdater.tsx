@@ -0,0 +1,22 @@
+import { useEffect } from "react";
+
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
+
+export function PaperTradingUpdater() {
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const { processPaperOrders } = usePaperTradingActions();
+
+  // the callback is recreated on every prices update
+  useEffect(
+    function executePaperOrders() {
+      if (!isPaperTrading) return;
+
+      processPaperOrders();
+    },
+    [isPaperTrading, processPaperOrders]
+  );
+
+  return null;
+}
@@ -0,0 +1,230 @@
+import { t, Trans } from "@lingui/macro";
+import { ChangeEvent, useCallback, useEffect, useMemo, useState } from "react";
+
+import { usePositionsInfoData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { makeSelectMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { USD_DECIMALS } from "config/factors";
+import {
+  DEFAULT_LIQUIDATION_DISTANCE_ALERT_BPS,
+  NewPriceAlert,
+  PriceAlert,
+  getLiquidationDistanceBps,
+  getPriceAlertDirection,
+} from "domain/synthetics/priceAlerts";
+import { usePriceAlerts } from "domain/synthetics/priceAlerts/usePriceAlerts";
+import { getMidPrice } from "domain/synthetics/tokens";
+import { requestNotificationPermission } from "lib/browserNotifications";
+import { helperToast } from "lib/helperToast";
+import { formatAmount, formatPercentage, formatUsd, formatUsdPrice, parseValue } from "lib/numbers";
+import { getByKey } from "lib/objects";
+
+import BuyInputSection from "components/BuyInputSection/BuyInputSection";
+import Button from "components/Button/Button";
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import Modal from "components/Modal/Modal";
+import PercentageInput from "components/PercentageInput/PercentageInput";
+
+type Props = {
+  positionKey: string | undefined;
+  onClose: () => void;
+};
+
+const LIQUIDATION_DISTANCE_SUGGESTIONS = [2, 5, 10, 20];
+
+export function PositionAlertsModal({ positionKey, onClose }: Props) {
+  const positionsInfoData = usePositionsInfoData();
+  const { priceAlerts, addPriceAlert, removePriceAlerts } = usePriceAlerts();
+
+  const position = getByKey(positionsInfoData, positionKey);
+  const marketDecimals = useSelector(makeSelectMarketPriceDecimals(position?.marketInfo.indexTokenAddress));
+
+  const [priceInputValue, setPriceInputValue] = useState("");
+  const [thresholdBps, setThresholdBps] = useState(DEFAULT_LIQUIDATION_DISTANCE_ALERT_BPS);
+
+  useEffect(() => {
+    if (!positionKey) {
+      setPriceInputValue("");
+      setThresholdBps(DEFAULT_LIQUIDATION_DISTANCE_ALERT_BPS);
+    }
+  }, [positionKey]);
+
+  const positionAlerts = useMemo(
+    () =>
+      priceAlerts.filter((alert) => {
+        if (!position) return false;
+
+        switch (alert.type) {
+          case "price":
+            return alert.tokenAddress === position.indexToken.address;
+          case "liquidationDistance":
+            return alert.positionKey === position.key;
+          case "fundingFlip":
+            return alert.marketAddress === position.marketAddress;
+        }
+      }),
+    [position, priceAlerts]
+  );
+
+  const liquidationDistanceBps = position ? getLiquidationDistanceBps(position) : undefined;
+  const alertPrice = parseValue(priceInputValue, USD_DECIMALS);
+
+  const addAlert = useCallback(
+    (alert: NewPriceAlert) => {
+      requestNotificationPermission();
+      addPriceAlert(alert);
+      helperToast.success(t`Price alert created`);
+    },
+    [addPriceAlert]
+  );
+
+  const handlePriceInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setPriceInputValue(e.target.value);
+  }, []);
+
+  const handleMarkPriceClick = useCallback(() => {
+    if (!position) return;
+    setPriceInputValue(formatAmount(position.markPrice, USD_DECIMALS, marketDecimals));
+  }, [marketDecimals, position]);
+
+  const handleAddPriceAlert = useCallback(() => {
+    if (!position || alertPrice === undefined || alertPrice <= 0) return;
+
+    addAlert({
+      type: "price",
+      tokenAddress: position.indexToken.address,
+      direction: getPriceAlertDirection(getMidPrice(position.indexToken.prices), alertPrice),
+      price: alertPrice,
+    });
+    setPriceInputValue("");
+  }, [addAlert, alertPrice, position]);
+
+  const handleAddLiquidationDistanceAlert = useCallback(() => {
+    if (!position) return;
+
+    addAlert({ type: "liquidationDistance", positionKey: position.key, thresholdBps });
+  }, [addAlert, position, thresholdBps]);
+
+  const handleAddFundingFlipAlert = useCallback(() => {
+    if (!position) return;
+
+    addAlert({
+      type: "fundingFlip",
+      marketAddress: position.marketAddress,
+      longsPayShorts: position.marketInfo.longsPayShorts,
+    });
+  }, [addAlert, position]);
+
+  const setIsVisible = useCallback(
+    (isVisible: boolean) => {
+      if (!isVisible) onClose();
+    },
+    [onClose]
+  );
+
+  const isLiquidationDistanceReached = liquidationDistanceBps !== undefined && liquidationDistanceBps <= thresholdBps;
+
+  return (
+    <Modal isVisible={Boolean(position)} setIsVisible={setIsVisible} label={t`Price Alerts`}>
+      {position && (
+        <>
+          <BuyInputSection
+            topLeftLabel={t`Alert Price`}
+            topRightLabel={t`Mark`}
+            topRightValue={formatUsd(position.markPrice, { displayDecimals: marketDecimals })}
+            onClickTopRightLabel={handleMarkPriceClick}
+            inputValue={priceInputValue}
+            onInputValueChange={handlePriceInputChange}
+          >
+            USD
+          </BuyInputSection>
+          <Button
+            className="mt-10 w-full"
+            variant="secondary"
+            disabled={alertPrice === undefined || alertPrice <= 0}
+            onClick={handleAddPriceAlert}
+          >
+            <Trans>Alert on {position.indexToken.symbol} Price</Trans>
+          </Button>
+
+          <ExchangeInfo className="mt-15">
+            <ExchangeInfo.Group>
+              <ExchangeInfoRow label={t`Liq. Distance`}>
+                {liquidationDistanceBps === undefined ? "-" : formatPercentage(BigInt(liquidationDistanceBps))}
+              </ExchangeInfoRow>
+              <ExchangeInfoRow label={t`Alert Below`}>
+                <PercentageInput
+                  onChange={setThresholdBps}
+                  defaultValue={DEFAULT_LIQUIDATION_DISTANCE_ALERT_BPS}
+                  value={thresholdBps}
+                  suggestions={LIQUIDATION_DISTANCE_SUGGESTIONS}
+                />
+              </ExchangeInfoRow>
+            </ExchangeInfo.Group>
+          </ExchangeInfo>
+          <Button
+            className="mt-10 w-full"
+            variant="secondary"
+            disabled={liquidationDistanceBps === undefined || isLiquidationDistanceReached}
+            onClick={handleAddLiquidationDistanceAlert}
+          >
+            {isLiquidationDistanceReached ? t`Position is already within the distance` : t`Alert on Liq. Distance`}
+          </Button>
+
+          <ExchangeInfo className="mt-15">
+            <ExchangeInfo.Group>
+              <ExchangeInfoRow label={t`Funding`}>
+                {position.marketInfo.longsPayShorts ? t`Longs pay shorts` : t`Shorts pay longs`}
+              </ExchangeInfoRow>
+            </ExchangeInfo.Group>
+          </ExchangeInfo>
+          <Button className="mt-10 w-full" variant="secondary" onClick={handleAddFundingFlipAlert}>
+            <Trans>Alert on Funding Flip</Trans>
+          </Button>
+
+          {positionAlerts.length > 0 && (
+            <ExchangeInfo className="mt-15">
+              <ExchangeInfo.Group>
+                {positionAlerts.map((alert) => (
+                  <PriceAlertRow key={alert.id} alert={alert} onRemove={removePriceAlerts} />
+                ))}
+              </ExchangeInfo.Group>
+            </ExchangeInfo>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
+
+function PriceAlertRow({ alert, onRemove }: { alert: PriceAlert; onRemove: (ids: string[]) => void }) {
+  const handleRemove = useCallback(() => onRemove([alert.id]), [alert.id, onRemove]);
+
+  return (
+    <ExchangeInfoRow label={getPriceAlertLabel(alert)}>
+      <button className="text-gray-300 hover:text-white" onClick={handleRemove}>
+        <Trans>Remove</Trans>
+      </button>
+    </ExchangeInfoRow>
+  );
+}
+
+function getPriceAlertLabel(alert: PriceAlert) {
+  switch (alert.type) {
+    case "price": {
+      const price = formatUsdPrice(alert.price);
+
+      return alert.direction === "above" ? t`Price above ${price}` : t`Price below ${price}`;
+    }
+
+    case "liquidationDistance": {
+      const threshold = formatPercentage(BigInt(alert.thresholdBps));
+
+      return t`Liq. distance below ${threshold}`;
+    }
+
+    case "fundingFlip":
+      return alert.longsPayShorts ? t`Funding flips to shorts paying` : t`Funding flips to longs paying`;
+  }
+}
@@ -25,11 +25,17 @@ import {
 } from "context/SyntheticsStateContext/hooks/globalsHooks";
 import { useHasOutdatedUi } from "domain/legacy";
 import {
+  DecreaseOrderParams,
   DecreasePositionSwapType,
+  IncreaseOrderParams,
   OrderType,
   createDecreaseOrderTxn,
   createIncreaseOrderTxn,
+  simulateDecreaseOrderTxn,
+  simulateIncreaseOrderTxn,
 } from "domain/synthetics/orders";
+import { getPaperDecreaseOrder, getPaperIncreaseOrders } from "domain/synthetics/paperTrading";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
 import {
   formatLiquidationPrice,
   substractMaxLeverageSlippage,
@@ -61,6 +67,7 @@ import useWallet from "lib/wallets/useWallet";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import useSWR from "swr";
 import { NetworkFeeRow } from "../NetworkFeeRow/NetworkFeeRow";
+import { OrderSimulationPreview } from "../OrderSimulationPreview/OrderSimulationPreview";
 import { TradeFeesRow } from "../TradeFeesRow/TradeFeesRow";
 
 import { useSettings } from "context/SettingsContext/SettingsContextProvider";
@@ -78,6 +85,7 @@ import { usePositionEditorFees } from "./hooks/usePositionEditorFees";
 
 import { makeSelectMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { helperToast } from "lib/helperToast";
 import {
   makeTxnErrorMetricsHandler,
@@ -220,12 +228,17 @@ export function PositionEditor(p: Props) {
     executionFee?.feeUsd
   );
 
-  const { nextLeverage, nextLiqPrice, receiveUsd, receiveAmount } = usePositionEditorData({
+  const { nextCollateralUsd, nextLeverage, nextLiqPrice, receiveUsd, receiveAmount } = usePositionEditorData({
     selectedCollateralAddress,
     collateralInputValue,
     operation,
   });
 
+  const nextPositionValues = useMemo(
+    () => ({ nextCollateralUsd, nextLeverage, nextLiqPrice }),
+    [nextCollateralUsd, nextLeverage, nextLiqPrice]
+  );
+
   const minCollateralFactor = usePositionEditorMinCollateralFactor();
 
   const [error, tooltipName] = useMemo(() => {
@@ -321,6 +334,93 @@ export function PositionEditor(p: Props) {
   }, [detectAndSetMaxSize, tooltipName]);
 
   const subaccount = useSubaccount(executionFee?.feeTokenAmount ?? null);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const { submitPaperOrders } = usePaperTradingActions();
+
+  function getOrderParams():
+    | { increaseOrderParams: IncreaseOrderParams; decreaseOrderParams?: undefined }
+    | { increaseOrderParams?: undefined; decreaseOrderParams: DecreaseOrderParams }
+    | undefined {
+    if (
+      !account ||
+      executionFee?.feeTokenAmount === undefined ||
+      !tokensData ||
+      markPrice === undefined ||
+      !position?.indexToken ||
+      collateralDeltaAmount === undefined ||
+      !selectedCollateralAddress
+    ) {
+      return undefined;
+    }
+
+    if (isDeposit) {
+      return {
+        increaseOrderParams: {
+          account,
+          marketAddress: position.marketAddress,
+          initialCollateralAddress: selectedCollateralAddress,
+          initialCollateralAmount: collateralDeltaAmount,
+          targetCollateralAddress: position.collateralTokenAddress,
+          collateralDeltaAmount,
+          swapPath: [],
+          sizeDeltaUsd: 0n,
+          sizeDeltaInTokens: 0n,
+          acceptablePrice: markPrice,
+          triggerPrice: undefined,
+          orderType: OrderType.MarketIncrease,
+          isLong: position.isLong,
+          executionFee: executionFee.feeTokenAmount,
+          allowedSlippage,
+          referralCode: userReferralInfo?.referralCodeForTxn,
+          indexToken: position.indexToken,
+          tokensData,
+          skipSimulation: shouldDisableValidationForTesting,
+          setPendingTxns,
+          setPendingOrder,
+          setPendingPosition,
+        },
+      };
+    }
+
+    if (receiveUsd === undefined) {
+      return undefined;
+    }
+
+    return {
+      decreaseOrderParams: {
+        account,
+        marketAddress: position.marketAddress,
+        initialCollateralAddress: position.collateralTokenAddress,
+        initialCollateralDeltaAmount: collateralDeltaAmount,
+        receiveTokenAddress: selectedCollateralAddress,
+        swapPath: [],
+        sizeDeltaUsd: 0n,
+        sizeDeltaInTokens: 0n,
+        acceptablePrice: markPrice,
+        triggerPrice: undefined,
+        decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
+        orderType: OrderType.MarketDecrease,
+        isLong: position.isLong,
+        minOutputUsd: receiveUsd,
+        executionFee: executionFee.feeTokenAmount,
+        allowedSlippage,
+        referralCode: userReferralInfo?.referralCodeForTxn,
+        indexToken: position.indexToken,
+        tokensData,
+        skipSimulation: shouldDisableValidationForTesting,
+      },
+    };
+  }
+
+  const orderParams = getOrderParams();
+
+  const runSimulation =
+    orderParams && signer && !error
+      ? () =>
+          orderParams.increaseOrderParams
+            ? simulateIncreaseOrderTxn(chainId, signer, orderParams.increaseOrderParams)
+            : simulateDecreaseOrderTxn(chainId, signer, orderParams.decreaseOrderParams)
+      : undefined;
 
   function onSubmit() {
     if (!account) {
@@ -357,84 +457,42 @@ export function PositionEditor(p: Props) {
       return;
     }
 
-    let txnPromise: Promise<void>;
+    if (!orderParams) {
+      return;
+    }
 
-    if (isDeposit) {
-      setIsSubmitting(true);
-
-      txnPromise = createIncreaseOrderTxn({
-        chainId,
-        signer,
-        subaccount,
-        metricId: metricData.metricId,
-        createIncreaseOrderParams: {
-          account,
-          marketAddress: position.marketAddress,
-          initialCollateralAddress: selectedCollateralAddress,
-          initialCollateralAmount: collateralDeltaAmount,
-          targetCollateralAddress: position.collateralTokenAddress,
-          collateralDeltaAmount,
-          swapPath: [],
-          sizeDeltaUsd: 0n,
-          sizeDeltaInTokens: 0n,
-          acceptablePrice: markPrice,
-          triggerPrice: undefined,
-          orderType: OrderType.MarketIncrease,
-          isLong: position.isLong,
-          executionFee: executionFee.feeTokenAmount,
-          allowedSlippage,
-          referralCode: userReferralInfo?.referralCodeForTxn,
-          indexToken: position.indexToken,
-          tokensData,
-          skipSimulation: shouldDisableValidationForTesting,
-          setPendingTxns,
-          setPendingOrder,
-          setPendingPosition,
-        },
-      });
-    } else {
-      if (receiveUsd === undefined) {
-        return;
-      }
+    setIsSubmitting(true);
 
-      setIsSubmitting(true);
+    let txnPromise: Promise<void>;
 
-      txnPromise = createDecreaseOrderTxn(
-        chainId,
-        signer,
-        subaccount,
-        {
-          account,
-          marketAddress: position.marketAddress,
-          initialCollateralAddress: position.collateralTokenAddress,
-          initialCollateralDeltaAmount: collateralDeltaAmount,
-          receiveTokenAddress: selectedCollateralAddress,
-          swapPath: [],
-          sizeDeltaUsd: 0n,
-          sizeDeltaInTokens: 0n,
-          acceptablePrice: markPrice,
-          triggerPrice: undefined,
-          decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
-          orderType: OrderType.MarketDecrease,
-          isLong: position.isLong,
-          minOutputUsd: receiveUsd,
-          executionFee: executionFee.feeTokenAmount,
-          allowedSlippage,
-          referralCode: userReferralInfo?.referralCodeForTxn,
-          indexToken: position.indexToken,
-          tokensData,
-          skipSimulation: shouldDisableValidationForTesting,
-        },
-        {
-          setPendingTxns,
-          setPendingOrder,
-          setPendingPosition,
-        },
-        metricData.metricId
-      );
+    if (orderParams.increaseOrderParams) {
+      txnPromise = isPaperTrading
+        ? submitPaperOrders({ newOrders: getPaperIncreaseOrders(orderParams.increaseOrderParams) })
+        : createIncreaseOrderTxn({
+            chainId,
+            signer,
+            subaccount,
+            metricId: metricData.metricId,
+            createIncreaseOrderParams: orderParams.increaseOrderParams,
+          });
+    } else {
+      txnPromise = isPaperTrading
+        ? submitPaperOrders({ newOrders: [getPaperDecreaseOrder(orderParams.decreaseOrderParams)] })
+        : createDecreaseOrderTxn(
+            chainId,
+            signer,
+            subaccount,
+            orderParams.decreaseOrderParams,
+            {
+              setPendingTxns,
+              setPendingOrder,
+              setPendingPosition,
+            },
+            metricData.metricId
+          );
     }
 
-    if (subaccount) {
+    if (subaccount || isPaperTrading) {
       onClose();
       setIsSubmitting(false);
       return;
@@ -652,6 +710,22 @@ export function PositionEditor(p: Props) {
                 <NetworkFeeRow executionFee={executionFee} />
               </ExchangeInfo.Group>
 
+              {!isPaperTrading && (
+                <ExchangeInfo.Group>
+                  <OrderSimulationPreview
+                    inputsKey={`${operation}-${selectedCollateralAddress}-${collateralInputValue}`}
+                    runSimulation={runSimulation}
+                    position={position}
+                    marketInfo={position.marketInfo}
+                    collateralToken={position.collateralToken}
+                    isLong={position.isLong}
+                    nextPositionValues={nextPositionValues}
+                    fees={fees}
+                    marketDecimals={marketDecimals}
+                  />
+                </ExchangeInfo.Group>
+              )}
+
               <ExchangeInfo.Group>
                 {!isDeposit && (
                   <ExchangeInfoRow
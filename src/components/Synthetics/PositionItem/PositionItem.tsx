@@ -38,6 +38,7 @@ import Button from "components/Button/Button";
 import PositionDropdown from "components/Exchange/PositionDropdown";
 import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
 import TokenIcon from "components/TokenIcon/TokenIcon";
+import { PaperTradingBadge } from "components/Synthetics/PaperTradingBadge/PaperTradingBadge";
 import Tooltip from "components/Tooltip/Tooltip";
 
 import { makeSelectMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
@@ -51,6 +52,10 @@ export type Props = {
   onEditCollateralClick?: () => void;
   onShareClick: () => void;
   onSelectPositionClick?: (tradeMode?: TradeMode) => void;
+  onApplyTpSlTemplateClick?: () => void;
+  onCreateAlertClick?: () => void;
+  onMigrateClick?: () => void;
+  onConditionalOrdersClick?: () => void;
   isLarge: boolean;
   openSettings: () => void;
   onOrdersClick?: (key?: string) => void;
@@ -429,6 +434,7 @@ export function PositionItem(p: Props) {
             <span className={cx({ positive: p.position.isLong, negative: !p.position.isLong })}>
               {p.position.isLong ? t`Long` : t`Short`}
             </span>
+            <PaperTradingBadge />
           </div>
         </td>
         <td>
@@ -501,6 +507,10 @@ export function PositionItem(p: Props) {
               handleShare={p.onShareClick}
               handleLimitIncreaseSize={() => p.onSelectPositionClick?.(TradeMode.Limit)}
               handleTriggerClose={() => p.onSelectPositionClick?.(TradeMode.Trigger)}
+              handleApplyTpSlTemplate={p.onApplyTpSlTemplateClick}
+              handleCreateAlert={p.onCreateAlertClick}
+              handleMigrate={p.onMigrateClick}
+              handleConditionalOrders={p.onConditionalOrdersClick}
             />
           )}
         </td>
@@ -538,6 +548,7 @@ export function PositionItem(p: Props) {
                 >
                   {p.position.isLong ? t`Long` : t`Short`}
                 </span>
+                <PaperTradingBadge />
               </div>
               {p.position.pendingUpdate && <ImSpinner2 className="spin position-loading-icon" />}
             </div>
@@ -666,6 +677,10 @@ export function PositionItem(p: Props) {
                       handleMarketIncreaseSize={() => p.onSelectPositionClick?.(TradeMode.Market)}
                       handleShare={p.onShareClick}
                       handleLimitIncreaseSize={() => p.onSelectPositionClick?.(TradeMode.Limit)}
+                      handleApplyTpSlTemplate={p.onApplyTpSlTemplateClick}
+                      handleCreateAlert={p.onCreateAlertClick}
+                      handleMigrate={p.onMigrateClick}
+                      handleConditionalOrders={p.onConditionalOrdersClick}
                     />
                   )}
                 </div>
@@ -20,12 +20,27 @@ type Props = {
   onClosePositionClick: (key: string) => void;
   onOrdersClick: (positionKey: string, orderKey: string | undefined) => void;
   onCancelOrder: (key: string) => void;
+  onApplyTpSlTemplateClick?: (positionKey: string) => void;
+  onCreateAlertClick?: (positionKey: string) => void;
+  onMigrateClick?: (positionKey: string) => void;
+  onConditionalOrdersClick?: (positionKey: string) => void;
   openSettings: () => void;
   hideActions?: boolean;
 };
 
 export function PositionList(p: Props) {
-  const { onClosePositionClick, onOrdersClick, onSelectPositionClick, openSettings, onCancelOrder, hideActions } = p;
+  const {
+    onClosePositionClick,
+    onOrdersClick,
+    onSelectPositionClick,
+    onApplyTpSlTemplateClick,
+    onCreateAlertClick,
+    onMigrateClick,
+    onConditionalOrdersClick,
+    openSettings,
+    onCancelOrder,
+    hideActions,
+  } = p;
   const positionsInfoData = usePositionsInfoData();
   const chainId = useSelector(selectChainId);
   const account = useSelector(selectAccount);
@@ -57,6 +72,10 @@ export function PositionList(p: Props) {
               onClosePositionClick={onClosePositionClick}
               onOrdersClick={onOrdersClick}
               onSelectPositionClick={onSelectPositionClick}
+              onApplyTpSlTemplateClick={onApplyTpSlTemplateClick}
+              onCreateAlertClick={onCreateAlertClick}
+              onMigrateClick={onMigrateClick}
+              onConditionalOrdersClick={onConditionalOrdersClick}
               isLarge={false}
               onShareClick={handleSharePositionClick}
               openSettings={openSettings}
@@ -109,6 +128,10 @@ export function PositionList(p: Props) {
                 onClosePositionClick={onClosePositionClick}
                 onOrdersClick={onOrdersClick}
                 onSelectPositionClick={onSelectPositionClick}
+                onApplyTpSlTemplateClick={onApplyTpSlTemplateClick}
+                onCreateAlertClick={onCreateAlertClick}
+                onMigrateClick={onMigrateClick}
+                onConditionalOrdersClick={onConditionalOrdersClick}
                 isLarge
                 onShareClick={handleSharePositionClick}
                 openSettings={openSettings}
@@ -147,6 +170,10 @@ const PositionItemWrapper = memo(
     onEditCollateralClick,
     onOrdersClick,
     onSelectPositionClick,
+    onApplyTpSlTemplateClick,
+    onCreateAlertClick,
+    onMigrateClick,
+    onConditionalOrdersClick,
     onShareClick,
     openSettings,
     onCancelOrder,
@@ -156,6 +183,10 @@ const PositionItemWrapper = memo(
     onClosePositionClick: (positionKey: string) => void;
     onOrdersClick: (positionKey: string, orderKey: string | undefined) => void;
     onSelectPositionClick: (positionKey: string, tradeMode: TradeMode | undefined) => void;
+    onApplyTpSlTemplateClick: ((positionKey: string) => void) | undefined;
+    onCreateAlertClick: ((positionKey: string) => void) | undefined;
+    onMigrateClick: ((positionKey: string) => void) | undefined;
+    onConditionalOrdersClick: ((positionKey: string) => void) | undefined;
     isLarge: boolean;
     onShareClick: (positionKey: string) => void;
     openSettings: () => void;
@@ -176,6 +207,19 @@ const PositionItemWrapper = memo(
       (tradeMode?: TradeMode) => onSelectPositionClick(position.key, tradeMode),
       [onSelectPositionClick, position.key]
     );
+    const handleApplyTpSlTemplateClick = useCallback(
+      () => onApplyTpSlTemplateClick?.(position.key),
+      [onApplyTpSlTemplateClick, position.key]
+    );
+    const handleCreateAlertClick = useCallback(
+      () => onCreateAlertClick?.(position.key),
+      [onCreateAlertClick, position.key]
+    );
+    const handleMigrateClick = useCallback(() => onMigrateClick?.(position.key), [onMigrateClick, position.key]);
+    const handleConditionalOrdersClick = useCallback(
+      () => onConditionalOrdersClick?.(position.key),
+      [onConditionalOrdersClick, position.key]
+    );
     const handleShareClick = useCallback(() => onShareClick(position.key), [onShareClick, position.key]);
     const handleCancelOrder = useCallback((orderKey: string) => onCancelOrder(orderKey), [onCancelOrder]);
     const handleOrdersClick = useCallback(
@@ -192,6 +236,10 @@ const PositionItemWrapper = memo(
         onClosePositionClick={handleClosePositionClick}
         onOrdersClick={handleOrdersClick}
         onSelectPositionClick={handleSelectPositionClick}
+        onApplyTpSlTemplateClick={onApplyTpSlTemplateClick ? handleApplyTpSlTemplateClick : undefined}
+        onCreateAlertClick={onCreateAlertClick ? handleCreateAlertClick : undefined}
+        onMigrateClick={onMigrateClick ? handleMigrateClick : undefined}
+        onConditionalOrdersClick={onConditionalOrdersClick ? handleConditionalOrdersClick : undefined}
         showPnlAfterFees={showPnlAfterFees}
         isLarge={isLarge}
         openSettings={openSettings}
@@ -0,0 +1,316 @@
+import { t, Trans } from "@lingui/macro";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { getContract } from "config/contracts";
+import { useSubaccount } from "context/SubaccountContext/SubaccountContext";
+import { useSyntheticsEvents } from "context/SyntheticsEvents";
+import {
+  useMarketsInfoData,
+  usePositionsConstants,
+  usePositionsInfoData,
+  useTokensData,
+  useUiFeeFactor,
+  useUserReferralInfo,
+} from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { selectSavedAcceptablePriceImpactBuffer } from "context/SyntheticsStateContext/selectors/settingsSelectors";
+import { makeSelectFindSwapPath } from "context/SyntheticsStateContext/selectors/tradeSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import {
+  estimateExecuteDecreaseOrderGasLimit,
+  estimateExecuteIncreaseOrderGasLimit,
+  getExecutionFee,
+  useGasLimits,
+  useGasPrice,
+} from "domain/synthetics/fees";
+import { estimateOrderOraclePriceCount } from "domain/synthetics/fees/utils/estimateOraclePriceCount";
+import { getMarketIndexName, getMarketPoolName } from "domain/synthetics/markets";
+import { OrderType } from "domain/synthetics/orders";
+import { migratePositionTxn } from "domain/synthetics/orders/migratePositionTxn";
+import { getPositionMigrationAmounts, getPositionMigrationTargets } from "domain/synthetics/positionMigration";
+import { getNeedTokenApprove, useTokensAllowanceData } from "domain/synthetics/tokens";
+import { useChainId } from "lib/chains";
+import { formatDeltaUsd, formatTokenAmount, formatUsd } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import useWallet from "lib/wallets/useWallet";
+
+import { ApproveTokenButton } from "components/ApproveTokenButton/ApproveTokenButton";
+import Button from "components/Button/Button";
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import Modal from "components/Modal/Modal";
+
+type Props = {
+  positionKey: string | undefined;
+  allowedSlippage: number;
+  onClose: () => void;
+  setPendingTxns: (txns: any) => void;
+};
+
+export function PositionMigrationModal({ positionKey, allowedSlippage, onClose, setPendingTxns }: Props) {
+  const { chainId } = useChainId();
+  const { account, signer } = useWallet();
+  const positionsInfoData = usePositionsInfoData();
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+  const userReferralInfo = useUserReferralInfo();
+  const uiFeeFactor = useUiFeeFactor();
+  const acceptablePriceImpactBuffer = useSelector(selectSavedAcceptablePriceImpactBuffer);
+  const { minCollateralUsd, minPositionSizeUsd } = usePositionsConstants();
+  const gasLimits = useGasLimits(chainId);
+  const gasPrice = useGasPrice(chainId);
+  const { setPendingPositionMigration } = useSyntheticsEvents();
+
+  const position = getByKey(positionsInfoData, positionKey);
+
+  const [targetPositionKey, setTargetPositionKey] = useState<string>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!positionKey) {
+      setTargetPositionKey(undefined);
+      setIsSubmitting(false);
+    }
+  }, [positionKey]);
+
+  const targets = useMemo(
+    () => (position ? getPositionMigrationTargets(position, marketsInfoData) : []),
+    [marketsInfoData, position]
+  );
+  const target = targets.find((target) => target.positionKey === targetPositionKey) ?? targets[0];
+
+  const findSwapPath = useSelector(
+    makeSelectFindSwapPath(position?.collateralTokenAddress, target?.collateralToken.address)
+  );
+
+  const amounts = useMemo(() => {
+    if (!position || !target || minCollateralUsd === undefined || minPositionSizeUsd === undefined) {
+      return undefined;
+    }
+
+    return getPositionMigrationAmounts({
+      position,
+      target,
+      targetPosition: getByKey(positionsInfoData, target.positionKey),
+      userReferralInfo,
+      minCollateralUsd,
+      minPositionSizeUsd,
+      uiFeeFactor,
+      findSwapPath,
+      acceptablePriceImpactBuffer,
+    });
+  }, [
+    acceptablePriceImpactBuffer,
+    findSwapPath,
+    minCollateralUsd,
+    minPositionSizeUsd,
+    position,
+    positionsInfoData,
+    target,
+    uiFeeFactor,
+    userReferralInfo,
+  ]);
+
+  const executionFees = useMemo(() => {
+    if (!gasLimits || !tokensData || gasPrice === undefined || !amounts) return undefined;
+
+    const swapsCount = amounts.increaseAmounts.swapPathStats?.swapPath.length ?? 0;
+
+    const decrease = getExecutionFee(
+      chainId,
+      gasLimits,
+      tokensData,
+      estimateExecuteDecreaseOrderGasLimit(gasLimits, {
+        decreaseSwapType: amounts.decreaseAmounts.decreaseSwapType,
+        swapsCount: 0,
+      }),
+      gasPrice,
+      estimateOrderOraclePriceCount(0)
+    );
+    const increase = getExecutionFee(
+      chainId,
+      gasLimits,
+      tokensData,
+      estimateExecuteIncreaseOrderGasLimit(gasLimits, { swapsCount }),
+      gasPrice,
+      estimateOrderOraclePriceCount(swapsCount)
+    );
+
+    return decrease && increase ? { decrease, increase } : undefined;
+  }, [amounts, chainId, gasLimits, gasPrice, tokensData]);
+
+  const totalExecutionFeeAmount = executionFees
+    ? executionFees.decrease.feeTokenAmount + executionFees.increase.feeTokenAmount
+    : null;
+
+  const subaccount = useSubaccount(totalExecutionFeeAmount, 2);
+
+  const { tokensAllowanceData } = useTokensAllowanceData(chainId, {
+    spenderAddress: getContract(chainId, "SyntheticsRouter"),
+    tokenAddresses: position ? [position.collateralTokenAddress] : [],
+    skip: !position,
+  });
+
+  const payAmount = amounts?.increaseAmounts.initialCollateralAmount;
+  const needCollateralApproval =
+    position && tokensAllowanceData && payAmount !== undefined
+      ? getNeedTokenApprove(tokensAllowanceData, position.collateralTokenAddress, payAmount)
+      : false;
+
+  const error = useMemo(() => {
+    if (!targets.length) return t`No markets to migrate to`;
+    if (!amounts || !executionFees) return t`Loading...`;
+    if (amounts.increaseAmounts.sizeDeltaUsd <= 0 || amounts.increaseAmounts.collateralDeltaUsd <= 0) {
+      return t`Position can't be migrated`;
+    }
+    if (target.collateralToken.address !== position?.collateralTokenAddress && !amounts.increaseAmounts.swapPathStats) {
+      return t`Couldn't find a swap route`;
+    }
+    if ((position?.collateralToken.balance ?? 0n) < amounts.increaseAmounts.initialCollateralAmount) {
+      return t`Insufficient ${position?.collateralToken.symbol} balance`;
+    }
+    if (needCollateralApproval) return t`Pending ${position?.collateralToken.symbol} approval`;
+    if (isSubmitting) return t`Migrating...`;
+    return undefined;
+  }, [amounts, executionFees, isSubmitting, needCollateralApproval, position, target, targets.length]);
+
+  const onSubmit = useCallback(() => {
+    if (!account || !signer || !position || !tokensData || !amounts || !executionFees || error) return;
+
+    const { decreaseAmounts, increaseAmounts } = amounts;
+
+    setIsSubmitting(true);
+
+    migratePositionTxn(chainId, signer, subaccount, {
+      decrease: {
+        account,
+        marketAddress: position.marketAddress,
+        initialCollateralAddress: position.collateralTokenAddress,
+        initialCollateralDeltaAmount: decreaseAmounts.collateralDeltaAmount,
+        receiveTokenAddress: position.collateralTokenAddress,
+        swapPath: [],
+        sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
+        sizeDeltaInTokens: decreaseAmounts.sizeDeltaInTokens,
+        acceptablePrice: decreaseAmounts.acceptablePrice,
+        triggerPrice: undefined,
+        minOutputUsd: 0n,
+        isLong: position.isLong,
+        decreasePositionSwapType: decreaseAmounts.decreaseSwapType,
+        orderType: OrderType.MarketDecrease,
+        executionFee: executionFees.decrease.feeTokenAmount,
+        allowedSlippage,
+        referralCode: userReferralInfo?.referralCodeForTxn,
+        indexToken: position.indexToken,
+        tokensData,
+      },
+      increase: {
+        account,
+        marketAddress: target.marketInfo.marketTokenAddress,
+        initialCollateralAddress: position.collateralTokenAddress,
+        targetCollateralAddress: target.collateralToken.address,
+        initialCollateralAmount: increaseAmounts.initialCollateralAmount,
+        collateralDeltaAmount: increaseAmounts.collateralDeltaAmount,
+        swapPath: increaseAmounts.swapPathStats?.swapPath ?? [],
+        sizeDeltaUsd: increaseAmounts.sizeDeltaUsd,
+        sizeDeltaInTokens: increaseAmounts.sizeDeltaInTokens,
+        acceptablePrice: increaseAmounts.acceptablePrice,
+        triggerPrice: undefined,
+        isLong: position.isLong,
+        orderType: OrderType.MarketIncrease,
+        executionFee: executionFees.increase.feeTokenAmount,
+        allowedSlippage,
+        referralCode: userReferralInfo?.referralCodeForTxn,
+        indexToken: target.marketInfo.indexToken,
+        tokensData,
+      },
+      setPendingTxns,
+      setPendingPositionMigration,
+    })
+      .then(onClose)
+      .finally(() => setIsSubmitting(false));
+  }, [
+    account,
+    allowedSlippage,
+    amounts,
+    chainId,
+    error,
+    executionFees,
+    onClose,
+    position,
+    setPendingPositionMigration,
+    setPendingTxns,
+    signer,
+    subaccount,
+    target,
+    tokensData,
+    userReferralInfo?.referralCodeForTxn,
+  ]);
+
+  const setIsVisible = useCallback(
+    (isVisible: boolean) => {
+      if (!isVisible) onClose();
+    },
+    [onClose]
+  );
+
+  return (
+    <Modal isVisible={Boolean(position)} setIsVisible={setIsVisible} label={t`Migrate Position`}>
+      <div className="mb-15 flex flex-wrap gap-8">
+        {targets.map((item) => (
+          <Button
+            key={item.positionKey}
+            variant={item.positionKey === target?.positionKey ? "primary" : "secondary"}
+            showExternalLinkArrow={false}
+            onClick={() => setTargetPositionKey(item.positionKey)}
+          >
+            {getMarketIndexName(item.marketInfo)} [{getMarketPoolName(item.marketInfo)}] {item.collateralToken.symbol}
+          </Button>
+        ))}
+      </div>
+      {position && amounts && (
+        <ExchangeInfo>
+          <ExchangeInfo.Group>
+            <ExchangeInfo.Row label={t`Close`}>
+              {formatUsd(amounts.decreaseAmounts.sizeDeltaUsd)} {position.collateralToken.symbol}
+            </ExchangeInfo.Row>
+            <ExchangeInfo.Row label={t`Open`}>
+              {formatUsd(amounts.increaseAmounts.sizeDeltaUsd)} {target.collateralToken.symbol}
+            </ExchangeInfo.Row>
+            <ExchangeInfo.Row label={t`Pay`}>
+              {formatTokenAmount(
+                amounts.increaseAmounts.initialCollateralAmount,
+                position.collateralToken.decimals,
+                position.collateralToken.symbol
+              )}
+            </ExchangeInfo.Row>
+          </ExchangeInfo.Group>
+          <ExchangeInfo.Group>
+            <ExchangeInfo.Row label={t`Fees`}>{formatUsd(amounts.feesUsd)}</ExchangeInfo.Row>
+            <ExchangeInfo.Row label={t`Price Impact`}>{formatDeltaUsd(amounts.priceImpactDeltaUsd)}</ExchangeInfo.Row>
+            <ExchangeInfo.Row label={t`Network Fee`}>
+              {formatUsd(executionFees ? executionFees.decrease.feeUsd + executionFees.increase.feeUsd : undefined)}
+            </ExchangeInfo.Row>
+          </ExchangeInfo.Group>
+          <ExchangeInfo.Group>
+            <div className="text-14 text-gray-300">
+              <Trans>
+                The new position is paid from your wallet, the collateral of the closed position is returned to your
+                wallet.
+              </Trans>
+            </div>
+          </ExchangeInfo.Group>
+        </ExchangeInfo>
+      )}
+      {position && needCollateralApproval && (
+        <div className="mt-15">
+          <ApproveTokenButton
+            spenderAddress={getContract(chainId, "SyntheticsRouter")}
+            tokenAddress={position.collateralTokenAddress}
+            tokenSymbol={position.collateralToken.symbol}
+          />
+        </div>
+      )}
+      <Button className="mt-15 w-full" variant="primary-action" disabled={Boolean(error)} onClick={onSubmit}>
+        {error ?? t`Migrate Position`}
+      </Button>
+    </Modal>
+  );
+}
@@ -24,11 +24,21 @@ import {
 } from "context/SyntheticsStateContext/hooks/globalsHooks";
 import { usePositionSeller } from "context/SyntheticsStateContext/hooks/positionSellerHooks";
 import { useHasOutdatedUi } from "domain/legacy";
-import { DecreasePositionSwapType, OrderType, createDecreaseOrderTxn } from "domain/synthetics/orders";
+import {
+  DecreaseOrderParams,
+  DecreasePositionSwapType,
+  OrderType,
+  createDecreaseOrderTxn,
+  simulateDecreaseOrderTxn,
+} from "domain/synthetics/orders";
+import { getPaperDecreaseOrder } from "domain/synthetics/paperTrading";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
 import { formatLiquidationPrice, getTriggerNameByOrderType } from "domain/synthetics/positions";
 import { applySlippageToPrice } from "domain/synthetics/trade";
 import { useDebugExecutionPrice } from "domain/synthetics/trade/useExecutionPrice";
 import { useHighExecutionFeeConsent } from "domain/synthetics/trade/useHighExecutionFeeConsent";
+import { useTrailingStops } from "domain/synthetics/trailingStops/useTrailingStops";
+import { DEFAULT_TRAILING_STOP_STEP_BPS } from "domain/synthetics/trailingStops/utils";
 import { OrderOption } from "domain/synthetics/trade/usePositionSellerState";
 import { usePriceImpactWarningState } from "domain/synthetics/trade/usePriceImpactWarningState";
 import { getCommonError, getDecreaseError } from "domain/synthetics/trade/utils/validation";
@@ -58,6 +68,7 @@ import {
   selectTradeboxTradeFlags,
 } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { Token } from "domain/tokens";
 import { bigMath } from "lib/bigmath";
 import { useLocalizedMap } from "lib/i18n";
@@ -74,7 +85,9 @@ import {
   sendTxnValidationErrorMetric,
 } from "lib/metrics/utils";
 import { NetworkFeeRow } from "../NetworkFeeRow/NetworkFeeRow";
+import { OrderSimulationPreview } from "../OrderSimulationPreview/OrderSimulationPreview";
 import { TradeFeesRow } from "../TradeFeesRow/TradeFeesRow";
+import { TrailingStopRow } from "../TrailingStopRow/TrailingStopRow";
 
 import "./PositionSeller.scss";
 
@@ -133,6 +146,8 @@ export function PositionSeller(p: Props) {
     triggerPriceInputValue: triggerPriceInputValueRaw,
     resetPositionSeller,
     setIsReceiveTokenChanged,
+    trailingStopBps,
+    setTrailingStopBps,
   } = usePositionSeller();
 
   const [closeUsdInputValue, setCloseUsdInputValue] = useDebouncedInputValue(
@@ -146,6 +161,9 @@ export function PositionSeller(p: Props) {
   const triggerPrice = parseValue(triggerPriceInputValue, USD_DECIMALS);
 
   const isTrigger = orderOption === OrderOption.Trigger;
+  const { addTrailingStop } = useTrailingStops();
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const { submitPaperOrders } = usePaperTradingActions();
 
   const closeSizeUsd = parseValue(closeUsdInputValue || "0", USD_DECIMALS)!;
   const maxCloseSize = position?.sizeInUsd || 0n;
@@ -276,6 +294,59 @@ export function PositionSeller(p: Props) {
 
   const subaccount = useSubaccount(executionFee?.feeTokenAmount ?? null);
 
+  function getDecreaseOrderParams(): DecreaseOrderParams | undefined {
+    const orderType = isTrigger ? decreaseAmounts?.triggerOrderType : OrderType.MarketDecrease;
+
+    if (
+      !account ||
+      !tokensData ||
+      !position ||
+      executionFee?.feeTokenAmount == undefined ||
+      !receiveToken?.address ||
+      receiveUsd === undefined ||
+      decreaseAmounts?.acceptablePrice === undefined ||
+      !orderType
+    ) {
+      return undefined;
+    }
+
+    // TODO findSwapPath considering decreasePositionSwapType?
+    const swapPath =
+      decreaseAmounts.decreaseSwapType === DecreasePositionSwapType.SwapCollateralTokenToPnlToken
+        ? []
+        : swapAmounts?.swapPathStats?.swapPath || [];
+
+    return {
+      account,
+      marketAddress: position.marketAddress,
+      initialCollateralAddress: position.collateralTokenAddress,
+      initialCollateralDeltaAmount: decreaseAmounts.collateralDeltaAmount ?? 0n,
+      receiveTokenAddress: receiveToken.address,
+      swapPath,
+      sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
+      sizeDeltaInTokens: decreaseAmounts.sizeDeltaInTokens,
+      isLong: position.isLong,
+      acceptablePrice: decreaseAmounts.acceptablePrice,
+      triggerPrice: isTrigger ? triggerPrice : undefined,
+      minOutputUsd: 0n,
+      decreasePositionSwapType: decreaseAmounts.decreaseSwapType,
+      orderType,
+      referralCode: userReferralInfo?.referralCodeForTxn,
+      executionFee: executionFee.feeTokenAmount,
+      allowedSlippage,
+      indexToken: position.indexToken,
+      tokensData,
+      skipSimulation: orderOption === OrderOption.Trigger || shouldDisableValidationForTesting,
+    };
+  }
+
+  const simulationOrderParams = getDecreaseOrderParams();
+
+  const runSimulation =
+    simulationOrderParams && signer && !error
+      ? () => simulateDecreaseOrderTxn(chainId, signer, simulationOrderParams)
+      : undefined;
+
   function onSubmit() {
     if (!account) {
       openConnectModal?.();
@@ -316,49 +387,42 @@ export function PositionSeller(p: Props) {
       return;
     }
 
-    setIsSubmitting(true);
+    const decreaseOrderParams = getDecreaseOrderParams();
 
-    // TODO findSwapPath considering decreasePositionSwapType?
-    const swapPath =
-      decreaseAmounts.decreaseSwapType === DecreasePositionSwapType.SwapCollateralTokenToPnlToken
-        ? []
-        : swapAmounts?.swapPathStats?.swapPath || [];
+    if (!decreaseOrderParams) {
+      return;
+    }
 
-    const txnPromise = createDecreaseOrderTxn(
-      chainId,
-      signer,
-      subaccount,
-      {
-        account,
-        marketAddress: position.marketAddress,
-        initialCollateralAddress: position.collateralTokenAddress,
-        initialCollateralDeltaAmount: decreaseAmounts.collateralDeltaAmount ?? 0n,
-        receiveTokenAddress: receiveToken.address,
-        swapPath,
-        sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
-        sizeDeltaInTokens: decreaseAmounts.sizeDeltaInTokens,
-        isLong: position.isLong,
-        acceptablePrice: decreaseAmounts.acceptablePrice,
-        triggerPrice: isTrigger ? triggerPrice : undefined,
-        minOutputUsd: 0n,
-        decreasePositionSwapType: decreaseAmounts.decreaseSwapType,
-        orderType,
-        referralCode: userReferralInfo?.referralCodeForTxn,
-        executionFee: executionFee.feeTokenAmount,
-        allowedSlippage,
-        indexToken: position.indexToken,
-        tokensData,
-        skipSimulation: orderOption === OrderOption.Trigger || shouldDisableValidationForTesting,
-      },
-      {
-        setPendingOrder,
-        setPendingTxns,
-        setPendingPosition,
-      },
-      metricData.metricId
-    )
-      .then(makeTxnSentMetricsHandler(metricData.metricId))
-      .catch(makeTxnErrorMetricsHandler(metricData.metricId));
+    setIsSubmitting(true);
+
+    const txnPromise = isPaperTrading
+      ? submitPaperOrders({ newOrders: [getPaperDecreaseOrder(decreaseOrderParams)] })
+      : createDecreaseOrderTxn(
+          chainId,
+          signer,
+          subaccount,
+          decreaseOrderParams,
+          {
+            setPendingOrder,
+            setPendingTxns,
+            setPendingPosition,
+          },
+          metricData.metricId
+        )
+          .then(() => {
+            if (trailingStopBps !== undefined && orderType === OrderType.StopLossDecrease) {
+              addTrailingStop({
+                positionKey: position.key,
+                isLong: position.isLong,
+                trailBps: trailingStopBps,
+                stepBps: DEFAULT_TRAILING_STOP_STEP_BPS,
+                bestPrice: position.markPrice,
+                triggerPrice: triggerPrice!,
+              });
+            }
+          })
+          .then(makeTxnSentMetricsHandler(metricData.metricId))
+          .catch(makeTxnErrorMetricsHandler(metricData.metricId));
 
     if (subaccount) {
       onClose();
@@ -595,6 +659,18 @@ export function PositionSeller(p: Props) {
             )}
 
             <ExchangeInfo className="PositionEditor-info-box">
+              {isTrigger && position && (
+                <ExchangeInfo.Group>
+                  <TrailingStopRow
+                    trailingStopBps={trailingStopBps}
+                    setTrailingStopBps={setTrailingStopBps}
+                    setTriggerPriceInputValue={setTriggerPriceInputValueRaw}
+                    markPrice={markPrice}
+                    isLong={position.isLong}
+                    priceDecimals={marketDecimals}
+                  />
+                </ExchangeInfo.Group>
+              )}
               <ExchangeInfo.Group>
                 {isTrigger && triggerPriceRow}
                 {limitPriceRow}
@@ -610,6 +686,22 @@ export function PositionSeller(p: Props) {
                 <NetworkFeeRow executionFee={executionFee} />
               </ExchangeInfo.Group>
 
+              {!isPaperTrading && (
+                <ExchangeInfo.Group>
+                  <OrderSimulationPreview
+                    inputsKey={`${orderOption}-${closeUsdInputValue}-${triggerPriceInputValue}-${receiveTokenAddress}`}
+                    runSimulation={runSimulation}
+                    position={position}
+                    marketInfo={position.marketInfo}
+                    collateralToken={position.collateralToken}
+                    isLong={position.isLong}
+                    nextPositionValues={nextPositionValues}
+                    fees={fees}
+                    marketDecimals={marketDecimals}
+                  />
+                </ExchangeInfo.Group>
+              )}
+
               <ExchangeInfo.Group>{receiveTokenRow}</ExchangeInfo.Group>
 
               {(priceImpactWarningState.shouldShowWarning || highExecutionFeeAcknowledgement) && (
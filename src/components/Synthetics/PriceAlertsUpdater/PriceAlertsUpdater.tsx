@@ -0,0 +1,98 @@
+import { t } from "@lingui/macro";
+import { useEffect, useRef } from "react";
+
+import {
+  selectIsPaperTrading,
+  selectIsPositionsLoading,
+  selectMarketsInfoData,
+  selectPositionsInfoData,
+  selectTokensData,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { MarketsInfoData } from "domain/synthetics/markets";
+import { PositionsInfoData } from "domain/synthetics/positions";
+import { PriceAlert, checkPriceAlerts } from "domain/synthetics/priceAlerts";
+import { usePriceAlerts } from "domain/synthetics/priceAlerts/usePriceAlerts";
+import { TokensData } from "domain/synthetics/tokens";
+import { showBrowserNotification } from "lib/browserNotifications";
+import { helperToast } from "lib/helperToast";
+import { formatPercentage, formatUsdPrice } from "lib/numbers";
+import { getByKey } from "lib/objects";
+
+export function PriceAlertsUpdater() {
+  const { priceAlerts, removePriceAlerts } = usePriceAlerts();
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const tokensData = useSelector(selectTokensData);
+  const marketsInfoData = useSelector(selectMarketsInfoData);
+  const positionsInfoData = useSelector(selectPositionsInfoData);
+  const isPositionsLoading = useSelector(selectIsPositionsLoading);
+  // prices can update again before the removal of fired alerts reaches local storage
+  const firedAlertIdsRef = useRef(new Set<string>());
+
+  useEffect(
+    function checkAlerts() {
+      if (!priceAlerts.length) return;
+
+      // virtual positions replace the real ones while paper trading
+      const realPositionsInfoData = isPaperTrading || isPositionsLoading ? undefined : positionsInfoData;
+
+      const pendingAlerts = priceAlerts.filter((alert) => !firedAlertIdsRef.current.has(alert.id));
+
+      const { triggered, stale } = checkPriceAlerts(pendingAlerts, {
+        tokensData,
+        marketsInfoData,
+        positionsInfoData: realPositionsInfoData,
+      });
+
+      if (!triggered.length && !stale.length) return;
+
+      triggered.forEach((alert) => {
+        firedAlertIdsRef.current.add(alert.id);
+
+        const message = getPriceAlertMessage(alert, { tokensData, marketsInfoData, positionsInfoData });
+
+        helperToast.info(message);
+        showBrowserNotification(t`GMX Alert`, message);
+      });
+
+      removePriceAlerts([...triggered, ...stale].map((alert) => alert.id));
+    },
+    [isPaperTrading, isPositionsLoading, marketsInfoData, positionsInfoData, priceAlerts, removePriceAlerts, tokensData]
+  );
+
+  return null;
+}
+
+function getPriceAlertMessage(
+  alert: PriceAlert,
+  p: {
+    tokensData: TokensData | undefined;
+    marketsInfoData: MarketsInfoData | undefined;
+    positionsInfoData: PositionsInfoData | undefined;
+  }
+) {
+  switch (alert.type) {
+    case "price": {
+      const symbol = getByKey(p.tokensData, alert.tokenAddress)?.symbol;
+      const price = formatUsdPrice(alert.price);
+
+      return alert.direction === "above" ? t`${symbol} price is above ${price}` : t`${symbol} price is below ${price}`;
+    }
+
+    case "liquidationDistance": {
+      const position = getByKey(p.positionsInfoData, alert.positionKey);
+      const positionName = position ? `${position.isLong ? t`Long` : t`Short`} ${position.indexToken.symbol}` : "";
+      const threshold = formatPercentage(BigInt(alert.thresholdBps));
+
+      return t`${positionName} position is within ${threshold} of its liquidation price`;
+    }
+
+    case "fundingFlip": {
+      const marketName = getByKey(p.marketsInfoData, alert.marketAddress)?.name;
+
+      return alert.longsPayShorts
+        ? t`Funding on ${marketName} flipped, shorts now pay longs`
+        : t`Funding on ${marketName} flipped, longs now pay shorts`;
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { t, Trans } from "@lingui/macro";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { useSubaccount } from "context/SubaccountContext/SubaccountContext";
+import { useSyntheticsEvents } from "context/SyntheticsEvents";
+import {
+  usePositionsConstants,
+  usePositionsInfoData,
+  useTokensData,
+  useUiFeeFactor,
+  useUserReferralInfo,
+} from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { makeSelectOrdersByPositionKey } from "context/SyntheticsStateContext/selectors/orderSelectors";
+import { makeSelectMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import {
+  estimateExecuteDecreaseOrderGasLimit,
+  getExecutionFee,
+  useGasLimits,
+  useGasPrice,
+} from "domain/synthetics/fees";
+import { estimateOrderOraclePriceCount } from "domain/synthetics/fees/utils/estimateOraclePriceCount";
+import {
+  createDecreaseOrderTxn,
+  isLimitDecreaseOrderType,
+  isStopLossOrderType,
+  OrderType,
+} from "domain/synthetics/orders";
+import { getSidecarEntriesFromTemplateLevels } from "domain/synthetics/sidecarOrders/templates";
+import { SidecarSlTpOrderEntry } from "domain/synthetics/sidecarOrders/types";
+import { useSidecarOrderTemplates } from "domain/synthetics/sidecarOrders/useSidecarOrderTemplates";
+import {
+  MAX_PERCENTAGE,
+  PERCENTAGE_DECEMALS,
+  getDefaultEntry,
+  getDefaultEntryField,
+  handleEntryError,
+} from "domain/synthetics/sidecarOrders/utils";
+import { getDecreasePositionAmounts } from "domain/synthetics/trade";
+import { USD_DECIMALS } from "config/factors";
+import { useChainId } from "lib/chains";
+import { bigMath } from "lib/bigmath";
+import { formatUsd } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import useWallet from "lib/wallets/useWallet";
+
+import Button from "components/Button/Button";
+import Checkbox from "components/Checkbox/Checkbox";
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import Modal from "components/Modal/Modal";
+
+type Props = {
+  positionKey: string | undefined;
+  allowedSlippage: number;
+  onClose: () => void;
+  setPendingTxns: (txns: any) => void;
+};
+
+export function SidecarOrderTemplateModal({ positionKey, allowedSlippage, onClose, setPendingTxns }: Props) {
+  const { chainId } = useChainId();
+  const { account, signer } = useWallet();
+  const positionsInfoData = usePositionsInfoData();
+  const tokensData = useTokensData();
+  const userReferralInfo = useUserReferralInfo();
+  const uiFeeFactor = useUiFeeFactor();
+  const { minCollateralUsd, minPositionSizeUsd } = usePositionsConstants();
+  const gasLimits = useGasLimits(chainId);
+  const gasPrice = useGasPrice(chainId);
+  const { setPendingOrder } = useSyntheticsEvents();
+  const { templates } = useSidecarOrderTemplates();
+
+  const position = getByKey(positionsInfoData, positionKey);
+  const positionOrders = useSelector(makeSelectOrdersByPositionKey(positionKey));
+  const marketDecimals = useSelector(makeSelectMarketPriceDecimals(position?.marketInfo.indexTokenAddress));
+
+  const [templateId, setTemplateId] = useState<string>();
+  const [shouldCancelExistingOrders, setShouldCancelExistingOrders] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const template = templates.find((t) => t.id === templateId) ?? templates[0];
+
+  useEffect(() => {
+    if (!positionKey) {
+      setTemplateId(undefined);
+      setIsSubmitting(false);
+    }
+  }, [positionKey]);
+
+  const existingTpSlOrderKeys = useMemo(
+    () =>
+      positionOrders
+        .filter((order) => isLimitDecreaseOrderType(order.orderType) || isStopLossOrderType(order.orderType))
+        .map((order) => order.key),
+    [positionOrders]
+  );
+
+  const entries = useMemo(() => {
+    if (!template || !position || minCollateralUsd === undefined || minPositionSizeUsd === undefined) {
+      return [];
+    }
+
+    const params = { basePrice: position.entryPrice ?? position.markPrice, isLong: position.isLong };
+
+    const getEntries = (type: "tp" | "sl") => {
+      const triggerOrderType = type === "tp" ? OrderType.LimitDecrease : OrderType.StopLossDecrease;
+
+      return getSidecarEntriesFromTemplateLevels(template[type], params).map((templateEntry) => {
+        const sizeUsd = bigMath.mulDiv(position.sizeInUsd, templateEntry.percentage, MAX_PERCENTAGE);
+        const entry = getDefaultEntry<SidecarSlTpOrderEntry>(type, {
+          txnType: "create",
+          price: getDefaultEntryField(USD_DECIMALS, { value: templateEntry.price }, marketDecimals),
+          sizeUsd: getDefaultEntryField(USD_DECIMALS, { value: sizeUsd }),
+          percentage: getDefaultEntryField(PERCENTAGE_DECEMALS, { value: templateEntry.percentage }),
+        });
+
+        const decreaseAmounts = getDecreasePositionAmounts({
+          marketInfo: position.marketInfo,
+          collateralToken: position.collateralToken,
+          isLong: position.isLong,
+          position,
+          closeSizeUsd: sizeUsd,
+          keepLeverage: true,
+          triggerPrice: templateEntry.price,
+          userReferralInfo,
+          minCollateralUsd,
+          minPositionSizeUsd,
+          uiFeeFactor,
+          triggerOrderType,
+        });
+
+        return handleEntryError({ ...entry, decreaseAmounts }, type, {
+          liqPrice: position.liquidationPrice,
+          markPrice: position.markPrice,
+          isLong: position.isLong,
+          isExistingPosition: true,
+        });
+      });
+    };
+
+    return [...getEntries("tp"), ...getEntries("sl")];
+  }, [template, position, marketDecimals, minCollateralUsd, minPositionSizeUsd, uiFeeFactor, userReferralInfo]);
+
+  const executionFees = useMemo(() => {
+    if (!gasLimits || !tokensData || gasPrice === undefined) return undefined;
+
+    return entries.map((entry) => {
+      const estimatedGas = estimateExecuteDecreaseOrderGasLimit(gasLimits, {
+        decreaseSwapType: entry.decreaseAmounts?.decreaseSwapType,
+        swapsCount: 0,
+      });
+      const oraclePriceCount = estimateOrderOraclePriceCount(0);
+
+      return getExecutionFee(chainId, gasLimits, tokensData, estimatedGas, gasPrice, oraclePriceCount);
+    });
+  }, [chainId, entries, gasLimits, gasPrice, tokensData]);
+
+  const totalExecutionFee = useMemo(
+    () =>
+      executionFees?.reduce(
+        (acc, fee) => ({
+          feeTokenAmount: acc.feeTokenAmount + (fee?.feeTokenAmount ?? 0n),
+          feeUsd: acc.feeUsd + (fee?.feeUsd ?? 0n),
+        }),
+        { feeTokenAmount: 0n, feeUsd: 0n }
+      ),
+    [executionFees]
+  );
+
+  const subaccount = useSubaccount(totalExecutionFee?.feeTokenAmount ?? null, entries.length);
+
+  const error = useMemo(() => {
+    if (!templates.length) return t`No saved templates`;
+    if (!entries.length) return t`Template has no orders`;
+    if (entries.some((entry) => entry.price.error || entry.percentage.error || !entry.decreaseAmounts)) {
+      return t`Template does not fit the position`;
+    }
+    if (isSubmitting) return t`Creating Orders...`;
+    return undefined;
+  }, [entries, isSubmitting, templates.length]);
+
+  const onSubmit = useCallback(() => {
+    if (!account || !signer || !position || !tokensData || !executionFees || error) return;
+
+    setIsSubmitting(true);
+
+    createDecreaseOrderTxn(
+      chainId,
+      signer,
+      subaccount,
+      entries.map(({ decreaseAmounts }, index) => ({
+        account,
+        marketAddress: position.marketAddress,
+        initialCollateralAddress: position.collateralTokenAddress,
+        initialCollateralDeltaAmount: decreaseAmounts!.collateralDeltaAmount,
+        receiveTokenAddress: position.collateralTokenAddress,
+        swapPath: [],
+        sizeDeltaUsd: decreaseAmounts!.sizeDeltaUsd,
+        sizeDeltaInTokens: decreaseAmounts!.sizeDeltaInTokens,
+        acceptablePrice: decreaseAmounts!.acceptablePrice,
+        triggerPrice: decreaseAmounts!.triggerPrice,
+        minOutputUsd: 0n,
+        isLong: position.isLong,
+        decreasePositionSwapType: decreaseAmounts!.decreaseSwapType,
+        orderType: decreaseAmounts!.triggerOrderType!,
+        executionFee: executionFees[index]?.feeTokenAmount ?? 0n,
+        allowedSlippage,
+        referralCode: userReferralInfo?.referralCodeForTxn,
+        indexToken: position.indexToken,
+        tokensData,
+        skipSimulation: true,
+      })),
+      {
+        setPendingTxns,
+        setPendingOrder,
+      },
+      undefined,
+      shouldCancelExistingOrders ? existingTpSlOrderKeys : []
+    )
+      .then(onClose)
+      .finally(() => setIsSubmitting(false));
+  }, [
+    account,
+    allowedSlippage,
+    chainId,
+    entries,
+    error,
+    executionFees,
+    existingTpSlOrderKeys,
+    onClose,
+    position,
+    setPendingOrder,
+    setPendingTxns,
+    shouldCancelExistingOrders,
+    signer,
+    subaccount,
+    tokensData,
+    userReferralInfo?.referralCodeForTxn,
+  ]);
+
+  const setIsVisible = useCallback(
+    (isVisible: boolean) => {
+      if (!isVisible) onClose();
+    },
+    [onClose]
+  );
+
+  return (
+    <Modal isVisible={Boolean(position)} setIsVisible={setIsVisible} label={t`Apply TP/SL Template`}>
+      <div className="mb-15 flex flex-wrap gap-8">
+        {templates.map((item) => (
+          <Button
+            key={item.id}
+            variant={item.id === template?.id ? "primary" : "secondary"}
+            showExternalLinkArrow={false}
+            onClick={() => setTemplateId(item.id)}
+          >
+            {item.name}
+          </Button>
+        ))}
+      </div>
+      <ExchangeInfo>
+        <ExchangeInfo.Group>
+          {entries.map((entry) => (
+            <ExchangeInfo.Row
+              key={entry.id}
+              label={`${entry.id.startsWith("sl") ? t`Stop-Loss` : t`Take-Profit`} ${entry.percentage.input}%`}
+            >
+              <span className={entry.price.error ? "text-red-500" : undefined}>
+                {entry.price.error ?? formatUsd(entry.price.value ?? undefined, { displayDecimals: marketDecimals })}
+              </span>
+            </ExchangeInfo.Row>
+          ))}
+          <ExchangeInfo.Row label={t`Network Fee`}>{formatUsd(totalExecutionFee?.feeUsd)}</ExchangeInfo.Row>
+        </ExchangeInfo.Group>
+        {existingTpSlOrderKeys.length > 0 && (
+          <ExchangeInfo.Group>
+            <Checkbox isChecked={shouldCancelExistingOrders} setIsChecked={setShouldCancelExistingOrders}>
+              <Trans>Cancel {existingTpSlOrderKeys.length} existing TP/SL orders</Trans>
+            </Checkbox>
+          </ExchangeInfo.Group>
+        )}
+      </ExchangeInfo>
+      <Button className="mt-15 w-full" variant="primary-action" disabled={Boolean(error)} onClick={onSubmit}>
+        {error ?? t`Create Orders`}
+      </Button>
+    </Modal>
+  );
+}
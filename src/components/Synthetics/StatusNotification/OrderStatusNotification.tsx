@@ -375,6 +375,8 @@ export function OrdersStatusNotificiation({
     setIsCancelOrderProcessing(true);
     cancelOrdersTxn(chainId, signer, subaccount, {
       orderKeys: newlyCreatedTriggerOrderKeys,
+      // toasts are rendered outside of the synthetics state, restricted subaccounts fall back to the main account
+      ordersInfoData: undefined,
       setPendingTxns,
       detailsMsg: cancelOrdersDetailsMessage,
     }).finally(() => setIsCancelOrderProcessing(false));
@@ -0,0 +1,203 @@
+import { Trans, t } from "@lingui/macro";
+import { lightFormat } from "date-fns";
+import { useMemo } from "react";
+import { Bar, BarChart, Tooltip as RechartsTooltip, ResponsiveContainer, TooltipProps, XAxis, YAxis } from "recharts";
+
+import { getExplorerUrl } from "config/chains";
+import { getNativeToken } from "config/tokens";
+import { getMarketIndexName } from "domain/synthetics/markets";
+import { getOrderTypeLabel } from "domain/synthetics/orders";
+import type { SubaccountActivityActionType, SubaccountDailySpending } from "domain/synthetics/subaccount/types";
+import {
+  SubaccountActivityWithTrades,
+  useSubaccountActivity,
+} from "domain/synthetics/subaccount/useSubaccountActivity";
+import type { TradeAction } from "domain/synthetics/tradeHistory";
+import { useChainId } from "lib/chains";
+import { formatDateTime } from "lib/dates";
+import { bigintToNumber, formatTokenAmount } from "lib/numbers";
+import useWallet from "lib/wallets/useWallet";
+
+import ExternalLink from "components/ExternalLink/ExternalLink";
+import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+
+const CHART_TOOLTIP_WRAPPER_STYLE: React.CSSProperties = { zIndex: 10000 };
+
+const CHART_TICK_PROPS: React.SVGProps<SVGTextElement> = { fill: "var(--color-gray-400)" };
+
+const DISPLAY_DECIMALS = 5;
+
+type ChartPoint = SubaccountDailySpending & {
+  dateCompact: string;
+  gasCostFloat: number;
+  executionFeeFloat: number;
+  autoTopUpFloat: number;
+  decimals: number;
+  symbol: string;
+};
+
+type Props = {
+  subaccountAddress: string | null;
+};
+
+export function SubaccountActivityLog({ subaccountAddress }: Props) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const { activities, dailySpending, isLoading } = useSubaccountActivity(chainId, account, subaccountAddress);
+  const nativeToken = getNativeToken(chainId);
+
+  const chartData: ChartPoint[] = useMemo(
+    () =>
+      dailySpending.map((day) => ({
+        ...day,
+        dateCompact: lightFormat(day.timestamp * 1000, "dd/MM"),
+        gasCostFloat: bigintToNumber(day.gasCostAmount, nativeToken.decimals),
+        executionFeeFloat: bigintToNumber(day.executionFeeAmount, nativeToken.decimals),
+        autoTopUpFloat: bigintToNumber(day.autoTopUpAmount, nativeToken.decimals),
+        decimals: nativeToken.decimals,
+        symbol: nativeToken.symbol,
+      })),
+    [dailySpending, nativeToken.decimals, nativeToken.symbol]
+  );
+
+  const totals = useMemo(
+    () =>
+      dailySpending.reduce(
+        (acc, day) => ({
+          gasCostAmount: acc.gasCostAmount + day.gasCostAmount,
+          executionFeeAmount: acc.executionFeeAmount + day.executionFeeAmount,
+          autoTopUpAmount: acc.autoTopUpAmount + day.autoTopUpAmount,
+        }),
+        { gasCostAmount: 0n, executionFeeAmount: 0n, autoTopUpAmount: 0n }
+      ),
+    [dailySpending]
+  );
+
+  if (!subaccountAddress) {
+    return null;
+  }
+
+  const formatAmount = (amount: bigint | undefined) =>
+    formatTokenAmount(amount, nativeToken.decimals, nativeToken.symbol, { displayDecimals: DISPLAY_DECIMALS });
+
+  return (
+    <div className="SubaccountModal-section flex flex-col gap-8">
+      <StatsTooltipRow label={t`Gas Spent`} value={formatAmount(totals.gasCostAmount)} showDollar={false} />
+      <StatsTooltipRow label={t`Execution Fees`} value={formatAmount(totals.executionFeeAmount)} showDollar={false} />
+      <StatsTooltipRow label={t`Auto Top-Ups`} value={formatAmount(totals.autoTopUpAmount)} showDollar={false} />
+
+      <div className="relative h-[160px]">
+        <ResponsiveContainer debounce={500}>
+          <BarChart data={chartData}>
+            <RechartsTooltip content={ChartTooltip} wrapperStyle={CHART_TOOLTIP_WRAPPER_STYLE} />
+            <Bar dataKey="gasCostFloat" stackId="spent" fill="var(--color-blue-300)" />
+            <Bar dataKey="executionFeeFloat" stackId="spent" fill="var(--color-yellow-300)" />
+            <Bar dataKey="autoTopUpFloat" fill="var(--color-gray-400)" />
+            <XAxis
+              dataKey="dateCompact"
+              axisLine={false}
+              tickLine={false}
+              fontSize={12}
+              minTickGap={20}
+              tick={CHART_TICK_PROPS}
+            />
+            <YAxis mirror type="number" axisLine={false} tickLine={false} fontSize={12} tick={CHART_TICK_PROPS} />
+          </BarChart>
+        </ResponsiveContainer>
+        {!isLoading && chartData.length === 0 && (
+          <div className="absolute left-0 top-0 grid size-full place-items-center text-gray-300">
+            <Trans>No transactions recorded on this device</Trans>
+          </div>
+        )}
+      </div>
+
+      {activities?.map((activity) => (
+        <SubaccountActivityRow
+          key={activity.hash}
+          activity={activity}
+          explorerUrl={getExplorerUrl(chainId)}
+          formatAmount={formatAmount}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SubaccountActivityRow({
+  activity,
+  explorerUrl,
+  formatAmount,
+}: {
+  activity: SubaccountActivityWithTrades;
+  explorerUrl: string;
+  formatAmount: (amount: bigint | undefined) => string | undefined;
+}) {
+  const status = activity.isSuccess === undefined ? t`Pending` : activity.isSuccess ? undefined : t`Failed`;
+
+  return (
+    <div className="border-t border-gray-800 pt-8 text-14">
+      <div className="flex justify-between">
+        <ExternalLink href={`${explorerUrl}tx/${activity.hash}`}>{formatDateTime(activity.timestamp)}</ExternalLink>
+        <span className="text-gray-300">{status ?? <Trans>Gas: {formatAmount(activity.gasCostAmount)}</Trans>}</span>
+      </div>
+      {activity.actions.map((action, index) => {
+        const tradeAction = activity.tradeActions.find(
+          (tradeAction) => action.orderKey && tradeAction.orderKey === action.orderKey
+        );
+
+        return (
+          <div key={index} className="flex justify-between text-gray-300">
+            <span>{getActionLabel(action.type)}</span>
+            <span>{action.type === "autoTopUp" ? formatAmount(action.amount) : getTradeActionLabel(tradeAction)}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function getActionLabel(type: SubaccountActivityActionType) {
+  switch (type) {
+    case "createOrder":
+      return t`Create Order`;
+    case "updateOrder":
+      return t`Update Order`;
+    case "cancelOrder":
+      return t`Cancel Order`;
+    case "autoTopUp":
+      return t`Auto Top-Up`;
+  }
+}
+
+function getTradeActionLabel(tradeAction: TradeAction | undefined) {
+  if (!tradeAction) {
+    return "-";
+  }
+
+  if ("marketInfo" in tradeAction) {
+    const direction = tradeAction.isLong ? t`Long` : t`Short`;
+
+    return `${getOrderTypeLabel(tradeAction.orderType)} ${direction} ${getMarketIndexName(tradeAction.marketInfo)}`;
+  }
+
+  return `${getOrderTypeLabel(tradeAction.orderType)} ${tradeAction.initialCollateralToken.symbol} → ${tradeAction.targetCollateralToken.symbol}`;
+}
+
+function ChartTooltip({ active, payload }: TooltipProps<number, string>) {
+  if (!active || !payload || !payload.length) {
+    return null;
+  }
+
+  const point = payload[0].payload as ChartPoint;
+  const format = (amount: bigint) =>
+    formatTokenAmount(amount, point.decimals, point.symbol, { displayDecimals: DISPLAY_DECIMALS });
+
+  return (
+    <div className="z-50 rounded-4 border border-gray-950 bg-slate-800 p-8 text-14">
+      <StatsTooltipRow label={t`Date`} value={formatDateTime(point.timestamp)} showDollar={false} />
+      <StatsTooltipRow label={t`Gas Spent`} value={format(point.gasCostAmount)} showDollar={false} />
+      <StatsTooltipRow label={t`Execution Fees`} value={format(point.executionFeeAmount)} showDollar={false} />
+      <StatsTooltipRow label={t`Auto Top-Ups`} value={format(point.autoTopUpAmount)} showDollar={false} />
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import Button from "components/Button/Button";
 import ExternalLink from "components/ExternalLink/ExternalLink";
 import Modal from "components/Modal/Modal";
 import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+import Tab from "components/Tab/Tab";
 import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
 import { StatusNotification } from "components/Synthetics/StatusNotification/StatusNotification";
 import { TransactionStatus } from "components/TransactionStatus/TransactionStatus";
@@ -51,19 +52,35 @@ import { ChangeEvent, ReactNode, memo, useCallback, useEffect, useMemo, useState
 import { useCopyToClipboard, usePrevious } from "react-use";
 import { SubaccountNotification } from "../StatusNotification/SubaccountNotification";
 import "./SubaccountModal.scss";
+import { SubaccountActivityLog } from "./SubaccountActivityLog";
+import { SubaccountPermissions } from "./SubaccountPermissions";
 import { SubaccountStatus } from "./SubaccountStatus";
 import { getApproxSubaccountActionsCountByBalance, getButtonState, getDefaultValues } from "./utils";
 import { usePendingTxns } from "lib/usePendingTxns";
 
 export type FormState = "empty" | "inactive" | "activated";
 
+type ModalView = "settings" | "activity";
+
+const MODAL_VIEWS: ModalView[] = ["settings", "activity"];
+
 export function SubaccountModal() {
   const [isVisible, setIsVisible] = useSubaccountModalOpen();
+  const subaccountAddress = useSubaccountAddress();
+  const [view, setView] = useState<ModalView>("settings");
+  const viewLabels = useMemo(() => ({ settings: t`Settings`, activity: t`Activity` }), []);
 
   return (
     <Modal label={t`One-Click Trading`} isVisible={isVisible} setIsVisible={setIsVisible}>
       <div className="SubaccountModal-content">
-        <MainView />
+        {subaccountAddress && (
+          <Tab options={MODAL_VIEWS} optionLabels={viewLabels} option={view} onChange={setView} className="mb-15" />
+        )}
+        {subaccountAddress && view === "activity" ? (
+          <SubaccountActivityLog subaccountAddress={subaccountAddress} />
+        ) : (
+          <MainView />
+        )}
       </div>
     </Modal>
   );
@@ -675,6 +692,7 @@ const MainView = memo(() => {
         </>
       )}
       <div className="SubaccountModal-stats">
+        <SubaccountPermissions />
         <div className="SubaccountModal-section">
           {subaccountAddress ? (
             <StatsTooltipRow
@@ -0,0 +1,88 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback, useMemo } from "react";
+
+import {
+  useSubaccountAddress,
+  useSubaccountPermissions,
+  useSubaccountSelector,
+} from "context/SubaccountContext/SubaccountContext";
+import { useMarkets } from "domain/synthetics/markets";
+import { OrderType, getOrderTypeLabel } from "domain/synthetics/orders";
+import { useChainId } from "lib/chains";
+
+import { TableOptionsFilter } from "components/Synthetics/TableOptionsFilter/TableOptionsFilter";
+
+const ORDER_TYPES = [
+  OrderType.MarketIncrease,
+  OrderType.LimitIncrease,
+  OrderType.MarketDecrease,
+  OrderType.LimitDecrease,
+  OrderType.StopLossDecrease,
+  OrderType.MarketSwap,
+  OrderType.LimitSwap,
+];
+
+export function SubaccountPermissions() {
+  const { chainId } = useChainId();
+  const subaccountAddress = useSubaccountAddress();
+  const permissions = useSubaccountPermissions();
+  const setSubaccountPermissions = useSubaccountSelector((s) => s.setSubaccountPermissions);
+  const { marketsData } = useMarkets(chainId);
+
+  const marketOptions = useMemo(
+    () => Object.values(marketsData ?? {}).map((market) => ({ text: market.name, data: market.marketTokenAddress })),
+    [marketsData]
+  );
+
+  const orderTypeOptions = useMemo(
+    () => ORDER_TYPES.map((orderType) => ({ text: getOrderTypeLabel(orderType), data: orderType })),
+    []
+  );
+
+  const handleMarketsChange = useCallback(
+    (marketAddresses: string[]) => {
+      if (!subaccountAddress) return;
+      setSubaccountPermissions(subaccountAddress, { ...permissions, marketAddresses });
+    },
+    [permissions, setSubaccountPermissions, subaccountAddress]
+  );
+
+  const handleOrderTypesChange = useCallback(
+    (orderTypes: OrderType[]) => {
+      if (!subaccountAddress) return;
+      setSubaccountPermissions(subaccountAddress, { ...permissions, orderTypes });
+    },
+    [permissions, setSubaccountPermissions, subaccountAddress]
+  );
+
+  if (!subaccountAddress) {
+    return null;
+  }
+
+  return (
+    <div className="SubaccountModal-section">
+      <div className="mb-8 text-14 text-gray-300">
+        <Trans>
+          Orders in other markets or of other types are signed by your Main Account. Leave empty to allow all.
+        </Trans>
+      </div>
+      <div className="flex gap-16 pb-8">
+        <TableOptionsFilter<string>
+          multiple
+          label={t`Allowed Markets`}
+          placeholder={t`Search Market`}
+          options={marketOptions}
+          value={permissions.marketAddresses}
+          onChange={handleMarketsChange}
+        />
+        <TableOptionsFilter<OrderType>
+          multiple
+          label={t`Allowed Order Types`}
+          options={orderTypeOptions}
+          value={permissions.orderTypes}
+          onChange={handleOrderTypesChange}
+        />
+      </div>
+    </div>
+  );
+}
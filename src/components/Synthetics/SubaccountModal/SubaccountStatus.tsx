@@ -12,6 +12,7 @@ import {
 import { SUBACCOUNT_DOCS_URL } from "domain/synthetics/subaccount/constants";
 import { useChainId } from "lib/chains";
 import { ReactNode, memo } from "react";
+import { SubaccountSwitcher } from "./SubaccountSwitcher";
 import "./SubaccountStatus.scss";
 
 function SubaccountStatusImpl({
@@ -37,6 +38,7 @@ function SubaccountStatusImpl({
   const shouldShowMainAccountInsufficientFundsError = isSubaccountActive && mainACcountInsufficientFunds;
 
   const content: ReactNode[] = [];
+  const switcher = <SubaccountSwitcher />;
 
   if (
     shouldShowAllowedActionsError ||
@@ -88,18 +90,26 @@ function SubaccountStatusImpl({
     }
   } else if (!isSubaccountActive) {
     return (
-      <AlertInfo type="info" compact={!subaccountAddress}>
-        <Trans>
-          Generate and activate a Subaccount for{" "}
-          <ExternalLink href={SUBACCOUNT_DOCS_URL}>One-Click Trading</ExternalLink> to reduce signing popups.
-        </Trans>
-      </AlertInfo>
+      <>
+        {switcher}
+        <AlertInfo type="info" compact={!subaccountAddress}>
+          <Trans>
+            Generate and activate a Subaccount for{" "}
+            <ExternalLink href={SUBACCOUNT_DOCS_URL}>One-Click Trading</ExternalLink> to reduce signing popups.
+          </Trans>
+        </AlertInfo>
+      </>
     );
   } else {
-    return null;
+    return switcher;
   }
 
-  return <div className={`SubaccountStatus ${hasBorder ? "SubaccountStatus-border" : ""}`}>{content}</div>;
+  return (
+    <>
+      {switcher}
+      <div className={`SubaccountStatus ${hasBorder ? "SubaccountStatus-border" : ""}`}>{content}</div>
+    </>
+  );
 }
 
 export const SubaccountStatus = memo(SubaccountStatusImpl) as typeof SubaccountStatusImpl;
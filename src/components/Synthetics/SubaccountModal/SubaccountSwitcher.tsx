@@ -0,0 +1,175 @@
+import { Trans, t } from "@lingui/macro";
+import { ChangeEvent, useCallback, useMemo, useState } from "react";
+import { useCopyToClipboard } from "react-use";
+
+import {
+  useSubaccountAddress,
+  useSubaccountGenerateSubaccount,
+  useSubaccountSelector,
+  useSubaccounts,
+} from "context/SubaccountContext/SubaccountContext";
+import {
+  MIN_SUBACCOUNT_EXPORT_PASSWORD_LENGTH,
+  parseSubaccountExport,
+  serializeSubaccountExport,
+} from "domain/synthetics/subaccount/utils";
+import { helperToast } from "lib/helperToast";
+import useWallet from "lib/wallets/useWallet";
+
+import Tab from "components/Tab/Tab";
+
+type EditMode = "new" | "rename" | "import" | "export";
+
+export function SubaccountSwitcher() {
+  const { account } = useWallet();
+  const subaccounts = useSubaccounts();
+  const subaccountAddress = useSubaccountAddress();
+  const generateSubaccount = useSubaccountGenerateSubaccount();
+  const switchSubaccount = useSubaccountSelector((s) => s.switchSubaccount);
+  const renameSubaccount = useSubaccountSelector((s) => s.renameSubaccount);
+  const importSubaccount = useSubaccountSelector((s) => s.importSubaccount);
+  const [, copyToClipboard] = useCopyToClipboard();
+  const [editMode, setEditMode] = useState<EditMode | null>(null);
+  const [inputValue, setInputValue] = useState("");
+  const [passwordValue, setPasswordValue] = useState("");
+
+  const options = useMemo(() => subaccounts.map((subaccount) => subaccount.address), [subaccounts]);
+  const optionLabels = useMemo(
+    () => Object.fromEntries(subaccounts.map((subaccount) => [subaccount.address, subaccount.name])),
+    [subaccounts]
+  );
+  const activeSubaccount = subaccounts.find((subaccount) => subaccount.address === subaccountAddress);
+
+  const startEditing = useCallback(
+    (mode: EditMode) => {
+      setEditMode(mode);
+      setInputValue(mode === "rename" ? activeSubaccount?.name ?? "" : "");
+      setPasswordValue("");
+    },
+    [activeSubaccount?.name]
+  );
+
+  const handleInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => setInputValue(e.target.value), []);
+  const handlePasswordChange = useCallback((e: ChangeEvent<HTMLInputElement>) => setPasswordValue(e.target.value), []);
+
+  const handleConfirmClick = useCallback(async () => {
+    if (editMode === "export" && activeSubaccount && account) {
+      const exported = serializeSubaccountExport(activeSubaccount, account, passwordValue);
+
+      if (!exported) {
+        helperToast.error(t`Password should be at least ${MIN_SUBACCOUNT_EXPORT_PASSWORD_LENGTH} characters`);
+        return;
+      }
+
+      copyToClipboard(exported);
+      helperToast.success(t`Subaccount key encrypted with your password copied to your clipboard`);
+    } else if (editMode === "new") {
+      await generateSubaccount(inputValue.trim());
+    } else if (editMode === "rename" && activeSubaccount) {
+      renameSubaccount(activeSubaccount.address, inputValue.trim() || activeSubaccount.name);
+    } else if (editMode === "import" && account) {
+      const imported = parseSubaccountExport(inputValue, account, passwordValue);
+
+      if (!imported) {
+        helperToast.error(t`Invalid Subaccount key or password, or the key belongs to another account`);
+        return;
+      }
+
+      importSubaccount(imported);
+    }
+
+    setEditMode(null);
+  }, [
+    account,
+    activeSubaccount,
+    copyToClipboard,
+    editMode,
+    generateSubaccount,
+    importSubaccount,
+    inputValue,
+    passwordValue,
+    renameSubaccount,
+  ]);
+
+  if (subaccounts.length === 0 && editMode !== "import") {
+    return (
+      <div className="SubaccountSwitcher">
+        <button className="SubaccountModal-mini-button" onClick={() => startEditing("import")}>
+          <Trans>Import Subaccount</Trans>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="SubaccountSwitcher">
+      {subaccounts.length > 0 && (
+        <Tab
+          options={options}
+          optionLabels={optionLabels}
+          option={subaccountAddress ?? undefined}
+          onChange={switchSubaccount}
+          type="inline"
+        />
+      )}
+      {editMode === "export" && (
+        <div className="SubaccountSwitcher-warning">
+          <Trans>
+            The exported key gives full control over the Subaccount funds and its trading permissions. Choose a strong
+            password and never share it together with the key.
+          </Trans>
+        </div>
+      )}
+      {editMode ? (
+        <div className="SubaccountSwitcher-edit">
+          {editMode !== "export" && (
+            <input
+              className="SubaccountSwitcher-input"
+              value={inputValue}
+              onChange={handleInputChange}
+              placeholder={editMode === "import" ? t`Paste exported Subaccount key` : t`Subaccount name`}
+            />
+          )}
+          {(editMode === "import" || editMode === "export") && (
+            <input
+              className="SubaccountSwitcher-input"
+              type="password"
+              value={passwordValue}
+              onChange={handlePasswordChange}
+              placeholder={t`Export password`}
+            />
+          )}
+          <button className="SubaccountModal-mini-button" onClick={handleConfirmClick}>
+            {editMode === "new" ? (
+              <Trans>Create</Trans>
+            ) : editMode === "rename" ? (
+              <Trans>Save</Trans>
+            ) : editMode === "export" ? (
+              <Trans>Copy</Trans>
+            ) : (
+              <Trans>Import</Trans>
+            )}
+          </button>
+          <button className="SubaccountModal-mini-button" onClick={() => setEditMode(null)}>
+            <Trans>Cancel</Trans>
+          </button>
+        </div>
+      ) : (
+        <div className="SubaccountSwitcher-edit">
+          <button className="SubaccountModal-mini-button" onClick={() => startEditing("new")}>
+            <Trans>New</Trans>
+          </button>
+          <button className="SubaccountModal-mini-button" onClick={() => startEditing("rename")}>
+            <Trans>Rename</Trans>
+          </button>
+          <button className="SubaccountModal-mini-button" onClick={() => startEditing("export")}>
+            <Trans>Export</Trans>
+          </button>
+          <button className="SubaccountModal-mini-button" onClick={() => startEditing("import")}>
+            <Trans>Import</Trans>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
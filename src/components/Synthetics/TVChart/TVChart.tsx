@@ -1,8 +1,13 @@
 import { t } from "@lingui/macro";
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { usePrevious, useMedia } from "react-use";
 
-import TVChartContainer, { ChartLine } from "components/TVChartContainer/TVChartContainer";
+import TVChartContainer, {
+  ChartLine,
+  ChartMarker,
+  ChartZone,
+  TVChartHandle,
+} from "components/TVChartContainer/TVChartContainer";
 import { convertTokenAddress, getPriceDecimals } from "config/tokens";
 import { SUPPORTED_RESOLUTIONS_V2 } from "config/tradingview";
 import {
@@ -10,39 +15,67 @@ import {
   usePositionsInfoData,
   useTokensData,
 } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { useEditingOrderKeyState } from "context/SyntheticsStateContext/hooks/orderEditorHooks";
 import { selectChartToken } from "context/SyntheticsStateContext/selectors/chartSelectors";
+import { selectAccount } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { selectOrderEditorSetInitialTriggerPrice } from "context/SyntheticsStateContext/selectors/orderEditorSelectors";
 import { selectSelectedMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
-import { selectTradeboxSetToTokenAddress } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import {
+  selectTradeboxMarketInfo,
+  selectTradeboxSetToTokenAddress,
+} from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 
+import { getChartFills, getChartLiquidationZones, getIsChartDraggableOrder } from "domain/synthetics/chartOverlays";
 import { PositionOrderInfo, isIncreaseOrderType, isSwapOrderType } from "domain/synthetics/orders";
-import { getTokenData } from "domain/synthetics/tokens";
+import {
+  TokenPriceAlert,
+  getLiquidationDistanceAlertPrice,
+  getPriceAlertDirection,
+} from "domain/synthetics/priceAlerts";
+import { usePriceAlerts } from "domain/synthetics/priceAlerts/usePriceAlerts";
+import { getMidPrice, getTokenData } from "domain/synthetics/tokens";
 import { useOracleKeeperFetcher } from "domain/synthetics/tokens/useOracleKeeperFetcher";
 import { SyntheticsTVDataProvider } from "domain/synthetics/tradingview/SyntheticsTVDataProvider";
+import { TradeActionType } from "domain/synthetics/tradeHistory";
+import { useTradeHistory } from "domain/synthetics/tradeHistory/useTradeHistory";
+import { useTrailingStops } from "domain/synthetics/trailingStops/useTrailingStops";
 import { Token } from "domain/tokens";
 
+import { requestNotificationPermission } from "lib/browserNotifications";
 import { useChainId } from "lib/chains";
+import { helperToast } from "lib/helperToast";
 import { CHART_PERIODS } from "lib/legacy";
 import { USD_DECIMALS } from "config/factors";
 import { useLocalStorageSerializeKey } from "lib/localStorage";
-import { formatAmount } from "lib/numbers";
+import { formatAmount, formatUsd, formatUsdPrice, parseValue } from "lib/numbers";
 
 import { TVChartHeader } from "./TVChartHeader";
 
 import "./TVChart.scss";
 
 const DEFAULT_PERIOD = "5m";
+const ALERT_LINE_COLOR = "#8a6b1f";
+const LIQUIDATION_ZONE_COLOR = "#fa3c58";
+const CHART_FILLS_PAGE_SIZE = 100;
+const EXECUTED_ORDERS_FILTER = [{ eventName: TradeActionType.OrderExecuted }];
 
 export function TVChart() {
   const chartToken = useSelector(selectChartToken);
   const ordersInfo = useOrdersInfoData();
   const tokensData = useTokensData();
   const positionsInfo = usePositionsInfoData();
+  const { trailingStops } = useTrailingStops();
+  const { priceAlerts, addPriceAlert } = usePriceAlerts();
+  const account = useSelector(selectAccount);
 
   const { chainId } = useChainId();
   const oracleKeeperFetcher = useOracleKeeperFetcher(chainId);
   const [dataProvider, setDataProvider] = useState<SyntheticsTVDataProvider>();
+  const [tvChart, setTvChart] = useState<TVChartHandle>();
   const chartTokenAddress = chartToken?.address;
+  const marketInfo = useSelector(selectTradeboxMarketInfo);
+  const studyMarketAddress = marketInfo && !marketInfo.isSpotOnly ? marketInfo.marketTokenAddress : undefined;
 
   let [period, setPeriod] = useLocalStorageSerializeKey([chainId, "Chart-period-v2"], DEFAULT_PERIOD);
 
@@ -53,6 +86,55 @@ export function TVChart() {
   const oraclePriceDecimals = useSelector(selectSelectedMarketPriceDecimals);
 
   const setToTokenAddress = useSelector(selectTradeboxSetToTokenAddress);
+  const [editingOrderKey, setEditingOrderKey] = useEditingOrderKeyState();
+  const setOrderEditorInitialTriggerPrice = useSelector(selectOrderEditorSetInitialTriggerPrice);
+
+  const { tradeActions } = useTradeHistory(chainId, {
+    account,
+    pageSize: CHART_FILLS_PAGE_SIZE,
+    orderEventCombinations: EXECUTED_ORDERS_FILTER,
+  });
+
+  const chartFills = useMemo(
+    () => (tradeActions && chartTokenAddress ? getChartFills(chainId, tradeActions, chartTokenAddress) : []),
+    [chainId, chartTokenAddress, tradeActions]
+  );
+
+  const chartMarkers = useMemo(
+    (): ChartMarker[] =>
+      chartFills.map((fill) => {
+        const priceDecimal = getPriceDecimals(chainId, chartToken?.symbol);
+        const longOrShortText = fill.isLong ? t`Long` : t`Short`;
+        const sizeText = `${fill.isIncrease ? "+" : "-"}${formatUsd(fill.sizeDeltaUsd)}`;
+
+        return {
+          id: fill.id,
+          time: fill.time,
+          price: parseFloat(formatAmount(fill.price, USD_DECIMALS, priceDecimal)),
+          direction: fill.isBuy ? "buy" : "sell",
+          text: sizeText,
+          tooltip: t`${longOrShortText} ${sizeText} at ${formatUsdPrice(fill.price)}`,
+        };
+      }),
+    [chainId, chartFills, chartToken?.symbol]
+  );
+
+  const chartZones = useMemo((): ChartZone[] => {
+    if (!chartTokenAddress) {
+      return [];
+    }
+
+    const zones = getChartLiquidationZones(chainId, Object.values(positionsInfo || {}), chartFills, chartTokenAddress);
+    const priceDecimal = getPriceDecimals(chainId, chartToken?.symbol);
+
+    return zones.map((zone) => ({
+      id: zone.positionKey,
+      fromTime: zone.fromTime ?? Math.floor(Date.now() / 1000) - CHART_PERIODS[period!],
+      fromPrice: parseFloat(formatAmount(zone.entryPrice, USD_DECIMALS, priceDecimal)),
+      toPrice: parseFloat(formatAmount(zone.liquidationPrice, USD_DECIMALS, priceDecimal)),
+      color: LIQUIDATION_ZONE_COLOR,
+    }));
+  }, [chainId, chartFills, chartToken?.symbol, chartTokenAddress, period, positionsInfo]);
 
   const chartLines = useMemo(() => {
     if (!chartTokenAddress) {
@@ -81,10 +163,24 @@ export function TVChart() {
         const longOrShortText = order.isLong ? t`Long` : t`Short`;
         const orderTypeText = isIncreaseOrderType(order.orderType) ? t`Inc.` : t`Dec.`;
         const tokenSymbol = getTokenData(tokensData, positionOrder.marketInfo.indexTokenAddress, "native")?.symbol;
+        const trailingStop = trailingStops.find((trailingStop) => trailingStop.orderKey === order.key);
+        const trailingText = trailingStop ? ` ${t`(Trailing ${trailingStop.trailBps / 100}%)`}` : "";
+
+        const isDraggable = getIsChartDraggableOrder(order) && !trailingStop && order.key !== editingOrderKey;
 
         return {
-          title: `${longOrShortText} ${orderTypeText} ${tokenSymbol}`,
+          title: `${longOrShortText} ${orderTypeText} ${tokenSymbol}${trailingText}`,
           price: parseFloat(formatAmount(positionOrder.triggerPrice, USD_DECIMALS, priceDecimal)),
+          onMove: isDraggable
+            ? (price: number) => {
+                const triggerPrice = parseValue(price.toFixed(priceDecimal), USD_DECIMALS);
+
+                if (triggerPrice === undefined || triggerPrice <= 0) return;
+
+                setOrderEditorInitialTriggerPrice(triggerPrice);
+                setEditingOrderKey(order.key);
+              }
+            : undefined,
         };
       });
 
@@ -109,13 +205,103 @@ export function TVChart() {
             price: parseFloat(liquidationPrice),
           });
         }
+
+        const trailingStop = trailingStops.find(
+          (trailingStop) => trailingStop.orderKey && trailingStop.positionKey === position.key
+        );
+        if (trailingStop) {
+          acc.push({
+            title: t`Trail Peak ${longOrShortText} ${tokenSymbol}`,
+            price: parseFloat(formatAmount(trailingStop.bestPrice, USD_DECIMALS, priceDecimal)),
+          });
+        }
+
+        priceAlerts.forEach((alert) => {
+          if (alert.type !== "liquidationDistance" || alert.positionKey !== position.key) return;
+
+          const alertPrice =
+            position.liquidationPrice === undefined
+              ? undefined
+              : getLiquidationDistanceAlertPrice(position.liquidationPrice, alert.thresholdBps, position.isLong);
+
+          if (alertPrice === undefined) return;
+
+          acc.push({
+            title: t`Liq. Alert ${longOrShortText} ${tokenSymbol}`,
+            price: parseFloat(formatAmount(alertPrice, USD_DECIMALS, priceDecimal)),
+            color: ALERT_LINE_COLOR,
+          });
+        });
       }
 
       return acc;
     }, [] as ChartLine[]);
 
-    return orderLines.concat(positionLines);
-  }, [chainId, chartTokenAddress, ordersInfo, positionsInfo, tokensData]);
+    const alertLines: ChartLine[] = priceAlerts
+      .filter(
+        (alert): alert is TokenPriceAlert =>
+          alert.type === "price" &&
+          convertTokenAddress(chainId, alert.tokenAddress, "wrapped") ===
+            convertTokenAddress(chainId, chartTokenAddress, "wrapped")
+      )
+      .map((alert) => {
+        const tokenSymbol = getTokenData(tokensData, chartTokenAddress, "native")?.symbol;
+        const priceDecimal = getPriceDecimals(chainId, tokenSymbol);
+
+        return {
+          title: t`Alert ${tokenSymbol}`,
+          price: parseFloat(formatAmount(alert.price, USD_DECIMALS, priceDecimal)),
+          color: ALERT_LINE_COLOR,
+        };
+      });
+
+    return orderLines.concat(positionLines, alertLines);
+  }, [
+    chainId,
+    chartTokenAddress,
+    editingOrderKey,
+    ordersInfo,
+    positionsInfo,
+    priceAlerts,
+    setEditingOrderKey,
+    setOrderEditorInitialTriggerPrice,
+    tokensData,
+    trailingStops,
+  ]);
+
+  const getContextMenuItems = useCallback(
+    (price: number) => {
+      if (!account || !chartToken) {
+        return [];
+      }
+
+      const alertPrice = parseValue(price.toFixed(oraclePriceDecimals), USD_DECIMALS);
+
+      if (alertPrice === undefined || alertPrice <= 0) {
+        return [];
+      }
+
+      const formattedPrice = formatUsdPrice(alertPrice);
+
+      return [
+        {
+          position: "top" as const,
+          text: t`Alert when ${chartToken.symbol} crosses ${formattedPrice}`,
+          click: () => {
+            requestNotificationPermission();
+            addPriceAlert({
+              type: "price",
+              tokenAddress: chartToken.address,
+              direction: getPriceAlertDirection(getMidPrice(chartToken.prices), alertPrice),
+              price: alertPrice,
+            });
+            helperToast.success(t`Price alert created`);
+          },
+        },
+      ];
+    },
+    [account, addPriceAlert, chartToken, oraclePriceDecimals]
+  );
 
   function onSelectChartToken(token: Token) {
     setToTokenAddress(token.address);
@@ -174,11 +360,14 @@ export function TVChart() {
 
   return (
     <div className="ExchangeChart tv">
-      <TVChartHeader isMobile={isMobile} />
+      <TVChartHeader isMobile={isMobile} chart={tvChart} />
       <div className="ExchangeChart-bottom App-box App-box-border">
         {chartToken && (
           <TVChartContainer
             chartLines={chartLines}
+            chartMarkers={chartMarkers}
+            chartZones={chartZones}
+            getContextMenuItems={getContextMenuItems}
             symbol={chartToken.symbol}
             chainId={chainId}
             onSelectToken={onSelectChartToken}
@@ -188,6 +377,8 @@ export function TVChart() {
             chartToken={chartTokenProp}
             supportedResolutions={SUPPORTED_RESOLUTIONS_V2}
             oraclePriceDecimals={oraclePriceDecimals}
+            onChartReady={setTvChart}
+            studyMarketAddress={studyMarketAddress}
           />
         )}
       </div>
@@ -20,12 +20,14 @@ import ChartTokenSelector from "../ChartTokenSelector/ChartTokenSelector";
 import { useChartHeaderFormattedValues } from "./useChartHeaderFormattedValues";
 import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
 import { renderNetFeeHeaderTooltipContent } from "../MarketsList/NetFeeHeaderTooltipContent";
+import type { TVChartHandle } from "components/TVChartContainer/TVChartContainer";
+import { ChartWorkspaceSelector } from "./components/ChartWorkspaceSelector";
 
 const MIN_FADE_AREA = 24; //px
 const MAX_SCROLL_LEFT_TO_END_AREA = 50; //px
 const MIN_SCROLL_END_SPACE = 5; // px
 
-function TVChartHeaderInfoMobile() {
+function TVChartHeaderInfoMobile({ chart }: { chart: TVChartHandle | undefined }) {
   const chartToken = useSelector(selectChartToken);
   const { isSwap } = useSelector(selectTradeboxTradeFlags);
   const availableTokens = useSelector(selectAvailableChartTokens);
@@ -197,8 +199,9 @@ function TVChartHeaderInfoMobile() {
             <div className="ExchangeChart-daily-change">{dayPriceDelta}</div>
           </div>
         </div>
-        <div className="flex items-start justify-center">
+        <div className="flex flex-col items-center gap-8">
           <VersionSwitch />
+          <ChartWorkspaceSelector chart={chart} />
         </div>
       </div>
       {details}
@@ -206,7 +209,7 @@ function TVChartHeaderInfoMobile() {
   );
 }
 
-function TVChartHeaderInfoDesktop() {
+function TVChartHeaderInfoDesktop({ chart }: { chart: TVChartHandle | undefined }) {
   const chartToken = useSelector(selectChartToken);
   const { isSwap } = useSelector(selectTradeboxTradeFlags);
 
@@ -463,13 +466,14 @@ function TVChartHeaderInfoDesktop() {
           {additionalInfo}
         </div>
       </div>
-      <div className="ExchangeChart-info VersionSwitch-wrapper">
+      <div className="ExchangeChart-info VersionSwitch-wrapper flex items-center gap-16">
+        <ChartWorkspaceSelector chart={chart} />
         <VersionSwitch />
       </div>
     </div>
   );
 }
 
-export function TVChartHeader({ isMobile }: { isMobile: boolean }) {
-  return isMobile ? <TVChartHeaderInfoMobile /> : <TVChartHeaderInfoDesktop />;
+export function TVChartHeader({ isMobile, chart }: { isMobile: boolean; chart: TVChartHandle | undefined }) {
+  return isMobile ? <TVChartHeaderInfoMobile chart={chart} /> : <TVChartHeaderInfoDesktop chart={chart} />;
 }
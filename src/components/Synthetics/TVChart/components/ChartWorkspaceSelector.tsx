@@ -0,0 +1,339 @@
+import { autoUpdate, flip, FloatingPortal, offset, shift, useFloating } from "@floating-ui/react";
+import { Menu } from "@headlessui/react";
+import { t, Trans } from "@lingui/macro";
+import { ChangeEvent, useCallback, useRef, useState } from "react";
+import { FaChevronDown } from "react-icons/fa";
+import { MdDeleteOutline } from "react-icons/md";
+import { RiFileDownloadLine } from "react-icons/ri";
+
+import {
+  selectTradeboxAdvancedOptions,
+  selectTradeboxCollateralTokenAddress,
+  selectTradeboxFromTokenAddress,
+  selectTradeboxIsLeverageEnabled,
+  selectTradeboxKeepLeverage,
+  selectTradeboxLeverageOption,
+  selectTradeboxMarketAddress,
+  selectTradeboxSetAdvancedOptions,
+  selectTradeboxSetIsLeverageEnabled,
+  selectTradeboxSetKeepLeverage,
+  selectTradeboxSetLeverageOption,
+  selectTradeboxSetTradeConfig,
+  selectTradeboxToTokenAddress,
+  selectTradeboxTradeMode,
+  selectTradeboxTradeType,
+} from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import {
+  ChartWorkspace,
+  ChartWorkspaceTradeSettings,
+  getChartWorkspaceFileSigner,
+  getChartWorkspaceSigningMessage,
+  migrateChartWorkspace,
+  parseChartWorkspaceFile,
+  SignedChartWorkspaceFile,
+} from "domain/synthetics/chartWorkspaces";
+import { useChartWorkspaces } from "domain/synthetics/chartWorkspaces/useChartWorkspaces";
+import { useChainId } from "lib/chains";
+import { downloadAsJson } from "lib/downloadFile";
+import { helperToast } from "lib/helperToast";
+import { shortenAddress } from "lib/legacy";
+import { useTradePageVersion } from "lib/useTradePageVersion";
+import useWallet from "lib/wallets/useWallet";
+
+import Button from "components/Button/Button";
+import Modal from "components/Modal/Modal";
+import type { TVChartHandle } from "components/TVChartContainer/TVChartContainer";
+
+function getWidgetState(chart: TVChartHandle) {
+  return new Promise<object>((resolve) => chart.widget.save(resolve));
+}
+
+export function ChartWorkspaceSelector({ chart }: { chart: TVChartHandle | undefined }) {
+  const { chainId } = useChainId();
+  const { account, signer } = useWallet();
+  const [appVersion] = useTradePageVersion();
+  const { workspaces, activeWorkspace, saveWorkspace, deleteWorkspace, setActiveWorkspaceId } = useChartWorkspaces();
+  const [isSaveModalVisible, setIsSaveModalVisible] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tradeType = useSelector(selectTradeboxTradeType);
+  const tradeMode = useSelector(selectTradeboxTradeMode);
+  const fromTokenAddress = useSelector(selectTradeboxFromTokenAddress);
+  const toTokenAddress = useSelector(selectTradeboxToTokenAddress);
+  const marketAddress = useSelector(selectTradeboxMarketAddress);
+  const collateralAddress = useSelector(selectTradeboxCollateralTokenAddress);
+  const leverageOption = useSelector(selectTradeboxLeverageOption);
+  const isLeverageEnabled = useSelector(selectTradeboxIsLeverageEnabled);
+  const keepLeverage = useSelector(selectTradeboxKeepLeverage);
+  const advancedOptions = useSelector(selectTradeboxAdvancedOptions);
+  const setTradeConfig = useSelector(selectTradeboxSetTradeConfig);
+  const setLeverageOption = useSelector(selectTradeboxSetLeverageOption);
+  const setIsLeverageEnabled = useSelector(selectTradeboxSetIsLeverageEnabled);
+  const setKeepLeverage = useSelector(selectTradeboxSetKeepLeverage);
+  const setAdvancedOptions = useSelector(selectTradeboxSetAdvancedOptions);
+
+  const { refs, floatingStyles } = useFloating({
+    middleware: [offset({ mainAxis: 8 }), flip(), shift()],
+    placement: "bottom-end",
+    whileElementsMounted: autoUpdate,
+  });
+
+  const applyWorkspace = useCallback(
+    (workspace: ChartWorkspace) => {
+      if (!chart) return;
+
+      const { tradeSettings } = workspace;
+
+      chart.saveLoadAdapter.importTemplates(workspace.studyTemplates, workspace.drawingTemplates);
+      chart.widget.load(workspace.chartState);
+
+      setTradeConfig({
+        tradeType: tradeSettings.tradeType,
+        tradeMode: tradeSettings.tradeMode,
+        fromTokenAddress: tradeSettings.fromTokenAddress,
+        toTokenAddress: tradeSettings.toTokenAddress,
+        marketAddress: tradeSettings.marketAddress,
+        collateralAddress: tradeSettings.collateralAddress,
+      });
+      if (tradeSettings.leverageOption !== undefined) setLeverageOption(tradeSettings.leverageOption);
+      if (tradeSettings.isLeverageEnabled !== undefined) setIsLeverageEnabled(tradeSettings.isLeverageEnabled);
+      if (tradeSettings.keepLeverage !== undefined) setKeepLeverage(tradeSettings.keepLeverage);
+      if (tradeSettings.advancedOptions) setAdvancedOptions(tradeSettings.advancedOptions);
+
+      setActiveWorkspaceId(workspace.id);
+    },
+    [
+      chart,
+      setActiveWorkspaceId,
+      setAdvancedOptions,
+      setIsLeverageEnabled,
+      setKeepLeverage,
+      setLeverageOption,
+      setTradeConfig,
+    ]
+  );
+
+  const handleOpenSaveModal = useCallback(() => {
+    setWorkspaceName(activeWorkspace?.name ?? "");
+    setIsSaveModalVisible(true);
+  }, [activeWorkspace?.name]);
+
+  const handleSave = useCallback(async () => {
+    const name = workspaceName.trim();
+
+    if (!chart || !name) return;
+
+    const tradeSettings: ChartWorkspaceTradeSettings = {
+      tradeType,
+      tradeMode,
+      fromTokenAddress,
+      toTokenAddress,
+      marketAddress,
+      collateralAddress,
+      leverageOption,
+      isLeverageEnabled,
+      keepLeverage,
+      advancedOptions,
+    };
+
+    saveWorkspace({
+      name,
+      appVersion,
+      chainId,
+      chartState: await getWidgetState(chart),
+      studyTemplates: chart.saveLoadAdapter.studyTemplates,
+      drawingTemplates: chart.saveLoadAdapter.drawingTemplates,
+      tradeSettings,
+    });
+    setIsSaveModalVisible(false);
+  }, [
+    advancedOptions,
+    appVersion,
+    chainId,
+    chart,
+    collateralAddress,
+    fromTokenAddress,
+    isLeverageEnabled,
+    keepLeverage,
+    leverageOption,
+    marketAddress,
+    saveWorkspace,
+    toTokenAddress,
+    tradeMode,
+    tradeType,
+    workspaceName,
+  ]);
+
+  const handleExport = useCallback(
+    async (workspace: ChartWorkspace) => {
+      if (!signer || !account) {
+        helperToast.error(t`Connect a wallet to sign the workspace`);
+        return;
+      }
+
+      try {
+        const signature = await signer.signMessage(getChartWorkspaceSigningMessage(workspace));
+        const file: SignedChartWorkspaceFile = { workspace, signer: account, signature };
+
+        downloadAsJson(`chart-workspace-${workspace.name.replace(/\W+/g, "-").toLowerCase()}`, file);
+      } catch (e) {
+        helperToast.error(t`Workspace was not signed`);
+      }
+    },
+    [account, signer]
+  );
+
+  const handleImportClick = useCallback(() => fileInputRef.current?.click(), []);
+
+  const handleImport = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const fileContent = await e.target.files?.[0]?.text();
+      e.target.value = "";
+
+      const file = fileContent !== undefined ? parseChartWorkspaceFile(fileContent) : undefined;
+
+      if (!file) {
+        helperToast.error(t`Invalid workspace file`);
+        return;
+      }
+
+      const fileSigner = getChartWorkspaceFileSigner(file);
+
+      if (!fileSigner) {
+        helperToast.error(t`Workspace signature doesn't match its content`);
+        return;
+      }
+
+      const workspace = migrateChartWorkspace(file.workspace, { chainId, appVersion });
+
+      if (!workspace) {
+        helperToast.error(t`Workspace was saved by a newer version of the app`);
+        return;
+      }
+
+      applyWorkspace(saveWorkspace(workspace));
+      helperToast.success(t`Workspace "${workspace.name}" signed by ${shortenAddress(fileSigner, 13)} imported`);
+    },
+    [appVersion, applyWorkspace, chainId, saveWorkspace]
+  );
+
+  const handleNameChange = useCallback((e: ChangeEvent<HTMLInputElement>) => setWorkspaceName(e.target.value), []);
+
+  return (
+    <>
+      <Menu>
+        <Menu.Button as="div" ref={refs.setReference}>
+          <span className="flex cursor-pointer items-center gap-4 whitespace-nowrap text-[1.25rem] opacity-70 hover:opacity-100">
+            {activeWorkspace?.name ?? <Trans>Workspaces</Trans>}
+            <FaChevronDown fontSize={10} />
+          </span>
+        </Menu.Button>
+        <FloatingPortal>
+          <Menu.Items as="div" className="menu-items" ref={refs.setFloating} style={floatingStyles}>
+            {workspaces.map((workspace) => (
+              <ChartWorkspaceItem
+                key={workspace.id}
+                workspace={workspace}
+                disabled={!chart}
+                isActive={workspace.id === activeWorkspace?.id}
+                onApply={applyWorkspace}
+                onExport={handleExport}
+                onDelete={deleteWorkspace}
+              />
+            ))}
+            {workspaces.length === 0 && (
+              <div className="menu-item text-gray-300">
+                <Trans>No saved workspaces</Trans>
+              </div>
+            )}
+            <Menu.Item disabled={!chart}>
+              <div className="menu-item" onClick={chart ? handleOpenSaveModal : undefined}>
+                <Trans>Save current workspace</Trans>
+              </div>
+            </Menu.Item>
+            <Menu.Item disabled={!chart}>
+              <div className="menu-item" onClick={chart ? handleImportClick : undefined}>
+                <Trans>Import workspace</Trans>
+              </div>
+            </Menu.Item>
+          </Menu.Items>
+        </FloatingPortal>
+      </Menu>
+      <input ref={fileInputRef} type="file" accept="application/json" className="hidden" onChange={handleImport} />
+      <Modal isVisible={isSaveModalVisible} setIsVisible={setIsSaveModalVisible} label={t`Save Chart Workspace`}>
+        <div className="mb-15 text-gray-300">
+          <Trans>
+            The chart layout with drawings, study and drawing templates, the selected market and the trade box settings
+            are saved.
+          </Trans>
+        </div>
+        <input
+          type="text"
+          className="text-input mb-15 w-full"
+          placeholder={t`Workspace name`}
+          value={workspaceName}
+          onChange={handleNameChange}
+        />
+        <Button className="w-full" variant="primary-action" disabled={!workspaceName.trim()} onClick={handleSave}>
+          <Trans>Save</Trans>
+        </Button>
+      </Modal>
+    </>
+  );
+}
+
+function ChartWorkspaceItem({
+  workspace,
+  disabled,
+  isActive,
+  onApply,
+  onExport,
+  onDelete,
+}: {
+  workspace: ChartWorkspace;
+  disabled: boolean;
+  isActive: boolean;
+  onApply: (workspace: ChartWorkspace) => void;
+  onExport: (workspace: ChartWorkspace) => void;
+  onDelete: (id: string) => void;
+}) {
+  const handleApply = useCallback(() => onApply(workspace), [onApply, workspace]);
+
+  const handleExport = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onExport(workspace);
+    },
+    [onExport, workspace]
+  );
+
+  const handleDelete = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onDelete(workspace.id);
+    },
+    [onDelete, workspace.id]
+  );
+
+  return (
+    <Menu.Item disabled={disabled}>
+      <div className="menu-item justify-between gap-10" onClick={disabled ? undefined : handleApply}>
+        <span className={isActive ? "text-white" : "text-gray-300"}>{workspace.name}</span>
+        <span className="flex items-center gap-8">
+          <RiFileDownloadLine
+            fontSize={16}
+            className="cursor-pointer text-gray-300 hover:text-white"
+            onClick={handleExport}
+          />
+          <MdDeleteOutline
+            fontSize={16}
+            className="cursor-pointer text-gray-300 hover:text-white"
+            onClick={handleDelete}
+          />
+        </span>
+      </div>
+    </Menu.Item>
+  );
+}
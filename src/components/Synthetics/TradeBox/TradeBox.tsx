@@ -99,8 +99,10 @@ import useWallet from "lib/wallets/useWallet";
 import TokenIcon from "components/TokenIcon/TokenIcon";
 import { ExecutionPriceRow } from "../ExecutionPriceRow";
 import { NetworkFeeRow } from "../NetworkFeeRow/NetworkFeeRow";
+import { OrderSimulationPreview } from "../OrderSimulationPreview/OrderSimulationPreview";
 import { SwapCard } from "../SwapCard/SwapCard";
 import { TradeFeesRow } from "../TradeFeesRow/TradeFeesRow";
+import { TrailingStopRow } from "../TrailingStopRow/TrailingStopRow";
 import { MarketPoolSelectorRow } from "./MarketPoolSelectorRow";
 import { CollateralSelectorRow } from "./TradeBoxRows/CollateralSelectorRow";
 
@@ -132,9 +134,13 @@ import SuggestionInput from "components/SuggestionInput/SuggestionInput";
 
 import { TradeBoxAdvancedGroups } from "./TradeBoxRows/AdvancedDisplayRows";
 import { LimitAndTPSLGroup } from "./TradeBoxRows/LimitAndTPSLRows";
+import { ScaledOrderRows } from "./TradeBoxRows/ScaledOrderRows";
+import { TwapRows } from "./TradeBoxRows/TwapRows";
 import { LimitPriceRow } from "./TradeBoxRows/LimitPriceRow";
 import { MinReceiveRow } from "./TradeBoxRows/MinReceiveRow";
 import { TradeBoxOneClickTrading } from "./TradeBoxRows/OneClickTrading";
+import { PaperTradingRows } from "./TradeBoxRows/PaperTradingRows";
+import { SwapSplitRow } from "./TradeBoxRows/SwapSplitRow";
 
 import LongIcon from "img/long.svg?react";
 import ShortIcon from "img/short.svg?react";
@@ -221,6 +227,8 @@ export function TradeBox(p: Props) {
     setTriggerPriceInputValue,
     triggerRatioInputValue,
     setTriggerRatioInputValue,
+    trailingStopBps,
+    setTrailingStopBps,
     leverageInputValue,
     setLeverageInputValue,
     leverageOption,
@@ -717,8 +725,9 @@ export function TradeBox(p: Props) {
   useEffect(
     function resetTriggerPrice() {
       setTriggerPriceInputValue("");
+      setTrailingStopBps(undefined);
     },
-    [setTriggerPriceInputValue, toTokenAddress, tradeMode]
+    [setTriggerPriceInputValue, setTrailingStopBps, toTokenAddress, tradeMode]
   );
 
   useEffect(
@@ -751,9 +760,10 @@ export function TradeBox(p: Props) {
     }
   }
 
-  const { onSubmitWrapOrUnwrap, onSubmitSwap, onSubmitIncreaseOrder, onSubmitDecreaseOrder } = useTradeboxTransactions({
-    setPendingTxns,
-  });
+  const { onSubmitWrapOrUnwrap, onSubmitSwap, onSubmitIncreaseOrder, onSubmitDecreaseOrder, runIncreaseSimulation } =
+    useTradeboxTransactions({
+      setPendingTxns,
+    });
 
   const onSubmit = useCallback(async () => {
     if (!account) {
@@ -1252,6 +1262,17 @@ export function TradeBox(p: Props) {
 
     return (
       <>
+        {selectedPosition && (
+          <TrailingStopRow
+            trailingStopBps={trailingStopBps}
+            setTrailingStopBps={setTrailingStopBps}
+            setTriggerPriceInputValue={setTriggerPriceInputValue}
+            markPrice={markPrice}
+            isLong={isLong}
+            priceDecimals={marketDecimals}
+          />
+        )}
+
         <ExchangeInfoRow label={t`Trigger Price`} value={formattedTriggerPrice} />
 
         <ExecutionPriceRow
@@ -1371,8 +1392,13 @@ export function TradeBox(p: Props) {
 
               <ExchangeInfo.Group>{isPosition && renderPositionControls()}</ExchangeInfo.Group>
               <ExchangeInfo.Group>
+                <PaperTradingRows />
                 <TradeBoxOneClickTrading />
               </ExchangeInfo.Group>
+              <ExchangeInfo.Group>
+                {isMarket && (isSwap || isIncrease) && !isWrapOrUnwrap && <TwapRows />}
+                {isLimit && isIncrease && <ScaledOrderRows />}
+              </ExchangeInfo.Group>
               <ExchangeInfo.Group>
                 <LimitAndTPSLGroup />
               </ExchangeInfo.Group>
@@ -1392,6 +1418,22 @@ export function TradeBox(p: Props) {
                 <NetworkFeeRow executionFee={executionFee} />
               </ExchangeInfo.Group>
 
+              {isIncrease && (
+                <ExchangeInfo.Group>
+                  <OrderSimulationPreview
+                    inputsKey={`${tradeMode}-${fromTokenAddress}-${fromTokenInputValue}-${toTokenInputValue}-${marketInfo?.marketTokenAddress}-${collateralToken?.address}-${triggerPriceInputValue}`}
+                    runSimulation={buttonErrorText ? undefined : runIncreaseSimulation}
+                    position={selectedPosition}
+                    marketInfo={marketInfo}
+                    collateralToken={collateralToken}
+                    isLong={isLong}
+                    nextPositionValues={nextPositionValues}
+                    fees={fees}
+                    marketDecimals={marketDecimals}
+                  />
+                </ExchangeInfo.Group>
+              )}
+
               {isTrigger && selectedPosition && decreaseAmounts?.receiveUsd !== undefined && (
                 <ExchangeInfo.Group>
                   <ExchangeInfoRow
@@ -1408,6 +1450,7 @@ export function TradeBox(p: Props) {
 
               {isSwap && (
                 <ExchangeInfo.Group>
+                  <SwapSplitRow />
                   <MinReceiveRow allowedSlippage={allowedSlippage} />
                 </ExchangeInfo.Group>
               )}
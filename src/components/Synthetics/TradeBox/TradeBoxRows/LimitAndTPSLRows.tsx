@@ -15,6 +15,7 @@ import { USD_DECIMALS } from "config/factors";
 import { formatAmount, formatPercentage, formatUsd } from "lib/numbers";
 import { useCallback, useMemo } from "react";
 import { SideOrderEntries } from "../components/SideOrderEntries";
+import { SidecarOrderTemplates } from "../components/SidecarOrderTemplates";
 import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
 import { selectSelectedMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
 
@@ -115,6 +116,7 @@ export function LimitAndTPSLRows() {
   return (
     <>
       {limitGroup && <div className="mb-8">{limitGroup}</div>}
+      <SidecarOrderTemplates />
       {renderSideOrders("takeProfit")}
       {renderSideOrders("stopLoss")}
     </>
@@ -2,6 +2,7 @@ import { Trans } from "@lingui/macro";
 import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
 import {
   selectTradeboxSwapAmounts,
+  selectTradeboxSwapSplit,
   selectTradeboxToToken,
   selectTradeboxTradeFlags,
 } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
@@ -12,6 +13,7 @@ import { formatTokenAmount } from "lib/numbers";
 export function MinReceiveRow({ allowedSlippage }: { allowedSlippage: number }) {
   const { isMarket, isSwap } = useSelector(selectTradeboxTradeFlags);
   const swapAmounts = useSelector(selectTradeboxSwapAmounts);
+  const swapSplit = useSelector(selectTradeboxSwapSplit);
 
   const toToken = useSelector(selectTradeboxToToken);
 
@@ -19,15 +21,15 @@ export function MinReceiveRow({ allowedSlippage }: { allowedSlippage: number })
     return null;
   }
 
+  const minOutputAmount = swapSplit
+    ? swapSplit.legs.reduce((acc, leg) => acc + leg.minOutputAmount, 0n)
+    : swapAmounts?.minOutputAmount;
+
   return (
     <ExchangeInfo.Row label={<Trans>Min. Receive</Trans>}>
-      {isMarket && swapAmounts?.minOutputAmount
-        ? formatTokenAmount(
-            applySlippageToMinOut(allowedSlippage, swapAmounts.minOutputAmount),
-            toToken?.decimals,
-            toToken?.symbol
-          )
-        : formatTokenAmount(swapAmounts?.minOutputAmount, toToken?.decimals, toToken?.symbol)}
+      {isMarket && minOutputAmount !== undefined && minOutputAmount !== 0n
+        ? formatTokenAmount(applySlippageToMinOut(allowedSlippage, minOutputAmount), toToken?.decimals, toToken?.symbol)
+        : formatTokenAmount(minOutputAmount, toToken?.decimals, toToken?.symbol)}
     </ExchangeInfo.Row>
   );
 }
@@ -0,0 +1,66 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback, useMemo } from "react";
+
+import Button from "components/Button/Button";
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import ToggleSwitch from "components/ToggleSwitch/ToggleSwitch";
+import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
+import { useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { usePaperTrading } from "domain/synthetics/paperTrading/usePaperTrading";
+import { PAPER_TRADING_INITIAL_BALANCE_USD } from "domain/synthetics/paperTrading/utils";
+import { convertToUsd } from "domain/synthetics/tokens";
+import { formatUsd } from "lib/numbers";
+
+export function PaperTradingRows() {
+  const { isPaperTradingEnabled, setIsPaperTradingEnabled, resetPaperAccount } = usePaperTrading();
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const tokensData = useTokensData();
+
+  const balanceUsd = useMemo(() => {
+    if (!isPaperTrading || !tokensData) {
+      return undefined;
+    }
+
+    return Object.values(tokensData).reduce(
+      (acc, token) => acc + (convertToUsd(token.balance, token.decimals, token.prices.minPrice) ?? 0n),
+      0n
+    );
+  }, [isPaperTrading, tokensData]);
+
+  const renderTooltipContent = useCallback(
+    () => (
+      <Trans>
+        Practice with a virtual account of ${PAPER_TRADING_INITIAL_BALANCE_USD} USDC. Orders are executed locally
+        against live prices and positions accrue funding and borrowing fees, no transactions are sent.
+      </Trans>
+    ),
+    []
+  );
+
+  return (
+    <>
+      <ToggleSwitch
+        textClassName="Exchange-info-label"
+        isChecked={isPaperTradingEnabled}
+        setIsChecked={setIsPaperTradingEnabled}
+      >
+        <TooltipWithPortal handle={t`Paper Trading`} position="top-start" renderContent={renderTooltipContent} />
+      </ToggleSwitch>
+      {isPaperTrading && (
+        <ExchangeInfoRow
+          label={t`Paper Balance`}
+          value={
+            <span className="flex flex-row items-center gap-8">
+              {formatUsd(balanceUsd)}
+              <Button variant="link" type="button" onClick={resetPaperAccount}>
+                <Trans>Reset</Trans>
+              </Button>
+            </span>
+          }
+        />
+      )}
+    </>
+  );
+}
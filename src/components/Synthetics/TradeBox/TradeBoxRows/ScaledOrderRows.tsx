@@ -0,0 +1,141 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback, useMemo } from "react";
+
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import SuggestionInput from "components/SuggestionInput/SuggestionInput";
+import Tab from "components/Tab/Tab";
+import ToggleSwitch from "components/ToggleSwitch/ToggleSwitch";
+import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
+import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+import { selectSelectedMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
+import {
+  selectTradeboxScaledOrderOptions,
+  selectTradeboxScaledOrders,
+  selectTradeboxSetScaledOrderOptions,
+} from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import {
+  MAX_SCALED_ORDERS_COUNT,
+  MIN_SCALED_ORDERS_COUNT,
+  ScaledOrderDistribution,
+} from "domain/synthetics/trade/utils/scaledOrders";
+import { formatPercentage, formatUsd } from "lib/numbers";
+
+const DISTRIBUTIONS: ScaledOrderDistribution[] = ["linear", "geometric"];
+
+export function ScaledOrderRows() {
+  const scaledOrderOptions = useSelector(selectTradeboxScaledOrderOptions);
+  const setScaledOrderOptions = useSelector(selectTradeboxSetScaledOrderOptions);
+  const scaledOrders = useSelector(selectTradeboxScaledOrders);
+  const priceDecimals = useSelector(selectSelectedMarketPriceDecimals);
+
+  const distributionLabels = useMemo(() => ({ linear: t`Linear`, geometric: t`Geometric` }), []);
+
+  const setIsEnabled = useCallback(
+    (enabled: boolean) => setScaledOrderOptions((prev) => ({ ...prev, enabled })),
+    [setScaledOrderOptions]
+  );
+
+  const setToPrice = useCallback(
+    (toPriceInputValue: string) => setScaledOrderOptions((prev) => ({ ...prev, toPriceInputValue })),
+    [setScaledOrderOptions]
+  );
+
+  const setOrdersCount = useCallback(
+    (ordersCountInputValue: string) => setScaledOrderOptions((prev) => ({ ...prev, ordersCountInputValue })),
+    [setScaledOrderOptions]
+  );
+
+  const setDistribution = useCallback(
+    (distribution: ScaledOrderDistribution) => setScaledOrderOptions((prev) => ({ ...prev, distribution })),
+    [setScaledOrderOptions]
+  );
+
+  const renderTooltipContent = useCallback(
+    () => (
+      <Trans>
+        Places {MIN_SCALED_ORDERS_COUNT}-{MAX_SCALED_ORDERS_COUNT} limit orders evenly spaced between the limit price
+        and the "to" price. Linear distribution sizes all orders equally, geometric distribution puts more size on the
+        orders further from the limit price.
+      </Trans>
+    ),
+    []
+  );
+
+  const renderLevelsContent = useCallback(
+    () =>
+      scaledOrders?.map((level, i) => (
+        <StatsTooltipRow
+          key={i}
+          label={formatUsd(level.price, { displayDecimals: priceDecimals })}
+          value={formatPercentage(level.shareBps)}
+          showDollar={false}
+        />
+      )),
+    [priceDecimals, scaledOrders]
+  );
+
+  return (
+    <>
+      <ToggleSwitch
+        textClassName="Exchange-info-label"
+        isChecked={scaledOrderOptions.enabled}
+        setIsChecked={setIsEnabled}
+      >
+        <TooltipWithPortal handle={t`Scaled Orders`} position="top-start" renderContent={renderTooltipContent} />
+      </ToggleSwitch>
+      {scaledOrderOptions.enabled && (
+        <>
+          <ExchangeInfoRow
+            label={t`To Price`}
+            value={
+              <SuggestionInput
+                inputClassName="w-96 text-right"
+                value={scaledOrderOptions.toPriceInputValue}
+                setValue={setToPrice}
+                placeholder="0.0"
+                symbol="USD"
+                isError={!scaledOrders}
+              />
+            }
+          />
+          <ExchangeInfoRow
+            label={t`Orders`}
+            value={
+              <SuggestionInput
+                inputClassName="w-48 text-right"
+                value={scaledOrderOptions.ordersCountInputValue}
+                setValue={setOrdersCount}
+                isError={!scaledOrders}
+              />
+            }
+          />
+          <ExchangeInfoRow
+            label={t`Distribution`}
+            value={
+              <Tab
+                type="inline"
+                options={DISTRIBUTIONS}
+                optionLabels={distributionLabels}
+                option={scaledOrderOptions.distribution}
+                onChange={setDistribution}
+              />
+            }
+          />
+          {scaledOrders && (
+            <ExchangeInfoRow
+              label={t`Levels`}
+              value={
+                <TooltipWithPortal
+                  handle={t`${scaledOrders.length} orders`}
+                  position="top-end"
+                  renderContent={renderLevelsContent}
+                />
+              }
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+import { Trans, t } from "@lingui/macro";
+import { Fragment, useCallback } from "react";
+
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import StatsTooltipRow from "components/StatsTooltip/StatsTooltipRow";
+import Tooltip from "components/Tooltip/Tooltip";
+import { selectMarketsInfoData } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import {
+  selectTradeboxSwapAmounts,
+  selectTradeboxSwapSplit,
+  selectTradeboxToToken,
+} from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { getMarketFullName } from "domain/synthetics/markets";
+import { formatDeltaUsd, formatPercentage, formatTokenAmount, getBasisPoints } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import { getPositiveOrNegativeClass } from "lib/utils";
+
+export function SwapSplitRow() {
+  const swapSplit = useSelector(selectTradeboxSwapSplit);
+  const swapAmounts = useSelector(selectTradeboxSwapAmounts);
+  const marketsInfoData = useSelector(selectMarketsInfoData);
+  const toToken = useSelector(selectTradeboxToToken);
+
+  const renderContent = useCallback(() => {
+    if (!swapSplit) {
+      return null;
+    }
+
+    return (
+      <div>
+        <Trans>
+          Splitting the swap across several paths reduces the total price impact. Each path is submitted as a separate
+          order.
+        </Trans>
+        <br />
+        {swapSplit.legs.map((leg, index) => {
+          const marketNames = leg.swapPathStats.swapPath
+            .map((marketAddress) => getByKey(marketsInfoData, marketAddress))
+            .map((marketInfo) => (marketInfo ? getMarketFullName(marketInfo) : "..."))
+            .join(" → ");
+          const totalUsdIn = swapSplit.legs.reduce((acc, leg) => acc + leg.usdIn, 0n);
+          const impactBps =
+            leg.usdIn > 0 ? getBasisPoints(leg.swapPathStats.totalSwapPriceImpactDeltaUsd, leg.usdIn) : undefined;
+
+          return (
+            <Fragment key={leg.swapPathStats.swapPath.join("-")}>
+              <br />
+              <StatsTooltipRow
+                label={t`Path ${index + 1} (${formatPercentage(getBasisPoints(leg.usdIn, totalUsdIn))})`}
+                value={marketNames}
+                showDollar={false}
+              />
+              <StatsTooltipRow
+                label={t`Price Impact`}
+                value={formatDeltaUsd(leg.swapPathStats.totalSwapPriceImpactDeltaUsd, impactBps)}
+                textClassName={getPositiveOrNegativeClass(leg.swapPathStats.totalSwapPriceImpactDeltaUsd)}
+                showDollar={false}
+              />
+              <StatsTooltipRow
+                label={t`Receive`}
+                value={formatTokenAmount(leg.swapPathStats.amountOut, toToken?.decimals, toToken?.symbol)}
+                showDollar={false}
+              />
+            </Fragment>
+          );
+        })}
+      </div>
+    );
+  }, [marketsInfoData, swapSplit, toToken?.decimals, toToken?.symbol]);
+
+  if (!swapSplit || !swapAmounts?.swapPathStats) {
+    return null;
+  }
+
+  const improvementUsd = swapSplit.usdOut - swapAmounts.swapPathStats.usdOut;
+
+  return (
+    <ExchangeInfo.Row label={t`Split Route`}>
+      <Tooltip
+        position="bottom-end"
+        handle={t`${swapSplit.legs.length} paths (${formatDeltaUsd(improvementUsd)})`}
+        renderContent={renderContent}
+      />
+    </ExchangeInfo.Row>
+  );
+}
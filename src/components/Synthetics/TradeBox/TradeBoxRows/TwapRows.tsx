@@ -0,0 +1,86 @@
+import { Trans, t } from "@lingui/macro";
+import { useCallback } from "react";
+
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import SuggestionInput from "components/SuggestionInput/SuggestionInput";
+import ToggleSwitch from "components/ToggleSwitch/ToggleSwitch";
+import TooltipWithPortal from "components/Tooltip/TooltipWithPortal";
+import {
+  selectTradeboxSetTwapOptions,
+  selectTradeboxTwapOptions,
+  selectTradeboxTwapSchedule,
+} from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { MAX_TWAP_SLICES_COUNT, MIN_TWAP_SLICES_COUNT } from "domain/synthetics/twap/utils";
+
+export function TwapRows() {
+  const twapOptions = useSelector(selectTradeboxTwapOptions);
+  const setTwapOptions = useSelector(selectTradeboxSetTwapOptions);
+  const twapSchedule = useSelector(selectTradeboxTwapSchedule);
+
+  const setIsEnabled = useCallback(
+    (enabled: boolean) => setTwapOptions((prev) => ({ ...prev, enabled })),
+    [setTwapOptions]
+  );
+
+  const setSlicesCount = useCallback(
+    (slicesCountInputValue: string) => setTwapOptions((prev) => ({ ...prev, slicesCountInputValue })),
+    [setTwapOptions]
+  );
+
+  const setDurationMinutes = useCallback(
+    (durationMinutesInputValue: string) => setTwapOptions((prev) => ({ ...prev, durationMinutesInputValue })),
+    [setTwapOptions]
+  );
+
+  const renderTooltipContent = useCallback(
+    () => (
+      <Trans>
+        Splits the order into {MIN_TWAP_SLICES_COUNT}-{MAX_TWAP_SLICES_COUNT} equal slices sent by One-Click Trading
+        over the chosen duration, so each slice takes a smaller price impact. The first slice is sent immediately.
+      </Trans>
+    ),
+    []
+  );
+
+  return (
+    <>
+      <ToggleSwitch textClassName="Exchange-info-label" isChecked={twapOptions.enabled} setIsChecked={setIsEnabled}>
+        <TooltipWithPortal handle={t`TWAP`} position="top-start" renderContent={renderTooltipContent} />
+      </ToggleSwitch>
+      {twapOptions.enabled && (
+        <>
+          <ExchangeInfoRow
+            label={t`Slices`}
+            value={
+              <SuggestionInput
+                inputClassName="w-48 text-right"
+                value={twapOptions.slicesCountInputValue}
+                setValue={setSlicesCount}
+                isError={!twapSchedule}
+              />
+            }
+          />
+          <ExchangeInfoRow
+            label={t`Duration`}
+            value={
+              <SuggestionInput
+                inputClassName="w-48 text-right"
+                value={twapOptions.durationMinutesInputValue}
+                setValue={setDurationMinutes}
+                symbol={t`min`}
+                isError={!twapSchedule}
+              />
+            }
+          />
+          {twapSchedule && (
+            <ExchangeInfoRow
+              label={t`Slice Interval`}
+              value={t`${Math.round(twapSchedule.intervalMs / 1000 / 6) / 10} min`}
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+}
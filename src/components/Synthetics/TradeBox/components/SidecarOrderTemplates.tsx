@@ -0,0 +1,148 @@
+import { autoUpdate, flip, FloatingPortal, offset, shift, useFloating } from "@floating-ui/react";
+import { Menu } from "@headlessui/react";
+import { t, Trans } from "@lingui/macro";
+import { useCallback, useMemo, useState } from "react";
+import { FaChevronDown } from "react-icons/fa";
+import { MdDeleteOutline } from "react-icons/md";
+
+import { selectTradeboxTradeFlags } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { getSidecarOrderTemplateLabel, getTemplateLevelsFromEntries } from "domain/synthetics/sidecarOrders/templates";
+import { SidecarOrderTemplate } from "domain/synthetics/sidecarOrders/types";
+import { useSidecarOrders } from "domain/synthetics/sidecarOrders/useSidecarOrders";
+import { useSidecarOrderTemplates } from "domain/synthetics/sidecarOrders/useSidecarOrderTemplates";
+
+import Button from "components/Button/Button";
+import { ExchangeInfo } from "components/Exchange/ExchangeInfo";
+import Modal from "components/Modal/Modal";
+
+export function SidecarOrderTemplates() {
+  const { stopLoss, takeProfit, applyTemplate, templateBasePrice } = useSidecarOrders();
+  const { isLong } = useSelector(selectTradeboxTradeFlags);
+  const { templates, saveTemplate, deleteTemplate } = useSidecarOrderTemplates();
+  const [isSaveModalVisible, setIsSaveModalVisible] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+
+  const { refs, floatingStyles } = useFloating({
+    middleware: [offset({ mainAxis: 8 }), flip(), shift()],
+    placement: "bottom-end",
+    whileElementsMounted: autoUpdate,
+  });
+
+  const currentLevels = useMemo(() => {
+    if (templateBasePrice === undefined) {
+      return undefined;
+    }
+
+    const params = { basePrice: templateBasePrice, isLong };
+
+    return {
+      tp: getTemplateLevelsFromEntries(takeProfit.entries, params),
+      sl: getTemplateLevelsFromEntries(stopLoss.entries, params),
+    };
+  }, [templateBasePrice, isLong, takeProfit.entries, stopLoss.entries]);
+
+  const canSave = currentLevels !== undefined && (currentLevels.tp.length > 0 || currentLevels.sl.length > 0);
+  const isTemplateApplicable = templateBasePrice !== undefined;
+
+  const handleOpenSaveModal = useCallback(() => setIsSaveModalVisible(true), []);
+
+  const handleSave = useCallback(() => {
+    if (!currentLevels || !templateName.trim()) return;
+
+    saveTemplate({ name: templateName.trim(), ...currentLevels });
+    setTemplateName("");
+    setIsSaveModalVisible(false);
+  }, [currentLevels, saveTemplate, templateName]);
+
+  const handleNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => setTemplateName(e.target.value), []);
+
+  return (
+    <>
+      <ExchangeInfo.Row className="swap-box-info-row" label={t`Templates`}>
+        <Menu>
+          <Menu.Button as="div" ref={refs.setReference}>
+            <span className="flex cursor-pointer items-center gap-4">
+              <Trans>Select</Trans>
+              <FaChevronDown fontSize={10} />
+            </span>
+          </Menu.Button>
+          <FloatingPortal>
+            <Menu.Items as="div" className="menu-items" ref={refs.setFloating} style={floatingStyles}>
+              {templates.map((template) => (
+                <SidecarOrderTemplateItem
+                  key={template.id}
+                  template={template}
+                  disabled={!isTemplateApplicable}
+                  onApply={applyTemplate}
+                  onDelete={deleteTemplate}
+                />
+              ))}
+              {templates.length === 0 && (
+                <div className="menu-item text-gray-300">
+                  <Trans>No saved templates</Trans>
+                </div>
+              )}
+              <Menu.Item disabled={!canSave}>
+                <div className="menu-item" onClick={canSave ? handleOpenSaveModal : undefined}>
+                  <Trans>Save current as template</Trans>
+                </div>
+              </Menu.Item>
+            </Menu.Items>
+          </FloatingPortal>
+        </Menu>
+      </ExchangeInfo.Row>
+      <Modal isVisible={isSaveModalVisible} setIsVisible={setIsSaveModalVisible} label={t`Save TP/SL Template`}>
+        <div className="mb-15 text-gray-300">{currentLevels && getSidecarOrderTemplateLabel(currentLevels)}</div>
+        <input
+          type="text"
+          className="text-input mb-15 w-full"
+          placeholder={t`Template name`}
+          value={templateName}
+          onChange={handleNameChange}
+        />
+        <Button className="w-full" variant="primary-action" disabled={!templateName.trim()} onClick={handleSave}>
+          <Trans>Save</Trans>
+        </Button>
+      </Modal>
+    </>
+  );
+}
+
+function SidecarOrderTemplateItem({
+  template,
+  disabled,
+  onApply,
+  onDelete,
+}: {
+  template: SidecarOrderTemplate;
+  disabled: boolean;
+  onApply: (template: SidecarOrderTemplate) => void;
+  onDelete: (id: string) => void;
+}) {
+  const handleApply = useCallback(() => onApply(template), [onApply, template]);
+
+  const handleDelete = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onDelete(template.id);
+    },
+    [onDelete, template.id]
+  );
+
+  return (
+    <Menu.Item disabled={disabled}>
+      <div className="menu-item justify-between gap-10" onClick={disabled ? undefined : handleApply}>
+        <div>
+          <div>{template.name}</div>
+          <div className="text-12 text-gray-300">{getSidecarOrderTemplateLabel(template)}</div>
+        </div>
+        <MdDeleteOutline
+          fontSize={16}
+          className="cursor-pointer text-gray-300 hover:text-white"
+          onClick={handleDelete}
+        />
+      </div>
+    </Menu.Item>
+  );
+}
@@ -1,10 +1,17 @@
 import { useMemo } from "react";
 
+import {
+  selectTradeboxScaledOrders,
+  selectTradeboxSwapSplit,
+} from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
 import { SidecarLimitOrderEntryValid, SidecarSlTpOrderEntryValid } from "domain/synthetics/sidecarOrders/types";
 import { useSidecarEntries } from "domain/synthetics/sidecarOrders/useSidecarEntries";
 
 export function useRequiredActions() {
   const sidecarEntries = useSidecarEntries();
+  const swapSplit = useSelector(selectTradeboxSwapSplit);
+  const scaledOrders = useSelector(selectTradeboxScaledOrders);
 
   const { cancelSltpEntries, createSltpEntries, updateSltpEntries } = useMemo(() => {
     const [cancelSltpEntries, createSltpEntries, updateSltpEntries] = sidecarEntries.reduce(
@@ -25,7 +32,9 @@ export function useRequiredActions() {
     return { cancelSltpEntries, createSltpEntries, updateSltpEntries };
   }, [sidecarEntries]);
 
-  const requiredActions = 1 + cancelSltpEntries.length + createSltpEntries.length + updateSltpEntries.length;
+  const mainOrdersCount = swapSplit?.legs.length ?? scaledOrders?.length ?? 1;
+  const requiredActions =
+    mainOrdersCount + cancelSltpEntries.length + createSltpEntries.length + updateSltpEntries.length;
 
   return {
     requiredActions,
@@ -2,15 +2,25 @@ import { t } from "@lingui/macro";
 import { useSidecarOrders } from "domain/synthetics/sidecarOrders/useSidecarOrders";
 import type { TradeStage } from "domain/synthetics/trade/useTradeboxState";
 
+import { useIsSubaccountActive, useSubaccountPermissions } from "context/SubaccountContext/SubaccountContext";
 import {
+  selectTradeboxFromTokenAddress,
+  selectTradeboxIsScaledOrder,
+  selectTradeboxIsTwap,
   selectTradeboxMarkPrice,
+  selectTradeboxMarketInfo,
+  selectTradeboxScaledOrders,
+  selectTradeboxSwapAmounts,
   selectTradeboxTradeFlags,
   selectTradeboxTriggerPrice,
+  selectTradeboxTwapSchedule,
 } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { useSidecarEntries } from "domain/synthetics/sidecarOrders/useSidecarEntries";
+import { getTwapOrderPauseReason } from "domain/synthetics/twap/utils";
 import { useMemo } from "react";
 import { useDecreaseOrdersThatWillBeExecuted } from "./useDecreaseOrdersThatWillBeExecuted";
+import { useRequiredActions } from "./useRequiredActions";
 
 interface TradeboxButtonStateOptions {
   stage: TradeStage;
@@ -32,8 +42,18 @@ export function useTradeboxButtonState({
   const triggerPrice = useSelector(selectTradeboxTriggerPrice);
   const { stopLoss, takeProfit } = useSidecarOrders();
   const sidecarEntries = useSidecarEntries();
+  const { createSltpEntries, updateSltpEntries } = useRequiredActions();
+  const fromTokenAddress = useSelector(selectTradeboxFromTokenAddress);
+  const isTwap = useSelector(selectTradeboxIsTwap);
+  const twapSchedule = useSelector(selectTradeboxTwapSchedule);
+  const isScaledOrder = useSelector(selectTradeboxIsScaledOrder);
+  const scaledOrders = useSelector(selectTradeboxScaledOrders);
+  const isSubaccountActive = useIsSubaccountActive();
+  const subaccountPermissions = useSubaccountPermissions();
+  const marketAddress = useSelector(selectTradeboxMarketInfo)?.marketTokenAddress;
+  const swapPath = useSelector(selectTradeboxSwapAmounts)?.swapPathStats?.swapPath;
 
-  const { isIncrease, isLimit, isLong } = tradeFlags;
+  const { isIncrease, isLimit, isLong, isSwap } = tradeFlags;
 
   const decreaseOrdersThatWillBeExecuted = useDecreaseOrdersThatWillBeExecuted();
 
@@ -77,6 +97,79 @@ export function useTradeboxButtonState({
       }
     }
 
+    const hasSidecarOrders = createSltpEntries.length > 0 || updateSltpEntries.length > 0;
+
+    if (isTwap) {
+      if (!twapSchedule) {
+        return {
+          text: t`Invalid TWAP schedule`,
+          disabled: true,
+        };
+      }
+
+      if (!isSubaccountActive) {
+        return {
+          text: t`Enable One-Click Trading for TWAP`,
+          disabled: true,
+        };
+      }
+
+      const twapPauseReason = fromTokenAddress
+        ? getTwapOrderPauseReason(
+            isSwap
+              ? { kind: "swap", initialCollateralAddress: fromTokenAddress, swapPath: swapPath ?? [] }
+              : { kind: "increase", initialCollateralAddress: fromTokenAddress, marketAddress: marketAddress ?? "" },
+            subaccountPermissions
+          )
+        : undefined;
+
+      if (twapPauseReason === "nativePayment") {
+        return {
+          text: t`TWAP is not available for native token payments`,
+          disabled: true,
+        };
+      }
+
+      if (twapPauseReason === "subaccountPermissions") {
+        return {
+          text: t`TWAP market is not allowed by One-Click Trading`,
+          disabled: true,
+        };
+      }
+
+      if (hasSidecarOrders) {
+        return {
+          text: t`TP/SL is not available for TWAP orders`,
+          disabled: true,
+        };
+      }
+    }
+
+    if (isScaledOrder) {
+      const lastLevelPrice = scaledOrders?.at(-1)?.price;
+
+      if (lastLevelPrice === undefined) {
+        return {
+          text: t`Enter scaled orders price range`,
+          disabled: true,
+        };
+      }
+
+      if (markPrice !== undefined && (isLong ? lastLevelPrice > markPrice : lastLevelPrice < markPrice)) {
+        return {
+          text: isLong ? t`Scaled orders price above Mark Price` : t`Scaled orders price below Mark Price`,
+          disabled: true,
+        };
+      }
+
+      if (hasSidecarOrders) {
+        return {
+          text: t`TP/SL is not available for scaled orders`,
+          disabled: true,
+        };
+      }
+    }
+
     if (stage === "processing") {
       return {
         text: t`Creating Order...`,
@@ -123,5 +216,17 @@ export function useTradeboxButtonState({
     isTriggerWarningAccepted,
     error,
     account,
+    createSltpEntries.length,
+    updateSltpEntries.length,
+    fromTokenAddress,
+    isTwap,
+    twapSchedule,
+    isScaledOrder,
+    scaledOrders,
+    isSubaccountActive,
+    isSwap,
+    marketAddress,
+    swapPath,
+    subaccountPermissions,
   ]);
 }
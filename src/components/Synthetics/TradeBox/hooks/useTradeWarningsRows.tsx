@@ -3,6 +3,7 @@ import { ApproveTokenButton } from "components/ApproveTokenButton/ApproveTokenBu
 import { HighPriceImpactWarning } from "components/Synthetics/HighPriceImpactWarning/HighPriceImpactWarning";
 import { getContract } from "config/contracts";
 import { useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import {
   selectTradeboxExecutionFee,
   selectTradeboxFromTokenAddress,
@@ -29,6 +30,7 @@ export function useTradeboxWarningsRows(priceImpactWarningState: ReturnType<type
   const isWrapOrUnwrap = useSelector(selectTradeboxIsWrapOrUnwrap);
   const swapAmounts = useSelector(selectTradeboxSwapAmounts);
   const executionFee = useSelector(selectTradeboxExecutionFee);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
   const { tokensAllowanceData } = useTokensAllowanceData(chainId, {
     spenderAddress: getContract(chainId, "SyntheticsRouter"),
     tokenAddresses: fromToken ? [fromToken.address] : [],
@@ -46,7 +48,9 @@ export function useTradeboxWarningsRows(priceImpactWarningState: ReturnType<type
     }
   }, [increaseAmounts?.initialCollateralAmount, isIncrease, isSwap, isWrapOrUnwrap, swapAmounts?.amountIn]);
 
+  // virtual orders don't spend the wallet tokens
   const needPayTokenApproval =
+    !isPaperTrading &&
     tokensAllowanceData &&
     fromToken &&
     payAmount !== undefined &&
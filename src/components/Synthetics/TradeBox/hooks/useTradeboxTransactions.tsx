@@ -1,21 +1,28 @@
 import { t } from "@lingui/macro";
 import { useSettings } from "context/SettingsContext/SettingsContextProvider";
-import { useSubaccount } from "context/SubaccountContext/SubaccountContext";
+import { useSubaccount, useSubaccountPermissions } from "context/SubaccountContext/SubaccountContext";
 import { useSyntheticsEvents } from "context/SyntheticsEvents";
 import { useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import {
   selectTradeboxAllowedSlippage,
   selectTradeboxCollateralToken,
   selectTradeboxDecreasePositionAmounts,
   selectTradeboxExecutionFee,
+  selectTradeboxOrderExecutionFee,
   selectTradeboxFromTokenAddress,
   selectTradeboxIncreasePositionAmounts,
   selectTradeboxMarketInfo,
   selectTradeboxSelectedPosition,
   selectTradeboxSwapAmounts,
+  selectTradeboxSwapSplit,
+  selectTradeboxSwapSplitExecutionFees,
   selectTradeboxToTokenAddress,
   selectTradeboxTradeFlags,
+  selectTradeboxScaledOrders,
+  selectTradeboxTrailingStopBps,
   selectTradeboxTriggerPrice,
+  selectTradeboxTwapSchedule,
 } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { useUserReferralCode } from "domain/referrals";
@@ -23,9 +30,23 @@ import {
   createDecreaseOrderTxn,
   createIncreaseOrderTxn,
   createSwapOrderTxn,
+  DecreaseOrderParams,
+  IncreaseOrderParams,
   OrderType,
+  SecondaryCancelOrderParams,
+  SecondaryDecreaseOrderParams,
+  SecondaryUpdateOrderParams,
+  SwapOrderParams,
+  simulateIncreaseOrderTxn,
 } from "domain/synthetics/orders";
 import { createWrapOrUnwrapTxn } from "domain/synthetics/orders/createWrapOrUnwrapTxn";
+import { getPaperDecreaseOrder, getPaperIncreaseOrders, getPaperSwapOrder } from "domain/synthetics/paperTrading";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
+import { useTrailingStops } from "domain/synthetics/trailingStops/useTrailingStops";
+import { DEFAULT_TRAILING_STOP_STEP_BPS } from "domain/synthetics/trailingStops/utils";
+import type { NewTwapOrder } from "domain/synthetics/twap/types";
+import { useTwapOrders } from "domain/synthetics/twap/useTwapOrders";
+import { getAcceptablePriceDeltaBps, getTwapOrderPauseReason } from "domain/synthetics/twap/utils";
 import { useChainId } from "lib/chains";
 import { helperToast } from "lib/helperToast";
 import {
@@ -39,7 +60,7 @@ import {
 } from "lib/metrics/utils";
 import { getByKey } from "lib/objects";
 import useWallet from "lib/wallets/useWallet";
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
 import { useRequiredActions } from "./useRequiredActions";
 import { useTPSLSummaryExecutionFee } from "./useTPSLSummaryExecutionFee";
 
@@ -60,13 +81,24 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
   const toTokenAddress = useSelector(selectTradeboxToTokenAddress);
 
   const swapAmounts = useSelector(selectTradeboxSwapAmounts);
+  const swapSplit = useSelector(selectTradeboxSwapSplit);
+  const swapSplitExecutionFees = useSelector(selectTradeboxSwapSplitExecutionFees);
   const increaseAmounts = useSelector(selectTradeboxIncreasePositionAmounts);
   const decreaseAmounts = useSelector(selectTradeboxDecreasePositionAmounts);
 
   const { shouldDisableValidationForTesting } = useSettings();
   const selectedPosition = useSelector(selectTradeboxSelectedPosition);
   const executionFee = useSelector(selectTradeboxExecutionFee);
+  const orderExecutionFee = useSelector(selectTradeboxOrderExecutionFee);
+  const twapSchedule = useSelector(selectTradeboxTwapSchedule);
+  const scaledOrders = useSelector(selectTradeboxScaledOrders);
+  const { addTwapOrder } = useTwapOrders();
+  const subaccountPermissions = useSubaccountPermissions();
   const triggerPrice = useSelector(selectTradeboxTriggerPrice);
+  const trailingStopBps = useSelector(selectTradeboxTrailingStopBps);
+  const { addTrailingStop } = useTrailingStops();
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const { submitPaperOrders, wrapOrUnwrapPaper } = usePaperTradingActions();
   const { account, signer } = useWallet();
   const { referralCodeForTxn } = useUserReferralCode(signer, chainId, account);
 
@@ -112,7 +144,50 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
         return Promise.resolve();
       }
 
-      return createSwapOrderTxn(chainId, signer, subaccount, {
+      if (isPaperTrading && twapSchedule) {
+        helperToast.error(t`TWAP orders are not available in paper trading`);
+        return Promise.resolve();
+      }
+
+      if (twapSchedule) {
+        const twapOrder: NewTwapOrder = {
+          kind: "swap",
+          slicesCount: twapSchedule.slicesCount,
+          intervalMs: twapSchedule.intervalMs,
+          initialCollateralAddress: fromToken.address,
+          initialCollateralAmount: swapAmounts.amountIn,
+          swapPath: swapAmounts.swapPathStats.swapPath,
+          executionFee: orderExecutionFee?.feeTokenAmount ?? 0n,
+          allowedSlippage,
+          referralCode: referralCodeForTxn,
+          toTokenAddress: toToken.address,
+          minOutputAmount: swapAmounts.minOutputAmount,
+          fromTokenPrice: fromToken.prices.minPrice,
+          toTokenPrice: toToken.prices.maxPrice,
+        };
+
+        if (getTwapOrderPauseReason(twapOrder, subaccountPermissions)) {
+          helperToast.error(t`TWAP order can't be sent by One-Click Trading`);
+          return Promise.resolve();
+        }
+
+        addTwapOrder(twapOrder);
+        helperToast.success(t`TWAP order scheduled`);
+
+        return Promise.resolve();
+      }
+
+      const splitLegs =
+        !isLimit && swapSplit && swapSplitExecutionFees
+          ? swapSplit.legs.map((leg, i) => ({
+              fromTokenAmount: leg.amountIn,
+              swapPath: leg.swapPathStats.swapPath,
+              minOutputAmount: leg.minOutputAmount,
+              executionFee: swapSplitExecutionFees[i].feeTokenAmount,
+            }))
+          : undefined;
+
+      const swapOrderParams: SwapOrderParams = {
         account,
         fromTokenAddress: fromToken.address,
         fromTokenAmount: swapAmounts.amountIn,
@@ -127,7 +202,14 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
         setPendingTxns,
         setPendingOrder,
         metricId: metricData.metricId,
-      })
+        splitLegs,
+      };
+
+      if (isPaperTrading) {
+        return submitPaperOrders({ newOrders: [getPaperSwapOrder(swapOrderParams)] });
+      }
+
+      return createSwapOrderTxn(chainId, signer, subaccount, swapOrderParams)
         .then(makeTxnSentMetricsHandler(metricData.metricId))
         .catch(makeTxnErrorMetricsHandler(metricData.metricId));
     },
@@ -137,8 +219,16 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
       fromToken,
       toToken,
       swapAmounts,
+      swapSplit,
+      swapSplitExecutionFees,
       executionFee,
+      orderExecutionFee,
+      twapSchedule,
+      addTwapOrder,
+      subaccountPermissions,
       allowedSlippage,
+      isPaperTrading,
+      submitPaperOrders,
 
       tokensData,
       signer,
@@ -150,6 +240,82 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
     ]
   );
 
+  const createIncreaseOrderParams = useMemo((): IncreaseOrderParams | undefined => {
+    if (
+      !tokensData ||
+      !account ||
+      !fromToken ||
+      !collateralToken ||
+      increaseAmounts?.acceptablePrice === undefined ||
+      !executionFee ||
+      !marketInfo ||
+      typeof allowedSlippage !== "number"
+    ) {
+      return undefined;
+    }
+
+    const scaledLegs = scaledOrders?.map(({ increaseAmounts }) => ({
+      initialCollateralAmount: increaseAmounts.initialCollateralAmount,
+      sizeDeltaUsd: increaseAmounts.sizeDeltaUsd,
+      triggerPrice: increaseAmounts.triggerPrice!,
+      acceptablePrice: increaseAmounts.acceptablePrice,
+      executionFee: orderExecutionFee?.feeTokenAmount ?? 0n,
+    }));
+
+    return {
+      account,
+      marketAddress: marketInfo.marketTokenAddress,
+      initialCollateralAddress: fromToken?.address,
+      initialCollateralAmount: increaseAmounts.initialCollateralAmount,
+      targetCollateralAddress: collateralToken.address,
+      collateralDeltaAmount: increaseAmounts.collateralDeltaAmount,
+      swapPath: increaseAmounts.swapPathStats?.swapPath || [],
+      sizeDeltaUsd: increaseAmounts.sizeDeltaUsd,
+      sizeDeltaInTokens: increaseAmounts.sizeDeltaInTokens,
+      triggerPrice: isLimit ? triggerPrice : undefined,
+      acceptablePrice: increaseAmounts.acceptablePrice,
+      isLong,
+      orderType: isLimit ? OrderType.LimitIncrease : OrderType.MarketIncrease,
+      executionFee: executionFee.feeTokenAmount,
+      allowedSlippage,
+      referralCode: referralCodeForTxn,
+      indexToken: marketInfo.indexToken,
+      tokensData,
+      skipSimulation: isLimit || shouldDisableValidationForTesting,
+      setPendingTxns: setPendingTxns,
+      setPendingOrder,
+      setPendingPosition,
+      scaledLegs,
+    };
+  }, [
+    tokensData,
+    account,
+    fromToken,
+    collateralToken,
+    increaseAmounts,
+    executionFee,
+    orderExecutionFee,
+    marketInfo,
+    allowedSlippage,
+    scaledOrders,
+    isLimit,
+    triggerPrice,
+    isLong,
+    referralCodeForTxn,
+    shouldDisableValidationForTesting,
+    setPendingTxns,
+    setPendingOrder,
+    setPendingPosition,
+  ]);
+
+  const runIncreaseSimulation = useMemo(() => {
+    if (!createIncreaseOrderParams || !signer || twapSchedule || isPaperTrading) {
+      return undefined;
+    }
+
+    return () => simulateIncreaseOrderTxn(chainId, signer, createIncreaseOrderParams);
+  }, [chainId, createIncreaseOrderParams, signer, twapSchedule, isPaperTrading]);
+
   const onSubmitIncreaseOrder = useCallback(
     function onSubmitIncreaseOrder() {
       const orderType = isLimit ? OrderType.LimitIncrease : OrderType.MarketIncrease;
@@ -179,13 +345,53 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
         !executionFee ||
         !marketInfo ||
         !signer ||
-        typeof allowedSlippage !== "number"
+        typeof allowedSlippage !== "number" ||
+        !createIncreaseOrderParams
       ) {
         helperToast.error(t`Error submitting order`);
         sendTxnValidationErrorMetric(metricData.metricId);
         return Promise.resolve();
       }
 
+      if (isPaperTrading && twapSchedule) {
+        helperToast.error(t`TWAP orders are not available in paper trading`);
+        return Promise.resolve();
+      }
+
+      if (twapSchedule) {
+        const twapOrder: NewTwapOrder = {
+          kind: "increase",
+          slicesCount: twapSchedule.slicesCount,
+          intervalMs: twapSchedule.intervalMs,
+          initialCollateralAddress: fromToken.address,
+          initialCollateralAmount: increaseAmounts.initialCollateralAmount,
+          swapPath: increaseAmounts.swapPathStats?.swapPath || [],
+          executionFee: orderExecutionFee?.feeTokenAmount ?? 0n,
+          allowedSlippage,
+          referralCode: referralCodeForTxn,
+          marketAddress: marketInfo.marketTokenAddress,
+          targetCollateralAddress: collateralToken.address,
+          isLong,
+          sizeDeltaUsd: increaseAmounts.sizeDeltaUsd,
+          sizeDeltaInTokens: increaseAmounts.sizeDeltaInTokens,
+          collateralDeltaAmount: increaseAmounts.collateralDeltaAmount,
+          acceptablePriceDeltaBps: getAcceptablePriceDeltaBps(
+            increaseAmounts.indexPrice,
+            increaseAmounts.acceptablePrice
+          ),
+        };
+
+        if (getTwapOrderPauseReason(twapOrder, subaccountPermissions)) {
+          helperToast.error(t`TWAP order can't be sent by One-Click Trading`);
+          return Promise.resolve();
+        }
+
+        addTwapOrder(twapOrder);
+        helperToast.success(t`TWAP order scheduled`);
+
+        return Promise.resolve();
+      }
+
       const commonSecondaryOrderParams = {
         account,
         marketAddress: marketInfo.marketTokenAddress,
@@ -197,74 +403,75 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
         indexToken: marketInfo.indexToken,
       };
 
+      const createDecreaseOrderParams: SecondaryDecreaseOrderParams[] = createSltpEntries.map((entry) => {
+        return {
+          ...commonSecondaryOrderParams,
+          initialCollateralDeltaAmount: entry.decreaseAmounts.collateralDeltaAmount ?? 0n,
+          sizeDeltaUsd: entry.decreaseAmounts.sizeDeltaUsd,
+          sizeDeltaInTokens: entry.decreaseAmounts.sizeDeltaInTokens,
+          acceptablePrice: entry.decreaseAmounts.acceptablePrice,
+          triggerPrice: entry.decreaseAmounts.triggerPrice,
+          minOutputUsd: 0n,
+          decreasePositionSwapType: entry.decreaseAmounts.decreaseSwapType,
+          orderType: entry.decreaseAmounts.triggerOrderType!,
+          referralCode: referralCodeForTxn,
+          executionFee: getExecutionFeeAmountForEntry(entry) ?? 0n,
+          tokensData,
+          txnType: entry.txnType!,
+          skipSimulation: isLimit || shouldDisableValidationForTesting,
+        };
+      });
+
+      const cancelOrderParams: SecondaryCancelOrderParams[] = cancelSltpEntries.map((entry) => ({
+        ...commonSecondaryOrderParams,
+        orderKey: entry.order!.key,
+        orderType: entry.order!.orderType,
+        minOutputAmount: 0n,
+        sizeDeltaUsd: entry.order!.sizeDeltaUsd,
+        txnType: entry.txnType!,
+        initialCollateralDeltaAmount: entry.order?.initialCollateralDeltaAmount ?? 0n,
+      }));
+
+      const updateOrderParams: SecondaryUpdateOrderParams[] = updateSltpEntries.map((entry) => ({
+        ...commonSecondaryOrderParams,
+        orderKey: entry.order!.key,
+        orderType: entry.order!.orderType,
+        sizeDeltaUsd: (entry.increaseAmounts?.sizeDeltaUsd || entry.decreaseAmounts?.sizeDeltaUsd)!,
+        acceptablePrice: (entry.increaseAmounts?.acceptablePrice || entry.decreaseAmounts?.acceptablePrice)!,
+        triggerPrice: (entry.increaseAmounts?.triggerPrice || entry.decreaseAmounts?.triggerPrice)!,
+        executionFee: getExecutionFeeAmountForEntry(entry) ?? 0n,
+        minOutputAmount: 0n,
+        txnType: entry.txnType!,
+        initialCollateralDeltaAmount: entry.order?.initialCollateralDeltaAmount ?? 0n,
+      }));
+
+      if (isPaperTrading) {
+        return submitPaperOrders({
+          newOrders: [
+            ...getPaperIncreaseOrders(createIncreaseOrderParams),
+            ...createDecreaseOrderParams.map(getPaperDecreaseOrder),
+          ],
+          cancelOrderKeys: cancelOrderParams.map((p) => p.orderKey!),
+          orderUpdates: updateOrderParams.map((p) => ({
+            orderKey: p.orderKey,
+            sizeDeltaUsd: p.sizeDeltaUsd,
+            triggerPrice: p.triggerPrice,
+            acceptablePrice: p.acceptablePrice,
+            minOutputAmount: p.minOutputAmount,
+            indexTokenDecimals: p.indexToken.decimals,
+          })),
+        });
+      }
+
       return createIncreaseOrderTxn({
         chainId,
         signer,
         subaccount,
         metricId: metricData.metricId,
-        createIncreaseOrderParams: {
-          account,
-          marketAddress: marketInfo.marketTokenAddress,
-          initialCollateralAddress: fromToken?.address,
-          initialCollateralAmount: increaseAmounts.initialCollateralAmount,
-          targetCollateralAddress: collateralToken.address,
-          collateralDeltaAmount: increaseAmounts.collateralDeltaAmount,
-          swapPath: increaseAmounts.swapPathStats?.swapPath || [],
-          sizeDeltaUsd: increaseAmounts.sizeDeltaUsd,
-          sizeDeltaInTokens: increaseAmounts.sizeDeltaInTokens,
-          triggerPrice: isLimit ? triggerPrice : undefined,
-          acceptablePrice: increaseAmounts.acceptablePrice,
-          isLong,
-          orderType: isLimit ? OrderType.LimitIncrease : OrderType.MarketIncrease,
-          executionFee: executionFee.feeTokenAmount,
-          allowedSlippage,
-          referralCode: referralCodeForTxn,
-          indexToken: marketInfo.indexToken,
-          tokensData,
-          skipSimulation: isLimit || shouldDisableValidationForTesting,
-          setPendingTxns: setPendingTxns,
-          setPendingOrder,
-          setPendingPosition,
-        },
-        createDecreaseOrderParams: createSltpEntries.map((entry) => {
-          return {
-            ...commonSecondaryOrderParams,
-            initialCollateralDeltaAmount: entry.decreaseAmounts.collateralDeltaAmount ?? 0n,
-            sizeDeltaUsd: entry.decreaseAmounts.sizeDeltaUsd,
-            sizeDeltaInTokens: entry.decreaseAmounts.sizeDeltaInTokens,
-            acceptablePrice: entry.decreaseAmounts.acceptablePrice,
-            triggerPrice: entry.decreaseAmounts.triggerPrice,
-            minOutputUsd: 0n,
-            decreasePositionSwapType: entry.decreaseAmounts.decreaseSwapType,
-            orderType: entry.decreaseAmounts.triggerOrderType!,
-            referralCode: referralCodeForTxn,
-            executionFee: getExecutionFeeAmountForEntry(entry) ?? 0n,
-            tokensData,
-            txnType: entry.txnType!,
-            skipSimulation: isLimit || shouldDisableValidationForTesting,
-          };
-        }),
-        cancelOrderParams: cancelSltpEntries.map((entry) => ({
-          ...commonSecondaryOrderParams,
-          orderKey: entry.order!.key,
-          orderType: entry.order!.orderType,
-          minOutputAmount: 0n,
-          sizeDeltaUsd: entry.order!.sizeDeltaUsd,
-          txnType: entry.txnType!,
-          initialCollateralDeltaAmount: entry.order?.initialCollateralDeltaAmount ?? 0n,
-        })),
-        updateOrderParams: updateSltpEntries.map((entry) => ({
-          ...commonSecondaryOrderParams,
-          orderKey: entry.order!.key,
-          orderType: entry.order!.orderType,
-          sizeDeltaUsd: (entry.increaseAmounts?.sizeDeltaUsd || entry.decreaseAmounts?.sizeDeltaUsd)!,
-          acceptablePrice: (entry.increaseAmounts?.acceptablePrice || entry.decreaseAmounts?.acceptablePrice)!,
-          triggerPrice: (entry.increaseAmounts?.triggerPrice || entry.decreaseAmounts?.triggerPrice)!,
-          executionFee: getExecutionFeeAmountForEntry(entry) ?? 0n,
-          minOutputAmount: 0n,
-          txnType: entry.txnType!,
-          initialCollateralDeltaAmount: entry.order?.initialCollateralDeltaAmount ?? 0n,
-        })),
+        createIncreaseOrderParams,
+        createDecreaseOrderParams,
+        cancelOrderParams,
+        updateOrderParams,
       })
         .then(makeTxnSentMetricsHandler(metricData.metricId))
         .catch(makeTxnErrorMetricsHandler(metricData.metricId));
@@ -281,6 +488,12 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
       triggerPrice,
       isLong,
       executionFee,
+      orderExecutionFee,
+      twapSchedule,
+      addTwapOrder,
+      subaccountPermissions,
+      isPaperTrading,
+      submitPaperOrders,
 
       tokensData,
       signer,
@@ -288,13 +501,11 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
       chainId,
       subaccount,
       shouldDisableValidationForTesting,
-      setPendingTxns,
-      setPendingOrder,
-      setPendingPosition,
       createSltpEntries,
       cancelSltpEntries,
       updateSltpEntries,
       getExecutionFeeAmountForEntry,
+      createIncreaseOrderParams,
     ]
   );
 
@@ -335,34 +546,40 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
         return Promise.resolve();
       }
 
+      const decreaseOrderParams: DecreaseOrderParams = {
+        account,
+        marketAddress: marketInfo.marketTokenAddress,
+        swapPath: [],
+        initialCollateralDeltaAmount: decreaseAmounts.collateralDeltaAmount,
+        initialCollateralAddress: collateralToken.address,
+        receiveTokenAddress: collateralToken.address,
+        triggerPrice: decreaseAmounts.triggerPrice,
+        acceptablePrice: decreaseAmounts.acceptablePrice,
+        sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
+        sizeDeltaInTokens: decreaseAmounts.sizeDeltaInTokens,
+        minOutputUsd: BigInt(0),
+        isLong,
+        decreasePositionSwapType: decreaseAmounts.decreaseSwapType,
+        orderType: decreaseAmounts?.triggerOrderType,
+        executionFee: executionFee.feeTokenAmount,
+        allowedSlippage,
+        referralCode: referralCodeForTxn,
+        // Skip simulation to avoid EmptyPosition error
+        // skipSimulation: !existingPosition || shouldDisableValidation,
+        skipSimulation: true,
+        indexToken: marketInfo.indexToken,
+        tokensData,
+      };
+
+      if (isPaperTrading) {
+        return submitPaperOrders({ newOrders: [getPaperDecreaseOrder(decreaseOrderParams)] });
+      }
+
       return createDecreaseOrderTxn(
         chainId,
         signer,
         subaccount,
-        {
-          account,
-          marketAddress: marketInfo.marketTokenAddress,
-          swapPath: [],
-          initialCollateralDeltaAmount: decreaseAmounts.collateralDeltaAmount,
-          initialCollateralAddress: collateralToken.address,
-          receiveTokenAddress: collateralToken.address,
-          triggerPrice: decreaseAmounts.triggerPrice,
-          acceptablePrice: decreaseAmounts.acceptablePrice,
-          sizeDeltaUsd: decreaseAmounts.sizeDeltaUsd,
-          sizeDeltaInTokens: decreaseAmounts.sizeDeltaInTokens,
-          minOutputUsd: BigInt(0),
-          isLong,
-          decreasePositionSwapType: decreaseAmounts.decreaseSwapType,
-          orderType: decreaseAmounts?.triggerOrderType,
-          executionFee: executionFee.feeTokenAmount,
-          allowedSlippage,
-          referralCode: referralCodeForTxn,
-          // Skip simulation to avoid EmptyPosition error
-          // skipSimulation: !existingPosition || shouldDisableValidation,
-          skipSimulation: true,
-          indexToken: marketInfo.indexToken,
-          tokensData,
-        },
+        decreaseOrderParams,
         {
           setPendingTxns,
           setPendingOrder,
@@ -370,6 +587,22 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
         },
         metricData.metricId
       )
+        .then(() => {
+          if (
+            trailingStopBps !== undefined &&
+            selectedPosition &&
+            decreaseAmounts.triggerOrderType === OrderType.StopLossDecrease
+          ) {
+            addTrailingStop({
+              positionKey: selectedPosition.key,
+              isLong,
+              trailBps: trailingStopBps,
+              stepBps: DEFAULT_TRAILING_STOP_STEP_BPS,
+              bestPrice: selectedPosition.markPrice,
+              triggerPrice: decreaseAmounts.triggerPrice!,
+            });
+          }
+        })
         .then(makeTxnSentMetricsHandler(metricData.metricId))
         .catch(makeTxnErrorMetricsHandler(metricData.metricId));
     },
@@ -391,6 +624,10 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
       subaccount,
       tokensData,
       triggerPrice,
+      trailingStopBps,
+      addTrailingStop,
+      isPaperTrading,
+      submitPaperOrders,
     ]
   );
 
@@ -399,6 +636,10 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
       return Promise.resolve();
     }
 
+    if (isPaperTrading) {
+      return wrapOrUnwrapPaper({ amount: swapAmounts.amountIn, isWrap: Boolean(fromToken.isNative) });
+    }
+
     return createWrapOrUnwrapTxn(chainId, signer, {
       amount: swapAmounts.amountIn,
       isWrap: Boolean(fromToken.isNative),
@@ -411,5 +652,6 @@ export function useTradeboxTransactions({ setPendingTxns }: TradeboxTransactions
     onSubmitIncreaseOrder,
     onSubmitDecreaseOrder,
     onSubmitWrapOrUnwrap,
+    runIncreaseSimulation,
   };
 }
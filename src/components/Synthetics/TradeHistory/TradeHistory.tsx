@@ -24,9 +24,9 @@ import { ActionFilter } from "./filters/ActionFilter";
 import { TradeHistoryRow } from "./TradeHistoryRow/TradeHistoryRow";
 import { buildAccountDashboardUrl } from "pages/AccountDashboard/AccountDashboard";
 
-import { useDownloadAsCsv } from "./useDownloadAsCsv";
+import { TradeHistoryExportDropdown } from "./TradeHistoryExportDropdown";
+import { useTradeHistoryExport } from "./useTradeHistoryExport";
 
-import downloadIcon from "img/ic_download_simple.svg";
 import PnlAnalysisIcon from "img/ic_pnl_analysis_20.svg?react";
 
 import "./TradeHistorySynthetics.scss";
@@ -114,14 +114,13 @@ export function TradeHistory(p: Props) {
     }
   }, [currentPage, pageCount, tradeActionsPageIndex, setTradeActionsPageIndex]);
 
-  const [isCsvDownloading, handleCsvDownload] = useDownloadAsCsv({
+  const [isExporting, handleExport] = useTradeHistoryExport({
     account,
     forAllAccounts,
     fromTxTimestamp,
     toTxTimestamp,
     marketsDirectionsFilter,
     orderEventCombinations: actionFilter,
-    minCollateralUsd: minCollateralUsd,
   });
 
   return (
@@ -136,15 +135,11 @@ export function TradeHistory(p: Props) {
             <div className="TradeHistorySynthetics-filters">
               <DateRangeSelect startDate={startDate} endDate={endDate} onChange={setDateRange} />
             </div>
-            <Button
-              variant="secondary"
-              slim
-              disabled={isCsvDownloading}
-              imgSrc={downloadIcon}
-              onClick={handleCsvDownload}
-            >
-              CSV
-            </Button>
+            <TradeHistoryExportDropdown
+              disabled={isExporting}
+              withTaxLots={isConnected && !forAllAccounts}
+              onExport={handleExport}
+            />
           </div>
         </div>
         <div className="TradeHistorySynthetics-horizontal-scroll-container">
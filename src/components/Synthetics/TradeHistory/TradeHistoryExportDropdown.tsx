@@ -0,0 +1,61 @@
+import { autoUpdate, flip, FloatingPortal, offset, shift, useFloating } from "@floating-ui/react";
+import { Menu } from "@headlessui/react";
+import { t, Trans } from "@lingui/macro";
+import { useCallback } from "react";
+
+import type { TradeHistoryExportFormat } from "domain/synthetics/tradeHistoryExport";
+
+import Button from "components/Button/Button";
+
+import downloadIcon from "img/ic_download_simple.svg";
+
+type Props = {
+  disabled: boolean;
+  withTaxLots: boolean;
+  onExport: (format: TradeHistoryExportFormat) => void;
+};
+
+export function TradeHistoryExportDropdown({ disabled, withTaxLots, onExport }: Props) {
+  const { refs, floatingStyles } = useFloating({
+    middleware: [offset({ mainAxis: 8 }), flip(), shift()],
+    placement: "bottom-end",
+    whileElementsMounted: autoUpdate,
+  });
+
+  return (
+    <Menu>
+      <Menu.Button as="div" ref={refs.setReference}>
+        <Button variant="secondary" slim disabled={disabled} imgSrc={downloadIcon}>
+          <Trans>Export</Trans>
+        </Button>
+      </Menu.Button>
+      <FloatingPortal>
+        <Menu.Items as="div" className="menu-items !w-max" ref={refs.setFloating} style={floatingStyles}>
+          <ExportMenuItem format="csv" label={t`CSV`} onExport={onExport} />
+          <ExportMenuItem format="json" label={t`JSON`} onExport={onExport} />
+          {withTaxLots && <ExportMenuItem format="taxLots" label={t`Tax Lots (FIFO, CSV)`} onExport={onExport} />}
+        </Menu.Items>
+      </FloatingPortal>
+    </Menu>
+  );
+}
+
+function ExportMenuItem({
+  format,
+  label,
+  onExport,
+}: {
+  format: TradeHistoryExportFormat;
+  label: string;
+  onExport: (format: TradeHistoryExportFormat) => void;
+}) {
+  const handleClick = useCallback(() => onExport(format), [format, onExport]);
+
+  return (
+    <Menu.Item>
+      <div className="menu-item" onClick={handleClick}>
+        <p>{label}</p>
+      </div>
+    </Menu.Item>
+  );
+}
@@ -0,0 +1,181 @@
+import { t, Trans } from "@lingui/macro";
+import { useCallback, useState } from "react";
+
+import { useMarketsInfoData, useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { selectChainId } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { fetchAllClaimActions } from "domain/synthetics/claimHistory";
+import { useFixedAddreseses } from "domain/synthetics/common/useFixedAddresses";
+import { OrderType } from "domain/synthetics/orders/types";
+import { fetchAllTradeActions, TradeActionType } from "domain/synthetics/tradeHistory";
+import {
+  getTaxLotExportRow,
+  getTaxLots,
+  getTradeHistoryExportRows,
+  TaxLotExportRow,
+  TradeHistoryExportFormat,
+  TradeHistoryExportRow,
+} from "domain/synthetics/tradeHistoryExport";
+import { downloadAsCsv } from "lib/csv";
+import { downloadAsJson } from "lib/downloadFile";
+import { helperToast } from "lib/helperToast";
+
+import { ToastifyDebug } from "components/ToastifyDebug/ToastifyDebug";
+import type { MarketFilterLongShortItemData } from "../TableMarketFilter/MarketFilterLongShort";
+
+/**
+ * Exports every page of the trade history for the selected date range together with the claims of the account.
+ * Tax lots ignore the table filters as matching needs all increases and decreases of the positions.
+ */
+export function useTradeHistoryExport({
+  marketsDirectionsFilter,
+  forAllAccounts,
+  account,
+  fromTxTimestamp,
+  toTxTimestamp,
+  orderEventCombinations,
+}: {
+  marketsDirectionsFilter: MarketFilterLongShortItemData[] | undefined;
+  forAllAccounts: boolean | undefined;
+  account: string | null | undefined;
+  fromTxTimestamp: number | undefined;
+  toTxTimestamp: number | undefined;
+  orderEventCombinations:
+    | {
+        eventName?: TradeActionType | undefined;
+        orderType?: OrderType | undefined;
+        isDepositOrWithdraw?: boolean | undefined;
+      }[]
+    | undefined;
+}): [boolean, (format: TradeHistoryExportFormat) => Promise<void>] {
+  const chainId = useSelector(selectChainId);
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+  const fixedAddresses = useFixedAddreseses(marketsInfoData, tokensData);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleExport = useCallback(
+    async (format: TradeHistoryExportFormat) => {
+      try {
+        setIsLoading(true);
+
+        if (format === "taxLots") {
+          const tradeActions = await fetchAllTradeActions({
+            chainId,
+            marketsDirectionsFilter: undefined,
+            forAllAccounts: false,
+            account,
+            fromTxTimestamp,
+            toTxTimestamp,
+            orderEventCombinations: [{ eventName: TradeActionType.OrderExecuted }],
+            marketsInfoData,
+            tokensData,
+          });
+
+          downloadAsCsv("trade-history-tax-lots", getTaxLots(tradeActions).map(getTaxLotExportRow), [], {
+            market: t`Market`,
+            direction: t`Direction`,
+            collateralToken: t`Collateral`,
+            openDate: t`Open Date (UTC)`,
+            openTransactionHash: t`Open Transaction`,
+            closeDate: t`Close Date (UTC)`,
+            closeTransactionHash: t`Close Transaction`,
+            isLiquidation: t`Liquidation`,
+            sizeUsd: t`Size ($)`,
+            sizeInTokens: t`Size in Tokens`,
+            openPrice: t`Open Price`,
+            closePrice: t`Close Price`,
+            grossPnlUsd: t`Gross PnL ($)`,
+            positionFeeUsd: t`Open and Close Fees ($)`,
+            borrowingFeeUsd: t`Borrow Fee ($)`,
+            fundingFeeUsd: t`Funding Fee ($)`,
+            realizedPnlUsd: t`Realized PnL ($)`,
+          } satisfies Record<keyof TaxLotExportRow, string>);
+
+          return;
+        }
+
+        const tradeActions = await fetchAllTradeActions({
+          chainId,
+          marketsDirectionsFilter,
+          forAllAccounts,
+          account,
+          fromTxTimestamp,
+          toTxTimestamp,
+          orderEventCombinations,
+          marketsInfoData,
+          tokensData,
+        });
+
+        const claimActions =
+          account && !forAllAccounts && marketsInfoData
+            ? await fetchAllClaimActions({
+                chainId,
+                account,
+                fromTxTimestamp,
+                toTxTimestamp,
+                marketAddresses: marketsDirectionsFilter
+                  ?.map((filter) => filter.marketAddress)
+                  .filter((marketAddress) => marketAddress !== "any"),
+                fixedAddresses,
+                marketsInfoData,
+              })
+            : [];
+
+        const rows = getTradeHistoryExportRows(tradeActions, claimActions);
+
+        if (format === "json") {
+          downloadAsJson("trade-history", rows);
+          return;
+        }
+
+        downloadAsCsv("trade-history", rows, [], {
+          timestamp: t`Date (UTC)`,
+          type: t`Type`,
+          event: t`Event`,
+          orderType: t`Order Type`,
+          market: t`Market`,
+          direction: t`Direction`,
+          sizeDeltaUsd: t`Size ($)`,
+          executionPrice: t`Execution Price`,
+          token: t`Token`,
+          amount: t`Amount`,
+          amountUsd: t`Amount ($)`,
+          outputToken: t`Output Token`,
+          outputAmount: t`Output Amount`,
+          pnlUsd: t`PnL ($)`,
+          positionFeeUsd: t`Position Fee ($)`,
+          borrowingFeeUsd: t`Borrow Fee ($)`,
+          fundingFeeUsd: t`Funding Fee ($)`,
+          priceImpactUsd: t`Price Impact ($)`,
+          transactionHash: t`Transaction ID`,
+        } satisfies Record<keyof TradeHistoryExportRow, string>);
+      } catch (error) {
+        helperToast.error(
+          <div>
+            <Trans>Failed to export trade history.</Trans>
+            <br />
+            <br />
+            <ToastifyDebug error={String(error)} />
+          </div>
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [
+      account,
+      chainId,
+      fixedAddresses,
+      forAllAccounts,
+      fromTxTimestamp,
+      marketsDirectionsFilter,
+      marketsInfoData,
+      orderEventCombinations,
+      toTxTimestamp,
+      tokensData,
+    ]
+  );
+
+  return [isLoading, handleExport];
+}
@@ -0,0 +1,82 @@
+import { t, Trans } from "@lingui/macro";
+import { useCallback, useEffect } from "react";
+
+import { USD_DECIMALS } from "config/factors";
+import { useIsSubaccountActive } from "context/SubaccountContext/SubaccountContext";
+import { getTrailingStopTriggerPrice } from "domain/synthetics/trailingStops/utils";
+import { formatAmount } from "lib/numbers";
+
+import { AlertInfo } from "components/AlertInfo/AlertInfo";
+import ExchangeInfoRow from "components/Exchange/ExchangeInfoRow";
+import PercentageInput from "components/PercentageInput/PercentageInput";
+import ToggleSwitch from "components/ToggleSwitch/ToggleSwitch";
+
+const DEFAULT_TRAILING_STOP_BPS = 300;
+const TRAILING_STOP_SUGGESTIONS = [1, 2, 3, 5];
+
+type Props = {
+  trailingStopBps: number | undefined;
+  setTrailingStopBps: (trailingStopBps: number | undefined) => void;
+  setTriggerPriceInputValue: (value: string) => void;
+  markPrice: bigint | undefined;
+  isLong: boolean;
+  priceDecimals: number | undefined;
+};
+
+export function TrailingStopRow({
+  trailingStopBps,
+  setTrailingStopBps,
+  setTriggerPriceInputValue,
+  markPrice,
+  isLong,
+  priceDecimals,
+}: Props) {
+  const isSubaccountActive = useIsSubaccountActive();
+  const isEnabled = trailingStopBps !== undefined;
+
+  const setIsEnabled = useCallback(
+    (value: boolean) => setTrailingStopBps(value ? DEFAULT_TRAILING_STOP_BPS : undefined),
+    [setTrailingStopBps]
+  );
+
+  useEffect(
+    function setInitialTrailingTriggerPrice() {
+      if (trailingStopBps === undefined || markPrice === undefined) return;
+
+      const triggerPrice = getTrailingStopTriggerPrice(markPrice, trailingStopBps, isLong);
+      setTriggerPriceInputValue(formatAmount(triggerPrice, USD_DECIMALS, priceDecimals ?? 2));
+    },
+    // mark price is intentionally omitted, the trigger price is only set on activation and further moved by the subaccount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [trailingStopBps, isLong, priceDecimals, setTriggerPriceInputValue]
+  );
+
+  return (
+    <>
+      <ToggleSwitch textClassName="Exchange-info-label" isChecked={isEnabled} setIsChecked={setIsEnabled}>
+        <Trans>Trailing Stop</Trans>
+      </ToggleSwitch>
+      {isEnabled && (
+        <ExchangeInfoRow
+          label={t`Trail Distance`}
+          value={
+            <PercentageInput
+              onChange={setTrailingStopBps}
+              defaultValue={DEFAULT_TRAILING_STOP_BPS}
+              value={trailingStopBps}
+              suggestions={TRAILING_STOP_SUGGESTIONS}
+              maxValue={50 * 100}
+            />
+          }
+        />
+      )}
+      {isEnabled && !isSubaccountActive && (
+        <AlertInfo type="warning" compact>
+          <Trans>
+            Enable One-Click Trading to move the stop automatically. Without it the stop stays at its initial price.
+          </Trans>
+        </AlertInfo>
+      )}
+    </>
+  );
+}
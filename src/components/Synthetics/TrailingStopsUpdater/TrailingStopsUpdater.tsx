@@ -0,0 +1,174 @@
+import { t } from "@lingui/macro";
+import { useEffect, useRef } from "react";
+import { useLatest } from "react-use";
+
+import { useSubaccount, useSubaccountActionCounts } from "context/SubaccountContext/SubaccountContext";
+import { useOrdersInfoData, usePositionsInfoData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { selectIsPaperTrading } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { updateOrderTxn } from "domain/synthetics/orders/updateOrderTxn";
+import { getSubaccountForOrders, getSubaccountOrderScope } from "domain/synthetics/subaccount/utils";
+import { TrailingStop } from "domain/synthetics/trailingStops/types";
+import { useTrailingStops } from "domain/synthetics/trailingStops/useTrailingStops";
+import {
+  MAX_TRAILING_STOP_FAILED_UPDATES,
+  getTrailingStopOrder,
+  getTrailingStopRetryAt,
+  getTrailingStopUpdate,
+} from "domain/synthetics/trailingStops/utils";
+import { useChainId } from "lib/chains";
+import { helperToast } from "lib/helperToast";
+import { getByKey } from "lib/objects";
+import useWallet from "lib/wallets/useWallet";
+
+// the created order may take a while to be indexed, unbound stops are dropped only after this period
+const UNBOUND_TRAILING_STOP_TTL = 5 * 60 * 1000;
+
+type Props = {
+  setPendingTxns: (txns: any) => void;
+};
+
+export function TrailingStopsUpdater({ setPendingTxns }: Props) {
+  const { chainId } = useChainId();
+  const { signer } = useWallet();
+  const ordersInfoData = useOrdersInfoData();
+  const positionsInfoData = usePositionsInfoData();
+  const subaccount = useSubaccount(null, 1);
+  const { remaining: remainingActions } = useSubaccountActionCounts();
+  const { trailingStops, updateTrailingStops, removeTrailingStops } = useTrailingStops();
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+
+  const updateTrailingStopsRef = useLatest(updateTrailingStops);
+  const removeTrailingStopsRef = useLatest(removeTrailingStops);
+  const pendingUpdateIdsRef = useRef(new Set<string>());
+
+  useEffect(
+    function syncTrailingStops() {
+      // orders and positions of the paper trading account can't be matched with the stops
+      if (isPaperTrading || !ordersInfoData || !positionsInfoData || !trailingStops.length) return;
+
+      const orders = Object.values(ordersInfoData);
+      const patches: { [id: string]: Partial<Omit<TrailingStop, "id">> } = {};
+      const removedIds: string[] = [];
+      let availableActions = Number(remainingActions) - pendingUpdateIdsRef.current.size;
+
+      for (const trailingStop of trailingStops) {
+        const order = getTrailingStopOrder(trailingStop, orders);
+
+        if (!order) {
+          if (trailingStop.orderKey || Date.now() - trailingStop.activatedAt > UNBOUND_TRAILING_STOP_TTL) {
+            removedIds.push(trailingStop.id);
+          }
+          continue;
+        }
+
+        const patch: Partial<Omit<TrailingStop, "id">> = {};
+
+        if (!trailingStop.orderKey) {
+          patch.orderKey = order.key;
+        }
+
+        const position = getByKey(positionsInfoData, trailingStop.positionKey);
+
+        if (!position) {
+          if (patch.orderKey) patches[trailingStop.id] = patch;
+          continue;
+        }
+
+        const { bestPrice, nextTriggerPrice } = getTrailingStopUpdate(trailingStop, position.markPrice);
+
+        if (bestPrice !== trailingStop.bestPrice) {
+          patch.bestPrice = bestPrice;
+        }
+
+        if (Object.keys(patch).length) {
+          patches[trailingStop.id] = patch;
+        }
+
+        // orders outside of the subaccount permissions would prompt the main wallet on every price update
+        const orderSubaccount = getSubaccountForOrders(subaccount, [getSubaccountOrderScope(order)]);
+
+        if (
+          nextTriggerPrice === undefined ||
+          !orderSubaccount ||
+          !signer ||
+          order.isFrozen ||
+          availableActions < 1 ||
+          pendingUpdateIdsRef.current.has(trailingStop.id) ||
+          (trailingStop.retryAt !== undefined && Date.now() < trailingStop.retryAt)
+        ) {
+          continue;
+        }
+
+        availableActions -= 1;
+        pendingUpdateIdsRef.current.add(trailingStop.id);
+
+        updateOrderTxn(chainId, signer, orderSubaccount, {
+          orderKey: order.key,
+          order,
+          indexToken: order.indexToken,
+          sizeDeltaUsd: order.sizeDeltaUsd,
+          triggerPrice: nextTriggerPrice,
+          acceptablePrice: order.acceptablePrice + (nextTriggerPrice - order.triggerPrice),
+          minOutputAmount: order.minOutputAmount,
+          setPendingTxns,
+        })
+          .then(() => {
+            updateTrailingStopsRef.current({
+              [trailingStop.id]: {
+                orderKey: order.key,
+                triggerPrice: nextTriggerPrice,
+                updatesCount: trailingStop.updatesCount + 1,
+                failedUpdatesCount: 0,
+                retryAt: undefined,
+              },
+            });
+          })
+          .catch(() => {
+            const failedUpdatesCount = (trailingStop.failedUpdatesCount ?? 0) + 1;
+
+            if (failedUpdatesCount >= MAX_TRAILING_STOP_FAILED_UPDATES) {
+              removeTrailingStopsRef.current([trailingStop.id]);
+              helperToast.error(t`Trailing stop disabled after ${failedUpdatesCount} failed order updates`);
+              return;
+            }
+
+            updateTrailingStopsRef.current({
+              [trailingStop.id]: {
+                failedUpdatesCount,
+                retryAt: getTrailingStopRetryAt(failedUpdatesCount, Date.now()),
+              },
+            });
+          })
+          .finally(() => {
+            pendingUpdateIdsRef.current.delete(trailingStop.id);
+          });
+      }
+
+      if (removedIds.length) {
+        removeTrailingStops(removedIds);
+      }
+
+      if (Object.keys(patches).length) {
+        updateTrailingStops(patches);
+      }
+    },
+    [
+      chainId,
+      isPaperTrading,
+      ordersInfoData,
+      positionsInfoData,
+      remainingActions,
+      removeTrailingStops,
+      removeTrailingStopsRef,
+      setPendingTxns,
+      signer,
+      subaccount,
+      trailingStops,
+      updateTrailingStops,
+      updateTrailingStopsRef,
+    ]
+  );
+
+  return null;
+}
@@ -0,0 +1,167 @@
+import { MessageDescriptor } from "@lingui/core";
+import { Trans, msg, t } from "@lingui/macro";
+import { useLingui } from "@lingui/react";
+import { useCallback, useMemo } from "react";
+import { MdClose, MdPause, MdPlayArrow } from "react-icons/md";
+
+import { selectMarketsInfoData, selectTokensData } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { getMarketIndexName } from "domain/synthetics/markets";
+import { TwapOrder, TwapOrderPauseReason } from "domain/synthetics/twap/types";
+import { useTwapOrders } from "domain/synthetics/twap/useTwapOrders";
+import { formatDateTime } from "lib/dates";
+import { formatTokenAmount, formatUsd } from "lib/numbers";
+import { getByKey } from "lib/objects";
+
+import Button from "components/Button/Button";
+import { MarketWithDirectionLabel } from "components/MarketWithDirectionLabel/MarketWithDirectionLabel";
+import { SwapMarketLabel } from "../../SwapMarketLabel/SwapMarketLabel";
+import { ExchangeTd, ExchangeTr } from "../OrderList/ExchangeTable";
+
+const pauseReasonLabels: Record<TwapOrderPauseReason, MessageDescriptor> = {
+  nativePayment: msg`Paused, native token payments can't be signed by One-Click Trading`,
+  subaccountPermissions: msg`Paused, not allowed by One-Click Trading permissions`,
+  sliceFailed: msg`Paused, the last slice failed`,
+};
+
+type Props = {
+  twapOrder: TwapOrder;
+  isLarge: boolean;
+  hideActions: boolean | undefined;
+};
+
+export function TwapOrderItem({ twapOrder, isLarge, hideActions }: Props) {
+  const { _ } = useLingui();
+  const marketsInfoData = useSelector(selectMarketsInfoData);
+  const tokensData = useSelector(selectTokensData);
+  const { updateTwapOrders, removeTwapOrders } = useTwapOrders();
+
+  const isPaused = twapOrder.status === "paused";
+
+  const title = useMemo(() => {
+    if (twapOrder.kind === "swap") {
+      return (
+        <SwapMarketLabel
+          bordered={isLarge}
+          fromSymbol={getByKey(tokensData, twapOrder.initialCollateralAddress)?.symbol}
+          toSymbol={getByKey(tokensData, twapOrder.toTokenAddress)?.symbol}
+        />
+      );
+    }
+
+    const marketInfo = getByKey(marketsInfoData, twapOrder.marketAddress);
+
+    if (!marketInfo) {
+      return "...";
+    }
+
+    return (
+      <MarketWithDirectionLabel
+        bordered={isLarge}
+        isLong={twapOrder.isLong}
+        indexName={getMarketIndexName(marketInfo)}
+        tokenSymbol={marketInfo.indexToken.symbol}
+      />
+    );
+  }, [isLarge, marketsInfoData, tokensData, twapOrder]);
+
+  const size = useMemo(() => {
+    if (twapOrder.kind === "increase") {
+      return formatUsd(twapOrder.sizeDeltaUsd);
+    }
+
+    const fromToken = getByKey(tokensData, twapOrder.initialCollateralAddress);
+
+    return formatTokenAmount(twapOrder.initialCollateralAmount, fromToken?.decimals, fromToken?.symbol);
+  }, [tokensData, twapOrder]);
+
+  const progress = t`TWAP ${twapOrder.executedSlicesCount}/${twapOrder.slicesCount}`;
+  const status = isPaused
+    ? twapOrder.pauseReason
+      ? _(pauseReasonLabels[twapOrder.pauseReason])
+      : t`Paused`
+    : formatDateTime(Math.floor(twapOrder.nextSliceAt / 1000));
+
+  const onTogglePause = useCallback(() => {
+    updateTwapOrders({
+      [twapOrder.id]: isPaused
+        ? { status: "active", pauseReason: undefined, nextSliceAt: Date.now() }
+        : { status: "paused", pauseReason: undefined },
+    });
+  }, [isPaused, twapOrder.id, updateTwapOrders]);
+
+  const onCancel = useCallback(() => {
+    removeTwapOrders([twapOrder.id]);
+  }, [removeTwapOrders, twapOrder.id]);
+
+  if (isLarge) {
+    return (
+      <ExchangeTr>
+        {!hideActions && <ExchangeTd />}
+        <ExchangeTd>{title}</ExchangeTd>
+        <ExchangeTd>{progress}</ExchangeTd>
+        <ExchangeTd>{size}</ExchangeTd>
+        <ExchangeTd>{status}</ExchangeTd>
+        <ExchangeTd />
+        {!hideActions && (
+          <ExchangeTd>
+            <div className="flex items-center">
+              <button className="cursor-pointer p-6 text-gray-300 hover:text-white" onClick={onTogglePause}>
+                {isPaused ? (
+                  <MdPlayArrow title={t`Resume TWAP order`} fontSize={16} />
+                ) : (
+                  <MdPause title={t`Pause TWAP order`} fontSize={16} />
+                )}
+              </button>
+              <button className="cursor-pointer p-6 text-gray-300 hover:text-white" onClick={onCancel}>
+                <MdClose title={t`Cancel TWAP order`} fontSize={16} />
+              </button>
+            </div>
+          </ExchangeTd>
+        )}
+      </ExchangeTr>
+    );
+  }
+
+  return (
+    <div className="App-card">
+      <div>
+        <div className="flex items-center">{title}</div>
+        <div className="App-card-divider" />
+        <div className="App-card-content">
+          <div className="App-card-row">
+            <div className="label">
+              <Trans>Order Type</Trans>
+            </div>
+            <div>{progress}</div>
+          </div>
+          <div className="App-card-row">
+            <div className="label">
+              <Trans>Size</Trans>
+            </div>
+            <div>{size}</div>
+          </div>
+          <div className="App-card-row">
+            <div className="label">
+              <Trans>Next Slice</Trans>
+            </div>
+            <div>{status}</div>
+          </div>
+        </div>
+      </div>
+      {!hideActions && (
+        <div className="App-card-actions">
+          <div className="App-card-divider"></div>
+          <div className="remove-top-margin">
+            <Button variant="secondary" className="mr-15 mt-15" onClick={onTogglePause}>
+              {isPaused ? <Trans>Resume</Trans> : <Trans>Pause</Trans>}
+            </Button>
+            <Button variant="secondary" className="mt-15" onClick={onCancel}>
+              <Trans>Cancel</Trans>
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
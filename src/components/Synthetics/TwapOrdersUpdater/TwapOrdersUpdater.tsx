@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { useLatest } from "react-use";
+
+import { useSubaccount, useSubaccountActionCounts } from "context/SubaccountContext/SubaccountContext";
+import { useSyntheticsEvents } from "context/SyntheticsEvents";
+import { useMarketsInfoData, useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { createIncreaseOrderTxn } from "domain/synthetics/orders/createIncreaseOrderTxn";
+import { createSwapOrderTxn } from "domain/synthetics/orders/createSwapOrderTxn";
+import { OrderType } from "domain/synthetics/orders/types";
+import { getMarkPrice } from "domain/synthetics/trade";
+import { TwapIncreaseOrder, TwapSwapOrder } from "domain/synthetics/twap/types";
+import { TwapOrderPatch, useTwapOrders } from "domain/synthetics/twap/useTwapOrders";
+import {
+  getIsTwapOrderSliceDue,
+  getTwapOrderPauseReason,
+  getTwapSliceAcceptablePrice,
+  getTwapSliceAmount,
+  getTwapSliceMinOutputAmount,
+} from "domain/synthetics/twap/utils";
+import { useChainId } from "lib/chains";
+import { getByKey } from "lib/objects";
+import useWallet from "lib/wallets/useWallet";
+
+const TWAP_CHECK_INTERVAL = 5 * 1000;
+
+type Props = {
+  setPendingTxns: (txns: any) => void;
+};
+
+export function TwapOrdersUpdater({ setPendingTxns }: Props) {
+  const { chainId } = useChainId();
+  const { account, signer } = useWallet();
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+  const subaccount = useSubaccount(null, 1);
+  const { remaining: remainingActions } = useSubaccountActionCounts();
+  const { setPendingOrder, setPendingPosition } = useSyntheticsEvents();
+  const { twapOrders, updateTwapOrders, removeTwapOrders } = useTwapOrders();
+  const [now, setNow] = useState(Date.now);
+
+  const updateTwapOrdersRef = useLatest(updateTwapOrders);
+  const removeTwapOrdersRef = useLatest(removeTwapOrders);
+  const pendingSliceIdsRef = useRef(new Set<string>());
+
+  useEffect(function tick() {
+    const interval = setInterval(() => setNow(Date.now()), TWAP_CHECK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(
+    function sendDueSlices() {
+      if (!account || !signer || !subaccount || !tokensData || !marketsInfoData) return;
+
+      let availableActions = Number(remainingActions) - pendingSliceIdsRef.current.size;
+      const pausedOrders: { [id: string]: TwapOrderPatch } = {};
+
+      for (const twapOrder of twapOrders) {
+        if (
+          !getIsTwapOrderSliceDue(twapOrder, now) ||
+          availableActions < 1 ||
+          pendingSliceIdsRef.current.has(twapOrder.id)
+        ) {
+          continue;
+        }
+
+        const pauseReason = getTwapOrderPauseReason(twapOrder, subaccount.permissions);
+
+        if (pauseReason) {
+          pausedOrders[twapOrder.id] = { status: "paused", pauseReason };
+          continue;
+        }
+
+        const sliceIndex = twapOrder.executedSlicesCount;
+        let sliceTxn: Promise<void> | undefined;
+
+        if (twapOrder.kind === "increase") {
+          sliceTxn = sendIncreaseSlice(twapOrder, sliceIndex);
+        } else {
+          sliceTxn = sendSwapSlice(twapOrder, sliceIndex);
+        }
+
+        if (!sliceTxn) continue;
+
+        availableActions -= 1;
+        pendingSliceIdsRef.current.add(twapOrder.id);
+
+        sliceTxn
+          .then(() => {
+            if (sliceIndex + 1 >= twapOrder.slicesCount) {
+              removeTwapOrdersRef.current([twapOrder.id]);
+              return;
+            }
+
+            updateTwapOrdersRef.current({
+              [twapOrder.id]: { executedSlicesCount: sliceIndex + 1, nextSliceAt: Date.now() + twapOrder.intervalMs },
+            });
+          })
+          .catch(() => {
+            updateTwapOrdersRef.current({ [twapOrder.id]: { status: "paused", pauseReason: "sliceFailed" } });
+          })
+          .finally(() => {
+            pendingSliceIdsRef.current.delete(twapOrder.id);
+          });
+      }
+
+      if (Object.keys(pausedOrders).length) {
+        updateTwapOrdersRef.current(pausedOrders);
+      }
+
+      function sendIncreaseSlice(twapOrder: TwapIncreaseOrder, sliceIndex: number) {
+        const marketInfo = getByKey(marketsInfoData, twapOrder.marketAddress);
+
+        if (!account || !signer || !marketInfo || !tokensData) return undefined;
+
+        const { indexToken } = marketInfo;
+        const markPrice = getMarkPrice({ prices: indexToken.prices, isIncrease: true, isLong: twapOrder.isLong });
+        const getSliceAmount = (amount: bigint) => getTwapSliceAmount(amount, twapOrder.slicesCount, sliceIndex);
+
+        return createIncreaseOrderTxn({
+          chainId,
+          signer,
+          subaccount,
+          createIncreaseOrderParams: {
+            account,
+            marketAddress: twapOrder.marketAddress,
+            initialCollateralAddress: twapOrder.initialCollateralAddress,
+            targetCollateralAddress: twapOrder.targetCollateralAddress,
+            initialCollateralAmount: getSliceAmount(twapOrder.initialCollateralAmount),
+            collateralDeltaAmount: getSliceAmount(twapOrder.collateralDeltaAmount),
+            swapPath: twapOrder.swapPath,
+            sizeDeltaUsd: getSliceAmount(twapOrder.sizeDeltaUsd),
+            sizeDeltaInTokens: getSliceAmount(twapOrder.sizeDeltaInTokens),
+            acceptablePrice: getTwapSliceAcceptablePrice(markPrice, twapOrder.acceptablePriceDeltaBps),
+            triggerPrice: undefined,
+            isLong: twapOrder.isLong,
+            orderType: OrderType.MarketIncrease,
+            executionFee: twapOrder.executionFee,
+            allowedSlippage: twapOrder.allowedSlippage,
+            skipSimulation: true,
+            referralCode: twapOrder.referralCode,
+            indexToken,
+            tokensData,
+            setPendingTxns,
+            setPendingOrder,
+            setPendingPosition,
+          },
+        });
+      }
+
+      function sendSwapSlice(twapOrder: TwapSwapOrder, sliceIndex: number) {
+        const fromToken = getByKey(tokensData, twapOrder.initialCollateralAddress);
+        const toToken = getByKey(tokensData, twapOrder.toTokenAddress);
+
+        if (!account || !signer || !fromToken || !toToken || !tokensData) return undefined;
+
+        return createSwapOrderTxn(chainId, signer, subaccount, {
+          account,
+          fromTokenAddress: twapOrder.initialCollateralAddress,
+          fromTokenAmount: getTwapSliceAmount(twapOrder.initialCollateralAmount, twapOrder.slicesCount, sliceIndex),
+          toTokenAddress: twapOrder.toTokenAddress,
+          swapPath: twapOrder.swapPath,
+          referralCode: twapOrder.referralCode,
+          tokensData,
+          minOutputAmount: getTwapSliceMinOutputAmount(twapOrder, sliceIndex, {
+            fromTokenPrice: fromToken.prices.minPrice,
+            toTokenPrice: toToken.prices.maxPrice,
+          }),
+          orderType: OrderType.MarketSwap,
+          executionFee: twapOrder.executionFee,
+          allowedSlippage: twapOrder.allowedSlippage,
+          setPendingTxns,
+          setPendingOrder,
+        });
+      }
+    },
+    [
+      account,
+      chainId,
+      marketsInfoData,
+      now,
+      remainingActions,
+      removeTwapOrdersRef,
+      setPendingOrder,
+      setPendingPosition,
+      setPendingTxns,
+      signer,
+      subaccount,
+      tokensData,
+      twapOrders,
+      updateTwapOrdersRef,
+    ]
+  );
+
+  return null;
+}
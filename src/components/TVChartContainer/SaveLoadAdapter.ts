@@ -1,44 +1,57 @@
-import { ChartData } from "charting_library";
-import { getTokenBySymbol } from "config/tokens";
+import { StudyTemplateData, StudyTemplateMetaInfo } from "charting_library";
+import omit from "lodash/omit";
+import { getTokenBySymbol, isChartAvailabeForToken } from "config/tokens";
+import {
+  ChartDrawingTemplates,
+  ChartLayout,
+  mergeChartDrawingTemplates,
+  mergeChartStudyTemplates,
+  migrateChartLayouts,
+} from "domain/synthetics/chartWorkspaces";
 import { Token } from "domain/tokens";
 
-type ChartDataInfo = ChartData & {
-  appVersion?: number;
-};
-
 export class SaveLoadAdapter {
   chainId: number;
-  charts: ChartDataInfo[] | undefined;
-  setTvCharts: (a: ChartDataInfo[]) => void;
+  charts: ChartLayout[] | undefined;
+  setTvCharts: (a: ChartLayout[]) => void;
   onSelectToken: (token: Token) => void;
   currentAppVersion: number;
-  setTradePageVersion: (version: number) => void;
+  studyTemplates: StudyTemplateData[];
+  setStudyTemplates: (a: StudyTemplateData[]) => void;
+  drawingTemplates: ChartDrawingTemplates;
+  setDrawingTemplates: (a: ChartDrawingTemplates) => void;
 
   constructor(
     chainId: number,
-    charts: ChartDataInfo[] | undefined,
-    setTvCharts: (a: ChartDataInfo[]) => void,
+    charts: ChartLayout[] | undefined,
+    setTvCharts: (a: ChartLayout[]) => void,
     onSelectToken: (token: Token) => void,
     currentAppVersion: number,
-    setTradePageVersion: (version: number) => void
+    studyTemplates: StudyTemplateData[] | undefined,
+    setStudyTemplates: (a: StudyTemplateData[]) => void,
+    drawingTemplates: ChartDrawingTemplates | undefined,
+    setDrawingTemplates: (a: ChartDrawingTemplates) => void
   ) {
     this.charts = charts;
     this.setTvCharts = setTvCharts;
     this.chainId = chainId;
     this.onSelectToken = onSelectToken;
     this.currentAppVersion = currentAppVersion;
-    this.setTradePageVersion = setTradePageVersion;
+    this.studyTemplates = studyTemplates ?? [];
+    this.setStudyTemplates = setStudyTemplates;
+    this.drawingTemplates = drawingTemplates ?? {};
+    this.setDrawingTemplates = setDrawingTemplates;
   }
 
   getAllCharts() {
-    const charts = this.charts || [];
-    const filteredCharts = charts.filter((chart) => {
-      if (!chart.appVersion) {
-        chart.appVersion = 1;
-      }
-      return chart.appVersion === this.currentAppVersion;
-    });
-    return Promise.resolve(filteredCharts);
+    const { charts, isChanged } = migrateChartLayouts(this.charts || [], this.currentAppVersion);
+
+    if (isChanged) {
+      this.charts = charts;
+      this.setTvCharts(charts);
+    }
+
+    return Promise.resolve(charts);
   }
 
   removeChart(id: string) {
@@ -80,15 +93,72 @@ export class SaveLoadAdapter {
     if (!this.charts) return Promise.reject();
     for (let i = 0; i < this.charts.length; ++i) {
       if (this.charts[i].id === id) {
-        const { content, symbol, appVersion = 1 } = this.charts[i];
-        if (this.currentAppVersion !== appVersion) {
-          this.setTradePageVersion(appVersion);
+        const { content, symbol } = this.charts[i];
+        if (isChartAvailabeForToken(this.chainId, symbol)) {
+          this.onSelectToken(getTokenBySymbol(this.chainId, symbol));
         }
-        const tokenInfo = getTokenBySymbol(this.chainId, symbol);
-        this.onSelectToken(tokenInfo);
         return Promise.resolve(content);
       }
     }
     return Promise.reject();
   }
+
+  getAllStudyTemplates() {
+    return Promise.resolve(this.studyTemplates.map(({ name }) => ({ name })));
+  }
+
+  removeStudyTemplate(studyTemplateInfo: StudyTemplateMetaInfo) {
+    this.studyTemplates = this.studyTemplates.filter((template) => template.name !== studyTemplateInfo.name);
+    this.setStudyTemplates(this.studyTemplates);
+
+    return Promise.resolve();
+  }
+
+  saveStudyTemplate(studyTemplateData: StudyTemplateData) {
+    this.importTemplates([studyTemplateData], {});
+
+    return Promise.resolve();
+  }
+
+  getStudyTemplateContent(studyTemplateInfo: StudyTemplateMetaInfo) {
+    const template = this.studyTemplates.find((template) => template.name === studyTemplateInfo.name);
+
+    return template ? Promise.resolve(template.content) : Promise.reject();
+  }
+
+  getDrawingTemplates(toolName: string) {
+    return Promise.resolve(Object.keys(this.drawingTemplates[toolName] ?? {}));
+  }
+
+  loadDrawingTemplate(toolName: string, templateName: string) {
+    const content = this.drawingTemplates[toolName]?.[templateName];
+
+    return content !== undefined ? Promise.resolve(content) : Promise.reject();
+  }
+
+  removeDrawingTemplate(toolName: string, templateName: string) {
+    this.drawingTemplates = {
+      ...this.drawingTemplates,
+      [toolName]: omit(this.drawingTemplates[toolName], templateName),
+    };
+    this.setDrawingTemplates(this.drawingTemplates);
+
+    return Promise.resolve();
+  }
+
+  saveDrawingTemplate(toolName: string, templateName: string, content: string) {
+    this.importTemplates([], { [toolName]: { [templateName]: content } });
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Used by chart workspaces, templates with the same name are replaced
+   */
+  importTemplates(studyTemplates: StudyTemplateData[], drawingTemplates: ChartDrawingTemplates) {
+    this.studyTemplates = mergeChartStudyTemplates(this.studyTemplates, studyTemplates);
+    this.drawingTemplates = mergeChartDrawingTemplates(this.drawingTemplates, drawingTemplates);
+    this.setStudyTemplates(this.studyTemplates);
+    this.setDrawingTemplates(this.drawingTemplates);
+  }
 }
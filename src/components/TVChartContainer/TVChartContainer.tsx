@@ -1,5 +1,9 @@
 import Loader from "components/Common/Loader";
-import { TV_SAVE_LOAD_CHARTS_KEY } from "config/localStorage";
+import {
+  TV_SAVE_LOAD_CHARTS_KEY,
+  TV_SAVE_LOAD_DRAWING_TEMPLATES_KEY,
+  TV_SAVE_LOAD_STUDY_TEMPLATES_KEY,
+} from "config/localStorage";
 import { getPriceDecimals, isChartAvailabeForToken } from "config/tokens";
 import { SUPPORTED_RESOLUTIONS_V1, SUPPORTED_RESOLUTIONS_V2 } from "config/tradingview";
 import { useSettings } from "context/SettingsContext/SettingsContextProvider";
@@ -9,23 +13,69 @@ import useTVDatafeed from "domain/tradingview/useTVDatafeed";
 import { getObjectKeyFromValue } from "domain/tradingview/utils";
 import { USD_DECIMALS } from "config/factors";
 import { formatAmount } from "lib/numbers";
+import { useLatestValueRef } from "lib/useLatestValueRef";
 import { useTradePageVersion } from "lib/useTradePageVersion";
 import { CSSProperties, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useLocalStorage, useMedia } from "react-use";
-import { ChartData, IChartingLibraryWidget, IPositionLineAdapter } from "../../charting_library";
+import { ChartDrawingTemplates, ChartLayout } from "domain/synthetics/chartWorkspaces";
+import {
+  ContextMenuItem,
+  Direction,
+  EntityId,
+  IChartingLibraryWidget,
+  IExecutionLineAdapter,
+  IOrderLineAdapter,
+  IPositionLineAdapter,
+  PineJS,
+  StudyTemplateData,
+} from "../../charting_library";
 import { SaveLoadAdapter } from "./SaveLoadAdapter";
 import { defaultChartProps, disabledFeaturesOnMobile } from "./constants";
+import { getMarketStudyIndicators } from "./marketStudies";
+
+export type TVChartHandle = {
+  widget: IChartingLibraryWidget;
+  saveLoadAdapter: SaveLoadAdapter;
+};
 
 export type ChartLine = {
   price: number;
   title: string;
+  color?: string;
+  /**
+   * Makes the line draggable, called with the price the line was dropped at
+   */
+  onMove?: (price: number) => void;
+};
+
+export type ChartMarker = {
+  id: string;
+  /**
+   * Unix timestamp in seconds
+   */
+  time: number;
+  price: number;
+  direction: Direction;
+  text: string;
+  tooltip: string;
+};
+
+export type ChartZone = {
+  id: string;
+  fromTime: number;
+  fromPrice: number;
+  toPrice: number;
+  color: string;
 };
 
 type Props = {
   symbol: string;
   chainId: number;
   chartLines: ChartLine[];
+  chartMarkers?: ChartMarker[];
+  chartZones?: ChartZone[];
   onSelectToken: (token: Token) => void;
+  getContextMenuItems?: (price: number) => ContextMenuItem[];
   period: string;
   setPeriod: (period: string) => void;
   dataProvider?: TVDataProvider;
@@ -36,32 +86,53 @@ type Props = {
     | { symbol: string };
   supportedResolutions: typeof SUPPORTED_RESOLUTIONS_V1 | typeof SUPPORTED_RESOLUTIONS_V2;
   oraclePriceDecimals?: number;
+  onChartReady?: (chart: TVChartHandle | undefined) => void;
+  /**
+   * Market which open interest, rates and pool imbalance are plotted by the market studies
+   */
+  studyMarketAddress?: string;
 };
 
 export default function TVChartContainer({
   symbol,
   chainId,
   chartLines,
+  chartMarkers,
+  chartZones,
   onSelectToken,
+  getContextMenuItems,
   dataProvider,
   period,
   setPeriod,
   chartToken,
   supportedResolutions,
   oraclePriceDecimals,
+  onChartReady,
+  studyMarketAddress,
 }: Props) {
   const { shouldShowPositionLines } = useSettings();
   const chartContainerRef = useRef<HTMLDivElement | null>(null);
   const tvWidgetRef = useRef<IChartingLibraryWidget | null>(null);
   const [chartReady, setChartReady] = useState(false);
   const [chartDataLoading, setChartDataLoading] = useState(true);
-  const [tvCharts, setTvCharts] = useLocalStorage<ChartData[] | undefined>(TV_SAVE_LOAD_CHARTS_KEY, []);
+  const [tvCharts, setTvCharts] = useLocalStorage<ChartLayout[] | undefined>(TV_SAVE_LOAD_CHARTS_KEY, []);
+  const [studyTemplates, setStudyTemplates] = useLocalStorage<StudyTemplateData[] | undefined>(
+    TV_SAVE_LOAD_STUDY_TEMPLATES_KEY,
+    []
+  );
+  const [drawingTemplates, setDrawingTemplates] = useLocalStorage<ChartDrawingTemplates | undefined>(
+    TV_SAVE_LOAD_DRAWING_TEMPLATES_KEY,
+    {}
+  );
 
-  const [tradePageVersion, setTradePageVersion] = useTradePageVersion();
+  const [tradePageVersion] = useTradePageVersion();
 
   const { datafeed } = useTVDatafeed({ dataProvider });
   const isMobile = useMedia("(max-width: 550px)");
   const symbolRef = useRef(symbol);
+  const getContextMenuItemsRef = useLatestValueRef(getContextMenuItems);
+  const onChartReadyRef = useLatestValueRef(onChartReady);
+  const studyMarketAddressRef = useLatestValueRef(studyMarketAddress);
 
   useEffect(() => {
     if (chartToken && "maxPrice" in chartToken && chartToken.minPrice !== undefined) {
@@ -85,9 +156,29 @@ export default function TVChartContainer({
   }, [chartToken, chartReady, dataProvider, chainId, oraclePriceDecimals]);
 
   const drawLineOnChart = useCallback(
-    (title: string, price: number) => {
+    (title: string, price: number, color = "#3a3e5e", onMove?: (price: number) => void) => {
       if (chartReady && tvWidgetRef.current?.activeChart?.().dataReady()) {
         const chart = tvWidgetRef.current.activeChart();
+
+        if (onMove) {
+          const orderLine = chart.createOrderLine({ disableUndo: true });
+
+          return orderLine
+            .setText(title)
+            .setPrice(price)
+            .setQuantity("")
+            .setEditable(true)
+            .setCancellable(false)
+            .setLineStyle(2)
+            .setLineLength(1)
+            .setBodyFont(`normal 12pt "Relative", sans-serif`)
+            .setBodyTextColor("#fff")
+            .setLineColor(color)
+            .setBodyBackgroundColor(color)
+            .setBodyBorderColor(color)
+            .onMove(() => onMove(orderLine.getPrice()));
+        }
+
         const positionLine = chart.createPositionLine({ disableUndo: true });
 
         return positionLine
@@ -98,9 +189,9 @@ export default function TVChartContainer({
           .setLineLength(1)
           .setBodyFont(`normal 12pt "Relative", sans-serif`)
           .setBodyTextColor("#fff")
-          .setLineColor("#3a3e5e")
-          .setBodyBackgroundColor("#3a3e5e")
-          .setBodyBorderColor("#3a3e5e");
+          .setLineColor(color)
+          .setBodyBackgroundColor(color)
+          .setBodyBorderColor(color);
       }
     },
     [chartReady]
@@ -108,10 +199,10 @@ export default function TVChartContainer({
 
   useEffect(
     function updateLines() {
-      const lines: (IPositionLineAdapter | undefined)[] = [];
+      const lines: (IPositionLineAdapter | IOrderLineAdapter | undefined)[] = [];
       if (shouldShowPositionLines) {
         chartLines.forEach((order) => {
-          lines.push(drawLineOnChart(order.title, order.price));
+          lines.push(drawLineOnChart(order.title, order.price, order.color, order.onMove));
         });
       }
       return () => {
@@ -121,6 +212,77 @@ export default function TVChartContainer({
     [chartLines, shouldShowPositionLines, drawLineOnChart]
   );
 
+  useEffect(
+    function updateMarkers() {
+      if (!shouldShowPositionLines || !chartMarkers?.length || !chartReady) return;
+
+      const chart = tvWidgetRef.current?.activeChart?.();
+
+      if (!chart?.dataReady()) return;
+
+      const shapes: IExecutionLineAdapter[] = chartMarkers.map((marker) => {
+        const color = marker.direction === "buy" ? "#0ecc83" : "#fa3c58";
+
+        return chart
+          .createExecutionShape({ disableUndo: true })
+          .setTime(marker.time)
+          .setPrice(marker.price)
+          .setDirection(marker.direction)
+          .setText(marker.text)
+          .setTooltip(marker.tooltip)
+          .setTextColor(color)
+          .setArrowColor(color);
+      });
+
+      return () => {
+        shapes.forEach((shape) => shape.remove());
+      };
+    },
+    [chartMarkers, chartReady, shouldShowPositionLines]
+  );
+
+  useEffect(
+    function updateZones() {
+      if (!shouldShowPositionLines || !chartZones?.length || !chartReady) return;
+
+      const chart = tvWidgetRef.current?.activeChart?.();
+
+      if (!chart?.dataReady()) return;
+
+      const now = Math.floor(Date.now() / 1000);
+      const entityIds = chartZones
+        .map((zone) =>
+          chart.createMultipointShape(
+            [
+              { time: zone.fromTime, price: zone.fromPrice },
+              { time: now, price: zone.toPrice },
+            ],
+            {
+              shape: "rectangle",
+              lock: true,
+              disableSelection: true,
+              disableSave: true,
+              disableUndo: true,
+              showInObjectsTree: false,
+              zOrder: "bottom",
+              overrides: {
+                backgroundColor: zone.color,
+                color: zone.color,
+                transparency: 85,
+                extendRight: true,
+              },
+            }
+          )
+        )
+        .filter((entityId): entityId is EntityId => entityId !== null);
+
+      return () => {
+        entityIds.forEach((entityId) => chart.removeEntity(entityId, { disableUndo: true }));
+      };
+    },
+    [chartZones, chartReady, shouldShowPositionLines]
+  );
+
   useEffect(() => {
     if (chartReady && tvWidgetRef.current && symbol !== tvWidgetRef.current?.activeChart?.().symbol()) {
       if (isChartAvailabeForToken(chainId, symbol)) {
@@ -130,8 +292,27 @@ export default function TVChartContainer({
     }
   }, [symbol, chartReady, period, chainId, oraclePriceDecimals, datafeed]);
 
+  useEffect(() => {
+    // studies read the market when they are initialized, reloading the data initializes them again
+    if (chartReady && tvWidgetRef.current?.activeChart?.().dataReady()) {
+      tvWidgetRef.current.activeChart().resetData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [studyMarketAddress]);
+
   useEffect(() => {
     datafeed.setOraclePriceDecimals(oraclePriceDecimals);
+    const saveLoadAdapter = new SaveLoadAdapter(
+      chainId,
+      tvCharts,
+      setTvCharts,
+      onSelectToken,
+      tradePageVersion,
+      studyTemplates,
+      setStudyTemplates,
+      drawingTemplates,
+      setDrawingTemplates
+    );
     const widgetOptions = {
       debug: false,
       symbol: symbolRef.current, // Using ref to avoid unnecessary re-renders on symbol change and still have access to the latest symbol
@@ -154,14 +335,9 @@ export default function TVChartContainer({
       interval: getObjectKeyFromValue(period, supportedResolutions),
       favorites: { ...defaultChartProps.favorites, intervals: Object.keys(supportedResolutions) },
       custom_formatters: defaultChartProps.custom_formatters,
-      save_load_adapter: new SaveLoadAdapter(
-        chainId,
-        tvCharts,
-        setTvCharts,
-        onSelectToken,
-        tradePageVersion,
-        setTradePageVersion
-      ),
+      save_load_adapter: saveLoadAdapter,
+      custom_indicators_getter: (PineJS: PineJS) =>
+        Promise.resolve(getMarketStudyIndicators(PineJS, () => studyMarketAddressRef.current)),
     };
     tvWidgetRef.current = new window.TradingView.widget(widgetOptions);
     tvWidgetRef.current!.onChartReady(function () {
@@ -170,6 +346,7 @@ export default function TVChartContainer({
         "paneProperties.background": "#16182e",
         "paneProperties.backgroundType": "solid",
       });
+      tvWidgetRef.current!.onContextMenu((_, price) => getContextMenuItemsRef.current?.(price) ?? []);
       tvWidgetRef.current
         ?.activeChart()
         .onIntervalChanged()
@@ -183,12 +360,17 @@ export default function TVChartContainer({
       tvWidgetRef.current?.activeChart().dataReady(() => {
         setChartDataLoading(false);
       });
+
+      onChartReadyRef.current?.({ widget: tvWidgetRef.current!, saveLoadAdapter });
     });
 
     dataProvider?.resetCache();
 
+    const chartReadyCallbackRef = onChartReadyRef;
+
     return () => {
       if (tvWidgetRef.current) {
+        chartReadyCallbackRef.current?.(undefined);
         tvWidgetRef.current.remove();
         tvWidgetRef.current = null;
         setChartReady(false);
@@ -0,0 +1,120 @@
+import { CustomIndicator, PineJS } from "charting_library";
+import { MarketStudySeries, getMarketStudyTicker } from "domain/synthetics/chartStudies";
+
+const GREEN = "#0ecc83";
+const RED = "#fa3c58";
+const BLUE = "#2962ff";
+
+type MarketStudyConfig = {
+  series: MarketStudySeries;
+  name: string;
+  shortName: string;
+  format: { type: "volume" } | { type: "price"; precision: number };
+  /**
+   * Imbalance is plotted as a single histogram of the long side share minus the short side share
+   */
+  isDifference?: boolean;
+};
+
+const MARKET_STUDIES: MarketStudyConfig[] = [
+  { series: "openInterest", name: "GMX Open Interest", shortName: "OI", format: { type: "volume" } },
+  { series: "fundingRate", name: "GMX Funding APR", shortName: "Funding APR", format: { type: "price", precision: 4 } },
+  {
+    series: "borrowingRate",
+    name: "GMX Borrowing APR",
+    shortName: "Borrowing APR",
+    format: { type: "price", precision: 4 },
+  },
+  {
+    series: "poolImbalance",
+    name: "GMX Pool Imbalance",
+    shortName: "Pool Imbalance",
+    format: { type: "price", precision: 2 },
+    isDifference: true,
+  },
+];
+
+function getPlotStyle(color: string, plottype: number) {
+  return { linestyle: 0, linewidth: 1, plottype, trackPrice: false, transparency: 0, visible: true, color };
+}
+
+function getMetainfo(config: MarketStudyConfig) {
+  const plots = config.isDifference
+    ? [{ id: "plot_0", type: "line" }]
+    : [
+        { id: "plot_0", type: "line" },
+        { id: "plot_1", type: "line" },
+      ];
+
+  const styles = config.isDifference
+    ? { plot_0: getPlotStyle(BLUE, 1) }
+    : { plot_0: getPlotStyle(GREEN, 0), plot_1: getPlotStyle(RED, 0) };
+
+  const plotTitles = config.isDifference
+    ? { plot_0: { title: "Long - Short", histogramBase: 0 } }
+    : { plot_0: { title: "Long", histogramBase: 0 }, plot_1: { title: "Short", histogramBase: 0 } };
+
+  return {
+    _metainfoVersion: 51,
+    id: `${config.name}@tv-basicstudies-1`,
+    name: config.name,
+    description: config.name,
+    shortDescription: config.shortName,
+    is_hidden_study: false,
+    is_price_study: false,
+    isCustomIndicator: true,
+    format: config.format,
+    plots,
+    defaults: { styles, inputs: {} },
+    styles: plotTitles,
+    inputs: [],
+  };
+}
+
+/**
+ * Studies request the series of the selected market as an additional symbol of the datafeed,
+ * the values are aligned to the bars of the main series
+ */
+export function getMarketStudyIndicators(
+  PineJS: PineJS,
+  getMarketAddress: () => string | undefined
+): CustomIndicator[] {
+  return MARKET_STUDIES.map((config) => ({
+    name: config.name,
+    metainfo: getMetainfo(config),
+    constructor: function (this: any) {
+      this.init = function (context: any) {
+        this._context = context;
+        this._isAvailable = false;
+
+        const marketAddress = getMarketAddress();
+
+        if (marketAddress) {
+          this._isAvailable = true;
+          this._context.new_sym(getMarketStudyTicker(config.series, marketAddress), PineJS.Std.period(this._context));
+        }
+      };
+
+      this.main = function (context: any) {
+        this._context = context;
+
+        if (!this._isAvailable) {
+          return config.isDifference ? [NaN] : [NaN, NaN];
+        }
+
+        this._context.select_sym(1);
+        const studyTime = this._context.new_var(this._context.symbol.time);
+        const long = this._context.new_var(PineJS.Std.open(this._context));
+        const short = this._context.new_var(PineJS.Std.close(this._context));
+
+        this._context.select_sym(0);
+        const mainTime = this._context.new_var(this._context.symbol.time);
+
+        const longValue = long.adopt(studyTime, mainTime, 0);
+        const shortValue = short.adopt(studyTime, mainTime, 0);
+
+        return config.isDifference ? [longValue - shortValue] : [longValue, shortValue];
+      };
+    },
+  }));
+}
@@ -17,6 +17,8 @@ export const SHOULD_SHOW_POSITION_LINES_KEY = "Exchange-swap-should-show-positio
 export const REFERRAL_CODE_KEY = "GMX-referralCode";
 export const REFERRALS_SELECTED_TAB_KEY = "Referrals-selected-tab";
 export const TV_SAVE_LOAD_CHARTS_KEY = "tv-save-load-charts";
+export const TV_SAVE_LOAD_STUDY_TEMPLATES_KEY = "tv-save-load-study-templates";
+export const TV_SAVE_LOAD_DRAWING_TEMPLATES_KEY = "tv-save-load-drawing-templates";
 export const TV_CHART_RELOAD_TIMESTAMP_KEY = "tv-chart-reload-timestamp";
 export const REDIRECT_POPUP_TIMESTAMP_KEY = "redirect-popup-timestamp";
 export const LEVERAGE_OPTION_KEY = "leverage-option";
@@ -25,6 +27,20 @@ export const KEEP_LEVERAGE_FOR_DECREASE_KEY = "Exchange-keep-leverage";
 export const TRADE_LINK_KEY = "trade-link";
 export const SHOW_DEBUG_VALUES_KEY = "show-debug-values";
 export const ORACLE_KEEPER_INSTANCES_CONFIG_KEY = "oracle-keeper-instances-config";
+export const SIDECAR_ORDER_TEMPLATES_KEY = "sidecar-order-templates";
+export const TRAILING_STOPS_KEY = "trailing-stops";
+export const TWAP_ORDERS_KEY = "twap-orders";
+export const PAPER_TRADING_ENABLED_KEY = "paper-trading-enabled";
+export const PAPER_TRADING_ACCOUNT_KEY = "paper-trading-account";
+export const PRICE_ALERTS_KEY = "price-alerts";
+export const ACCOUNT_WATCHLIST_KEY = "account-watchlist";
+export const ACCOUNT_WATCHLIST_MIRROR_COLLATERAL_KEY = "account-watchlist-mirror-collateral";
+export const SUBACCOUNT_ACTIVITY_KEY = "subaccount-activity";
+export const CONDITIONAL_ORDER_RULES_KEY = "conditional-order-rules";
+export const CONDITIONAL_ORDERS_LOG_KEY = "conditional-orders-log";
+export const GM_HEDGES_KEY = "gm-hedges";
+export const CHART_WORKSPACES_KEY = "chart-workspaces";
+export const ACTIVE_CHART_WORKSPACE_KEY = "active-chart-workspace";
 
 export const SYNTHETICS_TRADE_OPTIONS = "synthetics-trade-options";
 export const SYNTHETICS_ACCEPTABLE_PRICE_IMPACT_BUFFER_KEY = "synthetics-acceptable-price-impact-buffer";
@@ -56,6 +72,7 @@ export const METRICS_PENDING_EVENTS_KEY = "metrics-pending-events";
 export const METRICS_TIMERS_KEY = "metrics-timers-key";
 
 export const DEBUG_MULTICALL_BATCHING_KEY = "debug-multicall-batching";
+export const CUSTOM_RPC_URL_KEY = "custom-rpc-url";
 
 export const AB_FLAG_STORAGE_KEY = "ab-flags";
 
@@ -119,6 +136,54 @@ export function getSubaccountConfigKey(chainId: number | undefined, account: str
   return [chainId, account, "one-click-trading-config"];
 }
 
+export function getSubaccountsConfigKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, "one-click-trading-subaccounts"];
+}
+
+export function getTrailingStopsKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, TRAILING_STOPS_KEY];
+}
+
+export function getTwapOrdersKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, TWAP_ORDERS_KEY];
+}
+
+export function getPaperTradingAccountKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, PAPER_TRADING_ACCOUNT_KEY];
+}
+
+export function getPriceAlertsKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, PRICE_ALERTS_KEY];
+}
+
+export function getConditionalOrderRulesKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, CONDITIONAL_ORDER_RULES_KEY];
+}
+
+export function getConditionalOrdersLogKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, CONDITIONAL_ORDERS_LOG_KEY];
+}
+
+export function getGmHedgesKey(chainId: number | undefined, account: string | undefined) {
+  if (!chainId || !account) return null;
+  return [chainId, account, GM_HEDGES_KEY];
+}
+
+export function getAccountWatchlistKey(chainId: number) {
+  return [chainId, ACCOUNT_WATCHLIST_KEY];
+}
+
+export function getAccountWatchlistMirrorCollateralKey(chainId: number) {
+  return [chainId, ACCOUNT_WATCHLIST_MIRROR_COLLATERAL_KEY];
+}
+
 export function getSyntheticsReceiveMoneyTokenKey(
   chainId: number,
   marketName: string | undefined,
@@ -128,6 +193,14 @@ export function getSyntheticsReceiveMoneyTokenKey(
   return [chainId, CLOSE_POSITION_RECEIVE_TOKEN_KEY, marketName, direction, collateralToken];
 }
 
+export function getSubaccountActivityKey(chainId: number, subaccountAddress: string) {
+  return [chainId, subaccountAddress, SUBACCOUNT_ACTIVITY_KEY];
+}
+
+export function getCustomRpcUrlKey(chainId: number) {
+  return [chainId, CUSTOM_RPC_URL_KEY];
+}
+
 export function getIsMulticallBatchingDisabledKey() {
   return [DEBUG_MULTICALL_BATCHING_KEY, "disabled"];
 }
@@ -16,9 +16,8 @@ import {
   subaccountAutoTopUpAmountKey,
   subaccountListKey,
 } from "config/dataStore";
-import { getSubaccountConfigKey } from "config/localStorage";
+import { getSubaccountConfigKey, getSubaccountsConfigKey } from "config/localStorage";
 import { getNativeToken, getWrappedToken } from "config/tokens";
-import cryptoJs from "crypto-js";
 import { useTransactionPending } from "domain/synthetics/common/useTransactionReceipt";
 import {
   estimateExecuteIncreaseOrderGasLimit,
@@ -26,8 +25,21 @@ import {
   useGasLimits,
   useGasPrice,
 } from "domain/synthetics/fees";
-import { STRING_FOR_SIGNING } from "domain/synthetics/subaccount/constants";
-import { SubaccountSerializedConfig } from "domain/synthetics/subaccount/types";
+import {
+  NamedSubaccountConfig,
+  SubaccountPermissions,
+  SubaccountSerializedConfig,
+  SubaccountsSerializedConfig,
+} from "domain/synthetics/subaccount/types";
+import {
+  DEFAULT_SUBACCOUNT_NAME,
+  DEFAULT_SUBACCOUNT_PERMISSIONS,
+  decryptSubaccountPrivateKey,
+  encryptSubaccountPrivateKey,
+  getNextSubaccountIndex,
+  getSubaccountSigningMessage,
+  getSubaccountsConfig,
+} from "domain/synthetics/subaccount/utils";
 import { useTokenBalances, useTokensDataRequest } from "domain/synthetics/tokens";
 import { ethers } from "ethers";
 import { useChainId } from "lib/chains";
@@ -67,12 +79,18 @@ export type SubaccountContext = {
   subaccount: {
     address: string;
     privateKey: string;
+    permissions: SubaccountPermissions;
   } | null;
+  subaccounts: NamedSubaccountConfig[];
   modalOpen: boolean;
   notificationState: SubaccountNotificationState;
 
   clearSubaccount: () => void;
-  generateSubaccount: () => Promise<string | null>;
+  generateSubaccount: (name?: string) => Promise<string | null>;
+  switchSubaccount: (address: string) => void;
+  renameSubaccount: (address: string, name: string) => void;
+  setSubaccountPermissions: (address: string, permissions: SubaccountPermissions) => void;
+  importSubaccount: (config: NamedSubaccountConfig) => void;
   setActiveTx: (tx: string | null) => void;
   setModalOpen: (v: boolean) => void;
   setNotificationState: (state: SubaccountNotificationState) => void;
@@ -100,10 +118,22 @@ export function SubaccountContextProvider({ children }: PropsWithChildren) {
 
   const { signer, account } = useWallet();
   const { chainId } = useChainId();
-  const [config, setConfig] = useLocalStorageSerializeKey<SubaccountSerializedConfig>(
+  const [legacyConfig] = useLocalStorageSerializeKey<SubaccountSerializedConfig>(
     getSubaccountConfigKey(chainId, account),
     null
   );
+  const [storedSubaccountsConfig, setSubaccountsConfig] =
+    useLocalStorageSerializeKey<SubaccountsSerializedConfig | null>(getSubaccountsConfigKey(chainId, account), null);
+  const subaccountsConfig = useMemo(
+    () => getSubaccountsConfig(storedSubaccountsConfig, legacyConfig),
+    [legacyConfig, storedSubaccountsConfig]
+  );
+  const config = useMemo(
+    () =>
+      subaccountsConfig.subaccounts.find((subaccount) => subaccount.address === subaccountsConfig.activeAddress) ??
+      null,
+    [subaccountsConfig]
+  );
 
   const gasPrice = useGasPrice(chainId);
   const gasLimits = useGasLimits(chainId);
@@ -134,29 +164,82 @@ export function SubaccountContextProvider({ children }: PropsWithChildren) {
     return [executionFee, networkFee];
   }, [chainId, gasLimits, gasPrice, tokensData]);
 
-  const generateSubaccount = useCallback(async () => {
-    if (!account) throw new Error("Account is not set");
+  const generateSubaccount = useCallback(
+    async (name?: string) => {
+      if (!account) throw new Error("Account is not set");
 
-    const signature = await signer?.signMessage(STRING_FOR_SIGNING);
+      const index = getNextSubaccountIndex(subaccountsConfig.subaccounts);
+      const signature = await signer?.signMessage(getSubaccountSigningMessage(index));
 
-    if (!signature) return null;
+      if (!signature) return null;
 
-    const pk = ethers.keccak256(signature);
-    const subWallet = new ethers.Wallet(pk);
+      const pk = ethers.keccak256(signature);
+      const subWallet = new ethers.Wallet(pk);
 
-    const encrypted = cryptoJs.AES.encrypt(pk, account);
-
-    setConfig({
-      privateKey: encrypted.toString(),
-      address: subWallet.address,
-    });
+      setSubaccountsConfig({
+        activeAddress: subWallet.address,
+        subaccounts: [
+          ...subaccountsConfig.subaccounts,
+          {
+            name: name || (index === 0 ? DEFAULT_SUBACCOUNT_NAME : `#${index}`),
+            index,
+            privateKey: encryptSubaccountPrivateKey(pk, account),
+            address: subWallet.address,
+            permissions: DEFAULT_SUBACCOUNT_PERMISSIONS,
+          },
+        ],
+      });
 
-    return subWallet.address;
-  }, [account, setConfig, signer]);
+      return subWallet.address;
+    },
+    [account, setSubaccountsConfig, signer, subaccountsConfig.subaccounts]
+  );
 
   const clearSubaccount = useCallback(() => {
-    setConfig(null);
-  }, [setConfig]);
+    const subaccounts = subaccountsConfig.subaccounts.filter(
+      (subaccount) => subaccount.address !== subaccountsConfig.activeAddress
+    );
+
+    setSubaccountsConfig({ activeAddress: subaccounts[0]?.address ?? null, subaccounts });
+  }, [setSubaccountsConfig, subaccountsConfig]);
+
+  const switchSubaccount = useCallback(
+    (address: string) => setSubaccountsConfig({ ...subaccountsConfig, activeAddress: address }),
+    [setSubaccountsConfig, subaccountsConfig]
+  );
+
+  const updateSubaccount = useCallback(
+    (address: string, update: Partial<NamedSubaccountConfig>) =>
+      setSubaccountsConfig({
+        ...subaccountsConfig,
+        subaccounts: subaccountsConfig.subaccounts.map((subaccount) =>
+          subaccount.address === address ? { ...subaccount, ...update } : subaccount
+        ),
+      }),
+    [setSubaccountsConfig, subaccountsConfig]
+  );
+
+  const renameSubaccount = useCallback(
+    (address: string, name: string) => updateSubaccount(address, { name }),
+    [updateSubaccount]
+  );
+
+  const setSubaccountPermissions = useCallback(
+    (address: string, permissions: SubaccountPermissions) => updateSubaccount(address, { permissions }),
+    [updateSubaccount]
+  );
+
+  const importSubaccount = useCallback(
+    (imported: NamedSubaccountConfig) =>
+      setSubaccountsConfig({
+        activeAddress: imported.address,
+        subaccounts: [
+          ...subaccountsConfig.subaccounts.filter((subaccount) => subaccount.address !== imported.address),
+          imported,
+        ],
+      }),
+    [setSubaccountsConfig, subaccountsConfig.subaccounts]
+  );
 
   const [activeTx, setActiveTx] = useState<string | null>(null);
   const [contractData, setContractData] = useState<SubaccountContext["contractData"] | null>(null);
@@ -221,12 +304,18 @@ export function SubaccountContextProvider({ children }: PropsWithChildren) {
         ? {
             address: config.address,
             privateKey: config.privateKey,
+            permissions: config.permissions,
           }
         : null,
+      subaccounts: subaccountsConfig.subaccounts,
       contractData: config && contractData ? contractData : null,
       refetchContractData,
       generateSubaccount,
       clearSubaccount,
+      switchSubaccount,
+      renameSubaccount,
+      setSubaccountPermissions,
+      importSubaccount,
       notificationState,
       activeTx,
       setActiveTx,
@@ -241,8 +330,13 @@ export function SubaccountContextProvider({ children }: PropsWithChildren) {
     defaultExecutionFee,
     defaultNetworkFee,
     generateSubaccount,
+    importSubaccount,
     modalOpen,
     notificationState,
+    renameSubaccount,
+    setSubaccountPermissions,
+    subaccountsConfig.subaccounts,
+    switchSubaccount,
   ]);
 
   return <context.Provider value={value}>{children}</context.Provider>;
@@ -268,6 +362,14 @@ export function useSubaccountAddress() {
   return useSubaccountSelector((s) => s.subaccount?.address ?? null);
 }
 
+export function useSubaccountPermissions() {
+  return useSubaccountSelector((s) => s.subaccount?.permissions ?? DEFAULT_SUBACCOUNT_PERMISSIONS);
+}
+
+export function useSubaccounts() {
+  return useSubaccountSelector((s) => s.subaccounts);
+}
+
 function useSubaccountPrivateKey() {
   const encryptedString = useSubaccountSelector((s) => s.subaccount?.privateKey ?? null);
   const { account } = useWallet();
@@ -277,11 +379,7 @@ function useSubaccountPrivateKey() {
     // race condition when switching accounts:
     // account is already another address
     // while the encryptedString is still from the previous account
-    try {
-      return cryptoJs.AES.decrypt(encryptedString, account).toString(cryptoJs.enc.Utf8);
-    } catch (e) {
-      return null;
-    }
+    return decryptSubaccountPrivateKey(encryptedString, account);
   }, [account, encryptedString]);
 }
 
@@ -330,6 +428,7 @@ export function useSubaccount(requiredBalance: bigint | null, requiredActions =
   const defaultExecutionFee = useSubaccountDefaultExecutionFee();
   const insufficientFunds = useSubaccountInsufficientFunds(requiredBalance ?? defaultExecutionFee);
   const subaccountCustomSigners = useSubaccountCustomSigners();
+  const permissions = useSubaccountPermissions();
 
   const { remaining } = useSubaccountActionCounts();
   const { walletClient } = useWallet();
@@ -354,10 +453,12 @@ export function useSubaccount(requiredBalance: bigint | null, requiredActions =
       active,
       signer: wallet,
       customSigners: subaccountCustomSigners,
+      permissions,
     };
   }, [
     address,
     active,
+    permissions,
     privateKey,
     insufficientFunds,
     walletClient,
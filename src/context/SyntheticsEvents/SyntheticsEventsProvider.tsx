@@ -46,17 +46,20 @@ import {
   PendingFundingFeeSettlementData,
   PendingOrderData,
   PendingPositionsUpdates,
+  PendingPositionMigrationData,
   PendingPositionUpdate,
   PendingShiftData,
   PendingWithdrawalData,
   PositionDecreaseEvent,
   PositionIncreaseEvent,
+  PositionMigrationStatus,
   ShiftCreatedEventData,
   ShiftStatuses,
   SyntheticsEventsContextType,
   WithdrawalCreatedEventData,
   WithdrawalStatuses,
 } from "./types";
+import { getPendingOrderKey } from "./utils";
 import { useGlvMarketsInfo } from "domain/synthetics/markets/useGlvMarkets";
 import { GLV_ENABLED } from "config/markets";
 
@@ -98,6 +101,7 @@ export function SyntheticsEventsProvider({ children }: { children: ReactNode })
   const [pendingPositionsUpdates, setPendingPositionsUpdates] = useState<PendingPositionsUpdates>({});
   const [positionIncreaseEvents, setPositionIncreaseEvents] = useState<PositionIncreaseEvent[]>([]);
   const [positionDecreaseEvents, setPositionDecreaseEvents] = useState<PositionDecreaseEvent[]>([]);
+  const [positionMigrationStatuses, setPositionMigrationStatuses] = useState<PositionMigrationStatus[]>([]);
 
   const eventLogHandlers = useRef({});
 
@@ -180,6 +184,19 @@ export function SyntheticsEventsProvider({ children }: { children: ReactNode })
           : getPositionOrderMetricId(order);
 
         sendOrderExecutedMetric(metricId);
+
+        const pendingOrderKey = getPendingOrderKey(order);
+
+        // the migration is done when both of its orders are executed
+        setPositionMigrationStatuses((old) =>
+          old
+            .map((status) =>
+              status.orderKeys.includes(pendingOrderKey)
+                ? { ...status, executedOrderKeys: [...status.executedOrderKeys, pendingOrderKey] }
+                : status
+            )
+            .filter((status) => status.executedOrderKeys.length < status.orderKeys.length)
+        );
       }
 
       setOrderStatuses((old) => {
@@ -220,6 +237,17 @@ export function SyntheticsEventsProvider({ children }: { children: ReactNode })
           : getPositionOrderMetricId(order);
 
         sendOrderCancelledMetric(metricId, eventData);
+
+        const pendingOrderKey = getPendingOrderKey(order);
+
+        // one order of the migration can still be executed, so the user is notified to check both positions
+        if (positionMigrationStatuses.some((status) => status.orderKeys.includes(pendingOrderKey))) {
+          pushErrorNotification(chainId, t`Position migration was not completed, check both positions`, {
+            transactionHash: txnParams.transactionHash,
+          });
+
+          setPositionMigrationStatuses((old) => old.filter((status) => !status.orderKeys.includes(pendingOrderKey)));
+        }
       }
 
       // If pending user order is cancelled, reset the pending position state
@@ -737,6 +765,7 @@ export function SyntheticsEventsProvider({ children }: { children: ReactNode })
       withdrawalStatuses,
       shiftStatuses,
       pendingPositionsUpdates,
+      positionMigrationStatuses,
       positionIncreaseEvents,
       positionDecreaseEvents,
       setPendingOrder: (data: PendingOrderData | PendingOrderData[]) => {
@@ -772,6 +801,32 @@ export function SyntheticsEventsProvider({ children }: { children: ReactNode })
           }
         );
       },
+      setPendingPositionMigration: (data: PendingPositionMigrationData) => {
+        const toastId = Date.now();
+
+        setPositionMigrationStatuses((old) => [
+          ...old,
+          { orderKeys: data.orders.map(getPendingOrderKey), executedOrderKeys: [], createdAt: toastId },
+        ]);
+        setPendingPositionsUpdates((old) =>
+          data.positions.reduce((acc, update) => setByKey(acc, update.positionKey, update), old)
+        );
+
+        helperToast.success(
+          <OrdersStatusNotificiation
+            pendingOrderData={data.orders}
+            marketsInfoData={marketsInfoData}
+            tokensData={tokensData}
+            toastTimestamp={toastId}
+            setPendingTxns={setPendingTxns}
+          />,
+          {
+            autoClose: false,
+            toastId,
+            className: "OrdersStatusNotificiation",
+          }
+        );
+      },
       setPendingDeposit: (data: PendingDepositData) => {
         const toastId = Date.now();
 
@@ -846,6 +901,7 @@ export function SyntheticsEventsProvider({ children }: { children: ReactNode })
     orderStatuses,
     pendingPositionsUpdates,
     positionDecreaseEvents,
+    positionMigrationStatuses,
     positionIncreaseEvents,
     setPendingTxns,
     shiftStatuses,
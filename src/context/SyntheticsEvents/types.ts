@@ -6,11 +6,13 @@ export type SyntheticsEventsContextType = {
   withdrawalStatuses: WithdrawalStatuses;
   shiftStatuses: ShiftStatuses;
   pendingPositionsUpdates: PendingPositionsUpdates;
+  positionMigrationStatuses: PositionMigrationStatus[];
   positionIncreaseEvents: PositionIncreaseEvent[] | undefined;
   positionDecreaseEvents: PositionDecreaseEvent[] | undefined;
   setPendingOrder: SetPendingOrder;
   setPendingFundingFeeSettlement: SetPendingFundingFeeSettlement;
   setPendingPosition: SetPendingPosition;
+  setPendingPositionMigration: SetPendingPositionMigration;
   setPendingDeposit: SetPendingDeposit;
   setPendingWithdrawal: SetPendingWithdrawal;
   setPendingShift: SetPendingShift;
@@ -26,12 +28,30 @@ export type SetPendingDeposit = (data: PendingDepositData) => void;
 export type SetPendingWithdrawal = (data: PendingWithdrawalData) => void;
 export type SetPendingShift = (data: PendingShiftData) => void;
 export type SetPendingFundingFeeSettlement = (data: PendingFundingFeeSettlementData) => void;
+export type SetPendingPositionMigration = (data: PendingPositionMigrationData) => void;
 
 export type PendingFundingFeeSettlementData = {
   orders: PendingOrderData[];
   positions: PendingPositionUpdate[];
 };
 
+/**
+ * Decrease of the migrated position and increase of the target position sent in one transaction
+ */
+export type PendingPositionMigrationData = {
+  orders: PendingOrderData[];
+  positions: PendingPositionUpdate[];
+};
+
+export type PositionMigrationStatus = {
+  /**
+   * Pending order keys of the orders of the migration
+   */
+  orderKeys: string[];
+  executedOrderKeys: string[];
+  createdAt: number;
+};
+
 export type OrderCreatedEventData = {
   key: string;
   account: string;
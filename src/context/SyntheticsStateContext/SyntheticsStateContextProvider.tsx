@@ -14,6 +14,7 @@ import {
 } from "domain/synthetics/markets";
 import { OrderEditorState, useOrderEditorState } from "domain/synthetics/orders/useOrderEditorState";
 import { AggregatedOrdersDataResult, useOrdersInfoRequest } from "domain/synthetics/orders/useOrdersInfo";
+import { usePaperTradingState } from "domain/synthetics/paperTrading/usePaperTradingState";
 import {
   PositionsConstantsResult,
   PositionsInfoResult,
@@ -58,6 +59,7 @@ export type SyntheticsState = {
     marketsInfo: MarketsInfoResult;
     positionsInfo: PositionsInfoResult;
     account: string | undefined;
+    isPaperTrading: boolean;
     ordersInfo: AggregatedOrdersDataResult;
     positionsConstants: PositionsConstantsResult["positionsConstants"];
     uiFeeFactor: bigint;
@@ -126,13 +128,13 @@ export function SyntheticsStateContextProvider({
   const chainId = isLeaderboardPage ? leaderboard.chainId : overrideChainId ?? selectedChainId;
 
   const markets = useMarkets(chainId);
-  const marketsInfo = useMarketsInfoRequest(chainId);
+  const requestedMarketsInfo = useMarketsInfoRequest(chainId);
 
   const shouldFetchGlvMarkets =
     GLV_ENABLED[chainId] && (pageType === "pools" || pageType === "earn" || pageType === "buy");
   const glvInfo = useGlvMarketsInfo(shouldFetchGlvMarkets, {
-    marketsInfoData: marketsInfo.marketsInfoData,
-    tokensData: marketsInfo.tokensData,
+    marketsInfoData: requestedMarketsInfo.marketsInfoData,
+    tokensData: requestedMarketsInfo.tokensData,
     chainId: chainId,
     account: account,
   });
@@ -153,24 +155,38 @@ export function SyntheticsStateContextProvider({
 
   const settings = useSettings();
 
-  const {
-    isLoading,
-    positionsInfoData,
-    error: positionsInfoError,
-  } = usePositionsInfoRequest(chainId, {
+  const requestedPositionsInfo = usePositionsInfoRequest(chainId, {
     account,
     showPnlInLeverage: settings.isPnlInLeverage,
-    marketsInfoData: marketsInfo.marketsInfoData,
+    marketsInfoData: requestedMarketsInfo.marketsInfoData,
     skipLocalReferralCode,
-    tokensData: marketsInfo.tokensData,
+    tokensData: requestedMarketsInfo.tokensData,
   });
 
-  const ordersInfo = useOrdersInfoRequest(chainId, {
+  const requestedOrdersInfo = useOrdersInfoRequest(chainId, {
     account,
-    marketsInfoData: marketsInfo.marketsInfoData,
-    tokensData: marketsInfo.tokensData,
+    marketsInfoData: requestedMarketsInfo.marketsInfoData,
+    tokensData: requestedMarketsInfo.tokensData,
   });
 
+  const paperTradingState = usePaperTradingState(chainId, {
+    enabled: isTradePage && Boolean(account),
+    marketsInfo: requestedMarketsInfo,
+    positionsConstants,
+    uiFeeFactor,
+    userReferralInfo,
+    showPnlInLeverage: settings.isPnlInLeverage,
+  });
+
+  const isPaperTrading = Boolean(paperTradingState);
+  const marketsInfo = paperTradingState?.marketsInfo ?? requestedMarketsInfo;
+  const ordersInfo = paperTradingState?.ordersInfo ?? requestedOrdersInfo;
+  const {
+    isLoading,
+    positionsInfoData,
+    error: positionsInfoError,
+  } = paperTradingState?.positionsInfo ?? requestedPositionsInfo;
+
   const tradeboxState = useTradeboxState(chainId, isTradePage, {
     marketsInfoData: marketsInfo.marketsInfoData,
     tokensData: marketsInfo.tokensData,
@@ -223,6 +239,7 @@ export function SyntheticsStateContextProvider({
       globals: {
         chainId,
         account,
+        isPaperTrading,
         markets,
         marketsInfo,
         ordersInfo,
@@ -263,6 +280,7 @@ export function SyntheticsStateContextProvider({
     pageType,
     chainId,
     account,
+    isPaperTrading,
     markets,
     marketsInfo,
     ordersInfo,
@@ -3,9 +3,10 @@ import { useCallback, useMemo } from "react";
 
 import { useSubaccount, useSubaccountCancelOrdersDetailsMessage } from "context/SubaccountContext/SubaccountContext";
 import { cancelOrdersTxn } from "domain/synthetics/orders/cancelOrdersTxn";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
 import { usePendingTxns } from "lib/usePendingTxns";
 import { useEthersSigner } from "lib/wallets/useEthersSigner";
-import { selectChainId } from "../selectors/globalSelectors";
+import { selectChainId, selectIsPaperTrading, selectOrdersInfoData } from "../selectors/globalSelectors";
 import {
   makeSelectOrderErrorByOrderKey,
   makeSelectOrdersWithErrorsByPositionKey,
@@ -36,6 +37,9 @@ export function useCancelOrder(orderKey: string) {
   const [, setPendingTxns] = usePendingTxns();
   const cancelOrdersDetailsMessage = useSubaccountCancelOrdersDetailsMessage(undefined, 1);
   const subaccount = useSubaccount(null, 1);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const ordersInfoData = useSelector(selectOrdersInfoData);
+  const { submitPaperOrders } = usePaperTradingActions();
 
   const isCancelOrderProcessing = cancellingOrdersKeys.includes(orderKey);
 
@@ -45,15 +49,31 @@ export function useCancelOrder(orderKey: string) {
 
       setCancellingOrdersKeys((p) => uniq(p.concat(orderKey)));
 
-      cancelOrdersTxn(chainId, signer, subaccount, {
-        orderKeys: [orderKey],
-        setPendingTxns: setPendingTxns,
-        detailsMsg: cancelOrdersDetailsMessage,
-      }).finally(() => {
+      const txnPromise = isPaperTrading
+        ? submitPaperOrders({ cancelOrderKeys: [orderKey] })
+        : cancelOrdersTxn(chainId, signer, subaccount, {
+            orderKeys: [orderKey],
+            ordersInfoData,
+            setPendingTxns: setPendingTxns,
+            detailsMsg: cancelOrdersDetailsMessage,
+          });
+
+      txnPromise.finally(() => {
         setCancellingOrdersKeys((prev) => prev.filter((k) => k !== orderKey));
       });
     },
-    [cancelOrdersDetailsMessage, chainId, orderKey, setCancellingOrdersKeys, setPendingTxns, signer, subaccount]
+    [
+      cancelOrdersDetailsMessage,
+      chainId,
+      isPaperTrading,
+      orderKey,
+      ordersInfoData,
+      setCancellingOrdersKeys,
+      setPendingTxns,
+      signer,
+      submitPaperOrders,
+      subaccount,
+    ]
   );
 
   return [isCancelOrderProcessing, onCancelOrder] as const;
@@ -71,6 +71,8 @@ export const selectOrderEditorSetTriggerPriceInputValue = (s: SyntheticsState) =
 export const selectOrderEditorTriggerRatioInputValue = (s: SyntheticsState) => s.orderEditor.triggerRatioInputValue;
 export const selectOrderEditorSetTriggerRatioInputValue = (s: SyntheticsState) =>
   s.orderEditor.setTriggerRatioInputValue;
+export const selectOrderEditorInitialTriggerPrice = (s: SyntheticsState) => s.orderEditor.initialTriggerPrice;
+export const selectOrderEditorSetInitialTriggerPrice = (s: SyntheticsState) => s.orderEditor.setInitialTriggerPrice;
 
 export const selectOrderEditorAcceptablePrice = (s: SyntheticsState) => s.orderEditor.acceptablePrice;
 export const selectOrderEditorAcceptablePriceImpactBps = (s: SyntheticsState) => s.orderEditor.acceptablePriceImpactBps;
@@ -2,12 +2,15 @@ import { NATIVE_TOKEN_ADDRESS, convertTokenAddress, getWrappedToken } from "conf
 import { OrderType } from "domain/synthetics/orders";
 import {
   FindSwapPath,
+  FindSwapSplit,
+  SwapSplitLegStats,
   TradeFlags,
   TradeMode,
   TradeType,
   createSwapEstimator,
   findAllPaths,
   getBestSwapPath,
+  getBestSwapSplit,
   getDecreasePositionAmounts,
   getIncreasePositionAmounts,
   getMarkPrice,
@@ -18,6 +21,10 @@ import {
   getSwapPathStats,
   getTriggerDecreaseOrderType,
 } from "domain/synthetics/trade";
+import { getTotalSwapVolumeFromSwapStats } from "domain/synthetics/fees";
+import { convertToTokenAmount } from "domain/synthetics/tokens";
+import { bigMath } from "lib/bigmath";
+import { applyFactor } from "lib/numbers";
 import { getByKey } from "lib/objects";
 import { createSelector, createSelectorDeprecated, createSelectorFactory } from "../utils";
 import {
@@ -165,6 +172,79 @@ export const makeSelectFindSwapPath = createSelectorFactory(
   }
 );
 
+export const makeSelectFindSwapSplit = createSelectorFactory(
+  (fromTokenAddress: string | undefined, toTokenAddress: string | undefined) => {
+    const selectAllPaths = makeSelectAllPaths(fromTokenAddress, toTokenAddress);
+
+    return createSelector((q) => {
+      const chainId = q(selectChainId);
+      const marketsInfoData = q(selectMarketsInfoData);
+      const wrappedToken = getWrappedToken(chainId);
+      const allPaths = q(selectAllPaths);
+      const estimator = q(selectSwapEstimator);
+      const uiFeeFactor = q(selectUiFeeFactor);
+      const tokenOut = getByKey(q(selectTokensData), toTokenAddress);
+
+      const findSwapSplit: FindSwapSplit = (amountIn: bigint, usdIn: bigint) => {
+        if (!allPaths?.length || !estimator || !marketsInfoData || !fromTokenAddress || usdIn <= 0) {
+          return undefined;
+        }
+
+        const split = getBestSwapSplit(allPaths, usdIn, estimator);
+
+        if (!split?.legs.length) {
+          return undefined;
+        }
+
+        const legs: SwapSplitLegStats[] = [];
+        let remainingAmountIn = amountIn;
+
+        for (let i = 0; i < split.legs.length; i++) {
+          const leg = split.legs[i];
+          const isLast = i === split.legs.length - 1;
+          const legAmountIn = isLast ? remainingAmountIn : (amountIn * leg.usdIn) / usdIn;
+
+          const swapPathStats = getSwapPathStats({
+            marketsInfoData,
+            swapPath: leg.path,
+            initialCollateralAddress: fromTokenAddress,
+            wrappedNativeTokenAddress: wrappedToken.address,
+            shouldUnwrapNativeToken: toTokenAddress === NATIVE_TOKEN_ADDRESS,
+            shouldApplyPriceImpact: true,
+            usdIn: leg.usdIn,
+          });
+
+          if (!swapPathStats) {
+            return undefined;
+          }
+
+          const swapUiFeeUsd = applyFactor(getTotalSwapVolumeFromSwapStats(swapPathStats.swapSteps), uiFeeFactor);
+          const swapUiFeeAmount = tokenOut
+            ? convertToTokenAmount(swapUiFeeUsd, tokenOut.decimals, tokenOut.prices.maxPrice)!
+            : 0n;
+          const minOutputAmount = bigMath.max(swapPathStats.amountOut - swapUiFeeAmount, 0n);
+
+          remainingAmountIn = remainingAmountIn - legAmountIn;
+          legs.push({ swapPathStats, usdIn: leg.usdIn, amountIn: legAmountIn, minOutputAmount });
+        }
+
+        return {
+          legs,
+          usdOut: legs.reduce((acc, leg) => acc + leg.swapPathStats.usdOut, 0n),
+          amountOut: legs.reduce((acc, leg) => acc + leg.swapPathStats.amountOut, 0n),
+          totalSwapPriceImpactDeltaUsd: legs.reduce(
+            (acc, leg) => acc + leg.swapPathStats.totalSwapPriceImpactDeltaUsd,
+            0n
+          ),
+          totalSwapFeeUsd: legs.reduce((acc, leg) => acc + leg.swapPathStats.totalSwapFeeUsd, 0n),
+        };
+      };
+
+      return findSwapSplit;
+    });
+  }
+);
+
 export const makeSelectIncreasePositionAmounts = createSelectorFactory(
   ({
     collateralTokenAddress,
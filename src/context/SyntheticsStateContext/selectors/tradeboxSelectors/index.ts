@@ -3,6 +3,7 @@ import { convertTokenAddress } from "config/tokens";
 import { SyntheticsState } from "context/SyntheticsStateContext/SyntheticsStateContextProvider";
 import { createSelector, createSelectorDeprecated } from "context/SyntheticsStateContext/utils";
 import {
+  ExecutionFee,
   estimateExecuteDecreaseOrderGasLimit,
   estimateExecuteIncreaseOrderGasLimit,
   estimateExecuteSwapOrderGasLimit,
@@ -26,8 +27,12 @@ import {
   getNextPositionExecutionPrice,
   getSwapAmountsByFromValue,
   getSwapAmountsByToValue,
+  getIncreasePositionAmounts,
+  getScaledOrderLevels,
   getTradeFees,
+  splitAmountByScaledLevels,
 } from "domain/synthetics/trade";
+import { getTwapOrderSchedule } from "domain/synthetics/twap/utils";
 import { getPositionKey } from "lib/legacy";
 import { USD_DECIMALS } from "config/factors";
 import { parseValue } from "lib/numbers";
@@ -38,16 +43,19 @@ import {
   selectChainId,
   selectGasLimits,
   selectGasPrice,
+  selectMarketsInfoData,
   selectOrdersInfoData,
   selectPositionsInfoData,
   selectTokensData,
   selectUiFeeFactor,
+  selectUserReferralInfo,
 } from "../globalSelectors";
-import { selectIsPnlInLeverage } from "../settingsSelectors";
+import { selectIsPnlInLeverage, selectSavedAcceptablePriceImpactBuffer } from "../settingsSelectors";
 import {
   createTradeFlags,
   makeSelectDecreasePositionAmounts,
   makeSelectFindSwapPath,
+  makeSelectFindSwapSplit,
   makeSelectIncreasePositionAmounts,
   makeSelectMaxLiquidityPath,
   makeSelectNextPositionValuesForDecrease,
@@ -81,6 +89,8 @@ export const selectTradeboxFromTokenInputValue = (s: SyntheticsState) => s.trade
 export const selectTradeboxToTokenInputValue = (s: SyntheticsState) => s.tradebox.toTokenInputValue;
 export const selectTradeboxStage = (s: SyntheticsState) => s.tradebox.stage;
 export const selectTradeboxFocusedInput = (s: SyntheticsState) => s.tradebox.focusedInput;
+export const selectTradeboxSetFocusedInput = (s: SyntheticsState) => s.tradebox.setFocusedInput;
+export const selectTradeboxSetFromTokenInputValue = (s: SyntheticsState) => s.tradebox.setFromTokenInputValue;
 export const selectTradeboxDefaultTriggerAcceptablePriceImpactBps = (s: SyntheticsState) =>
   s.tradebox.defaultTriggerAcceptablePriceImpactBps;
 export const selectTradeboxSetDefaultTriggerAcceptablePriceImpactBps = (s: SyntheticsState) =>
@@ -92,8 +102,16 @@ export const selectTradeboxSetSelectedAcceptablePriceImpactBps = (s: SyntheticsS
 export const selectTradeboxCloseSizeInputValue = (s: SyntheticsState) => s.tradebox.closeSizeInputValue;
 export const selectTradeboxTriggerPriceInputValue = (s: SyntheticsState) => s.tradebox.triggerPriceInputValue;
 export const selectTradeboxTriggerRatioInputValue = (s: SyntheticsState) => s.tradebox.triggerRatioInputValue;
+export const selectTradeboxTrailingStopBps = (s: SyntheticsState) => s.tradebox.trailingStopBps;
+export const selectTradeboxSetTrailingStopBps = (s: SyntheticsState) => s.tradebox.setTrailingStopBps;
+export const selectTradeboxTwapOptions = (s: SyntheticsState) => s.tradebox.twapOptions;
+export const selectTradeboxSetTwapOptions = (s: SyntheticsState) => s.tradebox.setTwapOptions;
+export const selectTradeboxScaledOrderOptions = (s: SyntheticsState) => s.tradebox.scaledOrderOptions;
+export const selectTradeboxSetScaledOrderOptions = (s: SyntheticsState) => s.tradebox.setScaledOrderOptions;
 export const selectTradeboxLeverageOption = (s: SyntheticsState) => s.tradebox.leverageOption;
 export const selectTradeboxIsLeverageEnabled = (s: SyntheticsState) => s.tradebox.isLeverageEnabled;
+export const selectTradeboxSetLeverageOption = (s: SyntheticsState) => s.tradebox.setLeverageOption;
+export const selectTradeboxSetIsLeverageEnabled = (s: SyntheticsState) => s.tradebox.setIsLeverageEnabled;
 export const selectTradeboxKeepLeverage = (s: SyntheticsState) => s.tradebox.keepLeverage;
 export const selectTradeboxSetActivePosition = (s: SyntheticsState) => s.tradebox.setActivePosition;
 export const selectTradeboxSetToTokenAddress = (s: SyntheticsState) => s.tradebox.setToTokenAddress;
@@ -280,6 +298,188 @@ export const selectTradeboxSwapAmounts = createSelector((q) => {
   }
 });
 
+export const selectTradeboxIsTwap = createSelector(function selectTradeboxIsTwap(q) {
+  const { enabled } = q(selectTradeboxTwapOptions);
+  const { isMarket, isSwap, isIncrease } = q(selectTradeboxTradeFlags);
+  const isWrapOrUnwrap = q(selectTradeboxIsWrapOrUnwrap);
+
+  return enabled && isMarket && (isSwap || isIncrease) && !isWrapOrUnwrap;
+});
+
+export const selectTradeboxTwapSchedule = createSelector(function selectTradeboxTwapSchedule(q) {
+  if (!q(selectTradeboxIsTwap)) return undefined;
+
+  const { slicesCountInputValue, durationMinutesInputValue } = q(selectTradeboxTwapOptions);
+
+  return getTwapOrderSchedule(Number(slicesCountInputValue), Number(durationMinutesInputValue));
+});
+
+export const selectTradeboxIsScaledOrder = createSelector(function selectTradeboxIsScaledOrder(q) {
+  const { enabled } = q(selectTradeboxScaledOrderOptions);
+  const { isLimit, isIncrease } = q(selectTradeboxTradeFlags);
+
+  return enabled && isLimit && isIncrease;
+});
+
+/**
+ * Ladder of limit increase orders between the trigger price and the scaled order "to" price,
+ * the pay amount is split between the levels by their shares.
+ */
+export const selectTradeboxScaledOrders = createSelector(function selectTradeboxScaledOrders(q) {
+  if (!q(selectTradeboxIsScaledOrder)) return undefined;
+
+  const { ordersCountInputValue, toPriceInputValue, distribution } = q(selectTradeboxScaledOrderOptions);
+  const fromPrice = q(selectTradeboxTriggerPrice);
+  const toPrice = parseValue(toPriceInputValue, USD_DECIMALS);
+
+  if (fromPrice === undefined || toPrice === undefined) return undefined;
+
+  const levels = getScaledOrderLevels({ fromPrice, toPrice, count: Number(ordersCountInputValue), distribution });
+
+  if (!levels.length) return undefined;
+
+  const tokensData = q(selectTokensData);
+  const marketInfo = getByKey(q(selectMarketsInfoData), q(selectTradeboxMarketAddress));
+  const fromToken = getByKey(tokensData, q(selectTradeboxFromTokenAddress));
+  const collateralToken = getByKey(tokensData, q(selectTradeboxCollateralTokenAddress));
+  const toToken = getByKey(tokensData, q(selectTradeboxToTokenAddress));
+  const positionKey = q(selectTradeboxSelectedPositionKey);
+  const position = positionKey ? getByKey(q(selectPositionsInfoData), positionKey) : undefined;
+  const { isLong } = q(selectTradeboxTradeFlags);
+  const isLeverageEnabled = q(selectTradeboxIsLeverageEnabled);
+  const focusedInput = q(selectTradeboxFocusedInput);
+
+  if (!marketInfo || !fromToken || !collateralToken || !toToken) return undefined;
+
+  const initialCollateralAmounts = splitAmountByScaledLevels(
+    parseValue(q(selectTradeboxFromTokenInputValue) || "0", fromToken.decimals)!,
+    levels
+  );
+  const indexTokenAmounts = splitAmountByScaledLevels(
+    parseValue(q(selectTradeboxToTokenInputValue) || "0", toToken.decimals)!,
+    levels
+  );
+
+  return levels.map((level, i) => ({
+    ...level,
+    increaseAmounts: getIncreasePositionAmounts({
+      marketInfo,
+      indexToken: toToken,
+      initialCollateralToken: fromToken,
+      collateralToken,
+      isLong,
+      initialCollateralAmount: initialCollateralAmounts[i],
+      indexTokenAmount: indexTokenAmounts[i],
+      leverage: q(selectTradeboxLeverage),
+      triggerPrice: level.price,
+      position,
+      fixedAcceptablePriceImpactBps: q(selectTradeboxSelectedTriggerAcceptablePriceImpactBps),
+      acceptablePriceImpactBuffer: q(selectSavedAcceptablePriceImpactBuffer),
+      findSwapPath: q(selectTradeboxFindSwapPath),
+      userReferralInfo: q(selectUserReferralInfo),
+      uiFeeFactor: q(selectUiFeeFactor),
+      strategy: isLeverageEnabled
+        ? focusedInput === "from"
+          ? "leverageByCollateral"
+          : "leverageBySize"
+        : "independent",
+    }),
+  }));
+});
+
+const selectTradeboxSwapSplitCandidate = createSelector(function selectTradeboxSwapSplitCandidate(q) {
+  const tradeMode = q(selectTradeboxTradeMode);
+  const tradeType = q(selectTradeboxTradeType);
+  const isWrapOrUnwrap = q(selectTradeboxIsWrapOrUnwrap);
+  const isTwap = q(selectTradeboxIsTwap);
+  const { isSwap, isMarket } = createTradeFlags(tradeType, tradeMode);
+
+  if (!isSwap || !isMarket || isWrapOrUnwrap || isTwap) {
+    return undefined;
+  }
+
+  const swapAmounts = q(selectTradeboxSwapAmounts);
+
+  if (!swapAmounts?.swapPathStats) {
+    return undefined;
+  }
+
+  const fromTokenAddress = q(selectTradeboxFromTokenAddress);
+  const toTokenAddress = q(selectTradeboxToTokenAddress);
+  const findSwapSplit = q(makeSelectFindSwapSplit(fromTokenAddress, toTokenAddress));
+
+  const split = findSwapSplit(swapAmounts.amountIn, swapAmounts.usdIn);
+
+  if (!split || split.legs.length < 2 || split.usdOut <= swapAmounts.swapPathStats.usdOut) {
+    return undefined;
+  }
+
+  return split;
+});
+
+const selectSwapOrderExecutionFeeGetter = createSelector(function selectSwapOrderExecutionFeeGetter(q) {
+  const gasLimits = q(selectGasLimits);
+  const tokensData = q(selectTokensData);
+  const gasPrice = q(selectGasPrice);
+  const chainId = q(selectChainId);
+
+  return (swapsCount: number) => {
+    if (!gasLimits || !tokensData || gasPrice === undefined) return undefined;
+
+    const estimatedGas = estimateExecuteSwapOrderGasLimit(gasLimits, {
+      swapsCount,
+      callbackGasLimit: 0n,
+    });
+    const oraclePriceCount = estimateOrderOraclePriceCount(swapsCount);
+
+    return getExecutionFee(chainId, gasLimits, tokensData, estimatedGas, gasPrice, oraclePriceCount);
+  };
+});
+
+export const selectTradeboxSwapSplitExecutionFees = createSelector(function selectTradeboxSwapSplitExecutionFees(q) {
+  const split = q(selectTradeboxSwapSplitCandidate);
+
+  if (!split) return undefined;
+
+  const getSwapOrderExecutionFee = q(selectSwapOrderExecutionFeeGetter);
+  const fees: ExecutionFee[] = [];
+
+  for (const leg of split.legs) {
+    const fee = getSwapOrderExecutionFee(leg.swapPathStats.swapPath.length);
+
+    if (!fee) return undefined;
+
+    fees.push(fee);
+  }
+
+  return fees;
+});
+
+/**
+ * Split of the market swap across several paths. Returned only when the extra output
+ * covers the network fees of the additional orders.
+ */
+export const selectTradeboxSwapSplit = createSelector(function selectTradeboxSwapSplit(q) {
+  const split = q(selectTradeboxSwapSplitCandidate);
+  const swapPathStats = q(selectTradeboxSwapAmounts)?.swapPathStats;
+  const splitExecutionFees = q(selectTradeboxSwapSplitExecutionFees);
+
+  if (!split || !swapPathStats || !splitExecutionFees) return undefined;
+
+  const singleExecutionFee = q(selectSwapOrderExecutionFeeGetter)(swapPathStats.swapPath.length);
+
+  if (!singleExecutionFee) return undefined;
+
+  const splitExecutionFeeUsd = splitExecutionFees.reduce((acc, fee) => acc + fee.feeUsd, 0n);
+  const extraExecutionFeeUsd = splitExecutionFeeUsd - singleExecutionFee.feeUsd;
+
+  if (split.usdOut - swapPathStats.usdOut <= extraExecutionFeeUsd) {
+    return undefined;
+  }
+
+  return split;
+});
+
 export const selectTradeboxTradeFlags = createSelectorDeprecated(
   [selectTradeboxTradeType, selectTradeboxTradeMode],
   (tradeType, tradeMode) => {
@@ -379,7 +579,10 @@ const selectTradeboxSwapCount = createSelector(function selectTradeboxSwapCount(
   }
 });
 
-export const selectTradeboxExecutionFee = createSelector(function selectTradeboxExecutionFee(q) {
+/**
+ * Execution fee of a single order, every TWAP slice and scaled order level is sent with this fee
+ */
+export const selectTradeboxOrderExecutionFee = createSelector(function selectTradeboxOrderExecutionFee(q) {
   const gasLimits = q(selectGasLimits);
   if (!gasLimits) return undefined;
 
@@ -403,6 +606,40 @@ export const selectTradeboxExecutionFee = createSelector(function selectTradebox
   return getExecutionFee(chainId, gasLimits, tokensData, estimatedGas, gasPrice, oraclePriceCount);
 });
 
+export const selectTradeboxExecutionFee = createSelector(function selectTradeboxExecutionFee(q) {
+  const swapSplit = q(selectTradeboxSwapSplit);
+
+  if (swapSplit) {
+    const splitExecutionFees = q(selectTradeboxSwapSplitExecutionFees);
+
+    if (!splitExecutionFees) return undefined;
+
+    return splitExecutionFees.reduce(
+      (acc, fee): ExecutionFee => ({
+        ...acc,
+        feeUsd: acc.feeUsd + fee.feeUsd,
+        feeTokenAmount: acc.feeTokenAmount + fee.feeTokenAmount,
+        warning: acc.warning ?? fee.warning,
+      }),
+      { ...splitExecutionFees[0], feeUsd: 0n, feeTokenAmount: 0n }
+    );
+  }
+
+  const orderExecutionFee = q(selectTradeboxOrderExecutionFee);
+
+  if (!orderExecutionFee) return undefined;
+
+  const ordersCount = q(selectTradeboxTwapSchedule)?.slicesCount ?? q(selectTradeboxScaledOrders)?.length;
+
+  if (ordersCount === undefined) return orderExecutionFee;
+
+  return {
+    ...orderExecutionFee,
+    feeUsd: orderExecutionFee.feeUsd * BigInt(ordersCount),
+    feeTokenAmount: orderExecutionFee.feeTokenAmount * BigInt(ordersCount),
+  };
+});
+
 const selectTradeboxTriggerRatioValue = createSelector(function selectTradeboxTriggerRatioValue(q) {
   const triggerRatioInputValue = q(selectTradeboxTriggerRatioInputValue);
   return parseValue(triggerRatioInputValue, USD_DECIMALS);
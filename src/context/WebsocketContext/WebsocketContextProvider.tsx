@@ -2,6 +2,7 @@ import { isDevelopment } from "config/env";
 import { JsonRpcProvider, WebSocketProvider } from "ethers";
 import { useChainId } from "lib/chains";
 import { closeWsConnection, getWsProvider, isProviderInClosedState, isWebsocketProvider } from "lib/rpc";
+import { getRpcTracker } from "lib/rpc/rpcTracker";
 import { useHasLostFocus } from "lib/useHasPageLostFocus";
 import useWallet from "lib/wallets/useWallet";
 import { ReactNode, createContext, useContext, useEffect, useMemo, useRef, useState } from "react";
@@ -94,6 +95,7 @@ export function WebsocketContextProvider({ children }: { children: ReactNode })
           (listenerCount < requiredListenerCount && isReconnectingIntervalPassed)
         ) {
           closeWsConnection(wsProvider);
+          getRpcTracker(chainId).reportWsFailure();
           const nextProvider = getWsProvider(chainId);
           setWsProvider(nextProvider);
           initializedTime.current = Date.now();
@@ -136,7 +136,7 @@ export function subscribeToV2Events(
   };
 }
 
-function parseEventLogData(eventData): EventLogData {
+export function parseEventLogData(eventData): EventLogData {
   const ret: any = {};
   for (const typeKey of [
     "addressItems",
@@ -0,0 +1,83 @@
+/**
+ * Volume of one trade of a referred trader
+ */
+export type ReferralVolumeRecord = {
+  referralCode: string;
+  trader: string;
+  timestamp: number;
+  volume: bigint;
+  totalRebateUsd: bigint;
+  discountUsd: bigint;
+};
+
+export type ReferralVolumeRecords = {
+  records: ReferralVolumeRecord[];
+  /**
+   * Timestamp of the oldest loaded record when older records were not loaded
+   */
+  historyStartTimestamp: number | undefined;
+};
+
+export type ReferralRecordsFilter = {
+  /**
+   * All codes of the affiliate when undefined
+   */
+  referralCode?: string;
+  fromTimestamp?: number;
+  toTimestamp?: number;
+};
+
+/**
+ * Traders who made their first referred trade in the same week
+ */
+export type ReferralCohort = {
+  weekTimestamp: number;
+  newTraders: number;
+  volume: bigint;
+  /**
+   * Share of the cohort that traded in each of the following weeks in basis points,
+   * starting with the week after the first trade, weeks that haven't started yet are left out
+   */
+  retentionBps: bigint[];
+};
+
+export type ReferralTraderVolume = {
+  trader: string;
+  volume: bigint;
+  affiliateRebateUsd: bigint;
+  volumeShareBps: bigint;
+};
+
+export type ReferralVolumeConcentration = {
+  tradersCount: number;
+  totalVolume: bigint;
+  topTraders: ReferralTraderVolume[];
+  topTradersVolume: bigint;
+  topTradersVolumeShareBps: bigint;
+};
+
+/**
+ * Rebates of the same volume if it had been traded with the next tier
+ */
+export type ReferralTierRebateProjection = {
+  nextTierId: number;
+  affiliateRebateUsd: bigint;
+  projectedRebateUsd: bigint;
+};
+
+export type ReferralCohortExportRow = {
+  week: string;
+  newTraders: string;
+  volumeUsd: string;
+  retentionWeek1: string;
+  retentionWeek2: string;
+  retentionWeek3: string;
+  retentionWeek4: string;
+};
+
+export type ReferralTraderExportRow = {
+  trader: string;
+  volumeUsd: string;
+  affiliateRebateUsd: string;
+  volumeShare: string;
+};
@@ -0,0 +1,123 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { SECONDS_IN_DAY } from "lib/dates";
+import { describe, expect, it } from "vitest";
+import type { ReferralVolumeRecord } from "./types";
+import {
+  getReferralCohortExportRow,
+  getReferralCohorts,
+  getReferralTierRebateProjection,
+  getReferralVolumeConcentration,
+  getWeekStart,
+} from "./utils";
+
+// Monday, 2024-01-01
+const WEEK_0 = 1704067200;
+const WEEK = SECONDS_IN_DAY * 7;
+
+function mockRecord(trader: string, week: number, volume: number, referralCode = "code"): ReferralVolumeRecord {
+  return {
+    referralCode,
+    trader,
+    timestamp: WEEK_0 + week * WEEK + SECONDS_IN_DAY,
+    volume: usd(volume),
+    totalRebateUsd: usd(volume / 100),
+    discountUsd: usd(volume / 1000),
+  };
+}
+
+describe("getWeekStart", () => {
+  it("starts weeks on Monday", () => {
+    expect(getWeekStart(WEEK_0)).toBe(WEEK_0);
+    expect(getWeekStart(WEEK_0 + WEEK - 1)).toBe(WEEK_0);
+    expect(getWeekStart(WEEK_0 - 1)).toBe(WEEK_0 - WEEK);
+  });
+});
+
+describe("getReferralCohorts", () => {
+  const records = [
+    mockRecord("a", 0, 1000),
+    mockRecord("b", 0, 2000),
+    mockRecord("a", 1, 1000),
+    mockRecord("a", 2, 1000),
+    mockRecord("b", 2, 1000),
+    mockRecord("c", 1, 5000),
+    mockRecord("d", 1, 3000, "other"),
+  ];
+
+  it("groups traders by the week of their first trade and tracks retention", () => {
+    const cohorts = getReferralCohorts(records, { referralCode: "code", nowTimestamp: WEEK_0 + 3 * WEEK - 1 });
+
+    expect(cohorts).toEqual([
+      { weekTimestamp: WEEK_0, newTraders: 2, volume: usd(6000), retentionBps: [5000n, 10000n] },
+      { weekTimestamp: WEEK_0 + WEEK, newTraders: 1, volume: usd(5000), retentionBps: [0n] },
+    ]);
+  });
+
+  it("does not count traders from before the range as new", () => {
+    const cohorts = getReferralCohorts(records, { fromTimestamp: WEEK_0 + WEEK, nowTimestamp: WEEK_0 + 5 * WEEK });
+
+    expect(cohorts).toEqual([
+      { weekTimestamp: WEEK_0 + WEEK, newTraders: 2, volume: usd(8000), retentionBps: [0n, 0n, 0n, 0n] },
+    ]);
+  });
+
+  it("drops cohorts starting before the loaded history", () => {
+    const cohorts = getReferralCohorts(records.slice(2), {
+      nowTimestamp: WEEK_0 + 5 * WEEK,
+      historyStartTimestamp: WEEK_0 + WEEK + SECONDS_IN_DAY,
+    });
+
+    expect(cohorts.map((cohort) => cohort.weekTimestamp)).toEqual([WEEK_0 + 2 * WEEK]);
+  });
+});
+
+describe("getReferralVolumeConcentration", () => {
+  it("sorts traders by volume and sums the top traders", () => {
+    const concentration = getReferralVolumeConcentration(
+      [mockRecord("a", 0, 1000), mockRecord("b", 0, 6000), mockRecord("a", 1, 2000), mockRecord("c", 0, 1000)],
+      2
+    );
+
+    expect(concentration.tradersCount).toBe(3);
+    expect(concentration.totalVolume).toBe(usd(10000));
+    expect(concentration.topTraders.map((trader) => [trader.trader, trader.volumeShareBps])).toEqual([
+      ["b", 6000n],
+      ["a", 3000n],
+    ]);
+    expect(concentration.topTraders[0].affiliateRebateUsd).toBe(usd(54));
+    expect(concentration.topTradersVolume).toBe(usd(9000));
+    expect(concentration.topTradersVolumeShareBps).toBe(9000n);
+  });
+});
+
+describe("getReferralTierRebateProjection", () => {
+  const tierRebatePercentages = { 0: 5, 1: 10, 2: 15 };
+
+  it("scales affiliate rebates to the next tier", () => {
+    expect(getReferralTierRebateProjection([mockRecord("a", 0, 10000)], 0, tierRebatePercentages)).toEqual({
+      nextTierId: 1,
+      affiliateRebateUsd: usd(90),
+      projectedRebateUsd: usd(180),
+    });
+  });
+
+  it("returns undefined for the highest tier", () => {
+    expect(getReferralTierRebateProjection([mockRecord("a", 0, 10000)], 2, tierRebatePercentages)).toBeUndefined();
+  });
+});
+
+describe("getReferralCohortExportRow", () => {
+  it("leaves weeks without retention empty", () => {
+    expect(
+      getReferralCohortExportRow({ weekTimestamp: WEEK_0, newTraders: 2, volume: usd(100), retentionBps: [5000n] })
+    ).toEqual({
+      week: "2024-01-01",
+      newTraders: "2",
+      volumeUsd: "100.0",
+      retentionWeek1: "50.00%",
+      retentionWeek2: "",
+      retentionWeek3: "",
+      retentionWeek4: "",
+    });
+  });
+});
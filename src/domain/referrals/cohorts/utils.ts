@@ -0,0 +1,197 @@
+import { formatUnits } from "ethers";
+
+import { BASIS_POINTS_DIVISOR_BIGINT, USD_DECIMALS } from "config/factors";
+import { SECONDS_IN_DAY } from "lib/dates";
+import { formatPercentage } from "lib/numbers";
+import type {
+  ReferralCohort,
+  ReferralCohortExportRow,
+  ReferralRecordsFilter,
+  ReferralTierRebateProjection,
+  ReferralTraderExportRow,
+  ReferralTraderVolume,
+  ReferralVolumeConcentration,
+  ReferralVolumeRecord,
+} from "./types";
+
+export const REFERRAL_RETENTION_WEEKS = 4;
+
+const SECONDS_IN_WEEK = SECONDS_IN_DAY * 7;
+// 1970-01-01 is a Thursday, weeks start on Monday
+const WEEK_START_OFFSET = SECONDS_IN_DAY * 4;
+
+export function getWeekStart(timestamp: number) {
+  return Math.floor((timestamp - WEEK_START_OFFSET) / SECONDS_IN_WEEK) * SECONDS_IN_WEEK + WEEK_START_OFFSET;
+}
+
+export function filterReferralVolumeRecords(
+  records: ReferralVolumeRecord[],
+  { referralCode, fromTimestamp, toTimestamp }: ReferralRecordsFilter
+) {
+  return records.filter(
+    (record) =>
+      (referralCode === undefined || record.referralCode === referralCode) &&
+      (fromTimestamp === undefined || record.timestamp >= fromTimestamp) &&
+      (toTimestamp === undefined || record.timestamp <= toTimestamp)
+  );
+}
+
+function getBps(value: bigint, total: bigint) {
+  return total === 0n ? 0n : (value * BASIS_POINTS_DIVISOR_BIGINT) / total;
+}
+
+/**
+ * Traders are put into the cohort of the week of their first trade with the code, including trades before the range,
+ * so traders who came back within the range are not counted as new.
+ * Cohorts starting before the history start are dropped, earlier trades of their traders are not loaded
+ */
+export function getReferralCohorts(
+  records: ReferralVolumeRecord[],
+  filter: ReferralRecordsFilter & { nowTimestamp: number; historyStartTimestamp?: number }
+): ReferralCohort[] {
+  const endTimestamp = filter.toTimestamp ?? filter.nowTimestamp;
+  const codeRecords = filterReferralVolumeRecords(records, {
+    referralCode: filter.referralCode,
+    toTimestamp: endTimestamp,
+  });
+
+  const firstWeekByTrader: { [trader: string]: number } = {};
+  const activeWeeksByTrader: { [trader: string]: Set<number> } = {};
+
+  for (const record of codeRecords) {
+    const week = getWeekStart(record.timestamp);
+
+    firstWeekByTrader[record.trader] = Math.min(firstWeekByTrader[record.trader] ?? week, week);
+    activeWeeksByTrader[record.trader] = (activeWeeksByTrader[record.trader] ?? new Set()).add(week);
+  }
+
+  const tradersByWeek: { [week: number]: string[] } = {};
+
+  for (const [trader, week] of Object.entries(firstWeekByTrader)) {
+    const isInRange = filter.fromTimestamp === undefined || week >= getWeekStart(filter.fromTimestamp);
+    const isLoaded = filter.historyStartTimestamp === undefined || week >= filter.historyStartTimestamp;
+
+    if (isInRange && isLoaded) {
+      tradersByWeek[week] = [...(tradersByWeek[week] ?? []), trader];
+    }
+  }
+
+  const volumeByTrader = filterReferralVolumeRecords(codeRecords, { fromTimestamp: filter.fromTimestamp }).reduce(
+    (acc, record) => {
+      acc[record.trader] = (acc[record.trader] ?? 0n) + record.volume;
+      return acc;
+    },
+    {} as { [trader: string]: bigint }
+  );
+
+  return Object.entries(tradersByWeek)
+    .map(([weekKey, traders]) => {
+      const weekTimestamp = Number(weekKey);
+      const retentionBps: bigint[] = [];
+
+      for (let i = 1; i <= REFERRAL_RETENTION_WEEKS; i++) {
+        const week = weekTimestamp + i * SECONDS_IN_WEEK;
+
+        if (week > endTimestamp) {
+          break;
+        }
+
+        const activeTraders = traders.filter((trader) => activeWeeksByTrader[trader].has(week)).length;
+        retentionBps.push(getBps(BigInt(activeTraders), BigInt(traders.length)));
+      }
+
+      return {
+        weekTimestamp,
+        newTraders: traders.length,
+        volume: traders.reduce((acc, trader) => acc + (volumeByTrader[trader] ?? 0n), 0n),
+        retentionBps,
+      };
+    })
+    .sort((a, b) => a.weekTimestamp - b.weekTimestamp);
+}
+
+export function getReferralVolumeConcentration(
+  records: ReferralVolumeRecord[],
+  topTradersCount: number
+): ReferralVolumeConcentration {
+  const tradersByAddress: { [trader: string]: ReferralTraderVolume } = {};
+  let totalVolume = 0n;
+
+  for (const record of records) {
+    const trader = tradersByAddress[record.trader] ?? {
+      trader: record.trader,
+      volume: 0n,
+      affiliateRebateUsd: 0n,
+      volumeShareBps: 0n,
+    };
+
+    trader.volume += record.volume;
+    trader.affiliateRebateUsd += record.totalRebateUsd - record.discountUsd;
+    totalVolume += record.volume;
+
+    tradersByAddress[record.trader] = trader;
+  }
+
+  const traders = Object.values(tradersByAddress)
+    .map((trader) => ({ ...trader, volumeShareBps: getBps(trader.volume, totalVolume) }))
+    .sort((a, b) => (a.volume === b.volume ? 0 : a.volume > b.volume ? -1 : 1));
+
+  const topTraders = traders.slice(0, topTradersCount);
+  const topTradersVolume = topTraders.reduce((acc, trader) => acc + trader.volume, 0n);
+
+  return {
+    tradersCount: traders.length,
+    totalVolume,
+    topTraders,
+    topTradersVolume,
+    topTradersVolumeShareBps: getBps(topTradersVolume, totalVolume),
+  };
+}
+
+/**
+ * Rebates scale with the rebate percentage of the tier, undefined for the highest tier
+ */
+export function getReferralTierRebateProjection(
+  records: ReferralVolumeRecord[],
+  tierId: number,
+  tierRebatePercentages: { [tierId: number]: number }
+): ReferralTierRebateProjection | undefined {
+  const nextTierId = tierId + 1;
+  const currentPercentage = tierRebatePercentages[tierId];
+  const nextPercentage = tierRebatePercentages[nextTierId];
+
+  if (currentPercentage === undefined || nextPercentage === undefined || currentPercentage === 0) {
+    return undefined;
+  }
+
+  const affiliateRebateUsd = records.reduce((acc, record) => acc + record.totalRebateUsd - record.discountUsd, 0n);
+
+  return {
+    nextTierId,
+    affiliateRebateUsd,
+    projectedRebateUsd: (affiliateRebateUsd * BigInt(nextPercentage * 100)) / BigInt(currentPercentage * 100),
+  };
+}
+
+export function getReferralCohortExportRow(cohort: ReferralCohort): ReferralCohortExportRow {
+  const formatRetention = (week: number) => formatPercentage(cohort.retentionBps[week - 1]) ?? "";
+
+  return {
+    week: new Date(cohort.weekTimestamp * 1000).toISOString().slice(0, 10),
+    newTraders: String(cohort.newTraders),
+    volumeUsd: formatUnits(cohort.volume, USD_DECIMALS),
+    retentionWeek1: formatRetention(1),
+    retentionWeek2: formatRetention(2),
+    retentionWeek3: formatRetention(3),
+    retentionWeek4: formatRetention(4),
+  };
+}
+
+export function getReferralTraderExportRow(trader: ReferralTraderVolume): ReferralTraderExportRow {
+  return {
+    trader: trader.trader,
+    volumeUsd: formatUnits(trader.volume, USD_DECIMALS),
+    affiliateRebateUsd: formatUnits(trader.affiliateRebateUsd, USD_DECIMALS),
+    volumeShare: formatPercentage(trader.volumeShareBps) ?? "",
+  };
+}
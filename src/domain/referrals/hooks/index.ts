@@ -19,6 +19,7 @@ import { getReferralsGraphClient } from "lib/subgraph";
 import { UserReferralInfo } from "../types";
 import { decodeReferralCode, encodeReferralCode } from "../utils";
 
+export * from "./useReferralCohortsData";
 export * from "./useReferralsData";
 export * from "./useUserCodesOnAllChain";
 
@@ -0,0 +1,89 @@
+import { gql } from "@apollo/client";
+import useSWR from "swr";
+
+import { EMPTY_ARRAY } from "lib/objects";
+import { getReferralsGraphClient } from "lib/subgraph";
+
+import type { ReferralVolumeRecord, ReferralVolumeRecords } from "../cohorts";
+import { decodeReferralCode } from "../utils";
+
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 50;
+
+const REFERRAL_VOLUME_RECORDS_GQL = gql`
+  query referralVolumeRecords($account: String!, $first: Int!, $timestampLte: BigInt!) {
+    referralVolumeRecords(
+      first: $first
+      orderBy: timestamp
+      orderDirection: desc
+      where: { affiliate: $account, timestamp_lte: $timestampLte }
+    ) {
+      id
+      referralCode
+      referral
+      volume
+      totalRebateUsd
+      discountUsd
+      timestamp
+    }
+  }
+`;
+
+/**
+ * Pages by timestamp from the latest record, records of the last timestamp of a page are requested again
+ * because other records with the same timestamp may be left for the next page
+ */
+async function fetchReferralVolumeRecords(chainId: number, account: string): Promise<ReferralVolumeRecords> {
+  const recordsById: { [id: string]: ReferralVolumeRecord } = {};
+  let timestampLte = Math.floor(Date.now() / 1000);
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const { data } = await getReferralsGraphClient(chainId).query({
+      query: REFERRAL_VOLUME_RECORDS_GQL,
+      variables: { account: account.toLowerCase(), first: PAGE_SIZE, timestampLte: String(timestampLte) },
+      fetchPolicy: "no-cache",
+    });
+
+    let newRecordsCount = 0;
+
+    for (const record of data.referralVolumeRecords) {
+      if (recordsById[record.id]) continue;
+
+      newRecordsCount++;
+      recordsById[record.id] = {
+        referralCode: decodeReferralCode(record.referralCode),
+        trader: record.referral,
+        timestamp: Number(record.timestamp),
+        volume: BigInt(record.volume),
+        totalRebateUsd: BigInt(record.totalRebateUsd),
+        discountUsd: BigInt(record.discountUsd),
+      };
+    }
+
+    if (data.referralVolumeRecords.length < PAGE_SIZE || newRecordsCount === 0) {
+      return { records: Object.values(recordsById), historyStartTimestamp: undefined };
+    }
+
+    timestampLte = Number(data.referralVolumeRecords[data.referralVolumeRecords.length - 1].timestamp);
+  }
+
+  return { records: Object.values(recordsById), historyStartTimestamp: timestampLte };
+}
+
+/**
+ * Trades of the traders referred by the affiliate, the oldest ones are not loaded for the most active affiliates
+ */
+export function useReferralCohortsData(chainId: number, account: string | undefined) {
+  const { data, error } = useSWR<ReferralVolumeRecords>(
+    account ? ["referralCohorts", chainId, account] : null,
+    () => fetchReferralVolumeRecords(chainId, account!),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    records: data?.records ?? (EMPTY_ARRAY as ReferralVolumeRecord[]),
+    historyStartTimestamp: data?.historyStartTimestamp,
+    isLoading: Boolean(account) && !data && !error,
+    error: error as Error | undefined,
+  };
+}
@@ -1,3 +1,4 @@
 export * from "./hooks";
 export * from "./types";
 export * from "./utils";
+export * from "./cohorts";
@@ -6,6 +6,7 @@ import {
   findAllPaths,
   findAllReachableTokens,
   getBestSwapPath,
+  getBestSwapSplit,
   getMarketsGraph,
 } from "domain/synthetics/trade";
 import { describe, expect, it } from "vitest";
@@ -264,6 +265,65 @@ describe("swapPath", () => {
   });
 });
 
+describe("getBestSwapSplit", () => {
+  // output decreases quadratically with the swapped amount, so large amounts benefit from splitting
+  const createImpactEstimator =
+    (depthByMarket: { [market: string]: bigint }): SwapEstimator =>
+    (e: MarketEdge, usdIn: bigint) => {
+      const depth = depthByMarket[e.marketAddress] ?? BigInt(10000);
+      return {
+        usdOut: usdIn - (usdIn * usdIn) / depth,
+      };
+    };
+
+  const routes = findAllPaths(marketsInfoData, graph, "ETH", "USDC")!;
+
+  it("should split evenly between equally deep markets", () => {
+    const estimator = createImpactEstimator({ "ETH-ETH-DAI": BigInt(200) });
+    const result = getBestSwapSplit(routes, BigInt(1000), estimator, { steps: 10 });
+
+    expect(result?.legs.map((leg) => leg.path)).toEqual([["ETH-ETH-USDC"], ["SOL-ETH-USDC"]]);
+    expect(result?.legs.map((leg) => leg.usdIn)).toEqual([BigInt(500), BigInt(500)]);
+    expect(result?.usdOut).toEqual(BigInt(950));
+    expect(result!.usdOut > estimator(routes[0].edged[0], BigInt(1000)).usdOut).toBe(true);
+  });
+
+  it("should send more volume through the deeper market", () => {
+    const estimator = createImpactEstimator({ "ETH-ETH-USDC": BigInt(30000) });
+    const result = getBestSwapSplit(routes, BigInt(1000), estimator, { steps: 10 });
+
+    expect(result?.legs[0].path).toEqual(["ETH-ETH-USDC"]);
+    expect(result!.legs[0].usdIn > result!.legs[1].usdIn).toBe(true);
+    expect(result?.legs.reduce((acc, leg) => acc + leg.usdIn, BigInt(0))).toEqual(BigInt(1000));
+  });
+
+  it("should use a single path for small amounts", () => {
+    const estimator = createImpactEstimator({ "ETH-ETH-USDC": BigInt(1000000) });
+    const result = getBestSwapSplit(routes, BigInt(10), estimator, { steps: 10 });
+
+    expect(result?.legs).toEqual([{ path: ["ETH-ETH-USDC"], usdIn: BigInt(10), usdOut: BigInt(10) }]);
+  });
+
+  it("should not combine routes sharing a market", () => {
+    const estimator = createImpactEstimator({ "SOL-ETH-USDC": BigInt(1) });
+    const result = getBestSwapSplit(routes, BigInt(1000), estimator, { steps: 10 });
+
+    const usedMarkets = result!.legs.flatMap((leg) => leg.path);
+    expect(new Set(usedMarkets).size).toEqual(usedMarkets.length);
+  });
+
+  it("should respect max legs", () => {
+    const estimator = createImpactEstimator({});
+    const result = getBestSwapSplit(routes, BigInt(1000), estimator, { steps: 10, maxLegs: 1 });
+
+    expect(result?.legs.length).toEqual(1);
+  });
+
+  it("should return undefined without routes", () => {
+    expect(getBestSwapSplit([], BigInt(100), createImpactEstimator({}))).toBeUndefined();
+  });
+});
+
 describe("findAllReachableTokens", () => {
   it("should work for common token ETH", () => {
     const fromTokenAddress = "ETH";
@@ -0,0 +1,65 @@
+export type AccountDailyPnl = {
+  /**
+   * Start of the UTC day in seconds
+   */
+  timestamp: number;
+  pnlUsd: bigint;
+};
+
+/**
+ * Largest fall of the cumulative PnL from a previous high, the drawdown lasts until the high is reached again
+ */
+export type AccountDrawdown = {
+  maxDrawdownUsd: bigint;
+  peakTimestamp?: number;
+  troughTimestamp?: number;
+  recoveryTimestamp?: number;
+  durationDays: number;
+};
+
+/**
+ * Mean daily PnL divided by its deviation, annualized, PnL in USD is used instead of returns
+ */
+export type AccountRiskRatios = {
+  sharpeRatio?: number;
+  sortinoRatio?: number;
+};
+
+export type AccountTradeStats = {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRateBps?: bigint;
+  averageWinUsd?: bigint;
+  averageLossUsd?: bigint;
+  /**
+   * Average realized PnL per closed trade
+   */
+  expectancyUsd?: bigint;
+};
+
+export type AccountPerformanceBreakdownType = "market" | "side" | "leverage" | "holdingTime";
+
+export type LeverageBucket = "upTo2x" | "upTo5x" | "upTo10x" | "upTo25x" | "upTo50x" | "above50x" | "unknown";
+
+export type HoldingTimeBucket = "upTo1h" | "upTo1d" | "upTo1w" | "above1w" | "unknown";
+
+export type AccountPerformanceBreakdownRow = {
+  key: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  volumeUsd: bigint;
+  pnlUsd: bigint;
+  averagePnlUsd: bigint;
+};
+
+export type AccountPerformanceBreakdownExportRow = {
+  group: string;
+  trades: string;
+  wins: string;
+  losses: string;
+  volumeUsd: string;
+  pnlUsd: string;
+  averagePnlUsd: string;
+};
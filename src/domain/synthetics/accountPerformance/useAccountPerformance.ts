@@ -0,0 +1,96 @@
+import { gql, useQuery as useGqlQuery } from "@apollo/client";
+import { useMemo } from "react";
+import useSWR from "swr";
+
+import { EMPTY_ARRAY } from "lib/objects";
+import { getSubsquidGraphClient } from "lib/subgraph";
+import type { MarketsInfoData } from "../markets";
+import type { TokensData } from "../tokens";
+import { TradeActionType, fetchTradeActionsHistory } from "../tradeHistory";
+import { getTaxLots } from "../tradeHistoryExport";
+import type { TaxLot } from "../tradeHistoryExport";
+import type { AccountDailyPnl } from "./types";
+
+const DAILY_PNL_QUERY = gql`
+  query AccountPerformanceDailyPnl($account: String!) {
+    accountPnlHistoryStats(account: $account) {
+      pnl
+      timestamp
+    }
+  }
+`;
+
+const EXECUTED_ORDERS_FILTER = [{ eventName: TradeActionType.OrderExecuted }];
+const MAX_TRADE_ACTIONS_PAGES = 20;
+
+/**
+ * Daily PnL of the whole account history and the positions closed in it matched into lots
+ */
+export function useAccountPerformance(p: {
+  chainId: number;
+  account: string;
+  marketsInfoData: MarketsInfoData | undefined;
+  tokensData: TokensData | undefined;
+}): {
+  dailyPnl: AccountDailyPnl[];
+  taxLots: TaxLot[];
+  /**
+   * Trade stats only include positions closed after it when the history of the account is too long
+   */
+  historyStartTimestamp: number | undefined;
+  isLoading: boolean;
+  error: Error | undefined;
+} {
+  const { chainId, account, marketsInfoData, tokensData } = p;
+
+  const dailyPnlResponse = useGqlQuery(DAILY_PNL_QUERY, {
+    client: getSubsquidGraphClient(chainId)!,
+    variables: { account },
+  });
+
+  const isDataReady = Boolean(marketsInfoData && tokensData);
+  const { data: taxLotsData, error: taxLotsError } = useSWR<{
+    taxLots: TaxLot[];
+    historyStartTimestamp: number | undefined;
+  }>(
+    isDataReady ? ["accountPerformance", chainId, account] : null,
+    async () => {
+      const { tradeActions, historyStartTimestamp } = await fetchTradeActionsHistory(
+        {
+          chainId,
+          marketsDirectionsFilter: undefined,
+          forAllAccounts: false,
+          account,
+          fromTxTimestamp: undefined,
+          toTxTimestamp: undefined,
+          orderEventCombinations: EXECUTED_ORDERS_FILTER,
+          marketsInfoData,
+          tokensData,
+        },
+        MAX_TRADE_ACTIONS_PAGES
+      );
+
+      return { taxLots: getTaxLots(tradeActions), historyStartTimestamp };
+    },
+    { revalidateOnFocus: false }
+  );
+
+  const dailyPnl = useMemo(
+    () =>
+      dailyPnlResponse.data?.accountPnlHistoryStats?.map(
+        (row: { pnl: string; timestamp: number }): AccountDailyPnl => ({
+          timestamp: row.timestamp,
+          pnlUsd: BigInt(row.pnl),
+        })
+      ) ?? (EMPTY_ARRAY as AccountDailyPnl[]),
+    [dailyPnlResponse.data?.accountPnlHistoryStats]
+  );
+
+  return {
+    dailyPnl,
+    taxLots: taxLotsData?.taxLots ?? (EMPTY_ARRAY as TaxLot[]),
+    historyStartTimestamp: taxLotsData?.historyStartTimestamp,
+    isLoading: dailyPnlResponse.loading || (!taxLotsData && !taxLotsError),
+    error: dailyPnlResponse.error ?? taxLotsError,
+  };
+}
@@ -0,0 +1,134 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { SECONDS_IN_DAY } from "lib/dates";
+import { describe, expect, it } from "vitest";
+import type { TaxLot } from "../tradeHistoryExport/types";
+import type { AccountDailyPnl } from "./types";
+import {
+  getAccountDrawdown,
+  getAccountPerformanceBreakdown,
+  getAccountRiskRatios,
+  getAccountTradeStats,
+  getHoldingTimeBucket,
+  getLeverageBucket,
+} from "./utils";
+
+function mockDailyPnl(pnls: number[]): AccountDailyPnl[] {
+  return pnls.map((pnl, i) => ({ timestamp: i * SECONDS_IN_DAY, pnlUsd: usd(pnl) }));
+}
+
+function mockTaxLot(p: Partial<TaxLot> & { realizedPnlUsd: bigint }): TaxLot {
+  return {
+    marketAddress: "ETH-ETH-USDC",
+    marketName: "ETH/USD [ETH-USDC]",
+    isLong: true,
+    collateralTokenSymbol: "USDC",
+    indexTokenDecimals: 18,
+    openTimestamp: 0,
+    closeTimestamp: 60,
+    closeTransactionHash: "0x",
+    isLiquidation: false,
+    sizeUsd: usd(1000),
+    closePrice: usd(1),
+    grossPnlUsd: p.realizedPnlUsd,
+    positionFeeUsd: 0n,
+    borrowingFeeUsd: 0n,
+    fundingFeeUsd: 0n,
+    ...p,
+  };
+}
+
+describe("getAccountDrawdown", () => {
+  it("returns the largest fall from a high and the days until the high is reached again", () => {
+    expect(getAccountDrawdown(mockDailyPnl([100, -30, -50, 20, 70, 10, -40]))).toEqual({
+      maxDrawdownUsd: usd(80),
+      peakTimestamp: 0,
+      troughTimestamp: 2 * SECONDS_IN_DAY,
+      recoveryTimestamp: 4 * SECONDS_IN_DAY,
+      durationDays: 4,
+    });
+  });
+
+  it("counts an unrecovered drawdown until the last day", () => {
+    const drawdown = getAccountDrawdown(mockDailyPnl([-10, 5, -20, 0]));
+
+    expect(drawdown.maxDrawdownUsd).toBe(usd(25));
+    expect(drawdown.recoveryTimestamp).toBeUndefined();
+    expect(drawdown.durationDays).toBe(3);
+  });
+
+  it("returns no drawdown for a rising PnL", () => {
+    expect(getAccountDrawdown(mockDailyPnl([10, 0, 20]))).toEqual({ maxDrawdownUsd: 0n, durationDays: 0 });
+  });
+});
+
+describe("getAccountRiskRatios", () => {
+  it("annualizes the mean daily PnL over its deviation and downside deviation", () => {
+    const { sharpeRatio, sortinoRatio } = getAccountRiskRatios(mockDailyPnl([10, -10, 30]));
+
+    expect(sharpeRatio).toBeCloseTo((10 / 20) * Math.sqrt(365));
+    expect(sortinoRatio).toBeCloseTo((10 / Math.sqrt(100 / 3)) * Math.sqrt(365));
+  });
+
+  it("returns no ratios without a deviation", () => {
+    expect(getAccountRiskRatios(mockDailyPnl([10]))).toEqual({});
+    expect(getAccountRiskRatios(mockDailyPnl([10, 10]))).toEqual({ sharpeRatio: undefined, sortinoRatio: undefined });
+  });
+});
+
+describe("getAccountTradeStats", () => {
+  it("returns average win, average loss and expectancy of the closed lots", () => {
+    expect(
+      getAccountTradeStats([
+        mockTaxLot({ realizedPnlUsd: usd(300) }),
+        mockTaxLot({ realizedPnlUsd: usd(100) }),
+        mockTaxLot({ realizedPnlUsd: usd(-200) }),
+        mockTaxLot({ realizedPnlUsd: 0n }),
+      ])
+    ).toEqual({
+      trades: 4,
+      wins: 2,
+      losses: 1,
+      winRateBps: 5000n,
+      averageWinUsd: usd(200),
+      averageLossUsd: usd(-200),
+      expectancyUsd: usd(50),
+    });
+  });
+});
+
+describe("getAccountPerformanceBreakdown", () => {
+  const taxLots = [
+    mockTaxLot({ realizedPnlUsd: usd(-50), openLeverage: 500000n, closeTimestamp: 2 * SECONDS_IN_DAY }),
+    mockTaxLot({ realizedPnlUsd: usd(100), openLeverage: 20000n, isLong: false }),
+    mockTaxLot({ realizedPnlUsd: usd(30), marketName: "BTC/USD [BTC-USDC]", openTimestamp: undefined }),
+  ];
+
+  it("puts lots into leverage and holding time buckets", () => {
+    expect(getLeverageBucket(20000n)).toBe("upTo2x");
+    expect(getLeverageBucket(20001n)).toBe("upTo5x");
+    expect(getLeverageBucket(1000000n)).toBe("above50x");
+    expect(getHoldingTimeBucket(taxLots[0])).toBe("upTo1w");
+    expect(getHoldingTimeBucket(taxLots[2])).toBe("unknown");
+  });
+
+  it("groups realized PnL by market sorted by PnL and by buckets in their order", () => {
+    expect(getAccountPerformanceBreakdown(taxLots, "market").map((row) => [row.key, row.pnlUsd])).toEqual([
+      ["ETH/USD [ETH-USDC]", usd(50)],
+      ["BTC/USD [BTC-USDC]", usd(30)],
+    ]);
+    expect(getAccountPerformanceBreakdown(taxLots, "side")).toEqual([
+      { key: "long", trades: 2, wins: 1, losses: 1, volumeUsd: usd(2000), pnlUsd: usd(-20), averagePnlUsd: usd(-10) },
+      { key: "short", trades: 1, wins: 1, losses: 0, volumeUsd: usd(1000), pnlUsd: usd(100), averagePnlUsd: usd(100) },
+    ]);
+    expect(getAccountPerformanceBreakdown(taxLots, "leverage").map((row) => row.key)).toEqual([
+      "upTo2x",
+      "upTo50x",
+      "unknown",
+    ]);
+    expect(getAccountPerformanceBreakdown(taxLots, "holdingTime").map((row) => row.key)).toEqual([
+      "upTo1h",
+      "upTo1w",
+      "unknown",
+    ]);
+  });
+});
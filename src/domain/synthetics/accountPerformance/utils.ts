@@ -0,0 +1,228 @@
+import { formatUnits } from "ethers";
+
+import { BASIS_POINTS_DIVISOR_BIGINT, USD_DECIMALS } from "config/factors";
+import { bigintToNumber } from "lib/numbers";
+import { SECONDS_IN_DAY } from "lib/dates";
+import { CHART_PERIODS } from "lib/legacy";
+import type { TaxLot } from "../tradeHistoryExport/types";
+import type {
+  AccountDailyPnl,
+  AccountDrawdown,
+  AccountPerformanceBreakdownExportRow,
+  AccountPerformanceBreakdownRow,
+  AccountPerformanceBreakdownType,
+  AccountRiskRatios,
+  AccountTradeStats,
+  HoldingTimeBucket,
+  LeverageBucket,
+} from "./types";
+
+const DAYS_IN_YEAR = 365;
+
+export const LEVERAGE_BUCKETS: LeverageBucket[] = [
+  "upTo2x",
+  "upTo5x",
+  "upTo10x",
+  "upTo25x",
+  "upTo50x",
+  "above50x",
+  "unknown",
+];
+
+export const HOLDING_TIME_BUCKETS: HoldingTimeBucket[] = ["upTo1h", "upTo1d", "upTo1w", "above1w", "unknown"];
+
+const LEVERAGE_BUCKET_LIMITS: [LeverageBucket, bigint][] = [
+  ["upTo2x", 2n * BASIS_POINTS_DIVISOR_BIGINT],
+  ["upTo5x", 5n * BASIS_POINTS_DIVISOR_BIGINT],
+  ["upTo10x", 10n * BASIS_POINTS_DIVISOR_BIGINT],
+  ["upTo25x", 25n * BASIS_POINTS_DIVISOR_BIGINT],
+  ["upTo50x", 50n * BASIS_POINTS_DIVISOR_BIGINT],
+];
+
+const HOLDING_TIME_BUCKET_LIMITS: [HoldingTimeBucket, number][] = [
+  ["upTo1h", CHART_PERIODS["1h"]],
+  ["upTo1d", SECONDS_IN_DAY],
+  ["upTo1w", SECONDS_IN_DAY * 7],
+];
+
+export function getAccountDrawdown(dailyPnl: AccountDailyPnl[]): AccountDrawdown {
+  const points = [...dailyPnl].sort((a, b) => a.timestamp - b.timestamp);
+
+  if (!points.length) {
+    return { maxDrawdownUsd: 0n, durationDays: 0 };
+  }
+
+  let cumulativePnlUsd = 0n;
+  let peakPnlUsd = 0n;
+  let peakTimestamp = points[0].timestamp;
+  let drawdown: AccountDrawdown = { maxDrawdownUsd: 0n, durationDays: 0 };
+
+  for (const point of points) {
+    cumulativePnlUsd += point.pnlUsd;
+
+    if (cumulativePnlUsd >= peakPnlUsd) {
+      if (drawdown.peakTimestamp === peakTimestamp && drawdown.recoveryTimestamp === undefined) {
+        drawdown = { ...drawdown, recoveryTimestamp: point.timestamp };
+      }
+
+      peakPnlUsd = cumulativePnlUsd;
+      peakTimestamp = point.timestamp;
+      continue;
+    }
+
+    const drawdownUsd = peakPnlUsd - cumulativePnlUsd;
+
+    if (drawdownUsd > drawdown.maxDrawdownUsd) {
+      drawdown = {
+        maxDrawdownUsd: drawdownUsd,
+        peakTimestamp,
+        troughTimestamp: point.timestamp,
+        durationDays: 0,
+      };
+    }
+  }
+
+  if (drawdown.peakTimestamp === undefined) {
+    return drawdown;
+  }
+
+  const endTimestamp = drawdown.recoveryTimestamp ?? points[points.length - 1].timestamp;
+
+  return { ...drawdown, durationDays: Math.round((endTimestamp - drawdown.peakTimestamp) / SECONDS_IN_DAY) };
+}
+
+export function getAccountRiskRatios(dailyPnl: AccountDailyPnl[]): AccountRiskRatios {
+  const values = dailyPnl.map((point) => bigintToNumber(point.pnlUsd, USD_DECIMALS));
+
+  if (values.length < 2) {
+    return {};
+  }
+
+  const mean = values.reduce((acc, value) => acc + value, 0) / values.length;
+  const variance = values.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (values.length - 1);
+  const downsideVariance = values.reduce((acc, value) => acc + Math.min(value, 0) ** 2, 0) / values.length;
+
+  const annualize = (deviation: number) => (deviation > 0 ? (mean / deviation) * Math.sqrt(DAYS_IN_YEAR) : undefined);
+
+  return {
+    sharpeRatio: annualize(Math.sqrt(variance)),
+    sortinoRatio: annualize(Math.sqrt(downsideVariance)),
+  };
+}
+
+export function getAccountTradeStats(taxLots: TaxLot[]): AccountTradeStats {
+  let wins = 0;
+  let losses = 0;
+  let winsUsd = 0n;
+  let lossesUsd = 0n;
+  let totalUsd = 0n;
+
+  for (const taxLot of taxLots) {
+    totalUsd += taxLot.realizedPnlUsd;
+
+    if (taxLot.realizedPnlUsd > 0n) {
+      wins++;
+      winsUsd += taxLot.realizedPnlUsd;
+    } else if (taxLot.realizedPnlUsd < 0n) {
+      losses++;
+      lossesUsd += taxLot.realizedPnlUsd;
+    }
+  }
+
+  const trades = taxLots.length;
+
+  return {
+    trades,
+    wins,
+    losses,
+    winRateBps: trades ? (BigInt(wins) * BASIS_POINTS_DIVISOR_BIGINT) / BigInt(trades) : undefined,
+    averageWinUsd: wins ? winsUsd / BigInt(wins) : undefined,
+    averageLossUsd: losses ? lossesUsd / BigInt(losses) : undefined,
+    expectancyUsd: trades ? totalUsd / BigInt(trades) : undefined,
+  };
+}
+
+export function getLeverageBucket(leverage: bigint | undefined): LeverageBucket {
+  if (leverage === undefined) {
+    return "unknown";
+  }
+
+  return LEVERAGE_BUCKET_LIMITS.find(([, limit]) => leverage <= limit)?.[0] ?? "above50x";
+}
+
+export function getHoldingTimeBucket(taxLot: Pick<TaxLot, "openTimestamp" | "closeTimestamp">): HoldingTimeBucket {
+  if (taxLot.openTimestamp === undefined) {
+    return "unknown";
+  }
+
+  const holdingTime = taxLot.closeTimestamp - taxLot.openTimestamp;
+
+  return HOLDING_TIME_BUCKET_LIMITS.find(([, limit]) => holdingTime <= limit)?.[0] ?? "above1w";
+}
+
+function getBreakdownKey(taxLot: TaxLot, type: AccountPerformanceBreakdownType): string {
+  switch (type) {
+    case "market":
+      return taxLot.marketName;
+    case "side":
+      return taxLot.isLong ? "long" : "short";
+    case "leverage":
+      return getLeverageBucket(taxLot.openLeverage);
+    case "holdingTime":
+      return getHoldingTimeBucket(taxLot);
+  }
+}
+
+const BREAKDOWN_KEYS_ORDER: Partial<Record<AccountPerformanceBreakdownType, string[]>> = {
+  side: ["long", "short"],
+  leverage: LEVERAGE_BUCKETS,
+  holdingTime: HOLDING_TIME_BUCKETS,
+};
+
+/**
+ * Realized PnL of the closed lots grouped by the breakdown type,
+ * markets are sorted by PnL, buckets keep their order
+ */
+export function getAccountPerformanceBreakdown(
+  taxLots: TaxLot[],
+  type: AccountPerformanceBreakdownType
+): AccountPerformanceBreakdownRow[] {
+  const rowsByKey: { [key: string]: AccountPerformanceBreakdownRow } = {};
+
+  for (const taxLot of taxLots) {
+    const key = getBreakdownKey(taxLot, type);
+    const row = rowsByKey[key] ?? { key, trades: 0, wins: 0, losses: 0, volumeUsd: 0n, pnlUsd: 0n, averagePnlUsd: 0n };
+
+    row.trades++;
+    row.wins += taxLot.realizedPnlUsd > 0n ? 1 : 0;
+    row.losses += taxLot.realizedPnlUsd < 0n ? 1 : 0;
+    row.volumeUsd += taxLot.sizeUsd;
+    row.pnlUsd += taxLot.realizedPnlUsd;
+    row.averagePnlUsd = row.pnlUsd / BigInt(row.trades);
+
+    rowsByKey[key] = row;
+  }
+
+  const keysOrder = BREAKDOWN_KEYS_ORDER[type];
+
+  if (keysOrder) {
+    return keysOrder.filter((key) => rowsByKey[key]).map((key) => rowsByKey[key]);
+  }
+
+  return Object.values(rowsByKey).sort((a, b) => (a.pnlUsd === b.pnlUsd ? 0 : a.pnlUsd > b.pnlUsd ? -1 : 1));
+}
+
+export function getAccountPerformanceBreakdownExportRow(
+  row: AccountPerformanceBreakdownRow,
+  group: string
+): AccountPerformanceBreakdownExportRow {
+  return {
+    group,
+    trades: String(row.trades),
+    wins: String(row.wins),
+    losses: String(row.losses),
+    volumeUsd: formatUnits(row.volumeUsd, USD_DECIMALS),
+    pnlUsd: formatUnits(row.pnlUsd, USD_DECIMALS),
+    averagePnlUsd: formatUnits(row.averagePnlUsd, USD_DECIMALS),
+  };
+}
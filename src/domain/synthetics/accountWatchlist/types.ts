@@ -0,0 +1,17 @@
+import type { LeaderboardPositionBase } from "domain/synthetics/leaderboard";
+import type { MarketInfo } from "domain/synthetics/markets";
+import type { TokenData } from "domain/synthetics/tokens";
+
+export type WatchedAccount = {
+  account: string;
+  addedAt: number;
+};
+
+export type WatchlistPosition = LeaderboardPositionBase & {
+  marketInfo: MarketInfo;
+  collateralTokenData: TokenData;
+  markPrice: bigint;
+  pnl: bigint;
+  collateralUsd: bigint;
+  leverage: bigint | undefined;
+};
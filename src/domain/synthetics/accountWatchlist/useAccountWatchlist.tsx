@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+import noop from "lodash/noop";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo } from "react";
+
+import { getAccountWatchlistKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import type { WatchedAccount } from "./types";
+
+type AccountWatchlistContextType = {
+  watchedAccounts: WatchedAccount[];
+  isWatched: (account: string) => boolean;
+  addWatchedAccount: (account: string) => void;
+  removeWatchedAccount: (account: string) => void;
+};
+
+const context = createContext<AccountWatchlistContextType>({
+  watchedAccounts: [],
+  isWatched: () => false,
+  addWatchedAccount: noop,
+  removeWatchedAccount: noop,
+});
+
+const Provider = context.Provider;
+
+export function AccountWatchlistContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const [storedWatchedAccounts, setStoredWatchedAccounts] = useLocalStorageSerializeKey<WatchedAccount[]>(
+    getAccountWatchlistKey(chainId),
+    []
+  );
+
+  const watchedAccounts = useMemo(() => storedWatchedAccounts ?? [], [storedWatchedAccounts]);
+
+  const isWatched = useCallback(
+    (account: string) => watchedAccounts.some((item) => item.account.toLowerCase() === account.toLowerCase()),
+    [watchedAccounts]
+  );
+
+  const addWatchedAccount = useCallback(
+    (account: string) => {
+      if (!ethers.isAddress(account) || isWatched(account)) return;
+
+      setStoredWatchedAccounts([...watchedAccounts, { account: ethers.getAddress(account), addedAt: Date.now() }]);
+    },
+    [isWatched, setStoredWatchedAccounts, watchedAccounts]
+  );
+
+  const removeWatchedAccount = useCallback(
+    (account: string) => {
+      setStoredWatchedAccounts(watchedAccounts.filter((item) => item.account.toLowerCase() !== account.toLowerCase()));
+    },
+    [setStoredWatchedAccounts, watchedAccounts]
+  );
+
+  const stableObj = useMemo<AccountWatchlistContextType>(
+    () => ({ watchedAccounts, isWatched, addWatchedAccount, removeWatchedAccount }),
+    [watchedAccounts, isWatched, addWatchedAccount, removeWatchedAccount]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function useAccountWatchlist() {
+  return useContext(context);
+}
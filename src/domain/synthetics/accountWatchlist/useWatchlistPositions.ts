@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import useSWR from "swr";
+
+import { useMarketsInfoData, useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { fetchAccountsPositions } from "domain/synthetics/leaderboard";
+import { CONFIG_UPDATE_INTERVAL } from "lib/timeConstants";
+import type { WatchedAccount, WatchlistPosition } from "./types";
+import { getWatchlistPosition } from "./utils";
+
+export function useWatchlistPositions(
+  chainId: number,
+  watchedAccounts: WatchedAccount[]
+): { positions: WatchlistPosition[] | undefined; isLoading: boolean } {
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+
+  const accounts = useMemo(() => watchedAccounts.map((item) => item.account), [watchedAccounts]);
+
+  const { data, error } = useSWR(
+    accounts.length ? ["accountWatchlist/useWatchlistPositions", chainId, accounts.join(",")] : null,
+    () => fetchAccountsPositions(chainId, accounts),
+    { refreshInterval: CONFIG_UPDATE_INTERVAL }
+  );
+
+  const positions = useMemo(() => {
+    if (!accounts.length) return [];
+    if (!data) return undefined;
+
+    return data
+      .map((position) => getWatchlistPosition(position, marketsInfoData, tokensData))
+      .filter((position): position is WatchlistPosition => position !== undefined)
+      .sort((a, b) => (b.sizeInUsd > a.sizeInUsd ? 1 : -1));
+  }, [accounts.length, data, marketsInfoData, tokensData]);
+
+  return { positions, isLoading: accounts.length > 0 && !data && !error };
+}
@@ -0,0 +1,77 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import type { LeaderboardPositionBase } from "../leaderboard";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import { OrderType } from "../orders/types";
+import { TradeAction, TradeActionType } from "../tradeHistory/types";
+import { getNewWatchlistTradeActions, getWatchlistMirrorTradeUrl, getWatchlistPosition } from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"]);
+
+const shortPosition = {
+  key: "position",
+  account: "0x1",
+  market: "ETH-ETH-USDC",
+  collateralToken: "USDC",
+  isLong: false,
+  sizeInUsd: usd(1000),
+  sizeInTokens: expandDecimals(1, 18),
+  collateralAmount: expandDecimals(500, 6),
+  unrealizedFees: 0n,
+  entryPrice: 0n,
+} as LeaderboardPositionBase;
+
+describe("getWatchlistPosition", () => {
+  it("computes live pnl and leverage at the mark price", () => {
+    const position = getWatchlistPosition(shortPosition, marketsInfoData, tokensData)!;
+
+    expect(position.markPrice).toBe(usd(1200));
+    expect(position.entryPrice).toBe(usd(1000));
+    expect(position.pnl).toBe(-usd(200));
+    expect(position.collateralUsd).toBe(usd(500));
+    expect(position.leverage).toBe(33333n);
+  });
+
+  it("skips positions of unknown markets", () => {
+    expect(getWatchlistPosition({ ...shortPosition, market: "BTC-BTC-USDC" }, marketsInfoData, tokensData)).toBe(
+      undefined
+    );
+  });
+});
+
+describe("getWatchlistMirrorTradeUrl", () => {
+  it("links to the same market, side and collateral at the position leverage", () => {
+    const position = getWatchlistPosition(shortPosition, marketsInfoData, tokensData)!;
+
+    expect(getWatchlistMirrorTradeUrl(position, usd(100))).toBe(
+      "/trade/short?to=ETH&pool=ETH-USDC&collateral=USDC&from=USDC&leverage=3.3&amount=100"
+    );
+    expect(getWatchlistMirrorTradeUrl(position, undefined)).toBe(
+      "/trade/short?to=ETH&pool=ETH-USDC&collateral=USDC&from=USDC&leverage=3.3"
+    );
+  });
+});
+
+describe("getNewWatchlistTradeActions", () => {
+  const mockAction = (id: string, timestamp: number, eventName = TradeActionType.OrderExecuted) =>
+    ({
+      id,
+      eventName,
+      marketInfo: marketsInfoData["ETH-ETH-USDC"],
+      orderType: OrderType.MarketIncrease,
+      transaction: { timestamp, hash: id },
+    }) as TradeAction;
+
+  it("returns executed actions after the timestamp, oldest first", () => {
+    const tradeActions = [
+      mockAction("latest", 30),
+      mockAction("cancelled", 25, TradeActionType.OrderCancelled),
+      mockAction("new", 20),
+      mockAction("seen", 10),
+    ];
+
+    expect(getNewWatchlistTradeActions(tradeActions, 10).map((action) => action.id)).toEqual(["new", "latest"]);
+  });
+});
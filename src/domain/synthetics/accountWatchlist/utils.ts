@@ -0,0 +1,95 @@
+import type { LeaderboardPositionBase } from "domain/synthetics/leaderboard";
+import { MarketsInfoData, getMarketPoolName } from "domain/synthetics/markets";
+import { getEntryPrice, getLeverage, getPositionPnlUsd } from "domain/synthetics/positions";
+import { TokensData, convertToTokenAmount, convertToUsd } from "domain/synthetics/tokens";
+import { getMarkPrice } from "domain/synthetics/trade/utils/prices";
+import { PositionTradeAction, TradeAction, TradeActionType } from "domain/synthetics/tradeHistory/types";
+import { bigintToNumber, formatAmountFree } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import type { WatchlistPosition } from "./types";
+
+export function getWatchlistPosition(
+  position: LeaderboardPositionBase,
+  marketsInfoData: MarketsInfoData | undefined,
+  tokensData: TokensData | undefined
+): WatchlistPosition | undefined {
+  const marketInfo = getByKey(marketsInfoData, position.market);
+  const collateralTokenData = getByKey(tokensData, position.collateralToken);
+
+  if (!marketInfo || !collateralTokenData) {
+    return undefined;
+  }
+
+  const markPrice = getMarkPrice({ prices: marketInfo.indexToken.prices, isIncrease: false, isLong: position.isLong });
+  const pnl = getPositionPnlUsd({
+    marketInfo,
+    sizeInUsd: position.sizeInUsd,
+    sizeInTokens: position.sizeInTokens,
+    markPrice,
+    isLong: position.isLong,
+  });
+  const collateralUsd =
+    convertToUsd(position.collateralAmount, collateralTokenData.decimals, collateralTokenData.prices.minPrice) ?? 0n;
+
+  return {
+    ...position,
+    marketInfo,
+    collateralTokenData,
+    markPrice,
+    pnl,
+    collateralUsd,
+    entryPrice: getEntryPrice({ ...position, indexToken: marketInfo.indexToken }) ?? position.entryPrice,
+    leverage: getLeverage({
+      sizeInUsd: position.sizeInUsd,
+      collateralUsd,
+      pnl,
+      pendingFundingFeesUsd: position.unrealizedFees,
+      pendingBorrowingFeesUsd: 0n,
+    }),
+  };
+}
+
+/**
+ * Builds a TradeBox link opening the same market, side and collateral as the watched position,
+ * paying `mirrorCollateralUsd` in the collateral token at the position's leverage
+ */
+export function getWatchlistMirrorTradeUrl(position: WatchlistPosition, mirrorCollateralUsd: bigint | undefined) {
+  const { marketInfo, collateralTokenData, leverage, isLong } = position;
+
+  const searchParams = new URLSearchParams({
+    to: marketInfo.indexToken.symbol,
+    pool: getMarketPoolName(marketInfo),
+    collateral: collateralTokenData.symbol,
+    from: collateralTokenData.symbol,
+  });
+
+  if (leverage !== undefined) {
+    searchParams.set("leverage", (Math.trunc(bigintToNumber(leverage, 4) * 10) / 10).toString());
+  }
+
+  const amount = convertToTokenAmount(
+    mirrorCollateralUsd,
+    collateralTokenData.decimals,
+    collateralTokenData.prices.maxPrice
+  );
+
+  if (amount !== undefined && amount > 0) {
+    searchParams.set("amount", formatAmountFree(amount, collateralTokenData.decimals));
+  }
+
+  return `/trade/${isLong ? "long" : "short"}?${searchParams.toString()}`;
+}
+
+/**
+ * Executed position actions newer than `fromTimestamp`, oldest first
+ */
+export function getNewWatchlistTradeActions(tradeActions: TradeAction[], fromTimestamp: number) {
+  return tradeActions
+    .filter(
+      (tradeAction): tradeAction is PositionTradeAction =>
+        "marketInfo" in tradeAction &&
+        tradeAction.eventName === TradeActionType.OrderExecuted &&
+        tradeAction.transaction.timestamp > fromTimestamp
+    )
+    .sort((a, b) => a.transaction.timestamp - b.transaction.timestamp);
+}
@@ -0,0 +1,37 @@
+import type { PositionOrderInfo } from "domain/synthetics/orders";
+
+export type TriggerPriceShift =
+  | {
+      type: "percent";
+      /**
+       * Signed, in basis points
+       */
+      bps: bigint;
+    }
+  | {
+      type: "absolute";
+      /**
+       * Signed, in USD with 30 decimals
+       */
+      usd: bigint;
+    };
+
+export type BatchOrderUpdate = {
+  order: PositionOrderInfo;
+  nextTriggerPrice: bigint;
+  nextAcceptablePrice: bigint;
+};
+
+export type BatchOrderRecreation = {
+  order: PositionOrderInfo;
+  nextCollateralTokenAddress: string;
+  nextInitialCollateralDeltaAmount: bigint;
+};
+
+export type BatchOrderRecreations = {
+  recreations: BatchOrderRecreation[];
+  /**
+   * Orders which can't be moved because there is no position with the new collateral
+   */
+  ordersWithoutPosition: PositionOrderInfo[];
+};
@@ -0,0 +1,143 @@
+import { OrderType, PositionOrderInfo } from "domain/synthetics/orders";
+import { PositionInfo, PositionsInfoData, getPositionKey } from "domain/synthetics/positions";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { mockMarketsInfoData, mockTokensData } from "domain/synthetics/testUtils/mocks";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import {
+  getBatchOrderRecreations,
+  getBatchOrderUpdates,
+  getBatchOrdersCollateralTokenAddresses,
+  shiftTriggerPrice,
+} from "./utils";
+
+const tokensData = mockTokensData();
+const marketInfo = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"])["ETH-ETH-USDC"];
+
+function mockOrder(overrides: Partial<PositionOrderInfo>): PositionOrderInfo {
+  return {
+    key: "order",
+    account: "account",
+    marketAddress: marketInfo.marketTokenAddress,
+    marketInfo,
+    indexToken: tokensData.ETH,
+    initialCollateralToken: tokensData.USDC,
+    targetCollateralToken: tokensData.USDC,
+    initialCollateralTokenAddress: "USDC",
+    initialCollateralDeltaAmount: 0n,
+    orderType: OrderType.LimitDecrease,
+    isLong: true,
+    triggerPrice: usd(1000),
+    acceptablePrice: usd(990),
+    contractAcceptablePrice: 0n,
+    ...overrides,
+  } as PositionOrderInfo;
+}
+
+describe("shiftTriggerPrice", () => {
+  it("shifts by percent and absolute amount", () => {
+    expect(shiftTriggerPrice(usd(1000), { type: "percent", bps: 250n })).toBe(usd(1025));
+    expect(shiftTriggerPrice(usd(1000), { type: "absolute", usd: -usd(100) })).toBe(usd(900));
+  });
+
+  it("returns undefined for a non-positive price", () => {
+    expect(shiftTriggerPrice(usd(1000), { type: "absolute", usd: -usd(1000) })).toBeUndefined();
+  });
+});
+
+describe("getBatchOrderUpdates", () => {
+  it("keeps the acceptable price distance without a common impact", () => {
+    const [update] = getBatchOrderUpdates({
+      orders: [mockOrder({})],
+      shift: { type: "percent", bps: 1000n },
+      acceptablePriceImpactBps: undefined,
+    });
+
+    expect(update.nextTriggerPrice).toBe(usd(1100));
+    expect(update.nextAcceptablePrice).toBe(usd(1089));
+  });
+
+  it("applies a common impact to the shifted trigger price", () => {
+    const [update] = getBatchOrderUpdates({
+      orders: [mockOrder({})],
+      shift: undefined,
+      acceptablePriceImpactBps: 200,
+    });
+
+    expect(update.nextTriggerPrice).toBe(usd(1000));
+    expect(update.nextAcceptablePrice).toBe(usd(980));
+  });
+
+  it("skips orders which are not changed or would get a non-positive trigger price", () => {
+    const updates = getBatchOrderUpdates({
+      orders: [mockOrder({ key: "a" }), mockOrder({ key: "b", triggerPrice: usd(50), acceptablePrice: usd(49) })],
+      shift: { type: "absolute", usd: -usd(100) },
+      acceptablePriceImpactBps: undefined,
+    });
+
+    expect(updates.map(({ order }) => order.key)).toEqual(["a"]);
+    expect(
+      getBatchOrderUpdates({ orders: [mockOrder({})], shift: undefined, acceptablePriceImpactBps: undefined })
+    ).toEqual([]);
+  });
+});
+
+function mockPositionsInfoData(collateralAddresses: string[]): PositionsInfoData {
+  return Object.fromEntries(
+    collateralAddresses.map((address) => {
+      const key = getPositionKey("account", marketInfo.marketTokenAddress, address, true);
+      return [key, { key } as PositionInfo];
+    })
+  );
+}
+
+describe("getBatchOrderRecreations", () => {
+  const positionsInfoData = mockPositionsInfoData(["USDC", "ETH"]);
+
+  it("moves trigger decrease orders to the other collateral of the market", () => {
+    const { recreations, ordersWithoutPosition } = getBatchOrderRecreations(
+      [
+        mockOrder({ key: "tp", initialCollateralDeltaAmount: expandDecimals(120, 6) }),
+        mockOrder({ key: "limit", orderType: OrderType.LimitIncrease }),
+      ],
+      "ETH",
+      positionsInfoData
+    );
+
+    expect(ordersWithoutPosition).toEqual([]);
+    expect(recreations).toEqual([
+      {
+        order: expect.objectContaining({ key: "tp" }),
+        nextCollateralTokenAddress: "ETH",
+        nextInitialCollateralDeltaAmount: expandDecimals(1, 17),
+      },
+    ]);
+  });
+
+  it("skips orders already on the collateral or whose market lacks it", () => {
+    expect(getBatchOrderRecreations([mockOrder({})], "USDC", positionsInfoData).recreations).toEqual([]);
+    expect(getBatchOrderRecreations([mockOrder({})], "BTC", positionsInfoData).recreations).toEqual([]);
+  });
+
+  it("doesn't move orders without a position with the new collateral", () => {
+    const { recreations, ordersWithoutPosition } = getBatchOrderRecreations(
+      [mockOrder({ key: "sl" }), mockOrder({ key: "short", isLong: false })],
+      "ETH",
+      positionsInfoData
+    );
+
+    expect(recreations.map(({ order }) => order.key)).toEqual(["sl"]);
+    expect(ordersWithoutPosition.map((order) => order.key)).toEqual(["short"]);
+  });
+});
+
+describe("getBatchOrdersCollateralTokenAddresses", () => {
+  it("only offers collaterals of open positions", () => {
+    expect(getBatchOrdersCollateralTokenAddresses([mockOrder({})], mockPositionsInfoData(["USDC"]))).toEqual(["USDC"]);
+    expect(getBatchOrdersCollateralTokenAddresses([mockOrder({})], mockPositionsInfoData(["USDC", "ETH"]))).toEqual([
+      "ETH",
+      "USDC",
+    ]);
+    expect(getBatchOrdersCollateralTokenAddresses([mockOrder({})], {})).toEqual([]);
+  });
+});
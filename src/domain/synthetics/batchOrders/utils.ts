@@ -0,0 +1,158 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { PositionOrderInfo, isIncreaseOrderType, isTriggerDecreaseOrderType } from "domain/synthetics/orders";
+import { PositionsInfoData, getPositionKey } from "domain/synthetics/positions";
+import { convertToTokenAmount, convertToUsd } from "domain/synthetics/tokens";
+import { applySlippageToPrice } from "domain/synthetics/trade";
+import { ethers } from "ethers";
+import { bigMath } from "lib/bigmath";
+import { getByKey } from "lib/objects";
+import type { BatchOrderRecreation, BatchOrderRecreations, BatchOrderUpdate, TriggerPriceShift } from "./types";
+
+export function shiftTriggerPrice(price: bigint, shift: TriggerPriceShift): bigint | undefined {
+  const nextPrice =
+    shift.type === "percent"
+      ? price + bigMath.mulDiv(price, shift.bps, BASIS_POINTS_DIVISOR_BIGINT)
+      : price + shift.usd;
+
+  return nextPrice > 0 ? nextPrice : undefined;
+}
+
+/**
+ * Without a common impact the order keeps its current distance between the trigger and the acceptable price
+ */
+export function getBatchOrderAcceptablePrice(
+  order: PositionOrderInfo,
+  nextTriggerPrice: bigint,
+  acceptablePriceImpactBps: number | undefined
+): bigint {
+  if (acceptablePriceImpactBps !== undefined) {
+    return applySlippageToPrice(
+      acceptablePriceImpactBps,
+      nextTriggerPrice,
+      isIncreaseOrderType(order.orderType),
+      order.isLong
+    );
+  }
+
+  // stop-loss orders can have an unbounded acceptable price
+  if (
+    order.triggerPrice === 0n ||
+    order.acceptablePrice === 0n ||
+    order.contractAcceptablePrice === ethers.MaxUint256
+  ) {
+    return order.acceptablePrice;
+  }
+
+  return bigMath.mulDiv(order.acceptablePrice, nextTriggerPrice, order.triggerPrice);
+}
+
+export function getBatchOrderUpdates(p: {
+  orders: PositionOrderInfo[];
+  shift: TriggerPriceShift | undefined;
+  acceptablePriceImpactBps: number | undefined;
+}): BatchOrderUpdate[] {
+  const { orders, shift, acceptablePriceImpactBps } = p;
+
+  return orders.reduce<BatchOrderUpdate[]>((acc, order) => {
+    const nextTriggerPrice = shift ? shiftTriggerPrice(order.triggerPrice, shift) : order.triggerPrice;
+
+    if (nextTriggerPrice === undefined) {
+      return acc;
+    }
+
+    const nextAcceptablePrice = getBatchOrderAcceptablePrice(order, nextTriggerPrice, acceptablePriceImpactBps);
+
+    if (nextTriggerPrice !== order.triggerPrice || nextAcceptablePrice !== order.acceptablePrice) {
+      acc.push({ order, nextTriggerPrice, nextAcceptablePrice });
+    }
+
+    return acc;
+  }, []);
+}
+
+function hasPositionWithCollateral(
+  order: PositionOrderInfo,
+  collateralTokenAddress: string,
+  positionsInfoData: PositionsInfoData | undefined
+) {
+  const positionKey = getPositionKey(order.account, order.marketAddress, collateralTokenAddress, order.isLong);
+
+  return Boolean(getByKey(positionsInfoData, positionKey));
+}
+
+/**
+ * Only TP/SL orders can be moved, limit orders would need the collateral to be deposited again.
+ * The moved orders decrease the position with the new collateral, keepers cancel them if there is no such position
+ */
+export function getBatchOrderRecreations(
+  orders: PositionOrderInfo[],
+  collateralTokenAddress: string,
+  positionsInfoData: PositionsInfoData | undefined
+): BatchOrderRecreations {
+  const ordersWithoutPosition: PositionOrderInfo[] = [];
+
+  const recreations = orders.reduce<BatchOrderRecreation[]>((acc, order) => {
+    const { marketInfo, initialCollateralToken } = order;
+    const nextCollateralToken = [marketInfo.longToken, marketInfo.shortToken].find(
+      (token) => token.address === collateralTokenAddress
+    );
+
+    if (
+      !isTriggerDecreaseOrderType(order.orderType) ||
+      !nextCollateralToken ||
+      nextCollateralToken.address === order.initialCollateralTokenAddress
+    ) {
+      return acc;
+    }
+
+    if (!hasPositionWithCollateral(order, nextCollateralToken.address, positionsInfoData)) {
+      ordersWithoutPosition.push(order);
+      return acc;
+    }
+
+    const initialCollateralDeltaUsd = convertToUsd(
+      order.initialCollateralDeltaAmount,
+      initialCollateralToken.decimals,
+      initialCollateralToken.prices.minPrice
+    );
+
+    acc.push({
+      order,
+      nextCollateralTokenAddress: nextCollateralToken.address,
+      nextInitialCollateralDeltaAmount:
+        convertToTokenAmount(
+          initialCollateralDeltaUsd,
+          nextCollateralToken.decimals,
+          nextCollateralToken.prices.maxPrice
+        ) ?? 0n,
+    });
+
+    return acc;
+  }, []);
+
+  return { recreations, ordersWithoutPosition };
+}
+
+/**
+ * Collaterals of open positions with the same market and direction as the TP/SL orders
+ */
+export function getBatchOrdersCollateralTokenAddresses(
+  orders: PositionOrderInfo[],
+  positionsInfoData: PositionsInfoData | undefined
+): string[] {
+  const addresses = new Set<string>();
+
+  for (const order of orders) {
+    if (!isTriggerDecreaseOrderType(order.orderType)) {
+      continue;
+    }
+
+    for (const address of [order.marketInfo.longTokenAddress, order.marketInfo.shortTokenAddress]) {
+      if (hasPositionWithCollateral(order, address, positionsInfoData)) {
+        addresses.add(address);
+      }
+    }
+  }
+
+  return Array.from(addresses);
+}
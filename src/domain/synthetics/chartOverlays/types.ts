@@ -0,0 +1,30 @@
+import type { OrderType } from "../orders/types";
+
+export type ChartFill = {
+  id: string;
+  positionKey: string;
+  /**
+   * Unix timestamp in seconds
+   */
+  time: number;
+  price: bigint;
+  sizeDeltaUsd: bigint;
+  orderType: OrderType;
+  isLong: boolean;
+  isIncrease: boolean;
+  /**
+   * Increasing a long or decreasing a short
+   */
+  isBuy: boolean;
+};
+
+export type ChartLiquidationZone = {
+  positionKey: string;
+  isLong: boolean;
+  /**
+   * Time of the earliest loaded increase of the position, undefined when the history doesn't include it
+   */
+  fromTime: number | undefined;
+  entryPrice: bigint;
+  liquidationPrice: bigint;
+};
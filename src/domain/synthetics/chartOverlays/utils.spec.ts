@@ -0,0 +1,134 @@
+import { ARBITRUM } from "config/chains";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import { OrderInfo, OrderType } from "../orders/types";
+import { PositionInfo } from "../positions";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import { PositionTradeAction, TradeActionType } from "../tradeHistory/types";
+import { getChartFills, getChartLiquidationZones, getIsChartDraggableOrder } from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC", "BTC-BTC-USDC"]);
+
+function tradeAction(p: {
+  id: string;
+  marketAddress: string;
+  orderType: OrderType;
+  isLong: boolean;
+  timestamp: number;
+  eventName?: TradeActionType;
+  executionPrice?: bigint;
+}) {
+  return {
+    id: p.id,
+    eventName: p.eventName ?? TradeActionType.OrderExecuted,
+    account: "account",
+    marketAddress: p.marketAddress,
+    marketInfo: marketsInfoData[p.marketAddress],
+    targetCollateralToken: tokensData.USDC,
+    orderType: p.orderType,
+    isLong: p.isLong,
+    sizeDeltaUsd: usd(1000),
+    executionPrice: "executionPrice" in p ? p.executionPrice : usd(1200),
+    transaction: { timestamp: p.timestamp, hash: "0x" },
+  } as PositionTradeAction;
+}
+
+const tradeActions = [
+  tradeAction({
+    id: "3",
+    marketAddress: "ETH-ETH-USDC",
+    orderType: OrderType.MarketDecrease,
+    isLong: true,
+    timestamp: 3,
+  }),
+  tradeAction({
+    id: "2",
+    marketAddress: "ETH-ETH-USDC",
+    orderType: OrderType.LimitIncrease,
+    isLong: false,
+    timestamp: 2,
+  }),
+  tradeAction({
+    id: "1",
+    marketAddress: "ETH-ETH-USDC",
+    orderType: OrderType.MarketIncrease,
+    isLong: true,
+    timestamp: 1,
+  }),
+  tradeAction({
+    id: "btc",
+    marketAddress: "BTC-BTC-USDC",
+    orderType: OrderType.MarketIncrease,
+    isLong: true,
+    timestamp: 1,
+  }),
+  tradeAction({
+    id: "created",
+    marketAddress: "ETH-ETH-USDC",
+    orderType: OrderType.LimitIncrease,
+    isLong: true,
+    timestamp: 1,
+    eventName: TradeActionType.OrderCreated,
+  }),
+  tradeAction({
+    id: "no-price",
+    marketAddress: "ETH-ETH-USDC",
+    orderType: OrderType.MarketIncrease,
+    isLong: true,
+    timestamp: 1,
+    executionPrice: undefined,
+  }),
+];
+
+describe("getChartFills", () => {
+  it("returns executed orders of the chart token oldest first", () => {
+    const fills = getChartFills(ARBITRUM, tradeActions, "ETH");
+
+    expect(fills.map((fill) => [fill.id, fill.isIncrease, fill.isBuy])).toEqual([
+      ["1", true, true],
+      ["2", true, false],
+      ["3", false, false],
+    ]);
+    expect(fills[0].positionKey).toBe("account:ETH-ETH-USDC:USDC:true");
+  });
+});
+
+describe("getChartLiquidationZones", () => {
+  it("starts the zone at the first loaded increase of the position", () => {
+    const fills = getChartFills(ARBITRUM, tradeActions, "ETH");
+    const position = {
+      key: "account:ETH-ETH-USDC:USDC:true",
+      isLong: true,
+      marketInfo: marketsInfoData["ETH-ETH-USDC"],
+      entryPrice: usd(1200),
+      markPrice: usd(1250),
+      liquidationPrice: usd(1000),
+    } as PositionInfo;
+    const withoutLiquidationPrice = { ...position, key: "other", liquidationPrice: undefined } as PositionInfo;
+
+    expect(getChartLiquidationZones(ARBITRUM, [position, withoutLiquidationPrice], fills, "ETH")).toEqual([
+      {
+        positionKey: position.key,
+        isLong: true,
+        fromTime: 1,
+        entryPrice: usd(1200),
+        liquidationPrice: usd(1000),
+      },
+    ]);
+    expect(getChartLiquidationZones(ARBITRUM, [position], [], "ETH")[0].fromTime).toBeUndefined();
+    expect(getChartLiquidationZones(ARBITRUM, [position], fills, "BTC")).toEqual([]);
+  });
+});
+
+describe("getIsChartDraggableOrder", () => {
+  it("allows limit increase and TP/SL orders", () => {
+    const isDraggable = (orderType: OrderType) => getIsChartDraggableOrder({ orderType } as OrderInfo);
+
+    expect(isDraggable(OrderType.LimitIncrease)).toBe(true);
+    expect(isDraggable(OrderType.LimitDecrease)).toBe(true);
+    expect(isDraggable(OrderType.StopLossDecrease)).toBe(true);
+    expect(isDraggable(OrderType.MarketIncrease)).toBe(false);
+    expect(isDraggable(OrderType.LimitSwap)).toBe(false);
+  });
+});
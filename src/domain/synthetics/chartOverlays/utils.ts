@@ -0,0 +1,84 @@
+import { convertTokenAddress } from "config/tokens";
+import { OrderInfo, PositionOrderInfo } from "../orders/types";
+import {
+  isIncreaseOrderType,
+  isLimitIncreaseOrderType,
+  isSwapOrderType,
+  isTriggerDecreaseOrderType,
+} from "../orders/utils";
+import { PositionInfo, getPositionKey } from "../positions";
+import { PositionTradeAction, TradeAction, TradeActionType } from "../tradeHistory/types";
+import type { ChartFill, ChartLiquidationZone } from "./types";
+
+function getIsChartToken(chainId: number, tokenAddress: string, chartTokenAddress: string) {
+  return (
+    convertTokenAddress(chainId, tokenAddress, "wrapped") === convertTokenAddress(chainId, chartTokenAddress, "wrapped")
+  );
+}
+
+/**
+ * Executed position orders of the chart token, oldest first
+ */
+export function getChartFills(chainId: number, tradeActions: TradeAction[], chartTokenAddress: string): ChartFill[] {
+  return tradeActions
+    .filter(
+      (tradeAction): tradeAction is PositionTradeAction =>
+        tradeAction.eventName === TradeActionType.OrderExecuted &&
+        !isSwapOrderType(tradeAction.orderType) &&
+        (tradeAction as PositionTradeAction).executionPrice !== undefined &&
+        getIsChartToken(chainId, (tradeAction as PositionTradeAction).marketInfo.indexTokenAddress, chartTokenAddress)
+    )
+    .map((tradeAction) => {
+      const isIncrease = isIncreaseOrderType(tradeAction.orderType);
+
+      return {
+        id: tradeAction.id,
+        positionKey: getPositionKey(
+          tradeAction.account,
+          tradeAction.marketAddress,
+          tradeAction.targetCollateralToken.address,
+          tradeAction.isLong
+        ),
+        time: tradeAction.transaction.timestamp,
+        price: tradeAction.executionPrice!,
+        sizeDeltaUsd: tradeAction.sizeDeltaUsd,
+        orderType: tradeAction.orderType,
+        isLong: tradeAction.isLong,
+        isIncrease,
+        isBuy: tradeAction.isLong === isIncrease,
+      };
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * The zone of each open position starts at its earliest loaded increase
+ */
+export function getChartLiquidationZones(
+  chainId: number,
+  positions: PositionInfo[],
+  fills: ChartFill[],
+  chartTokenAddress: string
+): ChartLiquidationZone[] {
+  return positions
+    .filter(
+      (position) =>
+        position.liquidationPrice !== undefined &&
+        position.liquidationPrice > 0 &&
+        getIsChartToken(chainId, position.marketInfo.indexTokenAddress, chartTokenAddress)
+    )
+    .map((position) => ({
+      positionKey: position.key,
+      isLong: position.isLong,
+      fromTime: fills.find((fill) => fill.isIncrease && fill.positionKey === position.key)?.time,
+      entryPrice: position.entryPrice ?? position.markPrice,
+      liquidationPrice: position.liquidationPrice!,
+    }));
+}
+
+/**
+ * Limit increase and TP/SL orders can be moved on the chart to edit their trigger price
+ */
+export function getIsChartDraggableOrder(order: OrderInfo): order is PositionOrderInfo {
+  return isLimitIncreaseOrderType(order.orderType) || isTriggerDecreaseOrderType(order.orderType);
+}
@@ -0,0 +1,81 @@
+import { gql } from "@apollo/client";
+
+import { getSyntheticsGraphClient } from "lib/subgraph";
+import type { MarketStudySnapshot } from "./types";
+
+const PER_CHUNK = 1000;
+const CHUNKS_TOTAL = 3;
+
+const query = gql`
+  query marketStudySnapshots($marketAddress: String!, $skip: Int!) {
+    marketInfoSnapshots(
+      first: 1000
+      skip: $skip
+      orderBy: timestamp
+      orderDirection: desc
+      where: { marketAddress: $marketAddress, period: "1h" }
+    ) {
+      timestamp
+      fundingFactorPerSecond
+      longsPayShorts
+      longInterestUsd
+      shortInterestUsd
+      borrowingFactorPerSecondForLongs
+      borrowingFactorPerSecondForShorts
+      longPoolValueUsd
+      shortPoolValueUsd
+    }
+  }
+`;
+
+type RawMarketStudySnapshot = {
+  timestamp: number;
+  fundingFactorPerSecond: string;
+  longsPayShorts: boolean;
+  longInterestUsd: string;
+  shortInterestUsd: string;
+  borrowingFactorPerSecondForLongs: string;
+  borrowingFactorPerSecondForShorts: string;
+  longPoolValueUsd: string;
+  shortPoolValueUsd: string;
+};
+
+/**
+ * Hourly snapshots of the market, the latest ones first
+ */
+export async function fetchMarketStudySnapshots(
+  chainId: number,
+  marketAddress: string
+): Promise<MarketStudySnapshot[]> {
+  const client = getSyntheticsGraphClient(chainId);
+
+  if (!client) {
+    return [];
+  }
+
+  const chunks = await Promise.all(
+    Array.from({ length: CHUNKS_TOTAL }, (_, i) =>
+      client.query({
+        query,
+        variables: { marketAddress: marketAddress.toLowerCase(), skip: i * PER_CHUNK },
+        fetchPolicy: "no-cache",
+      })
+    )
+  );
+
+  return chunks.flatMap(({ data }) =>
+    data.marketInfoSnapshots.map(
+      (raw: RawMarketStudySnapshot): MarketStudySnapshot => ({
+        timestamp: Number(raw.timestamp),
+        fundingFactorPerSecond: BigInt(raw.fundingFactorPerSecond),
+        longsPayShorts: raw.longsPayShorts,
+        longInterestUsd: BigInt(raw.longInterestUsd),
+        shortInterestUsd: BigInt(raw.shortInterestUsd),
+        borrowingFactorPerSecondForLongs: BigInt(raw.borrowingFactorPerSecondForLongs),
+        borrowingFactorPerSecondForShorts: BigInt(raw.borrowingFactorPerSecondForShorts),
+        longPoolValueUsd: BigInt(raw.longPoolValueUsd),
+        shortPoolValueUsd: BigInt(raw.shortPoolValueUsd),
+      })
+    )
+  );
+}
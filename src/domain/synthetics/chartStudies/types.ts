@@ -0,0 +1,18 @@
+import type { MarketRatesSnapshot } from "../marketRatesHistory";
+
+export type MarketStudySeries = "openInterest" | "fundingRate" | "borrowingRate" | "poolImbalance";
+
+export type MarketStudySnapshot = MarketRatesSnapshot & {
+  longPoolValueUsd: bigint;
+  shortPoolValueUsd: bigint;
+};
+
+/**
+ * Values of the long and short side of a market at the start of a chart period,
+ * open interest is in USD, rates are yearly percentages, pool sides are percentages of the pool value
+ */
+export type MarketStudyPoint = {
+  time: number;
+  long: number;
+  short: number;
+};
@@ -0,0 +1,68 @@
+import { factor, mockSnapshotFactory, usd } from "domain/synthetics/testUtils/helpers";
+import { CHART_PERIODS } from "lib/legacy";
+import { describe, expect, it } from "vitest";
+import type { MarketStudySnapshot } from "./types";
+import { getMarketStudyPoints, getMarketStudyTicker, getMarketStudyValues, parseMarketStudyTicker } from "./utils";
+
+const mockSnapshot = mockSnapshotFactory<MarketStudySnapshot>({
+  fundingFactorPerSecond: factor(2),
+  longsPayShorts: true,
+  longInterestUsd: usd(2000),
+  shortInterestUsd: usd(1000),
+  borrowingFactorPerSecondForLongs: factor(1),
+  borrowingFactorPerSecondForShorts: 0n,
+  longPoolValueUsd: usd(3000),
+  shortPoolValueUsd: usd(1000),
+});
+
+describe("parseMarketStudyTicker", () => {
+  it("parses tickers of the market series and ignores token tickers", () => {
+    expect(parseMarketStudyTicker(getMarketStudyTicker("fundingRate", "0xMarket"))).toEqual({
+      series: "fundingRate",
+      marketAddress: "0xMarket",
+    });
+    expect(parseMarketStudyTicker("ETH")).toBeUndefined();
+    expect(parseMarketStudyTicker("unknown@0xMarket")).toBeUndefined();
+  });
+});
+
+describe("getMarketStudyValues", () => {
+  const snapshot = mockSnapshot({ timestamp: 0 });
+
+  it("returns open interest in USD and yearly rates in percentages", () => {
+    expect(getMarketStudyValues(snapshot, "openInterest")).toEqual({ long: 2000, short: 1000 });
+    expect(getMarketStudyValues(snapshot, "fundingRate")).toEqual({ long: -0.63072, short: 1.26144 });
+    expect(getMarketStudyValues(snapshot, "borrowingRate")).toEqual({ long: 0.31536, short: 0 });
+  });
+
+  it("returns pool sides as percentages of the pool value", () => {
+    expect(getMarketStudyValues(snapshot, "poolImbalance")).toEqual({ long: 75, short: 25 });
+    expect(
+      getMarketStudyValues(mockSnapshot({ timestamp: 0, longPoolValueUsd: 0n, shortPoolValueUsd: 0n }), "poolImbalance")
+    ).toEqual({ long: 0, short: 0 });
+  });
+});
+
+describe("getMarketStudyPoints", () => {
+  const hour = CHART_PERIODS["1h"];
+  const snapshots = [
+    mockSnapshot({ timestamp: 3 * hour, longInterestUsd: usd(4000) }),
+    mockSnapshot({ timestamp: 0 }),
+    mockSnapshot({ timestamp: hour, longInterestUsd: usd(3000) }),
+  ];
+
+  it("takes the latest snapshot of each period", () => {
+    expect(getMarketStudyPoints(snapshots, "openInterest", 4 * hour, 3 * hour)).toEqual([
+      { time: 0, long: 4000, short: 1000 },
+    ]);
+  });
+
+  it("repeats the previous values in periods without snapshots", () => {
+    expect(getMarketStudyPoints(snapshots, "openInterest", hour, 5 * hour).map((point) => point.long)).toEqual([
+      2000, 3000, 3000, 4000, 4000, 4000,
+    ]);
+    expect(
+      getMarketStudyPoints(snapshots, "openInterest", CHART_PERIODS["15m"], 2 * hour).map((point) => point.long)
+    ).toEqual([2000, 2000, 2000, 2000, 3000, 3000, 3000, 3000, 3000]);
+  });
+});
@@ -0,0 +1,121 @@
+import { USD_DECIMALS } from "config/factors";
+import { CHART_PERIODS } from "lib/legacy";
+import { bigintToNumber } from "lib/numbers";
+import { getBorrowingFactorPerPeriod, getFundingFactorPerPeriod } from "../fees";
+import { getOpenInterestUsd } from "../markets/utils";
+import type { MarketStudyPoint, MarketStudySeries, MarketStudySnapshot } from "./types";
+
+export const MARKET_STUDY_SERIES: MarketStudySeries[] = [
+  "openInterest",
+  "fundingRate",
+  "borrowingRate",
+  "poolImbalance",
+];
+
+export const MARKET_STUDY_MAX_POINTS = 5000;
+
+const MARKET_STUDY_TICKER_SEPARATOR = "@";
+
+// factors are in 30 decimals, 28 decimals turn them into percentages
+const PERCENTAGE_DECIMALS = 28;
+
+/**
+ * Tickers of the market series are resolved by the chart datafeed like the token tickers,
+ * so the studies can request them with `new_sym`
+ */
+export function getMarketStudyTicker(series: MarketStudySeries, marketAddress: string) {
+  return `${series}${MARKET_STUDY_TICKER_SEPARATOR}${marketAddress}`;
+}
+
+export function parseMarketStudyTicker(
+  ticker: string
+): { series: MarketStudySeries; marketAddress: string } | undefined {
+  const [series, marketAddress, ...rest] = ticker.split(MARKET_STUDY_TICKER_SEPARATOR);
+
+  if (!MARKET_STUDY_SERIES.includes(series as MarketStudySeries) || !marketAddress || rest.length) {
+    return undefined;
+  }
+
+  return { series: series as MarketStudySeries, marketAddress };
+}
+
+export function getMarketStudyValues(
+  snapshot: MarketStudySnapshot,
+  series: MarketStudySeries
+): Pick<MarketStudyPoint, "long" | "short"> {
+  switch (series) {
+    case "openInterest":
+      return {
+        long: bigintToNumber(getOpenInterestUsd(snapshot, true), USD_DECIMALS),
+        short: bigintToNumber(getOpenInterestUsd(snapshot, false), USD_DECIMALS),
+      };
+    case "fundingRate":
+      return {
+        long: bigintToNumber(getFundingFactorPerPeriod(snapshot, true, CHART_PERIODS["1y"]), PERCENTAGE_DECIMALS),
+        short: bigintToNumber(getFundingFactorPerPeriod(snapshot, false, CHART_PERIODS["1y"]), PERCENTAGE_DECIMALS),
+      };
+    case "borrowingRate":
+      return {
+        long: bigintToNumber(getBorrowingFactorPerPeriod(snapshot, true, CHART_PERIODS["1y"]), PERCENTAGE_DECIMALS),
+        short: bigintToNumber(getBorrowingFactorPerPeriod(snapshot, false, CHART_PERIODS["1y"]), PERCENTAGE_DECIMALS),
+      };
+    case "poolImbalance": {
+      const poolValueUsd = snapshot.longPoolValueUsd + snapshot.shortPoolValueUsd;
+
+      if (poolValueUsd === 0n) {
+        return { long: 0, short: 0 };
+      }
+
+      const long = bigintToNumber((snapshot.longPoolValueUsd * 10000n) / poolValueUsd, 2);
+
+      return { long, short: 100 - long };
+    }
+  }
+}
+
+/**
+ * Points are taken from the latest snapshot within each chart period,
+ * periods without snapshots repeat the previous values up to the period of `toTimestamp`
+ */
+export function getMarketStudyPoints(
+  snapshots: MarketStudySnapshot[],
+  series: MarketStudySeries,
+  periodSeconds: number,
+  toTimestamp: number
+): MarketStudyPoint[] {
+  if (!snapshots.length) {
+    return [];
+  }
+
+  const sortedSnapshots = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const getPeriodStart = (timestamp: number) => Math.floor(timestamp / periodSeconds) * periodSeconds;
+
+  const lastPeriod = getPeriodStart(toTimestamp);
+  const firstPeriod = Math.max(
+    getPeriodStart(sortedSnapshots[0].timestamp),
+    lastPeriod - (MARKET_STUDY_MAX_POINTS - 1) * periodSeconds
+  );
+
+  const points: MarketStudyPoint[] = [];
+  let snapshotIndex = 0;
+  let values: Pick<MarketStudyPoint, "long" | "short"> | undefined;
+
+  for (let time = firstPeriod; time <= lastPeriod; time += periodSeconds) {
+    let snapshot: MarketStudySnapshot | undefined;
+
+    while (snapshotIndex < sortedSnapshots.length && sortedSnapshots[snapshotIndex].timestamp < time + periodSeconds) {
+      snapshot = sortedSnapshots[snapshotIndex];
+      snapshotIndex++;
+    }
+
+    if (snapshot) {
+      values = getMarketStudyValues(snapshot, series);
+    }
+
+    if (values) {
+      points.push({ time, ...values });
+    }
+  }
+
+  return points;
+}
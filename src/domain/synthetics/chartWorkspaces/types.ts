@@ -0,0 +1,57 @@
+import type { ChartData, StudyTemplateData } from "charting_library";
+import type { TradeMode, TradeType } from "../trade/types";
+import type { TradeboxAdvancedOptions } from "../trade/useTradeboxState";
+
+export type ChartLayout = ChartData & {
+  appVersion?: number;
+};
+
+export type ChartDrawingTemplates = {
+  [toolName: string]: {
+    [templateName: string]: string;
+  };
+};
+
+export type ChartWorkspaceTradeSettings = {
+  tradeType?: TradeType;
+  tradeMode?: TradeMode;
+  fromTokenAddress?: string;
+  toTokenAddress?: string;
+  marketAddress?: string;
+  collateralAddress?: string;
+  leverageOption?: number;
+  isLeverageEnabled?: boolean;
+  keepLeverage?: boolean;
+  advancedOptions?: TradeboxAdvancedOptions;
+};
+
+export type ChartWorkspace = {
+  id: string;
+  name: string;
+  /**
+   * Version of the workspace format, see CHART_WORKSPACE_VERSION
+   */
+  version: number;
+  /**
+   * Trade page version the chart state was saved on
+   */
+  appVersion: number;
+  chainId: number;
+  createdAt: number;
+  updatedAt: number;
+  /**
+   * Widget state including drawings, studies and the resolution
+   */
+  chartState: object;
+  studyTemplates: StudyTemplateData[];
+  drawingTemplates: ChartDrawingTemplates;
+  tradeSettings: ChartWorkspaceTradeSettings;
+};
+
+export type NewChartWorkspace = Omit<ChartWorkspace, "id" | "version" | "createdAt" | "updatedAt">;
+
+export type SignedChartWorkspaceFile = {
+  workspace: ChartWorkspace;
+  signer: string;
+  signature: string;
+};
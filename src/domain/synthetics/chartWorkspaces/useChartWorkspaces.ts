@@ -0,0 +1,60 @@
+import { useCallback, useMemo } from "react";
+
+import { ACTIVE_CHART_WORKSPACE_KEY, CHART_WORKSPACES_KEY } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageByChainId } from "lib/localStorage";
+import type { ChartWorkspace, NewChartWorkspace } from "./types";
+import { CHART_WORKSPACE_VERSION } from "./utils";
+
+export function useChartWorkspaces() {
+  const { chainId } = useChainId();
+  const [storedWorkspaces, setStoredWorkspaces] = useLocalStorageByChainId<ChartWorkspace[]>(
+    chainId,
+    CHART_WORKSPACES_KEY,
+    []
+  );
+  const [activeWorkspaceId, setActiveWorkspaceId] = useLocalStorageByChainId<string | undefined>(
+    chainId,
+    ACTIVE_CHART_WORKSPACE_KEY,
+    undefined
+  );
+
+  const workspaces = useMemo(() => storedWorkspaces ?? [], [storedWorkspaces]);
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId);
+
+  /**
+   * A workspace with the same name is overwritten
+   */
+  const saveWorkspace = useCallback(
+    (workspace: NewChartWorkspace) => {
+      const existingWorkspace = workspaces.find((w) => w.name === workspace.name);
+      const now = Date.now();
+      const savedWorkspace: ChartWorkspace = {
+        ...workspace,
+        id: existingWorkspace?.id ?? `${now.toString(36)}-${workspaces.length}`,
+        version: CHART_WORKSPACE_VERSION,
+        createdAt: existingWorkspace?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      setStoredWorkspaces([...workspaces.filter((w) => w.id !== savedWorkspace.id), savedWorkspace]);
+      setActiveWorkspaceId(savedWorkspace.id);
+
+      return savedWorkspace;
+    },
+    [setActiveWorkspaceId, setStoredWorkspaces, workspaces]
+  );
+
+  const deleteWorkspace = useCallback(
+    (id: string) => {
+      setStoredWorkspaces(workspaces.filter((w) => w.id !== id));
+
+      if (activeWorkspaceId === id) {
+        setActiveWorkspaceId(undefined);
+      }
+    },
+    [activeWorkspaceId, setActiveWorkspaceId, setStoredWorkspaces, workspaces]
+  );
+
+  return { workspaces, activeWorkspace, saveWorkspace, deleteWorkspace, setActiveWorkspaceId };
+}
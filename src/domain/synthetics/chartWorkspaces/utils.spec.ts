@@ -0,0 +1,113 @@
+import { Wallet } from "ethers";
+import { describe, expect, it } from "vitest";
+import { TradeMode, TradeType } from "../trade/types";
+import type { ChartLayout, ChartWorkspace } from "./types";
+import {
+  CHART_WORKSPACE_VERSION,
+  getChartWorkspaceFileSigner,
+  getChartWorkspaceSigningMessage,
+  mergeChartDrawingTemplates,
+  mergeChartStudyTemplates,
+  migrateChartLayouts,
+  migrateChartWorkspace,
+  parseChartWorkspaceFile,
+} from "./utils";
+
+const workspace: ChartWorkspace = {
+  id: "workspace",
+  name: "Scalping",
+  version: CHART_WORKSPACE_VERSION,
+  appVersion: 2,
+  chainId: 42161,
+  createdAt: 0,
+  updatedAt: 0,
+  chartState: { charts: [] },
+  studyTemplates: [{ name: "EMA", content: "{}" }],
+  drawingTemplates: { LineToolTrendLine: { red: "{}" } },
+  tradeSettings: {
+    tradeType: TradeType.Long,
+    tradeMode: TradeMode.Limit,
+    marketAddress: "0xmarket",
+    collateralAddress: "0xcollateral",
+    leverageOption: 10,
+  },
+};
+
+describe("migrateChartLayouts", () => {
+  it("moves charts of other versions to the current one", () => {
+    const charts = [{ id: "1" }, { id: "2", appVersion: 2 }] as ChartLayout[];
+
+    const result = migrateChartLayouts(charts, 2);
+
+    expect(result.isChanged).toBe(true);
+    expect(result.charts.map((chart) => chart.appVersion)).toEqual([2, 2]);
+    expect(migrateChartLayouts(result.charts, 2).isChanged).toBe(false);
+  });
+});
+
+describe("migrateChartWorkspace", () => {
+  it("keeps addresses on the same network", () => {
+    expect(migrateChartWorkspace(workspace, { chainId: 42161, appVersion: 2 })).toEqual(workspace);
+  });
+
+  it("drops addresses saved on another network and fills missing fields", () => {
+    const migrated = migrateChartWorkspace(
+      { ...workspace, studyTemplates: undefined, appVersion: 1 } as unknown as ChartWorkspace,
+      { chainId: 43114, appVersion: 2 }
+    );
+
+    expect(migrated?.chainId).toBe(43114);
+    expect(migrated?.appVersion).toBe(2);
+    expect(migrated?.studyTemplates).toEqual([]);
+    expect(migrated?.tradeSettings.marketAddress).toBeUndefined();
+    expect(migrated?.tradeSettings.leverageOption).toBe(10);
+  });
+
+  it("rejects workspaces of a newer version", () => {
+    expect(
+      migrateChartWorkspace({ ...workspace, version: CHART_WORKSPACE_VERSION + 1 }, { chainId: 42161, appVersion: 2 })
+    ).toBeUndefined();
+  });
+});
+
+describe("chart workspace files", () => {
+  it("verifies the signer of the workspace", async () => {
+    const wallet = Wallet.createRandom();
+    const signature = await wallet.signMessage(getChartWorkspaceSigningMessage(workspace));
+    const file = parseChartWorkspaceFile(JSON.stringify({ workspace, signer: wallet.address, signature }));
+
+    expect(file).toBeDefined();
+    expect(getChartWorkspaceFileSigner(file!)).toBe(wallet.address);
+    expect(getChartWorkspaceFileSigner({ ...file!, workspace: { ...workspace, name: "Changed" } })).toBeUndefined();
+    expect(getChartWorkspaceFileSigner({ ...file!, signer: Wallet.createRandom().address })).toBeUndefined();
+  });
+
+  it("rejects malformed files", () => {
+    expect(parseChartWorkspaceFile("not json")).toBeUndefined();
+    expect(parseChartWorkspaceFile(JSON.stringify({ workspace }))).toBeUndefined();
+  });
+});
+
+describe("merge templates", () => {
+  it("replaces templates with the same name", () => {
+    expect(
+      mergeChartStudyTemplates(
+        [
+          { name: "EMA", content: "old" },
+          { name: "RSI", content: "rsi" },
+        ],
+        [{ name: "EMA", content: "new" }]
+      )
+    ).toEqual([
+      { name: "RSI", content: "rsi" },
+      { name: "EMA", content: "new" },
+    ]);
+
+    expect(
+      mergeChartDrawingTemplates(
+        { LineToolTrendLine: { red: "old", blue: "blue" } },
+        { LineToolTrendLine: { red: "new" } }
+      )
+    ).toEqual({ LineToolTrendLine: { red: "new", blue: "blue" } });
+  });
+});
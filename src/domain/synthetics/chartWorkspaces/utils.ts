@@ -0,0 +1,150 @@
+import type { StudyTemplateData } from "charting_library";
+import { keccak256, toUtf8Bytes, verifyMessage } from "ethers";
+import type {
+  ChartDrawingTemplates,
+  ChartLayout,
+  ChartWorkspace,
+  ChartWorkspaceTradeSettings,
+  SignedChartWorkspaceFile,
+} from "./types";
+
+export const CHART_WORKSPACE_VERSION = 1;
+
+/**
+ * Charts saved before the version was stored belong to the first trade page version
+ */
+export function getChartLayoutAppVersion(chart: ChartLayout) {
+  return chart.appVersion ?? 1;
+}
+
+/**
+ * Layouts only keep the symbol and the widget state, so they are moved to the current version
+ * instead of being hidden when the trade page version changes
+ */
+export function migrateChartLayouts(charts: ChartLayout[], appVersion: number) {
+  let isChanged = false;
+
+  const migratedCharts = charts.map((chart) => {
+    if (chart.appVersion === appVersion) {
+      return chart;
+    }
+
+    isChanged = true;
+
+    return { ...chart, appVersion };
+  });
+
+  return { charts: migratedCharts, isChanged };
+}
+
+/**
+ * Addresses are only kept when the workspace was saved on the same network
+ */
+function migrateChartWorkspaceTradeSettings(
+  tradeSettings: ChartWorkspaceTradeSettings | undefined,
+  isSameChain: boolean
+): ChartWorkspaceTradeSettings {
+  if (!tradeSettings) {
+    return {};
+  }
+
+  if (isSameChain) {
+    return tradeSettings;
+  }
+
+  const { tradeType, tradeMode, leverageOption, isLeverageEnabled, keepLeverage, advancedOptions } = tradeSettings;
+
+  return { tradeType, tradeMode, leverageOption, isLeverageEnabled, keepLeverage, advancedOptions };
+}
+
+/**
+ * Workspaces saved by a newer app can't be read and are rejected
+ */
+export function migrateChartWorkspace(
+  workspace: ChartWorkspace,
+  p: { chainId: number; appVersion: number }
+): ChartWorkspace | undefined {
+  const version = workspace.version ?? CHART_WORKSPACE_VERSION;
+
+  if (version > CHART_WORKSPACE_VERSION) {
+    return undefined;
+  }
+
+  return {
+    ...workspace,
+    version: CHART_WORKSPACE_VERSION,
+    appVersion: p.appVersion,
+    chainId: p.chainId,
+    studyTemplates: workspace.studyTemplates ?? [],
+    drawingTemplates: workspace.drawingTemplates ?? {},
+    tradeSettings: migrateChartWorkspaceTradeSettings(workspace.tradeSettings, workspace.chainId === p.chainId),
+  };
+}
+
+export function getChartWorkspaceSigningMessage(workspace: ChartWorkspace) {
+  const hash = keccak256(toUtf8Bytes(JSON.stringify(workspace)));
+
+  return `Chart workspace: ${workspace.name}\n\n${hash}`;
+}
+
+export function parseChartWorkspaceFile(content: string): SignedChartWorkspaceFile | undefined {
+  let file: Partial<SignedChartWorkspaceFile>;
+
+  try {
+    file = JSON.parse(content);
+  } catch (e) {
+    return undefined;
+  }
+
+  const { workspace, signer, signature } = file ?? {};
+
+  if (
+    typeof signer !== "string" ||
+    typeof signature !== "string" ||
+    typeof workspace?.name !== "string" ||
+    typeof workspace.chartState !== "object" ||
+    workspace.chartState === null
+  ) {
+    return undefined;
+  }
+
+  return { workspace, signer, signature };
+}
+
+/**
+ * Returns the signer only when the signature matches the workspace content
+ */
+export function getChartWorkspaceFileSigner(file: SignedChartWorkspaceFile): string | undefined {
+  try {
+    const recoveredSigner = verifyMessage(getChartWorkspaceSigningMessage(file.workspace), file.signature);
+
+    return recoveredSigner.toLowerCase() === file.signer.toLowerCase() ? recoveredSigner : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Imported templates replace the existing ones with the same name
+ */
+export function mergeChartStudyTemplates(
+  templates: StudyTemplateData[],
+  importedTemplates: StudyTemplateData[]
+): StudyTemplateData[] {
+  const importedNames = new Set(importedTemplates.map((template) => template.name));
+
+  return [...templates.filter((template) => !importedNames.has(template.name)), ...importedTemplates];
+}
+
+export function mergeChartDrawingTemplates(
+  templates: ChartDrawingTemplates,
+  importedTemplates: ChartDrawingTemplates
+): ChartDrawingTemplates {
+  const result: ChartDrawingTemplates = { ...templates };
+
+  for (const [toolName, toolTemplates] of Object.entries(importedTemplates)) {
+    result[toolName] = { ...result[toolName], ...toolTemplates };
+  }
+
+  return result;
+}
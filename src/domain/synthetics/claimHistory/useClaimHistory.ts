@@ -8,6 +8,7 @@ import { useMarketsInfoData, useTokensData } from "context/SyntheticsStateContex
 import { selectAccount } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { MarketsInfoData } from "domain/synthetics/markets";
+import { definedOrThrow } from "lib/guards";
 import { BN_ZERO, bigNumberify } from "lib/numbers";
 import { getByKey } from "lib/objects";
 import { buildFiltersBody, getSyntheticsGraphClient } from "lib/subgraph";
@@ -15,6 +16,8 @@ import { buildFiltersBody, getSyntheticsGraphClient } from "lib/subgraph";
 import { useFixedAddreseses } from "../common/useFixedAddresses";
 import { ClaimAction, ClaimCollateralAction, ClaimFundingFeeAction, ClaimMarketItem, ClaimType } from "./types";
 
+const CLAIM_ACTIONS_EXPORT_PAGE_SIZE = 1000;
+
 export type ClaimCollateralHistoryResult = {
   claimActions?: ClaimAction[];
   isLoading: boolean;
@@ -83,55 +86,17 @@ export function useClaimCollateralHistory(
   } = useSWRInfinite<RawClaimAction[]>(key, {
     fetcher: async (key) => {
       const pageIndex = key[3];
-      const skip = pageIndex * pageSize;
-      const first = pageSize;
-
-      const filterStr = buildFiltersBody({
-        and: [
-          {
-            account: account!.toLowerCase(),
-            transaction: {
-              timestamp_gte: fromTxTimestamp,
-              timestamp_lte: toTxTimestamp,
-            },
-            eventName_in: eventName,
-          },
-          {
-            or: marketAddresses?.map((tokenAddress) => ({
-              marketAddresses_contains: [tokenAddress.toLowerCase()],
-            })),
-          },
-        ],
-      });
-
-      const whereClause = `where: ${filterStr}`;
-
-      const query = gql(`{
-        claimActions(
-            skip: ${skip},
-            first: ${first},
-            orderBy: transaction__timestamp,
-            orderDirection: desc,
-            ${whereClause}
-        ) {
-            id
-            account
-            eventName
-            marketAddresses
-            tokenAddresses
-            amounts
-            tokenPrices
-            isLongOrders
-            transaction {
-                timestamp
-                hash
-            }
-        }
-      }`);
-
-      const { data } = await client!.query({ query, fetchPolicy: "no-cache" });
 
-      return data.claimActions as RawClaimAction[];
+      return await fetchRawClaimActions({
+        chainId,
+        account: account!,
+        pageIndex,
+        pageSize,
+        fromTxTimestamp,
+        toTxTimestamp,
+        eventName,
+        marketAddresses,
+      });
     },
   });
 
@@ -142,39 +107,7 @@ export function useClaimCollateralHistory(
       return undefined;
     }
 
-    return data.flat().reduce((acc, rawAction) => {
-      const eventName = rawAction.eventName;
-
-      switch (eventName) {
-        case ClaimType.ClaimFunding:
-        case ClaimType.ClaimPriceImpact: {
-          const claimCollateralAction = createClaimCollateralAction(
-            chainId,
-            eventName,
-            rawAction,
-            fixedAddresses,
-            marketsInfoData
-          );
-
-          return claimCollateralAction ? [...acc, claimCollateralAction] : acc;
-        }
-
-        case ClaimType.SettleFundingFeeCreated:
-        case ClaimType.SettleFundingFeeExecuted:
-        case ClaimType.SettleFundingFeeCancelled: {
-          const settleAction = createSettleFundingFeeAction(
-            chainId,
-            eventName,
-            rawAction,
-            fixedAddresses,
-            marketsInfoData
-          );
-          return settleAction ? [...acc, settleAction] : acc;
-        }
-        default:
-          return acc;
-      }
-    }, [] as ClaimAction[]);
+    return parseRawClaimActions(chainId, data.flat(), fixedAddresses, marketsInfoData);
   }, [chainId, data, fixedAddresses, marketsInfoData, tokensData]);
 
   return {
@@ -185,6 +118,142 @@ export function useClaimCollateralHistory(
   };
 }
 
+type FetchClaimActionsParams = {
+  chainId: number;
+  account: string;
+  fromTxTimestamp?: number;
+  toTxTimestamp?: number;
+  eventName?: string[];
+  marketAddresses?: string[];
+};
+
+/**
+ * Pages through all claim actions of the account, used for exports
+ */
+export async function fetchAllClaimActions(
+  p: FetchClaimActionsParams & {
+    fixedAddresses: Record<string, string>;
+    marketsInfoData: MarketsInfoData;
+  }
+): Promise<ClaimAction[]> {
+  const { chainId, fixedAddresses, marketsInfoData } = p;
+  const rawActions: RawClaimAction[] = [];
+
+  for (let pageIndex = 0; ; pageIndex++) {
+    const page = await fetchRawClaimActions({ ...p, pageIndex, pageSize: CLAIM_ACTIONS_EXPORT_PAGE_SIZE });
+    rawActions.push(...page);
+
+    if (page.length < CLAIM_ACTIONS_EXPORT_PAGE_SIZE) {
+      return parseRawClaimActions(chainId, rawActions, fixedAddresses, marketsInfoData);
+    }
+  }
+}
+
+async function fetchRawClaimActions({
+  chainId,
+  account,
+  pageIndex,
+  pageSize,
+  fromTxTimestamp,
+  toTxTimestamp,
+  eventName,
+  marketAddresses,
+}: FetchClaimActionsParams & { pageIndex: number; pageSize: number }): Promise<RawClaimAction[]> {
+  const client = getSyntheticsGraphClient(chainId);
+  definedOrThrow(client);
+
+  const skip = pageIndex * pageSize;
+  const first = pageSize;
+
+  const filterStr = buildFiltersBody({
+    and: [
+      {
+        account: account.toLowerCase(),
+        transaction: {
+          timestamp_gte: fromTxTimestamp,
+          timestamp_lte: toTxTimestamp,
+        },
+        eventName_in: eventName,
+      },
+      {
+        or: marketAddresses?.map((tokenAddress) => ({
+          marketAddresses_contains: [tokenAddress.toLowerCase()],
+        })),
+      },
+    ],
+  });
+
+  const whereClause = `where: ${filterStr}`;
+
+  const query = gql(`{
+    claimActions(
+        skip: ${skip},
+        first: ${first},
+        orderBy: transaction__timestamp,
+        orderDirection: desc,
+        ${whereClause}
+    ) {
+        id
+        account
+        eventName
+        marketAddresses
+        tokenAddresses
+        amounts
+        tokenPrices
+        isLongOrders
+        transaction {
+            timestamp
+            hash
+        }
+    }
+  }`);
+
+  const { data } = await client.query({ query, fetchPolicy: "no-cache" });
+
+  return data.claimActions as RawClaimAction[];
+}
+
+function parseRawClaimActions(
+  chainId: number,
+  rawActions: RawClaimAction[],
+  fixedAddresses: Record<string, string>,
+  marketsInfoData: MarketsInfoData
+): ClaimAction[] {
+  return rawActions.reduce((acc, rawAction) => {
+    const eventName = rawAction.eventName;
+
+    switch (eventName) {
+      case ClaimType.ClaimFunding:
+      case ClaimType.ClaimPriceImpact: {
+        const claimCollateralAction = createClaimCollateralAction(
+          chainId,
+          eventName,
+          rawAction,
+          fixedAddresses,
+          marketsInfoData
+        );
+
+        return claimCollateralAction ? [...acc, claimCollateralAction] : acc;
+      }
+
+      case ClaimType.SettleFundingFeeCreated:
+      case ClaimType.SettleFundingFeeExecuted:
+      case ClaimType.SettleFundingFeeCancelled: {
+        const settleAction = createSettleFundingFeeAction(
+          chainId,
+          eventName,
+          rawAction,
+          fixedAddresses,
+          marketsInfoData
+        );
+        return settleAction ? [...acc, settleAction] : acc;
+      }
+      default:
+        return acc;
+    }
+  }, [] as ClaimAction[]);
+}
+
 function createClaimCollateralAction(
   chainId: number,
   eventName: ClaimCollateralAction["eventName"],
@@ -0,0 +1,67 @@
+import type { SerializedBigIntsInObject } from "lib/numbers";
+import type { TriggerThresholdType } from "../trade/types";
+
+/**
+ * Compares the mid price of any token, so a position can react to the price of another market
+ */
+export type ConditionalOrderPriceCondition = {
+  type: "price";
+  tokenAddress: string;
+  thresholdType: TriggerThresholdType;
+  price: bigint;
+};
+
+/**
+ * Compares the hourly funding rate paid by the side of the market, negative while the side receives funding
+ */
+export type ConditionalOrderFundingCondition = {
+  type: "funding";
+  marketAddress: string;
+  isLong: boolean;
+  thresholdType: TriggerThresholdType;
+  ratePerHour: bigint;
+};
+
+export type ConditionalOrderCondition = ConditionalOrderPriceCondition | ConditionalOrderFundingCondition;
+
+export type ConditionalOrderRule = {
+  id: string;
+  createdAt: number;
+  condition: ConditionalOrderCondition;
+  positionKey: string;
+  /**
+   * Share of the position size decreased once the condition is met, 10000 closes the whole position
+   */
+  decreaseBps: number;
+  executionFee: bigint;
+  allowedSlippage: number;
+};
+
+export type NewConditionalOrderRule = Omit<ConditionalOrderRule, "id" | "createdAt">;
+
+export type SerializedConditionalOrderRule = SerializedBigIntsInObject<ConditionalOrderRule>;
+
+export type ConditionalOrderLogStatus = "executed" | "failed" | "expired";
+
+export type ConditionalOrderLogEntry = {
+  id: string;
+  timestamp: number;
+  status: ConditionalOrderLogStatus;
+  rule: ConditionalOrderRule;
+  /**
+   * Price or funding rate the condition was met at, unset for expired rules
+   */
+  conditionValue?: bigint;
+  sizeDeltaUsd?: bigint;
+  error?: string;
+};
+
+export type SerializedConditionalOrderLogEntry = SerializedBigIntsInObject<ConditionalOrderLogEntry>;
+
+export type ConditionalOrdersCheckResult = {
+  triggered: { rule: ConditionalOrderRule; conditionValue: bigint }[];
+  /**
+   * Rules of closed positions and removed markets or tokens
+   */
+  stale: ConditionalOrderRule[];
+};
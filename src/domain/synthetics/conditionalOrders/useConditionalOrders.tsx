@@ -0,0 +1,116 @@
+import noop from "lodash/noop";
+import uniqueId from "lodash/uniqueId";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo } from "react";
+
+import { getConditionalOrderRulesKey, getConditionalOrdersLogKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import useWallet from "lib/wallets/useWallet";
+import type {
+  ConditionalOrderLogEntry,
+  ConditionalOrderRule,
+  NewConditionalOrderRule,
+  SerializedConditionalOrderLogEntry,
+  SerializedConditionalOrderRule,
+} from "./types";
+import {
+  appendConditionalOrderLogEntries,
+  deserializeConditionalOrderLogEntry,
+  deserializeConditionalOrderRule,
+  serializeConditionalOrderLogEntry,
+  serializeConditionalOrderRule,
+} from "./utils";
+
+type ConditionalOrdersContextType = {
+  conditionalOrderRules: ConditionalOrderRule[];
+  conditionalOrdersLog: ConditionalOrderLogEntry[];
+  addConditionalOrderRule: (rule: NewConditionalOrderRule) => void;
+  removeConditionalOrderRules: (ids: string[]) => void;
+  addConditionalOrdersLogEntries: (entries: Omit<ConditionalOrderLogEntry, "id" | "timestamp">[]) => void;
+  clearConditionalOrdersLog: () => void;
+};
+
+const context = createContext<ConditionalOrdersContextType>({
+  conditionalOrderRules: [],
+  conditionalOrdersLog: [],
+  addConditionalOrderRule: noop,
+  removeConditionalOrderRules: noop,
+  addConditionalOrdersLogEntries: noop,
+  clearConditionalOrdersLog: noop,
+});
+
+const Provider = context.Provider;
+
+export function ConditionalOrdersContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const [storedRules, setStoredRules] = useLocalStorageSerializeKey<SerializedConditionalOrderRule[]>(
+    getConditionalOrderRulesKey(chainId, account),
+    []
+  );
+  const [storedLog, setStoredLog] = useLocalStorageSerializeKey<SerializedConditionalOrderLogEntry[]>(
+    getConditionalOrdersLogKey(chainId, account),
+    []
+  );
+
+  const conditionalOrderRules = useMemo(() => (storedRules ?? []).map(deserializeConditionalOrderRule), [storedRules]);
+  const conditionalOrdersLog = useMemo(() => (storedLog ?? []).map(deserializeConditionalOrderLogEntry), [storedLog]);
+
+  const addConditionalOrderRule = useCallback(
+    (rule: NewConditionalOrderRule) => {
+      const nextRule: ConditionalOrderRule = { ...rule, id: uniqueId(`${Date.now()}_`), createdAt: Date.now() };
+
+      setStoredRules([...conditionalOrderRules, nextRule].map(serializeConditionalOrderRule));
+    },
+    [conditionalOrderRules, setStoredRules]
+  );
+
+  const removeConditionalOrderRules = useCallback(
+    (ids: string[]) => {
+      setStoredRules(conditionalOrderRules.filter((rule) => !ids.includes(rule.id)).map(serializeConditionalOrderRule));
+    },
+    [conditionalOrderRules, setStoredRules]
+  );
+
+  const addConditionalOrdersLogEntries = useCallback(
+    (entries: Omit<ConditionalOrderLogEntry, "id" | "timestamp">[]) => {
+      const nextEntries = entries.map((entry) => ({
+        ...entry,
+        id: uniqueId(`${Date.now()}_`),
+        timestamp: Date.now(),
+      }));
+
+      setStoredLog(
+        appendConditionalOrderLogEntries(conditionalOrdersLog, nextEntries).map(serializeConditionalOrderLogEntry)
+      );
+    },
+    [conditionalOrdersLog, setStoredLog]
+  );
+
+  const clearConditionalOrdersLog = useCallback(() => setStoredLog([]), [setStoredLog]);
+
+  const stableObj = useMemo<ConditionalOrdersContextType>(
+    () => ({
+      conditionalOrderRules,
+      conditionalOrdersLog,
+      addConditionalOrderRule,
+      removeConditionalOrderRules,
+      addConditionalOrdersLogEntries,
+      clearConditionalOrdersLog,
+    }),
+    [
+      conditionalOrderRules,
+      conditionalOrdersLog,
+      addConditionalOrderRule,
+      removeConditionalOrderRules,
+      addConditionalOrdersLogEntries,
+      clearConditionalOrdersLog,
+    ]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function useConditionalOrders() {
+  return useContext(context);
+}
@@ -0,0 +1,144 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import { PositionInfo, PositionsInfoData } from "../positions";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import { TriggerThresholdType } from "../trade/types";
+import type { ConditionalOrderLogEntry, ConditionalOrderRule } from "./types";
+import {
+  MAX_CONDITIONAL_ORDERS_LOG_SIZE,
+  appendConditionalOrderLogEntries,
+  checkConditionalOrderRules,
+  deserializeConditionalOrderRule,
+  getConditionalOrderSizeDeltaUsd,
+  getFundingRatePaidPerHour,
+  serializeConditionalOrderRule,
+} from "./utils";
+
+// funding factors have 30 decimals, 1% is 10^28
+const percent = (n: number) => expandDecimals(n, 28);
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"], {
+  "ETH-ETH-USDC": { fundingFactorPerSecond: expandDecimals(1, 25), longsPayShorts: true },
+});
+
+const positionsInfoData = {
+  position: { key: "position", sizeInUsd: usd(1000) } as PositionInfo,
+} as PositionsInfoData;
+
+const baseRule = {
+  id: "rule",
+  createdAt: 0,
+  positionKey: "position",
+  decreaseBps: 10000,
+  executionFee: 0n,
+  allowedSlippage: 30,
+};
+
+const btcBelow = (price: number): ConditionalOrderRule => ({
+  ...baseRule,
+  condition: { type: "price", tokenAddress: "BTC", thresholdType: TriggerThresholdType.Below, price: usd(price) },
+});
+
+describe("getFundingRatePaidPerHour", () => {
+  it("is positive for the paying side and negative for the receiving side", () => {
+    const marketInfo = marketsInfoData["ETH-ETH-USDC"];
+
+    expect(getFundingRatePaidPerHour(marketInfo, true)).toBe(percent(360) / 100n);
+    expect(getFundingRatePaidPerHour(marketInfo, false)).toBe(-percent(360) / 100n);
+  });
+});
+
+describe("checkConditionalOrderRules", () => {
+  it("triggers price rules on another token", () => {
+    const result = checkConditionalOrderRules([btcBelow(21000), btcBelow(19000)], {
+      tokensData,
+      marketsInfoData,
+      positionsInfoData,
+    });
+
+    expect(result.triggered).toEqual([{ rule: btcBelow(21000), conditionValue: usd(20000) }]);
+    expect(result.stale).toEqual([]);
+  });
+
+  it("triggers funding rules by the side's paid rate", () => {
+    const fundingRule = (isLong: boolean): ConditionalOrderRule => ({
+      ...baseRule,
+      condition: {
+        type: "funding",
+        marketAddress: "ETH-ETH-USDC",
+        isLong,
+        thresholdType: TriggerThresholdType.Above,
+        ratePerHour: percent(1),
+      },
+    });
+
+    const result = checkConditionalOrderRules([fundingRule(true), fundingRule(false)], {
+      tokensData,
+      marketsInfoData,
+      positionsInfoData,
+    });
+
+    expect(result.triggered.map(({ rule }) => rule)).toEqual([fundingRule(true)]);
+  });
+
+  it("returns rules of closed positions and missing tokens as stale", () => {
+    const closedPositionRule = { ...btcBelow(21000), positionKey: "closed" };
+    const missingTokenRule: ConditionalOrderRule = {
+      ...baseRule,
+      condition: { type: "price", tokenAddress: "DOGE", thresholdType: TriggerThresholdType.Above, price: usd(1) },
+    };
+
+    const result = checkConditionalOrderRules([closedPositionRule, missingTokenRule], {
+      tokensData,
+      marketsInfoData,
+      positionsInfoData,
+    });
+
+    expect(result.stale).toEqual([closedPositionRule, missingTokenRule]);
+  });
+
+  it("waits for positions to load", () => {
+    const result = checkConditionalOrderRules([btcBelow(21000)], {
+      tokensData,
+      marketsInfoData,
+      positionsInfoData: undefined,
+    });
+
+    expect(result).toEqual({ triggered: [], stale: [] });
+  });
+});
+
+describe("getConditionalOrderSizeDeltaUsd", () => {
+  it("applies the share of the position size", () => {
+    expect(getConditionalOrderSizeDeltaUsd(usd(1000), 5000)).toBe(usd(500));
+    expect(getConditionalOrderSizeDeltaUsd(usd(1000), 10000)).toBe(usd(1000));
+  });
+});
+
+describe("serializeConditionalOrderRule", () => {
+  it("restores bigints in the condition", () => {
+    expect(
+      deserializeConditionalOrderRule(JSON.parse(JSON.stringify(serializeConditionalOrderRule(btcBelow(1)))))
+    ).toEqual(btcBelow(1));
+  });
+});
+
+describe("appendConditionalOrderLogEntries", () => {
+  it("keeps the newest entries first within the log size", () => {
+    const entry = (id: string): ConditionalOrderLogEntry => ({
+      id,
+      timestamp: 0,
+      status: "expired",
+      rule: btcBelow(1),
+    });
+    const log = Array.from({ length: MAX_CONDITIONAL_ORDERS_LOG_SIZE }, (_, index) => entry(`old_${index}`));
+
+    const nextLog = appendConditionalOrderLogEntries(log, [entry("new")]);
+
+    expect(nextLog).toHaveLength(MAX_CONDITIONAL_ORDERS_LOG_SIZE);
+    expect(nextLog[0].id).toBe("new");
+    expect(nextLog.at(-1)?.id).toBe(`old_${MAX_CONDITIONAL_ORDERS_LOG_SIZE - 2}`);
+  });
+});
@@ -0,0 +1,136 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { bigMath } from "lib/bigmath";
+import { CHART_PERIODS } from "lib/legacy";
+import { deserializeBigIntsInObject, serializeBigIntsInObject } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import { getFundingFactorPerPeriod } from "../fees";
+import { MarketsInfoData } from "../markets";
+import { PositionsInfoData } from "../positions";
+import { TokensData, getMidPrice } from "../tokens";
+import { TriggerThresholdType } from "../trade/types";
+import type {
+  ConditionalOrderCondition,
+  ConditionalOrderLogEntry,
+  ConditionalOrderRule,
+  ConditionalOrdersCheckResult,
+  SerializedConditionalOrderLogEntry,
+  SerializedConditionalOrderRule,
+} from "./types";
+
+export const MAX_CONDITIONAL_ORDERS_LOG_SIZE = 50;
+
+export function serializeConditionalOrderRule(rule: ConditionalOrderRule): SerializedConditionalOrderRule {
+  return serializeBigIntsInObject(rule);
+}
+
+export function deserializeConditionalOrderRule(rule: SerializedConditionalOrderRule): ConditionalOrderRule {
+  return deserializeBigIntsInObject(rule) as ConditionalOrderRule;
+}
+
+export function serializeConditionalOrderLogEntry(entry: ConditionalOrderLogEntry): SerializedConditionalOrderLogEntry {
+  return serializeBigIntsInObject(entry);
+}
+
+export function deserializeConditionalOrderLogEntry(
+  entry: SerializedConditionalOrderLogEntry
+): ConditionalOrderLogEntry {
+  return deserializeBigIntsInObject(entry) as ConditionalOrderLogEntry;
+}
+
+/**
+ * Hourly funding rate paid by the side, the sign is flipped from the funding factor so paying is positive
+ */
+export function getFundingRatePaidPerHour(
+  marketInfo: Parameters<typeof getFundingFactorPerPeriod>[0],
+  isLong: boolean
+) {
+  return -getFundingFactorPerPeriod(marketInfo, isLong, CHART_PERIODS["1h"]);
+}
+
+/**
+ * Current price or funding rate the condition compares, undefined until the data is loaded or when it's gone
+ */
+export function getConditionalOrderConditionValue(
+  condition: ConditionalOrderCondition,
+  p: { tokensData: TokensData | undefined; marketsInfoData: MarketsInfoData | undefined }
+) {
+  switch (condition.type) {
+    case "price": {
+      const token = getByKey(p.tokensData, condition.tokenAddress);
+
+      return token ? getMidPrice(token.prices) : undefined;
+    }
+
+    case "funding": {
+      const marketInfo = getByKey(p.marketsInfoData, condition.marketAddress);
+
+      return marketInfo ? getFundingRatePaidPerHour(marketInfo, condition.isLong) : undefined;
+    }
+  }
+}
+
+export function getConditionalOrderThreshold(condition: ConditionalOrderCondition) {
+  return condition.type === "price" ? condition.price : condition.ratePerHour;
+}
+
+export function getIsConditionalOrderConditionMet(condition: ConditionalOrderCondition, value: bigint) {
+  const threshold = getConditionalOrderThreshold(condition);
+
+  return condition.thresholdType === TriggerThresholdType.Above ? value > threshold : value < threshold;
+}
+
+export function getConditionalOrderSizeDeltaUsd(sizeInUsd: bigint, decreaseBps: number) {
+  if (decreaseBps >= Number(BASIS_POINTS_DIVISOR_BIGINT)) {
+    return sizeInUsd;
+  }
+
+  return bigMath.mulDiv(sizeInUsd, BigInt(decreaseBps), BASIS_POINTS_DIVISOR_BIGINT);
+}
+
+/**
+ * Rules are only checked once the data they depend on is loaded,
+ * a rule whose position, market or token is gone is returned as stale instead
+ */
+export function checkConditionalOrderRules(
+  rules: ConditionalOrderRule[],
+  p: {
+    tokensData: TokensData | undefined;
+    marketsInfoData: MarketsInfoData | undefined;
+    positionsInfoData: PositionsInfoData | undefined;
+  }
+): ConditionalOrdersCheckResult {
+  const { tokensData, marketsInfoData, positionsInfoData } = p;
+  const result: ConditionalOrdersCheckResult = { triggered: [], stale: [] };
+  if (!positionsInfoData) return result;
+
+  for (const rule of rules) {
+    if (!getByKey(positionsInfoData, rule.positionKey)) {
+      result.stale.push(rule);
+      continue;
+    }
+
+    const isDataLoaded = rule.condition.type === "price" ? Boolean(tokensData) : Boolean(marketsInfoData);
+
+    if (!isDataLoaded) continue;
+
+    const conditionValue = getConditionalOrderConditionValue(rule.condition, { tokensData, marketsInfoData });
+
+    if (conditionValue === undefined) {
+      result.stale.push(rule);
+      continue;
+    }
+
+    if (getIsConditionalOrderConditionMet(rule.condition, conditionValue)) {
+      result.triggered.push({ rule, conditionValue });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Newest entries first, the oldest are dropped beyond the log size
+ */
+export function appendConditionalOrderLogEntries(log: ConditionalOrderLogEntry[], entries: ConditionalOrderLogEntry[]) {
+  return [...entries, ...log].slice(0, MAX_CONDITIONAL_ORDERS_LOG_SIZE);
+}
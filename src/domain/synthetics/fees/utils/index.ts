@@ -47,7 +47,11 @@ export function getPositionFee(
   };
 }
 
-export function getFundingFactorPerPeriod(marketInfo: MarketInfo, isLong: boolean, periodInSeconds: number) {
+export function getFundingFactorPerPeriod(
+  marketInfo: Pick<MarketInfo, "fundingFactorPerSecond" | "longsPayShorts" | "longInterestUsd" | "shortInterestUsd">,
+  isLong: boolean,
+  periodInSeconds: number
+) {
   const { fundingFactorPerSecond, longsPayShorts, longInterestUsd, shortInterestUsd } = marketInfo;
 
   const isLargerSide = isLong ? longsPayShorts : !longsPayShorts;
@@ -79,7 +83,11 @@ export function getFundingFeeRateUsd(
   return applyFactor(sizeInUsd, factor);
 }
 
-export function getBorrowingFactorPerPeriod(marketInfo: MarketInfo, isLong: boolean, periodInSeconds: number) {
+export function getBorrowingFactorPerPeriod(
+  marketInfo: Pick<MarketInfo, "borrowingFactorPerSecondForLongs" | "borrowingFactorPerSecondForShorts">,
+  isLong: boolean,
+  periodInSeconds: number
+) {
   const factorPerSecond = isLong
     ? marketInfo.borrowingFactorPerSecondForLongs
     : marketInfo.borrowingFactorPerSecondForShorts;
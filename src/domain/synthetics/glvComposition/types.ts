@@ -0,0 +1,53 @@
+import type { MarketInfo } from "domain/synthetics/markets";
+import type { GlvMarket } from "domain/synthetics/markets/useGlvMarkets";
+import type { TokenData } from "domain/synthetics/tokens";
+
+export type GlvCompositionItem = {
+  glvMarket: GlvMarket;
+  marketInfo: MarketInfo;
+  marketToken: TokenData;
+  balanceUsd: bigint;
+  capUsd: bigint;
+  /**
+   * USD the vault can still accept into the market before reaching its cap
+   */
+  buyableUsd: bigint;
+  /**
+   * Percentage of the vault value held in the market
+   */
+  share: number;
+  /**
+   * Percentage of the market cap used by the vault
+   */
+  utilization: number;
+};
+
+export type GlvDepositRoute = {
+  item: GlvCompositionItem;
+  capacityUsd: bigint;
+};
+
+export type GlvMarketBalanceChange = {
+  timestamp: number;
+  tokensBalance: bigint;
+};
+
+export type GlvMarketPriceSnapshot = {
+  timestamp: number;
+  marketTokenPrice: bigint;
+};
+
+export type GlvMarketHistory = {
+  marketAddress: string;
+  /**
+   * GM balance of the vault after each change, the first one may precede the requested period
+   */
+  balanceChanges: GlvMarketBalanceChange[];
+  priceSnapshots: GlvMarketPriceSnapshot[];
+};
+
+export type GlvAllocationPoint = {
+  timestamp: number;
+  totalUsd: bigint;
+  balancesUsd: { [marketAddress: string]: bigint };
+};
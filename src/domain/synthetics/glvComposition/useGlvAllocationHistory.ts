@@ -0,0 +1,125 @@
+import { gql } from "@apollo/client";
+import { useMemo } from "react";
+import useSWR from "swr";
+
+import type { GlvMarketInfo } from "domain/synthetics/markets/useGlvMarkets";
+import { CHART_PERIODS } from "lib/legacy";
+import { EMPTY_ARRAY } from "lib/objects";
+import { getSyntheticsGraphClient } from "lib/subgraph";
+import { CONFIG_UPDATE_INTERVAL } from "lib/timeConstants";
+import type { GlvAllocationPoint, GlvMarketBalanceChange, GlvMarketHistory } from "./types";
+import { getGlvAllocationHistory } from "./utils";
+
+const GLV_ALLOCATION_HISTORY_DAYS = 30;
+
+const GM_TOKEN_DECIMALS = 18;
+
+type RawBalanceChange = {
+  timestamp: number;
+  tokensBalance: string;
+};
+
+type RawPriceSnapshot = {
+  timestamp: number;
+  poolValue: string;
+  marketTokensSupply: string;
+};
+
+export function useGlvAllocationHistory(
+  chainId: number,
+  glv: GlvMarketInfo | undefined
+): { history: GlvAllocationPoint[]; isLoading: boolean } {
+  const client = getSyntheticsGraphClient(chainId);
+  const glvAddress = glv?.marketTokenAddress;
+  const marketAddresses = useMemo(() => glv?.markets.map((market) => market.address) ?? [], [glv?.markets]);
+
+  const key =
+    client && glvAddress && marketAddresses.length
+      ? ["useGlvAllocationHistory", chainId, glvAddress, marketAddresses.join(",")]
+      : null;
+
+  const { data, error } = useSWR<GlvMarketHistory[]>(
+    key,
+    async () => {
+      const fromTimestamp =
+        Math.floor(Date.now() / 1000 / CHART_PERIODS["1d"]) * CHART_PERIODS["1d"] -
+        GLV_ALLOCATION_HISTORY_DAYS * CHART_PERIODS["1d"];
+
+      const createQuery = (marketAddress: string) => `
+        _${marketAddress}_balanceChanges: userGmTokensBalanceChanges(
+          first: 1000
+          orderBy: index
+          orderDirection: asc
+          where: {
+            account: "${glvAddress!.toLowerCase()}"
+            marketAddress: "${marketAddress.toLowerCase()}"
+            timestamp_gte: ${fromTimestamp}
+          }
+        ) {
+          timestamp
+          tokensBalance
+        }
+        _${marketAddress}_balanceChange_before: userGmTokensBalanceChanges(
+          first: 1
+          orderBy: index
+          orderDirection: desc
+          where: {
+            account: "${glvAddress!.toLowerCase()}"
+            marketAddress: "${marketAddress.toLowerCase()}"
+            timestamp_lt: ${fromTimestamp}
+          }
+        ) {
+          timestamp
+          tokensBalance
+        }
+        _${marketAddress}_snapshots: marketInfoSnapshots(
+          first: ${GLV_ALLOCATION_HISTORY_DAYS + 1}
+          orderBy: timestamp
+          orderDirection: asc
+          where: { marketAddress: "${marketAddress.toLowerCase()}", period: "1d", timestamp_gte: ${fromTimestamp} }
+        ) {
+          timestamp
+          poolValue
+          marketTokensSupply
+        }
+      `;
+
+      const queryBody = marketAddresses.reduce((acc, marketAddress) => acc + createQuery(marketAddress), "");
+
+      const { data } = await client!.query({ query: gql(`{${queryBody}}`), fetchPolicy: "no-cache" });
+
+      return marketAddresses.map((marketAddress): GlvMarketHistory => {
+        const rawBalanceChanges: RawBalanceChange[] = [
+          ...data[`_${marketAddress}_balanceChange_before`],
+          ...data[`_${marketAddress}_balanceChanges`],
+        ];
+
+        return {
+          marketAddress,
+          balanceChanges: rawBalanceChanges.map(
+            (raw): GlvMarketBalanceChange => ({
+              timestamp: Number(raw.timestamp),
+              tokensBalance: BigInt(raw.tokensBalance),
+            })
+          ),
+          priceSnapshots: data[`_${marketAddress}_snapshots`].map((raw: RawPriceSnapshot) => {
+            const supply = BigInt(raw.marketTokensSupply);
+
+            return {
+              timestamp: Number(raw.timestamp),
+              marketTokenPrice: supply > 0 ? (BigInt(raw.poolValue) * 10n ** BigInt(GM_TOKEN_DECIMALS)) / supply : 0n,
+            };
+          }),
+        };
+      });
+    },
+    { refreshInterval: CONFIG_UPDATE_INTERVAL }
+  );
+
+  const history = useMemo(
+    () => (data ? getGlvAllocationHistory(data, GM_TOKEN_DECIMALS) : (EMPTY_ARRAY as GlvAllocationPoint[])),
+    [data]
+  );
+
+  return { history, isLoading: Boolean(key) && !data && !error };
+}
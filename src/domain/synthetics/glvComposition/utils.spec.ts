@@ -0,0 +1,57 @@
+import { tokens, usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import type { GlvCompositionItem, GlvDepositRoute, GlvMarketHistory } from "./types";
+import { getBestGlvDepositRoute, getGlvAllocationHistory, getGlvAllocationShares } from "./utils";
+
+function mockRoute(address: string, utilization: number, capacity: number): GlvDepositRoute {
+  return {
+    item: { glvMarket: { address }, utilization } as GlvCompositionItem,
+    capacityUsd: usd(capacity),
+  };
+}
+
+describe("getBestGlvDepositRoute", () => {
+  const routes = [mockRoute("A", 90, 500), mockRoute("B", 40, 100), mockRoute("C", 10, 0)];
+
+  it("picks the least utilized market that fits the deposit", () => {
+    expect(getBestGlvDepositRoute(routes, usd(50))?.item.glvMarket.address).toBe("B");
+    expect(getBestGlvDepositRoute(routes, undefined)?.item.glvMarket.address).toBe("B");
+    expect(getBestGlvDepositRoute(routes, usd(200))?.item.glvMarket.address).toBe("A");
+  });
+
+  it("falls back to the market with the most capacity", () => {
+    expect(getBestGlvDepositRoute(routes, usd(1000))?.item.glvMarket.address).toBe("A");
+    expect(getBestGlvDepositRoute([mockRoute("C", 10, 0)], usd(1))).toBeUndefined();
+  });
+});
+
+describe("getGlvAllocationHistory", () => {
+  const marketsHistory: GlvMarketHistory[] = [
+    {
+      marketAddress: "A",
+      balanceChanges: [
+        { timestamp: 50, tokensBalance: tokens(10) },
+        { timestamp: 150, tokensBalance: tokens(30) },
+      ],
+      priceSnapshots: [
+        { timestamp: 100, marketTokenPrice: usd(1) },
+        { timestamp: 200, marketTokenPrice: usd(2) },
+      ],
+    },
+    {
+      marketAddress: "B",
+      balanceChanges: [{ timestamp: 150, tokensBalance: tokens(20) }],
+      priceSnapshots: [{ timestamp: 200, marketTokenPrice: usd(1) }],
+    },
+  ];
+
+  it("values the balances held at each snapshot", () => {
+    const history = getGlvAllocationHistory(marketsHistory, 18);
+
+    expect(history).toEqual([
+      { timestamp: 100, totalUsd: usd(10), balancesUsd: { A: usd(10), B: 0n } },
+      { timestamp: 200, totalUsd: usd(80), balancesUsd: { A: usd(60), B: usd(20) } },
+    ]);
+    expect(getGlvAllocationShares(history[1])).toEqual({ A: 75, B: 25 });
+  });
+});
@@ -0,0 +1,152 @@
+import { USD_DECIMALS } from "config/factors";
+import { MarketsInfoData, getMintableMarketTokens } from "domain/synthetics/markets";
+import { getMaxUsdBuyableAmountInMarket, getMaxUsdCapUsdInGmGlvMarket } from "domain/synthetics/markets/glv";
+import type { GlvMarketInfo } from "domain/synthetics/markets/useGlvMarkets";
+import { TokensData, convertToUsd } from "domain/synthetics/tokens";
+import { bigMath } from "lib/bigmath";
+import { bigintToNumber, expandDecimals } from "lib/numbers";
+import type { GlvAllocationPoint, GlvCompositionItem, GlvDepositRoute, GlvMarketHistory } from "./types";
+
+export function getGlvComposition(
+  glv: GlvMarketInfo,
+  marketsInfoData: MarketsInfoData | undefined,
+  marketTokensData: TokensData | undefined
+): GlvCompositionItem[] {
+  const items = glv.markets
+    .map((glvMarket) => {
+      const marketInfo = marketsInfoData?.[glvMarket.address];
+      const marketToken = marketTokensData?.[glvMarket.address];
+
+      if (!marketInfo || !marketToken) {
+        return undefined;
+      }
+
+      return {
+        glvMarket,
+        marketInfo,
+        marketToken,
+        balanceUsd: convertToUsd(glvMarket.gmBalance, marketToken.decimals, marketToken.prices.minPrice) ?? 0n,
+        capUsd: getMaxUsdCapUsdInGmGlvMarket(glvMarket, marketToken),
+        buyableUsd: bigMath.max(getMaxUsdBuyableAmountInMarket(glvMarket, glv, marketToken), 0n),
+      };
+    })
+    .filter(Boolean as unknown as FilterOutFalsy);
+
+  const totalUsd = items.reduce((acc, item) => acc + item.balanceUsd, 0n);
+
+  return items
+    .map((item) => ({
+      ...item,
+      share: getPercentage(item.balanceUsd, totalUsd),
+      utilization: getPercentage(item.balanceUsd, item.capUsd),
+    }))
+    .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * A GLV deposit mints GM in a single market of the vault: GM tokens can only go into their own market,
+ * long or short tokens into any enabled market limited by both the vault cap and the GM deposit capacity
+ */
+export function getGlvDepositRoutes(
+  glv: GlvMarketInfo,
+  composition: GlvCompositionItem[],
+  tokenAddress: string
+): GlvDepositRoute[] {
+  const gmItem = composition.find((item) => item.marketToken.address === tokenAddress);
+
+  if (gmItem) {
+    return [{ item: gmItem, capacityUsd: gmItem.glvMarket.isDisabled ? 0n : gmItem.buyableUsd }];
+  }
+
+  const isLong = tokenAddress === glv.longTokenAddress;
+  const isShort = tokenAddress === glv.shortTokenAddress;
+
+  if (!isLong && !isShort) {
+    return [];
+  }
+
+  return composition.map((item) => {
+    if (item.glvMarket.isDisabled) {
+      return { item, capacityUsd: 0n };
+    }
+
+    const mintable = getMintableMarketTokens(item.marketInfo, item.marketToken);
+    const gmCapacityUsd =
+      (isLong ? mintable.longDepositCapacityUsd : 0n) + (isShort ? mintable.shortDepositCapacityUsd : 0n);
+
+    return { item, capacityUsd: bigMath.max(bigMath.min(gmCapacityUsd, item.buyableUsd), 0n) };
+  });
+}
+
+/**
+ * Prefers the least utilized market that can take the whole deposit, otherwise the one with the most capacity left
+ */
+export function getBestGlvDepositRoute(
+  routes: GlvDepositRoute[],
+  amountUsd: bigint | undefined
+): GlvDepositRoute | undefined {
+  const available = routes.filter((route) => route.capacityUsd > 0);
+  const fitting = available.filter((route) => amountUsd === undefined || route.capacityUsd >= amountUsd);
+
+  if (fitting.length) {
+    return fitting.reduce((best, route) => (route.item.utilization < best.item.utilization ? route : best));
+  }
+
+  if (available.length) {
+    return available.reduce((best, route) => (route.capacityUsd > best.capacityUsd ? route : best));
+  }
+
+  return undefined;
+}
+
+/**
+ * Values the vault GM balances at every price snapshot
+ */
+export function getGlvAllocationHistory(
+  marketsHistory: GlvMarketHistory[],
+  marketTokenDecimals: number
+): GlvAllocationPoint[] {
+  const timestamps = Array.from(
+    new Set(marketsHistory.flatMap((market) => market.priceSnapshots.map((snapshot) => snapshot.timestamp)))
+  ).sort((a, b) => a - b);
+
+  return timestamps.map((timestamp) => {
+    const balancesUsd: GlvAllocationPoint["balancesUsd"] = {};
+    let totalUsd = 0n;
+
+    for (const market of marketsHistory) {
+      const balance = findLastBefore(market.balanceChanges, timestamp)?.tokensBalance ?? 0n;
+      const price = findLastBefore(market.priceSnapshots, timestamp)?.marketTokenPrice ?? 0n;
+      const balanceUsd = bigMath.mulDiv(balance, price, expandDecimals(1, marketTokenDecimals));
+
+      balancesUsd[market.marketAddress] = balanceUsd;
+      totalUsd += balanceUsd;
+    }
+
+    return { timestamp, totalUsd, balancesUsd };
+  });
+}
+
+export function getGlvAllocationShares(point: GlvAllocationPoint): { [marketAddress: string]: number } {
+  return Object.fromEntries(
+    Object.entries(point.balancesUsd).map(([marketAddress, balanceUsd]) => [
+      marketAddress,
+      getPercentage(balanceUsd, point.totalUsd),
+    ])
+  );
+}
+
+function findLastBefore<T extends { timestamp: number }>(items: T[], timestamp: number): T | undefined {
+  let result: T | undefined;
+
+  for (const item of items) {
+    if (item.timestamp > timestamp) break;
+    result = item;
+  }
+
+  return result;
+}
+
+function getPercentage(value: bigint, total: bigint) {
+  return total > 0 ? (bigintToNumber(value, USD_DECIMALS) * 100) / bigintToNumber(total, USD_DECIMALS) : 0;
+}
@@ -0,0 +1,62 @@
+import type { MarketInfo } from "../markets";
+import type { IncreasePositionAmounts } from "../trade";
+import type { TokenData } from "../tokens";
+
+/**
+ * Exposure of a GM holding to one underlying asset, wrapped and synthetic tokens of the same asset are merged
+ */
+export type GmTokenExposure = {
+  symbol: string;
+  token: TokenData;
+  /**
+   * Positive for long exposure
+   */
+  exposureUsd: bigint;
+};
+
+export type GmHedgeLeg = {
+  symbol: string;
+  marketInfo: MarketInfo;
+  isLong: boolean;
+  sizeDeltaUsd: bigint;
+  sizeDeltaInTokens: bigint;
+};
+
+export type GmHedgeLegAmounts = GmHedgeLeg & {
+  increaseAmounts: IncreasePositionAmounts;
+};
+
+/**
+ * Annual amounts at current rates, funding is positive when the hedge receives it
+ */
+export type GmHedgeCarry = {
+  gmYieldUsd: bigint;
+  fundingUsd: bigint;
+  borrowingUsd: bigint;
+  netCarryUsd: bigint;
+  /**
+   * Net carry relative to the value of the GM holding
+   */
+  netApy: bigint;
+};
+
+export type GmHedge = {
+  id: string;
+  createdAt: number;
+  gmMarketAddress: string;
+  positionKeys: string[];
+};
+
+export type GmHedgeDrift = {
+  symbol: string;
+  exposureUsd: bigint;
+  /**
+   * Signed value of the hedge positions at the mark price, negative for shorts
+   */
+  hedgeUsd: bigint;
+  driftUsd: bigint;
+  /**
+   * Drift relative to the exposure, undefined without exposure
+   */
+  driftBps: number | undefined;
+};
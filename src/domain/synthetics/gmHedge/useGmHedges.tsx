@@ -0,0 +1,59 @@
+import noop from "lodash/noop";
+import uniqueId from "lodash/uniqueId";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo } from "react";
+
+import { getGmHedgesKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import useWallet from "lib/wallets/useWallet";
+import type { GmHedge } from "./types";
+
+type GmHedgesContextType = {
+  gmHedges: GmHedge[];
+  addGmHedge: (hedge: Omit<GmHedge, "id" | "createdAt">) => void;
+  removeGmHedges: (ids: string[]) => void;
+};
+
+const context = createContext<GmHedgesContextType>({
+  gmHedges: [],
+  addGmHedge: noop,
+  removeGmHedges: noop,
+});
+
+const Provider = context.Provider;
+
+export function GmHedgesContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const [storedGmHedges, setStoredGmHedges] = useLocalStorageSerializeKey<GmHedge[]>(
+    getGmHedgesKey(chainId, account),
+    []
+  );
+
+  const gmHedges = useMemo(() => storedGmHedges ?? [], [storedGmHedges]);
+
+  const addGmHedge = useCallback(
+    (hedge: Omit<GmHedge, "id" | "createdAt">) => {
+      setStoredGmHedges([...gmHedges, { ...hedge, id: uniqueId(`${Date.now()}_`), createdAt: Date.now() }]);
+    },
+    [gmHedges, setStoredGmHedges]
+  );
+
+  const removeGmHedges = useCallback(
+    (ids: string[]) => {
+      setStoredGmHedges(gmHedges.filter((hedge) => !ids.includes(hedge.id)));
+    },
+    [gmHedges, setStoredGmHedges]
+  );
+
+  const stableObj = useMemo<GmHedgesContextType>(
+    () => ({ gmHedges, addGmHedge, removeGmHedges }),
+    [gmHedges, addGmHedge, removeGmHedges]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function useGmHedges() {
+  return useContext(context);
+}
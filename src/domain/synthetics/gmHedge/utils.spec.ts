@@ -0,0 +1,112 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import type { PositionInfo } from "../positions";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import type { TokenData } from "../tokens";
+import { getGmHedgeCarry, getGmHedgeDrifts, getGmHedgeLegs, getGmTokenExposures } from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC", "BTC-BTC-USDC"], {
+  "BTC-BTC-USDC": {
+    longInterestUsd: usd(700),
+    shortInterestUsd: usd(300),
+    maxOpenInterestLong: usd(10000),
+    maxOpenInterestShort: usd(10000),
+  },
+});
+const marketsInfo = Object.values(marketsInfoData);
+
+// a quarter of the supply
+const marketToken = { balance: 25n, totalSupply: 100n } as TokenData;
+
+describe("getGmTokenExposures", () => {
+  it("includes the pool amounts and the opposite of the open interest", () => {
+    const exposures = getGmTokenExposures(marketsInfoData["BTC-BTC-USDC"], marketToken);
+
+    expect(exposures.map(({ symbol, exposureUsd }) => ({ symbol, exposureUsd }))).toEqual([
+      { symbol: "BTC", exposureUsd: usd(150) },
+      { symbol: "USDC", exposureUsd: usd(250) },
+    ]);
+  });
+
+  it("is empty without a balance", () => {
+    expect(getGmTokenExposures(marketsInfoData["BTC-BTC-USDC"], { ...marketToken, balance: 0n })).toEqual([]);
+  });
+});
+
+describe("getGmHedgeLegs", () => {
+  const exposures = getGmTokenExposures(marketsInfoData["BTC-BTC-USDC"], marketToken);
+
+  it("shorts the non-stable exposure in a market of the same asset", () => {
+    const legs = getGmHedgeLegs(exposures, {
+      marketsInfo,
+      collateralTokenAddress: "USDC",
+      minPositionSizeUsd: usd(10),
+    });
+
+    expect(legs).toHaveLength(1);
+    expect(legs[0].marketInfo.marketTokenAddress).toBe("BTC-BTC-USDC");
+    expect(legs[0].isLong).toBe(false);
+    expect(legs[0].sizeDeltaUsd).toBe(usd(150));
+    expect(legs[0].sizeDeltaInTokens).toBe(750000n);
+  });
+
+  it("skips exposures below the min position size", () => {
+    const legs = getGmHedgeLegs(exposures, {
+      marketsInfo,
+      collateralTokenAddress: "USDC",
+      minPositionSizeUsd: usd(200),
+    });
+
+    expect(legs).toEqual([]);
+  });
+});
+
+describe("getGmHedgeCarry", () => {
+  it("subtracts funding paid and borrowing from the GM yield", () => {
+    const carryMarketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"], {
+      "ETH-ETH-USDC": {
+        fundingFactorPerSecond: 0n,
+        borrowingFactorPerSecondForShorts: 0n,
+      },
+    });
+
+    const carry = getGmHedgeCarry({
+      gmValueUsd: usd(1000),
+      // 10%
+      gmApy: expandDecimals(1, 29),
+      legs: [
+        {
+          symbol: "ETH",
+          marketInfo: carryMarketsInfoData["ETH-ETH-USDC"],
+          isLong: false,
+          sizeDeltaUsd: usd(500),
+          sizeDeltaInTokens: 0n,
+        },
+      ],
+    });
+
+    expect(carry.gmYieldUsd).toBe(usd(100));
+    expect(carry.fundingUsd).toBe(0n);
+    expect(carry.borrowingUsd).toBe(0n);
+    expect(carry.netCarryUsd).toBe(usd(100));
+    expect(carry.netApy).toBe(expandDecimals(1, 29));
+  });
+});
+
+describe("getGmHedgeDrifts", () => {
+  it("compares the exposure with the open hedge positions", () => {
+    const exposures = getGmTokenExposures(marketsInfoData["BTC-BTC-USDC"], marketToken);
+    const position = {
+      isLong: false,
+      indexToken: tokensData.BTC,
+      sizeInTokens: 600000n,
+      markPrice: usd(20000),
+    } as PositionInfo;
+
+    expect(getGmHedgeDrifts(exposures, [position])).toEqual([
+      { symbol: "BTC", exposureUsd: usd(150), hedgeUsd: -usd(120), driftUsd: usd(30), driftBps: 2000 },
+    ]);
+  });
+});
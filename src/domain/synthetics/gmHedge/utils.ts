@@ -0,0 +1,183 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import type { UserReferralInfo } from "domain/referrals/types";
+import { bigMath } from "lib/bigmath";
+import { CHART_PERIODS } from "lib/legacy";
+import { PRECISION, applyFactor } from "lib/numbers";
+import { getBorrowingFactorPerPeriod, getFundingFactorPerPeriod } from "../fees";
+import { MarketInfo, getMostLiquidMarketForPosition, getPoolUsdWithoutPnl, getTokenPoolType } from "../markets";
+import type { PositionInfo } from "../positions";
+import { TokenData, convertToTokenAmount, convertToUsd, getMidPrice } from "../tokens";
+import { getIncreasePositionAmounts } from "../trade";
+import type { GmHedgeCarry, GmHedgeDrift, GmHedgeLeg, GmHedgeLegAmounts, GmTokenExposure } from "./types";
+
+export const GM_HEDGE_DRIFT_WARNING_BPS = 1000;
+
+export function getGmHedgeAssetSymbol(token: Pick<TokenData, "symbol" | "baseSymbol">) {
+  return token.baseSymbol ?? token.symbol;
+}
+
+/**
+ * The holder owns its share of both pool amounts and is the counterparty of the open interest,
+ * so trader longs are a short exposure to the index token and trader shorts a long one.
+ */
+export function getGmTokenExposures(marketInfo: MarketInfo, marketToken: TokenData): GmTokenExposure[] {
+  const { balance, totalSupply } = marketToken;
+
+  if (balance === undefined || balance === 0n || totalSupply === undefined || totalSupply === 0n) {
+    return [];
+  }
+
+  const exposures = new Map<string, GmTokenExposure>();
+
+  const addExposure = (token: TokenData, exposureUsd: bigint) => {
+    const symbol = getGmHedgeAssetSymbol(token);
+    const exposure = exposures.get(symbol);
+
+    exposures.set(symbol, {
+      symbol,
+      token: exposure?.token ?? token,
+      exposureUsd: (exposure?.exposureUsd ?? 0n) + bigMath.mulDiv(exposureUsd, balance, totalSupply),
+    });
+  };
+
+  addExposure(marketInfo.longToken, getPoolUsdWithoutPnl(marketInfo, true, "midPrice"));
+  addExposure(marketInfo.shortToken, getPoolUsdWithoutPnl(marketInfo, false, "midPrice"));
+
+  if (!marketInfo.isSpotOnly) {
+    addExposure(marketInfo.indexToken, marketInfo.shortInterestUsd - marketInfo.longInterestUsd);
+  }
+
+  return Array.from(exposures.values());
+}
+
+/**
+ * Non-stable exposures are neutralized with a position of the opposite direction
+ * in the most liquid market of the asset that accepts the collateral
+ */
+export function getGmHedgeLegs(
+  exposures: GmTokenExposure[],
+  p: { marketsInfo: MarketInfo[]; collateralTokenAddress: string; minPositionSizeUsd: bigint }
+): GmHedgeLeg[] {
+  const legs: GmHedgeLeg[] = [];
+
+  for (const exposure of exposures) {
+    const sizeDeltaUsd = bigMath.abs(exposure.exposureUsd);
+
+    if (exposure.token.isStable || sizeDeltaUsd < p.minPositionSizeUsd) {
+      continue;
+    }
+
+    const isLong = exposure.exposureUsd < 0;
+    const candidates = p.marketsInfo.filter(
+      (marketInfo) =>
+        !marketInfo.isDisabled &&
+        getGmHedgeAssetSymbol(marketInfo.indexToken) === exposure.symbol &&
+        getTokenPoolType(marketInfo, p.collateralTokenAddress) !== undefined
+    );
+
+    if (!candidates.length) continue;
+
+    const marketInfo = getMostLiquidMarketForPosition(candidates, candidates[0].indexToken.address, undefined, isLong);
+
+    if (!marketInfo) continue;
+
+    const { indexToken } = marketInfo;
+
+    legs.push({
+      symbol: exposure.symbol,
+      marketInfo,
+      isLong,
+      sizeDeltaUsd,
+      sizeDeltaInTokens: convertToTokenAmount(sizeDeltaUsd, indexToken.decimals, getMidPrice(indexToken.prices))!,
+    });
+  }
+
+  return legs;
+}
+
+/**
+ * Every leg is paid with the collateral token directly, so no swap path is needed
+ */
+export function getGmHedgeLegAmounts(
+  leg: GmHedgeLeg,
+  p: {
+    collateralToken: TokenData;
+    leverage: bigint;
+    userReferralInfo: UserReferralInfo | undefined;
+    uiFeeFactor: bigint;
+    acceptablePriceImpactBuffer?: number;
+  }
+): GmHedgeLegAmounts {
+  const increaseAmounts = getIncreasePositionAmounts({
+    marketInfo: leg.marketInfo,
+    indexToken: leg.marketInfo.indexToken,
+    initialCollateralToken: p.collateralToken,
+    collateralToken: p.collateralToken,
+    isLong: leg.isLong,
+    initialCollateralAmount: undefined,
+    position: undefined,
+    indexTokenAmount: leg.sizeDeltaInTokens,
+    leverage: p.leverage,
+    acceptablePriceImpactBuffer: p.acceptablePriceImpactBuffer,
+    userReferralInfo: p.userReferralInfo,
+    strategy: "leverageBySize",
+    findSwapPath: () => undefined,
+    uiFeeFactor: p.uiFeeFactor,
+  });
+
+  return { ...leg, increaseAmounts };
+}
+
+export function getGmHedgeCarry(p: { gmValueUsd: bigint; gmApy: bigint; legs: GmHedgeLeg[] }): GmHedgeCarry {
+  const period = CHART_PERIODS["1y"];
+  const gmYieldUsd = applyFactor(p.gmValueUsd, p.gmApy);
+  let fundingUsd = 0n;
+  let borrowingUsd = 0n;
+
+  for (const leg of p.legs) {
+    fundingUsd += applyFactor(leg.sizeDeltaUsd, getFundingFactorPerPeriod(leg.marketInfo, leg.isLong, period));
+    borrowingUsd += applyFactor(leg.sizeDeltaUsd, getBorrowingFactorPerPeriod(leg.marketInfo, leg.isLong, period));
+  }
+
+  const netCarryUsd = gmYieldUsd + fundingUsd - borrowingUsd;
+
+  return {
+    gmYieldUsd,
+    fundingUsd,
+    borrowingUsd,
+    netCarryUsd,
+    netApy: p.gmValueUsd > 0 ? bigMath.mulDiv(netCarryUsd, PRECISION, p.gmValueUsd) : 0n,
+  };
+}
+
+/**
+ * Compares the current exposure of the holding with the hedge positions still open
+ */
+export function getGmHedgeDrifts(exposures: GmTokenExposure[], positions: PositionInfo[]): GmHedgeDrift[] {
+  const hedgeUsdBySymbol = new Map<string, bigint>();
+
+  for (const position of positions) {
+    const symbol = getGmHedgeAssetSymbol(position.indexToken);
+    const valueUsd = convertToUsd(position.sizeInTokens, position.indexToken.decimals, position.markPrice)!;
+
+    hedgeUsdBySymbol.set(symbol, (hedgeUsdBySymbol.get(symbol) ?? 0n) + (position.isLong ? valueUsd : -valueUsd));
+  }
+
+  return exposures
+    .filter((exposure) => !exposure.token.isStable)
+    .map((exposure) => {
+      const hedgeUsd = hedgeUsdBySymbol.get(exposure.symbol) ?? 0n;
+      const driftUsd = exposure.exposureUsd + hedgeUsd;
+
+      return {
+        symbol: exposure.symbol,
+        exposureUsd: exposure.exposureUsd,
+        hedgeUsd,
+        driftUsd,
+        driftBps:
+          exposure.exposureUsd !== 0n
+            ? Number(bigMath.mulDiv(driftUsd, BASIS_POINTS_DIVISOR_BIGINT, bigMath.abs(exposure.exposureUsd)))
+            : undefined,
+      };
+    });
+}
@@ -97,6 +97,27 @@ export type LeaderboardAccount = LeaderboardAccountBase & {
   averageLeverage: bigint;
 };
 
+const POSITION_FIELDS = `
+  id
+  account
+  market
+  collateralToken
+  isLong
+  realizedFees
+  unrealizedFees
+  maxSize
+  realizedPriceImpact
+  unrealizedPriceImpact
+  unrealizedPnl
+  realizedPnl
+  sizeInTokens
+  sizeInUsd
+  entryPrice
+  collateralAmount
+  snapshotTimestamp
+  isSnapshot
+`;
+
 type LeaderboardPositionsJson = {
   positions: {
     account: string;
@@ -309,24 +330,7 @@ const fetchPositions = async (
             accountStat: { maxCapital_gt: $requiredMaxCapital }
           }
         ) {
-          id
-          account
-          market
-          collateralToken
-          isLong
-          realizedFees
-          unrealizedFees
-          maxSize
-          realizedPriceImpact
-          unrealizedPriceImpact
-          unrealizedPnl
-          realizedPnl
-          sizeInTokens
-          sizeInUsd
-          entryPrice
-          collateralAmount
-          snapshotTimestamp
-          isSnapshot
+          ${POSITION_FIELDS}
         }
       }
     `,
@@ -343,26 +347,57 @@ const fetchPositions = async (
     fetchPolicy: "no-cache",
   });
 
-  return response?.data.positions.map((p) => {
-    return {
-      key: p.id,
-      account: p.account,
-      market: p.market,
-      collateralToken: p.collateralToken,
-      isLong: p.isLong,
-      realizedPriceImpact: BigInt(p.realizedPriceImpact),
-      realizedFees: BigInt(p.realizedFees),
-      collateralAmount: BigInt(p.collateralAmount),
-      unrealizedFees: BigInt(p.unrealizedFees),
-      entryPrice: BigInt(p.entryPrice),
-      sizeInUsd: BigInt(p.sizeInUsd),
-      sizeInTokens: BigInt(p.sizeInTokens),
-      realizedPnl: BigInt(p.realizedPnl),
-      unrealizedPriceImpact: BigInt(p.unrealizedPriceImpact),
-      unrealizedPnl: BigInt(p.unrealizedPnl),
-      maxSize: BigInt(p.maxSize),
-      snapshotTimestamp: p.snapshotTimestamp,
-      isSnapshot: p.isSnapshot,
-    };
-  });
+  return response?.data.positions.map(parsePosition);
 };
+
+/**
+ * Open positions of the given accounts, used by the account watchlist
+ */
+export async function fetchAccountsPositions(
+  chainId: number,
+  accounts: string[]
+): Promise<LeaderboardPositionBase[] | undefined> {
+  const client = getSubsquidGraphClient(chainId);
+  if (!client) {
+    // eslint-disable-next-line
+    console.error("no endpoint");
+    return;
+  }
+
+  const response = await client.query<LeaderboardPositionsJson>({
+    query: gql`
+      query AccountsPositionQuery($accounts: [String!]) {
+        positions(limit: 1000, where: { isSnapshot_eq: false, account_in: $accounts, sizeInUsd_gt: 0 }) {
+          ${POSITION_FIELDS}
+        }
+      }
+    `,
+    variables: { accounts },
+    fetchPolicy: "no-cache",
+  });
+
+  return response?.data.positions.map(parsePosition);
+}
+
+function parsePosition(p: LeaderboardPositionsJson["positions"][number]): LeaderboardPositionBase {
+  return {
+    key: p.id,
+    account: p.account,
+    market: p.market,
+    collateralToken: p.collateralToken,
+    isLong: p.isLong,
+    realizedPriceImpact: BigInt(p.realizedPriceImpact),
+    realizedFees: BigInt(p.realizedFees),
+    collateralAmount: BigInt(p.collateralAmount),
+    unrealizedFees: BigInt(p.unrealizedFees),
+    entryPrice: BigInt(p.entryPrice),
+    sizeInUsd: BigInt(p.sizeInUsd),
+    sizeInTokens: BigInt(p.sizeInTokens),
+    realizedPnl: BigInt(p.realizedPnl),
+    unrealizedPriceImpact: BigInt(p.unrealizedPriceImpact),
+    unrealizedPnl: BigInt(p.unrealizedPnl),
+    maxSize: BigInt(p.maxSize),
+    snapshotTimestamp: p.snapshotTimestamp,
+    isSnapshot: p.isSnapshot,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * GM or GLV balance of the user after a deposit, withdrawal or transfer
+ */
+export type LpBalanceChange = {
+  timestamp: number;
+  tokensBalance: bigint;
+  cumulativeIncome: bigint;
+  cumulativeFeeUsdPerGmToken: bigint;
+};
+
+/**
+ * Prices are USD per whole token, pool values are USD
+ */
+export type LpPoolSnapshot = {
+  timestamp: number;
+  marketTokenPrice: bigint;
+  longTokenPrice: bigint;
+  shortTokenPrice: bigint;
+  longPoolUsd: bigint;
+  shortPoolUsd: bigint;
+};
+
+export type LpPerformancePoint = {
+  timestamp: number;
+  valueUsd: bigint;
+  hodlValueUsd: bigint;
+  costBasisUsd: bigint;
+};
+
+/**
+ * PnL compares deposits with the current value plus withdrawals.
+ * The HODL baseline buys the long and short tokens in the pool ratio at each deposit
+ * and sells the same share of them at each withdrawal.
+ */
+export type LpPerformance = {
+  tokensBalance: bigint;
+  costBasisUsd: bigint;
+  depositedUsd: bigint;
+  withdrawnUsd: bigint;
+  valueUsd: bigint;
+  feeIncomeUsd: bigint;
+  pnlUsd: bigint;
+  hodlValueUsd: bigint;
+  hodlPnlUsd: bigint;
+  pnlVsHodlUsd: bigint;
+  history: LpPerformancePoint[];
+};
@@ -0,0 +1,161 @@
+import { gql } from "@apollo/client";
+import { useMemo } from "react";
+import useSWR from "swr";
+
+import { MarketInfo, getPoolUsdWithoutPnl, marketTokenAmountToUsd } from "domain/synthetics/markets";
+import { isGlv } from "domain/synthetics/markets/glv";
+import { TokenData, convertToUsd, parseContractPrice } from "domain/synthetics/tokens";
+import { getSyntheticsGraphClient } from "lib/subgraph";
+import { CONFIG_UPDATE_INTERVAL } from "lib/timeConstants";
+import useWallet from "lib/wallets/useWallet";
+import type { LpBalanceChange, LpPerformance, LpPoolSnapshot } from "./types";
+import { getLpPerformance } from "./utils";
+
+const query = gql`
+  query lpPerformance($account: String!, $marketAddress: String!) {
+    userGmTokensBalanceChanges(
+      first: 1000
+      orderBy: index
+      orderDirection: asc
+      where: { account: $account, marketAddress: $marketAddress }
+    ) {
+      timestamp
+      tokensBalance
+      cumulativeIncome
+      cumulativeFeeUsdPerGmToken
+    }
+    marketInfoSnapshots(
+      first: 1000
+      orderBy: timestamp
+      orderDirection: desc
+      where: { marketAddress: $marketAddress, period: "1d" }
+    ) {
+      timestamp
+      poolValue
+      marketTokensSupply
+      longTokenPrice
+      shortTokenPrice
+      longPoolAmount
+      shortPoolAmount
+    }
+    collectedMarketFeesInfos(
+      first: 1
+      orderBy: timestampGroup
+      orderDirection: desc
+      where: { marketAddress: $marketAddress, period: "1h" }
+    ) {
+      cumulativeFeeUsdPerGmToken
+    }
+  }
+`;
+
+type RawLpBalanceChange = {
+  timestamp: number;
+  tokensBalance: string;
+  cumulativeIncome: string;
+  cumulativeFeeUsdPerGmToken: string;
+};
+
+type RawLpPoolSnapshot = {
+  timestamp: number;
+  poolValue: string;
+  marketTokensSupply: string;
+  longTokenPrice: string;
+  shortTokenPrice: string;
+  longPoolAmount: string;
+  shortPoolAmount: string;
+};
+
+type LpPerformanceResponse = {
+  balanceChanges: LpBalanceChange[];
+  snapshots: LpPoolSnapshot[];
+  latestCumulativeFeeUsdPerGmToken: bigint | undefined;
+};
+
+export function useLpPerformance(
+  chainId: number,
+  marketInfo: MarketInfo | undefined,
+  marketToken: TokenData | undefined
+): { performance: LpPerformance | undefined; isLoading: boolean } {
+  const { account } = useWallet();
+  const client = getSyntheticsGraphClient(chainId);
+  const marketAddress = marketInfo?.marketTokenAddress;
+
+  const key =
+    client && account && marketInfo && marketToken ? ["useLpPerformance", chainId, account, marketAddress] : null;
+
+  const { data, error } = useSWR<LpPerformanceResponse>(
+    key,
+    async () => {
+      const { longToken, shortToken } = marketInfo!;
+      const { data } = await client!.query({
+        query,
+        variables: { account: account!.toLowerCase(), marketAddress: marketAddress!.toLowerCase() },
+        fetchPolicy: "no-cache",
+      });
+
+      return {
+        balanceChanges: data.userGmTokensBalanceChanges.map(
+          (raw: RawLpBalanceChange): LpBalanceChange => ({
+            timestamp: Number(raw.timestamp),
+            tokensBalance: BigInt(raw.tokensBalance),
+            cumulativeIncome: BigInt(raw.cumulativeIncome),
+            cumulativeFeeUsdPerGmToken: BigInt(raw.cumulativeFeeUsdPerGmToken),
+          })
+        ),
+        snapshots: data.marketInfoSnapshots
+          .map((raw: RawLpPoolSnapshot): LpPoolSnapshot => {
+            const supply = BigInt(raw.marketTokensSupply);
+            const longTokenPrice = parseContractPrice(BigInt(raw.longTokenPrice), longToken.decimals);
+            const shortTokenPrice = parseContractPrice(BigInt(raw.shortTokenPrice), shortToken.decimals);
+
+            return {
+              timestamp: Number(raw.timestamp),
+              marketTokenPrice:
+                supply > 0 ? (BigInt(raw.poolValue) * 10n ** BigInt(marketToken!.decimals)) / supply : 0n,
+              longTokenPrice,
+              shortTokenPrice,
+              longPoolUsd: convertToUsd(BigInt(raw.longPoolAmount), longToken.decimals, longTokenPrice)!,
+              shortPoolUsd: convertToUsd(BigInt(raw.shortPoolAmount), shortToken.decimals, shortTokenPrice)!,
+            };
+          })
+          .reverse(),
+        latestCumulativeFeeUsdPerGmToken: data.collectedMarketFeesInfos[0]
+          ? BigInt(data.collectedMarketFeesInfos[0].cumulativeFeeUsdPerGmToken)
+          : undefined,
+      };
+    },
+    { refreshInterval: CONFIG_UPDATE_INTERVAL }
+  );
+
+  const performance = useMemo(() => {
+    if (!data || !marketInfo || !marketToken) return undefined;
+
+    const lastBalanceChange = data.balanceChanges[data.balanceChanges.length - 1];
+    const tokensBalance = marketToken.balance ?? lastBalanceChange?.tokensBalance ?? 0n;
+    const isGlvMarket = isGlv(marketInfo);
+
+    const current: LpPoolSnapshot = {
+      timestamp: Math.floor(Date.now() / 1000),
+      marketTokenPrice: marketToken.prices.minPrice,
+      longTokenPrice: marketInfo.longToken.prices.minPrice,
+      shortTokenPrice: marketInfo.shortToken.prices.minPrice,
+      // vaults hold GM tokens instead of pool amounts, deposits after the last snapshot are split evenly
+      longPoolUsd: isGlvMarket ? 0n : getPoolUsdWithoutPnl(marketInfo, true, "minPrice"),
+      shortPoolUsd: isGlvMarket ? 0n : getPoolUsdWithoutPnl(marketInfo, false, "minPrice"),
+    };
+
+    return getLpPerformance({
+      balanceChanges: data.balanceChanges,
+      snapshots: data.snapshots,
+      current,
+      valueUsd: isGlvMarket
+        ? convertToUsd(tokensBalance, marketToken.decimals, marketToken.prices.minPrice)!
+        : marketTokenAmountToUsd(marketInfo, marketToken, tokensBalance),
+      latestCumulativeFeeUsdPerGmToken: data.latestCumulativeFeeUsdPerGmToken,
+      marketTokenDecimals: marketToken.decimals,
+    });
+  }, [data, marketInfo, marketToken]);
+
+  return { performance, isLoading: Boolean(key) && !data && !error };
+}
@@ -0,0 +1,97 @@
+import { mockSnapshotFactory, tokens, usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import type { LpBalanceChange, LpPoolSnapshot } from "./types";
+import { getLpPerformance, getLpPoolSnapshotAt } from "./utils";
+
+const mockSnapshot = mockSnapshotFactory<LpPoolSnapshot>({
+  marketTokenPrice: usd(1),
+  longTokenPrice: usd(1000),
+  shortTokenPrice: usd(1),
+  longPoolUsd: usd(1000),
+  shortPoolUsd: usd(1000),
+});
+
+function mockBalanceChange(
+  p: Partial<LpBalanceChange> & { timestamp: number; tokensBalance: bigint }
+): LpBalanceChange {
+  return {
+    cumulativeIncome: 0n,
+    cumulativeFeeUsdPerGmToken: 0n,
+    ...p,
+  };
+}
+
+describe("getLpPoolSnapshotAt", () => {
+  const snapshots = [mockSnapshot({ timestamp: 100 }), mockSnapshot({ timestamp: 200 })];
+
+  it("returns the last snapshot at or before the timestamp", () => {
+    expect(getLpPoolSnapshotAt(snapshots, 150)?.timestamp).toBe(100);
+    expect(getLpPoolSnapshotAt(snapshots, 200)?.timestamp).toBe(200);
+    expect(getLpPoolSnapshotAt(snapshots, 50)?.timestamp).toBe(100);
+    expect(getLpPoolSnapshotAt([], 50)).toBeUndefined();
+  });
+});
+
+describe("getLpPerformance", () => {
+  const snapshots = [
+    mockSnapshot({ timestamp: 0 }),
+    mockSnapshot({ timestamp: 100, marketTokenPrice: usd(1.1), longTokenPrice: usd(1400) }),
+  ];
+  const current = mockSnapshot({ timestamp: 200, marketTokenPrice: usd(1.1), longTokenPrice: usd(1400) });
+  const balanceChanges = [
+    mockBalanceChange({ timestamp: 0, tokensBalance: tokens(10) }),
+    mockBalanceChange({
+      timestamp: 150,
+      tokensBalance: tokens(5),
+      cumulativeIncome: usd(1),
+      cumulativeFeeUsdPerGmToken: usd(0.3),
+    }),
+  ];
+
+  const performance = getLpPerformance({
+    balanceChanges,
+    snapshots,
+    current,
+    valueUsd: usd(5.5),
+    latestCumulativeFeeUsdPerGmToken: usd(0.5),
+    marketTokenDecimals: 18,
+  })!;
+
+  it("returns undefined without balance changes", () => {
+    expect(
+      getLpPerformance({
+        balanceChanges: [],
+        snapshots,
+        current,
+        valueUsd: 0n,
+        latestCumulativeFeeUsdPerGmToken: undefined,
+        marketTokenDecimals: 18,
+      })
+    ).toBeUndefined();
+  });
+
+  it("reduces the cost basis pro rata on withdrawals", () => {
+    expect(performance.tokensBalance).toBe(tokens(5));
+    expect(performance.depositedUsd).toBe(usd(10));
+    expect(performance.withdrawnUsd).toBe(usd(5.5));
+    expect(performance.costBasisUsd).toBe(usd(5));
+  });
+
+  it("compares the PnL with holding the deposited tokens", () => {
+    expect(performance.pnlUsd).toBe(usd(1));
+    expect(performance.hodlValueUsd).toBe(usd(6));
+    expect(performance.hodlPnlUsd).toBe(usd(2));
+    expect(performance.pnlVsHodlUsd).toBe(usd(-1));
+  });
+
+  it("adds fees accrued since the last balance change to the fee income", () => {
+    expect(performance.feeIncomeUsd).toBe(usd(2));
+  });
+
+  it("builds the history from the snapshots and the current value", () => {
+    expect(performance.history.map((point) => point.timestamp)).toEqual([0, 100, 200]);
+    expect(performance.history.map((point) => point.valueUsd)).toEqual([usd(10), usd(11), usd(5.5)]);
+    expect(performance.history.map((point) => point.hodlValueUsd)).toEqual([usd(10), usd(12), usd(6)]);
+    expect(performance.history.map((point) => point.costBasisUsd)).toEqual([usd(10), usd(10), usd(5)]);
+  });
+});
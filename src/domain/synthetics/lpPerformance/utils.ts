@@ -0,0 +1,185 @@
+import { USD_DECIMALS } from "config/factors";
+import { bigMath } from "lib/bigmath";
+import { expandDecimals } from "lib/numbers";
+import type { LpBalanceChange, LpPerformance, LpPerformancePoint, LpPoolSnapshot } from "./types";
+
+const PRICE_PRECISION = expandDecimals(1, USD_DECIMALS);
+const FEE_PER_TOKEN_PRECISION = expandDecimals(1, 18);
+
+type LpState = {
+  tokensBalance: bigint;
+  costBasisUsd: bigint;
+  depositedUsd: bigint;
+  withdrawnUsd: bigint;
+  hodlLongAmount: bigint;
+  hodlShortAmount: bigint;
+  hodlWithdrawnUsd: bigint;
+};
+
+/**
+ * The last snapshot taken at or before the timestamp, earlier timestamps fall back to the first snapshot
+ */
+export function getLpPoolSnapshotAt(snapshots: LpPoolSnapshot[], timestamp: number): LpPoolSnapshot | undefined {
+  let result = snapshots[0];
+
+  for (const snapshot of snapshots) {
+    if (snapshot.timestamp > timestamp) break;
+    result = snapshot;
+  }
+
+  return result;
+}
+
+export function getLpPerformance(p: {
+  balanceChanges: LpBalanceChange[];
+  snapshots: LpPoolSnapshot[];
+  current: LpPoolSnapshot;
+  valueUsd: bigint;
+  latestCumulativeFeeUsdPerGmToken: bigint | undefined;
+  marketTokenDecimals: number;
+}): LpPerformance | undefined {
+  const { balanceChanges, current, valueUsd, latestCumulativeFeeUsdPerGmToken, marketTokenDecimals } = p;
+
+  if (!balanceChanges.length) {
+    return undefined;
+  }
+
+  const pricingSnapshots = [...p.snapshots, current];
+  const history: LpPerformancePoint[] = [];
+
+  let state: LpState = {
+    tokensBalance: 0n,
+    costBasisUsd: 0n,
+    depositedUsd: 0n,
+    withdrawnUsd: 0n,
+    hodlLongAmount: 0n,
+    hodlShortAmount: 0n,
+    hodlWithdrawnUsd: 0n,
+  };
+  let changeIndex = 0;
+
+  const applyChangesUntil = (timestamp: number) => {
+    while (changeIndex < balanceChanges.length && balanceChanges[changeIndex].timestamp <= timestamp) {
+      const change = balanceChanges[changeIndex];
+      const snapshot = getLpPoolSnapshotAt(pricingSnapshots, change.timestamp)!;
+
+      state = applyLpBalanceChange(state, change.tokensBalance, snapshot, marketTokenDecimals);
+      changeIndex++;
+    }
+  };
+
+  for (const snapshot of p.snapshots) {
+    if (snapshot.timestamp < balanceChanges[0].timestamp) continue;
+
+    applyChangesUntil(snapshot.timestamp);
+    history.push(getLpPerformancePoint(state, snapshot, marketTokenDecimals));
+  }
+
+  applyChangesUntil(Infinity);
+  history.push({ ...getLpPerformancePoint(state, current, marketTokenDecimals), valueUsd });
+
+  const lastChange = balanceChanges[balanceChanges.length - 1];
+  const pendingIncome =
+    latestCumulativeFeeUsdPerGmToken === undefined
+      ? 0n
+      : bigMath.mulDiv(
+          latestCumulativeFeeUsdPerGmToken - lastChange.cumulativeFeeUsdPerGmToken,
+          lastChange.tokensBalance,
+          FEE_PER_TOKEN_PRECISION
+        );
+
+  const hodlValueUsd = getHodlValueUsd(state, current);
+  const pnlUsd = valueUsd + state.withdrawnUsd - state.depositedUsd;
+  const hodlPnlUsd = hodlValueUsd + state.hodlWithdrawnUsd - state.depositedUsd;
+
+  return {
+    tokensBalance: state.tokensBalance,
+    costBasisUsd: state.costBasisUsd,
+    depositedUsd: state.depositedUsd,
+    withdrawnUsd: state.withdrawnUsd,
+    valueUsd,
+    feeIncomeUsd: lastChange.cumulativeIncome + pendingIncome,
+    pnlUsd,
+    hodlValueUsd,
+    hodlPnlUsd,
+    pnlVsHodlUsd: pnlUsd - hodlPnlUsd,
+    history,
+  };
+}
+
+function applyLpBalanceChange(
+  state: LpState,
+  tokensBalance: bigint,
+  snapshot: LpPoolSnapshot,
+  marketTokenDecimals: number
+): LpState {
+  const delta = tokensBalance - state.tokensBalance;
+  const deltaUsd = bigMath.mulDiv(
+    bigMath.abs(delta),
+    snapshot.marketTokenPrice,
+    expandDecimals(1, marketTokenDecimals)
+  );
+
+  if (delta > 0) {
+    const poolUsd = snapshot.longPoolUsd + snapshot.shortPoolUsd;
+    const longUsd = poolUsd > 0 ? bigMath.mulDiv(deltaUsd, snapshot.longPoolUsd, poolUsd) : deltaUsd / 2n;
+
+    return {
+      ...state,
+      tokensBalance,
+      costBasisUsd: state.costBasisUsd + deltaUsd,
+      depositedUsd: state.depositedUsd + deltaUsd,
+      hodlLongAmount: state.hodlLongAmount + toHodlAmount(longUsd, snapshot.longTokenPrice),
+      hodlShortAmount: state.hodlShortAmount + toHodlAmount(deltaUsd - longUsd, snapshot.shortTokenPrice),
+    };
+  }
+
+  if (delta < 0 && state.tokensBalance > 0) {
+    const soldLongAmount = bigMath.mulDiv(state.hodlLongAmount, -delta, state.tokensBalance);
+    const soldShortAmount = bigMath.mulDiv(state.hodlShortAmount, -delta, state.tokensBalance);
+
+    return {
+      ...state,
+      tokensBalance,
+      costBasisUsd: state.costBasisUsd - bigMath.mulDiv(state.costBasisUsd, -delta, state.tokensBalance),
+      withdrawnUsd: state.withdrawnUsd + deltaUsd,
+      hodlLongAmount: state.hodlLongAmount - soldLongAmount,
+      hodlShortAmount: state.hodlShortAmount - soldShortAmount,
+      hodlWithdrawnUsd:
+        state.hodlWithdrawnUsd +
+        getHodlValueUsd({ hodlLongAmount: soldLongAmount, hodlShortAmount: soldShortAmount }, snapshot),
+    };
+  }
+
+  return { ...state, tokensBalance };
+}
+
+function getLpPerformancePoint(
+  state: LpState,
+  snapshot: LpPoolSnapshot,
+  marketTokenDecimals: number
+): LpPerformancePoint {
+  return {
+    timestamp: snapshot.timestamp,
+    valueUsd: bigMath.mulDiv(state.tokensBalance, snapshot.marketTokenPrice, expandDecimals(1, marketTokenDecimals)),
+    hodlValueUsd: getHodlValueUsd(state, snapshot),
+    costBasisUsd: state.costBasisUsd,
+  };
+}
+
+/**
+ * HODL amounts are kept in USD precision so they don't depend on the token decimals
+ */
+function toHodlAmount(usd: bigint, price: bigint) {
+  return price > 0 ? bigMath.mulDiv(usd, PRICE_PRECISION, price) : 0n;
+}
+
+function getHodlValueUsd(
+  holdings: Pick<LpState, "hodlLongAmount" | "hodlShortAmount">,
+  snapshot: Pick<LpPoolSnapshot, "longTokenPrice" | "shortTokenPrice">
+) {
+  return (
+    bigMath.mulDiv(holdings.hodlLongAmount, snapshot.longTokenPrice, PRICE_PRECISION) +
+    bigMath.mulDiv(holdings.hodlShortAmount, snapshot.shortTokenPrice, PRICE_PRECISION)
+  );
+}
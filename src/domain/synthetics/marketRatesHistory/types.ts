@@ -0,0 +1,28 @@
+import type { MarketInfo } from "../markets";
+
+export type MarketRatesAggregation = "1h" | "8h" | "1d";
+
+export type MarketRatesSnapshot = Pick<
+  MarketInfo,
+  | "fundingFactorPerSecond"
+  | "longsPayShorts"
+  | "longInterestUsd"
+  | "shortInterestUsd"
+  | "borrowingFactorPerSecondForLongs"
+  | "borrowingFactorPerSecondForShorts"
+> & {
+  timestamp: number;
+};
+
+/**
+ * Yearly rates paid (negative) or received (positive) by a position, in the same precision as the factors
+ */
+export type MarketRatesHistoryPoint = {
+  timestamp: number;
+  fundingAprLong: bigint;
+  fundingAprShort: bigint;
+  borrowingAprLong: bigint;
+  borrowingAprShort: bigint;
+  netAprLong: bigint;
+  netAprShort: bigint;
+};
@@ -0,0 +1,86 @@
+import { gql } from "@apollo/client";
+import { useMemo } from "react";
+import useSWR from "swr";
+
+import { CHART_PERIODS } from "lib/legacy";
+import { EMPTY_ARRAY } from "lib/objects";
+import { getSyntheticsGraphClient } from "lib/subgraph";
+import { CONFIG_UPDATE_INTERVAL } from "lib/timeConstants";
+import type { MarketRatesAggregation, MarketRatesHistoryPoint, MarketRatesSnapshot } from "./types";
+import { aggregateMarketRatesHistory } from "./utils";
+
+const MARKET_RATES_HISTORY_DAYS = 30;
+
+const query = gql`
+  query marketRatesHistory($marketAddress: String!, $fromTimestamp: Int!) {
+    marketInfoSnapshots(
+      first: 1000
+      orderBy: timestamp
+      orderDirection: asc
+      where: { marketAddress: $marketAddress, period: "1h", timestamp_gte: $fromTimestamp }
+    ) {
+      timestamp
+      fundingFactorPerSecond
+      longsPayShorts
+      longInterestUsd
+      shortInterestUsd
+      borrowingFactorPerSecondForLongs
+      borrowingFactorPerSecondForShorts
+    }
+  }
+`;
+
+type RawMarketRatesSnapshot = {
+  timestamp: number;
+  fundingFactorPerSecond: string;
+  longsPayShorts: boolean;
+  longInterestUsd: string;
+  shortInterestUsd: string;
+  borrowingFactorPerSecondForLongs: string;
+  borrowingFactorPerSecondForShorts: string;
+};
+
+export function useMarketRatesHistory(
+  chainId: number,
+  marketAddress: string | undefined,
+  aggregation: MarketRatesAggregation
+): { data: MarketRatesHistoryPoint[]; isLoading: boolean; error: Error | undefined } {
+  const client = getSyntheticsGraphClient(chainId);
+  const key = client && marketAddress ? ["marketRatesHistory", chainId, marketAddress] : null;
+
+  const { data: snapshots, error } = useSWR<MarketRatesSnapshot[]>(
+    key,
+    async () => {
+      const fromTimestamp =
+        Math.floor(Date.now() / 1000 / CHART_PERIODS["1h"]) * CHART_PERIODS["1h"] -
+        MARKET_RATES_HISTORY_DAYS * CHART_PERIODS["1d"];
+
+      const { data } = await client!.query({
+        query,
+        variables: { marketAddress: marketAddress!.toLowerCase(), fromTimestamp },
+        fetchPolicy: "no-cache",
+      });
+
+      return data.marketInfoSnapshots.map(
+        (raw: RawMarketRatesSnapshot): MarketRatesSnapshot => ({
+          timestamp: Number(raw.timestamp),
+          fundingFactorPerSecond: BigInt(raw.fundingFactorPerSecond),
+          longsPayShorts: raw.longsPayShorts,
+          longInterestUsd: BigInt(raw.longInterestUsd),
+          shortInterestUsd: BigInt(raw.shortInterestUsd),
+          borrowingFactorPerSecondForLongs: BigInt(raw.borrowingFactorPerSecondForLongs),
+          borrowingFactorPerSecondForShorts: BigInt(raw.borrowingFactorPerSecondForShorts),
+        })
+      );
+    },
+    { refreshInterval: CONFIG_UPDATE_INTERVAL }
+  );
+
+  const data = useMemo(
+    () =>
+      snapshots ? aggregateMarketRatesHistory(snapshots, aggregation) : (EMPTY_ARRAY as MarketRatesHistoryPoint[]),
+    [aggregation, snapshots]
+  );
+
+  return { data, isLoading: Boolean(key) && !snapshots && !error, error };
+}
@@ -0,0 +1,56 @@
+import { factor, mockSnapshotFactory, usd } from "domain/synthetics/testUtils/helpers";
+import { CHART_PERIODS } from "lib/legacy";
+import { describe, expect, it } from "vitest";
+import type { MarketRatesSnapshot } from "./types";
+import { aggregateMarketRatesHistory, getMarketRatesHistoryPoint } from "./utils";
+
+const mockSnapshot = mockSnapshotFactory<MarketRatesSnapshot>({
+  fundingFactorPerSecond: factor(2),
+  longsPayShorts: true,
+  longInterestUsd: usd(2000),
+  shortInterestUsd: usd(1000),
+  borrowingFactorPerSecondForLongs: factor(1),
+  borrowingFactorPerSecondForShorts: 0n,
+});
+
+describe("getMarketRatesHistoryPoint", () => {
+  it("returns yearly rates paid by the larger side and received by the smaller side", () => {
+    const point = getMarketRatesHistoryPoint(mockSnapshot({ timestamp: 0 }));
+    const year = BigInt(CHART_PERIODS["1y"]);
+
+    expect(point.fundingAprLong).toBe(-factor(2) * year);
+    expect(point.fundingAprShort).toBe(factor(4) * year);
+    expect(point.borrowingAprLong).toBe(-factor(1) * year);
+    expect(point.borrowingAprShort).toBe(0n);
+    expect(point.netAprLong).toBe(-factor(3) * year);
+    expect(point.netAprShort).toBe(factor(4) * year);
+  });
+});
+
+describe("aggregateMarketRatesHistory", () => {
+  const hour = CHART_PERIODS["1h"];
+  const snapshots = [
+    mockSnapshot({ timestamp: 9 * hour, borrowingFactorPerSecondForLongs: factor(3) }),
+    mockSnapshot({ timestamp: 0 }),
+    mockSnapshot({ timestamp: hour, borrowingFactorPerSecondForLongs: factor(3) }),
+    mockSnapshot({ timestamp: 8 * hour }),
+  ];
+
+  it("keeps hourly snapshots apart", () => {
+    expect(aggregateMarketRatesHistory(snapshots, "1h").map((point) => point.timestamp)).toEqual([
+      0,
+      hour,
+      8 * hour,
+      9 * hour,
+    ]);
+  });
+
+  it("averages the rates within each period", () => {
+    const points = aggregateMarketRatesHistory(snapshots, "8h");
+    const year = BigInt(CHART_PERIODS["1y"]);
+
+    expect(points.map((point) => point.timestamp)).toEqual([0, 8 * hour]);
+    expect(points.map((point) => point.borrowingAprLong)).toEqual([-factor(2) * year, -factor(2) * year]);
+    expect(aggregateMarketRatesHistory(snapshots, "1d")).toHaveLength(1);
+  });
+});
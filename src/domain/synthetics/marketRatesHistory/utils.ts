@@ -0,0 +1,68 @@
+import { CHART_PERIODS } from "lib/legacy";
+import { getBorrowingFactorPerPeriod, getFundingFactorPerPeriod } from "../fees";
+import type { MarketRatesAggregation, MarketRatesHistoryPoint, MarketRatesSnapshot } from "./types";
+
+export const MARKET_RATES_AGGREGATION_SECONDS: Record<MarketRatesAggregation, number> = {
+  "1h": CHART_PERIODS["1h"],
+  "8h": CHART_PERIODS["1h"] * 8,
+  "1d": CHART_PERIODS["1d"],
+};
+
+const APR_FIELDS = [
+  "fundingAprLong",
+  "fundingAprShort",
+  "borrowingAprLong",
+  "borrowingAprShort",
+  "netAprLong",
+  "netAprShort",
+] as const;
+
+export function getMarketRatesHistoryPoint(snapshot: MarketRatesSnapshot): MarketRatesHistoryPoint {
+  const fundingAprLong = getFundingFactorPerPeriod(snapshot, true, CHART_PERIODS["1y"]);
+  const fundingAprShort = getFundingFactorPerPeriod(snapshot, false, CHART_PERIODS["1y"]);
+  const borrowingAprLong = -getBorrowingFactorPerPeriod(snapshot, true, CHART_PERIODS["1y"]);
+  const borrowingAprShort = -getBorrowingFactorPerPeriod(snapshot, false, CHART_PERIODS["1y"]);
+
+  return {
+    timestamp: snapshot.timestamp,
+    fundingAprLong,
+    fundingAprShort,
+    borrowingAprLong,
+    borrowingAprShort,
+    netAprLong: fundingAprLong + borrowingAprLong,
+    netAprShort: fundingAprShort + borrowingAprShort,
+  };
+}
+
+/**
+ * Averages the rates of the snapshots within each aggregation period,
+ * points are timestamped with the start of their period
+ */
+export function aggregateMarketRatesHistory(
+  snapshots: MarketRatesSnapshot[],
+  aggregation: MarketRatesAggregation
+): MarketRatesHistoryPoint[] {
+  const periodSeconds = MARKET_RATES_AGGREGATION_SECONDS[aggregation];
+  const buckets = new Map<number, MarketRatesHistoryPoint[]>();
+
+  for (const snapshot of snapshots) {
+    const bucketTimestamp = Math.floor(snapshot.timestamp / periodSeconds) * periodSeconds;
+    const bucket = buckets.get(bucketTimestamp) ?? [];
+
+    bucket.push(getMarketRatesHistoryPoint(snapshot));
+    buckets.set(bucketTimestamp, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, points]) => {
+      const count = BigInt(points.length);
+      const result = { timestamp } as MarketRatesHistoryPoint;
+
+      for (const field of APR_FIELDS) {
+        result[field] = points.reduce((acc, point) => acc + point[field], 0n) / count;
+      }
+
+      return result;
+    });
+}
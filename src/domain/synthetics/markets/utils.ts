@@ -126,7 +126,10 @@ export function getMaxOpenInterestUsd(marketInfo: MarketInfo, isLong: boolean) {
   return isLong ? marketInfo.maxOpenInterestLong : marketInfo.maxOpenInterestShort;
 }
 
-export function getOpenInterestUsd(marketInfo: MarketInfo, isLong: boolean) {
+export function getOpenInterestUsd(
+  marketInfo: Pick<MarketInfo, "longInterestUsd" | "shortInterestUsd">,
+  isLong: boolean
+) {
   return isLong ? marketInfo.longInterestUsd : marketInfo.shortInterestUsd;
 }
 
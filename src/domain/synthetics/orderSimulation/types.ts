@@ -0,0 +1,62 @@
+export type SimulatedPositionUpdate = {
+  isIncrease: boolean;
+  marketAddress: string;
+  collateralTokenAddress: string;
+  isLong: boolean;
+  sizeInUsd: bigint;
+  sizeInTokens: bigint;
+  collateralAmount: bigint;
+  executionPrice: bigint;
+};
+
+export type SimulatedPositionFees = {
+  marketAddress: string;
+  collateralTokenAddress: string;
+  /**
+   * Position, borrowing, funding and ui fees in collateral tokens
+   */
+  totalCostAmount: bigint;
+  collateralTokenPrice: bigint;
+};
+
+export type SimulatedSwap = {
+  marketAddress: string;
+  tokenInAddress: string;
+  tokenOutAddress: string;
+  amountIn: bigint;
+  amountOut: bigint;
+};
+
+export type OrderSimulationEvents = {
+  positionUpdates: SimulatedPositionUpdate[];
+  positionFees: SimulatedPositionFees[];
+  swaps: SimulatedSwap[];
+};
+
+export type OrderSimulationResult = {
+  isSuccess: boolean;
+  errorMessage?: string;
+  /**
+   * Undefined when the rpc doesn't support execution traces
+   */
+  events: OrderSimulationEvents | undefined;
+  tenderlyUrl?: string;
+};
+
+export type PositionSimulationState = {
+  sizeInUsd: bigint;
+  collateralUsd: bigint;
+  leverage: bigint | undefined;
+  liquidationPrice: bigint | undefined;
+};
+
+export type PositionSimulationDiff = {
+  before: PositionSimulationState | undefined;
+  /**
+   * Undefined when the order closes the position
+   */
+  after: PositionSimulationState | undefined;
+  executionPrice: bigint | undefined;
+  feesUsd: bigint;
+  swaps: SimulatedSwap[];
+};
@@ -0,0 +1,50 @@
+import { getContract } from "config/contracts";
+import type { SimulationTrace } from "domain/synthetics/orders/simulateExecuteTxn";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OrderSimulationResult } from "./types";
+import { decodeSimulationEvents } from "./utils";
+
+/**
+ * @param inputsKey - the result is dropped whenever the order inputs change
+ */
+export function useOrderSimulation(chainId: number, inputsKey: string) {
+  const [result, setResult] = useState<OrderSimulationResult>();
+  const [isSimulating, setIsSimulating] = useState(false);
+  const inputsKeyRef = useRef(inputsKey);
+
+  useEffect(() => {
+    inputsKeyRef.current = inputsKey;
+    setResult(undefined);
+  }, [inputsKey]);
+
+  const simulate = useCallback(
+    async (runSimulation: () => Promise<SimulationTrace>) => {
+      const simulatedInputsKey = inputsKeyRef.current;
+      let nextResult: OrderSimulationResult;
+
+      setIsSimulating(true);
+
+      try {
+        const trace = await runSimulation();
+
+        nextResult = {
+          isSuccess: trace.isSuccess,
+          errorMessage: trace.errorMessage,
+          events: trace.logs ? decodeSimulationEvents(trace.logs, getContract(chainId, "EventEmitter")) : undefined,
+          tenderlyUrl: trace.tenderlyUrl,
+        };
+      } catch (error) {
+        nextResult = { isSuccess: false, errorMessage: error?.message, events: undefined };
+      }
+
+      setIsSimulating(false);
+
+      if (simulatedInputsKey === inputsKeyRef.current) {
+        setResult(nextResult);
+      }
+    },
+    [chainId]
+  );
+
+  return { result, isSimulating, simulate };
+}
@@ -0,0 +1,192 @@
+import EventEmitter from "abis/EventEmitter.json";
+import type { PositionInfo } from "domain/synthetics/positions";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { mockMarketsInfoData, mockTokensData } from "domain/synthetics/testUtils/mocks";
+import { ethers } from "ethers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import { decodeSimulationEvents, getEstimatedPositionSimulationDiff, getPositionSimulationDiff } from "./utils";
+
+const EVENT_EMITTER = "0x00000000000000000000000000000000000000e1";
+const MARKET = ethers.getAddress("0x0000000000000000000000000000000000000a01");
+const USDC = ethers.getAddress("0x0000000000000000000000000000000000000c01");
+const ETH = ethers.getAddress("0x0000000000000000000000000000000000000e01");
+
+const eventEmitterInterface = new ethers.Interface(EventEmitter.abi);
+const emptySection = { items: [], arrayItems: [] };
+
+function mockLog(
+  eventName: string,
+  items: {
+    address?: { [key: string]: string };
+    uint?: { [key: string]: bigint };
+    bool?: { [key: string]: boolean };
+  },
+  address = EVENT_EMITTER
+) {
+  const toSection = (values: { [key: string]: unknown } = {}) => ({
+    items: Object.entries(values).map(([key, value]) => ({ key, value })),
+    arrayItems: [],
+  });
+
+  const eventData = {
+    addressItems: toSection(items.address),
+    uintItems: toSection(items.uint),
+    intItems: emptySection,
+    boolItems: toSection(items.bool),
+    bytes32Items: emptySection,
+    bytesItems: emptySection,
+    stringItems: emptySection,
+  };
+
+  const { topics, data } = eventEmitterInterface.encodeEventLog("EventLog1", [
+    ethers.ZeroAddress,
+    eventName,
+    eventName,
+    ethers.ZeroHash,
+    eventData,
+  ]);
+
+  return { address, topics, data };
+}
+
+const logs = [
+  mockLog("SwapInfo", {
+    address: { market: MARKET, tokenIn: ETH, tokenOut: USDC },
+    uint: { amountIn: expandDecimals(1, 18), amountOut: expandDecimals(1200, 6) },
+  }),
+  mockLog("PositionFeesCollected", {
+    address: { market: MARKET, collateralToken: USDC },
+    uint: { totalCostAmount: expandDecimals(2, 6), "collateralTokenPrice.min": expandDecimals(1, 24) },
+  }),
+  mockLog("PositionIncrease", {
+    address: { market: MARKET, collateralToken: USDC },
+    uint: {
+      sizeInUsd: usd(6000),
+      sizeInTokens: expandDecimals(5, 18),
+      collateralAmount: expandDecimals(1198, 6),
+      executionPrice: expandDecimals(1200, 12),
+    },
+    bool: { isLong: true },
+  }),
+  mockLog("PositionIncrease", { address: { market: MARKET } }, "0x00000000000000000000000000000000000000ff"),
+];
+
+describe("decodeSimulationEvents", () => {
+  it("decodes position, fees and swap events of the event emitter", () => {
+    const events = decodeSimulationEvents(logs, EVENT_EMITTER);
+
+    expect(events.swaps).toEqual([
+      {
+        marketAddress: MARKET,
+        tokenInAddress: ETH,
+        tokenOutAddress: USDC,
+        amountIn: expandDecimals(1, 18),
+        amountOut: expandDecimals(1200, 6),
+      },
+    ]);
+    expect(events.positionFees).toHaveLength(1);
+    expect(events.positionUpdates).toHaveLength(1);
+    expect(events.positionUpdates[0]).toMatchObject({ isIncrease: true, isLong: true, sizeInUsd: usd(6000) });
+  });
+});
+
+describe("getPositionSimulationDiff", () => {
+  const tokensData = mockTokensData();
+  const marketInfo = {
+    ...mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"])["ETH-ETH-USDC"],
+    marketTokenAddress: MARKET,
+  };
+  const collateralToken = { ...tokensData.USDC, address: USDC };
+
+  it("builds the resulting position from the simulated events", () => {
+    const diff = getPositionSimulationDiff({
+      events: decodeSimulationEvents(logs, EVENT_EMITTER),
+      position: undefined,
+      marketInfo,
+      collateralToken,
+      isLong: true,
+      minCollateralUsd: usd(1),
+      userReferralInfo: undefined,
+    });
+
+    expect(diff.before).toBeUndefined();
+    expect(diff.after?.sizeInUsd).toBe(usd(6000));
+    expect(diff.after?.collateralUsd).toBe(usd(1198));
+    expect(diff.after?.leverage).toBe(50083n);
+    expect(diff.after?.liquidationPrice).toBeDefined();
+    expect(diff.feesUsd).toBe(usd(2));
+    expect(diff.swaps).toHaveLength(1);
+  });
+
+  it("has no resulting position when nothing is executed for it", () => {
+    const diff = getPositionSimulationDiff({
+      events: { positionUpdates: [], positionFees: [], swaps: [] },
+      position: undefined,
+      marketInfo,
+      collateralToken,
+      isLong: false,
+      minCollateralUsd: usd(1),
+      userReferralInfo: undefined,
+    });
+
+    expect(diff.after).toBeUndefined();
+    expect(diff.feesUsd).toBe(0n);
+  });
+});
+
+describe("getEstimatedPositionSimulationDiff", () => {
+  const position = {
+    sizeInUsd: usd(1000),
+    collateralUsd: usd(100),
+    leverage: 100000n,
+    liquidationPrice: usd(900),
+  } as PositionInfo;
+
+  it("takes the resulting position from the order amounts", () => {
+    const diff = getEstimatedPositionSimulationDiff({
+      position,
+      nextPositionValues: {
+        nextSizeUsd: usd(2000),
+        nextCollateralUsd: usd(200),
+        nextLeverage: 100000n,
+        nextLiqPrice: usd(950),
+      },
+      fees: { totalFees: { deltaUsd: -usd(3), bps: 0n } },
+    });
+
+    expect(diff?.before?.sizeInUsd).toBe(usd(1000));
+    expect(diff?.after).toEqual({
+      sizeInUsd: usd(2000),
+      collateralUsd: usd(200),
+      leverage: 100000n,
+      liquidationPrice: usd(950),
+    });
+    expect(diff?.feesUsd).toBe(usd(3));
+    expect(diff?.swaps).toEqual([]);
+  });
+
+  it("keeps the position size for collateral edits and has no resulting position for full closes", () => {
+    const edit = getEstimatedPositionSimulationDiff({
+      position,
+      nextPositionValues: { nextCollateralUsd: usd(150) },
+      fees: undefined,
+    });
+    const close = getEstimatedPositionSimulationDiff({
+      position,
+      nextPositionValues: { nextSizeUsd: 0n, nextCollateralUsd: 0n },
+      fees: undefined,
+    });
+
+    expect(edit?.after?.sizeInUsd).toBe(usd(1000));
+    expect(edit?.after?.collateralUsd).toBe(usd(150));
+    expect(close?.before).toBeDefined();
+    expect(close?.after).toBeUndefined();
+  });
+
+  it("is not available without the order amounts", () => {
+    expect(
+      getEstimatedPositionSimulationDiff({ position: undefined, nextPositionValues: undefined, fees: undefined })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+import EventEmitter from "abis/EventEmitter.json";
+import { parseEventLogData } from "context/WebsocketContext/subscribeToEvents";
+import type { MarketInfo } from "domain/synthetics/markets";
+import type { SimulationLog } from "domain/synthetics/orders/simulateExecuteTxn";
+import { PositionInfo, getLeverage, getLiquidationPrice } from "domain/synthetics/positions";
+import { TokenData, convertToUsd } from "domain/synthetics/tokens";
+import type { NextPositionValues, TradeFees } from "domain/synthetics/trade";
+import type { UserReferralInfo } from "domain/referrals";
+import { ethers } from "ethers";
+import type { OrderSimulationEvents, PositionSimulationDiff, PositionSimulationState } from "./types";
+
+const eventEmitterInterface = new ethers.Interface(EventEmitter.abi);
+
+export function decodeSimulationEvents(logs: SimulationLog[], eventEmitterAddress: string): OrderSimulationEvents {
+  const events: OrderSimulationEvents = { positionUpdates: [], positionFees: [], swaps: [] };
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== eventEmitterAddress.toLowerCase()) {
+      continue;
+    }
+
+    let parsed: ethers.LogDescription | null = null;
+
+    try {
+      parsed = eventEmitterInterface.parseLog(log);
+    } catch (e) {
+      // not an EventLog* event
+    }
+
+    if (!parsed) {
+      continue;
+    }
+
+    const eventName: string = parsed.args.eventName;
+    const { addressItems, uintItems, boolItems } = parseEventLogData(parsed.args.eventData);
+
+    if (eventName === "PositionIncrease" || eventName === "PositionDecrease") {
+      events.positionUpdates.push({
+        isIncrease: eventName === "PositionIncrease",
+        marketAddress: addressItems.items.market,
+        collateralTokenAddress: addressItems.items.collateralToken,
+        isLong: boolItems.items.isLong,
+        sizeInUsd: uintItems.items.sizeInUsd,
+        sizeInTokens: uintItems.items.sizeInTokens,
+        collateralAmount: uintItems.items.collateralAmount,
+        executionPrice: uintItems.items.executionPrice,
+      });
+    } else if (eventName === "PositionFeesCollected") {
+      events.positionFees.push({
+        marketAddress: addressItems.items.market,
+        collateralTokenAddress: addressItems.items.collateralToken,
+        totalCostAmount: uintItems.items.totalCostAmount,
+        collateralTokenPrice: uintItems.items["collateralTokenPrice.min"],
+      });
+    } else if (eventName === "SwapInfo") {
+      events.swaps.push({
+        marketAddress: addressItems.items.market,
+        tokenInAddress: addressItems.items.tokenIn,
+        tokenOutAddress: addressItems.items.tokenOut,
+        amountIn: uintItems.items.amountIn,
+        amountOut: uintItems.items.amountOut,
+      });
+    }
+  }
+
+  return events;
+}
+
+export function getPositionSimulationDiff(p: {
+  events: OrderSimulationEvents;
+  position: PositionInfo | undefined;
+  marketInfo: MarketInfo;
+  collateralToken: TokenData;
+  isLong: boolean;
+  minCollateralUsd: bigint;
+  userReferralInfo: UserReferralInfo | undefined;
+}): PositionSimulationDiff {
+  const { events, position, marketInfo, collateralToken, isLong, minCollateralUsd, userReferralInfo } = p;
+
+  const isSamePosition = (item: { marketAddress: string; collateralTokenAddress: string }) =>
+    item.marketAddress.toLowerCase() === marketInfo.marketTokenAddress.toLowerCase() &&
+    item.collateralTokenAddress.toLowerCase() === collateralToken.address.toLowerCase();
+
+  const update = [...events.positionUpdates]
+    .reverse()
+    .find((update) => isSamePosition(update) && update.isLong === isLong);
+
+  let after: PositionSimulationState | undefined;
+
+  if (update && update.sizeInUsd > 0) {
+    const collateralUsd = convertToUsd(
+      update.collateralAmount,
+      collateralToken.decimals,
+      collateralToken.prices.minPrice
+    )!;
+
+    after = {
+      sizeInUsd: update.sizeInUsd,
+      collateralUsd,
+      // pending fees are settled on execution
+      leverage: getLeverage({
+        sizeInUsd: update.sizeInUsd,
+        collateralUsd,
+        pnl: undefined,
+        pendingBorrowingFeesUsd: 0n,
+        pendingFundingFeesUsd: 0n,
+      }),
+      liquidationPrice: getLiquidationPrice({
+        sizeInUsd: update.sizeInUsd,
+        sizeInTokens: update.sizeInTokens,
+        collateralAmount: update.collateralAmount,
+        collateralUsd,
+        collateralToken,
+        marketInfo,
+        pendingFundingFeesUsd: 0n,
+        pendingBorrowingFeesUsd: 0n,
+        minCollateralUsd,
+        isLong,
+        userReferralInfo,
+      }),
+    };
+  }
+
+  const feesUsd = events.positionFees
+    .filter(isSamePosition)
+    .reduce((acc, fees) => acc + fees.totalCostAmount * fees.collateralTokenPrice, 0n);
+
+  return {
+    before: getPositionSimulationState(position),
+    after,
+    executionPrice: update?.executionPrice,
+    feesUsd,
+    swaps: events.swaps,
+  };
+}
+
+/**
+ * Fallback for rpcs without execution traces, the resulting position is taken from the order amounts
+ * the same way the trade box shows it
+ */
+export function getEstimatedPositionSimulationDiff(p: {
+  position: PositionInfo | undefined;
+  nextPositionValues: NextPositionValues | undefined;
+  fees: TradeFees | undefined;
+}): PositionSimulationDiff | undefined {
+  const { position, nextPositionValues, fees } = p;
+
+  const sizeInUsd = nextPositionValues?.nextSizeUsd ?? position?.sizeInUsd;
+  const collateralUsd = nextPositionValues?.nextCollateralUsd;
+
+  if (sizeInUsd === undefined || collateralUsd === undefined) {
+    return undefined;
+  }
+
+  return {
+    before: getPositionSimulationState(position),
+    after:
+      sizeInUsd > 0
+        ? {
+            sizeInUsd,
+            collateralUsd,
+            leverage: nextPositionValues?.nextLeverage,
+            liquidationPrice: nextPositionValues?.nextLiqPrice,
+          }
+        : undefined,
+    executionPrice: undefined,
+    feesUsd: fees?.totalFees ? -fees.totalFees.deltaUsd : 0n,
+    swaps: [],
+  };
+}
+
+function getPositionSimulationState(position: PositionInfo | undefined): PositionSimulationState | undefined {
+  if (!position) {
+    return undefined;
+  }
+
+  return {
+    sizeInUsd: position.sizeInUsd,
+    collateralUsd: position.collateralUsd,
+    leverage: position.leverage,
+    liquidationPrice: position.liquidationPrice,
+  };
+}
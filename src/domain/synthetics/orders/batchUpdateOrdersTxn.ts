@@ -0,0 +1,112 @@
+import { plural, t } from "@lingui/macro";
+import { Signer, ethers } from "ethers";
+
+import ExchangeRouter from "abis/ExchangeRouter.json";
+import { getContract } from "config/contracts";
+import { Subaccount } from "context/SubaccountContext/SubaccountContext";
+import type { BatchOrderRecreation, BatchOrderUpdate } from "domain/synthetics/batchOrders/types";
+import { getSubaccountRouterContract } from "domain/synthetics/subaccount/getSubaccountContract";
+import { getSubaccountForOrders, getSubaccountOrderScope } from "domain/synthetics/subaccount/utils";
+import { TokensData } from "domain/synthetics/tokens";
+import { callContract } from "lib/contracts";
+
+import { createCancelEncodedPayload } from "./cancelOrdersTxn";
+import { createDecreaseEncodedPayload } from "./createDecreaseOrderTxn";
+import { DecreasePositionSwapType, OrderInfo, OrderType } from "./types";
+import { createUpdateEncodedPayload } from "./updateOrderTxn";
+
+export type BatchUpdateOrdersParams = {
+  account: string;
+  cancelOrders: OrderInfo[];
+  updates: BatchOrderUpdate[];
+  /**
+   * Recreated orders are cancelled in the same transaction
+   */
+  recreations: BatchOrderRecreation[];
+  /**
+   * Execution fee of each recreated order
+   */
+  recreationExecutionFee: bigint;
+  tokensData: TokensData;
+  setPendingTxns: (txns: any) => void;
+};
+
+export async function batchUpdateOrdersTxn(
+  chainId: number,
+  signer: Signer,
+  subaccount: Subaccount,
+  p: BatchUpdateOrdersParams
+) {
+  subaccount = getSubaccountForOrders(subaccount, [
+    ...p.cancelOrders.map(getSubaccountOrderScope),
+    ...p.updates.map(({ order }) => getSubaccountOrderScope(order)),
+    ...p.recreations.map(({ order }) => getSubaccountOrderScope(order)),
+  ]);
+
+  const router = subaccount
+    ? getSubaccountRouterContract(chainId, subaccount.signer)
+    : new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
+
+  const cancelOrderKeys = [...p.cancelOrders, ...p.recreations.map(({ order }) => order)].map((order) => order.key);
+
+  const multicall = [
+    ...createCancelEncodedPayload({ router, orderKeys: cancelOrderKeys }),
+    ...p.updates.flatMap(({ order, nextTriggerPrice, nextAcceptablePrice }) =>
+      createUpdateEncodedPayload({
+        chainId,
+        router,
+        orderKey: order.key,
+        sizeDeltaUsd: order.sizeDeltaUsd,
+        indexToken: order.indexToken,
+        acceptablePrice: nextAcceptablePrice,
+        triggerPrice: nextTriggerPrice,
+        minOutputAmount: order.minOutputAmount,
+      })
+    ),
+    ...createDecreaseEncodedPayload({
+      router,
+      orderVaultAddress: getContract(chainId, "OrderVault"),
+      ps: p.recreations.map(({ order, nextCollateralTokenAddress, nextInitialCollateralDeltaAmount }) => ({
+        account: p.account,
+        marketAddress: order.marketAddress,
+        initialCollateralAddress: nextCollateralTokenAddress,
+        initialCollateralDeltaAmount: nextInitialCollateralDeltaAmount,
+        swapPath: [],
+        receiveTokenAddress: nextCollateralTokenAddress,
+        sizeDeltaUsd: order.sizeDeltaUsd,
+        sizeDeltaInTokens: 0n,
+        acceptablePrice: order.acceptablePrice,
+        triggerPrice: order.triggerPrice,
+        minOutputUsd: 0n,
+        isLong: order.isLong,
+        decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
+        orderType: order.orderType as OrderType.LimitDecrease | OrderType.StopLossDecrease,
+        executionFee: p.recreationExecutionFee,
+        allowedSlippage: 0,
+        indexToken: order.indexToken,
+        tokensData: p.tokensData,
+      })),
+      subaccount,
+      mainAccountAddress: p.account,
+      chainId,
+    }),
+  ];
+
+  const value = p.recreationExecutionFee * BigInt(p.recreations.length);
+  const count = new Set([...cancelOrderKeys, ...p.updates.map(({ order }) => order.key)]).size;
+
+  const ordersText = plural(count, {
+    one: "Order",
+    other: "# Orders",
+  });
+
+  return callContract(chainId, router, "multicall", [multicall], {
+    value: value > 0 ? value : undefined,
+    sentMsg: t`Updating ${ordersText}`,
+    successMsg: t`${ordersText} updated`,
+    failMsg: t`Failed to update ${ordersText}`,
+    setPendingTxns: p.setPendingTxns,
+    customSigners: subaccount?.customSigners,
+    showPreliminaryMsg: Boolean(subaccount),
+  });
+}
@@ -5,15 +5,23 @@ import { Subaccount } from "context/SubaccountContext/SubaccountContext";
 import { Signer, ethers } from "ethers";
 import { callContract } from "lib/contracts";
 import { getSubaccountRouterContract } from "../subaccount/getSubaccountContract";
+import { getSubaccountForOrderKeys } from "../subaccount/utils";
+import type { OrdersInfoData } from "./types";
 import { ReactNode } from "react";
 
 export type CancelOrderParams = {
   orderKeys: string[];
+  /**
+   * Used to check the cancelled orders against the subaccount permissions
+   */
+  ordersInfoData: OrdersInfoData | undefined;
   setPendingTxns: (txns: any) => void;
   detailsMsg?: ReactNode;
 };
 
 export async function cancelOrdersTxn(chainId: number, signer: Signer, subaccount: Subaccount, p: CancelOrderParams) {
+  subaccount = getSubaccountForOrderKeys(subaccount, p.orderKeys, p.ordersInfoData);
+
   const router = subaccount
     ? getSubaccountRouterContract(chainId, subaccount.signer)
     : new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
@@ -8,12 +8,14 @@ import { Signer, ethers } from "ethers";
 import { callContract } from "lib/contracts";
 import { getPositionKey } from "../positions";
 import { applySlippageToMinOut, applySlippageToPrice } from "../trade";
-import { PriceOverrides, simulateExecuteTxn } from "./simulateExecuteTxn";
+import { createCancelEncodedPayload } from "./cancelOrdersTxn";
+import { PriceOverrides, SimulationTrace, simulateExecuteTxn, traceSimulateExecuteTxn } from "./simulateExecuteTxn";
 import { DecreasePositionSwapType, OrderType } from "./types";
 import { isMarketOrderType, getPendingOrderFromParams } from "./utils";
 import { t } from "@lingui/macro";
 import { Subaccount } from "context/SubaccountContext/SubaccountContext";
 import { getSubaccountRouterContract } from "../subaccount/getSubaccountContract";
+import { getSubaccountForOrders } from "../subaccount/utils";
 import { UI_FEE_RECEIVER_ACCOUNT } from "config/ui";
 
 const { ZeroAddress } = ethers;
@@ -54,23 +56,31 @@ export async function createDecreaseOrderTxn(
   subaccount: Subaccount,
   params: DecreaseOrderParams | DecreaseOrderParams[],
   callbacks: DecreaseOrderCallbacks,
-  metricId?: string
+  metricId?: string,
+  cancelOrderKeys: string[] = []
 ) {
   const ps = Array.isArray(params) ? params : [params];
+  subaccount = getSubaccountForOrders(
+    subaccount,
+    ps.map((p) => ({ marketAddresses: [p.marketAddress], orderType: p.orderType }))
+  );
   const exchangeRouter = new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
   const router = subaccount ? getSubaccountRouterContract(chainId, subaccount.signer) : exchangeRouter;
 
   const orderVaultAddress = getContract(chainId, "OrderVault");
   const totalWntAmount = ps.reduce((acc, p) => acc + p.executionFee, 0n);
   const account = ps[0].account;
-  const encodedPayload = createDecreaseEncodedPayload({
-    router,
-    orderVaultAddress,
-    ps,
-    subaccount,
-    mainAccountAddress: account,
-    chainId,
-  });
+  const encodedPayload = [
+    ...createCancelEncodedPayload({ router, orderKeys: cancelOrderKeys }),
+    ...createDecreaseEncodedPayload({
+      router,
+      orderVaultAddress,
+      ps,
+      subaccount,
+      mainAccountAddress: account,
+      chainId,
+    }),
+  ];
   const simulationEncodedPayload = createDecreaseEncodedPayload({
     router: exchangeRouter,
     orderVaultAddress,
@@ -140,7 +150,44 @@ export async function createDecreaseOrderTxn(
   }
 }
 
-function getPendingPositionFromParams(txnCreatedAt: number, txnCreatedAtBlock: number, p: DecreaseOrderParams) {
+/**
+ * Runs the order against `simulateExecuteOrder` without sending it, the result is used for the pre-trade preview
+ */
+export async function simulateDecreaseOrderTxn(
+  chainId: number,
+  signer: Signer,
+  p: DecreaseOrderParams
+): Promise<SimulationTrace> {
+  const exchangeRouter = new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
+
+  const createMulticallPayload = createDecreaseEncodedPayload({
+    router: exchangeRouter,
+    orderVaultAddress: getContract(chainId, "OrderVault"),
+    ps: [p],
+    subaccount: null,
+    mainAccountAddress: p.account,
+    chainId,
+  });
+
+  const primaryPriceOverrides: PriceOverrides = {};
+
+  if (p.triggerPrice != undefined) {
+    primaryPriceOverrides[p.indexToken.address] = {
+      minPrice: p.triggerPrice,
+      maxPrice: p.triggerPrice,
+    };
+  }
+
+  return traceSimulateExecuteTxn(chainId, {
+    account: p.account,
+    tokensData: p.tokensData,
+    primaryPriceOverrides,
+    createMulticallPayload,
+    value: p.executionFee,
+  });
+}
+
+export function getPendingPositionFromParams(txnCreatedAt: number, txnCreatedAtBlock: number, p: DecreaseOrderParams) {
   const positionKey = getPositionKey(p.account, p.marketAddress, p.initialCollateralAddress, p.isLong);
   return {
     isIncrease: false,
@@ -0,0 +1,97 @@
+import { t } from "@lingui/macro";
+import { Signer, ethers } from "ethers";
+
+import ExchangeRouter from "abis/ExchangeRouter.json";
+import { getContract } from "config/contracts";
+import { convertTokenAddress } from "config/tokens";
+import { Subaccount } from "context/SubaccountContext/SubaccountContext";
+import type { PendingOrderData, SetPendingOrder, SetPendingPosition } from "context/SyntheticsEvents";
+import { callContract } from "lib/contracts";
+
+import { getPositionKey } from "../positions";
+import { getSubaccountRouterContract } from "../subaccount/getSubaccountContract";
+import { getSubaccountForOrders } from "../subaccount/utils";
+import { IncreaseOrderPayloadParams, createIncreaseEncodedPayload } from "./createIncreaseOrderTxn";
+
+export type GmHedgeOrdersParams = {
+  /**
+   * Market increase orders in different markets, all paid with the same collateral token
+   */
+  orders: IncreaseOrderPayloadParams[];
+  setPendingTxns: (txns: any) => void;
+  setPendingOrder: SetPendingOrder;
+  setPendingPosition: SetPendingPosition;
+};
+
+export async function createGmHedgeOrdersTxn(
+  chainId: number,
+  signer: Signer,
+  subaccount: Subaccount,
+  p: GmHedgeOrdersParams
+) {
+  const { orders } = p;
+
+  subaccount = getSubaccountForOrders(
+    subaccount,
+    orders.map((order) => ({ marketAddresses: [order.marketAddress], orderType: order.orderType }))
+  );
+
+  const router = subaccount
+    ? getSubaccountRouterContract(chainId, subaccount.signer)
+    : new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
+  const initialCollateralTokenAddress = convertTokenAddress(chainId, orders[0].initialCollateralAddress, "wrapped");
+
+  const multicall = await createIncreaseEncodedPayload({
+    router,
+    orderVaultAddress: getContract(chainId, "OrderVault"),
+    legs: orders,
+    subaccount,
+    isNativePayment: false,
+    initialCollateralTokenAddress,
+    signer,
+  });
+
+  if (!signer.provider) throw new Error("No provider found");
+  const txnCreatedAt = Date.now();
+
+  await callContract(chainId, router, "multicall", [multicall], {
+    value: orders.reduce((acc, order) => acc + order.executionFee, 0n),
+    sentMsg: t`Hedge orders submitted`,
+    successMsg: t`Hedge orders requested`,
+    failMsg: t`Failed to submit hedge orders`,
+    customSigners: subaccount?.customSigners,
+    setPendingTxns: p.setPendingTxns,
+  });
+
+  const txnCreatedAtBlock = await signer.provider.getBlockNumber();
+
+  p.setPendingOrder(
+    orders.map(
+      (order): PendingOrderData => ({
+        account: order.account,
+        marketAddress: order.marketAddress,
+        initialCollateralTokenAddress,
+        initialCollateralDeltaAmount: order.initialCollateralAmount,
+        swapPath: order.swapPath,
+        sizeDeltaUsd: order.sizeDeltaUsd,
+        minOutputAmount: 0n,
+        isLong: order.isLong,
+        orderType: order.orderType,
+        shouldUnwrapNativeToken: false,
+        txnType: "create",
+      })
+    )
+  );
+
+  for (const order of orders) {
+    p.setPendingPosition({
+      isIncrease: true,
+      positionKey: getPositionKey(order.account, order.marketAddress, order.targetCollateralAddress, order.isLong),
+      collateralDeltaAmount: order.collateralDeltaAmount,
+      sizeDeltaUsd: order.sizeDeltaUsd,
+      sizeDeltaInTokens: order.sizeDeltaInTokens,
+      updatedAt: txnCreatedAt,
+      updatedAtBlock: BigInt(txnCreatedAtBlock),
+    });
+  }
+}
@@ -5,7 +5,7 @@ import { SetPendingOrder, SetPendingPosition, PendingOrderData } from "context/S
 import { TokenData, TokensData, convertToContractPrice } from "domain/synthetics/tokens";
 import { Signer, ethers } from "ethers";
 import { callContract } from "lib/contracts";
-import { PriceOverrides, simulateExecuteTxn } from "./simulateExecuteTxn";
+import { PriceOverrides, SimulationTrace, simulateExecuteTxn, traceSimulateExecuteTxn } from "./simulateExecuteTxn";
 import { DecreasePositionSwapType, OrderType, OrderTxnType } from "./types";
 import { isMarketOrderType, getPendingOrderFromParams } from "./utils";
 import { getPositionKey } from "../positions";
@@ -13,6 +13,7 @@ import { applySlippageToPrice } from "../trade";
 import { UI_FEE_RECEIVER_ACCOUNT } from "config/ui";
 import { t } from "@lingui/macro";
 import { getSubaccountRouterContract } from "../subaccount/getSubaccountContract";
+import { getSubaccountForOrders } from "../subaccount/utils";
 import { Subaccount } from "context/SubaccountContext/SubaccountContext";
 import { DecreaseOrderParams as BaseDecreaseOrderParams, createDecreaseEncodedPayload } from "./createDecreaseOrderTxn";
 import { createCancelEncodedPayload } from "./cancelOrdersTxn";
@@ -21,7 +22,7 @@ import concat from "lodash/concat";
 
 const { ZeroAddress } = ethers;
 
-type IncreaseOrderParams = {
+export type IncreaseOrderParams = {
   account: string;
   marketAddress: string;
   initialCollateralAddress: string;
@@ -44,6 +45,27 @@ type IncreaseOrderParams = {
   setPendingTxns: (txns: any) => void;
   setPendingOrder: SetPendingOrder;
   setPendingPosition: SetPendingPosition;
+  /**
+   * When set, the order is placed as a ladder of orders sent in one multicall,
+   * `initialCollateralAmount`, `sizeDeltaUsd`, `triggerPrice`, `acceptablePrice` and `executionFee` are then taken from the legs.
+   */
+  scaledLegs?: IncreaseOrderScaledLeg[];
+};
+
+/**
+ * Order fields encoded into the multicall, without the callbacks
+ */
+export type IncreaseOrderPayloadParams = Omit<
+  IncreaseOrderParams,
+  "setPendingTxns" | "setPendingOrder" | "setPendingPosition"
+>;
+
+export type IncreaseOrderScaledLeg = {
+  initialCollateralAmount: bigint;
+  sizeDeltaUsd: bigint;
+  triggerPrice: bigint;
+  acceptablePrice: bigint;
+  executionFee: bigint;
 };
 
 type SecondaryOrderCommonParams = {
@@ -98,43 +120,47 @@ export async function createIncreaseOrderTxn({
 }) {
   const isNativePayment = p.initialCollateralAddress === NATIVE_TOKEN_ADDRESS;
   subaccount = isNativePayment ? null : subaccount;
+  subaccount = getSubaccountForOrders(subaccount, [
+    { marketAddresses: [p.marketAddress], orderType: p.orderType },
+    ...(createDecreaseOrderParams ?? []).map((decrease) => ({
+      marketAddresses: [decrease.marketAddress],
+      orderType: decrease.orderType,
+    })),
+  ]);
 
   const exchangeRouter = new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
   const router = subaccount ? getSubaccountRouterContract(chainId, subaccount.signer) : exchangeRouter;
   const orderVaultAddress = getContract(chainId, "OrderVault");
-  const wntCollateralAmount = isNativePayment ? p.initialCollateralAmount : 0n;
   const initialCollateralTokenAddress = convertTokenAddress(chainId, p.initialCollateralAddress, "wrapped");
-  const shouldApplySlippage = isMarketOrderType(p.orderType);
-  const acceptablePrice = shouldApplySlippage
-    ? applySlippageToPrice(p.allowedSlippage, p.acceptablePrice, true, p.isLong)
-    : p.acceptablePrice;
+  const legs = getOrderLegs(p);
 
-  const wntAmountToIncrease = wntCollateralAmount + p.executionFee;
+  const wntAmountToIncrease = legs.reduce(
+    (acc, leg) => acc + (isNativePayment ? leg.initialCollateralAmount : 0n) + leg.executionFee,
+    0n
+  );
   const totalWntAmount = concat<undefined | SecondaryDecreaseOrderParams | SecondaryUpdateOrderParams>(
     createDecreaseOrderParams,
     updateOrderParams
   ).reduce((acc, p) => (p ? acc + p.executionFee : acc), wntAmountToIncrease);
 
-  const increaseOrder: PendingOrderData = {
+  const increaseOrders: PendingOrderData[] = legs.map((leg) => ({
     account: p.account,
     marketAddress: p.marketAddress,
     initialCollateralTokenAddress,
-    initialCollateralDeltaAmount: p.initialCollateralAmount,
+    initialCollateralDeltaAmount: leg.initialCollateralAmount,
     swapPath: p.swapPath,
-    sizeDeltaUsd: p.sizeDeltaUsd,
+    sizeDeltaUsd: leg.sizeDeltaUsd,
     minOutputAmount: 0n,
     isLong: p.isLong,
     orderType: p.orderType,
     shouldUnwrapNativeToken: isNativePayment,
     txnType: "create",
-  };
+  }));
 
-  const encodedPayload = await createEncodedPayload({
+  const encodedPayload = await createIncreaseEncodedPayload({
     router,
     orderVaultAddress,
-    totalWntAmount: wntAmountToIncrease,
-    p,
-    acceptablePrice,
+    legs,
     subaccount,
     isNativePayment,
     initialCollateralTokenAddress,
@@ -149,15 +175,13 @@ export async function createIncreaseOrderTxn({
     ).map((p) => getPendingOrderFromParams(chainId, p.txnType, p)) || [];
 
   if (subaccount) {
-    p.setPendingOrder([increaseOrder, ...orders]);
+    p.setPendingOrder([...increaseOrders, ...orders]);
   }
 
-  const simulationEncodedPayload = await createEncodedPayload({
+  const simulationEncodedPayload = await createIncreaseEncodedPayload({
     router: exchangeRouter,
     orderVaultAddress,
-    totalWntAmount: wntAmountToIncrease,
-    p,
-    acceptablePrice,
+    legs,
     subaccount: null,
     isNativePayment,
     initialCollateralTokenAddress,
@@ -232,7 +256,7 @@ export async function createIncreaseOrderTxn({
   });
 
   if (!subaccount) {
-    p.setPendingOrder([increaseOrder, ...orders]);
+    p.setPendingOrder([...increaseOrders, ...orders]);
   }
 
   if (isMarketOrderType(p.orderType)) {
@@ -252,12 +276,58 @@ export async function createIncreaseOrderTxn({
   }
 }
 
-async function createEncodedPayload({
+/**
+ * Runs the order against `simulateExecuteOrder` without sending it, the result is used for the pre-trade preview
+ */
+export async function simulateIncreaseOrderTxn(
+  chainId: number,
+  signer: Signer,
+  p: IncreaseOrderParams
+): Promise<SimulationTrace> {
+  const isNativePayment = p.initialCollateralAddress === NATIVE_TOKEN_ADDRESS;
+  const exchangeRouter = new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
+  const legs = getOrderLegs(p);
+
+  const createMulticallPayload = await createIncreaseEncodedPayload({
+    router: exchangeRouter,
+    orderVaultAddress: getContract(chainId, "OrderVault"),
+    legs,
+    subaccount: null,
+    isNativePayment,
+    initialCollateralTokenAddress: convertTokenAddress(chainId, p.initialCollateralAddress, "wrapped"),
+    signer,
+  });
+
+  const primaryPriceOverrides: PriceOverrides = {};
+
+  if (p.triggerPrice != undefined) {
+    primaryPriceOverrides[p.indexToken.address] = {
+      minPrice: p.triggerPrice,
+      maxPrice: p.triggerPrice,
+    };
+  }
+
+  return traceSimulateExecuteTxn(chainId, {
+    account: p.account,
+    tokensData: p.tokensData,
+    primaryPriceOverrides,
+    createMulticallPayload,
+    value: legs.reduce((acc, leg) => acc + (isNativePayment ? leg.initialCollateralAmount : 0n) + leg.executionFee, 0n),
+  });
+}
+
+function getOrderLegs(p: IncreaseOrderParams): IncreaseOrderParams[] {
+  if (p.scaledLegs?.length) {
+    return p.scaledLegs.map((leg) => ({ ...p, ...leg }));
+  }
+
+  return [p];
+}
+
+export async function createIncreaseEncodedPayload({
   router,
   orderVaultAddress,
-  totalWntAmount,
-  p,
-  acceptablePrice,
+  legs,
   subaccount,
   isNativePayment,
   initialCollateralTokenAddress,
@@ -265,33 +335,43 @@ async function createEncodedPayload({
 }: {
   router: ethers.Contract;
   orderVaultAddress: string;
-  totalWntAmount: bigint;
-  p: IncreaseOrderParams;
-  acceptablePrice: bigint;
+  legs: IncreaseOrderPayloadParams[];
   subaccount: Subaccount;
   isNativePayment: boolean;
   initialCollateralTokenAddress: string;
   signer: Signer;
 }) {
-  const orderParams = createOrderParams({
-    p,
-    acceptablePrice,
-    initialCollateralTokenAddress,
-    subaccount,
-    isNativePayment,
-  });
-  const multicall = [
-    { method: "sendWnt", params: [orderVaultAddress, totalWntAmount] },
+  const multicall: ({ method: string; params: any[] } | undefined)[] = [];
 
-    !isNativePayment && !subaccount
-      ? { method: "sendTokens", params: [p.initialCollateralAddress, orderVaultAddress, p.initialCollateralAmount] }
-      : undefined,
+  for (const p of legs) {
+    const wntAmount = (isNativePayment ? p.initialCollateralAmount : 0n) + p.executionFee;
+    const acceptablePrice = isMarketOrderType(p.orderType)
+      ? applySlippageToPrice(p.allowedSlippage, p.acceptablePrice, true, p.isLong)
+      : p.acceptablePrice;
+
+    const orderParams = createOrderParams({
+      p,
+      acceptablePrice,
+      initialCollateralTokenAddress,
+      subaccount,
+      isNativePayment,
+    });
+
+    // every order is created from the current order vault balance, so the funds are sent right before it
+    multicall.push(
+      { method: "sendWnt", params: [orderVaultAddress, wntAmount] },
+
+      !isNativePayment && !subaccount
+        ? { method: "sendTokens", params: [p.initialCollateralAddress, orderVaultAddress, p.initialCollateralAmount] }
+        : undefined,
+
+      {
+        method: "createOrder",
+        params: subaccount ? [await signer.getAddress(), orderParams] : [orderParams],
+      }
+    );
+  }
 
-    {
-      method: "createOrder",
-      params: subaccount ? [await signer.getAddress(), orderParams] : [orderParams],
-    },
-  ];
   return multicall.filter(Boolean).map((call) => router.interface.encodeFunctionData(call!.method, call!.params));
 }
 
@@ -302,7 +382,7 @@ function createOrderParams({
   subaccount,
   isNativePayment,
 }: {
-  p: IncreaseOrderParams;
+  p: IncreaseOrderPayloadParams;
   acceptablePrice: bigint;
   initialCollateralTokenAddress: string;
   subaccount: Subaccount | null;
@@ -8,6 +8,7 @@ import { PendingOrderData, SetPendingOrder } from "context/SyntheticsEvents";
 import { Signer, ethers } from "ethers";
 import { callContract } from "lib/contracts";
 import { getSubaccountRouterContract } from "../subaccount/getSubaccountContract";
+import { getSubaccountForOrders } from "../subaccount/utils";
 import { TokensData } from "../tokens";
 import { applySlippageToMinOut } from "../trade";
 import { simulateExecuteTxn } from "./simulateExecuteTxn";
@@ -30,7 +31,19 @@ export type SwapOrderParams = {
   allowedSlippage: number;
   setPendingTxns: (txns: any) => void;
   setPendingOrder: SetPendingOrder;
-  metricId: string;
+  metricId?: string;
+  /**
+   * When set, the swap is divided into several orders sent in one multicall,
+   * `fromTokenAmount`, `swapPath`, `minOutputAmount` and `executionFee` are then taken from the legs.
+   */
+  splitLegs?: SwapOrderSplitLeg[];
+};
+
+export type SwapOrderSplitLeg = {
+  fromTokenAmount: bigint;
+  swapPath: string[];
+  minOutputAmount: bigint;
+  executionFee: bigint;
 };
 
 export async function createSwapOrderTxn(chainId: number, signer: Signer, subaccount: Subaccount, p: SwapOrderParams) {
@@ -38,8 +51,12 @@ export async function createSwapOrderTxn(chainId: number, signer: Signer, subacc
   const isNativePayment = p.fromTokenAddress === NATIVE_TOKEN_ADDRESS;
   const isNativeReceive = p.toTokenAddress === NATIVE_TOKEN_ADDRESS;
   subaccount = isNativePayment ? null : subaccount;
+  subaccount = getSubaccountForOrders(
+    subaccount,
+    (p.splitLegs ?? [p]).map((leg) => ({ marketAddresses: leg.swapPath, orderType: p.orderType }))
+  );
   const router = subaccount ? getSubaccountRouterContract(chainId, subaccount.signer) : exchangeRouter;
-  const { encodedPayload, totalWntAmount, minOutputAmount } = await getParams(router, signer, subaccount, chainId, p);
+  const { encodedPayload, totalWntAmount, minOutputAmounts } = await getParams(router, signer, subaccount, chainId, p);
   const { encodedPayload: simulationEncodedPayload, totalWntAmount: sumaltionTotalWntAmount } = await getParams(
     exchangeRouter,
     signer,
@@ -50,26 +67,28 @@ export async function createSwapOrderTxn(chainId: number, signer: Signer, subacc
 
   const initialCollateralTokenAddress = convertTokenAddress(chainId, p.fromTokenAddress, "wrapped");
 
-  const swapOrder: PendingOrderData = {
+  const swapOrders: PendingOrderData[] = getOrderLegs(p).map((leg, i) => ({
     account: p.account,
     marketAddress: ZeroAddress,
     initialCollateralTokenAddress,
-    initialCollateralDeltaAmount: p.fromTokenAmount,
-    swapPath: p.swapPath,
+    initialCollateralDeltaAmount: leg.fromTokenAmount,
+    swapPath: leg.swapPath,
     sizeDeltaUsd: 0n,
-    minOutputAmount,
+    minOutputAmount: minOutputAmounts[i],
     isLong: false,
     orderType: p.orderType,
     shouldUnwrapNativeToken: isNativeReceive,
     referralCode: p.referralCode,
     txnType: "create",
-  };
+  }));
+  const swapOrder = swapOrders.length === 1 ? swapOrders[0] : swapOrders;
 
   if (subaccount) {
     p.setPendingOrder(swapOrder);
   }
 
   if (p.orderType !== OrderType.LimitSwap) {
+    // for a split swap only the first created order is simulated
     await simulateExecuteTxn(chainId, {
       account: p.account,
       primaryPriceOverrides: {},
@@ -94,6 +113,21 @@ export async function createSwapOrderTxn(chainId: number, signer: Signer, subacc
   }
 }
 
+function getOrderLegs(p: SwapOrderParams): SwapOrderSplitLeg[] {
+  if (p.splitLegs?.length) {
+    return p.splitLegs;
+  }
+
+  return [
+    {
+      fromTokenAmount: p.fromTokenAmount,
+      swapPath: p.swapPath,
+      minOutputAmount: p.minOutputAmount,
+      executionFee: p.executionFee,
+    },
+  ];
+}
+
 async function getParams(
   router: ethers.Contract,
   signer: Signer,
@@ -104,61 +138,75 @@ async function getParams(
   const isNativePayment = p.fromTokenAddress === NATIVE_TOKEN_ADDRESS;
   const isNativeReceive = p.toTokenAddress === NATIVE_TOKEN_ADDRESS;
   const orderVaultAddress = getContract(chainId, "OrderVault");
-  const wntSwapAmount = isNativePayment ? p.fromTokenAmount : 0n;
-  const totalWntAmount = wntSwapAmount + p.executionFee;
+  const legs = getOrderLegs(p);
 
   const initialCollateralTokenAddress = convertTokenAddress(chainId, p.fromTokenAddress, "wrapped");
 
   const shouldApplySlippage = isMarketOrderType(p.orderType);
 
-  const minOutputAmount = shouldApplySlippage
-    ? applySlippageToMinOut(p.allowedSlippage, p.minOutputAmount)
-    : p.minOutputAmount;
-
-  const initialCollateralDeltaAmount = subaccount ? p.fromTokenAmount : 0n;
-
-  const createOrderParams = {
-    addresses: {
-      receiver: p.account,
-      cancellationReceiver: ethers.ZeroAddress,
-      initialCollateralToken: initialCollateralTokenAddress,
-      callbackContract: ZeroAddress,
-      market: ZeroAddress,
-      swapPath: p.swapPath,
-      uiFeeReceiver: UI_FEE_RECEIVER_ACCOUNT ?? ethers.ZeroAddress,
-    },
-    numbers: {
-      sizeDeltaUsd: 0n,
-      initialCollateralDeltaAmount,
-      triggerPrice: 0n,
-      acceptablePrice: 0n,
-      executionFee: p.executionFee,
-      callbackGasLimit: 0n,
-      minOutputAmount,
-    },
-    autoCancel: false,
-    orderType: p.orderType,
-    decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
-    isLong: false,
-    shouldUnwrapNativeToken: isNativeReceive,
-    referralCode: p.referralCode || ethers.ZeroHash,
-  };
-
-  const multicall = [
-    { method: "sendWnt", params: [orderVaultAddress, totalWntAmount] },
-
-    !isNativePayment && !subaccount
-      ? { method: "sendTokens", params: [p.fromTokenAddress, orderVaultAddress, p.fromTokenAmount] }
-      : undefined,
-
-    {
-      method: "createOrder",
-      params: subaccount ? [await signer.getAddress(), createOrderParams] : [createOrderParams],
-    },
-  ];
+  const subaccountAddress = subaccount ? await signer.getAddress() : undefined;
+
+  let totalWntAmount = 0n;
+  const minOutputAmounts: bigint[] = [];
+  const multicall: ({ method: string; params: any[] } | undefined)[] = [];
+
+  for (const leg of legs) {
+    const wntSwapAmount = isNativePayment ? leg.fromTokenAmount : 0n;
+    const legWntAmount = wntSwapAmount + leg.executionFee;
+
+    const minOutputAmount = shouldApplySlippage
+      ? applySlippageToMinOut(p.allowedSlippage, leg.minOutputAmount)
+      : leg.minOutputAmount;
+
+    const initialCollateralDeltaAmount = subaccount ? leg.fromTokenAmount : 0n;
+
+    const createOrderParams = {
+      addresses: {
+        receiver: p.account,
+        cancellationReceiver: ethers.ZeroAddress,
+        initialCollateralToken: initialCollateralTokenAddress,
+        callbackContract: ZeroAddress,
+        market: ZeroAddress,
+        swapPath: leg.swapPath,
+        uiFeeReceiver: UI_FEE_RECEIVER_ACCOUNT ?? ethers.ZeroAddress,
+      },
+      numbers: {
+        sizeDeltaUsd: 0n,
+        initialCollateralDeltaAmount,
+        triggerPrice: 0n,
+        acceptablePrice: 0n,
+        executionFee: leg.executionFee,
+        callbackGasLimit: 0n,
+        minOutputAmount,
+      },
+      autoCancel: false,
+      orderType: p.orderType,
+      decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
+      isLong: false,
+      shouldUnwrapNativeToken: isNativeReceive,
+      referralCode: p.referralCode || ethers.ZeroHash,
+    };
+
+    // every order is created from the current order vault balance, so the funds are sent right before it
+    multicall.push(
+      { method: "sendWnt", params: [orderVaultAddress, legWntAmount] },
+
+      !isNativePayment && !subaccount
+        ? { method: "sendTokens", params: [p.fromTokenAddress, orderVaultAddress, leg.fromTokenAmount] }
+        : undefined,
+
+      {
+        method: "createOrder",
+        params: subaccount ? [subaccountAddress, createOrderParams] : [createOrderParams],
+      }
+    );
+
+    totalWntAmount += legWntAmount;
+    minOutputAmounts.push(minOutputAmount);
+  }
 
   return {
-    minOutputAmount,
+    minOutputAmounts,
     totalWntAmount,
     encodedPayload: multicall
       .filter(Boolean)
@@ -0,0 +1,118 @@
+import { t } from "@lingui/macro";
+import { Signer, ethers } from "ethers";
+
+import ExchangeRouter from "abis/ExchangeRouter.json";
+import { getContract } from "config/contracts";
+import { convertTokenAddress } from "config/tokens";
+import { Subaccount } from "context/SubaccountContext/SubaccountContext";
+import type { PendingOrderData, SetPendingPositionMigration } from "context/SyntheticsEvents";
+import { callContract } from "lib/contracts";
+
+import { getPositionKey } from "../positions";
+import { getSubaccountRouterContract } from "../subaccount/getSubaccountContract";
+import { getSubaccountForOrders } from "../subaccount/utils";
+import {
+  DecreaseOrderParams,
+  createDecreaseEncodedPayload,
+  getPendingPositionFromParams,
+} from "./createDecreaseOrderTxn";
+import { IncreaseOrderPayloadParams, createIncreaseEncodedPayload } from "./createIncreaseOrderTxn";
+import { getPendingOrderFromParams } from "./utils";
+
+export type MigratePositionParams = {
+  decrease: DecreaseOrderParams;
+  /**
+   * Paid from the wallet, the collateral of the closed position is returned to the wallet after the decrease
+   */
+  increase: IncreaseOrderPayloadParams;
+  setPendingTxns: (txns: any) => void;
+  setPendingPositionMigration: SetPendingPositionMigration;
+};
+
+export async function migratePositionTxn(
+  chainId: number,
+  signer: Signer,
+  subaccount: Subaccount,
+  p: MigratePositionParams
+) {
+  const { decrease, increase } = p;
+
+  subaccount = getSubaccountForOrders(subaccount, [
+    { marketAddresses: [decrease.marketAddress], orderType: decrease.orderType },
+    { marketAddresses: [increase.marketAddress], orderType: increase.orderType },
+  ]);
+
+  const router = subaccount
+    ? getSubaccountRouterContract(chainId, subaccount.signer)
+    : new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
+  const orderVaultAddress = getContract(chainId, "OrderVault");
+  const initialCollateralTokenAddress = convertTokenAddress(chainId, increase.initialCollateralAddress, "wrapped");
+
+  const multicall = [
+    ...createDecreaseEncodedPayload({
+      router,
+      orderVaultAddress,
+      ps: [decrease],
+      subaccount,
+      mainAccountAddress: decrease.account,
+      chainId,
+    }),
+    ...(await createIncreaseEncodedPayload({
+      router,
+      orderVaultAddress,
+      legs: [increase],
+      subaccount,
+      isNativePayment: false,
+      initialCollateralTokenAddress,
+      signer,
+    })),
+  ];
+
+  if (!signer.provider) throw new Error("No provider found");
+  const txnCreatedAt = Date.now();
+  const txnCreatedAtBlock = await signer.provider.getBlockNumber();
+
+  await callContract(chainId, router, "multicall", [multicall], {
+    value: decrease.executionFee + increase.executionFee,
+    sentMsg: t`Migrate Position submitted`,
+    successMsg: t`Migrate Position requested`,
+    failMsg: t`Failed to migrate Position`,
+    customSigners: subaccount?.customSigners,
+    setPendingTxns: p.setPendingTxns,
+  });
+
+  const increaseOrder: PendingOrderData = {
+    account: increase.account,
+    marketAddress: increase.marketAddress,
+    initialCollateralTokenAddress,
+    initialCollateralDeltaAmount: increase.initialCollateralAmount,
+    swapPath: increase.swapPath,
+    sizeDeltaUsd: increase.sizeDeltaUsd,
+    minOutputAmount: 0n,
+    isLong: increase.isLong,
+    orderType: increase.orderType,
+    shouldUnwrapNativeToken: false,
+    txnType: "create",
+  };
+
+  p.setPendingPositionMigration({
+    orders: [getPendingOrderFromParams(chainId, "create", decrease), increaseOrder],
+    positions: [
+      getPendingPositionFromParams(txnCreatedAt, txnCreatedAtBlock, decrease),
+      {
+        isIncrease: true,
+        positionKey: getPositionKey(
+          increase.account,
+          increase.marketAddress,
+          increase.targetCollateralAddress,
+          increase.isLong
+        ),
+        collateralDeltaAmount: increase.collateralDeltaAmount,
+        sizeDeltaUsd: increase.sizeDeltaUsd,
+        sizeDeltaInTokens: increase.sizeDeltaInTokens,
+        updatedAt: txnCreatedAt,
+        updatedAtBlock: BigInt(txnCreatedAtBlock),
+      },
+    ],
+  });
+}
@@ -40,7 +40,48 @@ type SimulateExecuteParams = {
   swapPricingType?: SwapPricingType;
 };
 
-export async function simulateExecuteTxn(chainId: number, p: SimulateExecuteParams) {
+export type SimulationLog = {
+  address: string;
+  topics: string[];
+  data: string;
+};
+
+export type SimulationTrace = {
+  isSuccess: boolean;
+  errorMessage?: string;
+  /**
+   * Logs emitted before the simulation reverted, undefined when the rpc doesn't support tracing
+   */
+  logs: SimulationLog[] | undefined;
+  tenderlyUrl?: string;
+};
+
+/**
+ * `simulateExecute*` methods always revert, so the emitted logs are only reachable from the execution trace.
+ * The tracer collects them at the opcode level to keep the logs of reverted frames.
+ */
+const COLLECT_LOGS_TRACER = `{
+  logs: [],
+  step: function(log) {
+    var op = log.op.toString();
+    if (op.indexOf("LOG") !== 0) return;
+    var offset = log.stack.peek(0).valueOf();
+    var size = log.stack.peek(1).valueOf();
+    var topics = [];
+    for (var i = 0; i < parseInt(op.substring(3)); i++) {
+      topics.push(toHex(toWord("0x" + log.stack.peek(2 + i).toString(16))));
+    }
+    this.logs.push({
+      address: toHex(log.contract.getAddress()),
+      topics: topics,
+      data: toHex(log.memory.slice(offset, offset + size))
+    });
+  },
+  fault: function() {},
+  result: function() { return this.logs; }
+}`;
+
+async function prepareSimulation(chainId: number, p: SimulateExecuteParams) {
   const provider = getProvider(undefined, chainId);
 
   const dataStoreAddress = getContract(chainId, "DataStore");
@@ -124,10 +165,16 @@ export async function simulateExecuteTxn(chainId: number, p: SimulateExecutePara
     throw new Error(`Unknown method: ${method}`);
   }
 
+  const router = isGlv ? glvRouter : exchangeRouter;
+
+  return { provider, router, method, simulationPayloadData, blockNumber };
+}
+
+export async function simulateExecuteTxn(chainId: number, p: SimulateExecuteParams) {
+  const { router, method, simulationPayloadData, blockNumber } = await prepareSimulation(chainId, p);
   const errorTitle = p.errorTitle || t`Execute order simulation failed.`;
 
   const tenderlyConfig = getTenderlyConfig();
-  const router = isGlv ? glvRouter : exchangeRouter;
 
   if (tenderlyConfig) {
     await simulateTxWithTenderly(chainId, router as BaseContract, p.account, "multicall", [simulationPayloadData], {
@@ -200,6 +247,70 @@ export async function simulateExecuteTxn(chainId: number, p: SimulateExecutePara
   }
 }
 
+/**
+ * Same simulation as `simulateExecuteTxn` without toasts, returning the logs emitted during the execution
+ */
+export async function traceSimulateExecuteTxn(chainId: number, p: SimulateExecuteParams): Promise<SimulationTrace> {
+  const { provider, router, method, simulationPayloadData, blockNumber } = await prepareSimulation(chainId, p);
+
+  let tenderlyUrl: string | undefined;
+
+  if (getTenderlyConfig()) {
+    const tenderlyResult = await simulateTxWithTenderly(
+      chainId,
+      router as BaseContract,
+      p.account,
+      "multicall",
+      [simulationPayloadData],
+      { value: p.value, comment: `calling ${method}` }
+    );
+    tenderlyUrl = tenderlyResult.url;
+  }
+
+  let isSuccess = false;
+  let errorMessage: string | undefined;
+
+  try {
+    await router.multicall.staticCall(simulationPayloadData, {
+      value: p.value,
+      blockTag: blockNumber,
+      from: p.account,
+    });
+  } catch (txnError) {
+    const customErrors = new ethers.Contract(ethers.ZeroAddress, CustomErrors.abi);
+    const errorData = extractDataFromError(txnError?.info?.error?.message) ?? extractDataFromError(txnError?.message);
+
+    try {
+      const parsedError = errorData ? customErrors.interface.parseError(errorData) : null;
+
+      isSuccess = parsedError?.name === "EndOfOracleSimulation";
+      errorMessage = isSuccess ? undefined : parsedError?.name ?? txnError?.message;
+    } catch (parsingError) {
+      errorMessage = txnError?.message;
+    }
+  }
+
+  let logs: SimulationLog[] | undefined;
+
+  try {
+    logs = await provider.send("debug_traceCall", [
+      {
+        from: p.account,
+        to: await router.getAddress(),
+        data: router.interface.encodeFunctionData("multicall", [simulationPayloadData]),
+        value: ethers.toQuantity(p.value),
+      },
+      ethers.toQuantity(blockNumber),
+      { tracer: COLLECT_LOGS_TRACER },
+    ]);
+  } catch (traceError) {
+    // most public rpcs don't expose the debug namespace
+    logs = undefined;
+  }
+
+  return { isSuccess, errorMessage, logs, tenderlyUrl };
+}
+
 export function extractDataFromError(errorMessage: unknown) {
   if (typeof errorMessage !== "string") return null;
 
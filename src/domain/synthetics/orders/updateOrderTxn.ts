@@ -5,12 +5,18 @@ import ExchangeRouter from "abis/ExchangeRouter.json";
 import { getContract } from "config/contracts";
 import { Subaccount } from "context/SubaccountContext/SubaccountContext";
 import { getSubaccountRouterContract } from "domain/synthetics/subaccount/getSubaccountContract";
+import { getSubaccountForOrders, getSubaccountOrderScope } from "domain/synthetics/subaccount/utils";
 import { convertToContractPrice } from "domain/synthetics/tokens";
 import { Token } from "domain/tokens";
 import { callContract } from "lib/contracts";
+import type { Order } from "./types";
 
 export type UpdateOrderParams = {
   orderKey: string;
+  /**
+   * Checked against the subaccount permissions
+   */
+  order: Pick<Order, "marketAddress" | "swapPath" | "orderType">;
   indexToken?: Token;
   sizeDeltaUsd: bigint;
   triggerPrice: bigint;
@@ -38,6 +44,8 @@ export function updateOrderTxn(
     indexToken,
   } = p;
 
+  subaccount = getSubaccountForOrders(subaccount, [getSubaccountOrderScope(p.order)]);
+
   const router = subaccount
     ? getSubaccountRouterContract(chainId, subaccount.signer)
     : new ethers.Contract(getContract(chainId, "ExchangeRouter"), ExchangeRouter.abi, signer);
@@ -15,6 +15,10 @@ export function useOrderEditorState(ordersInfoData: OrdersInfoData | undefined)
   const [sizeInputValue, setSizeInputValue] = useState("");
   const [triggerPriceInputValue, setTriggerPriceInputValue] = useState("");
   const [triggerRatioInputValue, setTriggerRatioInputValue] = useState<string>("");
+  /**
+   * Overrides the order trigger price when the editor opens, e.g. after dragging the order line on the chart
+   */
+  const [initialTriggerPrice, setInitialTriggerPrice] = useState<bigint>();
 
   useEffect(
     function resetOrderEditorState() {
@@ -22,6 +26,7 @@ export function useOrderEditorState(ordersInfoData: OrdersInfoData | undefined)
         setSizeInputValue("");
         setTriggerPriceInputValue("");
         setTriggerRatioInputValue("");
+        setInitialTriggerPrice(undefined);
       };
 
       if (!editingOrderKey) {
@@ -48,6 +53,8 @@ export function useOrderEditorState(ordersInfoData: OrdersInfoData | undefined)
       setTriggerPriceInputValue,
       triggerRatioInputValue,
       setTriggerRatioInputValue,
+      initialTriggerPrice,
+      setInitialTriggerPrice,
 
       acceptablePrice,
       acceptablePriceImpactBps,
@@ -60,6 +67,7 @@ export function useOrderEditorState(ordersInfoData: OrdersInfoData | undefined)
       cancellingOrdersKeys,
       editingOrderKey,
       initialAcceptablePriceImpactBps,
+      initialTriggerPrice,
       setAcceptablePriceImpactBps,
       sizeInputValue,
       triggerPriceInputValue,
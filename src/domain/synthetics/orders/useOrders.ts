@@ -12,7 +12,7 @@ import { CacheKey, MulticallResult, useMulticall } from "lib/multicall";
 import { EMPTY_ARRAY } from "lib/objects";
 import type { MarketsInfoData } from "../markets/types";
 import { getSwapPathOutputAddresses } from "../trade";
-import { DecreasePositionSwapType, OrderType, OrdersData } from "./types";
+import { DecreasePositionSwapType, Order, OrderType, OrdersData } from "./types";
 import {
   isIncreaseOrderType,
   isLimitOrderType,
@@ -38,11 +38,16 @@ export function useOrders(
     marketsDirectionsFilter = EMPTY_ARRAY,
     orderTypesFilter = EMPTY_ARRAY,
     marketsInfoData,
+    paperOrdersData,
   }: {
     account?: string | null;
     marketsDirectionsFilter?: MarketFilterLongShortItemData[];
     orderTypesFilter?: OrderType[];
     marketsInfoData?: MarketsInfoData;
+    /**
+     * Orders of the paper trading account, filtered the same way instead of the on-chain ones
+     */
+    paperOrdersData?: OrdersData;
   }
 ): OrdersResult {
   const {
@@ -85,8 +90,8 @@ export function useOrders(
   }, [marketsDirectionsFilter]);
 
   const key = useMemo(
-    () => (!account ? null : ([account, marketsDirectionsFilter, orderTypesFilter] as const)),
-    [account, marketsDirectionsFilter, orderTypesFilter]
+    () => (!account || paperOrdersData ? null : ([account, marketsDirectionsFilter, orderTypesFilter] as const)),
+    [account, marketsDirectionsFilter, orderTypesFilter, paperOrdersData]
   );
 
   const { data } = useMulticall(chainId, "useOrdersData", {
@@ -95,8 +100,13 @@ export function useOrders(
     parseResponse: parseResponse,
   });
 
+  const orders: Order[] | undefined = useMemo(
+    () => (paperOrdersData ? Object.values(paperOrdersData) : data?.orders),
+    [data?.orders, paperOrdersData]
+  );
+
   const ordersData: OrdersData | undefined = useMemo(() => {
-    const filteredOrders = data?.orders.filter((order) => {
+    const filteredOrders = orders?.filter((order) => {
       if (!isVisibleOrder(order.orderType)) {
         return false;
       }
@@ -128,7 +138,7 @@ export function useOrders(
     }, {} as OrdersData);
   }, [
     chainId,
-    data?.orders,
+    orders,
     hasNonSwapRelevantDefinedMarkets,
     hasPureDirectionFilters,
     hasSwapRelevantDefinedMarkets,
@@ -141,7 +151,7 @@ export function useOrders(
 
   return {
     ordersData: ordersData,
-    count: data?.count,
+    count: paperOrdersData ? orders?.length : data?.count,
   };
 }
 
@@ -225,7 +235,7 @@ function matchByMarket({
   marketsInfoData,
   chainId,
 }: {
-  order: ReturnType<typeof parseResponse>["orders"][number];
+  order: Order;
   nonSwapRelevantDefinedFiltersLowercased: MarketFilterLongShortItemData[];
   hasNonSwapRelevantDefinedMarkets: boolean;
   pureDirectionFilters: MarketFilterLongShortDirection[];
@@ -293,7 +303,7 @@ function matchByMarket({
             outTokenAddress !== undefined && isAddressEqual(outTokenAddress as Address, filter.collateralAddress);
         }
       } else if (isTriggerDecreaseOrderType(order.orderType)) {
-        collateralMatch = isAddressEqual(order.initialCollateralTokenAddress, filter.collateralAddress);
+        collateralMatch = isAddressEqual(order.initialCollateralTokenAddress as Address, filter.collateralAddress);
       }
 
       return marketMatch && directionMath && collateralMatch;
@@ -3,7 +3,7 @@ import { getByKey } from "lib/objects";
 import { useMemo } from "react";
 import { MarketsInfoData } from "../markets";
 import { TokensData } from "../tokens";
-import { OrderType, OrdersInfoData } from "./types";
+import { OrderType, OrdersData, OrdersInfoData } from "./types";
 import { useOrders } from "./useOrders";
 import { getOrderInfo } from "./utils";
 import { MarketFilterLongShortItemData } from "components/Synthetics/TableMarketFilter/MarketFilterLongShort";
@@ -22,14 +22,16 @@ export function useOrdersInfoRequest(
     orderTypesFilter?: OrderType[];
     tokensData?: TokensData;
     account: string | null | undefined;
+    paperOrdersData?: OrdersData;
   }
 ): AggregatedOrdersDataResult {
-  const { marketsInfoData, tokensData, account, marketsDirectionsFilter, orderTypesFilter } = p;
+  const { marketsInfoData, tokensData, account, marketsDirectionsFilter, orderTypesFilter, paperOrdersData } = p;
   const { ordersData, count } = useOrders(chainId, {
     account,
     marketsDirectionsFilter,
     orderTypesFilter,
     marketsInfoData,
+    paperOrdersData,
   });
 
   const wrappedToken = getWrappedToken(chainId);
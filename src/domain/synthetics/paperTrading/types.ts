@@ -0,0 +1,76 @@
+import type { UserReferralInfo } from "domain/referrals";
+import type { Token } from "domain/tokens";
+import type { MarketsInfoData } from "../markets";
+import type { Order } from "../orders";
+import type { Position } from "../positions";
+import type { TokensData } from "../tokens";
+
+export type PaperPosition = Position & {
+  /**
+   * Timestamp in seconds up to which borrowing and funding fees are included into the position
+   */
+  accruedAt: number;
+};
+
+export type PaperAccount = {
+  balances: { [tokenAddress: string]: bigint };
+  positions: { [positionKey: string]: PaperPosition };
+  /**
+   * Collateral of increase and swap orders is taken from the balances on creation and returned on cancellation
+   */
+  orders: { [orderKey: string]: Order };
+  lastOrderId: number;
+};
+
+export type NewPaperOrder = Pick<
+  Order,
+  | "account"
+  | "marketAddress"
+  | "initialCollateralTokenAddress"
+  | "initialCollateralDeltaAmount"
+  | "swapPath"
+  | "sizeDeltaUsd"
+  | "minOutputAmount"
+  | "isLong"
+  | "orderType"
+  | "shouldUnwrapNativeToken"
+  | "decreasePositionSwapType"
+> & {
+  triggerPrice: bigint | undefined;
+  acceptablePrice: bigint;
+  /**
+   * Applied to the acceptable price and the minimum output of market orders the same way as for real orders
+   */
+  allowedSlippage: number;
+  /**
+   * Required to convert prices of position orders to the contract format
+   */
+  indexTokenDecimals: number;
+};
+
+export type PaperOrderUpdate = {
+  sizeDeltaUsd: bigint;
+  triggerPrice: bigint;
+  acceptablePrice: bigint;
+  minOutputAmount: bigint;
+  indexTokenDecimals: number | undefined;
+};
+
+export type PaperTradingEnvironment = {
+  marketsInfoData: MarketsInfoData;
+  tokensData: TokensData;
+  wrappedNativeToken: Token;
+  userReferralInfo: UserReferralInfo | undefined;
+  uiFeeFactor: bigint;
+  minCollateralUsd: bigint;
+  minPositionSizeUsd: bigint;
+  /**
+   * Current time in seconds
+   */
+  now: number;
+};
+
+export type PaperOrderExecutionResult =
+  | { status: "pending" }
+  | { status: "executed"; account: PaperAccount }
+  | { status: "cancelled"; account: PaperAccount; reason: string };
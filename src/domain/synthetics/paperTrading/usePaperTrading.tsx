@@ -0,0 +1,90 @@
+import noop from "lodash/noop";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo, useRef } from "react";
+
+import { PAPER_TRADING_ENABLED_KEY, getPaperTradingAccountKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import { SerializedBigIntsInObject, deserializeBigIntsInObject, serializeBigIntsInObject } from "lib/numbers";
+import useWallet from "lib/wallets/useWallet";
+import type { PaperAccount } from "./types";
+import { getInitialPaperAccount } from "./utils";
+
+type PaperTradingContextType = {
+  isPaperTradingEnabled: boolean;
+  setIsPaperTradingEnabled: (enabled: boolean) => void;
+  paperAccount: PaperAccount;
+  /**
+   * Updaters are applied to the result of the previous update, so several updates within one render are not lost
+   */
+  updatePaperAccount: (updater: (paperAccount: PaperAccount) => PaperAccount) => void;
+  resetPaperAccount: () => void;
+};
+
+const context = createContext<PaperTradingContextType>({
+  isPaperTradingEnabled: false,
+  setIsPaperTradingEnabled: noop,
+  paperAccount: getInitialPaperAccount(0),
+  updatePaperAccount: noop,
+  resetPaperAccount: noop,
+});
+
+const Provider = context.Provider;
+
+export function PaperTradingContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const [isPaperTradingEnabled, setIsPaperTradingEnabled] = useLocalStorageSerializeKey<boolean>(
+    PAPER_TRADING_ENABLED_KEY,
+    false
+  );
+  const [storedPaperAccount, setStoredPaperAccount] = useLocalStorageSerializeKey<
+    SerializedBigIntsInObject<PaperAccount> | undefined
+  >(getPaperTradingAccountKey(chainId, account), undefined);
+
+  const paperAccount = useMemo(
+    () =>
+      storedPaperAccount
+        ? (deserializeBigIntsInObject(storedPaperAccount) as PaperAccount)
+        : getInitialPaperAccount(chainId),
+    [chainId, storedPaperAccount]
+  );
+
+  const latestPaperAccountRef = useRef(paperAccount);
+  latestPaperAccountRef.current = paperAccount;
+
+  const updatePaperAccount = useCallback(
+    (updater: (paperAccount: PaperAccount) => PaperAccount) => {
+      const nextPaperAccount = updater(latestPaperAccountRef.current);
+
+      if (nextPaperAccount === latestPaperAccountRef.current) {
+        return;
+      }
+
+      latestPaperAccountRef.current = nextPaperAccount;
+      setStoredPaperAccount(serializeBigIntsInObject(nextPaperAccount));
+    },
+    [setStoredPaperAccount]
+  );
+
+  const resetPaperAccount = useCallback(
+    () => updatePaperAccount(() => getInitialPaperAccount(chainId)),
+    [chainId, updatePaperAccount]
+  );
+
+  const stableObj = useMemo<PaperTradingContextType>(
+    () => ({
+      isPaperTradingEnabled: Boolean(isPaperTradingEnabled),
+      setIsPaperTradingEnabled,
+      paperAccount,
+      updatePaperAccount,
+      resetPaperAccount,
+    }),
+    [isPaperTradingEnabled, setIsPaperTradingEnabled, paperAccount, updatePaperAccount, resetPaperAccount]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function usePaperTrading() {
+  return useContext(context);
+}
@@ -0,0 +1,174 @@
+import { t } from "@lingui/macro";
+import { useCallback } from "react";
+
+import { NATIVE_TOKEN_ADDRESS, getWrappedToken } from "config/tokens";
+import {
+  selectChainId,
+  selectMarketsInfoData,
+  selectMinCollateralUsd,
+  selectMinPositionSizeUsd,
+  selectTokensData,
+  selectUiFeeFactor,
+  selectUserReferralInfo,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { helperToast } from "lib/helperToast";
+import { isMarketOrderType } from "../orders";
+import type { NewPaperOrder, PaperOrderUpdate, PaperTradingEnvironment } from "./types";
+import { usePaperTrading } from "./usePaperTrading";
+import {
+  addPaperOrder,
+  cancelPaperOrders,
+  executePaperOrder,
+  processPaperAccount,
+  updatePaperOrder,
+  wrapOrUnwrapPaperBalance,
+} from "./utils";
+
+export type PaperOrdersSubmission = {
+  newOrders?: NewPaperOrder[];
+  cancelOrderKeys?: string[];
+  orderUpdates?: (PaperOrderUpdate & { orderKey: string })[];
+};
+
+/**
+ * Counterparts of the order transactions which are applied to the virtual account,
+ * market orders are executed right away against the current prices
+ */
+export function usePaperTradingActions() {
+  const { updatePaperAccount } = usePaperTrading();
+  const chainId = useSelector(selectChainId);
+  const marketsInfoData = useSelector(selectMarketsInfoData);
+  const tokensData = useSelector(selectTokensData);
+  const userReferralInfo = useSelector(selectUserReferralInfo);
+  const uiFeeFactor = useSelector(selectUiFeeFactor);
+  const minCollateralUsd = useSelector(selectMinCollateralUsd);
+  const minPositionSizeUsd = useSelector(selectMinPositionSizeUsd);
+
+  const getEnvironment = useCallback((): PaperTradingEnvironment | undefined => {
+    if (!marketsInfoData || !tokensData || minCollateralUsd === undefined || minPositionSizeUsd === undefined) {
+      return undefined;
+    }
+
+    return {
+      marketsInfoData,
+      tokensData,
+      wrappedNativeToken: getWrappedToken(chainId),
+      userReferralInfo,
+      uiFeeFactor,
+      minCollateralUsd,
+      minPositionSizeUsd,
+      now: Math.floor(Date.now() / 1000),
+    };
+  }, [chainId, marketsInfoData, minCollateralUsd, minPositionSizeUsd, tokensData, uiFeeFactor, userReferralInfo]);
+
+  const submitPaperOrders = useCallback(
+    ({ newOrders = [], cancelOrderKeys = [], orderUpdates = [] }: PaperOrdersSubmission) => {
+      const env = getEnvironment();
+
+      if (!env) {
+        helperToast.error(t`Error submitting order`);
+        return Promise.resolve();
+      }
+
+      updatePaperAccount((paperAccount) => {
+        let nextAccount = cancelPaperOrders(paperAccount, cancelOrderKeys);
+        nextAccount = orderUpdates.reduce((acc, update) => updatePaperOrder(acc, update.orderKey, update), nextAccount);
+
+        let isExecuted = false;
+        const cancelReasons: string[] = [];
+
+        for (const newOrder of newOrders) {
+          const added = addPaperOrder(nextAccount, newOrder, env);
+
+          if (!added) {
+            helperToast.error(t`Insufficient paper balance`);
+            return paperAccount;
+          }
+
+          nextAccount = added.account;
+
+          if (isMarketOrderType(newOrder.orderType)) {
+            const result = executePaperOrder(nextAccount, added.order, env);
+
+            if (result.status === "cancelled") {
+              cancelReasons.push(result.reason);
+            }
+
+            if (result.status !== "pending") {
+              nextAccount = result.account;
+              isExecuted = isExecuted || result.status === "executed";
+            }
+          }
+        }
+
+        if (cancelReasons.length) {
+          cancelReasons.forEach((reason) => helperToast.error(t`Paper order cancelled: ${reason}`));
+        } else if (isExecuted) {
+          helperToast.success(t`Paper order executed`);
+        } else if (newOrders.length) {
+          helperToast.success(t`Paper order created`);
+        } else if (orderUpdates.length) {
+          helperToast.success(t`Paper order updated`);
+        } else if (cancelOrderKeys.length) {
+          helperToast.success(t`Paper orders cancelled`);
+        }
+
+        return nextAccount;
+      });
+
+      return Promise.resolve();
+    },
+    [getEnvironment, updatePaperAccount]
+  );
+
+  const processPaperOrders = useCallback(() => {
+    const env = getEnvironment();
+
+    if (!env) {
+      return;
+    }
+
+    updatePaperAccount((paperAccount) => {
+      const result = processPaperAccount(paperAccount, env);
+
+      if (result.executedCount > 0) {
+        helperToast.success(t`Paper order executed`);
+      }
+
+      result.cancelReasons.forEach((reason) => helperToast.error(t`Paper order cancelled: ${reason}`));
+
+      if (result.liquidatedCount > 0) {
+        helperToast.error(t`Paper position liquidated`);
+      }
+
+      return result.account;
+    });
+  }, [getEnvironment, updatePaperAccount]);
+
+  const wrapOrUnwrapPaper = useCallback(
+    ({ amount, isWrap }: { amount: bigint; isWrap: boolean }) => {
+      const wrappedTokenAddress = getWrappedToken(chainId).address;
+
+      updatePaperAccount((paperAccount) => {
+        const nextAccount = wrapOrUnwrapPaperBalance(paperAccount, {
+          fromTokenAddress: isWrap ? NATIVE_TOKEN_ADDRESS : wrappedTokenAddress,
+          toTokenAddress: isWrap ? wrappedTokenAddress : NATIVE_TOKEN_ADDRESS,
+          amount,
+        });
+
+        if (!nextAccount) {
+          helperToast.error(t`Insufficient paper balance`);
+          return paperAccount;
+        }
+
+        return nextAccount;
+      });
+
+      return Promise.resolve();
+    },
+    [chainId, updatePaperAccount]
+  );
+
+  return { submitPaperOrders, processPaperOrders, wrapOrUnwrapPaper };
+}
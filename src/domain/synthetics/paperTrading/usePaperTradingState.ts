@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+
+import { getWrappedToken } from "config/tokens";
+import { UserReferralInfo } from "domain/referrals";
+import { MarketsInfoResult } from "../markets";
+import { AggregatedOrdersDataResult } from "../orders/useOrdersInfo";
+import { PositionsConstantsResult, PositionsInfoResult } from "../positions";
+import type { PaperTradingEnvironment } from "./types";
+import { usePaperTrading } from "./usePaperTrading";
+import { getPaperOrdersInfoData, getPaperPositionsInfoData, getPaperTokensData } from "./utils";
+
+export type PaperTradingState = {
+  marketsInfo: MarketsInfoResult;
+  positionsInfo: PositionsInfoResult;
+  ordersInfo: AggregatedOrdersDataResult;
+};
+
+/**
+ * Replaces balances, positions and orders of the account with the virtual ones while paper trading is enabled,
+ * fees of virtual positions are accrued on every prices update
+ */
+export function usePaperTradingState(
+  chainId: number,
+  p: {
+    enabled: boolean;
+    marketsInfo: MarketsInfoResult;
+    positionsConstants: PositionsConstantsResult["positionsConstants"];
+    uiFeeFactor: bigint;
+    userReferralInfo: UserReferralInfo | undefined;
+    showPnlInLeverage: boolean;
+  }
+): PaperTradingState | undefined {
+  const { enabled, marketsInfo, positionsConstants, uiFeeFactor, userReferralInfo, showPnlInLeverage } = p;
+  const { isPaperTradingEnabled, paperAccount } = usePaperTrading();
+
+  return useMemo(() => {
+    const { marketsInfoData, tokensData } = marketsInfo;
+    const { minCollateralUsd, minPositionSizeUsd } = positionsConstants;
+
+    if (!enabled || !isPaperTradingEnabled) {
+      return undefined;
+    }
+
+    if (!marketsInfoData || !tokensData || minCollateralUsd === undefined || minPositionSizeUsd === undefined) {
+      return {
+        marketsInfo,
+        positionsInfo: { isLoading: true },
+        ordersInfo: { isLoading: true },
+      };
+    }
+
+    const env: PaperTradingEnvironment = {
+      marketsInfoData,
+      tokensData,
+      wrappedNativeToken: getWrappedToken(chainId),
+      userReferralInfo,
+      uiFeeFactor,
+      minCollateralUsd,
+      minPositionSizeUsd,
+      now: Math.floor(Date.now() / 1000),
+    };
+
+    const ordersInfoData = getPaperOrdersInfoData(paperAccount, env);
+
+    return {
+      marketsInfo: { ...marketsInfo, tokensData: getPaperTokensData(tokensData, paperAccount) },
+      positionsInfo: {
+        positionsInfoData: getPaperPositionsInfoData(paperAccount, env, showPnlInLeverage),
+        isLoading: false,
+      },
+      ordersInfo: {
+        ordersInfoData,
+        count: Object.keys(ordersInfoData).length,
+        isLoading: false,
+      },
+    };
+  }, [
+    chainId,
+    enabled,
+    isPaperTradingEnabled,
+    marketsInfo,
+    paperAccount,
+    positionsConstants,
+    showPnlInLeverage,
+    uiFeeFactor,
+    userReferralInfo,
+  ]);
+}
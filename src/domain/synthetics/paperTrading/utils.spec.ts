@@ -0,0 +1,213 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import { DecreasePositionSwapType, OrderType } from "../orders";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import type { NewPaperOrder, PaperAccount, PaperPosition, PaperTradingEnvironment } from "./types";
+import {
+  accruePaperPositionFees,
+  addPaperOrder,
+  cancelPaperOrders,
+  executePaperOrder,
+  processPaperAccount,
+} from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"]);
+const marketInfo = marketsInfoData["ETH-ETH-USDC"];
+
+const env: PaperTradingEnvironment = {
+  marketsInfoData,
+  tokensData,
+  wrappedNativeToken: tokensData.AVAX,
+  userReferralInfo: undefined,
+  uiFeeFactor: 0n,
+  minCollateralUsd: usd(1),
+  minPositionSizeUsd: usd(1),
+  now: 1000,
+};
+
+const initialAccount: PaperAccount = {
+  balances: { USDC: expandDecimals(1000, 6) },
+  positions: {},
+  orders: {},
+  lastOrderId: 0,
+};
+
+const increaseOrder: NewPaperOrder = {
+  account: "account",
+  marketAddress: marketInfo.marketTokenAddress,
+  initialCollateralTokenAddress: "USDC",
+  initialCollateralDeltaAmount: expandDecimals(500, 6),
+  swapPath: [],
+  sizeDeltaUsd: usd(1000),
+  minOutputAmount: 0n,
+  isLong: true,
+  orderType: OrderType.MarketIncrease,
+  shouldUnwrapNativeToken: false,
+  decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
+  triggerPrice: undefined,
+  acceptablePrice: usd(1300),
+  allowedSlippage: 0,
+  indexTokenDecimals: 18,
+};
+
+function getEnvWithEthPrice(price: number): PaperTradingEnvironment {
+  const nextTokensData = mockTokensData({
+    ETH: { ...tokensData.ETH, prices: { minPrice: usd(price), maxPrice: usd(price) } },
+  });
+
+  return {
+    ...env,
+    tokensData: nextTokensData,
+    marketsInfoData: mockMarketsInfoData(nextTokensData, ["ETH-ETH-USDC"]),
+  };
+}
+
+function openPosition() {
+  const { account, order } = addPaperOrder(initialAccount, increaseOrder, env)!;
+  const result = executePaperOrder(account, order, env);
+
+  if (result.status !== "executed") throw new Error("Position is not opened");
+
+  return result.account;
+}
+
+describe("addPaperOrder", () => {
+  it("locks the collateral until the order is cancelled", () => {
+    const added = addPaperOrder(initialAccount, { ...increaseOrder, orderType: OrderType.LimitIncrease }, env)!;
+
+    expect(added.account.balances.USDC).toEqual(expandDecimals(500, 6));
+    expect(added.order.key).toEqual("paper-1");
+
+    const cancelledAccount = cancelPaperOrders(added.account, [added.order.key]);
+
+    expect(cancelledAccount.balances.USDC).toEqual(expandDecimals(1000, 6));
+    expect(cancelledAccount.orders).toEqual({});
+  });
+
+  it("rejects orders exceeding the balance", () => {
+    expect(
+      addPaperOrder(initialAccount, { ...increaseOrder, initialCollateralDeltaAmount: expandDecimals(1001, 6) }, env)
+    ).toBeUndefined();
+  });
+});
+
+describe("executePaperOrder", () => {
+  it("opens a position at the mark price and pays the fees from the collateral", () => {
+    const account = openPosition();
+    const position = Object.values(account.positions)[0];
+
+    expect(account.orders).toEqual({});
+    expect(position.sizeInUsd).toEqual(usd(1000));
+    expect(position.collateralAmount > 0n).toBe(true);
+    expect(position.collateralAmount < expandDecimals(500, 6)).toBe(true);
+  });
+
+  it("keeps limit orders until the trigger price is reached", () => {
+    const { account, order } = addPaperOrder(
+      initialAccount,
+      { ...increaseOrder, orderType: OrderType.LimitIncrease, triggerPrice: usd(1100), acceptablePrice: usd(1110) },
+      env
+    )!;
+
+    expect(executePaperOrder(account, order, env).status).toEqual("pending");
+    expect(executePaperOrder(account, order, getEnvWithEthPrice(1090)).status).toEqual("executed");
+  });
+
+  it("cancels market orders which can't be executed at the acceptable price", () => {
+    const { account, order } = addPaperOrder(initialAccount, { ...increaseOrder, acceptablePrice: usd(1100) }, env)!;
+    const result = executePaperOrder(account, order, env);
+
+    if (result.status !== "cancelled") throw new Error("Order is not cancelled");
+
+    expect(result.account.balances.USDC).toEqual(expandDecimals(1000, 6));
+  });
+
+  it("returns the collateral to the balance on close", () => {
+    const account = openPosition();
+    const position = Object.values(account.positions)[0];
+
+    const { account: accountWithOrder, order } = addPaperOrder(
+      account,
+      {
+        ...increaseOrder,
+        orderType: OrderType.MarketDecrease,
+        initialCollateralDeltaAmount: position.collateralAmount,
+        acceptablePrice: usd(1100),
+      },
+      env
+    )!;
+    const result = executePaperOrder(accountWithOrder, order, env);
+
+    if (result.status !== "executed") throw new Error("Position is not closed");
+
+    expect(result.account.positions).toEqual({});
+    expect(result.account.balances.USDC > expandDecimals(990, 6)).toBe(true);
+    expect(result.account.balances.USDC < expandDecimals(1000, 6)).toBe(true);
+  });
+});
+
+describe("processPaperAccount", () => {
+  it("executes triggered orders and keeps the rest", () => {
+    const { account } = addPaperOrder(
+      initialAccount,
+      { ...increaseOrder, orderType: OrderType.LimitIncrease, triggerPrice: usd(1100), acceptablePrice: usd(1110) },
+      env
+    )!;
+
+    const pending = processPaperAccount(account, env);
+
+    expect(pending.account).toBe(account);
+    expect(pending.executedCount).toEqual(0);
+
+    const executed = processPaperAccount(account, getEnvWithEthPrice(1090));
+
+    expect(executed.executedCount).toEqual(1);
+    expect(executed.account.orders).toEqual({});
+    expect(Object.keys(executed.account.positions)).toHaveLength(1);
+  });
+
+  it("liquidates positions which reached the liquidation price", () => {
+    const account = openPosition();
+
+    expect(processPaperAccount(account, getEnvWithEthPrice(1000)).liquidatedCount).toEqual(0);
+
+    const result = processPaperAccount(account, getEnvWithEthPrice(500));
+
+    expect(result.liquidatedCount).toEqual(1);
+    expect(result.account.positions).toEqual({});
+    expect(result.account.balances.USDC).toEqual(expandDecimals(500, 6));
+  });
+});
+
+describe("accruePaperPositionFees", () => {
+  it("adds borrowing and paid funding fees for the elapsed time", () => {
+    const position = {
+      sizeInUsd: usd(10000),
+      isLong: true,
+      pendingBorrowingFeesUsd: 0n,
+      fundingFeeAmount: 0n,
+      claimableLongTokenAmount: 0n,
+      claimableShortTokenAmount: 0n,
+      accruedAt: 0,
+    } as PaperPosition;
+
+    const accrued = accruePaperPositionFees(
+      position,
+      {
+        ...marketInfo,
+        borrowingFactorPerSecondForLongs: expandDecimals(1, 25),
+        fundingFactorPerSecond: expandDecimals(1, 25),
+        longsPayShorts: true,
+      },
+      tokensData.USDC,
+      1000
+    );
+
+    expect(accrued.accruedAt).toEqual(1000);
+    expect(accrued.pendingBorrowingFeesUsd).toEqual(usd(100));
+    expect(accrued.fundingFeeAmount).toEqual(expandDecimals(100, 6));
+    expect(accrued.claimableShortTokenAmount).toEqual(0n);
+  });
+});
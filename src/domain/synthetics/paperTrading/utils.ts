@@ -0,0 +1,755 @@
+import { t } from "@lingui/macro";
+import { NATIVE_TOKEN_ADDRESS, getTokenBySymbolSafe } from "config/tokens";
+import { getIsEquivalentTokens } from "domain/tokens";
+import { ethers } from "ethers";
+import { bigMath } from "lib/bigmath";
+import { expandDecimals } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import { getBorrowingFeeRateUsd, getFundingFeeRateUsd } from "../fees";
+import { MarketInfo } from "../markets";
+import {
+  DecreaseOrderParams,
+  DecreasePositionSwapType,
+  IncreaseOrderParams,
+  Order,
+  OrdersInfoData,
+  SwapOrderParams,
+  getOrderInfo,
+  isDecreaseOrderType,
+  isIncreaseOrderType,
+  isMarketOrderType,
+  isSwapOrderType,
+} from "../orders";
+import { Position, PositionInfo, PositionsInfoData, getPositionInfo, getPositionKey } from "../positions";
+import { TokenData, TokensData, convertToContractPrice, convertToTokenAmount, parseContractPrice } from "../tokens";
+import {
+  FindSwapPath,
+  TriggerThresholdType,
+  applySlippageToMinOut,
+  applySlippageToPrice,
+  getDecreasePositionAmounts,
+  getIncreasePositionAmounts,
+  getMarkPrice,
+  getSwapAmountsByFromValue,
+  getSwapPathOutputAddresses,
+  getSwapPathStats,
+  getTriggerThresholdType,
+} from "../trade";
+import type {
+  NewPaperOrder,
+  PaperAccount,
+  PaperOrderExecutionResult,
+  PaperOrderUpdate,
+  PaperPosition,
+  PaperTradingEnvironment,
+} from "./types";
+
+export const PAPER_ORDER_KEY_PREFIX = "paper-";
+
+export const PAPER_TRADING_INITIAL_BALANCE_USD = 10_000;
+
+export function getInitialPaperAccount(chainId: number): PaperAccount {
+  const usdc = getTokenBySymbolSafe(chainId, "USDC", { version: "v2" });
+
+  return {
+    balances: usdc ? { [usdc.address]: expandDecimals(PAPER_TRADING_INITIAL_BALANCE_USD, usdc.decimals) } : {},
+    positions: {},
+    orders: {},
+    lastOrderId: 0,
+  };
+}
+
+export function getIsPaperOrderKey(orderKey: string) {
+  return orderKey.startsWith(PAPER_ORDER_KEY_PREFIX);
+}
+
+export function getPaperBalance(account: PaperAccount, tokenAddress: string) {
+  return account.balances[tokenAddress] ?? 0n;
+}
+
+export function getPaperTokensData(tokensData: TokensData, account: PaperAccount): TokensData {
+  return Object.keys(tokensData).reduce((acc, address) => {
+    acc[address] = { ...tokensData[address], balance: getPaperBalance(account, address) };
+
+    return acc;
+  }, {} as TokensData);
+}
+
+/**
+ * Adds borrowing and funding fees accrued since the last update of the position,
+ * received funding fees become claimable in the collateral token
+ */
+export function accruePaperPositionFees(
+  position: PaperPosition,
+  marketInfo: MarketInfo,
+  collateralToken: TokenData,
+  now: number
+): PaperPosition {
+  const periodInSeconds = now - position.accruedAt;
+
+  if (periodInSeconds <= 0) {
+    return position;
+  }
+
+  const { isLong, sizeInUsd } = position;
+
+  const borrowingFeeUsd = getBorrowingFeeRateUsd(marketInfo, isLong, sizeInUsd, periodInSeconds);
+  // positive when the position receives funding
+  const fundingRateUsd = getFundingFeeRateUsd(marketInfo, isLong, sizeInUsd, periodInSeconds);
+  const fundingAmount = convertToTokenAmount(
+    bigMath.abs(fundingRateUsd),
+    collateralToken.decimals,
+    collateralToken.prices.minPrice
+  )!;
+
+  const nextPosition: PaperPosition = {
+    ...position,
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd + borrowingFeeUsd,
+    accruedAt: now,
+  };
+
+  if (fundingRateUsd < 0) {
+    nextPosition.fundingFeeAmount = position.fundingFeeAmount + fundingAmount;
+  } else if (getIsEquivalentTokens(collateralToken, marketInfo.longToken)) {
+    nextPosition.claimableLongTokenAmount = position.claimableLongTokenAmount + fundingAmount;
+  } else {
+    nextPosition.claimableShortTokenAmount = position.claimableShortTokenAmount + fundingAmount;
+  }
+
+  return nextPosition;
+}
+
+export function getPaperPositionInfo(
+  position: PaperPosition,
+  env: PaperTradingEnvironment,
+  showPnlInLeverage = false
+): PositionInfo | undefined {
+  const marketInfo = getByKey(env.marketsInfoData, position.marketAddress);
+  const collateralToken = getByKey(env.tokensData, position.collateralTokenAddress);
+
+  if (!marketInfo || !collateralToken) {
+    return undefined;
+  }
+
+  return getPositionInfo({
+    position: accruePaperPositionFees(position, marketInfo, collateralToken, env.now),
+    marketsInfoData: env.marketsInfoData,
+    tokensData: env.tokensData,
+    minCollateralUsd: env.minCollateralUsd,
+    userReferralInfo: env.userReferralInfo,
+    uiFeeFactor: env.uiFeeFactor,
+    showPnlInLeverage,
+  });
+}
+
+export function getPaperPositionsInfoData(
+  account: PaperAccount,
+  env: PaperTradingEnvironment,
+  showPnlInLeverage: boolean
+): PositionsInfoData {
+  return Object.values(account.positions).reduce((acc, position) => {
+    const positionInfo = getPaperPositionInfo(position, env, showPnlInLeverage);
+
+    if (positionInfo) {
+      acc[position.key] = positionInfo;
+    }
+
+    return acc;
+  }, {} as PositionsInfoData);
+}
+
+export function getPaperOrdersInfoData(account: PaperAccount, env: PaperTradingEnvironment): OrdersInfoData {
+  return Object.values(account.orders).reduce((acc, order) => {
+    const orderInfo = getOrderInfo({
+      marketsInfoData: env.marketsInfoData,
+      tokensData: env.tokensData,
+      wrappedNativeToken: env.wrappedNativeToken,
+      order,
+    });
+
+    if (orderInfo) {
+      acc[order.key] = orderInfo;
+    }
+
+    return acc;
+  }, {} as OrdersInfoData);
+}
+
+/**
+ * Executes the triggered orders and liquidates the positions which reached the liquidation price
+ */
+export function processPaperAccount(account: PaperAccount, env: PaperTradingEnvironment) {
+  let nextAccount = account;
+  let executedCount = 0;
+  let liquidatedCount = 0;
+  const cancelReasons: string[] = [];
+
+  for (const order of Object.values(account.orders)) {
+    const result = executePaperOrder(nextAccount, order, env);
+
+    if (result.status === "pending") {
+      continue;
+    }
+
+    nextAccount = result.account;
+
+    if (result.status === "executed") {
+      executedCount++;
+    } else {
+      cancelReasons.push(result.reason);
+    }
+  }
+
+  for (const position of Object.values(nextAccount.positions)) {
+    const positionInfo = getPaperPositionInfo(position, env);
+
+    if (positionInfo && getIsPaperPositionLiquidatable(positionInfo)) {
+      nextAccount = removePaperPosition(nextAccount, position.key);
+      liquidatedCount++;
+    }
+  }
+
+  return { account: nextAccount, executedCount, cancelReasons, liquidatedCount };
+}
+
+export function wrapOrUnwrapPaperBalance(
+  account: PaperAccount,
+  p: { fromTokenAddress: string; toTokenAddress: string; amount: bigint }
+): PaperAccount | undefined {
+  if (getPaperBalance(account, p.fromTokenAddress) < p.amount) {
+    return undefined;
+  }
+
+  let balances = addPaperBalance(account.balances, p.fromTokenAddress, -p.amount);
+  balances = addPaperBalance(balances, p.toTokenAddress, p.amount);
+
+  return { ...account, balances };
+}
+
+/**
+ * Collateral of increase and swap orders is locked on creation,
+ * returns undefined if the balance is not enough to pay for the order.
+ * Like real orders, orders paid with the native token keep the wrapped token as the initial collateral
+ */
+export function addPaperOrder(
+  account: PaperAccount,
+  newOrder: NewPaperOrder,
+  env: Pick<PaperTradingEnvironment, "wrappedNativeToken">
+): { account: PaperAccount; order: Order } | undefined {
+  const { orderType, isLong, allowedSlippage, indexTokenDecimals } = newOrder;
+  const isDecrease = isDecreaseOrderType(orderType);
+  const isMarket = isMarketOrderType(orderType);
+
+  let balances = account.balances;
+
+  if (!isDecrease) {
+    if (getPaperBalance(account, newOrder.initialCollateralTokenAddress) < newOrder.initialCollateralDeltaAmount) {
+      return undefined;
+    }
+
+    balances = addPaperBalance(
+      balances,
+      newOrder.initialCollateralTokenAddress,
+      -newOrder.initialCollateralDeltaAmount
+    );
+  }
+
+  const acceptablePrice = isMarket
+    ? applySlippageToPrice(allowedSlippage, newOrder.acceptablePrice, !isDecrease, isLong)
+    : newOrder.acceptablePrice;
+  const minOutputAmount = isMarket
+    ? applySlippageToMinOut(allowedSlippage, newOrder.minOutputAmount)
+    : newOrder.minOutputAmount;
+
+  const orderId = account.lastOrderId + 1;
+
+  const order: Order = {
+    key: `${PAPER_ORDER_KEY_PREFIX}${orderId}`,
+    account: newOrder.account,
+    callbackContract: ethers.ZeroAddress,
+    initialCollateralTokenAddress:
+      newOrder.initialCollateralTokenAddress === NATIVE_TOKEN_ADDRESS
+        ? env.wrappedNativeToken.address
+        : newOrder.initialCollateralTokenAddress,
+    marketAddress: newOrder.marketAddress,
+    decreasePositionSwapType: newOrder.decreasePositionSwapType,
+    receiver: newOrder.account,
+    swapPath: newOrder.swapPath,
+    contractAcceptablePrice: convertToContractPrice(acceptablePrice, indexTokenDecimals),
+    contractTriggerPrice: convertToContractPrice(newOrder.triggerPrice ?? 0n, indexTokenDecimals),
+    callbackGasLimit: 0n,
+    executionFee: 0n,
+    initialCollateralDeltaAmount: newOrder.initialCollateralDeltaAmount,
+    minOutputAmount,
+    sizeDeltaUsd: newOrder.sizeDeltaUsd,
+    updatedAtBlock: 0n,
+    isFrozen: false,
+    isLong,
+    orderType,
+    shouldUnwrapNativeToken: newOrder.shouldUnwrapNativeToken,
+    data: "0x",
+  };
+
+  return {
+    account: { ...account, balances, orders: { ...account.orders, [order.key]: order }, lastOrderId: orderId },
+    order,
+  };
+}
+
+export function getPaperIncreaseOrders(p: IncreaseOrderParams): NewPaperOrder[] {
+  const legs = p.scaledLegs?.length ? p.scaledLegs : [p];
+
+  return legs.map((leg) => ({
+    account: p.account,
+    marketAddress: p.marketAddress,
+    initialCollateralTokenAddress: p.initialCollateralAddress,
+    initialCollateralDeltaAmount: leg.initialCollateralAmount,
+    swapPath: p.swapPath,
+    sizeDeltaUsd: leg.sizeDeltaUsd,
+    minOutputAmount: 0n,
+    isLong: p.isLong,
+    orderType: p.orderType,
+    shouldUnwrapNativeToken: false,
+    decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
+    triggerPrice: leg.triggerPrice,
+    acceptablePrice: leg.acceptablePrice,
+    allowedSlippage: p.allowedSlippage,
+    indexTokenDecimals: p.indexToken.decimals,
+  }));
+}
+
+export function getPaperDecreaseOrder(p: DecreaseOrderParams): NewPaperOrder {
+  return {
+    account: p.account,
+    marketAddress: p.marketAddress,
+    initialCollateralTokenAddress: p.initialCollateralAddress,
+    initialCollateralDeltaAmount: p.initialCollateralDeltaAmount,
+    swapPath: p.swapPath,
+    sizeDeltaUsd: p.sizeDeltaUsd,
+    minOutputAmount: p.minOutputUsd,
+    isLong: p.isLong,
+    orderType: p.orderType,
+    shouldUnwrapNativeToken: p.receiveTokenAddress === NATIVE_TOKEN_ADDRESS,
+    decreasePositionSwapType: p.decreasePositionSwapType,
+    triggerPrice: p.triggerPrice,
+    acceptablePrice: p.acceptablePrice,
+    allowedSlippage: p.allowedSlippage,
+    indexTokenDecimals: p.indexToken.decimals,
+  };
+}
+
+/**
+ * Split legs are not needed for virtual swaps, the whole amount is swapped through the main path
+ */
+export function getPaperSwapOrder(p: SwapOrderParams): NewPaperOrder {
+  return {
+    account: p.account,
+    marketAddress: ethers.ZeroAddress,
+    initialCollateralTokenAddress: p.fromTokenAddress,
+    initialCollateralDeltaAmount: p.fromTokenAmount,
+    swapPath: p.swapPath,
+    sizeDeltaUsd: 0n,
+    minOutputAmount: p.minOutputAmount,
+    isLong: false,
+    orderType: p.orderType,
+    shouldUnwrapNativeToken: p.toTokenAddress === NATIVE_TOKEN_ADDRESS,
+    decreasePositionSwapType: DecreasePositionSwapType.NoSwap,
+    triggerPrice: undefined,
+    acceptablePrice: 0n,
+    allowedSlippage: p.allowedSlippage,
+    indexTokenDecimals: 0,
+  };
+}
+
+export function updatePaperOrder(account: PaperAccount, orderKey: string, update: PaperOrderUpdate): PaperAccount {
+  const order = account.orders[orderKey];
+
+  if (!order) {
+    return account;
+  }
+
+  const indexTokenDecimals = update.indexTokenDecimals ?? 0;
+
+  const nextOrder: Order = {
+    ...order,
+    sizeDeltaUsd: update.sizeDeltaUsd,
+    contractTriggerPrice: convertToContractPrice(update.triggerPrice, indexTokenDecimals),
+    contractAcceptablePrice: convertToContractPrice(update.acceptablePrice, indexTokenDecimals),
+    minOutputAmount: update.minOutputAmount,
+  };
+
+  return { ...account, orders: { ...account.orders, [orderKey]: nextOrder } };
+}
+
+export function cancelPaperOrders(account: PaperAccount, orderKeys: string[]): PaperAccount {
+  return orderKeys.reduce((acc, orderKey) => {
+    const order = acc.orders[orderKey];
+
+    return order ? removePaperOrder(acc, order, { shouldRefund: true }) : acc;
+  }, account);
+}
+
+/**
+ * Executes the order against the current prices if it is triggered,
+ * market orders are always triggered and are cancelled if they can't be executed
+ */
+export function executePaperOrder(
+  account: PaperAccount,
+  order: Order,
+  env: PaperTradingEnvironment
+): PaperOrderExecutionResult {
+  if (isSwapOrderType(order.orderType)) {
+    return executePaperSwapOrder(account, order, env);
+  }
+
+  if (isIncreaseOrderType(order.orderType)) {
+    return executePaperIncreaseOrder(account, order, env);
+  }
+
+  return executePaperDecreaseOrder(account, order, env);
+}
+
+function executePaperSwapOrder(account: PaperAccount, order: Order, env: PaperTradingEnvironment) {
+  const isMarket = isMarketOrderType(order.orderType);
+  const tokenIn = getByKey(env.tokensData, order.initialCollateralTokenAddress);
+  const tokenOut = getByKey(env.tokensData, getOrderOutputTokenAddress(order, env));
+
+  if (!tokenIn || !tokenOut) {
+    return getCancelledResult(account, order, t`Unknown swap token`);
+  }
+
+  const swapAmounts = getSwapAmountsByFromValue({
+    tokenIn,
+    tokenOut,
+    amountIn: order.initialCollateralDeltaAmount,
+    isLimit: false,
+    findSwapPath: getOrderSwapPathFinder(order, env),
+    uiFeeFactor: env.uiFeeFactor,
+  });
+
+  if (swapAmounts.amountOut <= 0 || swapAmounts.amountOut < order.minOutputAmount) {
+    return isMarket ? getCancelledResult(account, order, t`Insufficient swap output amount`) : getPendingResult();
+  }
+
+  const nextAccount = removePaperOrder(account, order, { shouldRefund: false });
+
+  return getExecutedResult({
+    ...nextAccount,
+    balances: addPaperBalance(nextAccount.balances, tokenOut.address, swapAmounts.amountOut),
+  });
+}
+
+function executePaperIncreaseOrder(account: PaperAccount, order: Order, env: PaperTradingEnvironment) {
+  const marketInfo = getByKey(env.marketsInfoData, order.marketAddress);
+  const initialCollateralToken = getByKey(env.tokensData, order.initialCollateralTokenAddress);
+  const collateralToken = getByKey(env.tokensData, getOrderOutputTokenAddress(order, env));
+
+  if (!marketInfo || !initialCollateralToken || !collateralToken) {
+    return getCancelledResult(account, order, t`Unknown market`);
+  }
+
+  const { indexToken } = marketInfo;
+  const markPrice = getMarkPrice({ prices: indexToken.prices, isIncrease: true, isLong: order.isLong });
+
+  if (!getIsPaperOrderTriggered(order, markPrice, indexToken)) {
+    return getPendingResult();
+  }
+
+  const positionKey = getPositionKey(order.account, order.marketAddress, collateralToken.address, order.isLong);
+  const existingPosition = account.positions[positionKey];
+  const positionInfo = existingPosition ? getPaperPositionInfo(existingPosition, env) : undefined;
+
+  const increaseAmounts = getIncreasePositionAmounts({
+    marketInfo,
+    indexToken,
+    initialCollateralToken,
+    collateralToken,
+    isLong: order.isLong,
+    initialCollateralAmount: order.initialCollateralDeltaAmount,
+    position: positionInfo,
+    indexTokenAmount: convertToTokenAmount(order.sizeDeltaUsd, indexToken.decimals, markPrice),
+    userReferralInfo: env.userReferralInfo,
+    strategy: "independent",
+    findSwapPath: getOrderSwapPathFinder(order, env),
+    uiFeeFactor: env.uiFeeFactor,
+  });
+
+  if (order.sizeDeltaUsd > 0 && !getIsAcceptablePriceMet(order, markPrice, indexToken, true)) {
+    return isMarketOrderType(order.orderType)
+      ? getCancelledResult(account, order, t`Acceptable price is not met`)
+      : getPendingResult();
+  }
+
+  const collateralAmount = (positionInfo?.collateralAmount ?? 0n) + increaseAmounts.collateralDeltaAmount;
+
+  if (collateralAmount <= 0) {
+    return getCancelledResult(account, order, t`Insufficient collateral`);
+  }
+
+  const basePosition: PaperPosition = positionInfo
+    ? { ...existingPosition, ...pickPositionFees(positionInfo) }
+    : {
+        key: positionKey,
+        contractKey: positionKey,
+        account: order.account,
+        marketAddress: order.marketAddress,
+        collateralTokenAddress: collateralToken.address,
+        sizeInUsd: 0n,
+        sizeInTokens: 0n,
+        collateralAmount: 0n,
+        pendingBorrowingFeesUsd: 0n,
+        increasedAtBlock: 0n,
+        decreasedAtBlock: 0n,
+        isLong: order.isLong,
+        fundingFeeAmount: 0n,
+        claimableLongTokenAmount: 0n,
+        claimableShortTokenAmount: 0n,
+        data: "0x",
+        accruedAt: env.now,
+      };
+
+  const nextAccount = removePaperOrder(account, order, { shouldRefund: false });
+
+  return getExecutedResult(
+    setPaperPosition(nextAccount, marketInfo, {
+      ...basePosition,
+      // size in tokens is derived from the order size, which is kept as is to avoid rounding
+      sizeInUsd: basePosition.sizeInUsd + order.sizeDeltaUsd,
+      sizeInTokens: basePosition.sizeInTokens + increaseAmounts.sizeDeltaInTokens,
+      collateralAmount,
+      // pending fees are paid from the collateral delta
+      pendingBorrowingFeesUsd: 0n,
+      fundingFeeAmount: 0n,
+      accruedAt: env.now,
+    })
+  );
+}
+
+function executePaperDecreaseOrder(account: PaperAccount, order: Order, env: PaperTradingEnvironment) {
+  const marketInfo = getByKey(env.marketsInfoData, order.marketAddress);
+  const receiveToken = getByKey(env.tokensData, getOrderOutputTokenAddress(order, env));
+  const positionKey = getPositionKey(
+    order.account,
+    order.marketAddress,
+    order.initialCollateralTokenAddress,
+    order.isLong
+  );
+  const position = account.positions[positionKey];
+  const positionInfo = position ? getPaperPositionInfo(position, env) : undefined;
+
+  if (!marketInfo || !receiveToken || !positionInfo) {
+    return getCancelledResult(account, order, t`Position not found`);
+  }
+
+  const { indexToken } = marketInfo;
+  const markPrice = getMarkPrice({ prices: indexToken.prices, isIncrease: false, isLong: order.isLong });
+
+  if (!getIsPaperOrderTriggered(order, markPrice, indexToken)) {
+    return getPendingResult();
+  }
+
+  const nextAccount = removePaperOrder(account, order, { shouldRefund: false });
+
+  if (order.sizeDeltaUsd === 0n) {
+    if (order.initialCollateralDeltaAmount > positionInfo.collateralAmount) {
+      return getCancelledResult(account, order, t`Insufficient collateral`);
+    }
+
+    const withdrawnAccount = setPaperPosition(nextAccount, marketInfo, {
+      ...position,
+      ...pickPositionFees(positionInfo),
+      collateralAmount: positionInfo.collateralAmount - order.initialCollateralDeltaAmount,
+      accruedAt: env.now,
+    });
+
+    return getExecutedResult({
+      ...withdrawnAccount,
+      balances: addPaperBalance(withdrawnAccount.balances, receiveToken.address, order.initialCollateralDeltaAmount),
+    });
+  }
+
+  if (!getIsAcceptablePriceMet(order, markPrice, indexToken, false)) {
+    return isMarketOrderType(order.orderType)
+      ? getCancelledResult(account, order, t`Acceptable price is not met`)
+      : getPendingResult();
+  }
+
+  const decreaseAmounts = getDecreasePositionAmounts({
+    marketInfo,
+    collateralToken: positionInfo.collateralToken,
+    isLong: order.isLong,
+    position: positionInfo,
+    closeSizeUsd: bigMath.min(order.sizeDeltaUsd, positionInfo.sizeInUsd),
+    keepLeverage: false,
+    userReferralInfo: env.userReferralInfo,
+    minCollateralUsd: env.minCollateralUsd,
+    minPositionSizeUsd: env.minPositionSizeUsd,
+    uiFeeFactor: env.uiFeeFactor,
+  });
+
+  let decreasedAccount: PaperAccount;
+  let receiveAmount: bigint;
+
+  if (decreaseAmounts.isFullClose) {
+    decreasedAccount = settlePaperPositionFunding(
+      removePaperPosition(nextAccount, positionKey),
+      marketInfo,
+      positionInfo
+    );
+    receiveAmount = decreaseAmounts.receiveTokenAmount;
+  } else {
+    const remainingCollateralAmount = positionInfo.collateralAmount - decreaseAmounts.payedRemainingCollateralAmount;
+    const collateralDeltaAmount = bigMath.min(order.initialCollateralDeltaAmount, remainingCollateralAmount);
+
+    decreasedAccount = setPaperPosition(nextAccount, marketInfo, {
+      ...position,
+      sizeInUsd: positionInfo.sizeInUsd - decreaseAmounts.sizeDeltaUsd,
+      sizeInTokens: positionInfo.sizeInTokens - decreaseAmounts.sizeDeltaInTokens,
+      collateralAmount: remainingCollateralAmount - collateralDeltaAmount,
+      // pending fees are paid on decrease
+      pendingBorrowingFeesUsd: 0n,
+      fundingFeeAmount: 0n,
+      claimableLongTokenAmount: positionInfo.claimableLongTokenAmount,
+      claimableShortTokenAmount: positionInfo.claimableShortTokenAmount,
+      accruedAt: env.now,
+    });
+    receiveAmount = decreaseAmounts.receiveTokenAmount + collateralDeltaAmount;
+  }
+
+  return getExecutedResult({
+    ...decreasedAccount,
+    balances: addPaperBalance(decreasedAccount.balances, receiveToken.address, receiveAmount),
+  });
+}
+
+/**
+ * The whole collateral of a liquidated position is lost
+ */
+function getIsPaperPositionLiquidatable(position: PositionInfo) {
+  const { liquidationPrice, markPrice, isLong } = position;
+
+  if (liquidationPrice === undefined || liquidationPrice <= 0) {
+    return false;
+  }
+
+  return isLong ? markPrice <= liquidationPrice : markPrice >= liquidationPrice;
+}
+
+function getIsPaperOrderTriggered(order: Order, markPrice: bigint, indexToken: TokenData) {
+  if (isMarketOrderType(order.orderType)) {
+    return true;
+  }
+
+  const triggerPrice = parseContractPrice(order.contractTriggerPrice, indexToken.decimals);
+  const triggerThresholdType = getTriggerThresholdType(order.orderType, order.isLong);
+
+  return triggerThresholdType === TriggerThresholdType.Above ? markPrice >= triggerPrice : markPrice <= triggerPrice;
+}
+
+function getIsAcceptablePriceMet(order: Order, markPrice: bigint, indexToken: TokenData, isIncrease: boolean) {
+  const acceptablePrice = parseContractPrice(order.contractAcceptablePrice, indexToken.decimals);
+  const shouldBeBelow = isIncrease ? order.isLong : !order.isLong;
+
+  return shouldBeBelow ? markPrice <= acceptablePrice : markPrice >= acceptablePrice;
+}
+
+function getOrderOutputTokenAddress(order: Order, env: PaperTradingEnvironment) {
+  return getSwapPathOutputAddresses({
+    marketsInfoData: env.marketsInfoData,
+    initialCollateralAddress: order.initialCollateralTokenAddress,
+    swapPath: order.swapPath,
+    wrappedNativeTokenAddress: env.wrappedNativeToken.address,
+    shouldUnwrapNativeToken: order.shouldUnwrapNativeToken,
+    isIncrease: isIncreaseOrderType(order.orderType),
+  }).outTokenAddress;
+}
+
+/**
+ * Orders keep the swap path they were created with
+ */
+function getOrderSwapPathFinder(order: Order, env: PaperTradingEnvironment): FindSwapPath {
+  return (usdIn) =>
+    getSwapPathStats({
+      marketsInfoData: env.marketsInfoData,
+      swapPath: order.swapPath,
+      initialCollateralAddress: order.initialCollateralTokenAddress,
+      wrappedNativeTokenAddress: env.wrappedNativeToken.address,
+      usdIn,
+      shouldUnwrapNativeToken: order.shouldUnwrapNativeToken,
+      shouldApplyPriceImpact: true,
+    });
+}
+
+function pickPositionFees(position: PositionInfo) {
+  return {
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd,
+    fundingFeeAmount: position.fundingFeeAmount,
+    claimableLongTokenAmount: position.claimableLongTokenAmount,
+    claimableShortTokenAmount: position.claimableShortTokenAmount,
+  };
+}
+
+/**
+ * Claimable funding fees are sent to the balances on every update of the position
+ */
+function setPaperPosition(account: PaperAccount, marketInfo: MarketInfo, position: PaperPosition): PaperAccount {
+  const settledAccount = settlePaperPositionFunding(account, marketInfo, position);
+
+  return {
+    ...settledAccount,
+    positions: {
+      ...settledAccount.positions,
+      [position.key]: { ...position, claimableLongTokenAmount: 0n, claimableShortTokenAmount: 0n },
+    },
+  };
+}
+
+function settlePaperPositionFunding(
+  account: PaperAccount,
+  marketInfo: MarketInfo,
+  position: Pick<Position, "claimableLongTokenAmount" | "claimableShortTokenAmount">
+) {
+  let balances = addPaperBalance(account.balances, marketInfo.longTokenAddress, position.claimableLongTokenAmount);
+  balances = addPaperBalance(balances, marketInfo.shortTokenAddress, position.claimableShortTokenAmount);
+
+  return { ...account, balances };
+}
+
+function removePaperPosition(account: PaperAccount, positionKey: string) {
+  const positions = { ...account.positions };
+  delete positions[positionKey];
+
+  return { ...account, positions };
+}
+
+function removePaperOrder(account: PaperAccount, order: Order, { shouldRefund }: { shouldRefund: boolean }) {
+  const orders = { ...account.orders };
+  delete orders[order.key];
+
+  const balances =
+    shouldRefund && !isDecreaseOrderType(order.orderType)
+      ? addPaperBalance(account.balances, order.initialCollateralTokenAddress, order.initialCollateralDeltaAmount)
+      : account.balances;
+
+  return { ...account, orders, balances };
+}
+
+function addPaperBalance(balances: PaperAccount["balances"], tokenAddress: string, amount: bigint) {
+  if (amount === 0n) {
+    return balances;
+  }
+
+  return { ...balances, [tokenAddress]: (balances[tokenAddress] ?? 0n) + amount };
+}
+
+function getPendingResult(): PaperOrderExecutionResult {
+  return { status: "pending" };
+}
+
+function getExecutedResult(account: PaperAccount): PaperOrderExecutionResult {
+  return { status: "executed", account };
+}
+
+function getCancelledResult(account: PaperAccount, order: Order, reason: string): PaperOrderExecutionResult {
+  return { status: "cancelled", account: removePaperOrder(account, order, { shouldRefund: true }), reason };
+}
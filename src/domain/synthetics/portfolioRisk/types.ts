@@ -0,0 +1,42 @@
+import type { Token } from "domain/tokens";
+import type { PositionInfo } from "../positions";
+
+export type PriceShock = {
+  token: Token;
+  /**
+   * Signed price change, -1500 is a 15% drop
+   */
+  shockBps: bigint;
+};
+
+export type PositionRiskScenario = {
+  position: PositionInfo;
+  markPrice: bigint;
+  collateralUsd: bigint;
+  pnl: bigint;
+  netValue: bigint;
+  leverage: bigint | undefined;
+  liquidationPrice: bigint | undefined;
+  /**
+   * Positive values are paid by the position, negative values are received
+   */
+  horizonBorrowingFeesUsd: bigint;
+  horizonFundingFeesUsd: bigint;
+  isLiquidatable: boolean;
+  /**
+   * How far the mark price can move against the position before it is liquidated, zero when already liquidatable
+   */
+  liquidationDistanceBps: bigint | undefined;
+};
+
+export type PortfolioRiskScenario = {
+  /**
+   * Sorted by the distance to liquidation, the positions closest to liquidation go first
+   */
+  positions: PositionRiskScenario[];
+  netValue: bigint;
+  netValueDelta: bigint;
+  pnl: bigint;
+  horizonFeesUsd: bigint;
+  liquidatableCount: number;
+};
@@ -0,0 +1,118 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import { MarketInfo } from "../markets";
+import { PositionInfo } from "../positions";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import { getPortfolioRiskScenario, getPositionRiskScenario, getShockedPrice } from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC", "BTC-BTC-USDC"]);
+
+function mockPosition(marketInfo: MarketInfo, p: { sizeUsd: number; sizeInTokens: bigint; collateralUsd: number }) {
+  return {
+    key: marketInfo.marketTokenAddress,
+    marketInfo,
+    indexToken: marketInfo.indexToken,
+    collateralToken: tokensData.USDC,
+    isLong: true,
+    sizeInUsd: usd(p.sizeUsd),
+    sizeInTokens: p.sizeInTokens,
+    collateralAmount: expandDecimals(p.collateralUsd, tokensData.USDC.decimals),
+    markPrice: marketInfo.indexToken.prices.minPrice,
+    pendingBorrowingFeesUsd: 0n,
+    pendingFundingFeesUsd: 0n,
+    closingFeeUsd: 0n,
+    uiFeeUsd: 0n,
+    netValue: usd(p.collateralUsd),
+  } as PositionInfo;
+}
+
+// 10x long, liquidated after a 10% drop
+const ethPosition = mockPosition(marketsInfoData["ETH-ETH-USDC"], {
+  sizeUsd: 12000,
+  sizeInTokens: expandDecimals(10, 18),
+  collateralUsd: 1200,
+});
+
+// 2x long
+const btcPosition = mockPosition(marketsInfoData["BTC-BTC-USDC"], {
+  sizeUsd: 20000,
+  sizeInTokens: expandDecimals(1, 8),
+  collateralUsd: 10000,
+});
+
+const scenarioParams = { horizonInSeconds: 0, minCollateralUsd: usd(1), userReferralInfo: undefined };
+
+describe("getShockedPrice", () => {
+  it("applies the signed shock and doesn't go below zero", () => {
+    expect(getShockedPrice(usd(2000), -1500n)).toEqual(usd(1700));
+    expect(getShockedPrice(usd(2000), 1000n)).toEqual(usd(2200));
+    expect(getShockedPrice(usd(2000), -20000n)).toEqual(0n);
+  });
+});
+
+describe("getPositionRiskScenario", () => {
+  it("recomputes pnl and leverage at the shocked price", () => {
+    const scenario = getPositionRiskScenario({
+      position: btcPosition,
+      priceShocks: [{ token: tokensData.BTC, shockBps: -1000n }],
+      ...scenarioParams,
+    });
+
+    expect(scenario.markPrice).toEqual(usd(18000));
+    expect(scenario.pnl).toEqual(usd(-2000));
+    expect(scenario.leverage).toEqual(25000n);
+    expect(scenario.isLiquidatable).toBe(false);
+  });
+
+  it("ignores shocks of unrelated tokens", () => {
+    const scenario = getPositionRiskScenario({
+      position: btcPosition,
+      priceShocks: [{ token: tokensData.ETH, shockBps: -5000n }],
+      ...scenarioParams,
+    });
+
+    expect(scenario.pnl).toEqual(0n);
+  });
+
+  it("includes the fees accrued over the horizon", () => {
+    const marketInfo = {
+      ...marketsInfoData["BTC-BTC-USDC"],
+      borrowingFactorPerSecondForLongs: expandDecimals(1, 20),
+      fundingFactorPerSecond: expandDecimals(1, 20),
+      longsPayShorts: true,
+    };
+
+    const scenario = getPositionRiskScenario({
+      position: { ...btcPosition, marketInfo },
+      priceShocks: [],
+      ...scenarioParams,
+      horizonInSeconds: 1000,
+    });
+
+    expect(scenario.horizonBorrowingFeesUsd).toEqual(usd(20000) / 10n ** 7n);
+    expect(scenario.horizonFundingFeesUsd).toEqual(usd(20000) / 10n ** 7n);
+    expect(scenario.netValue).toEqual(usd(10000) - (usd(20000) / 10n ** 7n) * 2n);
+  });
+});
+
+describe("getPortfolioRiskScenario", () => {
+  it("puts the positions closest to liquidation first", () => {
+    const scenario = getPortfolioRiskScenario({
+      positions: [btcPosition, ethPosition],
+      priceShocks: [
+        { token: tokensData.ETH, shockBps: -1500n },
+        { token: tokensData.BTC, shockBps: -1000n },
+      ],
+      ...scenarioParams,
+    });
+
+    expect(scenario.positions.map((p) => p.position.key)).toEqual(["ETH-ETH-USDC", "BTC-BTC-USDC"]);
+    expect(scenario.positions[0].isLiquidatable).toBe(true);
+    expect(scenario.positions[0].liquidationDistanceBps).toEqual(0n);
+    expect(scenario.liquidatableCount).toBe(1);
+    expect(scenario.netValue).toEqual(usd(8000));
+    expect(scenario.netValueDelta).toEqual(usd(-3200));
+  });
+});
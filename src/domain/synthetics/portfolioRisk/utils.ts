@@ -0,0 +1,149 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { UserReferralInfo } from "domain/referrals";
+import { Token, getIsEquivalentTokens } from "domain/tokens";
+import { bigMath } from "lib/bigmath";
+import { applyFactor } from "lib/numbers";
+import { getBorrowingFactorPerPeriod, getFundingFactorPerPeriod } from "../fees";
+import { PositionInfo, getLeverage, getLiquidationPrice, getPositionNetValue, getPositionPnlUsd } from "../positions";
+import { convertToUsd } from "../tokens";
+import type { PortfolioRiskScenario, PositionRiskScenario, PriceShock } from "./types";
+
+export function getShockedPrice(price: bigint, shockBps: bigint) {
+  const shockedPrice = price + bigMath.mulDiv(price, shockBps, BASIS_POINTS_DIVISOR_BIGINT);
+
+  return shockedPrice > 0 ? shockedPrice : 0n;
+}
+
+export function getTokenPriceShockBps(priceShocks: PriceShock[], token: Token) {
+  return priceShocks.find((priceShock) => getIsEquivalentTokens(priceShock.token, token))?.shockBps ?? 0n;
+}
+
+export function getPositionRiskScenario(p: {
+  position: PositionInfo;
+  priceShocks: PriceShock[];
+  horizonInSeconds: number;
+  minCollateralUsd: bigint;
+  userReferralInfo: UserReferralInfo | undefined;
+}): PositionRiskScenario {
+  const { position, priceShocks, horizonInSeconds, minCollateralUsd, userReferralInfo } = p;
+  const { marketInfo, collateralToken, isLong, sizeInUsd, sizeInTokens, collateralAmount } = position;
+
+  const markPrice = getShockedPrice(position.markPrice, getTokenPriceShockBps(priceShocks, position.indexToken));
+  const collateralPrice = getShockedPrice(
+    collateralToken.prices.minPrice,
+    getTokenPriceShockBps(priceShocks, collateralToken)
+  );
+  const collateralUsd = convertToUsd(collateralAmount, collateralToken.decimals, collateralPrice)!;
+
+  const horizonBorrowingFeesUsd = applyFactor(
+    sizeInUsd,
+    getBorrowingFactorPerPeriod(marketInfo, isLong, horizonInSeconds)
+  );
+  const horizonFundingFeesUsd = -applyFactor(
+    sizeInUsd,
+    getFundingFactorPerPeriod(marketInfo, isLong, horizonInSeconds)
+  );
+
+  const pendingBorrowingFeesUsd = position.pendingBorrowingFeesUsd + horizonBorrowingFeesUsd;
+  // received funding becomes claimable and doesn't back the position collateral
+  const pendingFundingFeesUsd = position.pendingFundingFeesUsd + bigMath.max(horizonFundingFeesUsd, 0n);
+
+  const pnl = getPositionPnlUsd({ marketInfo, sizeInUsd, sizeInTokens, markPrice, isLong });
+
+  const leverage = getLeverage({ sizeInUsd, collateralUsd, pnl, pendingBorrowingFeesUsd, pendingFundingFeesUsd });
+
+  const liquidationPrice = getLiquidationPrice({
+    sizeInUsd,
+    sizeInTokens,
+    collateralAmount,
+    collateralUsd,
+    collateralToken,
+    marketInfo,
+    pendingFundingFeesUsd,
+    pendingBorrowingFeesUsd,
+    minCollateralUsd,
+    isLong,
+    userReferralInfo,
+  });
+
+  const isLiquidatable =
+    leverage === undefined ||
+    (liquidationPrice !== undefined && (isLong ? markPrice <= liquidationPrice : markPrice >= liquidationPrice));
+
+  let liquidationDistanceBps: bigint | undefined = undefined;
+
+  if (isLiquidatable) {
+    liquidationDistanceBps = 0n;
+  } else if (liquidationPrice !== undefined && markPrice > 0) {
+    liquidationDistanceBps = bigMath.mulDiv(
+      bigMath.abs(markPrice - liquidationPrice),
+      BASIS_POINTS_DIVISOR_BIGINT,
+      markPrice
+    );
+  }
+
+  const netValue = getPositionNetValue({
+    collateralUsd,
+    pnl,
+    pendingBorrowingFeesUsd,
+    pendingFundingFeesUsd,
+    closingFeeUsd: position.closingFeeUsd,
+    uiFeeUsd: position.uiFeeUsd,
+  });
+
+  return {
+    position,
+    markPrice,
+    collateralUsd,
+    pnl,
+    // losses of a liquidated position are limited to its collateral
+    netValue: isLiquidatable ? bigMath.max(netValue, 0n) : netValue,
+    leverage,
+    liquidationPrice,
+    horizonBorrowingFeesUsd,
+    horizonFundingFeesUsd,
+    isLiquidatable,
+    liquidationDistanceBps,
+  };
+}
+
+export function getPortfolioRiskScenario(p: {
+  positions: PositionInfo[];
+  priceShocks: PriceShock[];
+  horizonInSeconds: number;
+  minCollateralUsd: bigint;
+  userReferralInfo: UserReferralInfo | undefined;
+}): PortfolioRiskScenario {
+  const { positions, ...scenarioParams } = p;
+
+  const positionScenarios = positions
+    .map((position) => getPositionRiskScenario({ position, ...scenarioParams }))
+    .sort(compareByLiquidationDistance);
+
+  return positionScenarios.reduce(
+    (acc, scenario) => {
+      acc.netValue += scenario.netValue;
+      acc.netValueDelta += scenario.netValue - scenario.position.netValue;
+      acc.pnl += scenario.pnl;
+      acc.horizonFeesUsd += scenario.horizonBorrowingFeesUsd + scenario.horizonFundingFeesUsd;
+      acc.liquidatableCount += scenario.isLiquidatable ? 1 : 0;
+
+      return acc;
+    },
+    {
+      positions: positionScenarios,
+      netValue: 0n,
+      netValueDelta: 0n,
+      pnl: 0n,
+      horizonFeesUsd: 0n,
+      liquidatableCount: 0,
+    } as PortfolioRiskScenario
+  );
+}
+
+function compareByLiquidationDistance(a: PositionRiskScenario, b: PositionRiskScenario) {
+  if (a.liquidationDistanceBps === undefined) return b.liquidationDistanceBps === undefined ? 0 : 1;
+  if (b.liquidationDistanceBps === undefined) return -1;
+
+  return Number(a.liquidationDistanceBps - b.liquidationDistanceBps);
+}
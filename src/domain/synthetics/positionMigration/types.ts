@@ -0,0 +1,22 @@
+import type { MarketInfo } from "domain/synthetics/markets";
+import type { TokenData } from "domain/synthetics/tokens";
+import type { DecreasePositionAmounts, IncreasePositionAmounts } from "domain/synthetics/trade";
+
+export type PositionMigrationTarget = {
+  marketInfo: MarketInfo;
+  collateralToken: TokenData;
+  positionKey: string;
+};
+
+export type PositionMigrationAmounts = {
+  decreaseAmounts: DecreasePositionAmounts;
+  increaseAmounts: IncreasePositionAmounts;
+  /**
+   * Fees of both orders, positive values are paid by the user
+   */
+  feesUsd: bigint;
+  /**
+   * Price impact of both orders, negative values are paid by the user
+   */
+  priceImpactDeltaUsd: bigint;
+};
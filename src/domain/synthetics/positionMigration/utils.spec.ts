@@ -0,0 +1,70 @@
+import type { PositionInfo } from "domain/synthetics/positions";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { mockMarketsInfoData, mockTokensData } from "domain/synthetics/testUtils/mocks";
+import type { DecreasePositionAmounts, IncreasePositionAmounts } from "domain/synthetics/trade";
+import { describe, expect, it } from "vitest";
+import { getPositionMigrationFees, getPositionMigrationTargets } from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC", "ETH-ETH-DAI", "BTC-BTC-USDC"]);
+
+const position = {
+  key: "account:ETH-ETH-USDC:USDC:true",
+  account: "account",
+  isLong: true,
+  marketInfo: marketsInfoData["ETH-ETH-USDC"],
+} as PositionInfo;
+
+describe("getPositionMigrationTargets", () => {
+  it("returns other collaterals and markets of the same index token", () => {
+    expect(
+      getPositionMigrationTargets(position, marketsInfoData).map(({ marketInfo, collateralToken }) => [
+        marketInfo.marketTokenAddress,
+        collateralToken.address,
+      ])
+    ).toEqual([
+      ["ETH-ETH-USDC", "ETH"],
+      ["ETH-ETH-DAI", "ETH"],
+      ["ETH-ETH-DAI", "DAI"],
+    ]);
+  });
+
+  it("skips disabled markets", () => {
+    const data = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC", "ETH-ETH-DAI"], {
+      "ETH-ETH-DAI": { isDisabled: true },
+    });
+
+    expect(getPositionMigrationTargets(position, data).map((target) => target.positionKey)).toEqual([
+      "account:ETH-ETH-USDC:ETH:true",
+    ]);
+  });
+});
+
+describe("getPositionMigrationFees", () => {
+  it("combines fees and price impact of both orders", () => {
+    const decreaseAmounts = {
+      positionFeeUsd: usd(1),
+      uiFeeUsd: 0n,
+      swapUiFeeUsd: 0n,
+      swapProfitFeeUsd: 0n,
+      borrowingFeeUsd: usd(2),
+      fundingFeeUsd: usd(3),
+      positionPriceImpactDeltaUsd: usd(-1),
+    } as DecreasePositionAmounts;
+
+    const increaseAmounts = {
+      positionFeeUsd: usd(1),
+      uiFeeUsd: 0n,
+      swapUiFeeUsd: 0n,
+      borrowingFeeUsd: 0n,
+      fundingFeeUsd: 0n,
+      positionPriceImpactDeltaUsd: usd(-2),
+      swapPathStats: { totalSwapFeeUsd: usd(4), totalSwapPriceImpactDeltaUsd: usd(1) },
+    } as IncreasePositionAmounts;
+
+    expect(getPositionMigrationFees(decreaseAmounts, increaseAmounts)).toEqual({
+      feesUsd: usd(11),
+      priceImpactDeltaUsd: usd(-2),
+    });
+  });
+});
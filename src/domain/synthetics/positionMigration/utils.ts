@@ -0,0 +1,117 @@
+import type { MarketsInfoData } from "domain/synthetics/markets";
+import { PositionInfo, getPositionKey } from "domain/synthetics/positions";
+import type { UserReferralInfo } from "domain/referrals/types";
+import type { DecreasePositionAmounts, FindSwapPath, IncreasePositionAmounts } from "domain/synthetics/trade";
+import { getDecreasePositionAmounts, getIncreasePositionAmounts } from "domain/synthetics/trade";
+import type { PositionMigrationAmounts, PositionMigrationTarget } from "./types";
+
+/**
+ * Markets with the same index token, the direction of the position is kept
+ */
+export function getPositionMigrationTargets(
+  position: PositionInfo,
+  marketsInfoData: MarketsInfoData | undefined
+): PositionMigrationTarget[] {
+  return Object.values(marketsInfoData ?? {}).flatMap((marketInfo) => {
+    if (
+      marketInfo.isDisabled ||
+      marketInfo.isSpotOnly ||
+      marketInfo.indexTokenAddress !== position.marketInfo.indexTokenAddress
+    ) {
+      return [];
+    }
+
+    const collateralTokens = marketInfo.isSameCollaterals
+      ? [marketInfo.longToken]
+      : [marketInfo.longToken, marketInfo.shortToken];
+
+    return collateralTokens
+      .map((collateralToken) => ({
+        marketInfo,
+        collateralToken,
+        positionKey: getPositionKey(
+          position.account,
+          marketInfo.marketTokenAddress,
+          collateralToken.address,
+          position.isLong
+        ),
+      }))
+      .filter((target) => target.positionKey !== position.key);
+  });
+}
+
+export function getPositionMigrationFees(
+  decreaseAmounts: DecreasePositionAmounts,
+  increaseAmounts: IncreasePositionAmounts
+): Pick<PositionMigrationAmounts, "feesUsd" | "priceImpactDeltaUsd"> {
+  const feesUsd =
+    decreaseAmounts.positionFeeUsd +
+    decreaseAmounts.uiFeeUsd +
+    decreaseAmounts.swapUiFeeUsd +
+    decreaseAmounts.swapProfitFeeUsd +
+    decreaseAmounts.borrowingFeeUsd +
+    decreaseAmounts.fundingFeeUsd +
+    increaseAmounts.positionFeeUsd +
+    increaseAmounts.uiFeeUsd +
+    increaseAmounts.swapUiFeeUsd +
+    increaseAmounts.borrowingFeeUsd +
+    increaseAmounts.fundingFeeUsd +
+    (increaseAmounts.swapPathStats?.totalSwapFeeUsd ?? 0n);
+
+  const priceImpactDeltaUsd =
+    decreaseAmounts.positionPriceImpactDeltaUsd +
+    increaseAmounts.positionPriceImpactDeltaUsd +
+    (increaseAmounts.swapPathStats?.totalSwapPriceImpactDeltaUsd ?? 0n);
+
+  return { feesUsd, priceImpactDeltaUsd };
+}
+
+/**
+ * The position is closed and the same amount of index tokens is opened in the target,
+ * the increase is paid with the collateral the decrease is expected to return
+ */
+export function getPositionMigrationAmounts(p: {
+  position: PositionInfo;
+  target: PositionMigrationTarget;
+  targetPosition: PositionInfo | undefined;
+  userReferralInfo: UserReferralInfo | undefined;
+  minCollateralUsd: bigint;
+  minPositionSizeUsd: bigint;
+  uiFeeFactor: bigint;
+  findSwapPath: FindSwapPath;
+  acceptablePriceImpactBuffer?: number;
+}): PositionMigrationAmounts {
+  const { position, target, userReferralInfo, uiFeeFactor, acceptablePriceImpactBuffer } = p;
+
+  const decreaseAmounts = getDecreasePositionAmounts({
+    marketInfo: position.marketInfo,
+    collateralToken: position.collateralToken,
+    isLong: position.isLong,
+    position,
+    closeSizeUsd: position.sizeInUsd,
+    keepLeverage: false,
+    acceptablePriceImpactBuffer,
+    userReferralInfo,
+    minCollateralUsd: p.minCollateralUsd,
+    minPositionSizeUsd: p.minPositionSizeUsd,
+    uiFeeFactor,
+  });
+
+  const increaseAmounts = getIncreasePositionAmounts({
+    marketInfo: target.marketInfo,
+    indexToken: target.marketInfo.indexToken,
+    initialCollateralToken: position.collateralToken,
+    collateralToken: target.collateralToken,
+    isLong: position.isLong,
+    initialCollateralAmount: decreaseAmounts.receiveTokenAmount,
+    position: p.targetPosition,
+    indexTokenAmount: decreaseAmounts.sizeDeltaInTokens,
+    acceptablePriceImpactBuffer,
+    userReferralInfo,
+    strategy: "independent",
+    findSwapPath: p.findSwapPath,
+    uiFeeFactor,
+  });
+
+  return { decreaseAmounts, increaseAmounts, ...getPositionMigrationFees(decreaseAmounts, increaseAmounts) };
+}
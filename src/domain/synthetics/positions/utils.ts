@@ -1,16 +1,33 @@
 import { t } from "@lingui/macro";
 import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
 import { UserReferralInfo } from "domain/referrals";
-import { MarketInfo, getCappedPoolPnl, getOpenInterestUsd, getPoolUsdWithoutPnl } from "domain/synthetics/markets";
+import {
+  MarketInfo,
+  MarketsInfoData,
+  getCappedPoolPnl,
+  getMaxAllowedLeverageByMinCollateralFactor,
+  getOpenInterestUsd,
+  getPoolUsdWithoutPnl,
+} from "domain/synthetics/markets";
 import { Token, getIsEquivalentTokens } from "domain/tokens";
 import { ethers } from "ethers";
 import { bigMath } from "lib/bigmath";
 import { CHART_PERIODS } from "lib/legacy";
-import { applyFactor, expandDecimals, formatAmount, formatUsd, calculatePriceDecimals, PRECISION } from "lib/numbers";
+import {
+  applyFactor,
+  expandDecimals,
+  formatAmount,
+  formatUsd,
+  calculatePriceDecimals,
+  getBasisPoints,
+  PRECISION,
+} from "lib/numbers";
+import { getByKey } from "lib/objects";
 import { getBorrowingFeeRateUsd, getFundingFeeRateUsd, getPositionFee, getPriceImpactForPosition } from "../fees";
 import { OrderType } from "../orders/types";
-import { TokenData, convertToUsd } from "../tokens";
-import { PositionInfo } from "./types";
+import { TokenData, TokensData, convertToTokenAmount, convertToUsd } from "../tokens";
+import { getMarkPrice } from "../trade/utils/prices";
+import { Position, PositionInfo } from "./types";
 
 export function getPositionKey(account: string, marketAddress: string, collateralAddress: string, isLong: boolean) {
   return `${account}:${marketAddress}:${collateralAddress}:${isLong}`;
@@ -402,3 +419,165 @@ export function substractMaxLeverageSlippage(number: bigint | number): bigint |
   }
   return (number * 99n) / 100n;
 }
+
+export function getPositionInfo(p: {
+  position: Position;
+  marketsInfoData: MarketsInfoData;
+  tokensData: TokensData;
+  minCollateralUsd: bigint;
+  userReferralInfo: UserReferralInfo | undefined;
+  uiFeeFactor: bigint;
+  showPnlInLeverage: boolean;
+}): PositionInfo | undefined {
+  const { position, marketsInfoData, tokensData, minCollateralUsd, userReferralInfo, uiFeeFactor, showPnlInLeverage } =
+    p;
+
+  const marketInfo = getByKey(marketsInfoData, position.marketAddress);
+  const indexToken = marketInfo?.indexToken;
+  const pnlToken = position.isLong ? marketInfo?.longToken : marketInfo?.shortToken;
+  const collateralToken = getByKey(tokensData, position.collateralTokenAddress);
+
+  if (!marketInfo || !indexToken || !pnlToken || !collateralToken) {
+    return undefined;
+  }
+
+  const markPrice = getMarkPrice({ prices: indexToken.prices, isLong: position.isLong, isIncrease: false });
+  const collateralMinPrice = collateralToken.prices.minPrice;
+
+  const entryPrice = getEntryPrice({
+    sizeInTokens: position.sizeInTokens,
+    sizeInUsd: position.sizeInUsd,
+    indexToken,
+  });
+
+  const pendingFundingFeesUsd = convertToUsd(
+    position.fundingFeeAmount,
+    collateralToken.decimals,
+    collateralToken.prices.minPrice
+  )!;
+
+  const pendingClaimableFundingFeesLongUsd = convertToUsd(
+    position.claimableLongTokenAmount,
+    marketInfo.longToken.decimals,
+    marketInfo.longToken.prices.minPrice
+  )!;
+  const pendingClaimableFundingFeesShortUsd = convertToUsd(
+    position.claimableShortTokenAmount,
+    marketInfo.shortToken.decimals,
+    marketInfo.shortToken.prices.minPrice
+  )!;
+
+  const pendingClaimableFundingFeesUsd = pendingClaimableFundingFeesLongUsd + pendingClaimableFundingFeesShortUsd;
+
+  const totalPendingFeesUsd = getPositionPendingFeesUsd({
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd,
+    pendingFundingFeesUsd,
+  });
+
+  const closingPriceImpactDeltaUsd = getPriceImpactForPosition(marketInfo, position.sizeInUsd * -1n, position.isLong, {
+    fallbackToZero: true,
+  });
+
+  const positionFeeInfo = getPositionFee(
+    marketInfo,
+    position.sizeInUsd,
+    closingPriceImpactDeltaUsd > 0,
+    userReferralInfo,
+    uiFeeFactor
+  );
+
+  const closingFeeUsd = positionFeeInfo.positionFeeUsd;
+  const uiFeeUsd = positionFeeInfo.uiFeeUsd ?? 0n;
+
+  const collateralUsd = convertToUsd(position.collateralAmount, collateralToken.decimals, collateralMinPrice)!;
+
+  const remainingCollateralUsd = collateralUsd - totalPendingFeesUsd;
+
+  const remainingCollateralAmount = convertToTokenAmount(
+    remainingCollateralUsd,
+    collateralToken.decimals,
+    collateralMinPrice
+  )!;
+
+  const pnl = getPositionPnlUsd({
+    marketInfo: marketInfo,
+    sizeInUsd: position.sizeInUsd,
+    sizeInTokens: position.sizeInTokens,
+    markPrice,
+    isLong: position.isLong,
+  });
+
+  const pnlPercentage = collateralUsd !== undefined && collateralUsd != 0n ? getBasisPoints(pnl, collateralUsd) : 0n;
+
+  const netValue = getPositionNetValue({
+    collateralUsd: collateralUsd,
+    pnl,
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd,
+    pendingFundingFeesUsd: pendingFundingFeesUsd,
+    closingFeeUsd,
+    uiFeeUsd,
+  });
+
+  const pnlAfterFees = pnl - totalPendingFeesUsd - closingFeeUsd - uiFeeUsd;
+  const pnlAfterFeesPercentage = collateralUsd != 0n ? getBasisPoints(pnlAfterFees, collateralUsd + closingFeeUsd) : 0n;
+
+  const leverage = getLeverage({
+    sizeInUsd: position.sizeInUsd,
+    collateralUsd: collateralUsd,
+    pnl: showPnlInLeverage ? pnl : undefined,
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd,
+    pendingFundingFeesUsd: pendingFundingFeesUsd,
+  });
+
+  const leverageWithPnl = getLeverage({
+    sizeInUsd: position.sizeInUsd,
+    collateralUsd: collateralUsd,
+    pnl,
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd,
+    pendingFundingFeesUsd: pendingFundingFeesUsd,
+  });
+
+  const maxAllowedLeverage = getMaxAllowedLeverageByMinCollateralFactor(marketInfo.minCollateralFactor);
+
+  const hasLowCollateral = (leverage !== undefined && leverage > maxAllowedLeverage) || false;
+
+  const liquidationPrice = getLiquidationPrice({
+    marketInfo,
+    collateralToken,
+    sizeInUsd: position.sizeInUsd,
+    sizeInTokens: position.sizeInTokens,
+    collateralUsd,
+    collateralAmount: position.collateralAmount,
+    userReferralInfo,
+    minCollateralUsd,
+    pendingBorrowingFeesUsd: position.pendingBorrowingFeesUsd,
+    pendingFundingFeesUsd,
+    isLong: position.isLong,
+  });
+
+  return {
+    ...position,
+    marketInfo,
+    indexToken,
+    collateralToken,
+    pnlToken,
+    markPrice,
+    entryPrice,
+    liquidationPrice,
+    collateralUsd,
+    remainingCollateralUsd,
+    remainingCollateralAmount,
+    hasLowCollateral,
+    leverage,
+    leverageWithPnl,
+    pnl,
+    pnlPercentage,
+    pnlAfterFees,
+    pnlAfterFeesPercentage,
+    netValue,
+    closingFeeUsd,
+    uiFeeUsd,
+    pendingFundingFeesUsd,
+    pendingClaimableFundingFeesUsd,
+  };
+}
@@ -0,0 +1,48 @@
+import type { SerializedBigIntsInObject } from "lib/numbers";
+
+type PriceAlertBase = {
+  id: string;
+  createdAt: number;
+};
+
+/**
+ * Fires when the mid price of the index token crosses the price in the direction it was away from it on creation
+ */
+export type TokenPriceAlert = PriceAlertBase & {
+  type: "price";
+  tokenAddress: string;
+  direction: "above" | "below";
+  price: bigint;
+};
+
+export type LiquidationDistanceAlert = PriceAlertBase & {
+  type: "liquidationDistance";
+  positionKey: string;
+  thresholdBps: number;
+};
+
+/**
+ * Stores the paying side on creation, the alert fires once the other side starts paying
+ */
+export type FundingFlipAlert = PriceAlertBase & {
+  type: "fundingFlip";
+  marketAddress: string;
+  longsPayShorts: boolean;
+};
+
+export type PriceAlert = TokenPriceAlert | LiquidationDistanceAlert | FundingFlipAlert;
+
+export type NewPriceAlert =
+  | Omit<TokenPriceAlert, "id" | "createdAt">
+  | Omit<LiquidationDistanceAlert, "id" | "createdAt">
+  | Omit<FundingFlipAlert, "id" | "createdAt">;
+
+export type SerializedPriceAlert = SerializedBigIntsInObject<PriceAlert>;
+
+export type PriceAlertsCheckResult = {
+  triggered: PriceAlert[];
+  /**
+   * Alerts of closed positions and removed markets or tokens
+   */
+  stale: PriceAlert[];
+};
@@ -0,0 +1,62 @@
+import noop from "lodash/noop";
+import uniqueId from "lodash/uniqueId";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo } from "react";
+
+import { getPriceAlertsKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import useWallet from "lib/wallets/useWallet";
+import type { NewPriceAlert, PriceAlert, SerializedPriceAlert } from "./types";
+import { deserializePriceAlert, serializePriceAlert } from "./utils";
+
+type PriceAlertsContextType = {
+  priceAlerts: PriceAlert[];
+  addPriceAlert: (alert: NewPriceAlert) => void;
+  removePriceAlerts: (ids: string[]) => void;
+};
+
+const context = createContext<PriceAlertsContextType>({
+  priceAlerts: [],
+  addPriceAlert: noop,
+  removePriceAlerts: noop,
+});
+
+const Provider = context.Provider;
+
+export function PriceAlertsContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const [storedPriceAlerts, setStoredPriceAlerts] = useLocalStorageSerializeKey<SerializedPriceAlert[]>(
+    getPriceAlertsKey(chainId, account),
+    []
+  );
+
+  const priceAlerts = useMemo(() => (storedPriceAlerts ?? []).map(deserializePriceAlert), [storedPriceAlerts]);
+
+  const addPriceAlert = useCallback(
+    (alert: NewPriceAlert) => {
+      const nextAlert = { ...alert, id: uniqueId(`${Date.now()}_`), createdAt: Date.now() } as PriceAlert;
+
+      setStoredPriceAlerts([...priceAlerts, nextAlert].map(serializePriceAlert));
+    },
+    [priceAlerts, setStoredPriceAlerts]
+  );
+
+  const removePriceAlerts = useCallback(
+    (ids: string[]) => {
+      setStoredPriceAlerts(priceAlerts.filter((alert) => !ids.includes(alert.id)).map(serializePriceAlert));
+    },
+    [priceAlerts, setStoredPriceAlerts]
+  );
+
+  const stableObj = useMemo<PriceAlertsContextType>(
+    () => ({ priceAlerts, addPriceAlert, removePriceAlerts }),
+    [priceAlerts, addPriceAlert, removePriceAlerts]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function usePriceAlerts() {
+  return useContext(context);
+}
@@ -0,0 +1,93 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import { PositionInfo, PositionsInfoData } from "../positions";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import type { PriceAlert } from "./types";
+import { checkPriceAlerts, getLiquidationDistanceAlertPrice, getLiquidationDistanceBps } from "./utils";
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"]);
+
+const positionsInfoData = {
+  position: { key: "position", markPrice: usd(1200), liquidationPrice: usd(1150) } as PositionInfo,
+} as PositionsInfoData;
+
+const baseAlert = { id: "alert", createdAt: 0 };
+
+describe("getLiquidationDistanceBps", () => {
+  it("measures the distance relative to the mark price", () => {
+    expect(getLiquidationDistanceBps({ markPrice: usd(1000), liquidationPrice: usd(900) })).toBe(1000);
+    expect(getLiquidationDistanceBps({ markPrice: usd(1000), liquidationPrice: usd(1050) })).toBe(500);
+  });
+
+  it("returns undefined without a liquidation price", () => {
+    expect(getLiquidationDistanceBps({ markPrice: usd(1000), liquidationPrice: undefined })).toBeUndefined();
+  });
+});
+
+describe("getLiquidationDistanceAlertPrice", () => {
+  it("returns the mark price at which the distance reaches the threshold", () => {
+    const longPrice = getLiquidationDistanceAlertPrice(usd(950), 500, true)!;
+    const shortPrice = getLiquidationDistanceAlertPrice(usd(1050), 500, false)!;
+
+    expect(longPrice).toBe(usd(1000));
+    expect(getLiquidationDistanceBps({ markPrice: longPrice, liquidationPrice: usd(950) })).toBe(500);
+    expect(getLiquidationDistanceBps({ markPrice: shortPrice, liquidationPrice: usd(1050) })).toBe(500);
+  });
+});
+
+describe("checkPriceAlerts", () => {
+  const data = { tokensData, marketsInfoData, positionsInfoData };
+
+  it("triggers price alerts once the price is crossed", () => {
+    const alerts: PriceAlert[] = [
+      { ...baseAlert, id: "above-hit", type: "price", tokenAddress: "ETH", direction: "above", price: usd(1100) },
+      { ...baseAlert, id: "above-wait", type: "price", tokenAddress: "ETH", direction: "above", price: usd(1300) },
+      { ...baseAlert, id: "below-hit", type: "price", tokenAddress: "ETH", direction: "below", price: usd(1200) },
+    ];
+
+    const { triggered, stale } = checkPriceAlerts(alerts, data);
+
+    expect(triggered.map((alert) => alert.id)).toEqual(["above-hit", "below-hit"]);
+    expect(stale).toEqual([]);
+  });
+
+  it("triggers liquidation distance alerts at the threshold", () => {
+    const alerts: PriceAlert[] = [
+      { ...baseAlert, id: "hit", type: "liquidationDistance", positionKey: "position", thresholdBps: 500 },
+      { ...baseAlert, id: "wait", type: "liquidationDistance", positionKey: "position", thresholdBps: 300 },
+    ];
+
+    expect(checkPriceAlerts(alerts, data).triggered.map((alert) => alert.id)).toEqual(["hit"]);
+  });
+
+  it("triggers funding alerts when the paying side changes", () => {
+    const alerts: PriceAlert[] = [
+      { ...baseAlert, id: "flipped", type: "fundingFlip", marketAddress: "ETH-ETH-USDC", longsPayShorts: true },
+      { ...baseAlert, id: "same", type: "fundingFlip", marketAddress: "ETH-ETH-USDC", longsPayShorts: false },
+    ];
+
+    expect(checkPriceAlerts(alerts, data).triggered.map((alert) => alert.id)).toEqual(["flipped"]);
+  });
+
+  it("returns alerts of missing tokens, positions and markets as stale", () => {
+    const alerts: PriceAlert[] = [
+      { ...baseAlert, id: "token", type: "price", tokenAddress: "DOGE", direction: "above", price: usd(1) },
+      { ...baseAlert, id: "position", type: "liquidationDistance", positionKey: "closed", thresholdBps: 500 },
+      { ...baseAlert, id: "market", type: "fundingFlip", marketAddress: "BTC-BTC-USDC", longsPayShorts: true },
+    ];
+
+    const { triggered, stale } = checkPriceAlerts(alerts, data);
+
+    expect(triggered).toEqual([]);
+    expect(stale.map((alert) => alert.id)).toEqual(["token", "position", "market"]);
+  });
+
+  it("skips alerts while their data is loading", () => {
+    const alerts: PriceAlert[] = [
+      { ...baseAlert, id: "position", type: "liquidationDistance", positionKey: "closed", thresholdBps: 500 },
+    ];
+
+    expect(checkPriceAlerts(alerts, { ...data, positionsInfoData: undefined })).toEqual({ triggered: [], stale: [] });
+  });
+});
@@ -0,0 +1,125 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { bigMath } from "lib/bigmath";
+import { deserializeBigIntsInObject, serializeBigIntsInObject } from "lib/numbers";
+import { getByKey } from "lib/objects";
+import { MarketsInfoData } from "../markets";
+import { PositionInfo, PositionsInfoData } from "../positions";
+import { TokensData, getMidPrice } from "../tokens";
+import type { PriceAlert, PriceAlertsCheckResult, SerializedPriceAlert, TokenPriceAlert } from "./types";
+
+export const DEFAULT_LIQUIDATION_DISTANCE_ALERT_BPS = 500;
+
+export function serializePriceAlert(alert: PriceAlert): SerializedPriceAlert {
+  return serializeBigIntsInObject(alert);
+}
+
+export function deserializePriceAlert(alert: SerializedPriceAlert): PriceAlert {
+  return deserializeBigIntsInObject(alert) as PriceAlert;
+}
+
+export function getPriceAlertDirection(currentPrice: bigint, price: bigint): TokenPriceAlert["direction"] {
+  return price >= currentPrice ? "above" : "below";
+}
+
+/**
+ * Distance from the mark price to the liquidation price relative to the mark price
+ */
+export function getLiquidationDistanceBps(position: Pick<PositionInfo, "markPrice" | "liquidationPrice">) {
+  const { markPrice, liquidationPrice } = position;
+
+  if (liquidationPrice === undefined || liquidationPrice <= 0 || markPrice <= 0) {
+    return undefined;
+  }
+
+  return Number(bigMath.mulDiv(bigMath.abs(markPrice - liquidationPrice), BASIS_POINTS_DIVISOR_BIGINT, markPrice));
+}
+
+/**
+ * Mark price at which the liquidation distance of the position falls to the threshold, used for chart markers
+ */
+export function getLiquidationDistanceAlertPrice(liquidationPrice: bigint, thresholdBps: number, isLong: boolean) {
+  const divisor = isLong
+    ? BASIS_POINTS_DIVISOR_BIGINT - BigInt(thresholdBps)
+    : BASIS_POINTS_DIVISOR_BIGINT + BigInt(thresholdBps);
+
+  if (divisor <= 0) {
+    return undefined;
+  }
+
+  return bigMath.mulDiv(liquidationPrice, BASIS_POINTS_DIVISOR_BIGINT, divisor);
+}
+
+/**
+ * Alerts are only checked once the data they depend on is loaded,
+ * an alert whose position or market is gone is returned as stale instead
+ */
+export function checkPriceAlerts(
+  alerts: PriceAlert[],
+  p: {
+    tokensData: TokensData | undefined;
+    marketsInfoData: MarketsInfoData | undefined;
+    positionsInfoData: PositionsInfoData | undefined;
+  }
+): PriceAlertsCheckResult {
+  const { tokensData, marketsInfoData, positionsInfoData } = p;
+  const result: PriceAlertsCheckResult = { triggered: [], stale: [] };
+
+  for (const alert of alerts) {
+    switch (alert.type) {
+      case "price": {
+        if (!tokensData) break;
+
+        const token = getByKey(tokensData, alert.tokenAddress);
+
+        if (!token) {
+          result.stale.push(alert);
+          break;
+        }
+
+        const midPrice = getMidPrice(token.prices);
+        const isCrossed = alert.direction === "above" ? midPrice >= alert.price : midPrice <= alert.price;
+
+        if (isCrossed) {
+          result.triggered.push(alert);
+        }
+        break;
+      }
+
+      case "liquidationDistance": {
+        if (!positionsInfoData) break;
+
+        const position = getByKey(positionsInfoData, alert.positionKey);
+
+        if (!position) {
+          result.stale.push(alert);
+          break;
+        }
+
+        const distanceBps = getLiquidationDistanceBps(position);
+
+        if (distanceBps !== undefined && distanceBps <= alert.thresholdBps) {
+          result.triggered.push(alert);
+        }
+        break;
+      }
+
+      case "fundingFlip": {
+        if (!marketsInfoData) break;
+
+        const marketInfo = getByKey(marketsInfoData, alert.marketAddress);
+
+        if (!marketInfo) {
+          result.stale.push(alert);
+          break;
+        }
+
+        if (marketInfo.longsPayShorts !== alert.longsPayShorts) {
+          result.triggered.push(alert);
+        }
+        break;
+      }
+    }
+  }
+
+  return result;
+}
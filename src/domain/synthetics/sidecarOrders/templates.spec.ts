@@ -0,0 +1,85 @@
+import { USD_DECIMALS } from "config/factors";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import { getSidecarEntriesFromTemplateLevels, getTemplateLevelPrice, getTemplateLevelsFromEntries } from "./templates";
+import { getDefaultEntry, getDefaultEntryField, PERCENTAGE_DECEMALS } from "./utils";
+
+const basePrice = usd(2000);
+
+describe("getTemplateLevelPrice", () => {
+  it("moves price up for longs and down for shorts in the profit direction", () => {
+    expect(getTemplateLevelPrice(basePrice, 500, true)).toEqual(usd(2100));
+    expect(getTemplateLevelPrice(basePrice, 500, false)).toEqual(usd(1900));
+    expect(getTemplateLevelPrice(basePrice, -300, true)).toEqual(usd(1940));
+    expect(getTemplateLevelPrice(basePrice, -300, false)).toEqual(usd(2060));
+  });
+});
+
+describe("getSidecarEntriesFromTemplateLevels", () => {
+  it("resolves a ladder and lets the last level fit the remaining percentage", () => {
+    const entries = getSidecarEntriesFromTemplateLevels(
+      [
+        { priceDeltaBps: 200, sizePercentage: 30 },
+        { priceDeltaBps: 500, sizePercentage: 30 },
+        { priceDeltaBps: 1000, sizePercentage: 40 },
+      ],
+      { basePrice, isLong: true }
+    );
+
+    expect(entries).toEqual([
+      { price: usd(2040), percentage: 30n, mode: "keepPercentage" },
+      { price: usd(2100), percentage: 30n, mode: "keepPercentage" },
+      { price: usd(2200), percentage: 40n, mode: "fitPercentage" },
+    ]);
+  });
+
+  it("keeps percentages when the ladder does not cover the whole position", () => {
+    const entries = getSidecarEntriesFromTemplateLevels([{ priceDeltaBps: -300, sizePercentage: 50 }], {
+      basePrice,
+      isLong: false,
+    });
+
+    expect(entries).toEqual([{ price: usd(2060), percentage: 50n, mode: "keepPercentage" }]);
+  });
+
+  it("clamps levels exceeding 100% and skips empty ones", () => {
+    const entries = getSidecarEntriesFromTemplateLevels(
+      [
+        { priceDeltaBps: 100, sizePercentage: 80 },
+        { priceDeltaBps: 200, sizePercentage: 0 },
+        { priceDeltaBps: 300, sizePercentage: 80 },
+        { priceDeltaBps: 400, sizePercentage: 10 },
+      ],
+      { basePrice, isLong: true }
+    );
+
+    expect(entries.map((e) => e.percentage)).toEqual([80n, 20n]);
+    expect(entries[1].mode).toEqual("fitPercentage");
+  });
+
+  it("drops levels resolving to a non-positive price", () => {
+    expect(
+      getSidecarEntriesFromTemplateLevels([{ priceDeltaBps: 10000, sizePercentage: 100 }], { basePrice, isLong: false })
+    ).toEqual([]);
+  });
+});
+
+describe("getTemplateLevelsFromEntries", () => {
+  it("converts entries back to levels ignoring cancelled ones", () => {
+    const entries = [
+      getDefaultEntry("tp", {
+        price: getDefaultEntryField(USD_DECIMALS, { value: usd(1900) }),
+        percentage: getDefaultEntryField(PERCENTAGE_DECEMALS, { value: 60n }),
+      }),
+      getDefaultEntry("tp", {
+        price: getDefaultEntryField(USD_DECIMALS, { value: usd(1800) }),
+        percentage: getDefaultEntryField(PERCENTAGE_DECEMALS, { value: 40n }),
+        txnType: "cancel",
+      }),
+    ];
+
+    expect(getTemplateLevelsFromEntries(entries, { basePrice, isLong: false })).toEqual([
+      { priceDeltaBps: 500, sizePercentage: 60 },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { bigMath } from "lib/bigmath";
+import type {
+  SidecarOrderEntryBase,
+  SidecarOrderTemplate,
+  SidecarOrderTemplateEntry,
+  SidecarOrderTemplateLevel,
+} from "./types";
+import { MAX_PERCENTAGE } from "./utils";
+
+export function getTemplateLevelPrice(basePrice: bigint, priceDeltaBps: number, isLong: boolean) {
+  const deltaBps = BigInt(Math.round(isLong ? priceDeltaBps : -priceDeltaBps));
+
+  return basePrice + bigMath.mulDiv(basePrice, deltaBps, BASIS_POINTS_DIVISOR_BIGINT);
+}
+
+/**
+ * Resolves template levels into sidecar entries for the given base price.
+ * Every level keeps its percentage, except the last one which fits the remainder
+ * when the ladder covers the whole position, so rounding never leaves a dust size behind.
+ */
+export function getSidecarEntriesFromTemplateLevels(
+  levels: SidecarOrderTemplateLevel[],
+  { basePrice, isLong }: { basePrice: bigint; isLong: boolean }
+): SidecarOrderTemplateEntry[] {
+  if (basePrice <= 0) {
+    return [];
+  }
+
+  let totalPercentage = 0n;
+
+  const entries = levels.reduce<SidecarOrderTemplateEntry[]>((acc, level) => {
+    const price = getTemplateLevelPrice(basePrice, level.priceDeltaBps, isLong);
+    const leftPercentage = MAX_PERCENTAGE - totalPercentage;
+    const percentage = bigMath.min(BigInt(Math.round(level.sizePercentage)), leftPercentage);
+
+    if (price <= 0 || percentage <= 0) {
+      return acc;
+    }
+
+    totalPercentage += percentage;
+    acc.push({ price, percentage, mode: "keepPercentage" });
+
+    return acc;
+  }, []);
+
+  if (entries.length && totalPercentage === MAX_PERCENTAGE) {
+    entries[entries.length - 1].mode = "fitPercentage";
+  }
+
+  return entries;
+}
+
+export function getTemplateLevelsFromEntries(
+  entries: SidecarOrderEntryBase[],
+  { basePrice, isLong }: { basePrice: bigint; isLong: boolean }
+): SidecarOrderTemplateLevel[] {
+  if (basePrice <= 0) {
+    return [];
+  }
+
+  return entries.reduce<SidecarOrderTemplateLevel[]>((acc, entry) => {
+    if (
+      entry.txnType === "cancel" ||
+      entry.price.value === null ||
+      entry.percentage.value === null ||
+      entry.percentage.value <= 0
+    ) {
+      return acc;
+    }
+
+    const deltaBps = Number(bigMath.mulDiv(entry.price.value - basePrice, BASIS_POINTS_DIVISOR_BIGINT, basePrice));
+
+    acc.push({
+      priceDeltaBps: isLong ? deltaBps : -deltaBps,
+      sizePercentage: Number(entry.percentage.value),
+    });
+
+    return acc;
+  }, []);
+}
+
+export function getSidecarOrderTemplateLabel({ tp, sl }: Pick<SidecarOrderTemplate, "tp" | "sl">) {
+  const formatLevels = (levels: SidecarOrderTemplateLevel[]) =>
+    levels
+      .map(({ priceDeltaBps, sizePercentage }) => {
+        const sign = priceDeltaBps > 0 ? "+" : "";
+        return `${sign}${priceDeltaBps / 100}% (${sizePercentage}%)`;
+      })
+      .join(", ");
+
+  return [tp.length ? `TP ${formatLevels(tp)}` : undefined, sl.length ? `SL ${formatLevels(sl)}` : undefined]
+    .filter(Boolean)
+    .join(" / ");
+}
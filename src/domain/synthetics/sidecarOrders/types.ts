@@ -52,6 +52,7 @@ export type SidecarOrderEntryGroupBase<T extends SidecarOrderEntryBase> = {
   addEntry: () => void;
   updateEntry: (id: string, field: "price" | "sizeUsd" | "percentage", value: string) => void;
   deleteEntry: (id: string) => void;
+  applyEntries: (entries: SidecarOrderTemplateEntry[], priceDecimals?: number) => void;
   reset: () => void;
 };
 
@@ -63,3 +64,25 @@ export type SidecarOrderEntryGroup = SidecarOrderEntryGroupBase<SidecarOrderEntr
     percentage?: string;
   };
 };
+
+export type SidecarOrderTemplateLevel = {
+  /**
+   * Trigger price distance from the base price in basis points,
+   * positive values are in the profit direction of the position
+   */
+  priceDeltaBps: number;
+  sizePercentage: number;
+};
+
+export type SidecarOrderTemplate = {
+  id: string;
+  name: string;
+  tp: SidecarOrderTemplateLevel[];
+  sl: SidecarOrderTemplateLevel[];
+};
+
+export type SidecarOrderTemplateEntry = {
+  price: bigint;
+  percentage: bigint;
+  mode: SidecarOrderEntryBase["mode"];
+};
@@ -0,0 +1,58 @@
+import noop from "lodash/noop";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo } from "react";
+
+import { SIDECAR_ORDER_TEMPLATES_KEY } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageByChainId } from "lib/localStorage";
+import type { SidecarOrderTemplate } from "./types";
+
+type SidecarOrderTemplatesContextType = {
+  templates: SidecarOrderTemplate[];
+  saveTemplate: (template: Omit<SidecarOrderTemplate, "id">) => void;
+  deleteTemplate: (id: string) => void;
+};
+
+const context = createContext<SidecarOrderTemplatesContextType>({
+  templates: [],
+  saveTemplate: noop,
+  deleteTemplate: noop,
+});
+
+const Provider = context.Provider;
+
+export function SidecarOrderTemplatesContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const [storedTemplates, setStoredTemplates] = useLocalStorageByChainId<SidecarOrderTemplate[]>(
+    chainId,
+    SIDECAR_ORDER_TEMPLATES_KEY,
+    []
+  );
+
+  const templates = useMemo(() => storedTemplates ?? [], [storedTemplates]);
+
+  const saveTemplate = useCallback(
+    (template: Omit<SidecarOrderTemplate, "id">) => {
+      const id = `${Date.now().toString(36)}-${templates.length}`;
+      setStoredTemplates([...templates.filter((t) => t.name !== template.name), { ...template, id }]);
+    },
+    [setStoredTemplates, templates]
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      setStoredTemplates(templates.filter((t) => t.id !== id));
+    },
+    [setStoredTemplates, templates]
+  );
+
+  const stableObj = useMemo<SidecarOrderTemplatesContextType>(
+    () => ({ templates, saveTemplate, deleteTemplate }),
+    [templates, saveTemplate, deleteTemplate]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function useSidecarOrderTemplates() {
+  return useContext(context);
+}
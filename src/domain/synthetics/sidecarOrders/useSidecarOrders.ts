@@ -21,12 +21,20 @@ import {
   selectTradeboxSidecarOrdersExistingSlEntries,
   selectTradeboxSidecarOrdersExistingTpEntries,
 } from "context/SyntheticsStateContext/selectors/tradeboxSelectors/selectTradeboxSidecarOrders";
+import { selectSelectedMarketPriceDecimals } from "context/SyntheticsStateContext/selectors/statsSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { OrderType } from "domain/synthetics/orders/types";
 import { getDecreasePositionAmounts, getIncreasePositionAmounts } from "domain/synthetics/trade";
 import { useCallback, useEffect, useMemo } from "react";
 import { convertToTokenAmount } from "../tokens";
-import { SidecarLimitOrderEntry, SidecarOrderEntry, SidecarSlTpOrderEntry, SidecarSlTpOrderEntryValid } from "./types";
+import { getSidecarEntriesFromTemplateLevels } from "./templates";
+import {
+  SidecarLimitOrderEntry,
+  SidecarOrderEntry,
+  SidecarOrderTemplate,
+  SidecarSlTpOrderEntry,
+  SidecarSlTpOrderEntryValid,
+} from "./types";
 import { useSidecarOrdersGroup } from "./useSidecarOrdersGroup";
 import { getCommonError, handleEntryError } from "./utils";
 import { useSidecarOrdersChanged } from "./useSidecarOrdersChanged";
@@ -48,6 +56,7 @@ export function useSidecarOrders() {
   const markPrice = useSelector(selectTradeboxMarkPrice);
   const existingPosition = useSelector(selectTradeboxSelectedPosition);
   const nextPositionValues = useSelector(selectTradeboxNextPositionValues);
+  const priceDecimals = useSelector(selectSelectedMarketPriceDecimals);
 
   const existingLimitOrderEntries = useSelector(selectTradeboxSidecarOrdersExistingLimitEntries);
   const existingSlOrderEntries = useSelector(selectTradeboxSidecarOrdersExistingSlEntries);
@@ -359,6 +368,20 @@ export function useSidecarOrders() {
     takeProfit.reset();
   }, [limit, stopLoss, takeProfit]);
 
+  const templateBasePrice = isLimit ? triggerPrice : nextPositionValues?.nextEntryPrice ?? markPrice;
+
+  const applyTemplate = useCallback(
+    (template: SidecarOrderTemplate) => {
+      if (templateBasePrice === undefined) return;
+
+      const params = { basePrice: templateBasePrice, isLong };
+
+      takeProfitEntriesInfo.applyEntries(getSidecarEntriesFromTemplateLevels(template.tp, params), priceDecimals);
+      stopLossEntriesInfo.applyEntries(getSidecarEntriesFromTemplateLevels(template.sl, params), priceDecimals);
+    },
+    [templateBasePrice, isLong, priceDecimals, takeProfitEntriesInfo, stopLossEntriesInfo]
+  );
+
   useEffect(() => {
     if (doesEntriesChanged) {
       reset();
@@ -377,5 +400,7 @@ export function useSidecarOrders() {
     takeProfit,
     limit,
     reset,
+    applyTemplate,
+    templateBasePrice,
   };
 }
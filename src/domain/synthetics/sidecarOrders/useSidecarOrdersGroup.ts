@@ -10,7 +10,13 @@ import { bigMath } from "lib/bigmath";
 import { USD_DECIMALS } from "config/factors";
 import { usePrevious } from "lib/usePrevious";
 import { Dispatch, SetStateAction, useCallback, useEffect, useMemo } from "react";
-import { EntryField, GroupPrefix, SidecarOrderEntryBase, SidecarOrderEntryGroupBase } from "./types";
+import {
+  EntryField,
+  GroupPrefix,
+  SidecarOrderEntryBase,
+  SidecarOrderEntryGroupBase,
+  SidecarOrderTemplateEntry,
+} from "./types";
 import { MAX_PERCENTAGE, PERCENTAGE_DECEMALS, getDefaultEntry, getDefaultEntryField } from "./utils";
 
 export function useSidecarOrdersGroup<T extends SidecarOrderEntryBase>({
@@ -226,6 +232,36 @@ export function useSidecarOrdersGroup<T extends SidecarOrderEntryBase>({
     [prefix, canAddEntry, enablePercentage, setEntries, setIsUntouched]
   );
 
+  const applyEntries = useCallback(
+    (nextEntries: SidecarOrderTemplateEntry[], priceDecimals?: number) => {
+      setIsUntouched(prefix, false);
+      setEntries((prevEntries) => {
+        const cancelledEntries = prevEntries
+          .filter((entry) => entry.order)
+          .map((entry) => ({ ...entry, txnType: "cancel" }) as T);
+
+        const createdEntries = nextEntries.map((nextEntry) => {
+          const entry = getDefaultEntry<T>(prefix, {
+            mode: enablePercentage ? nextEntry.mode : "keepSize",
+            txnType: "create",
+            price: getDefaultEntryField(USD_DECIMALS, { value: nextEntry.price }, priceDecimals),
+          });
+
+          return errorHandler(recalculateEntryByField(entry, "percentage", { value: nextEntry.percentage }));
+        });
+
+        if (!createdEntries.length && canAddEntry) {
+          createdEntries.push(
+            errorHandler(getDefaultEntry(prefix, { mode: enablePercentage ? "fitPercentage" : "keepSize" }))
+          );
+        }
+
+        return [...cancelledEntries, ...createdEntries];
+      });
+    },
+    [prefix, canAddEntry, enablePercentage, errorHandler, recalculateEntryByField, setEntries, setIsUntouched]
+  );
+
   const prevTotalPositionSizeUsd = usePrevious(totalPositionSizeUsd);
   useEffect(() => {
     if (
@@ -266,6 +302,7 @@ export function useSidecarOrdersGroup<T extends SidecarOrderEntryBase>({
     addEntry,
     updateEntry,
     deleteEntry,
+    applyEntries,
     reset,
     canAddEntry,
     allowAddEntry: canAddEntry && totalPercentage <= MAX_PERCENTAGE,
@@ -0,0 +1,154 @@
+import EventEmitter from "abis/EventEmitter.json";
+import SubaccountRouter from "abis/SubaccountRouter.json";
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { decodeSubaccountTxnActions, getSubaccountActivity, getSubaccountDailySpending } from "./activityLog";
+
+const EVENT_EMITTER = "0x00000000000000000000000000000000000000e1";
+const ORDER_KEY = ethers.zeroPadValue("0x01", 32);
+const CREATED_ORDER_KEY = ethers.zeroPadValue("0x02", 32);
+
+const routerInterface = new ethers.Interface(SubaccountRouter.abi);
+const eventEmitterInterface = new ethers.Interface(EventEmitter.abi);
+const emptySection = { items: [], arrayItems: [] };
+
+function mockLog(
+  eventName: string,
+  sections: { bytes32?: { [key: string]: string }; uint?: { [key: string]: bigint } }
+) {
+  const toSection = (values: { [key: string]: unknown } = {}) => ({
+    items: Object.entries(values).map(([key, value]) => ({ key, value })),
+    arrayItems: [],
+  });
+
+  const { topics, data } = eventEmitterInterface.encodeEventLog("EventLog1", [
+    ethers.ZeroAddress,
+    eventName,
+    eventName,
+    ethers.ZeroHash,
+    {
+      addressItems: emptySection,
+      uintItems: toSection(sections.uint),
+      intItems: emptySection,
+      boolItems: emptySection,
+      bytes32Items: toSection(sections.bytes32),
+      bytesItems: emptySection,
+      stringItems: emptySection,
+    },
+  ]);
+
+  return { address: EVENT_EMITTER, topics, data };
+}
+
+const createOrderCall = routerInterface.encodeFunctionData("createOrder", [
+  ethers.ZeroAddress,
+  {
+    addresses: {
+      receiver: ethers.ZeroAddress,
+      cancellationReceiver: ethers.ZeroAddress,
+      callbackContract: ethers.ZeroAddress,
+      uiFeeReceiver: ethers.ZeroAddress,
+      market: ethers.ZeroAddress,
+      initialCollateralToken: ethers.ZeroAddress,
+      swapPath: [],
+    },
+    numbers: {
+      sizeDeltaUsd: 0n,
+      initialCollateralDeltaAmount: 0n,
+      triggerPrice: 0n,
+      acceptablePrice: 0n,
+      executionFee: 0n,
+      callbackGasLimit: 0n,
+      minOutputAmount: 0n,
+    },
+    orderType: 0,
+    decreasePositionSwapType: 0,
+    isLong: true,
+    shouldUnwrapNativeToken: false,
+    autoCancel: false,
+    referralCode: ethers.ZeroHash,
+  },
+]);
+
+const multicallData = routerInterface.encodeFunctionData("multicall", [
+  [
+    routerInterface.encodeFunctionData("sendWnt", [ethers.ZeroAddress, 1n]),
+    createOrderCall,
+    routerInterface.encodeFunctionData("cancelOrder", [ORDER_KEY]),
+  ],
+]);
+
+describe("decodeSubaccountTxnActions", () => {
+  it("decodes order actions of a multicall", () => {
+    expect(decodeSubaccountTxnActions(multicallData)).toEqual([
+      { type: "createOrder" },
+      { type: "cancelOrder", orderKey: ORDER_KEY },
+    ]);
+  });
+
+  it("ignores unknown calldata", () => {
+    expect(decodeSubaccountTxnActions("0x12345678")).toEqual([]);
+  });
+});
+
+describe("getSubaccountActivity", () => {
+  it("takes created order keys and auto top-ups from the receipt", () => {
+    const activity = getSubaccountActivity({
+      record: { hash: "0xhash", timestamp: 100 },
+      txn: { data: multicallData, value: 5n },
+      receipt: {
+        status: 1,
+        gasUsed: 10n,
+        gasPrice: 3n,
+        logs: [
+          mockLog("OrderCreated", { bytes32: { key: CREATED_ORDER_KEY } }),
+          mockLog("SubaccountAutoTopUp", { uint: { amount: 7n } }),
+        ],
+      },
+      eventEmitterAddress: EVENT_EMITTER,
+    });
+
+    expect(activity).toEqual({
+      hash: "0xhash",
+      timestamp: 100,
+      isSuccess: true,
+      gasCostAmount: 30n,
+      executionFeeAmount: 5n,
+      actions: [
+        { type: "createOrder", orderKey: CREATED_ORDER_KEY },
+        { type: "cancelOrder", orderKey: ORDER_KEY },
+        { type: "autoTopUp", amount: 7n },
+      ],
+    });
+  });
+
+  it("is pending without a receipt", () => {
+    const activity = getSubaccountActivity({
+      record: { hash: "0xhash", timestamp: 100 },
+      txn: null,
+      receipt: null,
+      eventEmitterAddress: EVENT_EMITTER,
+    });
+
+    expect(activity.isSuccess).toBeUndefined();
+    expect(activity.gasCostAmount).toBeUndefined();
+  });
+});
+
+describe("getSubaccountDailySpending", () => {
+  it("groups spending by day and skips execution fees of failed transactions", () => {
+    const day = 86400;
+    const base = { hash: "0x", gasCostAmount: 1n, executionFeeAmount: 10n, actions: [] };
+
+    expect(
+      getSubaccountDailySpending([
+        { ...base, timestamp: day + 5, isSuccess: true, actions: [{ type: "autoTopUp", amount: 4n }] },
+        { ...base, timestamp: 10, isSuccess: true },
+        { ...base, timestamp: day + 100, isSuccess: false },
+      ])
+    ).toEqual([
+      { timestamp: 0, gasCostAmount: 1n, executionFeeAmount: 10n, autoTopUpAmount: 0n },
+      { timestamp: day, gasCostAmount: 2n, executionFeeAmount: 10n, autoTopUpAmount: 4n },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import EventEmitter from "abis/EventEmitter.json";
+import SubaccountRouter from "abis/SubaccountRouter.json";
+import { getSubaccountActivityKey } from "config/localStorage";
+import { parseEventLogData } from "context/WebsocketContext/subscribeToEvents";
+import { ethers } from "ethers";
+import { SECONDS_IN_DAY } from "lib/dates";
+import type {
+  SubaccountActivity,
+  SubaccountActivityAction,
+  SubaccountDailySpending,
+  SubaccountTxnRecord,
+} from "./types";
+
+const MAX_SUBACCOUNT_TXN_RECORDS = 500;
+
+const subaccountRouterInterface = new ethers.Interface(SubaccountRouter.abi);
+const eventEmitterInterface = new ethers.Interface(EventEmitter.abi);
+
+export function getSubaccountTxnRecords(chainId: number, subaccountAddress: string): SubaccountTxnRecord[] {
+  try {
+    const raw = localStorage.getItem(JSON.stringify(getSubaccountActivityKey(chainId, subaccountAddress)));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function recordSubaccountTxn(chainId: number, subaccountAddress: string, hash: string) {
+  const records = [
+    { hash, timestamp: Math.floor(Date.now() / 1000) },
+    ...getSubaccountTxnRecords(chainId, subaccountAddress),
+  ].slice(0, MAX_SUBACCOUNT_TXN_RECORDS);
+
+  localStorage.setItem(JSON.stringify(getSubaccountActivityKey(chainId, subaccountAddress)), JSON.stringify(records));
+}
+
+/**
+ * Order keys of created orders are only known from the receipt
+ */
+export function decodeSubaccountTxnActions(data: string): SubaccountActivityAction[] {
+  let parsed: ethers.TransactionDescription | null = null;
+
+  try {
+    parsed = subaccountRouterInterface.parseTransaction({ data });
+  } catch (e) {
+    // not a subaccount router call
+  }
+
+  if (!parsed) {
+    return [];
+  }
+
+  if (parsed.name === "multicall") {
+    return (parsed.args[0] as string[]).flatMap(decodeSubaccountTxnActions);
+  }
+
+  switch (parsed.name) {
+    case "createOrder":
+      return [{ type: "createOrder" }];
+    case "updateOrder":
+      return [{ type: "updateOrder", orderKey: parsed.args[0] }];
+    case "cancelOrder":
+      return [{ type: "cancelOrder", orderKey: parsed.args[0] }];
+    default:
+      return [];
+  }
+}
+
+export function decodeSubaccountTxnEvents(
+  logs: readonly { address: string; topics: readonly string[]; data: string }[],
+  eventEmitterAddress: string
+) {
+  const createdOrderKeys: string[] = [];
+  let autoTopUpAmount = 0n;
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== eventEmitterAddress.toLowerCase()) {
+      continue;
+    }
+
+    let parsed: ethers.LogDescription | null = null;
+
+    try {
+      parsed = eventEmitterInterface.parseLog(log);
+    } catch (e) {
+      // not an EventLog* event
+    }
+
+    if (!parsed) {
+      continue;
+    }
+
+    if (parsed.args.eventName === "OrderCreated") {
+      createdOrderKeys.push(parseEventLogData(parsed.args.eventData).bytes32Items.items.key);
+    } else if (parsed.args.eventName === "SubaccountAutoTopUp") {
+      autoTopUpAmount += parseEventLogData(parsed.args.eventData).uintItems.items.amount;
+    }
+  }
+
+  return { createdOrderKeys, autoTopUpAmount };
+}
+
+export function getSubaccountActivity(p: {
+  record: SubaccountTxnRecord;
+  txn: { data: string; value: bigint } | null;
+  receipt: {
+    status: number | null;
+    gasUsed: bigint;
+    gasPrice: bigint;
+    logs: readonly { address: string; topics: readonly string[]; data: string }[];
+  } | null;
+  eventEmitterAddress: string;
+}): SubaccountActivity {
+  const { record, txn, receipt, eventEmitterAddress } = p;
+
+  const actions = txn ? decodeSubaccountTxnActions(txn.data) : [];
+
+  if (receipt) {
+    const { createdOrderKeys, autoTopUpAmount } = decodeSubaccountTxnEvents(receipt.logs, eventEmitterAddress);
+
+    actions
+      .filter((action) => action.type === "createOrder")
+      .forEach((action, index) => {
+        action.orderKey = createdOrderKeys[index];
+      });
+
+    if (autoTopUpAmount > 0) {
+      actions.push({ type: "autoTopUp", amount: autoTopUpAmount });
+    }
+  }
+
+  return {
+    hash: record.hash,
+    timestamp: record.timestamp,
+    isSuccess: receipt ? receipt.status === 1 : undefined,
+    gasCostAmount: receipt ? receipt.gasUsed * receipt.gasPrice : undefined,
+    executionFeeAmount: txn?.value ?? 0n,
+    actions,
+  };
+}
+
+export function getSubaccountDailySpending(activities: SubaccountActivity[]): SubaccountDailySpending[] {
+  const days = new Map<number, SubaccountDailySpending>();
+
+  for (const activity of activities) {
+    const timestamp = activity.timestamp - (activity.timestamp % SECONDS_IN_DAY);
+    const day = days.get(timestamp) ?? { timestamp, gasCostAmount: 0n, executionFeeAmount: 0n, autoTopUpAmount: 0n };
+
+    day.gasCostAmount += activity.gasCostAmount ?? 0n;
+    // execution fees of reverted transactions are returned
+    day.executionFeeAmount += activity.isSuccess ? activity.executionFeeAmount : 0n;
+    day.autoTopUpAmount += activity.actions.reduce((acc, action) => acc + (action.amount ?? 0n), 0n);
+
+    days.set(timestamp, day);
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
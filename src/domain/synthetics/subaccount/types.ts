@@ -1,11 +1,91 @@
+import type { OrderType } from "domain/synthetics/orders/types";
+
+/**
+ * Single subaccount config stored before named subaccounts were introduced
+ */
 export type SubaccountSerializedConfig = {
   privateKey: string;
   address: string;
 } | null;
 
+/**
+ * Empty lists allow everything
+ */
+export type SubaccountPermissions = {
+  marketAddresses: string[];
+  orderTypes: OrderType[];
+};
+
+export type NamedSubaccountConfig = {
+  name: string;
+  /**
+   * Selects the message signed to derive the subaccount key
+   */
+  index: number;
+  /**
+   * Encrypted with the main account address
+   */
+  privateKey: string;
+  address: string;
+  permissions: SubaccountPermissions;
+};
+
+export type SubaccountExport = NamedSubaccountConfig & {
+  /**
+   * Main account the subaccount acts for
+   */
+  account: string;
+};
+
+export type SubaccountsSerializedConfig = {
+  activeAddress: string | null;
+  subaccounts: NamedSubaccountConfig[];
+};
+
 export type SubaccountParams = {
   topUp: bigint | null;
   maxAutoTopUpAmount: bigint | null;
   wntForAutoTopUps: bigint | null;
   maxAllowedActions: bigint | null;
 };
+
+export type SubaccountTxnRecord = {
+  hash: string;
+  /**
+   * Seconds
+   */
+  timestamp: number;
+};
+
+export type SubaccountActivityActionType = "createOrder" | "updateOrder" | "cancelOrder" | "autoTopUp";
+
+export type SubaccountActivityAction = {
+  type: SubaccountActivityActionType;
+  orderKey?: string;
+  /**
+   * Auto top-up only, in WNT
+   */
+  amount?: bigint;
+};
+
+export type SubaccountActivity = {
+  hash: string;
+  timestamp: number;
+  /**
+   * Undefined while the transaction is pending
+   */
+  isSuccess: boolean | undefined;
+  gasCostAmount: bigint | undefined;
+  executionFeeAmount: bigint;
+  actions: SubaccountActivityAction[];
+};
+
+export type SubaccountDailySpending = {
+  /**
+   * Start of the day in seconds
+   */
+  timestamp: number;
+  gasCostAmount: bigint;
+  executionFeeAmount: bigint;
+  autoTopUpAmount: bigint;
+};
@@ -0,0 +1,110 @@
+import { getContract } from "config/contracts";
+import { useMarketsInfoData, useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { TradeAction, fetchTradeActionsByTransactionHashes } from "domain/synthetics/tradeHistory";
+import { getProvider } from "lib/rpc";
+import { useMemo } from "react";
+import useSWR from "swr";
+import { getSubaccountActivity, getSubaccountDailySpending, getSubaccountTxnRecords } from "./activityLog";
+import type { SubaccountActivity } from "./types";
+
+const ACTIVITY_REFRESH_INTERVAL = 30_000;
+
+// mined transactions do not change, only pending ones are fetched again
+const minedActivitiesCache = new Map<string, SubaccountActivity>();
+
+export type SubaccountActivityWithTrades = SubaccountActivity & {
+  tradeActions: TradeAction[];
+};
+
+export function useSubaccountActivity(chainId: number, account: string | undefined, subaccountAddress: string | null) {
+  const { data: activities, isLoading } = useSWR<SubaccountActivity[]>(
+    subaccountAddress ? [chainId, subaccountAddress, "subaccountActivity"] : null,
+    {
+      fetcher: async () => {
+        const provider = getProvider(undefined, chainId);
+        const eventEmitterAddress = getContract(chainId, "EventEmitter");
+
+        return Promise.all(
+          getSubaccountTxnRecords(chainId, subaccountAddress!).map(async (record) => {
+            const cacheKey = `${chainId}:${record.hash}`;
+            const cached = minedActivitiesCache.get(cacheKey);
+
+            if (cached) {
+              return cached;
+            }
+
+            const [txn, receipt] = await Promise.all([
+              provider.getTransaction(record.hash).catch(() => null),
+              provider.getTransactionReceipt(record.hash).catch(() => null),
+            ]);
+
+            const activity = getSubaccountActivity({ record, txn, receipt, eventEmitterAddress });
+
+            if (receipt) {
+              minedActivitiesCache.set(cacheKey, activity);
+            }
+
+            return activity;
+          })
+        );
+      },
+      refreshInterval: ACTIVITY_REFRESH_INTERVAL,
+    }
+  );
+
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+
+  const transactionHashes = useMemo(
+    () => activities?.map((activity) => activity.hash.toLowerCase()).sort(),
+    [activities]
+  );
+
+  const { data: tradeActions } = useSWR<TradeAction[]>(
+    account && transactionHashes?.length && marketsInfoData && tokensData
+      ? [chainId, account, "subaccountTradeActions", transactionHashes.join(",")]
+      : null,
+    {
+      fetcher: () =>
+        fetchTradeActionsByTransactionHashes(
+          {
+            chainId,
+            account,
+            forAllAccounts: false,
+            marketsDirectionsFilter: undefined,
+            fromTxTimestamp: undefined,
+            toTxTimestamp: undefined,
+            orderEventCombinations: undefined,
+            marketsInfoData,
+            tokensData,
+          },
+          transactionHashes!
+        ),
+      refreshInterval: ACTIVITY_REFRESH_INTERVAL,
+    }
+  );
+
+  const activitiesWithTrades = useMemo((): SubaccountActivityWithTrades[] | undefined => {
+    if (!activities) {
+      return undefined;
+    }
+
+    const tradeActionsByHash = (tradeActions ?? []).reduce(
+      (acc, tradeAction) => {
+        const hash = tradeAction.transaction.hash.toLowerCase();
+        acc[hash] = [...(acc[hash] ?? []), tradeAction];
+        return acc;
+      },
+      {} as Record<string, TradeAction[]>
+    );
+
+    return activities.map((activity) => ({
+      ...activity,
+      tradeActions: tradeActionsByHash[activity.hash.toLowerCase()] ?? [],
+    }));
+  }, [activities, tradeActions]);
+
+  const dailySpending = useMemo(() => (activities ? getSubaccountDailySpending(activities) : []), [activities]);
+
+  return { activities: activitiesWithTrades, dailySpending, isLoading };
+}
@@ -0,0 +1,140 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { OrderType, OrdersInfoData } from "domain/synthetics/orders/types";
+import { STRING_FOR_SIGNING } from "./constants";
+import {
+  DEFAULT_SUBACCOUNT_PERMISSIONS,
+  decryptSubaccountPrivateKey,
+  encryptSubaccountPrivateKey,
+  getSubaccountForOrderKeys,
+  getSubaccountForOrders,
+  getSubaccountSigningMessage,
+  getSubaccountsConfig,
+  isSubaccountOrderAllowed,
+  parseSubaccountExport,
+  serializeSubaccountExport,
+} from "./utils";
+
+const ACCOUNT = "0x000000000000000000000000000000000000000A";
+const OTHER_ACCOUNT = "0x000000000000000000000000000000000000000B";
+
+describe("getSubaccountSigningMessage", () => {
+  it("keeps the original message for the first subaccount", () => {
+    expect(getSubaccountSigningMessage(0)).toBe(STRING_FOR_SIGNING);
+    expect(getSubaccountSigningMessage(2)).not.toBe(getSubaccountSigningMessage(1));
+  });
+});
+
+describe("getSubaccountsConfig", () => {
+  it("migrates the legacy subaccount", () => {
+    expect(getSubaccountsConfig(undefined, { privateKey: "encrypted", address: "0x1" })).toEqual({
+      activeAddress: "0x1",
+      subaccounts: [
+        {
+          name: "Default",
+          index: 0,
+          privateKey: "encrypted",
+          address: "0x1",
+          permissions: DEFAULT_SUBACCOUNT_PERMISSIONS,
+        },
+      ],
+    });
+  });
+});
+
+describe("isSubaccountOrderAllowed", () => {
+  const permissions = { marketAddresses: ["ETH-ETH-USDC"], orderTypes: [OrderType.LimitDecrease] };
+
+  it("allows everything with empty lists", () => {
+    expect(
+      isSubaccountOrderAllowed(DEFAULT_SUBACCOUNT_PERMISSIONS, {
+        marketAddresses: ["BTC-BTC-USDC"],
+        orderType: OrderType.MarketIncrease,
+      })
+    ).toBe(true);
+  });
+
+  it("requires every market and the order type to be allowed", () => {
+    expect(
+      isSubaccountOrderAllowed(permissions, { marketAddresses: ["ETH-ETH-USDC"], orderType: OrderType.LimitDecrease })
+    ).toBe(true);
+    expect(
+      isSubaccountOrderAllowed(permissions, {
+        marketAddresses: ["ETH-ETH-USDC", "BTC-BTC-USDC"],
+        orderType: OrderType.LimitDecrease,
+      })
+    ).toBe(false);
+    expect(
+      isSubaccountOrderAllowed(permissions, { marketAddresses: ["ETH-ETH-USDC"], orderType: OrderType.MarketIncrease })
+    ).toBe(false);
+  });
+
+  it("falls back to the main account for orders outside of the whitelist", () => {
+    const subaccount = { permissions };
+
+    expect(
+      getSubaccountForOrders(subaccount, [
+        { marketAddresses: ["ETH-ETH-USDC"], orderType: OrderType.LimitDecrease },
+        { marketAddresses: ["ETH-ETH-USDC"], orderType: OrderType.StopLossDecrease },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("getSubaccountForOrderKeys", () => {
+  const restricted = { permissions: { marketAddresses: ["ETH-ETH-USDC"], orderTypes: [] } };
+  const ordersInfoData = {
+    tp: { marketAddress: "ETH-ETH-USDC", swapPath: [], orderType: OrderType.LimitDecrease },
+    swap: { marketAddress: ethers.ZeroAddress, swapPath: ["BTC-BTC-USDC"], orderType: OrderType.LimitSwap },
+  } as unknown as OrdersInfoData;
+
+  it("checks existing orders against the whitelist", () => {
+    expect(getSubaccountForOrderKeys(restricted, ["tp"], ordersInfoData)).toBe(restricted);
+    expect(getSubaccountForOrderKeys(restricted, ["tp", "swap"], ordersInfoData)).toBeNull();
+  });
+
+  it("falls back to the main account for unknown orders of a restricted subaccount", () => {
+    const unrestricted = { permissions: DEFAULT_SUBACCOUNT_PERMISSIONS };
+
+    expect(getSubaccountForOrderKeys(restricted, ["unknown"], ordersInfoData)).toBeNull();
+    expect(getSubaccountForOrderKeys(unrestricted, ["unknown"], undefined)).toBe(unrestricted);
+  });
+});
+
+describe("serializeSubaccountExport", () => {
+  const wallet = ethers.Wallet.createRandom();
+  const config = {
+    name: "Scalping",
+    index: 1,
+    privateKey: encryptSubaccountPrivateKey(wallet.privateKey, ACCOUNT),
+    address: wallet.address,
+    permissions: { marketAddresses: ["ETH-ETH-USDC"], orderTypes: [] },
+  };
+  const PASSWORD = "correct horse";
+
+  it("is imported by the same account with the password", () => {
+    const imported = parseSubaccountExport(serializeSubaccountExport(config, ACCOUNT, PASSWORD)!, ACCOUNT, PASSWORD);
+
+    expect(imported).toEqual({ ...config, privateKey: expect.any(String) });
+    expect(decryptSubaccountPrivateKey(imported!.privateKey, ACCOUNT)).toBe(wallet.privateKey);
+  });
+
+  it("can't be decrypted with the main account address", () => {
+    const exported = serializeSubaccountExport(config, ACCOUNT, PASSWORD)!;
+
+    expect(parseSubaccountExport(exported, ACCOUNT, ACCOUNT)).toBeUndefined();
+    expect(parseSubaccountExport(exported, ACCOUNT, "wrong password")).toBeUndefined();
+  });
+
+  it("requires a long enough password", () => {
+    expect(serializeSubaccountExport(config, ACCOUNT, "short")).toBeUndefined();
+  });
+
+  it("is rejected for another account or malformed input", () => {
+    const exported = serializeSubaccountExport(config, ACCOUNT, PASSWORD)!;
+
+    expect(parseSubaccountExport(exported, OTHER_ACCOUNT, PASSWORD)).toBeUndefined();
+    expect(parseSubaccountExport("gmx-subaccount:not-base64", ACCOUNT, PASSWORD)).toBeUndefined();
+    expect(parseSubaccountExport("random", ACCOUNT, PASSWORD)).toBeUndefined();
+  });
+});
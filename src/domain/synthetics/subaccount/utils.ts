@@ -0,0 +1,211 @@
+import cryptoJs from "crypto-js";
+import { OrderType } from "domain/synthetics/orders/types";
+import type { Order, OrdersInfoData } from "domain/synthetics/orders/types";
+import { ethers } from "ethers";
+import { STRING_FOR_SIGNING } from "./constants";
+import type {
+  NamedSubaccountConfig,
+  SubaccountExport,
+  SubaccountPermissions,
+  SubaccountSerializedConfig,
+  SubaccountsSerializedConfig,
+} from "./types";
+
+export const DEFAULT_SUBACCOUNT_NAME = "Default";
+
+export const DEFAULT_SUBACCOUNT_PERMISSIONS: SubaccountPermissions = { marketAddresses: [], orderTypes: [] };
+
+const SUBACCOUNT_EXPORT_PREFIX = "gmx-subaccount:";
+
+export const MIN_SUBACCOUNT_EXPORT_PASSWORD_LENGTH = 8;
+
+/**
+ * The first subaccount signs the original message, so the key of a subaccount created before is derived again
+ */
+export function getSubaccountSigningMessage(index: number) {
+  return index === 0 ? STRING_FOR_SIGNING : `${STRING_FOR_SIGNING}\n\nSubaccount #${index}`;
+}
+
+export function getNextSubaccountIndex(subaccounts: NamedSubaccountConfig[]) {
+  return subaccounts.reduce((acc, subaccount) => Math.max(acc, subaccount.index + 1), 0);
+}
+
+export function getSubaccountsConfig(
+  config: SubaccountsSerializedConfig | null | undefined,
+  legacyConfig: SubaccountSerializedConfig | undefined
+): SubaccountsSerializedConfig {
+  if (config) {
+    return config;
+  }
+
+  if (legacyConfig) {
+    return {
+      activeAddress: legacyConfig.address,
+      subaccounts: [
+        {
+          name: DEFAULT_SUBACCOUNT_NAME,
+          index: 0,
+          privateKey: legacyConfig.privateKey,
+          address: legacyConfig.address,
+          permissions: DEFAULT_SUBACCOUNT_PERMISSIONS,
+        },
+      ],
+    };
+  }
+
+  return { activeAddress: null, subaccounts: [] };
+}
+
+export function encryptSubaccountPrivateKey(privateKey: string, account: string) {
+  return cryptoJs.AES.encrypt(privateKey, account).toString();
+}
+
+export function decryptSubaccountPrivateKey(encryptedPrivateKey: string, account: string) {
+  // decrypting with another account either throws or gives an empty string
+  try {
+    return cryptoJs.AES.decrypt(encryptedPrivateKey, account).toString(cryptoJs.enc.Utf8) || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * @param p.marketAddresses - markets the order trades in, every one of them should be allowed
+ */
+export function isSubaccountOrderAllowed(
+  permissions: SubaccountPermissions,
+  p: { marketAddresses: string[]; orderType: OrderType }
+) {
+  const isMarketAllowed =
+    permissions.marketAddresses.length === 0 ||
+    p.marketAddresses.every((marketAddress) =>
+      permissions.marketAddresses.some((allowed) => allowed.toLowerCase() === marketAddress.toLowerCase())
+    );
+  const isOrderTypeAllowed = permissions.orderTypes.length === 0 || permissions.orderTypes.includes(p.orderType);
+
+  return isMarketAllowed && isOrderTypeAllowed;
+}
+
+/**
+ * The main account address is public, so the exported key is encrypted with a password chosen by the user instead
+ */
+export function serializeSubaccountExport(
+  config: NamedSubaccountConfig,
+  account: string,
+  password: string
+): string | undefined {
+  const privateKey = decryptSubaccountPrivateKey(config.privateKey, account);
+
+  if (!privateKey || password.length < MIN_SUBACCOUNT_EXPORT_PASSWORD_LENGTH) {
+    return undefined;
+  }
+
+  const exported: SubaccountExport = {
+    ...config,
+    account,
+    privateKey: cryptoJs.AES.encrypt(privateKey, password).toString(),
+  };
+
+  return SUBACCOUNT_EXPORT_PREFIX + btoa(JSON.stringify(exported));
+}
+
+/**
+ * The imported key is encrypted with the main account again, like the generated ones
+ */
+export function parseSubaccountExport(
+  value: string,
+  account: string,
+  password: string
+): NamedSubaccountConfig | undefined {
+  const trimmed = value.trim();
+
+  if (!trimmed.startsWith(SUBACCOUNT_EXPORT_PREFIX)) {
+    return undefined;
+  }
+
+  let config: SubaccountExport;
+
+  try {
+    config = JSON.parse(atob(trimmed.slice(SUBACCOUNT_EXPORT_PREFIX.length)));
+  } catch (e) {
+    return undefined;
+  }
+
+  if (
+    typeof config?.privateKey !== "string" ||
+    typeof config.address !== "string" ||
+    typeof config.account !== "string" ||
+    config.account.toLowerCase() !== account.toLowerCase()
+  ) {
+    return undefined;
+  }
+
+  // the password is checked the same way as the account when decrypting stored keys
+  const privateKey = decryptSubaccountPrivateKey(config.privateKey, password);
+
+  try {
+    if (!privateKey || new ethers.Wallet(privateKey).address !== config.address) {
+      return undefined;
+    }
+  } catch (e) {
+    return undefined;
+  }
+
+  return {
+    name: typeof config.name === "string" && config.name ? config.name : DEFAULT_SUBACCOUNT_NAME,
+    index: typeof config.index === "number" ? config.index : 0,
+    privateKey: encryptSubaccountPrivateKey(privateKey, account),
+    address: config.address,
+    permissions: {
+      marketAddresses: Array.isArray(config.permissions?.marketAddresses) ? config.permissions.marketAddresses : [],
+      orderTypes: Array.isArray(config.permissions?.orderTypes) ? config.permissions.orderTypes : [],
+    },
+  };
+}
+
+/**
+ * Swap orders trade in the markets of their swap path
+ */
+export function getSubaccountOrderScope(order: Pick<Order, "marketAddress" | "swapPath" | "orderType">) {
+  const isSwap = order.orderType === OrderType.MarketSwap || order.orderType === OrderType.LimitSwap;
+
+  return { marketAddresses: isSwap ? order.swapPath : [order.marketAddress], orderType: order.orderType };
+}
+
+/**
+ * Existing orders which are not loaded can't be checked against the whitelist,
+ * so they are signed by the main account unless the subaccount has no restrictions
+ */
+export function getSubaccountForOrderKeys<T extends { permissions: SubaccountPermissions }>(
+  subaccount: T | null,
+  orderKeys: string[],
+  ordersInfoData: OrdersInfoData | undefined
+): T | null {
+  const orders = orderKeys.map((key) => ordersInfoData?.[key]);
+
+  if (orders.some((order) => !order)) {
+    const isUnrestricted =
+      subaccount?.permissions.marketAddresses.length === 0 && subaccount.permissions.orderTypes.length === 0;
+
+    return isUnrestricted ? subaccount : null;
+  }
+
+  return getSubaccountForOrders(
+    subaccount,
+    orders.map((order) => getSubaccountOrderScope(order!))
+  );
+}
+
+/**
+ * Orders outside of the subaccount whitelist are signed by the main account
+ */
+export function getSubaccountForOrders<T extends { permissions: SubaccountPermissions }>(
+  subaccount: T | null,
+  orders: { marketAddresses: string[]; orderType: OrderType }[]
+): T | null {
+  if (!subaccount || orders.every((order) => isSubaccountOrderAllowed(subaccount.permissions, order))) {
+    return subaccount;
+  }
+
+  return null;
+}
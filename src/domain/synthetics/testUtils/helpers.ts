@@ -0,0 +1,24 @@
+import { USD_DECIMALS } from "config/factors";
+import { expandDecimals } from "lib/numbers";
+
+/**
+ * Usd amount with 30 decimals, cents are kept
+ */
+export const usd = (n: number) => expandDecimals(Math.round(n * 100), USD_DECIMALS - 2);
+
+/**
+ * Per second factor with 30 decimals, 1e-10 per second is 0.31536% per year
+ */
+export const factor = (n: number) => BigInt(n) * expandDecimals(1, 20);
+
+/**
+ * Creates a factory of snapshots where only the timestamp is required and the rest falls back to the defaults
+ */
+export function mockSnapshotFactory<T extends { timestamp: number }>(defaults: Omit<T, "timestamp">) {
+  return (p: Partial<T> & { timestamp: number }) => ({ ...defaults, ...p }) as T;
+}
+
+/**
+ * Token amount with 18 decimals
+ */
+export const tokens = (n: number) => expandDecimals(n, 18);
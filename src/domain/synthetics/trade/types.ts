@@ -201,6 +201,33 @@ export type SwapRoute = {
   liquidity: bigint;
 };
 
+export type SwapSplitLeg = {
+  path: string[];
+  usdIn: bigint;
+  usdOut: bigint;
+};
+
+export type SwapSplit = {
+  legs: SwapSplitLeg[];
+  usdIn: bigint;
+  usdOut: bigint;
+};
+
+export type SwapSplitLegStats = {
+  swapPathStats: SwapPathStats;
+  usdIn: bigint;
+  amountIn: bigint;
+  minOutputAmount: bigint;
+};
+
+export type SwapSplitStats = {
+  legs: SwapSplitLegStats[];
+  usdOut: bigint;
+  amountOut: bigint;
+  totalSwapPriceImpactDeltaUsd: bigint;
+  totalSwapFeeUsd: bigint;
+};
+
 export type MarketsGraph = {
   abjacencyList: { [token: string]: MarketEdge[] };
   edges: MarketEdge[];
@@ -215,6 +242,8 @@ export type SwapEstimator = (
 
 export type FindSwapPath = (usdIn: bigint, opts: { byLiquidity?: boolean }) => SwapPathStats | undefined;
 
+export type FindSwapSplit = (amountIn: bigint, usdIn: bigint) => SwapSplitStats | undefined;
+
 export type TradeFeesType = "swap" | "increase" | "decrease" | "edit";
 
 export type TradeFees = {
@@ -251,4 +280,9 @@ export type TradeSearchParams = {
   pool?: string;
   collateral?: string;
   market?: string;
+  leverage?: string;
+  /**
+   * Pay amount in `from` token units
+   */
+  amount?: string;
 };
@@ -15,6 +15,7 @@ export function usePositionSellerState(chainId: number, closingPosition: Positio
   const { savedAllowedSlippage } = useSettings();
   const [orderOption, setOrderOption] = useState<OrderOption>(OrderOption.Market);
   const [triggerPriceInputValue, setTriggerPriceInputValue] = useState("");
+  const [trailingStopBps, setTrailingStopBps] = useState<number>();
   const [keepLeverage, setKeepLeverage] = useLocalStorageSerializeKey(getKeepLeverageKey(chainId), true);
   const [defaultTriggerAcceptablePriceImpactBps, setDefaultTriggerAcceptablePriceImpactBps] = useState<bigint>();
   const [selectedTriggerAcceptablePriceImpactBps, setSelectedTriggerAcceptablePriceImpactBps] = useState<bigint>();
@@ -27,6 +28,7 @@ export function usePositionSellerState(chainId: number, closingPosition: Positio
   const resetPositionSeller = useCallback(() => {
     setOrderOption(OrderOption.Market);
     setTriggerPriceInputValue("");
+    setTrailingStopBps(undefined);
     setDefaultTriggerAcceptablePriceImpactBps(undefined);
     setSelectedTriggerAcceptablePriceImpactBps(undefined);
     setCloseUsdInputValue("");
@@ -53,6 +55,7 @@ export function usePositionSellerState(chainId: number, closingPosition: Positio
   const handleSetOrderOption = useCallback((option: OrderOption) => {
     setOrderOption(option);
     setTriggerPriceInputValue("");
+    setTrailingStopBps(undefined);
   }, []);
 
   return {
@@ -60,6 +63,8 @@ export function usePositionSellerState(chainId: number, closingPosition: Positio
     handleSetOrderOption,
     triggerPriceInputValue,
     setTriggerPriceInputValue,
+    trailingStopBps,
+    setTrailingStopBps,
     keepLeverage,
     setKeepLeverage,
     defaultTriggerAcceptablePriceImpactBps,
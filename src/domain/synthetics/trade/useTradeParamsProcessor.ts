@@ -1,6 +1,11 @@
 import { getTokenBySymbolSafe, isTokenInList } from "config/tokens";
 import {
   selectTradeboxAvailableTokensOptions,
+  selectTradeboxFromTokenAddress,
+  selectTradeboxSetFocusedInput,
+  selectTradeboxSetFromTokenInputValue,
+  selectTradeboxSetIsLeverageEnabled,
+  selectTradeboxSetLeverageOption,
   selectTradeboxSetTradeConfig,
   selectTradeboxTradeMode,
   selectTradeboxTradeType,
@@ -24,12 +29,24 @@ type TradeOptions = {
   collateralAddress?: string;
 };
 
+type TradeSizeOptions = {
+  tradeType?: TradeType;
+  fromTokenAddress?: string;
+  leverage?: number;
+  amount?: string;
+};
+
 export function useTradeParamsProcessor() {
   const setTradeConfig = useSelector(selectTradeboxSetTradeConfig);
   const availableTokensOptions = useSelector(selectTradeboxAvailableTokensOptions);
   const markets = availableTokensOptions.sortedAllMarkets;
   const tradeMode = useSelector(selectTradeboxTradeMode);
   const tradeType = useSelector(selectTradeboxTradeType);
+  const fromTokenAddress = useSelector(selectTradeboxFromTokenAddress);
+  const setFocusedInput = useSelector(selectTradeboxSetFocusedInput);
+  const setFromTokenInputValue = useSelector(selectTradeboxSetFromTokenInputValue);
+  const setLeverageOption = useSelector(selectTradeboxSetLeverageOption);
+  const setIsLeverageEnabled = useSelector(selectTradeboxSetIsLeverageEnabled);
 
   const { chainId } = useChainId();
   const history = useHistory();
@@ -46,9 +63,22 @@ export function useTradeParamsProcessor() {
     collateralAddress: undefined,
   });
 
+  // size params are applied once per link, after the trade config they refer to is in place
+  const pendingTradeSizeOptions = useRef<TradeSizeOptions>();
+  const processedTradeSizeSearch = useRef<string>();
+
   useEffect(() => {
     const { tradeType } = params;
-    const { mode: tradeMode, from: fromToken, to, market, pool, collateral: collateralToken } = searchParams;
+    const {
+      mode: tradeMode,
+      from: fromToken,
+      to,
+      market,
+      pool,
+      collateral: collateralToken,
+      leverage,
+      amount,
+    } = searchParams;
     const toToken = to ?? market;
 
     const tradeOptions: TradeOptions = {};
@@ -90,10 +120,11 @@ export function useTradeParamsProcessor() {
     }
 
     if (toToken && markets.length > 0) {
-      const toTokenInfo = getTokenBySymbolSafe(chainId, toToken, {
-        isSynthetic: tradeOptions.tradeType === TradeType.Swap ? undefined : true,
-        version: "v2",
-      });
+      const toTokenInfo =
+        getTokenBySymbolSafe(chainId, toToken, {
+          isSynthetic: tradeOptions.tradeType === TradeType.Swap ? undefined : true,
+          version: "v2",
+        }) ?? getTokenBySymbolSafe(chainId, toToken, { version: "v2" });
 
       if (toTokenInfo) {
         const isSwapTrade = tradeOptions.tradeType === TradeType.Swap;
@@ -124,6 +155,22 @@ export function useTradeParamsProcessor() {
       }, 2000);
     }
 
+    if (!history.location.search) {
+      processedTradeSizeSearch.current = undefined;
+    } else if ((leverage || amount) && processedTradeSizeSearch.current !== history.location.search) {
+      processedTradeSizeSearch.current = history.location.search;
+
+      const leverageValue = Number(leverage);
+      const isAmountValid = Number(amount) > 0;
+
+      pendingTradeSizeOptions.current = {
+        tradeType: tradeOptions.tradeType,
+        fromTokenAddress: tradeOptions.fromTokenAddress,
+        leverage: leverageValue > 0 ? leverageValue : undefined,
+        amount: isAmountValid ? amount : undefined,
+      };
+    }
+
     if (!isMatch(prevTradeOptions.current, tradeOptions)) {
       prevTradeOptions.current = tradeOptions;
       setTradeConfig(tradeOptions);
@@ -148,4 +195,31 @@ export function useTradeParamsProcessor() {
     indexTokens,
     availableTokensOptions,
   ]);
+  useEffect(() => {
+    const pending = pendingTradeSizeOptions.current;
+
+    if (!pending) return;
+    if (pending.tradeType !== undefined && pending.tradeType !== tradeType) return;
+    if (pending.fromTokenAddress !== undefined && pending.fromTokenAddress !== fromTokenAddress) return;
+
+    pendingTradeSizeOptions.current = undefined;
+
+    if (pending.leverage !== undefined) {
+      setIsLeverageEnabled(true);
+      setLeverageOption(pending.leverage);
+    }
+
+    if (pending.amount !== undefined) {
+      setFocusedInput("from");
+      setFromTokenInputValue(pending.amount);
+    }
+  }, [
+    searchParams,
+    tradeType,
+    fromTokenAddress,
+    setFocusedInput,
+    setFromTokenInputValue,
+    setIsLeverageEnabled,
+    setLeverageOption,
+  ]);
 }
@@ -30,6 +30,7 @@ import { TokensData } from "../tokens";
 import { TradeMode, TradeType } from "./types";
 import { useAvailableTokenOptions } from "./useAvailableTokenOptions";
 import { useSidecarOrdersState } from "./useSidecarOrdersState";
+import type { ScaledOrderDistribution } from "./utils/scaledOrders";
 import { MarketInfo } from "domain/synthetics/markets";
 
 export type TradeStage = "trade" | "processing";
@@ -50,6 +51,32 @@ export interface TradeboxAdvancedOptions {
   limitOrTPSL: boolean;
 }
 
+export interface TradeboxTwapOptions {
+  enabled: boolean;
+  slicesCountInputValue: string;
+  durationMinutesInputValue: string;
+}
+
+export interface TradeboxScaledOrderOptions {
+  enabled: boolean;
+  ordersCountInputValue: string;
+  toPriceInputValue: string;
+  distribution: ScaledOrderDistribution;
+}
+
+const INITIAL_TWAP_OPTIONS: TradeboxTwapOptions = {
+  enabled: false,
+  slicesCountInputValue: "5",
+  durationMinutesInputValue: "30",
+};
+
+const INITIAL_SCALED_ORDER_OPTIONS: TradeboxScaledOrderOptions = {
+  enabled: false,
+  ordersCountInputValue: "5",
+  toPriceInputValue: "",
+  distribution: "linear",
+};
+
 type StoredTradeOptions = {
   tradeType: TradeType;
   tradeMode: TradeMode;
@@ -243,6 +270,10 @@ export function useTradeboxState(
   const [closeSizeInputValue, setCloseSizeInputValue] = useState("");
   const [triggerPriceInputValue, setTriggerPriceInputValue] = useState<string>("");
   const [triggerRatioInputValue, setTriggerRatioInputValue] = useState<string>("");
+  const [trailingStopBps, setTrailingStopBps] = useState<number>();
+  const [twapOptions, setTwapOptions] = useState<TradeboxTwapOptions>(INITIAL_TWAP_OPTIONS);
+  const [scaledOrderOptions, setScaledOrderOptions] =
+    useState<TradeboxScaledOrderOptions>(INITIAL_SCALED_ORDER_OPTIONS);
 
   const [advancedOptions, setAdvancedOptions] = useSafeState<TradeboxAdvancedOptions>(
     storedOptions.advanced ?? INITIAL_SYNTHETICS_TRADE_OPTIONS_STATE.advanced
@@ -709,6 +740,12 @@ export function useTradeboxState(
     setTriggerPriceInputValue,
     triggerRatioInputValue,
     setTriggerRatioInputValue,
+    trailingStopBps,
+    setTrailingStopBps,
+    twapOptions,
+    setTwapOptions,
+    scaledOrderOptions,
+    setScaledOrderOptions,
     leverageInputValue,
     setLeverageInputValue: handleLeverageInputChange,
     leverageOption,
@@ -5,3 +5,4 @@ export * from "./increase";
 export * from "./decrease";
 export * from "./prices";
 export * from "./common";
+export * from "./scaledOrders";
@@ -0,0 +1,49 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import { getScaledOrderLevels, splitAmountByScaledLevels } from "./scaledOrders";
+
+describe("getScaledOrderLevels", () => {
+  it("spaces prices evenly and grows sizes linearly", () => {
+    const levels = getScaledOrderLevels({
+      fromPrice: usd(2000),
+      toPrice: usd(1800),
+      count: 3,
+      distribution: "linear",
+    });
+
+    expect(levels).toEqual([
+      { price: usd(2000), shareBps: 2222n },
+      { price: usd(1900), shareBps: 3333n },
+      { price: usd(1800), shareBps: 4445n },
+    ]);
+  });
+
+  it("grows sizes geometrically with the same first to last ratio", () => {
+    const levels = getScaledOrderLevels({
+      fromPrice: usd(100),
+      toPrice: usd(130),
+      count: 4,
+      distribution: "geometric",
+    });
+
+    expect(levels.map((level) => level.price)).toEqual([usd(100), usd(110), usd(120), usd(130)]);
+    expect(levels.reduce((acc, level) => acc + level.shareBps, 0n)).toEqual(10000n);
+    expect(levels[1].shareBps - levels[0].shareBps).toBeLessThan(levels[3].shareBps - levels[2].shareBps);
+  });
+
+  it("returns no levels for invalid input", () => {
+    expect(getScaledOrderLevels({ fromPrice: usd(100), toPrice: usd(90), count: 1, distribution: "linear" })).toEqual(
+      []
+    );
+    expect(getScaledOrderLevels({ fromPrice: 0n, toPrice: usd(90), count: 3, distribution: "linear" })).toEqual([]);
+  });
+});
+
+describe("splitAmountByScaledLevels", () => {
+  it("keeps the total amount", () => {
+    const levels = getScaledOrderLevels({ fromPrice: usd(100), toPrice: usd(90), count: 3, distribution: "linear" });
+    const amounts = splitAmountByScaledLevels(1001n, levels);
+
+    expect(amounts).toEqual([222n, 333n, 446n]);
+  });
+});
@@ -0,0 +1,85 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { bigMath } from "lib/bigmath";
+
+export type ScaledOrderDistribution = "linear" | "geometric";
+
+export type ScaledOrderLevel = {
+  price: bigint;
+  /**
+   * Share of the total order size in basis points, shares of all levels sum up to 100%
+   */
+  shareBps: bigint;
+};
+
+export const MIN_SCALED_ORDERS_COUNT = 2;
+export const MAX_SCALED_ORDERS_COUNT = 20;
+/**
+ * Size of the last level relative to the first one
+ */
+export const SCALED_ORDER_SIZE_SKEW = 2;
+
+export function getScaledOrderWeights(count: number, distribution: ScaledOrderDistribution, sizeSkew: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const progress = count > 1 ? i / (count - 1) : 0;
+
+    return distribution === "linear" ? 1 + (sizeSkew - 1) * progress : Math.pow(sizeSkew, progress);
+  });
+}
+
+/**
+ * Builds a ladder of evenly spaced prices from `fromPrice` to `toPrice`,
+ * sizes grow from the first level to the last one by the given distribution.
+ */
+export function getScaledOrderLevels({
+  fromPrice,
+  toPrice,
+  count,
+  distribution,
+  sizeSkew = SCALED_ORDER_SIZE_SKEW,
+}: {
+  fromPrice: bigint;
+  toPrice: bigint;
+  count: number;
+  distribution: ScaledOrderDistribution;
+  sizeSkew?: number;
+}): ScaledOrderLevel[] {
+  if (fromPrice <= 0 || toPrice <= 0 || count < MIN_SCALED_ORDERS_COUNT || count > MAX_SCALED_ORDERS_COUNT) {
+    return [];
+  }
+
+  const weights = getScaledOrderWeights(count, distribution, sizeSkew);
+  const totalWeight = weights.reduce((acc, weight) => acc + weight, 0);
+  const steps = BigInt(count - 1);
+
+  let restShareBps = BASIS_POINTS_DIVISOR_BIGINT;
+
+  return weights.map((weight, i) => {
+    const isLast = i === count - 1;
+    const shareBps = isLast
+      ? restShareBps
+      : BigInt(Math.round((weight / totalWeight) * Number(BASIS_POINTS_DIVISOR_BIGINT)));
+
+    restShareBps -= shareBps;
+
+    return {
+      price: fromPrice + bigMath.mulDiv(toPrice - fromPrice, BigInt(i), steps),
+      shareBps,
+    };
+  });
+}
+
+/**
+ * Splits the amount by level shares, the last level takes the remainder so the total is preserved.
+ */
+export function splitAmountByScaledLevels(amount: bigint, levels: ScaledOrderLevel[]) {
+  let restAmount = amount;
+
+  return levels.map((level, i) => {
+    const levelAmount =
+      i === levels.length - 1 ? restAmount : bigMath.mulDiv(amount, level.shareBps, BASIS_POINTS_DIVISOR_BIGINT);
+
+    restAmount -= levelAmount;
+
+    return levelAmount;
+  });
+}
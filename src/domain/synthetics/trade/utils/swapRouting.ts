@@ -1,5 +1,5 @@
 import { MarketInfo, MarketsInfoData } from "domain/synthetics/markets";
-import { MarketEdge, MarketsGraph, SwapEstimator, SwapRoute } from "../types";
+import { MarketEdge, MarketsGraph, SwapEstimator, SwapRoute, SwapSplit, SwapSplitLeg } from "../types";
 import { getMaxSwapPathLiquidity, getSwapStats } from "./swapStats";
 
 export function getMarketsGraph(markets: MarketInfo[]): MarketsGraph {
@@ -67,6 +67,13 @@ export const createSwapEstimator = (marketsInfoData: MarketsInfoData): SwapEstim
   };
 };
 
+function estimateRouteUsdOut(route: SwapRoute, usdIn: bigint, estimator: SwapEstimator) {
+  return route.edged.reduce((prevUsdOut, edge) => {
+    const { usdOut } = estimator(edge, prevUsdOut);
+    return usdOut;
+  }, usdIn);
+}
+
 export function getBestSwapPath(routes: SwapRoute[], usdIn: bigint, estimator: SwapEstimator) {
   if (routes.length === 0) {
     return undefined;
@@ -77,10 +84,7 @@ export function getBestSwapPath(routes: SwapRoute[], usdIn: bigint, estimator: S
 
   for (const route of routes) {
     try {
-      const pathUsdOut = route.edged.reduce((prevUsdOut, edge) => {
-        const { usdOut } = estimator(edge, prevUsdOut);
-        return usdOut;
-      }, usdIn);
+      const pathUsdOut = estimateRouteUsdOut(route, usdIn, estimator);
 
       if (pathUsdOut > bestUsdOut) {
         bestPath = route.path;
@@ -94,6 +98,117 @@ export function getBestSwapPath(routes: SwapRoute[], usdIn: bigint, estimator: S
   return bestPath;
 }
 
+/**
+ * Divides `usdIn` into `steps` equal chunks and greedily sends every chunk down the route with the highest
+ * marginal `usdOut`. Price impact grows with the swapped amount, so the greedy allocation converges to the
+ * split where marginal outputs of all used routes are equal.
+ *
+ * The estimator only knows the current pool state, so routes sharing a market are never combined:
+ * their legs would affect each other's price impact.
+ */
+export function getBestSwapSplit(
+  routes: SwapRoute[],
+  usdIn: bigint,
+  estimator: SwapEstimator,
+  opts: { maxLegs?: number; steps?: number } = {}
+): SwapSplit | undefined {
+  const { maxLegs = 3, steps = 20 } = opts;
+
+  if (routes.length === 0 || usdIn <= 0 || steps <= 0) {
+    return undefined;
+  }
+
+  const safeEstimate = (route: SwapRoute, amount: bigint) => {
+    if (amount === 0n) {
+      return 0n;
+    }
+
+    try {
+      return estimateRouteUsdOut(route, amount, estimator);
+    } catch (e) {
+      return 0n;
+    }
+  };
+
+  const allocatedUsdIn = routes.map(() => 0n);
+  const allocatedUsdOut = routes.map(() => 0n);
+  const usedMarkets = new Set<string>();
+  let usedLegsCount = 0;
+
+  const chunkUsd = usdIn / BigInt(steps);
+  let remainingUsd = usdIn;
+
+  for (let step = 0; step < steps; step++) {
+    const stepUsd = step === steps - 1 ? remainingUsd : chunkUsd;
+
+    if (stepUsd === 0n) {
+      continue;
+    }
+
+    let bestRouteIndex: number | undefined = undefined;
+    let bestGain = 0n;
+    let bestNextUsdOut = 0n;
+
+    for (let i = 0; i < routes.length; i++) {
+      const route = routes[i];
+      const isUsed = allocatedUsdIn[i] > 0;
+
+      if (!isUsed) {
+        if (usedLegsCount >= maxLegs || route.path.some((marketAddress) => usedMarkets.has(marketAddress))) {
+          continue;
+        }
+      }
+
+      const nextUsdOut = safeEstimate(route, allocatedUsdIn[i] + stepUsd);
+      const gain = nextUsdOut - allocatedUsdOut[i];
+
+      if (bestRouteIndex === undefined || gain > bestGain) {
+        bestRouteIndex = i;
+        bestGain = gain;
+        bestNextUsdOut = nextUsdOut;
+      }
+    }
+
+    if (bestRouteIndex === undefined) {
+      return undefined;
+    }
+
+    if (allocatedUsdIn[bestRouteIndex] === 0n) {
+      usedLegsCount++;
+      routes[bestRouteIndex].path.forEach((marketAddress) => usedMarkets.add(marketAddress));
+    }
+
+    allocatedUsdIn[bestRouteIndex] += stepUsd;
+    allocatedUsdOut[bestRouteIndex] = bestNextUsdOut;
+    remainingUsd -= stepUsd;
+  }
+
+  const legs: SwapSplitLeg[] = [];
+  let totalUsdOut = 0n;
+
+  for (let i = 0; i < routes.length; i++) {
+    if (allocatedUsdIn[i] === 0n) {
+      continue;
+    }
+
+    legs.push({
+      path: routes[i].path,
+      usdIn: allocatedUsdIn[i],
+      usdOut: allocatedUsdOut[i],
+    });
+
+    totalUsdOut += allocatedUsdOut[i];
+  }
+
+  legs.sort((a, b) => (b.usdIn > a.usdIn ? 1 : b.usdIn < a.usdIn ? -1 : 0));
+
+  return {
+    legs,
+    usdIn,
+    usdOut: totalUsdOut,
+  };
+}
+
 export function findAllPaths(
   marketsInfoData: MarketsInfoData,
   graph: MarketsGraph,
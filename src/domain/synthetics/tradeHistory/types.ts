@@ -122,3 +122,11 @@ export type SwapTradeAction = {
 };
 
 export type TradeAction = PositionTradeAction | SwapTradeAction;
+
+export type TradeActionsHistory = {
+  tradeActions: TradeAction[];
+  /**
+   * Defined when older actions are not loaded
+   */
+  historyStartTimestamp: number | undefined;
+};
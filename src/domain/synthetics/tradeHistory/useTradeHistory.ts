@@ -1,5 +1,6 @@
 import { gql } from "@apollo/client";
 import { ethers } from "ethers";
+import chunk from "lodash/chunk";
 import merge from "lodash/merge";
 import { useMemo } from "react";
 import useInfiniteSwr, { SWRInfiniteResponse } from "swr/infinite";
@@ -23,7 +24,18 @@ import { definedOrThrow } from "lib/guards";
 import { bigNumberify } from "lib/numbers";
 import { EMPTY_ARRAY, getByKey } from "lib/objects";
 import { GraphQlFilters, buildFiltersBody, getSyntheticsGraphClient } from "lib/subgraph";
-import { PositionTradeAction, RawTradeAction, SwapTradeAction, TradeAction, TradeActionType } from "./types";
+import {
+  PositionTradeAction,
+  RawTradeAction,
+  SwapTradeAction,
+  TradeAction,
+  TradeActionType,
+  TradeActionsHistory,
+} from "./types";
+import { TimestampPage, fetchAllPagesByTimestamp } from "./utils";
+
+const TRADE_ACTIONS_EXPORT_PAGE_SIZE = 1000;
+const TRANSACTION_HASHES_BATCH_SIZE = 100;
 
 export type TradeHistoryResult = {
   tradeActions?: TradeAction[];
@@ -37,7 +49,12 @@ export function useTradeHistory(
   p: {
     account: string | null | undefined;
     forAllAccounts?: boolean;
+    /**
+     * Fetches actions of several accounts at once, takes precedence over `account`
+     */
+    accounts?: string[];
     pageSize: number;
+    refreshInterval?: number;
     fromTxTimestamp?: number;
     toTxTimestamp?: number;
     marketsDirectionsFilter?: MarketFilterLongShortItemData[];
@@ -52,10 +69,12 @@ export function useTradeHistory(
     pageSize,
     account,
     forAllAccounts,
+    accounts,
     fromTxTimestamp,
     toTxTimestamp,
     marketsDirectionsFilter,
     orderEventCombinations,
+    refreshInterval,
   } = p;
   const marketsInfoData = useMarketsInfoData();
   const tokensData = useTokensData();
@@ -63,12 +82,13 @@ export function useTradeHistory(
   const client = getSyntheticsGraphClient(chainId);
 
   const getKey = (index: number) => {
-    if (chainId && client && (account || forAllAccounts)) {
+    if (chainId && client && (account || forAllAccounts || accounts?.length)) {
       return [
         chainId,
         "useTradeHistory",
         account,
         forAllAccounts,
+        accounts,
         fromTxTimestamp,
         toTxTimestamp,
         orderEventCombinations,
@@ -86,6 +106,7 @@ export function useTradeHistory(
     size: pageIndex,
     setSize: setPageIndex,
   } = useInfiniteSwr(getKey, {
+    refreshInterval,
     fetcher: async (key) => {
       const pageIndex = key.at(-2) as number;
 
@@ -96,6 +117,7 @@ export function useTradeHistory(
         marketsDirectionsFilter,
         forAllAccounts,
         account,
+        accounts,
         fromTxTimestamp,
         toTxTimestamp,
         orderEventCombinations,
@@ -254,27 +276,20 @@ function createRawTradeActionTransformer(
   };
 }
 
-export async function fetchTradeActions({
-  chainId,
-  pageIndex,
-  pageSize,
-  marketsDirectionsFilter = EMPTY_ARRAY,
-  forAllAccounts,
-  account,
-  fromTxTimestamp,
-  toTxTimestamp,
-  orderEventCombinations,
-  marketsInfoData,
-  tokensData,
-}: {
+type FetchTradeActionsParams = {
   chainId: number;
   pageIndex: number;
   pageSize: number;
   marketsDirectionsFilter: MarketFilterLongShortItemData[] | undefined;
   forAllAccounts: boolean | undefined;
   account: string | null | undefined;
+  accounts?: string[];
   fromTxTimestamp: number | undefined;
   toTxTimestamp: number | undefined;
+  /**
+   * Only actions of these transactions are fetched
+   */
+  transactionHashes?: string[];
   orderEventCombinations:
     | {
         eventName?: TradeActionType | undefined;
@@ -284,7 +299,79 @@ export async function fetchTradeActions({
     | undefined;
   marketsInfoData: MarketsInfoData | undefined;
   tokensData: TokensData | undefined;
-}): Promise<TradeAction[]> {
+};
+
+export async function fetchTradeActions(p: FetchTradeActionsParams): Promise<TradeAction[]> {
+  const { items } = await fetchTradeActionsPage(p);
+
+  return items;
+}
+
+/**
+ * Pages through all trade actions matching the filters by transaction timestamp, used for exports
+ */
+export async function fetchAllTradeActions(
+  p: Omit<FetchTradeActionsParams, "pageIndex" | "pageSize">
+): Promise<TradeAction[]> {
+  const { tradeActions } = await fetchTradeActionsHistory(p);
+
+  return tradeActions;
+}
+
+/**
+ * Hashes are requested in batches to keep the `hash_in` filter small
+ */
+export async function fetchTradeActionsByTransactionHashes(
+  p: Omit<FetchTradeActionsParams, "pageIndex" | "pageSize" | "transactionHashes">,
+  transactionHashes: string[]
+): Promise<TradeAction[]> {
+  const batches = await Promise.all(
+    chunk(transactionHashes, TRANSACTION_HASHES_BATCH_SIZE).map((batch) =>
+      fetchAllTradeActions({ ...p, transactionHashes: batch })
+    )
+  );
+
+  return batches.flat();
+}
+
+/**
+ * Same as `fetchAllTradeActions`, the oldest actions are not loaded when `maxPages` is reached
+ */
+export async function fetchTradeActionsHistory(
+  p: Omit<FetchTradeActionsParams, "pageIndex" | "pageSize">,
+  maxPages?: number
+): Promise<TradeActionsHistory> {
+  const { items, historyStartTimestamp } = await fetchAllPagesByTimestamp({
+    pageSize: TRADE_ACTIONS_EXPORT_PAGE_SIZE,
+    toTimestamp: p.toTxTimestamp,
+    maxPages,
+    fetchPage: ({ toTimestamp, skip }) =>
+      fetchTradeActionsPage({
+        ...p,
+        toTxTimestamp: toTimestamp,
+        pageIndex: skip / TRADE_ACTIONS_EXPORT_PAGE_SIZE,
+        pageSize: TRADE_ACTIONS_EXPORT_PAGE_SIZE,
+      }),
+  });
+
+  return { tradeActions: items, historyStartTimestamp };
+}
+
+async function fetchTradeActionsPage({
+  chainId,
+  pageIndex,
+  pageSize,
+  marketsDirectionsFilter = EMPTY_ARRAY,
+  forAllAccounts,
+  account,
+  accounts,
+  fromTxTimestamp,
+  toTxTimestamp,
+  transactionHashes,
+  orderEventCombinations,
+  marketsInfoData,
+  tokensData,
+}: FetchTradeActionsParams): Promise<TimestampPage<TradeAction>> {
   const client = getSyntheticsGraphClient(chainId);
   definedOrThrow(client);
 
@@ -318,10 +405,12 @@ export async function fetchTradeActions({
   const filtersStr = buildFiltersBody({
     and: [
       {
-        account: forAllAccounts ? undefined : account!.toLowerCase(),
+        account: forAllAccounts || accounts ? undefined : account!.toLowerCase(),
+        account_in: forAllAccounts ? undefined : accounts?.map((item) => item.toLowerCase()),
         transaction: {
           timestamp_gte: fromTxTimestamp,
           timestamp_lte: toTxTimestamp,
+          hash_in: transactionHashes?.map((hash) => hash.toLowerCase()),
         },
       },
       {
@@ -471,9 +560,11 @@ export async function fetchTradeActions({
   const result = await client!.query({ query, fetchPolicy: "no-cache" });
 
   const rawTradeActions = (result.data?.tradeActions || []) as RawTradeAction[];
+  const hasNextPage = rawTradeActions.length === pageSize;
+  const lastTimestamp = rawTradeActions.at(-1)?.transaction.timestamp;
 
   if (!marketsInfoData || !tokensData) {
-    return [];
+    return { items: [], hasNextPage: false, lastTimestamp: undefined };
   }
 
   const wrappedToken = getWrappedToken(chainId);
@@ -553,5 +644,5 @@ export async function fetchTradeActions({
     });
   }
 
-  return tradeActions;
+  return { items: tradeActions, hasNextPage, lastTimestamp };
 }
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { TimestampPage, fetchAllPagesByTimestamp } from "./utils";
+
+type Item = { id: string; timestamp: number };
+
+/**
+ * Serves items sorted by timestamp desc the way the subgraph does, `skip` is limited like in the subgraph
+ */
+function mockFetchPage(items: Item[], pageSize: number, maxSkip: number) {
+  const requests: { toTimestamp: number | undefined; skip: number }[] = [];
+
+  const fetchPage = async (p: { toTimestamp: number | undefined; skip: number }): Promise<TimestampPage<Item>> => {
+    requests.push(p);
+
+    if (p.skip > maxSkip) {
+      throw new Error("skip is too large");
+    }
+
+    const page = items
+      .filter((item) => p.toTimestamp === undefined || item.timestamp <= p.toTimestamp)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(p.skip, p.skip + pageSize);
+
+    return { items: page, hasNextPage: page.length === pageSize, lastTimestamp: page.at(-1)?.timestamp };
+  };
+
+  return { fetchPage, requests };
+}
+
+describe("fetchAllPagesByTimestamp", () => {
+  it("loads more pages than the skip limit allows", async () => {
+    // two items per timestamp so that page boundaries split timestamps
+    const items = Array.from({ length: 95 }, (_, i) => ({ id: String(i), timestamp: 1000 - Math.floor(i / 2) }));
+    const { fetchPage, requests } = mockFetchPage(items, 10, 20);
+
+    const result = await fetchAllPagesByTimestamp({ pageSize: 10, toTimestamp: undefined, fetchPage });
+
+    expect(result.items.map((item) => item.id)).toEqual(items.map((item) => item.id));
+    expect(result.historyStartTimestamp).toBeUndefined();
+    expect(requests.length).toBeGreaterThan(3);
+    expect(requests.every((request) => request.skip === 0)).toBe(true);
+  });
+
+  it("skips within a timestamp that fills whole pages", async () => {
+    const items = [
+      ...Array.from({ length: 25 }, (_, i) => ({ id: `a${i}`, timestamp: 100 })),
+      ...Array.from({ length: 3 }, (_, i) => ({ id: `b${i}`, timestamp: 50 })),
+    ];
+    const { fetchPage, requests } = mockFetchPage(items, 10, 20);
+
+    const result = await fetchAllPagesByTimestamp({ pageSize: 10, toTimestamp: 200, fetchPage });
+
+    expect(result.items).toHaveLength(28);
+    expect(requests).toEqual([
+      { toTimestamp: 200, skip: 0 },
+      { toTimestamp: 100, skip: 0 },
+      { toTimestamp: 100, skip: 10 },
+      { toTimestamp: 100, skip: 20 },
+    ]);
+  });
+
+  it("returns the start of the loaded history when the pages limit is reached", async () => {
+    const items = Array.from({ length: 50 }, (_, i) => ({ id: String(i), timestamp: 1000 - i }));
+    const { fetchPage } = mockFetchPage(items, 10, 20);
+
+    const result = await fetchAllPagesByTimestamp({ pageSize: 10, toTimestamp: undefined, maxPages: 2, fetchPage });
+
+    expect(result.items).toHaveLength(19);
+    expect(result.historyStartTimestamp).toBe(982);
+  });
+});
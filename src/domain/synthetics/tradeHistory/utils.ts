@@ -0,0 +1,49 @@
+export type TimestampPage<T> = {
+  items: T[];
+  /**
+   * Items may be filtered on the client, so the page size is checked against the rows returned by the subgraph
+   */
+  hasNextPage: boolean;
+  lastTimestamp: number | undefined;
+};
+
+/**
+ * The subgraph rejects large `skip` values, so pages are requested from the latest item by timestamp.
+ * Items of the last timestamp of a page are requested again as the rest of them may be left for the next page,
+ * `skip` is only used when a whole page has the same timestamp.
+ */
+export async function fetchAllPagesByTimestamp<T extends { id: string }>(p: {
+  pageSize: number;
+  toTimestamp: number | undefined;
+  maxPages?: number;
+  fetchPage: (p: { toTimestamp: number | undefined; skip: number }) => Promise<TimestampPage<T>>;
+}): Promise<{ items: T[]; historyStartTimestamp: number | undefined }> {
+  const { pageSize, maxPages = Infinity, fetchPage } = p;
+
+  const itemsById = new Map<string, T>();
+  let toTimestamp = p.toTimestamp;
+  let skip = 0;
+
+  for (let page = 0; page < maxPages; page++) {
+    const { items, hasNextPage, lastTimestamp } = await fetchPage({ toTimestamp, skip });
+
+    for (const item of items) {
+      if (!itemsById.has(item.id)) {
+        itemsById.set(item.id, item);
+      }
+    }
+
+    if (!hasNextPage || lastTimestamp === undefined) {
+      return { items: Array.from(itemsById.values()), historyStartTimestamp: undefined };
+    }
+
+    if (lastTimestamp === toTimestamp) {
+      skip += pageSize;
+    } else {
+      toTimestamp = lastTimestamp;
+      skip = 0;
+    }
+  }
+
+  return { items: Array.from(itemsById.values()), historyStartTimestamp: toTimestamp };
+}
@@ -0,0 +1,76 @@
+export type TradeHistoryExportFormat = "csv" | "json" | "taxLots";
+
+/**
+ * Flat row shared by trade and claim actions, amounts are decimal strings to keep the full precision
+ */
+export type TradeHistoryExportRow = {
+  timestamp: string;
+  type: "trade" | "claim";
+  event: string;
+  orderType: string;
+  market: string;
+  direction: string;
+  sizeDeltaUsd: string;
+  executionPrice: string;
+  token: string;
+  amount: string;
+  amountUsd: string;
+  outputToken: string;
+  outputAmount: string;
+  pnlUsd: string;
+  positionFeeUsd: string;
+  borrowingFeeUsd: string;
+  fundingFeeUsd: string;
+  priceImpactUsd: string;
+  transactionHash: string;
+};
+
+/**
+ * Part of a position opened by one increase and closed by one decrease or liquidation,
+ * lots without an open transaction were opened before the exported range
+ */
+export type TaxLot = {
+  marketAddress: string;
+  marketName: string;
+  isLong: boolean;
+  collateralTokenSymbol: string;
+  indexTokenDecimals: number;
+  openTimestamp?: number;
+  openTransactionHash?: string;
+  closeTimestamp: number;
+  closeTransactionHash: string;
+  isLiquidation: boolean;
+  sizeUsd: bigint;
+  sizeInTokens?: bigint;
+  openPrice?: bigint;
+  /**
+   * In basis points, leverage of the increase that opened the lot
+   */
+  openLeverage?: bigint;
+  closePrice: bigint;
+  grossPnlUsd: bigint;
+  positionFeeUsd: bigint;
+  borrowingFeeUsd: bigint;
+  fundingFeeUsd: bigint;
+  realizedPnlUsd: bigint;
+};
+
+export type TaxLotExportRow = {
+  market: string;
+  direction: string;
+  collateralToken: string;
+  openDate: string;
+  openTransactionHash: string;
+  closeDate: string;
+  closeTransactionHash: string;
+  isLiquidation: string;
+  sizeUsd: string;
+  sizeInTokens: string;
+  openPrice: string;
+  closePrice: string;
+  grossPnlUsd: string;
+  positionFeeUsd: string;
+  borrowingFeeUsd: string;
+  fundingFeeUsd: string;
+  realizedPnlUsd: string;
+};
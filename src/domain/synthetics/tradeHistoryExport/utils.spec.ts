@@ -0,0 +1,264 @@
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { expandDecimals } from "lib/numbers";
+import { describe, expect, it } from "vitest";
+import { OrderType } from "../orders";
+import { mockMarketsInfoData, mockTokensData } from "../testUtils/mocks";
+import { PositionTradeAction, TradeActionType } from "../tradeHistory/types";
+import { getTaxLots, getTradeActionExportRow } from "./utils";
+
+const usdc = (n: number) => BigInt(Math.round(n * 1e6));
+
+const tokensData = mockTokensData();
+const marketsInfoData = mockMarketsInfoData(tokensData, ["ETH-ETH-USDC"]);
+const marketInfo = marketsInfoData["ETH-ETH-USDC"];
+
+let lastId = 0;
+
+function mockPositionAction(
+  p: Partial<PositionTradeAction> & { orderType: OrderType; sizeDeltaUsd: bigint; timestamp: number }
+): PositionTradeAction {
+  const { timestamp, ...overrides } = p;
+  lastId++;
+
+  return {
+    id: String(lastId),
+    eventName: TradeActionType.OrderExecuted,
+    marketInfo,
+    marketAddress: marketInfo.marketTokenAddress,
+    account: "account",
+    initialCollateralTokenAddress: "USDC",
+    initialCollateralToken: tokensData.USDC,
+    targetCollateralToken: tokensData.USDC,
+    indexToken: tokensData.ETH,
+    swapPath: [],
+    initialCollateralDeltaAmount: 0n,
+    acceptablePrice: 0n,
+    collateralTokenPriceMin: usd(1),
+    collateralTokenPriceMax: usd(1),
+    minOutputAmount: 0n,
+    orderKey: `order-${lastId}`,
+    isLong: true,
+    shouldUnwrapNativeToken: false,
+    transaction: { timestamp, hash: `tx-${lastId}` },
+    ...overrides,
+  };
+}
+
+describe("getTaxLots", () => {
+  it("matches a closed position with its open fees, close fees and funding", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.MarketDecrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1200),
+        positionFeeAmount: usdc(1.2),
+        borrowingFeeAmount: usdc(0.5),
+        fundingFeeAmount: usdc(0.3),
+        timestamp: 200,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        positionFeeAmount: usdc(1),
+        timestamp: 100,
+      }),
+    ]);
+
+    expect(lots).toHaveLength(1);
+    expect(lots[0].openTimestamp).toBe(100);
+    expect(lots[0].closeTimestamp).toBe(200);
+    expect(lots[0].sizeInTokens).toBe(expandDecimals(1, 18));
+    expect(lots[0].grossPnlUsd).toBe(usd(200));
+    expect(lots[0].positionFeeUsd).toBe(expandDecimals(22, 29));
+    expect(lots[0].borrowingFeeUsd).toBe(expandDecimals(5, 29));
+    expect(lots[0].fundingFeeUsd).toBe(expandDecimals(3, 29));
+    expect(lots[0].realizedPnlUsd).toBe(expandDecimals(1970, 29));
+  });
+
+  it("keeps the leverage of the increase that opened the lot", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.MarketDecrease,
+        sizeDeltaUsd: usd(1500),
+        executionPrice: usd(1000),
+        timestamp: 300,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(500),
+        executionPrice: usd(1000),
+        timestamp: 200,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        initialCollateralDeltaAmount: usdc(100),
+        timestamp: 100,
+      }),
+    ]);
+
+    expect(lots.map((lot) => lot.openLeverage)).toEqual([100000n, undefined]);
+  });
+
+  it("closes the oldest lots first and splits close fees by size", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.MarketDecrease,
+        sizeDeltaUsd: usd(1500),
+        executionPrice: usd(1500),
+        positionFeeAmount: usdc(3),
+        timestamp: 300,
+      }),
+      mockPositionAction({
+        orderType: OrderType.LimitIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(2000),
+        timestamp: 200,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        timestamp: 100,
+      }),
+    ]);
+
+    expect(lots.map((lot) => lot.openTimestamp)).toEqual([100, 200]);
+    expect(lots.map((lot) => lot.sizeUsd)).toEqual([usd(1000), usd(500)]);
+    expect(lots.map((lot) => lot.grossPnlUsd)).toEqual([usd(500), usd(-125)]);
+    expect(lots.map((lot) => lot.positionFeeUsd)).toEqual([usd(2), usd(1)]);
+  });
+
+  it("assigns fees settled by an increase to the lots which were already open", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.MarketDecrease,
+        sizeDeltaUsd: usd(2000),
+        executionPrice: usd(1000),
+        timestamp: 300,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        borrowingFeeAmount: usdc(4),
+        timestamp: 200,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        timestamp: 100,
+      }),
+    ]);
+
+    expect(lots.map((lot) => lot.borrowingFeeUsd)).toEqual([usd(4), 0n]);
+  });
+
+  it("calculates PnL of short positions and liquidations", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.Liquidation,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1100),
+        isLong: false,
+        timestamp: 200,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        isLong: false,
+        timestamp: 100,
+      }),
+    ]);
+
+    expect(lots).toHaveLength(1);
+    expect(lots[0].isLiquidation).toBe(true);
+    expect(lots[0].grossPnlUsd).toBe(usd(-100));
+  });
+
+  it("uses the reported PnL for decreases of positions opened before the exported range", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.MarketDecrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1200),
+        pnlUsd: usd(150),
+        positionFeeAmount: usdc(1),
+        timestamp: 200,
+      }),
+    ]);
+
+    expect(lots).toHaveLength(1);
+    expect(lots[0].openTimestamp).toBeUndefined();
+    expect(lots[0].grossPnlUsd).toBe(usd(150));
+    expect(lots[0].realizedPnlUsd).toBe(usd(149));
+  });
+
+  it("keeps lots of different positions apart and ignores actions which are not executed", () => {
+    const lots = getTaxLots([
+      mockPositionAction({
+        orderType: OrderType.MarketDecrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1200),
+        timestamp: 400,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(900),
+        isLong: false,
+        timestamp: 300,
+      }),
+      mockPositionAction({
+        orderType: OrderType.LimitIncrease,
+        eventName: TradeActionType.OrderCreated,
+        sizeDeltaUsd: usd(1000),
+        acceptablePrice: usd(800),
+        timestamp: 200,
+      }),
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: usd(1000),
+        timestamp: 100,
+      }),
+    ]);
+
+    expect(lots).toHaveLength(1);
+    expect(lots[0].openTimestamp).toBe(100);
+    expect(lots[0].grossPnlUsd).toBe(usd(200));
+  });
+});
+
+describe("getTradeActionExportRow", () => {
+  it("formats amounts as full precision decimals", () => {
+    const row = getTradeActionExportRow(
+      mockPositionAction({
+        orderType: OrderType.MarketIncrease,
+        sizeDeltaUsd: usd(1000),
+        executionPrice: expandDecimals(12345, 28),
+        initialCollateralDeltaAmount: usdc(100.5),
+        positionFeeAmount: usdc(0.7),
+        timestamp: 100,
+      })
+    );
+
+    expect(row).toMatchObject({
+      timestamp: "1970-01-01T00:01:40.000Z",
+      type: "trade",
+      event: "OrderExecuted",
+      orderType: "MarketIncrease",
+      direction: "long",
+      sizeDeltaUsd: "1000.0",
+      executionPrice: "123.45",
+      token: "USDC",
+      amount: "100.5",
+      amountUsd: "100.5",
+      positionFeeUsd: "0.7",
+    });
+  });
+});
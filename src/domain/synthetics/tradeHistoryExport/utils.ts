@@ -0,0 +1,423 @@
+import { formatUnits } from "ethers";
+
+import { BASIS_POINTS_DIVISOR_BIGINT, USD_DECIMALS } from "config/factors";
+import { Token } from "domain/tokens";
+import { bigMath } from "lib/bigmath";
+import { getMarketFullName } from "../markets";
+import {
+  OrderType,
+  isDecreaseOrderType,
+  isIncreaseOrderType,
+  isLiquidationOrderType,
+  isSwapOrderType,
+} from "../orders";
+import { ClaimAction } from "../claimHistory/types";
+import { convertToTokenAmount, convertToUsd } from "../tokens";
+import { PositionTradeAction, SwapTradeAction, TradeAction, TradeActionType } from "../tradeHistory/types";
+import type { TaxLot, TaxLotExportRow, TradeHistoryExportRow } from "./types";
+
+type OpenLot = {
+  tradeAction: PositionTradeAction;
+  price: bigint;
+  sizeUsd: bigint;
+  sizeInTokens: bigint;
+  positionFeeUsd: bigint;
+  borrowingFeeUsd: bigint;
+  fundingFeeUsd: bigint;
+};
+
+type FeesUsd = {
+  positionFeeUsd: bigint;
+  borrowingFeeUsd: bigint;
+  fundingFeeUsd: bigint;
+};
+
+const EMPTY_EXPORT_ROW: TradeHistoryExportRow = {
+  timestamp: "",
+  type: "trade",
+  event: "",
+  orderType: "",
+  market: "",
+  direction: "",
+  sizeDeltaUsd: "",
+  executionPrice: "",
+  token: "",
+  amount: "",
+  amountUsd: "",
+  outputToken: "",
+  outputAmount: "",
+  pnlUsd: "",
+  positionFeeUsd: "",
+  borrowingFeeUsd: "",
+  fundingFeeUsd: "",
+  priceImpactUsd: "",
+  transactionHash: "",
+};
+
+function formatExportUsd(value: bigint | undefined) {
+  return value === undefined ? "" : formatUnits(value, USD_DECIMALS);
+}
+
+function formatExportAmount(value: bigint | undefined, decimals: number) {
+  return value === undefined ? "" : formatUnits(value, decimals);
+}
+
+function formatExportTimestamp(timestamp: number | undefined) {
+  return timestamp === undefined ? "" : new Date(timestamp * 1000).toISOString();
+}
+
+function getCollateralAddress(token: Token) {
+  return token.isNative && token.wrappedAddress ? token.wrappedAddress : token.address;
+}
+
+/**
+ * Fees are paid in the collateral token, the same prices as in the trade history table are used for USD values
+ */
+function getTradeActionFeesUsd(tradeAction: PositionTradeAction): FeesUsd {
+  const { initialCollateralToken, collateralTokenPriceMin } = tradeAction;
+
+  const toUsd = (amount: bigint | undefined) =>
+    convertToUsd(amount, initialCollateralToken.decimals, collateralTokenPriceMin) ?? 0n;
+
+  return {
+    positionFeeUsd: toUsd(tradeAction.positionFeeAmount),
+    borrowingFeeUsd: toUsd(tradeAction.borrowingFeeAmount),
+    fundingFeeUsd: toUsd(tradeAction.fundingFeeAmount),
+  };
+}
+
+/**
+ * Leverage the increase was opened with, undefined for increases that didn't add collateral
+ */
+function getIncreaseLeverage(tradeAction: PositionTradeAction): bigint | undefined {
+  const collateralUsd = convertToUsd(
+    tradeAction.initialCollateralDeltaAmount,
+    tradeAction.initialCollateralToken.decimals,
+    tradeAction.collateralTokenPriceMin
+  );
+
+  if (collateralUsd === undefined || collateralUsd <= 0n) {
+    return undefined;
+  }
+
+  return bigMath.mulDiv(tradeAction.sizeDeltaUsd, BASIS_POINTS_DIVISOR_BIGINT, collateralUsd);
+}
+
+export function getTradeActionExportRow(tradeAction: TradeAction): TradeHistoryExportRow {
+  const row: TradeHistoryExportRow = {
+    ...EMPTY_EXPORT_ROW,
+    timestamp: formatExportTimestamp(tradeAction.transaction.timestamp),
+    event: tradeAction.eventName,
+    orderType: OrderType[tradeAction.orderType] ?? String(tradeAction.orderType),
+    token: tradeAction.initialCollateralToken.symbol,
+    amount: formatExportAmount(tradeAction.initialCollateralDeltaAmount, tradeAction.initialCollateralToken.decimals),
+    transactionHash: tradeAction.transaction.hash,
+  };
+
+  if (isSwapOrderType(tradeAction.orderType)) {
+    const swapAction = tradeAction as SwapTradeAction;
+
+    return {
+      ...row,
+      outputToken: swapAction.targetCollateralToken.symbol,
+      outputAmount: formatExportAmount(swapAction.executionAmountOut, swapAction.targetCollateralToken.decimals),
+    };
+  }
+
+  const positionAction = tradeAction as PositionTradeAction;
+  const fees = getTradeActionFeesUsd(positionAction);
+  const isExecuted = positionAction.eventName === TradeActionType.OrderExecuted;
+
+  return {
+    ...row,
+    market: getMarketFullName(positionAction.marketInfo),
+    direction: positionAction.isLong ? "long" : "short",
+    sizeDeltaUsd: formatExportUsd(positionAction.sizeDeltaUsd),
+    executionPrice: formatExportUsd(positionAction.executionPrice),
+    amountUsd: formatExportUsd(
+      convertToUsd(
+        positionAction.initialCollateralDeltaAmount,
+        positionAction.initialCollateralToken.decimals,
+        positionAction.collateralTokenPriceMin
+      )
+    ),
+    outputToken: positionAction.targetCollateralToken.symbol,
+    pnlUsd: formatExportUsd(positionAction.pnlUsd),
+    positionFeeUsd: isExecuted ? formatExportUsd(fees.positionFeeUsd) : "",
+    borrowingFeeUsd: isExecuted ? formatExportUsd(fees.borrowingFeeUsd) : "",
+    fundingFeeUsd: isExecuted ? formatExportUsd(fees.fundingFeeUsd) : "",
+    priceImpactUsd: formatExportUsd(positionAction.priceImpactUsd),
+  };
+}
+
+/**
+ * One row per claimed token of every market, settlements which are not executed yet have no claimed amounts
+ */
+export function getClaimActionExportRows(claimAction: ClaimAction): TradeHistoryExportRow[] {
+  const row: TradeHistoryExportRow = {
+    ...EMPTY_EXPORT_ROW,
+    timestamp: formatExportTimestamp(claimAction.timestamp),
+    type: "claim",
+    event: claimAction.eventName,
+    transactionHash: claimAction.transactionHash,
+  };
+
+  const rows = claimAction.claimItems.flatMap((item) => {
+    const market = getMarketFullName(item.marketInfo);
+    const { longToken, shortToken } = item.marketInfo;
+
+    return [
+      { token: longToken, amount: item.longTokenAmount, amountUsd: item.longTokenAmountUsd },
+      { token: shortToken, amount: item.shortTokenAmount, amountUsd: item.shortTokenAmountUsd },
+    ]
+      .filter(({ amount }) => amount !== 0n)
+      .map(({ token, amount, amountUsd }) => ({
+        ...row,
+        market,
+        token: token.symbol,
+        amount: formatExportAmount(amount, token.decimals),
+        amountUsd: formatExportUsd(amountUsd),
+      }));
+  });
+
+  if (rows.length || claimAction.type === "collateral") {
+    return rows;
+  }
+
+  return [{ ...row, market: claimAction.markets.map((market) => getMarketFullName(market)).join("; ") }];
+}
+
+/**
+ * Merges trade and claim rows into a single list sorted from the oldest to the newest action
+ */
+export function getTradeHistoryExportRows(
+  tradeActions: TradeAction[],
+  claimActions: ClaimAction[]
+): TradeHistoryExportRow[] {
+  const rows = [
+    ...tradeActions.map((tradeAction) => ({
+      timestamp: tradeAction.transaction.timestamp,
+      rows: [getTradeActionExportRow(tradeAction)],
+    })),
+    ...claimActions.map((claimAction) => ({
+      timestamp: claimAction.timestamp,
+      rows: getClaimActionExportRows(claimAction),
+    })),
+  ];
+
+  return rows
+    .reverse()
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap((item) => item.rows);
+}
+
+function splitLot(lot: OpenLot, sizeUsd: bigint) {
+  if (sizeUsd >= lot.sizeUsd) {
+    return { part: lot, rest: undefined };
+  }
+
+  const getShare = (value: bigint) => (value * sizeUsd) / lot.sizeUsd;
+
+  const part: OpenLot = {
+    tradeAction: lot.tradeAction,
+    price: lot.price,
+    sizeUsd,
+    sizeInTokens: getShare(lot.sizeInTokens),
+    positionFeeUsd: getShare(lot.positionFeeUsd),
+    borrowingFeeUsd: getShare(lot.borrowingFeeUsd),
+    fundingFeeUsd: getShare(lot.fundingFeeUsd),
+  };
+
+  const rest: OpenLot = {
+    ...lot,
+    sizeUsd: lot.sizeUsd - part.sizeUsd,
+    sizeInTokens: lot.sizeInTokens - part.sizeInTokens,
+    positionFeeUsd: lot.positionFeeUsd - part.positionFeeUsd,
+    borrowingFeeUsd: lot.borrowingFeeUsd - part.borrowingFeeUsd,
+    fundingFeeUsd: lot.fundingFeeUsd - part.fundingFeeUsd,
+  };
+
+  return { part, rest };
+}
+
+/**
+ * Borrowing and funding fees settled by an increase were accrued by the lots which were already open
+ */
+function addAccruedFees(lots: OpenLot[], fees: FeesUsd) {
+  const totalSizeUsd = lots.reduce((acc, lot) => acc + lot.sizeUsd, 0n);
+  let borrowingFeeLeft = fees.borrowingFeeUsd;
+  let fundingFeeLeft = fees.fundingFeeUsd;
+
+  return lots.map((lot, index) => {
+    const isLast = index === lots.length - 1;
+    const borrowingFeeUsd = isLast ? borrowingFeeLeft : (fees.borrowingFeeUsd * lot.sizeUsd) / totalSizeUsd;
+    const fundingFeeUsd = isLast ? fundingFeeLeft : (fees.fundingFeeUsd * lot.sizeUsd) / totalSizeUsd;
+
+    borrowingFeeLeft -= borrowingFeeUsd;
+    fundingFeeLeft -= fundingFeeUsd;
+
+    return {
+      ...lot,
+      borrowingFeeUsd: lot.borrowingFeeUsd + borrowingFeeUsd,
+      fundingFeeUsd: lot.fundingFeeUsd + fundingFeeUsd,
+    };
+  });
+}
+
+function getTaxLotPositionKey(tradeAction: PositionTradeAction) {
+  const collateralToken = isIncreaseOrderType(tradeAction.orderType)
+    ? tradeAction.targetCollateralToken
+    : tradeAction.initialCollateralToken;
+
+  return `${tradeAction.marketAddress}:${getCollateralAddress(collateralToken)}:${tradeAction.isLong}`;
+}
+
+/**
+ * Matches executed increases to decreases and liquidations of the same position in FIFO order.
+ * Open fees stay with the lot, close fees are split between the closed lots by size.
+ * Decreases without a matching increase in the list use the PnL reported by the subgraph.
+ */
+export function getTaxLots(tradeActions: TradeAction[]): TaxLot[] {
+  const positionActions = tradeActions
+    .filter(
+      (tradeAction): tradeAction is PositionTradeAction =>
+        tradeAction.eventName === TradeActionType.OrderExecuted &&
+        !isSwapOrderType(tradeAction.orderType) &&
+        (tradeAction as PositionTradeAction).sizeDeltaUsd > 0n
+    )
+    .reverse()
+    .sort((a, b) => a.transaction.timestamp - b.transaction.timestamp);
+
+  const openLots: { [positionKey: string]: OpenLot[] } = {};
+  const taxLots: TaxLot[] = [];
+
+  for (const tradeAction of positionActions) {
+    const positionKey = getTaxLotPositionKey(tradeAction);
+    const fees = getTradeActionFeesUsd(tradeAction);
+    const price = tradeAction.executionPrice ?? tradeAction.acceptablePrice;
+    const indexTokenDecimals = tradeAction.indexToken.decimals;
+    const lots = openLots[positionKey] ?? [];
+
+    if (isIncreaseOrderType(tradeAction.orderType)) {
+      const hasOpenLots = lots.length > 0;
+
+      const newLot: OpenLot = {
+        tradeAction,
+        price,
+        sizeUsd: tradeAction.sizeDeltaUsd,
+        sizeInTokens: convertToTokenAmount(tradeAction.sizeDeltaUsd, indexTokenDecimals, price) ?? 0n,
+        positionFeeUsd: fees.positionFeeUsd,
+        borrowingFeeUsd: hasOpenLots ? 0n : fees.borrowingFeeUsd,
+        fundingFeeUsd: hasOpenLots ? 0n : fees.fundingFeeUsd,
+      };
+
+      openLots[positionKey] = [...(hasOpenLots ? addAccruedFees(lots, fees) : []), newLot];
+      continue;
+    }
+
+    if (!isDecreaseOrderType(tradeAction.orderType) && !isLiquidationOrderType(tradeAction.orderType)) {
+      continue;
+    }
+
+    const closeSizeUsd = tradeAction.sizeDeltaUsd;
+    const closedParts: { sizeUsd: bigint; lot?: OpenLot }[] = [];
+    let remainingSizeUsd = closeSizeUsd;
+    const nextLots = [...lots];
+
+    while (remainingSizeUsd > 0n && nextLots.length) {
+      const { part, rest } = splitLot(nextLots[0], remainingSizeUsd);
+
+      closedParts.push({ sizeUsd: part.sizeUsd, lot: part });
+      remainingSizeUsd -= part.sizeUsd;
+
+      if (rest) {
+        nextLots[0] = rest;
+      } else {
+        nextLots.shift();
+      }
+    }
+
+    if (remainingSizeUsd > 0n) {
+      closedParts.push({ sizeUsd: remainingSizeUsd });
+    }
+
+    openLots[positionKey] = nextLots;
+
+    let positionFeeLeft = fees.positionFeeUsd;
+    let borrowingFeeLeft = fees.borrowingFeeUsd;
+    let fundingFeeLeft = fees.fundingFeeUsd;
+
+    closedParts.forEach(({ sizeUsd, lot }, index) => {
+      const isLast = index === closedParts.length - 1;
+      const getCloseShare = (value: bigint, left: bigint) => (isLast ? left : (value * sizeUsd) / closeSizeUsd);
+
+      const closePositionFeeUsd = getCloseShare(fees.positionFeeUsd, positionFeeLeft);
+      const closeBorrowingFeeUsd = getCloseShare(fees.borrowingFeeUsd, borrowingFeeLeft);
+      const closeFundingFeeUsd = getCloseShare(fees.fundingFeeUsd, fundingFeeLeft);
+
+      positionFeeLeft -= closePositionFeeUsd;
+      borrowingFeeLeft -= closeBorrowingFeeUsd;
+      fundingFeeLeft -= closeFundingFeeUsd;
+
+      let grossPnlUsd: bigint;
+
+      if (lot) {
+        const exitValueUsd = convertToUsd(lot.sizeInTokens, indexTokenDecimals, price) ?? 0n;
+        grossPnlUsd = tradeAction.isLong ? exitValueUsd - lot.sizeUsd : lot.sizeUsd - exitValueUsd;
+      } else {
+        grossPnlUsd = ((tradeAction.pnlUsd ?? 0n) * sizeUsd) / closeSizeUsd;
+      }
+
+      const positionFeeUsd = closePositionFeeUsd + (lot?.positionFeeUsd ?? 0n);
+      const borrowingFeeUsd = closeBorrowingFeeUsd + (lot?.borrowingFeeUsd ?? 0n);
+      const fundingFeeUsd = closeFundingFeeUsd + (lot?.fundingFeeUsd ?? 0n);
+
+      taxLots.push({
+        marketAddress: tradeAction.marketAddress,
+        marketName: getMarketFullName(tradeAction.marketInfo),
+        isLong: tradeAction.isLong,
+        collateralTokenSymbol: tradeAction.initialCollateralToken.symbol,
+        indexTokenDecimals,
+        openTimestamp: lot?.tradeAction.transaction.timestamp,
+        openTransactionHash: lot?.tradeAction.transaction.hash,
+        closeTimestamp: tradeAction.transaction.timestamp,
+        closeTransactionHash: tradeAction.transaction.hash,
+        isLiquidation: isLiquidationOrderType(tradeAction.orderType),
+        sizeUsd,
+        sizeInTokens: lot?.sizeInTokens,
+        openPrice: lot?.price,
+        openLeverage: lot ? getIncreaseLeverage(lot.tradeAction) : undefined,
+        closePrice: price,
+        grossPnlUsd,
+        positionFeeUsd,
+        borrowingFeeUsd,
+        fundingFeeUsd,
+        realizedPnlUsd: grossPnlUsd - positionFeeUsd - borrowingFeeUsd - fundingFeeUsd,
+      });
+    });
+  }
+
+  return taxLots;
+}
+
+export function getTaxLotExportRow(taxLot: TaxLot): TaxLotExportRow {
+  return {
+    market: taxLot.marketName,
+    direction: taxLot.isLong ? "long" : "short",
+    collateralToken: taxLot.collateralTokenSymbol,
+    openDate: formatExportTimestamp(taxLot.openTimestamp),
+    openTransactionHash: taxLot.openTransactionHash ?? "",
+    closeDate: formatExportTimestamp(taxLot.closeTimestamp),
+    closeTransactionHash: taxLot.closeTransactionHash,
+    isLiquidation: String(taxLot.isLiquidation),
+    sizeUsd: formatExportUsd(taxLot.sizeUsd),
+    sizeInTokens: formatExportAmount(taxLot.sizeInTokens, taxLot.indexTokenDecimals),
+    openPrice: formatExportUsd(taxLot.openPrice),
+    closePrice: formatExportUsd(taxLot.closePrice),
+    grossPnlUsd: formatExportUsd(taxLot.grossPnlUsd),
+    positionFeeUsd: formatExportUsd(taxLot.positionFeeUsd),
+    borrowingFeeUsd: formatExportUsd(taxLot.borrowingFeeUsd),
+    fundingFeeUsd: formatExportUsd(taxLot.fundingFeeUsd),
+    realizedPnlUsd: formatExportUsd(taxLot.realizedPnlUsd),
+  };
+}
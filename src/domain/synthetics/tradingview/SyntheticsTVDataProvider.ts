@@ -1,12 +1,29 @@
-import { getChainlinkChartPricesFromGraph } from "domain/prices";
+import { PeriodParams } from "charting_library";
+import { getChainlinkChartPricesFromGraph, TIMEZONE_OFFSET_SEC } from "domain/prices";
+import {
+  MarketStudySnapshot,
+  fetchMarketStudySnapshots,
+  getMarketStudyPoints,
+  parseMarketStudyTicker,
+} from "domain/synthetics/chartStudies";
 import { TVDataProvider } from "domain/tradingview/TVDataProvider";
 import { Bar, FromOldToNewArray } from "domain/tradingview/types";
+import { formatTimeInBarToMs, getBarsInPeriod } from "domain/tradingview/utils";
+import { CHART_PERIODS } from "lib/legacy";
 import { sleep } from "lib/sleep";
 import { OracleFetcher } from "lib/oracleKeeperFetcher";
+import { CONFIG_UPDATE_INTERVAL } from "lib/timeConstants";
+
+type CacheEntry<T> = {
+  updatedAt: number;
+  data: Promise<T>;
+};
 
 export class SyntheticsTVDataProvider extends TVDataProvider {
   candlesTimeout = 5000;
   oracleKeeperFetcher: OracleFetcher;
+  marketStudySnapshotsCache: { [key: string]: CacheEntry<MarketStudySnapshot[]> } = {};
+  marketStudyBarsCache: { [key: string]: CacheEntry<FromOldToNewArray<Bar>> } = {};
 
   constructor(params: { resolutions: { [key: number]: string }; oracleFetcher: OracleFetcher; chainId: number }) {
     super(params);
@@ -47,4 +64,75 @@ export class SyntheticsTVDataProvider extends TVDataProvider {
 
     return limitBars;
   }
+
+  override async getBars(
+    chainId: number,
+    ticker: string,
+    resolution: string,
+    isStable: boolean,
+    periodParams: PeriodParams
+  ): Promise<FromOldToNewArray<Bar>> {
+    if (!parseMarketStudyTicker(ticker)) {
+      return super.getBars(chainId, ticker, resolution, isStable, periodParams);
+    }
+
+    const period = this.supportedResolutions[resolution];
+    const bars = await this.getMarketStudyBars(chainId, ticker, period);
+
+    return getBarsInPeriod(bars, periodParams).map(formatTimeInBarToMs) as FromOldToNewArray<Bar>;
+  }
+
+  /**
+   * Market series bars are cached per resolution, the snapshots they are built from are shared between resolutions
+   */
+  getMarketStudyBars(chainId: number, ticker: string, period: string): Promise<FromOldToNewArray<Bar>> {
+    const marketStudy = parseMarketStudyTicker(ticker);
+
+    if (!marketStudy) {
+      return Promise.resolve([]);
+    }
+
+    const key = `${chainId}:${ticker}:${period}`;
+    const cached = this.marketStudyBarsCache[key];
+
+    if (cached && Date.now() - cached.updatedAt < CONFIG_UPDATE_INTERVAL) {
+      return cached.data;
+    }
+
+    const data = this.getMarketStudySnapshots(chainId, marketStudy.marketAddress).then((snapshots) =>
+      getMarketStudyPoints(snapshots, marketStudy.series, CHART_PERIODS[period], Date.now() / 1000).map(
+        (point): Bar => ({
+          time: point.time + TIMEZONE_OFFSET_SEC,
+          open: point.long,
+          close: point.short,
+          high: Math.max(point.long, point.short),
+          low: Math.min(point.long, point.short),
+        })
+      )
+    );
+
+    this.marketStudyBarsCache[key] = { updatedAt: Date.now(), data };
+
+    return data;
+  }
+
+  getMarketStudySnapshots(chainId: number, marketAddress: string): Promise<MarketStudySnapshot[]> {
+    const key = `${chainId}:${marketAddress}`;
+    const cached = this.marketStudySnapshotsCache[key];
+
+    if (cached && Date.now() - cached.updatedAt < CONFIG_UPDATE_INTERVAL) {
+      return cached.data;
+    }
+
+    const data = fetchMarketStudySnapshots(chainId, marketAddress).catch((ex) => {
+      // eslint-disable-next-line no-console
+      console.warn("Load market study snapshots failed", ex);
+      delete this.marketStudySnapshotsCache[key];
+      return [];
+    });
+
+    this.marketStudySnapshotsCache[key] = { updatedAt: Date.now(), data };
+
+    return data;
+  }
 }
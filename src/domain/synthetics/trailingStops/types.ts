@@ -0,0 +1,36 @@
+export type TrailingStop = {
+  id: string;
+  positionKey: string;
+  isLong: boolean;
+  /**
+   * Unset until the created StopLossDecrease order is indexed and matched by its initial trigger price
+   */
+  orderKey?: string;
+  trailBps: number;
+  stepBps: number;
+  /**
+   * Best mark price since activation, highest for longs and lowest for shorts
+   */
+  bestPrice: bigint;
+  triggerPrice: bigint;
+  activatedAt: number;
+  updatesCount: number;
+  /**
+   * Failed order updates in a row, the stop is disabled after too many of them
+   */
+  failedUpdatesCount?: number;
+  /**
+   * The order isn't updated again before this time after a failure
+   */
+  retryAt?: number;
+};
+
+export type SerializedTrailingStop = Omit<TrailingStop, "bestPrice" | "triggerPrice"> & {
+  bestPrice: string;
+  triggerPrice: string;
+};
+
+export type TrailingStopUpdate = {
+  bestPrice: bigint;
+  nextTriggerPrice?: bigint;
+};
@@ -0,0 +1,93 @@
+import noop from "lodash/noop";
+import uniqueId from "lodash/uniqueId";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo, useRef } from "react";
+
+import { getTrailingStopsKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import useWallet from "lib/wallets/useWallet";
+import type { SerializedTrailingStop, TrailingStop } from "./types";
+import { deserializeTrailingStop, serializeTrailingStop } from "./utils";
+
+type TrailingStopsContextType = {
+  trailingStops: TrailingStop[];
+  addTrailingStop: (trailingStop: Omit<TrailingStop, "id" | "activatedAt" | "updatesCount">) => void;
+  /**
+   * Accepts a batch so several stops changed within one render don't overwrite each other in local storage
+   */
+  updateTrailingStops: (patches: { [id: string]: Partial<Omit<TrailingStop, "id">> }) => void;
+  removeTrailingStops: (ids: string[]) => void;
+};
+
+const context = createContext<TrailingStopsContextType>({
+  trailingStops: [],
+  addTrailingStop: noop,
+  updateTrailingStops: noop,
+  removeTrailingStops: noop,
+});
+
+const Provider = context.Provider;
+
+export function TrailingStopsContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const [storedTrailingStops, setStoredTrailingStops] = useLocalStorageSerializeKey<SerializedTrailingStop[]>(
+    getTrailingStopsKey(chainId, account),
+    []
+  );
+
+  const trailingStops = useMemo(() => (storedTrailingStops ?? []).map(deserializeTrailingStop), [storedTrailingStops]);
+
+  // several changes made before the next render are applied on top of each other
+  const latestTrailingStopsRef = useRef(trailingStops);
+  latestTrailingStopsRef.current = trailingStops;
+
+  const setTrailingStops = useCallback(
+    (nextTrailingStops: TrailingStop[]) => {
+      latestTrailingStopsRef.current = nextTrailingStops;
+      setStoredTrailingStops(nextTrailingStops.map(serializeTrailingStop));
+    },
+    [setStoredTrailingStops]
+  );
+
+  const addTrailingStop = useCallback(
+    (trailingStop: Omit<TrailingStop, "id" | "activatedAt" | "updatesCount">) => {
+      const nextTrailingStop: TrailingStop = {
+        ...trailingStop,
+        id: uniqueId(`${Date.now()}_`),
+        activatedAt: Date.now(),
+        updatesCount: 0,
+      };
+
+      setTrailingStops([...latestTrailingStopsRef.current, nextTrailingStop]);
+    },
+    [setTrailingStops]
+  );
+
+  const updateTrailingStops = useCallback(
+    (patches: { [id: string]: Partial<Omit<TrailingStop, "id">> }) => {
+      setTrailingStops(
+        latestTrailingStopsRef.current.map((trailingStop) => ({ ...trailingStop, ...patches[trailingStop.id] }))
+      );
+    },
+    [setTrailingStops]
+  );
+
+  const removeTrailingStops = useCallback(
+    (ids: string[]) => {
+      setTrailingStops(latestTrailingStopsRef.current.filter((t) => !ids.includes(t.id)));
+    },
+    [setTrailingStops]
+  );
+
+  const stableObj = useMemo<TrailingStopsContextType>(
+    () => ({ trailingStops, addTrailingStop, updateTrailingStops, removeTrailingStops }),
+    [trailingStops, addTrailingStop, updateTrailingStops, removeTrailingStops]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function useTrailingStops() {
+  return useContext(context);
+}
@@ -0,0 +1,102 @@
+import { OrderInfo, OrderType } from "domain/synthetics/orders";
+import { getPositionKey } from "domain/synthetics/positions/utils";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import type { TrailingStop } from "./types";
+import {
+  getTrailingStopOrder,
+  getTrailingStopRetryAt,
+  getTrailingStopTriggerPrice,
+  getTrailingStopUpdate,
+} from "./utils";
+
+const account = "0x0000000000000000000000000000000000000001";
+const marketAddress = "0x0000000000000000000000000000000000000002";
+const collateralAddress = "0x0000000000000000000000000000000000000003";
+const positionKey = getPositionKey(account, marketAddress, collateralAddress, true);
+
+const longStop: TrailingStop = {
+  id: "1",
+  positionKey,
+  isLong: true,
+  trailBps: 300,
+  stepBps: 25,
+  bestPrice: usd(2000),
+  triggerPrice: usd(1940),
+  activatedAt: 0,
+  updatesCount: 0,
+};
+
+const shortStop: TrailingStop = {
+  ...longStop,
+  isLong: false,
+  triggerPrice: usd(2060),
+};
+
+function makeOrder(key: string, triggerPrice: bigint, orderType = OrderType.StopLossDecrease) {
+  return {
+    key,
+    account,
+    marketAddress,
+    initialCollateralTokenAddress: collateralAddress,
+    isLong: true,
+    orderType,
+    triggerPrice,
+  } as unknown as OrderInfo;
+}
+
+describe("getTrailingStopTriggerPrice", () => {
+  it("trails below the best price for longs and above for shorts", () => {
+    expect(getTrailingStopTriggerPrice(usd(2000), 300, true)).toEqual(usd(1940));
+    expect(getTrailingStopTriggerPrice(usd(2000), 300, false)).toEqual(usd(2060));
+  });
+});
+
+describe("getTrailingStopUpdate", () => {
+  it("moves the trigger once the favourable move exceeds the step", () => {
+    expect(getTrailingStopUpdate(longStop, usd(2100))).toEqual({
+      bestPrice: usd(2100),
+      nextTriggerPrice: usd(2037),
+    });
+    expect(getTrailingStopUpdate(shortStop, usd(1900))).toEqual({
+      bestPrice: usd(1900),
+      nextTriggerPrice: usd(1957),
+    });
+  });
+
+  it("only tracks the best price while the move is below the step", () => {
+    expect(getTrailingStopUpdate(longStop, usd(2002))).toEqual({ bestPrice: usd(2002) });
+    expect(getTrailingStopUpdate(shortStop, usd(1998))).toEqual({ bestPrice: usd(1998) });
+  });
+
+  it("keeps the best price and the trigger on adverse moves", () => {
+    expect(getTrailingStopUpdate(longStop, usd(1950))).toEqual({ bestPrice: usd(2000) });
+    expect(getTrailingStopUpdate(shortStop, usd(2050))).toEqual({ bestPrice: usd(2000) });
+  });
+});
+
+describe("getTrailingStopRetryAt", () => {
+  it("doubles the delay with every failed update", () => {
+    expect(getTrailingStopRetryAt(1, 1000)).toBe(31_000);
+    expect(getTrailingStopRetryAt(3, 1000)).toBe(121_000);
+  });
+});
+
+describe("getTrailingStopOrder", () => {
+  it("finds a bound order by its key", () => {
+    const orders = [makeOrder("a", usd(1940)), makeOrder("b", usd(1800))];
+
+    expect(getTrailingStopOrder({ ...longStop, orderKey: "b" }, orders)?.key).toEqual("b");
+  });
+
+  it("matches an unbound stop to the closest stop-loss order within one basis point", () => {
+    const orders = [
+      makeOrder("limit", usd(1940), OrderType.LimitDecrease),
+      makeOrder("far", usd(1941)),
+      makeOrder("close", usd(1940) + 1n),
+    ];
+
+    expect(getTrailingStopOrder(longStop, orders)?.key).toEqual("close");
+    expect(getTrailingStopOrder(longStop, [makeOrder("far", usd(1941))])).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { OrderInfo, OrderType, PositionOrderInfo, isOrderForPosition } from "domain/synthetics/orders";
+import { bigMath } from "lib/bigmath";
+import type { SerializedTrailingStop, TrailingStop, TrailingStopUpdate } from "./types";
+
+export const DEFAULT_TRAILING_STOP_STEP_BPS = 25;
+
+export const MAX_TRAILING_STOP_FAILED_UPDATES = 5;
+
+const TRAILING_STOP_RETRY_DELAY = 30 * 1000;
+
+export function getTrailingStopTriggerPrice(bestPrice: bigint, trailBps: number, isLong: boolean) {
+  const delta = bigMath.mulDiv(bestPrice, BigInt(Math.round(trailBps)), BASIS_POINTS_DIVISOR_BIGINT);
+
+  return isLong ? bestPrice - delta : bestPrice + delta;
+}
+
+/**
+ * Tracks the best mark price and returns the next trigger price only when it moves
+ * in the position's favour by more than the configured step, so every update is worth a subaccount action.
+ */
+export function getTrailingStopUpdate(trailingStop: TrailingStop, markPrice: bigint): TrailingStopUpdate {
+  const { isLong, bestPrice: prevBestPrice, triggerPrice, trailBps, stepBps } = trailingStop;
+
+  const bestPrice = isLong ? bigMath.max(prevBestPrice, markPrice) : bigMath.min(prevBestPrice, markPrice);
+  const candidateTriggerPrice = getTrailingStopTriggerPrice(bestPrice, trailBps, isLong);
+  const move = isLong ? candidateTriggerPrice - triggerPrice : triggerPrice - candidateTriggerPrice;
+  const minMove = bigMath.mulDiv(triggerPrice, BigInt(Math.round(stepBps)), BASIS_POINTS_DIVISOR_BIGINT);
+
+  if (move <= 0 || move < minMove) {
+    return { bestPrice };
+  }
+
+  return { bestPrice, nextTriggerPrice: candidateTriggerPrice };
+}
+
+/**
+ * The delay doubles with every failed update in a row
+ */
+export function getTrailingStopRetryAt(failedUpdatesCount: number, now: number) {
+  return now + TRAILING_STOP_RETRY_DELAY * 2 ** Math.max(failedUpdatesCount - 1, 0);
+}
+
+/**
+ * Order trigger prices go through contract price conversion, so an unbound stop is matched
+ * to the closest stop-loss order within one basis point of its initial trigger price.
+ */
+export function getTrailingStopOrder(trailingStop: TrailingStop, orders: OrderInfo[]): PositionOrderInfo | undefined {
+  if (trailingStop.orderKey) {
+    return orders.find((order) => order.key === trailingStop.orderKey) as PositionOrderInfo | undefined;
+  }
+
+  const tolerance = bigMath.mulDiv(trailingStop.triggerPrice, 1n, BASIS_POINTS_DIVISOR_BIGINT);
+  let closestOrder: PositionOrderInfo | undefined = undefined;
+  let closestDiff: bigint | undefined = undefined;
+
+  for (const order of orders) {
+    if (!isOrderForPosition(order, trailingStop.positionKey) || order.orderType !== OrderType.StopLossDecrease) {
+      continue;
+    }
+
+    const diff = bigMath.abs(order.triggerPrice - trailingStop.triggerPrice);
+
+    if (diff <= tolerance && (closestDiff === undefined || diff < closestDiff)) {
+      closestOrder = order;
+      closestDiff = diff;
+    }
+  }
+
+  return closestOrder;
+}
+
+export function serializeTrailingStop(trailingStop: TrailingStop): SerializedTrailingStop {
+  return {
+    ...trailingStop,
+    bestPrice: trailingStop.bestPrice.toString(),
+    triggerPrice: trailingStop.triggerPrice.toString(),
+  };
+}
+
+export function deserializeTrailingStop(trailingStop: SerializedTrailingStop): TrailingStop {
+  return {
+    ...trailingStop,
+    bestPrice: BigInt(trailingStop.bestPrice),
+    triggerPrice: BigInt(trailingStop.triggerPrice),
+  };
+}
@@ -0,0 +1,67 @@
+export type TwapOrderStatus = "active" | "paused";
+
+/**
+ * Set when the order is paused by the updater rather than by the user
+ */
+export type TwapOrderPauseReason = "nativePayment" | "subaccountPermissions" | "sliceFailed";
+
+type TwapOrderBase = {
+  id: string;
+  status: TwapOrderStatus;
+  pauseReason?: TwapOrderPauseReason;
+  slicesCount: number;
+  executedSlicesCount: number;
+  intervalMs: number;
+  nextSliceAt: number;
+  createdAt: number;
+  initialCollateralAddress: string;
+  /**
+   * Total amount of all slices, every slice pays an equal share and the last one takes the remainder
+   */
+  initialCollateralAmount: bigint;
+  swapPath: string[];
+  /**
+   * Execution fee of a single slice
+   */
+  executionFee: bigint;
+  allowedSlippage: number;
+  referralCode: string | undefined;
+};
+
+export type TwapIncreaseOrder = TwapOrderBase & {
+  kind: "increase";
+  marketAddress: string;
+  targetCollateralAddress: string;
+  isLong: boolean;
+  sizeDeltaUsd: bigint;
+  sizeDeltaInTokens: bigint;
+  collateralDeltaAmount: bigint;
+  /**
+   * Acceptable price deviation of the whole order from the mark price, reapplied to the mark price of every slice
+   */
+  acceptablePriceDeltaBps: bigint;
+};
+
+export type TwapSwapOrder = TwapOrderBase & {
+  kind: "swap";
+  toTokenAddress: string;
+  minOutputAmount: bigint;
+  /**
+   * Prices at creation, the minimum output of every slice is rescaled to the prices at its execution
+   */
+  fromTokenPrice: bigint;
+  toTokenPrice: bigint;
+};
+
+export type TwapOrder = TwapIncreaseOrder | TwapSwapOrder;
+
+type TwapOrderInitialFields = "id" | "status" | "executedSlicesCount" | "nextSliceAt" | "createdAt";
+
+export type NewTwapOrder =
+  | Omit<TwapIncreaseOrder, TwapOrderInitialFields>
+  | Omit<TwapSwapOrder, TwapOrderInitialFields>;
+
+export type TwapOrderSchedule = {
+  slicesCount: number;
+  intervalMs: number;
+};
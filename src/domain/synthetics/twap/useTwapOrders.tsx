@@ -0,0 +1,94 @@
+import noop from "lodash/noop";
+import uniqueId from "lodash/uniqueId";
+import { PropsWithChildren, createContext, useCallback, useContext, useMemo } from "react";
+
+import { getTwapOrdersKey } from "config/localStorage";
+import { useChainId } from "lib/chains";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import { SerializedBigIntsInObject, deserializeBigIntsInObject, serializeBigIntsInObject } from "lib/numbers";
+import useWallet from "lib/wallets/useWallet";
+import type { NewTwapOrder, TwapOrder } from "./types";
+
+export type TwapOrderPatch = Partial<Pick<TwapOrder, "status" | "pauseReason" | "executedSlicesCount" | "nextSliceAt">>;
+
+type TwapOrdersContextType = {
+  twapOrders: TwapOrder[];
+  addTwapOrder: (twapOrder: NewTwapOrder) => void;
+  /**
+   * Accepts a batch so several orders changed within one render don't overwrite each other in local storage
+   */
+  updateTwapOrders: (patches: { [id: string]: TwapOrderPatch }) => void;
+  removeTwapOrders: (ids: string[]) => void;
+};
+
+const context = createContext<TwapOrdersContextType>({
+  twapOrders: [],
+  addTwapOrder: noop,
+  updateTwapOrders: noop,
+  removeTwapOrders: noop,
+});
+
+const Provider = context.Provider;
+
+export function TwapOrdersContextProvider({ children }: PropsWithChildren) {
+  const { chainId } = useChainId();
+  const { account } = useWallet();
+  const [storedTwapOrders, setStoredTwapOrders] = useLocalStorageSerializeKey<SerializedBigIntsInObject<TwapOrder>[]>(
+    getTwapOrdersKey(chainId, account),
+    []
+  );
+
+  const twapOrders = useMemo(
+    () => (storedTwapOrders ?? []).map((twapOrder) => deserializeBigIntsInObject(twapOrder) as TwapOrder),
+    [storedTwapOrders]
+  );
+
+  const setTwapOrders = useCallback(
+    (nextTwapOrders: TwapOrder[]) => setStoredTwapOrders(nextTwapOrders.map(serializeBigIntsInObject)),
+    [setStoredTwapOrders]
+  );
+
+  const addTwapOrder = useCallback(
+    (twapOrder: NewTwapOrder) => {
+      const now = Date.now();
+
+      setTwapOrders([
+        ...twapOrders,
+        {
+          ...twapOrder,
+          id: uniqueId(`${now}_`),
+          status: "active",
+          executedSlicesCount: 0,
+          nextSliceAt: now,
+          createdAt: now,
+        } as TwapOrder,
+      ]);
+    },
+    [setTwapOrders, twapOrders]
+  );
+
+  const updateTwapOrders = useCallback(
+    (patches: { [id: string]: TwapOrderPatch }) => {
+      setTwapOrders(twapOrders.map((twapOrder) => ({ ...twapOrder, ...patches[twapOrder.id] })));
+    },
+    [setTwapOrders, twapOrders]
+  );
+
+  const removeTwapOrders = useCallback(
+    (ids: string[]) => {
+      setTwapOrders(twapOrders.filter((twapOrder) => !ids.includes(twapOrder.id)));
+    },
+    [setTwapOrders, twapOrders]
+  );
+
+  const stableObj = useMemo<TwapOrdersContextType>(
+    () => ({ twapOrders, addTwapOrder, updateTwapOrders, removeTwapOrders }),
+    [twapOrders, addTwapOrder, updateTwapOrders, removeTwapOrders]
+  );
+
+  return <Provider value={stableObj}>{children}</Provider>;
+}
+
+export function useTwapOrders() {
+  return useContext(context);
+}
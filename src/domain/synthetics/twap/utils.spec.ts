@@ -0,0 +1,91 @@
+import { NATIVE_TOKEN_ADDRESS } from "config/tokens";
+import { OrderType } from "domain/synthetics/orders/types";
+import { usd } from "domain/synthetics/testUtils/helpers";
+import { describe, expect, it } from "vitest";
+import {
+  getAcceptablePriceDeltaBps,
+  getTwapOrderPauseReason,
+  getTwapOrderSchedule,
+  getTwapSliceAcceptablePrice,
+  getTwapSliceAmount,
+  getTwapSliceMinOutputAmount,
+} from "./utils";
+
+describe("getTwapOrderSchedule", () => {
+  it("spreads slices so the first one is sent immediately and the last one at the end", () => {
+    expect(getTwapOrderSchedule(5, 60)).toEqual({ slicesCount: 5, intervalMs: 15 * 60 * 1000 });
+  });
+
+  it("rejects invalid schedules", () => {
+    expect(getTwapOrderSchedule(1, 60)).toBeUndefined();
+    expect(getTwapOrderSchedule(2.5, 60)).toBeUndefined();
+    expect(getTwapOrderSchedule(5, 0)).toBeUndefined();
+    expect(getTwapOrderSchedule(100, 1)).toBeUndefined();
+  });
+});
+
+describe("getTwapSliceAmount", () => {
+  it("lets the last slice take the remainder", () => {
+    const amounts = [0, 1, 2].map((i) => getTwapSliceAmount(100n, 3, i));
+
+    expect(amounts).toEqual([33n, 33n, 34n]);
+  });
+});
+
+describe("getTwapSliceAcceptablePrice", () => {
+  it("reapplies the acceptable price deviation to the current mark price", () => {
+    const deltaBps = getAcceptablePriceDeltaBps(usd(2000), usd(2010));
+
+    expect(deltaBps).toEqual(50n);
+    expect(getTwapSliceAcceptablePrice(usd(2200), deltaBps)).toEqual(usd(2211));
+    expect(getTwapSliceAcceptablePrice(usd(2200), -deltaBps)).toEqual(usd(2189));
+  });
+});
+
+describe("getTwapSliceMinOutputAmount", () => {
+  it("rescales the minimum output to the current prices", () => {
+    const order = { minOutputAmount: 3000n, slicesCount: 3, fromTokenPrice: usd(2000), toTokenPrice: usd(1) };
+
+    expect(getTwapSliceMinOutputAmount(order, 0, { fromTokenPrice: usd(2000), toTokenPrice: usd(1) })).toEqual(1000n);
+    expect(getTwapSliceMinOutputAmount(order, 0, { fromTokenPrice: usd(1800), toTokenPrice: usd(1) })).toEqual(900n);
+  });
+});
+
+describe("getTwapOrderPauseReason", () => {
+  const anyPermissions = { marketAddresses: [], orderTypes: [] };
+
+  it("pauses native token payments as the subaccount can't send them", () => {
+    expect(
+      getTwapOrderPauseReason(
+        { kind: "increase", initialCollateralAddress: NATIVE_TOKEN_ADDRESS, marketAddress: "0xMarket" },
+        anyPermissions
+      )
+    ).toBe("nativePayment");
+  });
+
+  it("pauses orders outside of the subaccount permissions", () => {
+    const permissions = { marketAddresses: ["0xMarket"], orderTypes: [OrderType.MarketIncrease] };
+
+    expect(
+      getTwapOrderPauseReason(
+        { kind: "increase", initialCollateralAddress: "0xUsdc", marketAddress: "0xMarket" },
+        permissions
+      )
+    ).toBeUndefined();
+    expect(
+      getTwapOrderPauseReason(
+        { kind: "increase", initialCollateralAddress: "0xUsdc", marketAddress: "0xOther" },
+        permissions
+      )
+    ).toBe("subaccountPermissions");
+    expect(
+      getTwapOrderPauseReason({ kind: "swap", initialCollateralAddress: "0xUsdc", swapPath: ["0xMarket"] }, permissions)
+    ).toBe("subaccountPermissions");
+    expect(
+      getTwapOrderPauseReason(
+        { kind: "swap", initialCollateralAddress: "0xUsdc", swapPath: ["0xMarket"] },
+        anyPermissions
+      )
+    ).toBeUndefined();
+  });
+});
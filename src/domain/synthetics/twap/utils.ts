@@ -0,0 +1,93 @@
+import { BASIS_POINTS_DIVISOR_BIGINT } from "config/factors";
+import { NATIVE_TOKEN_ADDRESS } from "config/tokens";
+import { bigMath } from "lib/bigmath";
+import { OrderType } from "../orders/types";
+import type { SubaccountPermissions } from "../subaccount/types";
+import { getSubaccountForOrders } from "../subaccount/utils";
+import type { TwapIncreaseOrder, TwapOrder, TwapOrderPauseReason, TwapOrderSchedule, TwapSwapOrder } from "./types";
+
+export const MIN_TWAP_SLICES_COUNT = 2;
+export const MAX_TWAP_SLICES_COUNT = 100;
+export const MIN_TWAP_INTERVAL_MS = 30 * 1000;
+
+export function getTwapOrderSchedule(slicesCount: number, durationMinutes: number): TwapOrderSchedule | undefined {
+  if (
+    !Number.isInteger(slicesCount) ||
+    slicesCount < MIN_TWAP_SLICES_COUNT ||
+    slicesCount > MAX_TWAP_SLICES_COUNT ||
+    !(durationMinutes > 0)
+  ) {
+    return undefined;
+  }
+
+  const intervalMs = Math.floor((durationMinutes * 60 * 1000) / (slicesCount - 1));
+
+  if (intervalMs < MIN_TWAP_INTERVAL_MS) {
+    return undefined;
+  }
+
+  return { slicesCount, intervalMs };
+}
+
+/**
+ * Equal share of the total amount for the slice, the last slice takes the remainder so the total is preserved.
+ */
+export function getTwapSliceAmount(totalAmount: bigint, slicesCount: number, sliceIndex: number) {
+  const sliceAmount = totalAmount / BigInt(slicesCount);
+
+  if (sliceIndex === slicesCount - 1) {
+    return totalAmount - sliceAmount * BigInt(slicesCount - 1);
+  }
+
+  return sliceAmount;
+}
+
+export function getTwapSliceAcceptablePrice(markPrice: bigint, acceptablePriceDeltaBps: bigint) {
+  return markPrice + bigMath.mulDiv(markPrice, acceptablePriceDeltaBps, BASIS_POINTS_DIVISOR_BIGINT);
+}
+
+export function getAcceptablePriceDeltaBps(markPrice: bigint, acceptablePrice: bigint) {
+  if (markPrice <= 0) return 0n;
+
+  return bigMath.mulDiv(acceptablePrice - markPrice, BASIS_POINTS_DIVISOR_BIGINT, markPrice);
+}
+
+export function getTwapSliceMinOutputAmount(
+  order: Pick<TwapSwapOrder, "minOutputAmount" | "slicesCount" | "fromTokenPrice" | "toTokenPrice">,
+  sliceIndex: number,
+  { fromTokenPrice, toTokenPrice }: { fromTokenPrice: bigint; toTokenPrice: bigint }
+) {
+  const sliceMinOutputAmount = getTwapSliceAmount(order.minOutputAmount, order.slicesCount, sliceIndex);
+
+  if (order.fromTokenPrice <= 0 || toTokenPrice <= 0) {
+    return sliceMinOutputAmount;
+  }
+
+  return bigMath.mulDiv(sliceMinOutputAmount, fromTokenPrice * order.toTokenPrice, order.fromTokenPrice * toTokenPrice);
+}
+
+export function getIsTwapOrderSliceDue(order: TwapOrder, now: number) {
+  return order.status === "active" && order.executedSlicesCount < order.slicesCount && order.nextSliceAt <= now;
+}
+
+/**
+ * Slices are sent by a background timer, so they are signed by the subaccount only.
+ * Orders the subaccount can't place are paused instead of prompting the main wallet for every slice.
+ */
+export function getTwapOrderPauseReason(
+  order:
+    | Pick<TwapIncreaseOrder, "kind" | "initialCollateralAddress" | "marketAddress">
+    | Pick<TwapSwapOrder, "kind" | "initialCollateralAddress" | "swapPath">,
+  permissions: SubaccountPermissions
+): TwapOrderPauseReason | undefined {
+  if (order.initialCollateralAddress === NATIVE_TOKEN_ADDRESS) {
+    return "nativePayment";
+  }
+
+  const scope =
+    order.kind === "increase"
+      ? { marketAddresses: [order.marketAddress], orderType: OrderType.MarketIncrease }
+      : { marketAddresses: order.swapPath, orderType: OrderType.MarketSwap };
+
+  return getSubaccountForOrders({ permissions }, [scope]) ? undefined : "subaccountPermissions";
+}
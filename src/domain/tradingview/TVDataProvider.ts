@@ -1,8 +1,8 @@
 import { LAST_BAR_FETCH_INTERVAL } from "config/tradingview";
-import { getLimitChartPricesFromStats, TIMEZONE_OFFSET_SEC } from "domain/prices";
+import { getLimitChartPricesFromStats } from "domain/prices";
 import { CHART_PERIODS } from "lib/legacy";
 import { Bar, FromOldToNewArray } from "./types";
-import { formatTimeInBarToMs, getCurrentCandleTime, getMax, getMin } from "./utils";
+import { formatTimeInBarToMs, getBarsInPeriod, getCurrentCandleTime, getMax, getMin } from "./utils";
 import { fillBarGaps, getStableCoinPrice, getTokenChartPrice } from "./requests";
 import { PeriodParams } from "charting_library";
 
@@ -161,24 +161,7 @@ export class TVDataProvider {
       }
     }
 
-    const { from, to, countBack } = periodParams;
-    const toWithOffset = to + TIMEZONE_OFFSET_SEC;
-    const fromWithOffset = from + TIMEZONE_OFFSET_SEC;
-
-    const bars = barsInfo.data.filter((bar) => bar.time > fromWithOffset && bar.time <= toWithOffset);
-
-    // if no bars returned, return empty array
-    if (!bars.length) {
-      return [];
-    }
-
-    // if bars are fewer than countBack, return all of them
-    if (bars.length < countBack) {
-      return bars;
-    }
-
-    // if bars are more than countBack, return latest bars
-    return bars.slice(bars.length - countBack, bars.length);
+    return getBarsInPeriod(barsInfo.data, periodParams);
   }
 
   async getBars(
@@ -10,12 +10,16 @@ import {
 } from "charting_library";
 import { getNativeToken, getPriceDecimals, getTokens, isChartAvailabeForToken } from "config/tokens";
 import { SUPPORTED_RESOLUTIONS_V1 } from "config/tradingview";
+import { parseMarketStudyTicker } from "domain/synthetics/chartStudies/utils";
 import { useChainId } from "lib/chains";
 import { MutableRefObject, useEffect, useMemo, useRef } from "react";
 import { TVDataProvider } from "./TVDataProvider";
 import { Bar, FromOldToNewArray, SymbolInfo } from "./types";
 import { formatTimeInBarToMs } from "./utils";
 
+// market series values are rounded to 4 decimals
+const MARKET_STUDY_PRICESCALE = 10000;
+
 function getConfigurationData(supportedResolutions): DatafeedConfiguration {
   const config: DatafeedConfiguration = {
     supported_resolutions: Object.keys(supportedResolutions) as ResolutionString[],
@@ -150,6 +154,26 @@ function buildFeeder({
         window.setTimeout(() => callback(getConfigurationData(supportedResolutions)));
       },
       resolveSymbol(symbolName, onSymbolResolvedCallback) {
+        if (parseMarketStudyTicker(symbolName)) {
+          const symbolInfo = {
+            name: symbolName,
+            type: "index",
+            description: symbolName,
+            ticker: symbolName,
+            session: "24x7",
+            minmov: 1,
+            pricescale: MARKET_STUDY_PRICESCALE,
+            timezone: "Etc/UTC",
+            has_intraday: true,
+            has_daily: true,
+            visible_plots_set: "ohlc",
+            data_status: "delayed_streaming",
+            isStable: false,
+          } as unknown as LibrarySymbolInfo;
+          setTimeout(() => onSymbolResolvedCallback(symbolInfo));
+          return;
+        }
+
         if (!isChartAvailabeForToken(chainId, symbolName)) {
           symbolName = getNativeToken(chainId).symbol;
         }
@@ -193,7 +217,9 @@ function buildFeeder({
           }
           const bars =
             (await tvDataProviderRef.current?.getBars(chainId, ticker, resolution, isStable, periodParams)) || [];
-          lastBarTimeRef.current = 0;
+          if (!parseMarketStudyTicker(ticker)) {
+            lastBarTimeRef.current = 0;
+          }
           const noData = !bars || bars.length === 0;
           onHistoryCallback(bars, { noData });
         } catch {
@@ -206,6 +232,11 @@ function buildFeeder({
         onRealtimeCallback: SubscribeBarsCallback,
         listenerGuid: string
       ) {
+        // market series are refreshed with the history requests, they have no live bars
+        if (symbolInfo.ticker && parseMarketStudyTicker(symbolInfo.ticker)) {
+          return;
+        }
+
         await subscribeBars({
           symbolInfo,
           resolution,
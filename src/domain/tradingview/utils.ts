@@ -1,6 +1,7 @@
 import { TIMEZONE_OFFSET_SEC } from "domain/prices";
 import { CHART_PERIODS } from "lib/legacy";
-import { Bar } from "./types";
+import { PeriodParams } from "charting_library";
+import { Bar, FromOldToNewArray } from "./types";
 
 export function getObjectKeyFromValue(value, object) {
   return Object.keys(object).find((key) => object[key] === value);
@@ -26,3 +27,19 @@ export function getMax(...values: (number | undefined)[]): number {
 export function getMin(...values: (number | undefined)[]): number {
   return Math.min(...(values.filter((value) => Boolean(value) && typeof value === "number") as number[]));
 }
+
+export function getBarsInPeriod(bars: FromOldToNewArray<Bar>, periodParams: PeriodParams): FromOldToNewArray<Bar> {
+  const { from, to, countBack } = periodParams;
+  const toWithOffset = to + TIMEZONE_OFFSET_SEC;
+  const fromWithOffset = from + TIMEZONE_OFFSET_SEC;
+
+  const barsInPeriod = bars.filter((bar) => bar.time > fromWithOffset && bar.time <= toWithOffset);
+
+  // if bars are fewer than countBack, return all of them
+  if (barsInPeriod.length < countBack) {
+    return barsInPeriod;
+  }
+
+  // if bars are more than countBack, return latest bars
+  return barsInPeriod.slice(barsInPeriod.length - countBack, barsInPeriod.length);
+}
@@ -0,0 +1,24 @@
+function getIsNotificationsSupported() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+export function requestNotificationPermission() {
+  if (!getIsNotificationsSupported() || Notification.permission !== "default") {
+    return;
+  }
+
+  Notification.requestPermission().catch(() => undefined);
+}
+
+export function showBrowserNotification(title: string, body: string) {
+  if (!getIsNotificationsSupported() || Notification.permission !== "granted") {
+    return;
+  }
+
+  try {
+    const notification = new Notification(title, { body, tag: body });
+    notification.onclick = () => window.focus();
+  } catch (e) {
+    // mobile browsers only allow notifications from service workers
+  }
+}
@@ -8,6 +8,7 @@ import { getGasLimit, getGasPrice, getBestNonce } from "./utils";
 import { ReactNode } from "react";
 import React from "react";
 import { getTenderlyConfig, simulateTxWithTenderly } from "lib/tenderly";
+import { recordSubaccountTxn } from "domain/synthetics/subaccount/activityLog";
 
 export async function callContract(
   chainId: number,
@@ -112,6 +113,11 @@ export async function callContract(
       throw errors[0];
     });
 
+    if (opts.customSigners) {
+      // custom signers are only set for subaccount transactions
+      recordSubaccountTxn(chainId, wallet.address, res.hash);
+    }
+
     if (!opts.hideSentMsg) {
       showCallContractToast({
         chainId,
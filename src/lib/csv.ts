@@ -1,3 +1,5 @@
+import { downloadFile } from "./downloadFile";
+
 const CSV_SEPARATOR = ",";
 
 function filterFields<T>(data: T, excludedFields: (keyof T)[]): Partial<T> {
@@ -6,10 +8,18 @@ function filterFields<T>(data: T, excludedFields: (keyof T)[]): Partial<T> {
   return result;
 }
 
+function escapeCell(cell: string): string {
+  if (cell.includes(CSV_SEPARATOR) || cell.includes('"') || cell.includes("\n")) {
+    return `"${cell.replaceAll('"', '""')}"`;
+  }
+
+  return cell;
+}
+
 function convertToCSV<T>(data: Partial<T>[], customHeaders?: Partial<Record<keyof T, string>>): string {
   const keys = customHeaders ? Object.keys(customHeaders) : Object.keys(data[0]);
 
-  const header = keys.map((key) => customHeaders?.[key as keyof T] ?? key).join(CSV_SEPARATOR);
+  const header = keys.map((key) => escapeCell(customHeaders?.[key as keyof T] ?? key)).join(CSV_SEPARATOR);
 
   const values = data
     .map((object) =>
@@ -17,7 +27,7 @@ function convertToCSV<T>(data: Partial<T>[], customHeaders?: Partial<Record<keyo
         .map((key) => {
           const value = object[key];
           const cell = value === undefined ? "" : String(value);
-          return cell.includes(CSV_SEPARATOR) ? `"${cell}"` : cell;
+          return escapeCell(cell);
         })
         .join(CSV_SEPARATOR)
     )
@@ -33,13 +43,5 @@ export function downloadAsCsv<T>(
 ) {
   const filteredData = data.map((item) => filterFields(item, excludedFields));
   const csv = convertToCSV(filteredData, customHeaders);
-  const blob = new Blob([csv], { type: "text/csv" });
-  const csvUrl = window.URL.createObjectURL(blob);
-  const aElement = document.createElement("a");
-  aElement.href = csvUrl;
-  aElement.download = `${fileName}.csv`;
-  document.body.appendChild(aElement);
-  aElement.click();
-  document.body.removeChild(aElement);
-  window.URL.revokeObjectURL(csvUrl);
+  downloadFile(`${fileName}.csv`, csv, "text/csv");
 }
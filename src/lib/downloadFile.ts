@@ -0,0 +1,16 @@
+export function downloadFile(fileName: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const aElement = document.createElement("a");
+  aElement.href = url;
+  aElement.download = fileName;
+  document.body.appendChild(aElement);
+  aElement.click();
+  document.body.removeChild(aElement);
+  window.URL.revokeObjectURL(url);
+}
+
+export function downloadAsJson(fileName: string, data: unknown) {
+  const json = JSON.stringify(data, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+  downloadFile(`${fileName}.json`, json, "application/json");
+}
@@ -2,7 +2,7 @@ import { ClientConfig, createPublicClient, http } from "viem";
 import type { BatchOptions } from "viem/_types/clients/transports/http";
 import { arbitrum, arbitrumGoerli, avalanche, avalancheFuji } from "viem/chains";
 
-import { ARBITRUM, ARBITRUM_GOERLI, AVALANCHE, AVALANCHE_FUJI, getFallbackRpcUrl, getRpcUrl } from "config/chains";
+import { ARBITRUM, ARBITRUM_GOERLI, AVALANCHE, AVALANCHE_FUJI } from "config/chains";
 import { isWebWorker } from "config/env";
 import { hashData } from "lib/hash";
 import { sleep } from "lib/sleep";
@@ -13,6 +13,7 @@ import { MulticallErrorEvent, MulticallTimeoutEvent } from "lib/metrics";
 import { emitMetricEvent } from "lib/metrics/emitMetricEvent";
 import { SlidingWindowFallbackSwitcher } from "lib/slidingWindowFallbackSwitcher";
 import { getStaticOracleKeeperFetcher } from "lib/oracleKeeperFetcher";
+import { RpcUrls, getBestRpcUrls } from "lib/rpc/rpcTracker";
 import { serializeMulticallErrors } from "./utils";
 
 export const MAX_TIMEOUT = 20000;
@@ -86,20 +87,26 @@ export class Multicall {
     [chainId: number]: Multicall | undefined;
   } = {};
 
-  static async getInstance(chainId: number, abFlags: Record<string, boolean>) {
+  /**
+   * Workers can't rank endpoints themselves, so they pass the urls chosen on the main thread
+   */
+  static async getInstance(
+    chainId: number,
+    abFlags: Record<string, boolean>,
+    rpcUrls: RpcUrls | undefined = getBestRpcUrls(chainId)
+  ) {
     let instance = Multicall.instances[chainId];
 
-    if (!instance || instance.chainId !== chainId) {
-      const rpcUrl = getRpcUrl(chainId);
-      const fallbackRpcUrl = getFallbackRpcUrl(chainId);
-
-      if (!rpcUrl || !fallbackRpcUrl) {
-        return undefined;
-      }
+    if (!rpcUrls || !BATCH_CONFIGS[chainId]) {
+      return undefined;
+    }
 
-      instance = new Multicall(chainId, rpcUrl, fallbackRpcUrl, abFlags);
+    if (!instance || instance.chainId !== chainId) {
+      instance = new Multicall(chainId, rpcUrls.primary, rpcUrls.fallback, abFlags);
 
       Multicall.instances[chainId] = instance;
+    } else if (instance.rpcUrl !== rpcUrls.primary || instance.fallbackRpcUrl !== rpcUrls.fallback) {
+      instance.setRpcUrls(rpcUrls);
     }
 
     return instance;
@@ -138,7 +145,8 @@ export class Multicall {
     },
   });
 
-  getClient: (options?: { forceFallback?: boolean }) => ReturnType<typeof Multicall.getViemClient>;
+  private client: ReturnType<typeof Multicall.getViemClient>;
+  private fallbackClient: ReturnType<typeof Multicall.getViemClient>;
 
   constructor(
     public chainId: number,
@@ -146,16 +154,31 @@ export class Multicall {
     public fallbackRpcUrl: string,
     private abFlags: Record<string, boolean>
   ) {
-    const client = Multicall.getViemClient(chainId, rpcUrl);
-    const fallbackClient = Multicall.getViemClient(chainId, fallbackRpcUrl);
+    this.client = Multicall.getViemClient(chainId, rpcUrl);
+    this.fallbackClient = Multicall.getViemClient(chainId, fallbackRpcUrl);
+  }
 
-    this.getClient = function getViemClient({ forceFallback = false } = {}) {
-      if (forceFallback || this.fallbackRpcSwitcher?.isFallbackMode) {
-        return fallbackClient;
-      }
+  getClient({ forceFallback = false }: { forceFallback?: boolean } = {}) {
+    if (forceFallback || this.fallbackRpcSwitcher?.isFallbackMode) {
+      return this.fallbackClient;
+    }
 
-      return client;
-    };
+    return this.client;
+  }
+
+  /**
+   * Swaps the clients in place so the fallback mode state survives endpoint re-ranking
+   */
+  setRpcUrls(rpcUrls: RpcUrls) {
+    if (this.rpcUrl !== rpcUrls.primary) {
+      this.rpcUrl = rpcUrls.primary;
+      this.client = Multicall.getViemClient(this.chainId, rpcUrls.primary);
+    }
+
+    if (this.fallbackRpcUrl !== rpcUrls.fallback) {
+      this.fallbackRpcUrl = rpcUrls.fallback;
+      this.fallbackClient = Multicall.getViemClient(this.chainId, rpcUrls.fallback);
+    }
   }
 
   async call(request: MulticallRequestConfig<any>, maxTimeout: number) {
@@ -10,6 +10,7 @@ import { executeMulticallMainThread } from "./executeMulticallMainThread";
 import type { MulticallRequestConfig, MulticallResult } from "./types";
 import { MetricEventParams, MulticallTimeoutEvent } from "lib/metrics";
 import { getAbFlags } from "config/ab";
+import { getBestRpcUrls } from "lib/rpc/rpcTracker";
 
 const executorWorker: Worker = new Worker(new URL("./multicall.worker", import.meta.url), { type: "module" });
 
@@ -61,6 +62,7 @@ export async function executeMulticallWorker(
     chainId,
     request,
     abFlags: getAbFlags(),
+    rpcUrls: getBestRpcUrls(chainId),
     PRODUCTION_PREVIEW_KEY: localStorage.getItem(PRODUCTION_PREVIEW_KEY),
   });
 
@@ -1,14 +1,16 @@
 import { METRIC_WINDOW_EVENT_NAME } from "lib/metrics/emitMetricEvent";
 
+import type { RpcUrls } from "lib/rpc/rpcTracker";
 import { MAX_TIMEOUT, Multicall } from "./Multicall";
 import type { MulticallRequestConfig } from "./types";
 
 async function executeMulticall(
   chainId: number,
   request: MulticallRequestConfig<any>,
-  abFlags: Record<string, boolean>
+  abFlags: Record<string, boolean>,
+  rpcUrls: RpcUrls | undefined
 ) {
-  const multicall = await Multicall.getInstance(chainId, abFlags);
+  const multicall = await Multicall.getInstance(chainId, abFlags, rpcUrls);
 
   return multicall?.call(request, MAX_TIMEOUT);
 }
@@ -16,12 +18,12 @@ async function executeMulticall(
 self.addEventListener("message", run);
 
 async function run(event) {
-  const { PRODUCTION_PREVIEW_KEY, chainId, request, id, abFlags } = event.data;
+  const { PRODUCTION_PREVIEW_KEY, chainId, request, id, abFlags, rpcUrls } = event.data;
   // @ts-ignore
   self.PRODUCTION_PREVIEW_KEY = PRODUCTION_PREVIEW_KEY;
 
   try {
-    const result = await executeMulticall(chainId, request, abFlags);
+    const result = await executeMulticall(chainId, request, abFlags, rpcUrls);
 
     postMessage({
       id,
@@ -417,7 +417,7 @@ export function removeTrailingZeros(amount: string | number) {
   return amountWithoutZeros;
 }
 
-type SerializedBigIntsInObject<T> = {
+export type SerializedBigIntsInObject<T> = {
   [P in keyof T]: T[P] extends bigint
     ? { type: "bigint"; value: bigint }
     : T[P] extends object
@@ -6,12 +6,11 @@ import {
   AVALANCHE_FUJI,
   FALLBACK_PROVIDERS,
   getAlchemyArbitrumWsUrl,
-  getFallbackRpcUrl,
-  getRpcUrl,
 } from "config/chains";
 import { Signer, ethers } from "ethers";
-import { useEffect, useState } from "react";
+import { useEffect, useState, useSyncExternalStore } from "react";
 import { isDevelopment } from "config/env";
+import { getBestRpcUrls, getRpcTracker } from "./rpcTracker";
 
 export function getProvider(signer: undefined, chainId: number): ethers.JsonRpcProvider;
 export function getProvider(signer: Signer, chainId: number): Signer;
@@ -23,7 +22,7 @@ export function getProvider(signer: Signer | undefined, chainId: number): ethers
     return signer;
   }
 
-  url = getRpcUrl(chainId);
+  url = getBestRpcUrls(chainId)?.primary;
 
   const network = Network.from(chainId);
 
@@ -33,6 +32,13 @@ export function getProvider(signer: Signer | undefined, chainId: number): ethers
 export function getWsProvider(chainId: number): WebSocketProvider | JsonRpcProvider | undefined {
   const network = Network.from(chainId);
 
+  // websocket keeps dropping, poll the healthiest http endpoint until the switcher restores
+  if (getRpcTracker(chainId).wsFallbackSwitcher.isFallbackMode) {
+    const provider = new ethers.JsonRpcProvider(getBestRpcUrls(chainId)?.primary, network, { staticNetwork: network });
+    provider.pollingInterval = 2000;
+    return provider;
+  }
+
   if (chainId === ARBITRUM) {
     return new ethers.WebSocketProvider(getAlchemyArbitrumWsUrl(), network, { staticNetwork: network });
   }
@@ -48,7 +54,9 @@ export function getWsProvider(chainId: number): WebSocketProvider | JsonRpcProvi
   }
 
   if (chainId === AVALANCHE_FUJI) {
-    const provider = new ethers.JsonRpcProvider(getRpcUrl(AVALANCHE_FUJI), network, { staticNetwork: network });
+    const provider = new ethers.JsonRpcProvider(getBestRpcUrls(AVALANCHE_FUJI)?.primary, network, {
+      staticNetwork: network,
+    });
     provider.pollingInterval = 2000;
     return provider;
   }
@@ -59,7 +67,7 @@ export function getFallbackProvider(chainId: number) {
     return;
   }
 
-  const provider = getFallbackRpcUrl(chainId);
+  const provider = getBestRpcUrls(chainId)?.fallback;
 
   return new ethers.JsonRpcProvider(provider, chainId, {
     staticNetwork: Network.from(chainId),
@@ -71,7 +79,7 @@ export function useJsonRpcProvider(chainId: number) {
 
   useEffect(() => {
     async function initializeProvider() {
-      const rpcUrl = getRpcUrl(chainId);
+      const rpcUrl = getBestRpcUrls(chainId)?.primary;
 
       if (!rpcUrl) return;
 
@@ -89,6 +97,12 @@ export function useJsonRpcProvider(chainId: number) {
   return { provider };
 }
 
+export function useRpcEndpointsStats(chainId: number) {
+  const tracker = getRpcTracker(chainId);
+
+  return useSyncExternalStore(tracker.subscribe, tracker.getRankedStats);
+}
+
 export function isWebsocketProvider(provider: any): provider is WebSocketProvider {
   return Boolean(provider?.websocket);
 }
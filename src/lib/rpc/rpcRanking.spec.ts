@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  RpcProbeResult,
+  getMaxBlockNumber,
+  getPrimaryRpcEndpoint,
+  getRpcEndpointStats,
+  rankRpcEndpoints,
+} from "./rpcRanking";
+
+const success = (latencyMs: number, blockNumber: number): RpcProbeResult => ({
+  timestamp: 0,
+  isSuccess: true,
+  latencyMs,
+  blockNumber,
+});
+const failure: RpcProbeResult = { timestamp: 0, isSuccess: false };
+
+describe("getRpcEndpointStats", () => {
+  it("averages latency of successful probes and tracks errors and lag", () => {
+    const stats = getRpcEndpointStats({
+      url: "a",
+      isCustom: false,
+      probes: [success(100, 10), failure, success(300, 12), failure],
+      maxBlockNumber: 20,
+    });
+
+    expect(stats.latencyMs).toBe(200);
+    expect(stats.errorRate).toBe(0.5);
+    expect(stats.blockNumber).toBe(12);
+    expect(stats.blockLag).toBe(8);
+    expect(stats.isHealthy).toBe(false);
+  });
+
+  it("marks endpoints without successful probes as unhealthy", () => {
+    const stats = getRpcEndpointStats({ url: "a", isCustom: false, probes: [], maxBlockNumber: undefined });
+
+    expect(stats.isHealthy).toBe(false);
+    expect(stats.score).toBe(Infinity);
+  });
+
+  it("marks lagging endpoints as unhealthy", () => {
+    const stats = getRpcEndpointStats({ url: "a", isCustom: false, probes: [success(50, 10)], maxBlockNumber: 100 });
+
+    expect(stats.isHealthy).toBe(false);
+  });
+});
+
+describe("rankRpcEndpoints", () => {
+  const probesByUrl = {
+    slow: [success(400, 100)],
+    fast: [success(100, 100)],
+    lagging: [success(50, 10)],
+    custom: [success(500, 100)],
+    down: [failure],
+  };
+  const maxBlockNumber = getMaxBlockNumber(probesByUrl);
+
+  const stats = Object.entries(probesByUrl).map(([url, probes]) =>
+    getRpcEndpointStats({ url, isCustom: url === "custom", probes, maxBlockNumber })
+  );
+
+  it("puts a healthy custom endpoint first, then healthy ones by score", () => {
+    expect(maxBlockNumber).toBe(100);
+    expect(rankRpcEndpoints(stats).map((endpoint) => endpoint.url)).toEqual([
+      "custom",
+      "fast",
+      "slow",
+      "lagging",
+      "down",
+    ]);
+  });
+});
+
+describe("getPrimaryRpcEndpoint", () => {
+  const getRanked = (probesByUrl: { [url: string]: RpcProbeResult[] }, customUrl?: string) =>
+    rankRpcEndpoints(
+      Object.entries(probesByUrl).map(([url, probes]) =>
+        getRpcEndpointStats({ url, isCustom: url === customUrl, probes, maxBlockNumber: 100 })
+      )
+    );
+
+  it("keeps a healthy primary unless another endpoint is clearly faster", () => {
+    expect(getPrimaryRpcEndpoint(getRanked({ a: [success(100, 100)], b: [success(90, 100)] }), "a")?.url).toBe("a");
+    expect(getPrimaryRpcEndpoint(getRanked({ a: [success(100, 100)], b: [success(50, 100)] }), "a")?.url).toBe("b");
+  });
+
+  it("switches away from an unhealthy or unknown primary", () => {
+    expect(getPrimaryRpcEndpoint(getRanked({ a: [failure], b: [success(90, 100)] }), "a")?.url).toBe("b");
+    expect(getPrimaryRpcEndpoint(getRanked({ b: [success(90, 100)] }), "a")?.url).toBe("b");
+    expect(getPrimaryRpcEndpoint(getRanked({ a: [success(100, 100)] }), undefined)?.url).toBe("a");
+  });
+
+  it("switches to a healthy custom endpoint", () => {
+    expect(
+      getPrimaryRpcEndpoint(getRanked({ a: [success(100, 100)], custom: [success(500, 100)] }, "custom"), "a")?.url
+    ).toBe("custom");
+  });
+});
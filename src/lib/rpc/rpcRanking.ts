@@ -0,0 +1,129 @@
+export type RpcProbeResult = {
+  timestamp: number;
+  isSuccess: boolean;
+  latencyMs?: number;
+  blockNumber?: number;
+};
+
+export type RpcEndpointStats = {
+  url: string;
+  isCustom: boolean;
+  probesCount: number;
+  /**
+   * Average latency of the successful probes
+   */
+  latencyMs: number | undefined;
+  errorRate: number;
+  blockNumber: number | undefined;
+  /**
+   * Blocks behind the most advanced endpoint of the chain
+   */
+  blockLag: number | undefined;
+  isHealthy: boolean;
+  score: number;
+};
+
+export const MAX_RPC_ERROR_RATE = 0.5;
+
+/**
+ * Roughly a minute of blocks on the slowest supported chain
+ */
+export const MAX_RPC_BLOCK_LAG = 30;
+
+/**
+ * Another endpoint replaces a healthy primary only when its score is at least 30% better
+ */
+export const RPC_SWITCH_SCORE_RATIO = 0.7;
+
+const BLOCK_LAG_PENALTY_MS = 100;
+
+export function getRpcEndpointStats(p: {
+  url: string;
+  isCustom: boolean;
+  probes: RpcProbeResult[];
+  maxBlockNumber: number | undefined;
+}): RpcEndpointStats {
+  const { url, isCustom, probes, maxBlockNumber } = p;
+
+  const successfulProbes = probes.filter((probe) => probe.isSuccess);
+  const latencies = successfulProbes
+    .map((probe) => probe.latencyMs)
+    .filter((latency): latency is number => latency !== undefined);
+  const latencyMs = latencies.length
+    ? latencies.reduce((acc, latency) => acc + latency, 0) / latencies.length
+    : undefined;
+  const errorRate = probes.length ? (probes.length - successfulProbes.length) / probes.length : 0;
+
+  const blockNumber = successfulProbes.reduce<number | undefined>(
+    (acc, probe) => (probe.blockNumber === undefined ? acc : probe.blockNumber),
+    undefined
+  );
+  const blockLag =
+    blockNumber !== undefined && maxBlockNumber !== undefined ? Math.max(maxBlockNumber - blockNumber, 0) : undefined;
+
+  const isHealthy =
+    latencyMs !== undefined &&
+    errorRate < MAX_RPC_ERROR_RATE &&
+    (blockLag === undefined || blockLag <= MAX_RPC_BLOCK_LAG);
+
+  return {
+    url,
+    isCustom,
+    probesCount: probes.length,
+    latencyMs,
+    errorRate,
+    blockNumber,
+    blockLag,
+    isHealthy,
+    score:
+      latencyMs === undefined ? Infinity : latencyMs * (1 + errorRate * 10) + (blockLag ?? 0) * BLOCK_LAG_PENALTY_MS,
+  };
+}
+
+/**
+ * Healthy endpoints go first, a healthy custom endpoint always wins, the rest is ordered by score
+ */
+export function rankRpcEndpoints(stats: RpcEndpointStats[]): RpcEndpointStats[] {
+  return [...stats].sort((a, b) => {
+    if (a.isHealthy !== b.isHealthy) {
+      return a.isHealthy ? -1 : 1;
+    }
+
+    if (a.isHealthy && a.isCustom !== b.isCustom) {
+      return a.isCustom ? -1 : 1;
+    }
+
+    return a.score - b.score;
+  });
+}
+
+/**
+ * Keeps the current primary while it's healthy so that close scores don't flip it on every probe
+ */
+export function getPrimaryRpcEndpoint(
+  rankedStats: RpcEndpointStats[],
+  currentPrimaryUrl: string | undefined
+): RpcEndpointStats | undefined {
+  const best = rankedStats[0];
+  const current = rankedStats.find((stats) => stats.url === currentPrimaryUrl);
+
+  if (!best || !current || !current.isHealthy || best.isCustom) {
+    return best;
+  }
+
+  return best.score < current.score * RPC_SWITCH_SCORE_RATIO ? best : current;
+}
+
+export function getMaxBlockNumber(probesByUrl: { [url: string]: RpcProbeResult[] }): number | undefined {
+  let result: number | undefined;
+
+  for (const probes of Object.values(probesByUrl)) {
+    for (const probe of probes) {
+      if (probe.blockNumber !== undefined && (result === undefined || probe.blockNumber > result)) {
+        result = probe.blockNumber;
+      }
+    }
+  }
+
+  return result;
+}
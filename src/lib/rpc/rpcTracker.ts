@@ -0,0 +1,269 @@
+import uniq from "lodash/uniq";
+
+import { FALLBACK_PROVIDERS, RPC_PROVIDERS, getFallbackRpcUrl, getRpcUrl } from "config/chains";
+import { isWebWorker } from "config/env";
+import { getCustomRpcUrlKey } from "config/localStorage";
+import { SlidingWindowFallbackSwitcher } from "lib/slidingWindowFallbackSwitcher";
+import {
+  RpcEndpointStats,
+  RpcProbeResult,
+  getMaxBlockNumber,
+  getPrimaryRpcEndpoint,
+  getRpcEndpointStats,
+  rankRpcEndpoints,
+} from "./rpcRanking";
+
+const PROBE_INTERVAL = 30 * 1000;
+const PROBE_TIMEOUT = 5 * 1000;
+const PROBES_WINDOW_SIZE = 10;
+
+export type RpcUrls = {
+  primary: string;
+  fallback: string;
+};
+
+/**
+ * Measures latency, error rate and block height of every known endpoint of a chain and ranks them.
+ * Probing runs on the main thread only, workers receive the chosen urls with each request.
+ */
+export class RpcTracker {
+  static instances: {
+    [chainId: number]: RpcTracker | undefined;
+  } = {};
+
+  static getInstance(chainId: number) {
+    let instance = RpcTracker.instances[chainId];
+
+    if (!instance) {
+      instance = new RpcTracker(chainId);
+      RpcTracker.instances[chainId] = instance;
+    }
+
+    return instance;
+  }
+
+  private probesByUrl: { [url: string]: RpcProbeResult[] } = {};
+  private rankedStats: RpcEndpointStats[] = [];
+  private primaryUrl: string | undefined;
+  private listeners = new Set<() => void>();
+  private timerId: ReturnType<typeof setInterval> | undefined;
+  private customRpcUrl: string | undefined;
+
+  wsFallbackSwitcher = new SlidingWindowFallbackSwitcher({
+    fallbackTimeout: 5 * 60 * 1000, // 5 minutes
+    restoreTimeout: 10 * 60 * 1000, // 10 minutes
+    eventsThreshold: 3,
+  });
+
+  constructor(public chainId: number) {
+    this.customRpcUrl = isWebWorker ? undefined : readCustomRpcUrl(chainId);
+    this.updateStats();
+  }
+
+  start() {
+    if (isWebWorker || this.timerId) {
+      return;
+    }
+
+    this.probeAll();
+    this.timerId = setInterval(() => this.probeAll(), PROBE_INTERVAL);
+  }
+
+  stop() {
+    clearInterval(this.timerId);
+    this.timerId = undefined;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getRankedStats = () => this.rankedStats;
+
+  getCustomRpcUrl() {
+    return this.customRpcUrl;
+  }
+
+  setCustomRpcUrl(url: string | undefined) {
+    if (this.customRpcUrl) {
+      delete this.probesByUrl[this.customRpcUrl];
+    }
+
+    this.customRpcUrl = url;
+
+    if (url) {
+      localStorage.setItem(JSON.stringify(getCustomRpcUrlKey(this.chainId)), JSON.stringify(url));
+    } else {
+      localStorage.removeItem(JSON.stringify(getCustomRpcUrlKey(this.chainId)));
+    }
+
+    this.updateStats();
+
+    if (url) {
+      this.probe(url).then(() => this.updateStats());
+    }
+  }
+
+  /**
+   * Until the first probes finish the static provider lists are used
+   */
+  getRpcUrls(): RpcUrls | undefined {
+    const probed = this.rankedStats.filter((stats) => stats.probesCount > 0);
+    const defaultFallback = getFallbackRpcUrl(this.chainId);
+
+    if (!this.primaryUrl) {
+      const primary = this.customRpcUrl ?? getRpcUrl(this.chainId);
+
+      return primary ? { primary, fallback: defaultFallback ?? primary } : undefined;
+    }
+
+    const primary = this.primaryUrl;
+    const fallback =
+      probed.find((stats) => stats.url !== primary && stats.isHealthy)?.url ?? defaultFallback ?? primary;
+
+    return { primary, fallback };
+  }
+
+  reportWsFailure() {
+    this.wsFallbackSwitcher.trigger();
+  }
+
+  private getEndpoints() {
+    return uniq([
+      ...(this.customRpcUrl ? [this.customRpcUrl] : []),
+      ...(RPC_PROVIDERS[this.chainId] ?? []),
+      ...(FALLBACK_PROVIDERS[this.chainId] ?? []),
+    ]).filter(Boolean) as string[];
+  }
+
+  private async probeAll() {
+    if (typeof document !== "undefined" && document.hidden) {
+      return;
+    }
+
+    await Promise.all(this.getEndpoints().map((url) => this.probe(url)));
+
+    this.updateStats();
+  }
+
+  private async probe(url: string) {
+    const result = await probeRpcUrl(url);
+
+    if (!this.getEndpoints().includes(url)) {
+      return;
+    }
+
+    this.probesByUrl[url] = [...(this.probesByUrl[url] ?? []), result].slice(-PROBES_WINDOW_SIZE);
+  }
+
+  private updateStats() {
+    const maxBlockNumber = getMaxBlockNumber(this.probesByUrl);
+
+    this.rankedStats = rankRpcEndpoints(
+      this.getEndpoints().map((url) =>
+        getRpcEndpointStats({
+          url,
+          isCustom: url === this.customRpcUrl,
+          probes: this.probesByUrl[url] ?? [],
+          maxBlockNumber,
+        })
+      )
+    );
+    this.primaryUrl = getPrimaryRpcEndpoint(
+      this.rankedStats.filter((stats) => stats.probesCount > 0),
+      this.primaryUrl
+    )?.url;
+
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export function getRpcTracker(chainId: number) {
+  return RpcTracker.getInstance(chainId);
+}
+
+export function getBestRpcUrls(chainId: number) {
+  return getRpcTracker(chainId).getRpcUrls();
+}
+
+export async function probeRpcUrl(url: string): Promise<RpcProbeResult> {
+  const startTime = Date.now();
+
+  try {
+    const blockNumber = await requestRpc(url, "eth_blockNumber");
+
+    return {
+      timestamp: startTime,
+      isSuccess: true,
+      latencyMs: Date.now() - startTime,
+      blockNumber: Number(BigInt(blockNumber)),
+    };
+  } catch (error) {
+    return { timestamp: startTime, isSuccess: false };
+  }
+}
+
+export type RpcUrlValidationError = "invalidUrl" | "unsupportedProtocol" | "wrongChain" | "unreachable";
+
+export async function validateRpcUrl(url: string, chainId: number): Promise<RpcUrlValidationError | undefined> {
+  let parsedUrl: URL;
+
+  try {
+    parsedUrl = new URL(url);
+  } catch (error) {
+    return "invalidUrl";
+  }
+
+  if (parsedUrl.protocol !== "https:" && parsedUrl.protocol !== "http:") {
+    return "unsupportedProtocol";
+  }
+
+  let rpcChainId: string;
+
+  try {
+    rpcChainId = await requestRpc(url, "eth_chainId");
+  } catch (error) {
+    return "unreachable";
+  }
+
+  if (Number(BigInt(rpcChainId)) !== chainId) {
+    return "wrongChain";
+  }
+}
+
+async function requestRpc(url: string, method: string): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params: [] }),
+      signal: controller.signal,
+    });
+    const body = await response.json();
+
+    if (!response.ok || body.error || typeof body.result !== "string") {
+      throw new Error(body.error?.message ?? `RPC request failed with status ${response.status}`);
+    }
+
+    return body.result;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function readCustomRpcUrl(chainId: number): string | undefined {
+  try {
+    const raw = localStorage.getItem(JSON.stringify(getCustomRpcUrlKey(chainId)));
+
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -79,11 +79,12 @@ export const simulateTxWithTenderly = async (
   );
 
   let success = false;
+  let url: string | undefined;
   try {
     if (!response.ok) throw new Error(`Failed to send transaction to Tenderly: ${response.statusText}`);
 
     const json = await response.json();
-    const url = `https://dashboard.tenderly.co/${config.accountSlug}/${config.projectSlug}/simulator/${json.simulation.id}`;
+    url = `https://dashboard.tenderly.co/${config.accountSlug}/${config.projectSlug}/simulator/${json.simulation.id}`;
     sentReports.push({ url, comment: opts.comment });
     success = json.simulation.status;
     helperToast.info(
@@ -113,7 +114,7 @@ export const simulateTxWithTenderly = async (
     );
   }
 
-  return { success };
+  return { success, url };
 };
 
 // https://docs.tenderly.co/reference/api#/operations/simulateTransaction
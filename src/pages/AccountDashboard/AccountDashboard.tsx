@@ -15,9 +15,11 @@ import useSearchParams from "lib/useSearchParams";
 import AddressView from "components/AddressView/AddressView";
 import Footer from "components/Footer/Footer";
 import PageTitle from "components/PageTitle/PageTitle";
+import { AccountPerformanceAnalytics } from "./AccountPerformanceAnalytics";
 import { DailyAndCumulativePnL } from "./DailyAndCumulativePnL";
 import { GeneralPerformanceDetails } from "./GeneralPerformanceDetails";
 import { HistoricalLists, HistoricalListsV1 } from "./HistoricalLists";
+import { PortfolioRisk } from "./PortfolioRisk";
 import { NETWORK_ID_SLUGS_MAP, NETWORK_QUERY_PARAM, NETWORK_SLUGS_ID_MAP, VERSION_QUERY_PARAM } from "./constants";
 
 export function AccountDashboard() {
@@ -72,6 +74,8 @@ export function AccountDashboard() {
                 <DailyAndCumulativePnL chainId={chainId} account={account} />
               </div>
             </div>
+            <AccountPerformanceAnalytics chainId={chainId} account={account} />
+            <PortfolioRisk />
             <HistoricalLists chainId={chainId} account={account} />
           </div>
         </SyntheticsStateContextProvider>
@@ -0,0 +1,269 @@
+import { Trans, msg, t } from "@lingui/macro";
+import { useLingui } from "@lingui/react";
+import cx from "classnames";
+import { useCallback, useMemo, useState } from "react";
+import type { Address } from "viem";
+
+import { useMarketsInfoData, useTokensData } from "context/SyntheticsStateContext/hooks/globalsHooks";
+import {
+  AccountPerformanceBreakdownExportRow,
+  AccountPerformanceBreakdownRow,
+  AccountPerformanceBreakdownType,
+  getAccountDrawdown,
+  getAccountPerformanceBreakdown,
+  getAccountPerformanceBreakdownExportRow,
+  getAccountRiskRatios,
+  getAccountTradeStats,
+  useAccountPerformance,
+} from "domain/synthetics/accountPerformance";
+import { downloadAsCsv } from "lib/csv";
+import { formatDate } from "lib/dates";
+import { formatPercentage, formatUsd } from "lib/numbers";
+import { getPositiveOrNegativeClass } from "lib/utils";
+
+import Button from "components/Button/Button";
+import Loader from "components/Common/Loader";
+import Tab from "components/Tab/Tab";
+import { useImageDownload } from "./useImageDownload";
+
+import downloadIcon from "img/ic_download_simple.svg";
+
+const BREAKDOWN_TYPES: AccountPerformanceBreakdownType[] = ["market", "side", "leverage", "holdingTime"];
+
+const breakdownTypeLabelMap = {
+  market: msg`Market`,
+  side: msg`Side`,
+  leverage: msg`Leverage`,
+  holdingTime: msg`Holding Time`,
+};
+
+const breakdownKeyLabelMap = {
+  long: msg`Long`,
+  short: msg`Short`,
+  upTo2x: msg`Up to 2x`,
+  upTo5x: msg`2x - 5x`,
+  upTo10x: msg`5x - 10x`,
+  upTo25x: msg`10x - 25x`,
+  upTo50x: msg`25x - 50x`,
+  above50x: msg`Above 50x`,
+  upTo1h: msg`Up to 1 hour`,
+  upTo1d: msg`1 hour - 1 day`,
+  upTo1w: msg`1 day - 1 week`,
+  above1w: msg`Above 1 week`,
+  unknown: msg`Unknown`,
+};
+
+export function AccountPerformanceAnalytics({ chainId, account }: { chainId: number; account: Address }) {
+  const { _ } = useLingui();
+  const marketsInfoData = useMarketsInfoData();
+  const tokensData = useTokensData();
+  const [breakdownType, setBreakdownType] = useState<AccountPerformanceBreakdownType>("market");
+
+  const { dailyPnl, taxLots, historyStartTimestamp, isLoading, error } = useAccountPerformance({
+    chainId,
+    account,
+    marketsInfoData,
+    tokensData,
+  });
+
+  const drawdown = useMemo(() => getAccountDrawdown(dailyPnl), [dailyPnl]);
+  const riskRatios = useMemo(() => getAccountRiskRatios(dailyPnl), [dailyPnl]);
+  const tradeStats = useMemo(() => getAccountTradeStats(taxLots), [taxLots]);
+  const breakdown = useMemo(() => getAccountPerformanceBreakdown(taxLots, breakdownType), [breakdownType, taxLots]);
+
+  const { cardRef, handleImageDownload } = useImageDownload(`performance-by-${breakdownType}.png`);
+
+  const breakdownTypeLabels = useMemo(
+    () => ({
+      market: _(breakdownTypeLabelMap.market),
+      side: _(breakdownTypeLabelMap.side),
+      leverage: _(breakdownTypeLabelMap.leverage),
+      holdingTime: _(breakdownTypeLabelMap.holdingTime),
+    }),
+    [_]
+  );
+
+  const getRowLabel = useCallback(
+    (row: AccountPerformanceBreakdownRow) => (breakdownType === "market" ? row.key : _(breakdownKeyLabelMap[row.key])),
+    [_, breakdownType]
+  );
+
+  const handleCsvDownload = useCallback(() => {
+    downloadAsCsv(
+      `performance-by-${breakdownType}`,
+      breakdown.map((row) => getAccountPerformanceBreakdownExportRow(row, getRowLabel(row))),
+      [],
+      {
+        group: breakdownTypeLabels[breakdownType],
+        trades: t`Trades`,
+        wins: t`Wins`,
+        losses: t`Losses`,
+        volumeUsd: t`Volume ($)`,
+        pnlUsd: t`PnL ($)`,
+        averagePnlUsd: t`Average PnL ($)`,
+      } satisfies Record<keyof AccountPerformanceBreakdownExportRow, string>
+    );
+  }, [breakdown, breakdownType, breakdownTypeLabels, getRowLabel]);
+
+  return (
+    <div className="overflow-hidden rounded-4 bg-slate-800" ref={cardRef}>
+      <div className="flex flex-wrap items-center justify-between gap-12 border-b border-b-gray-950 px-16">
+        <div className="py-16">
+          <Trans>Performance Analytics</Trans>
+        </div>
+        <div className="flex flex-wrap items-stretch justify-end gap-8 py-10">
+          <Button
+            variant="secondary"
+            data-exclude
+            className="!px-10 !py-6"
+            imgSrc={downloadIcon}
+            onClick={handleCsvDownload}
+            disabled={breakdown.length === 0}
+          >
+            CSV
+          </Button>
+          <Button
+            variant="secondary"
+            data-exclude
+            className="!px-10 !py-6"
+            imgSrc={downloadIcon}
+            onClick={handleImageDownload}
+          >
+            PNG
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-24 border-b border-b-gray-950 p-16">
+        <SummaryItem
+          label={t`Max Drawdown`}
+          value={formatUsd(-drawdown.maxDrawdownUsd)}
+          className={getPositiveOrNegativeClass(-drawdown.maxDrawdownUsd)}
+        />
+        <SummaryItem
+          label={t`Drawdown Duration`}
+          value={
+            drawdown.recoveryTimestamp === undefined && drawdown.peakTimestamp !== undefined
+              ? t`${drawdown.durationDays} days, not recovered`
+              : t`${drawdown.durationDays} days`
+          }
+        />
+        <SummaryItem label={t`Sharpe Ratio`} value={formatRatio(riskRatios.sharpeRatio)} />
+        <SummaryItem label={t`Sortino Ratio`} value={formatRatio(riskRatios.sortinoRatio)} />
+        <SummaryItem label={t`Win Rate`} value={formatPercentage(tradeStats.winRateBps) ?? "-"} />
+        <SummaryItem
+          label={t`Average Win`}
+          value={formatUsd(tradeStats.averageWinUsd) ?? "-"}
+          className={getPositiveOrNegativeClass(tradeStats.averageWinUsd)}
+        />
+        <SummaryItem
+          label={t`Average Loss`}
+          value={formatUsd(tradeStats.averageLossUsd) ?? "-"}
+          className={getPositiveOrNegativeClass(tradeStats.averageLossUsd)}
+        />
+        <SummaryItem
+          label={t`Expectancy`}
+          value={formatUsd(tradeStats.expectancyUsd, { displayPlus: true }) ?? "-"}
+          className={getPositiveOrNegativeClass(tradeStats.expectancyUsd)}
+        />
+      </div>
+
+      {historyStartTimestamp !== undefined && (
+        <div className="border-b border-b-gray-950 px-16 py-12 text-yellow-500">
+          <Trans>
+            Only trades since {formatDate(historyStartTimestamp)} are loaded, win rate, expectancy and PnL breakdown
+            don't include earlier trades
+          </Trans>
+        </div>
+      )}
+
+      <div className="flex items-center gap-8 px-16 pt-16 text-gray-300" data-exclude>
+        <Trans>PnL by</Trans>
+        <Tab
+          type="inline"
+          options={BREAKDOWN_TYPES}
+          optionLabels={breakdownTypeLabels}
+          option={breakdownType}
+          onChange={setBreakdownType}
+        />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-max">
+          <thead>
+            <tr className="*:text-left *:font-normal *:uppercase">
+              <th className="py-13 pl-16 pr-5 opacity-70">{breakdownTypeLabels[breakdownType]}</th>
+              <th className="px-5 py-13 opacity-70">
+                <Trans>Trades</Trans>
+              </th>
+              <th className="px-5 py-13 opacity-70">
+                <Trans>Win / Loss</Trans>
+              </th>
+              <th className="px-5 py-13 opacity-70">
+                <Trans>Volume</Trans>
+              </th>
+              <th className="px-5 py-13 opacity-70">
+                <Trans>Average PnL</Trans>
+              </th>
+              <th className="w-0 whitespace-nowrap py-13 pl-5 pr-16 !text-right opacity-70">
+                <Trans>PnL ($)</Trans>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.map((row) => (
+              <BreakdownRow key={row.key} row={row} label={getRowLabel(row)} />
+            ))}
+          </tbody>
+        </table>
+        {isLoading && (
+          <div className="grid place-items-center p-16">
+            <Loader />
+          </div>
+        )}
+        {!isLoading && !error && breakdown.length === 0 && (
+          <div className="p-16 text-gray-300">
+            <Trans>No closed positions</Trans>
+          </div>
+        )}
+        {error && (
+          <div className="max-h-[200px] overflow-auto p-16">
+            <div className="whitespace-pre-wrap font-mono text-red-500">{JSON.stringify(error, null, 2)}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatRatio(ratio: number | undefined) {
+  return ratio === undefined ? "-" : ratio.toFixed(2);
+}
+
+function SummaryItem({ label, value, className }: { label: string; value: string | undefined; className?: string }) {
+  return (
+    <div className="flex flex-col gap-4">
+      <span className="text-gray-300">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+}
+
+function BreakdownRow({ row, label }: { row: AccountPerformanceBreakdownRow; label: string }) {
+  return (
+    <tr>
+      <td className="py-13 pl-16 pr-5">{label}</td>
+      <td className="px-5 py-13">{row.trades}</td>
+      <td className="px-5 py-13">
+        {row.wins} / {row.losses}
+      </td>
+      <td className="px-5 py-13">{formatUsd(row.volumeUsd)}</td>
+      <td className={cx("px-5 py-13", getPositiveOrNegativeClass(row.averagePnlUsd))}>
+        {formatUsd(row.averagePnlUsd, { displayPlus: true })}
+      </td>
+      <td className={cx("py-13 pl-5 pr-16 text-right", getPositiveOrNegativeClass(row.pnlUsd))}>
+        {formatUsd(row.pnlUsd, { displayPlus: true })}
+      </td>
+    </tr>
+  );
+}
@@ -1,8 +1,7 @@
 import { gql, useQuery as useGqlQuery } from "@apollo/client";
 import { Trans, t } from "@lingui/macro";
 import { lightFormat } from "date-fns";
-import { toPng } from "html-to-image";
-import { useCallback, useMemo, useRef, useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Bar,
   Cell,
@@ -19,8 +18,6 @@ import type { Address } from "viem";
 import { useShowDebugValues } from "context/SyntheticsStateContext/hooks/settingsHooks";
 import type { FromOldToNewArray } from "domain/tradingview/types";
 import { formatDate, formatDateTime, toUtcDayStart } from "lib/dates";
-import downloadImage from "lib/downloadImage";
-import { helperToast } from "lib/helperToast";
 import { USD_DECIMALS } from "config/factors";
 import { bigintToNumber, formatUsd } from "lib/numbers";
 import { EMPTY_ARRAY, EMPTY_OBJECT } from "lib/objects";
@@ -40,6 +37,7 @@ import {
   DebugTooltip,
   type AccountPnlHistoryPointDebugFields,
 } from "./dailyAndCumulativePnLDebug";
+import { useImageDownload } from "./useImageDownload";
 
 import downloadIcon from "img/ic_download_simple.svg";
 
@@ -57,7 +55,7 @@ export function DailyAndCumulativePnL({ chainId, account }: { chainId: number; a
 
   const { data: clusteredPnlData, error, loading } = usePnlHistoricalData(chainId, account, fromTimestamp);
 
-  const { cardRef, handleImageDownload } = useImageDownload();
+  const { cardRef, handleImageDownload } = useImageDownload("daily-and-cumulative-pnl.png");
 
   return (
     <div className="flex flex-col rounded-4 bg-slate-800" ref={cardRef}>
@@ -266,27 +264,3 @@ function usePnlHistoricalData(chainId: number, account: Address, fromTimestamp:
 
   return { data: transformedData, error: res.error, loading: res.loading };
 }
-
-function useImageDownload() {
-  const cardRef = useRef<HTMLDivElement>(null);
-
-  const handleImageDownload = useCallback(() => {
-    if (!cardRef.current) {
-      helperToast.error("Error in downloading image");
-      return;
-    }
-
-    toPng(cardRef.current, {
-      filter: (element) => {
-        if (element.dataset?.exclude) {
-          return false;
-        }
-        return true;
-      },
-    }).then((dataUri) => {
-      downloadImage(dataUri, "daily-and-cumulative-pnl.png");
-    });
-  }, []);
-
-  return { cardRef, handleImageDownload };
-}
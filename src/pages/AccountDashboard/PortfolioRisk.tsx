@@ -0,0 +1,291 @@
+import { Trans, msg, t } from "@lingui/macro";
+import { useLingui } from "@lingui/react";
+import cx from "classnames";
+import { useCallback, useMemo, useState } from "react";
+
+import {
+  usePositionsConstants,
+  usePositionsInfoData,
+  useUserReferralInfo,
+} from "context/SyntheticsStateContext/hooks/globalsHooks";
+import { getMarketIndexName } from "domain/synthetics/markets";
+import { PositionRiskScenario, PriceShock, getPortfolioRiskScenario } from "domain/synthetics/portfolioRisk";
+import { formatLeverage, formatLiquidationPrice } from "domain/synthetics/positions";
+import { TokenData } from "domain/synthetics/tokens";
+import { formatPercentage, formatUsd, parseValue } from "lib/numbers";
+import { getPositiveOrNegativeClass } from "lib/utils";
+
+import { MarketWithDirectionLabel } from "components/MarketWithDirectionLabel/MarketWithDirectionLabel";
+import SuggestionInput from "components/SuggestionInput/SuggestionInput";
+import Tab from "components/Tab/Tab";
+
+const SECONDS_IN_DAY = 24 * 60 * 60;
+
+type Horizon = "1d" | "7d" | "30d";
+
+const HORIZONS: Horizon[] = ["1d", "7d", "30d"];
+
+const HORIZON_SECONDS: Record<Horizon, number> = {
+  "1d": SECONDS_IN_DAY,
+  "7d": SECONDS_IN_DAY * 7,
+  "30d": SECONDS_IN_DAY * 30,
+};
+
+const horizonLabelMap = {
+  "1d": msg`1 Day`,
+  "7d": msg`7 Days`,
+  "30d": msg`30 Days`,
+};
+
+const SHOCK_SUGGESTIONS = [5, 10, 15, 25];
+
+type ShockDirection = "down" | "up";
+
+type ShockInput = {
+  value: string;
+  direction: ShockDirection;
+};
+
+const SHOCK_DIRECTIONS: ShockDirection[] = ["down", "up"];
+
+const DEFAULT_SHOCK_INPUT: ShockInput = { value: "", direction: "down" };
+
+export function PortfolioRisk() {
+  const { _ } = useLingui();
+  const positionsInfoData = usePositionsInfoData();
+  const { minCollateralUsd } = usePositionsConstants();
+  const userReferralInfo = useUserReferralInfo();
+
+  const [horizon, setHorizon] = useState<Horizon>("7d");
+  const [shockInputs, setShockInputs] = useState<{ [tokenAddress: string]: ShockInput }>({});
+
+  const positions = useMemo(() => Object.values(positionsInfoData || {}), [positionsInfoData]);
+
+  const indexTokens = useMemo(() => {
+    const tokensByAddress: { [address: string]: TokenData } = {};
+
+    for (const position of positions) {
+      tokensByAddress[position.indexToken.address] = position.indexToken;
+    }
+
+    return Object.values(tokensByAddress);
+  }, [positions]);
+
+  const priceShocks = useMemo(
+    () =>
+      indexTokens.reduce((acc, token) => {
+        const shockInput = shockInputs[token.address];
+        const shockBps = shockInput ? parseValue(shockInput.value, 2) : undefined;
+
+        if (shockInput && shockBps !== undefined) {
+          acc.push({ token, shockBps: shockInput.direction === "down" ? -shockBps : shockBps });
+        }
+
+        return acc;
+      }, [] as PriceShock[]),
+    [indexTokens, shockInputs]
+  );
+
+  const scenario = useMemo(() => {
+    if (minCollateralUsd === undefined) return undefined;
+
+    return getPortfolioRiskScenario({
+      positions,
+      priceShocks,
+      horizonInSeconds: HORIZON_SECONDS[horizon],
+      minCollateralUsd,
+      userReferralInfo,
+    });
+  }, [horizon, minCollateralUsd, positions, priceShocks, userReferralInfo]);
+
+  const setShockInput = useCallback((tokenAddress: string, patch: Partial<ShockInput>) => {
+    setShockInputs((prev) => ({
+      ...prev,
+      [tokenAddress]: { ...DEFAULT_SHOCK_INPUT, ...prev[tokenAddress], ...patch },
+    }));
+  }, []);
+
+  const horizonLabels = useMemo(
+    () => ({ "1d": _(horizonLabelMap["1d"]), "7d": _(horizonLabelMap["7d"]), "30d": _(horizonLabelMap["30d"]) }),
+    [_]
+  );
+
+  return (
+    <div className="overflow-hidden rounded-4 bg-slate-800">
+      <div className="flex flex-wrap items-center justify-between gap-12 border-b border-b-gray-950 p-16">
+        <Trans>Portfolio Risk</Trans>
+        <div className="flex items-center gap-8 text-gray-300">
+          <Trans>Fees Horizon</Trans>
+          <Tab type="inline" options={HORIZONS} optionLabels={horizonLabels} option={horizon} onChange={setHorizon} />
+        </div>
+      </div>
+
+      {positions.length === 0 && (
+        <div className="p-16 text-gray-300">
+          <Trans>No open positions</Trans>
+        </div>
+      )}
+
+      {positions.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-16 border-b border-b-gray-950 p-16">
+            {indexTokens.map((token) => (
+              <ShockInputRow
+                key={token.address}
+                token={token}
+                shockInput={shockInputs[token.address]}
+                setShockInput={setShockInput}
+              />
+            ))}
+          </div>
+
+          {scenario && (
+            <div className="flex flex-wrap gap-24 border-b border-b-gray-950 p-16">
+              <SummaryItem label={t`Net Value`} value={formatUsd(scenario.netValue)} />
+              <SummaryItem
+                label={t`Net Value Change`}
+                value={formatUsd(scenario.netValueDelta, { displayPlus: true })}
+                className={getPositiveOrNegativeClass(scenario.netValueDelta)}
+              />
+              <SummaryItem
+                label={t`Accrued Fees`}
+                value={formatUsd(-scenario.horizonFeesUsd, { displayPlus: true })}
+                className={getPositiveOrNegativeClass(-scenario.horizonFeesUsd)}
+              />
+              <SummaryItem
+                label={t`Liquidations`}
+                value={`${scenario.liquidatableCount} / ${scenario.positions.length}`}
+                className={cx({ "text-red-500": scenario.liquidatableCount > 0 })}
+              />
+            </div>
+          )}
+
+          {scenario && (
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-max">
+                <thead>
+                  <tr className="*:text-left *:font-normal *:uppercase">
+                    <th className="py-13 pl-16 pr-5 opacity-70">
+                      <Trans>Position</Trans>
+                    </th>
+                    <th className="px-5 py-13 opacity-70">
+                      <Trans>Mark Price</Trans>
+                    </th>
+                    <th className="px-5 py-13 opacity-70">
+                      <Trans>PnL</Trans>
+                    </th>
+                    <th className="px-5 py-13 opacity-70">
+                      <Trans>Accrued Fees</Trans>
+                    </th>
+                    <th className="px-5 py-13 opacity-70">
+                      <Trans>Leverage</Trans>
+                    </th>
+                    <th className="px-5 py-13 opacity-70">
+                      <Trans>Liq. Price</Trans>
+                    </th>
+                    <th className="w-0 whitespace-nowrap py-13 pl-5 pr-16 !text-right opacity-70">
+                      <Trans>Distance to Liq.</Trans>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scenario.positions.map((positionScenario) => (
+                    <PositionRiskRow key={positionScenario.position.key} scenario={positionScenario} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ShockInputRow({
+  token,
+  shockInput,
+  setShockInput,
+}: {
+  token: TokenData;
+  shockInput: ShockInput | undefined;
+  setShockInput: (tokenAddress: string, patch: Partial<ShockInput>) => void;
+}) {
+  const directionLabels = useMemo(() => ({ down: t`Drop`, up: t`Rise` }), []);
+
+  const setValue = useCallback(
+    (value: string) => setShockInput(token.address, { value }),
+    [setShockInput, token.address]
+  );
+  const setDirection = useCallback(
+    (direction: ShockDirection) => setShockInput(token.address, { direction }),
+    [setShockInput, token.address]
+  );
+
+  return (
+    <div className="flex items-center gap-8">
+      <span>{token.symbol}</span>
+      <Tab
+        type="inline"
+        options={SHOCK_DIRECTIONS}
+        optionLabels={directionLabels}
+        option={shockInput?.direction ?? DEFAULT_SHOCK_INPUT.direction}
+        onChange={setDirection}
+      />
+      <SuggestionInput
+        inputClassName="w-48 text-right"
+        value={shockInput?.value}
+        setValue={setValue}
+        placeholder="0"
+        suggestionList={SHOCK_SUGGESTIONS}
+        symbol="%"
+      />
+    </div>
+  );
+}
+
+function SummaryItem({ label, value, className }: { label: string; value: string | undefined; className?: string }) {
+  return (
+    <div className="flex flex-col gap-4">
+      <span className="text-gray-300">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+}
+
+function PositionRiskRow({ scenario }: { scenario: PositionRiskScenario }) {
+  const { position } = scenario;
+  const horizonFeesUsd = scenario.horizonBorrowingFeesUsd + scenario.horizonFundingFeesUsd;
+
+  return (
+    <tr className={cx({ "bg-red-500/10": scenario.isLiquidatable })}>
+      <td className="py-13 pl-16 pr-5">
+        <MarketWithDirectionLabel
+          isLong={position.isLong}
+          indexName={getMarketIndexName(position.marketInfo)}
+          tokenSymbol={position.indexToken.symbol}
+        />
+      </td>
+      <td className="px-5 py-13">
+        {formatUsd(scenario.markPrice, { displayDecimals: position.indexToken.priceDecimals })}
+      </td>
+      <td className={cx("px-5 py-13", getPositiveOrNegativeClass(scenario.pnl))}>
+        {formatUsd(scenario.pnl, { displayPlus: true })}
+      </td>
+      <td className="px-5 py-13">{formatUsd(-horizonFeesUsd, { displayPlus: true })}</td>
+      <td className="px-5 py-13">{formatLeverage(scenario.leverage) ?? "-"}</td>
+      <td className="px-5 py-13">
+        {formatLiquidationPrice(scenario.liquidationPrice, { displayDecimals: position.indexToken.priceDecimals })}
+      </td>
+      <td className="py-13 pl-5 pr-16 text-right">
+        {scenario.isLiquidatable ? (
+          <span className="text-red-500">
+            <Trans>Liquidated</Trans>
+          </span>
+        ) : (
+          formatPercentage(scenario.liquidationDistanceBps) ?? "-"
+        )}
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,32 @@
+import { toPng } from "html-to-image";
+import { useCallback, useRef } from "react";
+
+import downloadImage from "lib/downloadImage";
+import { helperToast } from "lib/helperToast";
+
+/**
+ * Downloads the card as a PNG, elements with the `data-exclude` attribute are left out
+ */
+export function useImageDownload(fileName: string) {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  const handleImageDownload = useCallback(() => {
+    if (!cardRef.current) {
+      helperToast.error("Error in downloading image");
+      return;
+    }
+
+    toPng(cardRef.current, {
+      filter: (element) => {
+        if (element.dataset?.exclude) {
+          return false;
+        }
+        return true;
+      },
+    }).then((dataUri) => {
+      downloadImage(dataUri, fileName);
+    });
+  }, [fileName]);
+
+  return { cardRef, handleImageDownload };
+}
@@ -1,4 +1,5 @@
 import Footer from "components/Footer/Footer";
+import { AccountWatchlistUpdater } from "components/Synthetics/AccountWatchlistUpdater/AccountWatchlistUpdater";
 import { LeaderboardPageConfig } from "domain/synthetics/leaderboard";
 import { LEADERBOARD_PAGES } from "domain/synthetics/leaderboard/constants";
 import { useChainId } from "lib/chains";
@@ -11,6 +12,7 @@ export function LeaderboardPage() {
   return (
     <div className="page-layout">
       <LeaderboardContainer />
+      <AccountWatchlistUpdater />
       <Footer />
     </div>
   );
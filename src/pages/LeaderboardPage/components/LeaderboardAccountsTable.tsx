@@ -22,6 +22,7 @@ import { MIN_COLLATERAL_USD_IN_LEADERBOARD } from "domain/synthetics/leaderboard
 import { USD_DECIMALS } from "config/factors";
 import { useLocalStorageSerializeKey } from "lib/localStorage";
 import { bigMath } from "lib/bigmath";
+import { WatchAccountButton } from "./WatchAccountButton";
 
 function getRowClassname(rank: number | null, competition: CompetitionType | undefined, pinned: boolean) {
   if (pinned) return cx("LeaderboardRankRow-Pinned", "Table_tr");
@@ -357,7 +358,10 @@ const TableRow = memo(
           </span>
         </TableCell>
         <TableCell>
-          <AddressView size={20} address={account.account} breakpoint="XL" />
+          <div className="flex items-center gap-8">
+            <WatchAccountButton account={account.account} />
+            <AddressView size={20} address={account.account} breakpoint="XL" />
+          </div>
         </TableCell>
         <TableCell>
           <TooltipWithPortal
@@ -27,12 +27,14 @@ import { CompetitionPrizes } from "./CompetitionPrizes";
 import { LeaderboardAccountsTable } from "./LeaderboardAccountsTable";
 import { LeaderboardNavigation } from "./LeaderboardNavigation";
 import { LeaderboardPositionsTable } from "./LeaderboardPositionsTable";
+import { LeaderboardWatchlist } from "./LeaderboardWatchlist";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { selectLeaderboardIsLoading } from "context/SyntheticsStateContext/selectors/leaderboardSelectors";
 
 const competitionsTabs = [0, 1];
 const leaderboardTimeframeTabs = [0, 1, 2];
-const leaderboardDataTypeTabs = [0, 1];
+const leaderboardDataTypeTabs = [0, 1, 2];
+const WATCHLIST_TAB_INDEX = 2;
 
 export function LeaderboardContainer() {
   const isCompetition = useLeaderboardIsCompetition();
@@ -53,7 +55,7 @@ export function LeaderboardContainer() {
 
   const competitionLabels = useMemo(() => [t`Top PnL ($)`, t`Top PnL (%)`], []);
   const leaderboardTimeframeLabels = useMemo(() => [t`Total`, t`Last 30 days`, t`Last 7 days`], []);
-  const leaderboardDataTypeLabels = useMemo(() => [t`Top Addresses`, t`Top Positions`], []);
+  const leaderboardDataTypeLabels = useMemo(() => [t`Top Addresses`, t`Top Positions`, t`Watchlist`], []);
 
   const activeCompetition: CompetitionType | undefined = isCompetition
     ? activeCompetitionIndex === 0
@@ -77,6 +79,7 @@ export function LeaderboardContainer() {
 
   const pageKey = useLeaderboardPageKey();
   const leaderboardChainId = useLeaderboardChainId();
+  const isWatchlist = !isCompetition && activeLeaderboardDataTypeIndex === WATCHLIST_TAB_INDEX;
 
   useEffect(() => {
     setActiveLeaderboardTimeframeIndex(0);
@@ -96,7 +99,7 @@ export function LeaderboardContainer() {
   useEffect(() => {
     if (activeLeaderboardDataTypeIndex === 0) {
       setLeaderboardDataType("accounts");
-    } else {
+    } else if (activeLeaderboardDataTypeIndex === 1) {
       setLeaderboardDataType("positions");
     }
   }, [activeLeaderboardDataTypeIndex, setLeaderboardDataType]);
@@ -191,7 +194,7 @@ export function LeaderboardContainer() {
           </div>
         </>
       )}
-      {!isCompetition && (
+      {!isCompetition && !isWatchlist && (
         <Tab
           option={activeLeaderboardTimeframeIndex}
           onChange={handleLeaderboardTimeframeTabChange}
@@ -223,7 +226,13 @@ export function LeaderboardContainer() {
         <CompetitionPrizes leaderboardPageKey={leaderboardPageKey} competitionType={activeCompetition} />
       )}
 
-      <Table activeCompetition={activeCompetition} />
+      {isWatchlist ? (
+        <div className="default-container !pr-0">
+          <LeaderboardWatchlist />
+        </div>
+      ) : (
+        <Table activeCompetition={activeCompetition} />
+      )}
     </div>
   );
 }
@@ -28,6 +28,7 @@ import { bigMath } from "lib/bigmath";
 import { USD_DECIMALS } from "config/factors";
 import { useLocalStorageSerializeKey } from "lib/localStorage";
 import { formatAmount, formatTokenAmountWithUsd, formatUsd } from "lib/numbers";
+import { WatchAccountButton } from "./WatchAccountButton";
 
 function getWinnerRankClassname(rank: number | null) {
   if (rank === null) return undefined;
@@ -354,7 +355,10 @@ const TableRow = memo(
           </span>
         </TableCell>
         <TableCell>
-          <AddressView size={20} address={position.account} breakpoint="XL" />
+          <div className="flex items-center gap-8">
+            <WatchAccountButton account={position.account} />
+            <AddressView size={20} address={position.account} breakpoint="XL" />
+          </div>
         </TableCell>
         <TableCell>
           <TooltipWithPortal
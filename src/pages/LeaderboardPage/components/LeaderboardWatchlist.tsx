@@ -0,0 +1,293 @@
+import { Trans, t } from "@lingui/macro";
+import cx from "classnames";
+import { ethers } from "ethers";
+import { ChangeEvent, KeyboardEvent, memo, useCallback, useMemo, useState } from "react";
+
+import { getAccountWatchlistMirrorCollateralKey } from "config/localStorage";
+import { USD_DECIMALS } from "config/factors";
+import { selectChainId, selectPositionConstants } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import { useSelector } from "context/SyntheticsStateContext/utils";
+import { WatchlistPosition, getWatchlistMirrorTradeUrl } from "domain/synthetics/accountWatchlist";
+import { useAccountWatchlist } from "domain/synthetics/accountWatchlist/useAccountWatchlist";
+import { useWatchlistPositions } from "domain/synthetics/accountWatchlist/useWatchlistPositions";
+import { getMarketIndexName, getMarketPoolName } from "domain/synthetics/markets";
+import { formatLeverage } from "domain/synthetics/positions";
+import { useTradeHistory } from "domain/synthetics/tradeHistory";
+import { useLocalStorageSerializeKey } from "lib/localStorage";
+import { formatUsd, formatUsdPrice, parseValue } from "lib/numbers";
+import { getPositiveOrNegativeClass } from "lib/utils";
+
+import AddressView from "components/AddressView/AddressView";
+import Button from "components/Button/Button";
+import NumberInput from "components/NumberInput/NumberInput";
+import SearchInput from "components/SearchInput/SearchInput";
+import { TradesHistorySkeleton } from "components/Skeleton/Skeleton";
+import { TradeHistoryRow } from "components/Synthetics/TradeHistory/TradeHistoryRow/TradeHistoryRow";
+import { WatchAccountButton } from "./WatchAccountButton";
+
+import "components/Synthetics/TradeHistory/TradeHistorySynthetics.scss";
+
+const WATCHLIST_TRADES_PAGE_SIZE = 20;
+
+const DEFAULT_MIRROR_COLLATERAL_USD = "100";
+
+export function LeaderboardWatchlist() {
+  const chainId = useSelector(selectChainId);
+  const { minCollateralUsd } = useSelector(selectPositionConstants);
+  const { watchedAccounts, addWatchedAccount } = useAccountWatchlist();
+  const accounts = useMemo(() => watchedAccounts.map((item) => item.account), [watchedAccounts]);
+
+  const [addressInputValue, setAddressInputValue] = useState("");
+  const [mirrorCollateralInputValue, setMirrorCollateralInputValue] = useLocalStorageSerializeKey(
+    getAccountWatchlistMirrorCollateralKey(chainId),
+    DEFAULT_MIRROR_COLLATERAL_USD
+  );
+  const mirrorCollateralUsd = parseValue(mirrorCollateralInputValue ?? "", USD_DECIMALS);
+
+  const { positions, isLoading: isPositionsLoading } = useWatchlistPositions(chainId, watchedAccounts);
+  const { tradeActions, isLoading: isTradesLoading } = useTradeHistory(chainId, {
+    account: undefined,
+    accounts,
+    pageSize: WATCHLIST_TRADES_PAGE_SIZE,
+  });
+
+  const isAddressValid = ethers.isAddress(addressInputValue.trim());
+
+  const handleAddressInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    setAddressInputValue(e.target.value);
+  }, []);
+
+  const handleAddAccount = useCallback(() => {
+    if (!isAddressValid) return;
+
+    addWatchedAccount(addressInputValue.trim());
+    setAddressInputValue("");
+  }, [addWatchedAccount, addressInputValue, isAddressValid]);
+
+  const handleAddressKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "Enter") {
+        handleAddAccount();
+      }
+    },
+    [handleAddAccount]
+  );
+
+  const handleMirrorCollateralChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      setMirrorCollateralInputValue(e.target.value);
+    },
+    [setMirrorCollateralInputValue]
+  );
+
+  return (
+    <div>
+      <div className="TableBox__head flex flex-wrap items-center gap-12">
+        <SearchInput
+          placeholder={t`Add Address`}
+          className="LeaderboardSearch"
+          value={addressInputValue}
+          setValue={handleAddressInputChange}
+          onKeyDown={handleAddressKeyDown}
+          autoFocus={false}
+          size="s"
+        />
+        <Button variant="secondary" disabled={!isAddressValid} onClick={handleAddAccount}>
+          <Trans>Watch</Trans>
+        </Button>
+        <div className="ml-auto flex items-center gap-8 text-gray-300">
+          <Trans>Mirror Collateral</Trans>
+          <div className="flex items-center rounded-4 bg-slate-700 px-8 py-4">
+            <span>$</span>
+            <NumberInput
+              className="bg-transparent w-80 text-white"
+              value={mirrorCollateralInputValue}
+              onValueChange={handleMirrorCollateralChange}
+              placeholder="0.0"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="TableBox">
+        <table className={cx("Exchange-list", "App-box", "Table")}>
+          <tbody>
+            <tr className="Exchange-list-header">
+              <th className="TableHeader">
+                <Trans>Address</Trans>
+              </th>
+              <th className="TableHeader">
+                <Trans>Position</Trans>
+              </th>
+              <th className="TableHeader">
+                <Trans>Size</Trans>
+              </th>
+              <th className="TableHeader">
+                <Trans>Lev.</Trans>
+              </th>
+              <th className="TableHeader">
+                <Trans>Entry Price</Trans>
+              </th>
+              <th className="TableHeader">
+                <Trans>Mark Price</Trans>
+              </th>
+              <th className="TableHeader">
+                <Trans>PnL ($)</Trans>
+              </th>
+              <th className="TableHeader" />
+            </tr>
+            <WatchlistPositionsRows
+              watchedAccountsCount={watchedAccounts.length}
+              positions={positions}
+              isLoading={isPositionsLoading}
+              mirrorCollateralUsd={mirrorCollateralUsd}
+            />
+          </tbody>
+        </table>
+      </div>
+
+      {accounts.length > 0 && (
+        <div className="TableBox mt-16">
+          <div className="TradeHistorySynthetics-horizontal-scroll-container">
+            <table className="Exchange-list TradeHistorySynthetics-table App-box">
+              <colgroup>
+                <col className="TradeHistorySynthetics-action-column" />
+                <col className="TradeHistorySynthetics-market-column" />
+                <col className="TradeHistorySynthetics-size-column" />
+                <col className="TradeHistorySynthetics-price-column" />
+                <col className="TradeHistorySynthetics-pnl-fees-column" />
+              </colgroup>
+              <thead className="TradeHistorySynthetics-header">
+                <tr>
+                  <th>
+                    <Trans>Recent Trades</Trans>
+                  </th>
+                  <th>
+                    <Trans>Market</Trans>
+                  </th>
+                  <th>
+                    <Trans>Size</Trans>
+                  </th>
+                  <th>
+                    <Trans>Price</Trans>
+                  </th>
+                  <th className="TradeHistorySynthetics-pnl-fees-header">
+                    <Trans>RPnL ($)</Trans>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {isTradesLoading || minCollateralUsd === undefined ? (
+                  <TradesHistorySkeleton withTimestamp />
+                ) : (
+                  tradeActions?.map((tradeAction) => (
+                    <TradeHistoryRow
+                      key={tradeAction.id}
+                      tradeAction={tradeAction}
+                      minCollateralUsd={minCollateralUsd}
+                      shouldDisplayAccount
+                    />
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {!isTradesLoading && !tradeActions?.length && (
+            <div className="TradeHistorySynthetics-padded-cell">
+              <Trans>No trades yet</Trans>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WatchlistPositionsRows({
+  watchedAccountsCount,
+  positions,
+  isLoading,
+  mirrorCollateralUsd,
+}: {
+  watchedAccountsCount: number;
+  positions: WatchlistPosition[] | undefined;
+  isLoading: boolean;
+  mirrorCollateralUsd: bigint | undefined;
+}) {
+  if (!watchedAccountsCount) {
+    return (
+      <EmptyRow>
+        <Trans>Star addresses in the leaderboard or add them above to follow their positions and trades.</Trans>
+      </EmptyRow>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <EmptyRow>
+        <Trans>Loading...</Trans>
+      </EmptyRow>
+    );
+  }
+
+  if (!positions?.length) {
+    return (
+      <EmptyRow>
+        <Trans>No open positions</Trans>
+      </EmptyRow>
+    );
+  }
+
+  return (
+    <>
+      {positions.map((position) => (
+        <WatchlistPositionRow key={position.key} position={position} mirrorCollateralUsd={mirrorCollateralUsd} />
+      ))}
+    </>
+  );
+}
+
+const WatchlistPositionRow = memo(
+  ({ position, mirrorCollateralUsd }: { position: WatchlistPosition; mirrorCollateralUsd: bigint | undefined }) => {
+    const { marketInfo } = position;
+    const mirrorTradeUrl = getWatchlistMirrorTradeUrl(position, mirrorCollateralUsd);
+
+    return (
+      <tr className="Table_tr">
+        <td>
+          <div className="flex items-center gap-8">
+            <WatchAccountButton account={position.account} />
+            <AddressView size={20} address={position.account} breakpoint="XL" />
+          </div>
+        </td>
+        <td>
+          <span className={position.isLong ? "text-green-500" : "text-red-500"}>
+            {position.isLong ? t`Long` : t`Short`}
+          </span>{" "}
+          {getMarketIndexName(marketInfo)}
+          <span className="subtext">[{getMarketPoolName(marketInfo)}]</span>
+        </td>
+        <td>{formatUsd(position.sizeInUsd)}</td>
+        <td>{formatLeverage(position.leverage) ?? "..."}</td>
+        <td>{formatUsdPrice(position.entryPrice)}</td>
+        <td>{formatUsdPrice(position.markPrice)}</td>
+        <td className={getPositiveOrNegativeClass(position.pnl)}>{formatUsd(position.pnl)}</td>
+        <td className="text-right">
+          <Button variant="secondary" slim to={mirrorTradeUrl} showExternalLinkArrow={false}>
+            <Trans>Mirror</Trans>
+          </Button>
+        </td>
+      </tr>
+    );
+  }
+);
+
+function EmptyRow({ children }: { children: React.ReactNode }) {
+  return (
+    <tr className="Table_tr">
+      <td colSpan={8} className="Table_no-results-row">
+        {children}
+      </td>
+    </tr>
+  );
+}
@@ -0,0 +1,29 @@
+import { t } from "@lingui/macro";
+import { memo, useCallback } from "react";
+
+import { useAccountWatchlist } from "domain/synthetics/accountWatchlist/useAccountWatchlist";
+
+import FavoriteStar from "components/FavoriteStar/FavoriteStar";
+
+export const WatchAccountButton = memo(({ account }: { account: string }) => {
+  const { isWatched, addWatchedAccount, removeWatchedAccount } = useAccountWatchlist();
+  const isAccountWatched = isWatched(account);
+
+  const handleClick = useCallback(() => {
+    if (isAccountWatched) {
+      removeWatchedAccount(account);
+    } else {
+      addWatchedAccount(account);
+    }
+  }, [account, addWatchedAccount, isAccountWatched, removeWatchedAccount]);
+
+  return (
+    <button
+      className="flex shrink-0 items-center"
+      title={isAccountWatched ? t`Remove from Watchlist` : t`Add to Watchlist`}
+      onClick={handleClick}
+    >
+      <FavoriteStar isFavorite={isAccountWatched} />
+    </button>
+  );
+});
@@ -1,5 +1,5 @@
 import { Trans } from "@lingui/macro";
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 import { Mode, Operation } from "components/Synthetics/GmSwap/GmSwapBox/types";
 import { getSyntheticsDepositMarketKey } from "config/localStorage";
@@ -9,6 +9,7 @@ import {
 } from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { useMarketTokensData } from "domain/synthetics/markets";
+import { isGlv } from "domain/synthetics/markets/glv";
 import { useGmMarketsApy } from "domain/synthetics/markets/useGmMarketsApy";
 import { getTokenData } from "domain/synthetics/tokens";
 import { useChainId } from "lib/chains";
@@ -25,7 +26,10 @@ import { GmSwapBox } from "components/Synthetics/GmSwap/GmSwapBox/GmSwapBox";
 
 import { MarketStatsWithComposition } from "components/Synthetics/MarketStats/MarketStatsWithComposition";
 import "./MarketPoolsPage.scss";
+import { GlvCompositionExplorer } from "components/Synthetics/GlvComposition/GlvCompositionExplorer";
 import { GmList } from "components/Synthetics/GmList/GmList";
+import { GmHedgeBuilder } from "components/Synthetics/GmHedgeBuilder/GmHedgeBuilder";
+import { LpPerformance } from "components/Synthetics/LpPerformance/LpPerformance";
 
 export function MarketPoolsPage() {
   const { chainId } = useChainId();
@@ -64,6 +68,12 @@ export function MarketPoolsPage() {
     selectedMarketGmKey
   );
 
+  const handleSelectGlvGmMarket = useCallback((marketAddress: string) => {
+    setOperation(Operation.Deposit);
+    setSelectedGlvGmMarketKey(marketAddress);
+    gmSwapBoxRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, []);
+
   return (
     <SEO title={getPageTitle("V2 Pools")}>
       <div className="default-container page-layout">
@@ -111,6 +121,25 @@ export function MarketPoolsPage() {
           </div>
         </div>
 
+        {marketInfo && isGlv(marketInfo) && (
+          <GlvCompositionExplorer
+            glvInfo={marketInfo}
+            marketsInfoData={marketsInfoData}
+            marketTokensData={depositMarketTokensData}
+            onSelectGmMarket={handleSelectGlvGmMarket}
+          />
+        )}
+
+        <LpPerformance marketInfo={marketInfo} marketToken={marketToken} />
+
+        {marketInfo && !isGlv(marketInfo) && (
+          <GmHedgeBuilder
+            marketInfo={marketInfo}
+            marketToken={marketToken}
+            marketsTokensApyData={marketsTokensApyData}
+          />
+        )}
+
         <div className="Tab-title-section">
           <div className="Page-title">
             <Trans>Select a Pool</Trans>
@@ -85,6 +85,7 @@ function Referrals() {
     if (account && isSomeReferralCodeAvailable) {
       return (
         <AffiliatesStats
+          account={account}
           referralsData={referralsData}
           handleCreateReferralCode={handleCreateReferralCode}
           setRecentlyAddedCodes={setRecentlyAddedCodes}
@@ -14,12 +14,18 @@ import { useCancellingOrdersKeysState } from "context/SyntheticsStateContext/hoo
 import { useOrderErrorsCount } from "context/SyntheticsStateContext/hooks/orderHooks";
 import { selectChartToken } from "context/SyntheticsStateContext/selectors/chartSelectors";
 import { selectClaimablesCount } from "context/SyntheticsStateContext/selectors/claimsSelectors";
-import { selectChainId, selectPositionsInfoData } from "context/SyntheticsStateContext/selectors/globalSelectors";
+import {
+  selectChainId,
+  selectIsPaperTrading,
+  selectOrdersInfoData,
+  selectPositionsInfoData,
+} from "context/SyntheticsStateContext/selectors/globalSelectors";
 import { selectOrdersCount } from "context/SyntheticsStateContext/selectors/orderSelectors";
 import { selectTradeboxSetActivePosition } from "context/SyntheticsStateContext/selectors/tradeboxSelectors";
 import { useSelector } from "context/SyntheticsStateContext/utils";
 import { getMarketIndexName, getMarketPoolName } from "domain/synthetics/markets";
 import { cancelOrdersTxn } from "domain/synthetics/orders/cancelOrdersTxn";
+import { usePaperTradingActions } from "domain/synthetics/paperTrading/usePaperTradingActions";
 import type { OrderType } from "domain/synthetics/orders/types";
 import { TradeMode } from "domain/synthetics/trade";
 import { useTradeParamsProcessor } from "domain/synthetics/trade/useTradeParamsProcessor";
@@ -38,9 +44,21 @@ import { NpsModal } from "components/NpsModal/NpsModal";
 import Checkbox from "components/Checkbox/Checkbox";
 import Footer from "components/Footer/Footer";
 import { InterviewModal } from "components/InterviewModal/InterviewModal";
+import { BatchOrderEditor } from "components/Synthetics/BatchOrderEditor/BatchOrderEditor";
+import { OrderEditorContainer } from "components/OrderEditorContainer/OrderEditorContainer";
 import { Claims } from "components/Synthetics/Claims/Claims";
 import { OrderList } from "components/Synthetics/OrderList/OrderList";
 import { PositionEditor } from "components/Synthetics/PositionEditor/PositionEditor";
+import { PositionAlertsModal } from "components/Synthetics/PositionAlertsModal/PositionAlertsModal";
+import { PositionMigrationModal } from "components/Synthetics/PositionMigrationModal/PositionMigrationModal";
+import { ConditionalOrdersModal } from "components/Synthetics/ConditionalOrdersModal/ConditionalOrdersModal";
+import { SidecarOrderTemplateModal } from "components/Synthetics/SidecarOrderTemplateModal/SidecarOrderTemplateModal";
+import { PaperTradingUpdater } from "components/Synthetics/PaperTradingUpdater/PaperTradingUpdater";
+import { PriceAlertsUpdater } from "components/Synthetics/PriceAlertsUpdater/PriceAlertsUpdater";
+import { AccountWatchlistUpdater } from "components/Synthetics/AccountWatchlistUpdater/AccountWatchlistUpdater";
+import { TrailingStopsUpdater } from "components/Synthetics/TrailingStopsUpdater/TrailingStopsUpdater";
+import { TwapOrdersUpdater } from "components/Synthetics/TwapOrdersUpdater/TwapOrdersUpdater";
+import { ConditionalOrdersUpdater } from "components/Synthetics/ConditionalOrdersUpdater/ConditionalOrdersUpdater";
 import { PositionList } from "components/Synthetics/PositionList/PositionList";
 import { PositionSeller } from "components/Synthetics/PositionSeller/PositionSeller";
 import { TVChart } from "components/Synthetics/TVChart/TVChart";
@@ -83,6 +101,7 @@ export function SyntheticsPage(p: Props) {
   );
 
   const setActivePosition = useSelector(selectTradeboxSetActivePosition);
+  const isPaperTrading = useSelector(selectIsPaperTrading);
 
   useTradeParamsProcessor();
 
@@ -110,6 +129,18 @@ export function SyntheticsPage(p: Props) {
   } = useOrdersControl();
 
   const [selectedPositionOrderKey, setSelectedPositionOrderKey] = useState<string>();
+  const [tpSlTemplatePositionKey, setTpSlTemplatePositionKey] = useState<string>();
+  const handleCloseTpSlTemplateModal = useCallback(() => setTpSlTemplatePositionKey(undefined), []);
+  const [alertPositionKey, setAlertPositionKey] = useState<string>();
+  const handleCloseAlertModal = useCallback(() => setAlertPositionKey(undefined), []);
+  const [migratingPositionKey, setMigratingPositionKey] = useState<string>();
+  const handleCloseMigrationModal = useCallback(() => setMigratingPositionKey(undefined), []);
+  const [conditionalOrdersPositionKey, setConditionalOrdersPositionKey] = useState<string>();
+  const handleCloseConditionalOrdersModal = useCallback(() => setConditionalOrdersPositionKey(undefined), []);
+  const [isBatchOrderEditorVisible, setIsBatchOrderEditorVisible] = useState(false);
+  const handleEditSelectedOrders = useCallback(() => setIsBatchOrderEditorVisible(true), []);
+  const handleCloseBatchOrderEditor = useCallback(() => setIsBatchOrderEditorVisible(false), []);
+  const handleBatchOrdersSubmitted = useCallback(() => setSelectedOrderKeys(EMPTY_ARRAY), [setSelectedOrderKeys]);
 
   const handlePositionListOrdersClick = useCallback(
     (positionKey: string, orderKey: string | undefined) => {
@@ -252,6 +283,11 @@ export function SyntheticsPage(p: Props) {
                   qa="exchange-list-tabs"
                 />
                 <div className="align-right Exchange-should-show-position-lines">
+                  {listSection === ListSection.Orders && selectedOrderKeys.length > 0 && !isPaperTrading && (
+                    <button className="muted cancel-order-btn text-15" type="button" onClick={handleEditSelectedOrders}>
+                      <Plural value={selectedOrderKeys.length} one="Edit order" other="Edit # orders" />
+                    </button>
+                  )}
                   {listSection === ListSection.Orders && selectedOrderKeys.length > 0 && (
                     <button
                       className="muted cancel-order-btn text-15"
@@ -279,6 +315,10 @@ export function SyntheticsPage(p: Props) {
                   onOrdersClick={handlePositionListOrdersClick}
                   onSelectPositionClick={onSelectPositionClick}
                   onClosePositionClick={setClosingPositionKey}
+                  onApplyTpSlTemplateClick={isPaperTrading ? undefined : setTpSlTemplatePositionKey}
+                  onCreateAlertClick={isPaperTrading ? undefined : setAlertPositionKey}
+                  onMigrateClick={isPaperTrading ? undefined : setMigratingPositionKey}
+                  onConditionalOrdersClick={isPaperTrading ? undefined : setConditionalOrdersPositionKey}
                   openSettings={openSettings}
                   onCancelOrder={onCancelOrder}
                 />
@@ -295,6 +335,7 @@ export function SyntheticsPage(p: Props) {
                   orderTypesFilter={orderTypesFilter}
                   setOrderTypesFilter={setOrderTypesFilter}
                   onCancelSelectedOrders={onCancelSelectedOrders}
+                  onEditSelectedOrders={isPaperTrading ? undefined : handleEditSelectedOrders}
                 />
               )}
               {listSection === ListSection.Trades && <TradeHistory account={account} shouldShowPaginationButtons />}
@@ -326,6 +367,10 @@ export function SyntheticsPage(p: Props) {
                 onOrdersClick={handlePositionListOrdersClick}
                 onSelectPositionClick={onSelectPositionClick}
                 onClosePositionClick={setClosingPositionKey}
+                onApplyTpSlTemplateClick={isPaperTrading ? undefined : setTpSlTemplatePositionKey}
+                onCreateAlertClick={isPaperTrading ? undefined : setAlertPositionKey}
+                onMigrateClick={isPaperTrading ? undefined : setMigratingPositionKey}
+                onConditionalOrdersClick={isPaperTrading ? undefined : setConditionalOrdersPositionKey}
                 openSettings={openSettings}
                 onCancelOrder={onCancelOrder}
               />
@@ -342,6 +387,7 @@ export function SyntheticsPage(p: Props) {
                 orderTypesFilter={orderTypesFilter}
                 setOrderTypesFilter={setOrderTypesFilter}
                 onCancelSelectedOrders={onCancelSelectedOrders}
+                onEditSelectedOrders={isPaperTrading ? undefined : handleEditSelectedOrders}
               />
             )}
             {listSection === ListSection.Trades && <TradeHistory account={account} shouldShowPaginationButtons />}
@@ -354,6 +400,46 @@ export function SyntheticsPage(p: Props) {
 
       <PositionEditor allowedSlippage={savedAllowedSlippage} setPendingTxns={setPendingTxns} />
 
+      {/* Position and order lists render their own editor, order lines on the chart can be moved from other tabs */}
+      {(listSection === ListSection.Trades || listSection === ListSection.Claims) && <OrderEditorContainer />}
+
+      <SidecarOrderTemplateModal
+        positionKey={isPaperTrading ? undefined : tpSlTemplatePositionKey}
+        allowedSlippage={savedAllowedSlippage}
+        onClose={handleCloseTpSlTemplateModal}
+        setPendingTxns={setPendingTxns}
+      />
+
+      <BatchOrderEditor
+        orderKeys={selectedOrderKeys}
+        isVisible={isBatchOrderEditorVisible}
+        onClose={handleCloseBatchOrderEditor}
+        onSubmitted={handleBatchOrdersSubmitted}
+        setPendingTxns={setPendingTxns}
+      />
+
+      <PositionAlertsModal positionKey={alertPositionKey} onClose={handleCloseAlertModal} />
+
+      <PositionMigrationModal
+        positionKey={migratingPositionKey}
+        allowedSlippage={savedAllowedSlippage}
+        onClose={handleCloseMigrationModal}
+        setPendingTxns={setPendingTxns}
+      />
+
+      <ConditionalOrdersModal
+        positionKey={conditionalOrdersPositionKey}
+        allowedSlippage={savedAllowedSlippage}
+        onClose={handleCloseConditionalOrdersModal}
+      />
+
+      <TrailingStopsUpdater setPendingTxns={setPendingTxns} />
+      <TwapOrdersUpdater setPendingTxns={setPendingTxns} />
+      <ConditionalOrdersUpdater setPendingTxns={setPendingTxns} />
+      <PaperTradingUpdater />
+      <PriceAlertsUpdater />
+      <AccountWatchlistUpdater />
+
       <InterviewModal isVisible={isInterviewModalVisible} setIsVisible={setIsInterviewModalVisible} />
       <NpsModal />
       <Footer />
@@ -370,6 +456,9 @@ function useOrdersControl() {
   const cancelOrdersDetailsMessage = useSubaccountCancelOrdersDetailsMessage(undefined, selectedOrderKeys.length);
   const subaccount = useSubaccount(null, selectedOrderKeys.length);
   const isCancelOrdersProcessing = cancellingOrdersKeys.length > 0;
+  const isPaperTrading = useSelector(selectIsPaperTrading);
+  const ordersInfoData = useSelector(selectOrdersInfoData);
+  const { submitPaperOrders } = usePaperTradingActions();
 
   const [marketsDirectionsFilter, setMarketsDirectionsFilter] = useState<MarketFilterLongShortItemData[]>([]);
   const [orderTypesFilter, setOrderTypesFilter] = useState<OrderType[]>([]);
@@ -379,8 +468,18 @@ function useOrdersControl() {
       if (!signer) return;
       const keys = selectedOrderKeys;
       setCanellingOrdersKeys((p) => uniq(p.concat(keys)));
+
+      if (isPaperTrading) {
+        submitPaperOrders({ cancelOrderKeys: keys }).finally(() => {
+          setSelectedOrderKeys(EMPTY_ARRAY);
+          setCanellingOrdersKeys((p) => p.filter((e) => !keys.includes(e)));
+        });
+        return;
+      }
+
       cancelOrdersTxn(chainId, signer, subaccount, {
         orderKeys: keys,
+        ordersInfoData,
         setPendingTxns: setPendingTxns,
         detailsMsg: cancelOrdersDetailsMessage,
       })
@@ -394,7 +493,18 @@ function useOrdersControl() {
           setCanellingOrdersKeys((p) => p.filter((e) => !keys.includes(e)));
         });
     },
-    [cancelOrdersDetailsMessage, chainId, selectedOrderKeys, setCanellingOrdersKeys, setPendingTxns, signer, subaccount]
+    [
+      cancelOrdersDetailsMessage,
+      chainId,
+      isPaperTrading,
+      ordersInfoData,
+      selectedOrderKeys,
+      setCanellingOrdersKeys,
+      setPendingTxns,
+      signer,
+      submitPaperOrders,
+      subaccount,
+    ]
   );
 
   const onCancelOrder = useCallback(
@@ -402,16 +512,32 @@ function useOrdersControl() {
       if (!signer) return;
 
       setCanellingOrdersKeys((p) => uniq(p.concat(key)));
-      cancelOrdersTxn(chainId, signer, subaccount, {
-        orderKeys: [key],
-        setPendingTxns: setPendingTxns,
-        detailsMsg: cancelOrdersDetailsMessage,
-      }).finally(() => {
+
+      const txnPromise = isPaperTrading
+        ? submitPaperOrders({ cancelOrderKeys: [key] })
+        : cancelOrdersTxn(chainId, signer, subaccount, {
+            orderKeys: [key],
+            ordersInfoData,
+            setPendingTxns: setPendingTxns,
+            detailsMsg: cancelOrdersDetailsMessage,
+          });
+
+      txnPromise.finally(() => {
         setCanellingOrdersKeys((prev) => prev.filter((k) => k !== key));
         setSelectedOrderKeys((prev) => prev.filter((k) => k !== key));
       });
     },
-    [cancelOrdersDetailsMessage, chainId, setCanellingOrdersKeys, setPendingTxns, signer, subaccount]
+    [
+      cancelOrdersDetailsMessage,
+      chainId,
+      isPaperTrading,
+      ordersInfoData,
+      setCanellingOrdersKeys,
+      setPendingTxns,
+      signer,
+      submitPaperOrders,
+      subaccount,
+    ]
   );
 
   return {